@@ -230,6 +230,21 @@ self.addEventListener('message', async (event) => {
       }
       break;
 
+    case 'invalidate':
+      try {
+        const { patterns = [] } = data || {};
+        const cache = await caches.open(CACHE_NAME);
+        const keys = await cache.keys();
+        const matching = keys.filter(request => patterns.some(pattern => request.url.includes(pattern)));
+        await Promise.all(matching.map(key => cache.delete(key)));
+
+        event.ports[0].postMessage({ success: true, cleared: matching.length });
+        console.log(`🧹 Invalidated ${matching.length} cached entries`);
+      } catch (error) {
+        event.ports[0].postMessage({ success: false, error: error.message });
+      }
+      break;
+
     case 'get-cache-stats':
       try {
         const cache = await caches.open(CACHE_NAME);
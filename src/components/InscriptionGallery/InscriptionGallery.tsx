@@ -32,6 +32,8 @@ export interface InscriptionGalleryProps {
   htmlRenderMode?: 'iframe' | 'sandbox';
   /** Force iframe rendering for all content */
   forceIframe?: boolean;
+  /** Run HTML inscriptions without same-origin access, serving recursion over postMessage */
+  strictHtmlIsolation?: boolean;
   /** Custom loading component */
   loadingComponent?: React.ReactNode;
   /** Custom error component */
@@ -83,6 +85,7 @@ interface VirtualizedInscriptionCardProps {
   showControls: boolean;
   htmlRenderMode: 'iframe' | 'sandbox';
   forceIframe: boolean;
+  strictHtmlIsolation: boolean;
   apiEndpoint?: string;
   onInscriptionClick?: (inscription: InscriptionData) => void;
   onLoadStart: () => void;
@@ -98,6 +101,7 @@ const VirtualizedInscriptionCard: React.FC<VirtualizedInscriptionCardProps> = ({
   showControls,
   htmlRenderMode,
   forceIframe,
+  strictHtmlIsolation,
   apiEndpoint,
   onInscriptionClick,
   onLoadStart,
@@ -138,6 +142,7 @@ const VirtualizedInscriptionCard: React.FC<VirtualizedInscriptionCardProps> = ({
           showHeader={false}
           htmlRenderMode={htmlRenderMode}
           forceIframe={forceIframe}
+          strictHtmlIsolation={strictHtmlIsolation}
           apiEndpoint={apiEndpoint}
           className="w-full h-full"
         />
@@ -156,6 +161,7 @@ export const InscriptionGallery: React.FC<InscriptionGalleryProps> = ({
   showControls = true,
   htmlRenderMode = 'sandbox',
   forceIframe = false,
+  strictHtmlIsolation = false,
   loadingComponent,
   errorComponent,
   onInscriptionClick,
@@ -309,6 +315,7 @@ export const InscriptionGallery: React.FC<InscriptionGalleryProps> = ({
             showControls={showControls}
             htmlRenderMode={htmlRenderMode}
             forceIframe={forceIframe}
+            strictHtmlIsolation={strictHtmlIsolation}
             apiEndpoint={apiEndpoint}
             className="inscription-gallery"
           />
@@ -386,6 +393,7 @@ export const InscriptionGallery: React.FC<InscriptionGalleryProps> = ({
                           showControls={showControls}
                           htmlRenderMode={htmlRenderMode}
                           forceIframe={forceIframe}
+                          strictHtmlIsolation={strictHtmlIsolation}
                           apiEndpoint={apiEndpoint}
                           onInscriptionClick={onInscriptionClick}
                           onLoadStart={() => recordLoadStart(inscription.id)}
@@ -434,6 +442,7 @@ export const InscriptionGallery: React.FC<InscriptionGalleryProps> = ({
               showControls={showControls}
               htmlRenderMode={htmlRenderMode}
               forceIframe={forceIframe}
+              strictHtmlIsolation={strictHtmlIsolation}
               apiEndpoint={apiEndpoint}
               onInscriptionClick={onInscriptionClick}
             />
@@ -461,6 +470,7 @@ interface InscriptionCardProps {
   showControls?: boolean;
   htmlRenderMode?: 'iframe' | 'sandbox';
   forceIframe?: boolean;
+  strictHtmlIsolation?: boolean;
   apiEndpoint?: string;
   onInscriptionClick?: (inscription: InscriptionData) => void;
 }
@@ -472,6 +482,7 @@ const InscriptionCard: React.FC<InscriptionCardProps> = ({
   showControls = false,
   htmlRenderMode = 'sandbox',
   forceIframe = false,
+  strictHtmlIsolation = false,
   apiEndpoint,
   onInscriptionClick
 }) => {
@@ -527,6 +538,7 @@ const InscriptionCard: React.FC<InscriptionCardProps> = ({
             apiEndpoint={apiEndpoint}
             htmlRenderMode={htmlRenderMode}
             forceIframe={forceIframe}
+            strictHtmlIsolation={strictHtmlIsolation}
             className="w-full h-full overflow-hidden"
             onAnalysisComplete={(analysis: ContentAnalysis) => {
               console.log('Analysis complete for card:', inscriptionId, analysis);
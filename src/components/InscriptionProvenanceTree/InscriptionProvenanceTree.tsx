@@ -0,0 +1,306 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ChevronRight, ChevronDown, Maximize2, Loader2, GitBranch, AlertCircle } from 'lucide-react';
+import { Button } from '../ui/button';
+import { InscriptionRenderer } from '../InscriptionViewer/InscriptionRenderer';
+import { InscriptionModal } from '../InscriptionViewer/InscriptionModal';
+import { ordinalsApi, OrdinalsApiService, InscriptionApiData } from '../../services/OrdinalsApiService';
+import {
+  ProvenanceDirection,
+  ProvenanceNode,
+  ProvenanceNodeMap,
+  appendRelatives,
+  createProvenanceRoots,
+  provenanceNodeKey as nodeKey
+} from '../../utils/provenanceTree';
+
+/**
+ * Inscription Provenance Tree
+ * Walks parent and child inscriptions recursively with pagination,
+ * loading each level on demand as nodes are expanded
+ */
+
+export type { ProvenanceDirection };
+
+export interface InscriptionProvenanceTreeProps {
+  inscriptionId: string;
+  direction?: ProvenanceDirection | 'both';
+  maxDepth?: number; // Deepest level that can be expanded
+  initialExpandDepth?: number; // Levels expanded automatically on load
+  thumbnailSize?: number;
+  apiService?: OrdinalsApiService;
+  apiEndpoint?: string; // Passed to thumbnails and the modal
+  onNodeSelect?: (inscriptionId: string, info?: InscriptionApiData) => void;
+  className?: string;
+}
+
+type NodeMap = ProvenanceNodeMap;
+
+const shortId = (inscriptionId: string) => `${inscriptionId.slice(0, 8)}...${inscriptionId.slice(-4)}`;
+
+export function InscriptionProvenanceTree({
+  inscriptionId,
+  direction = 'both',
+  maxDepth = 10,
+  initialExpandDepth = 1,
+  thumbnailSize = 64,
+  apiService = ordinalsApi,
+  apiEndpoint,
+  onNodeSelect,
+  className = ''
+}: InscriptionProvenanceTreeProps) {
+  const [nodes, setNodes] = useState<NodeMap>({});
+  const [rootInfo, setRootInfo] = useState<InscriptionApiData | null>(null);
+  const nodesRef = useRef<NodeMap>({});
+  const isMountedRef = useRef(true);
+
+  const directions: ProvenanceDirection[] = direction === 'both' ? ['parents', 'children'] : [direction];
+
+  const updateNodes = useCallback((updater: (current: NodeMap) => NodeMap) => {
+    if (!isMountedRef.current) return;
+    nodesRef.current = updater(nodesRef.current);
+    setNodes(nodesRef.current);
+  }, []);
+
+  const patchNode = useCallback((key: string, patch: Partial<ProvenanceNode>) => {
+    updateNodes(current => current[key] ? { ...current, [key]: { ...current[key], ...patch } } : current);
+  }, [updateNodes]);
+
+  /**
+   * Load the next page of parents or children for a node
+   */
+  const loadRelatives = useCallback(async (key: string) => {
+    const node = nodesRef.current[key];
+    if (!node || node.loading) return;
+
+    const page = node.page + 1;
+    patchNode(key, { loading: true, error: undefined, expanded: true });
+
+    try {
+      const response = node.direction === 'children'
+        ? await apiService.getInscriptionChildrenDetails(node.inscriptionId, page)
+        : await apiService.getInscriptionParentsDetails(node.inscriptionId, page);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || `Failed to load ${node.direction}`);
+      }
+
+      const relatives = 'children' in response.data ? response.data.children : response.data.parents;
+
+      // Cyclic relatives are dropped; nothing is added if the tree was reset meanwhile
+      let newNodes: ProvenanceNode[] = [];
+      updateNodes(current => {
+        const result = appendRelatives(current, key, relatives, page, response.data.more);
+        newNodes = result.added;
+        return result.nodes;
+      });
+
+      console.log(`🌳 Loaded ${newNodes.length} ${node.direction} for ${node.inscriptionId} (page ${page})`);
+
+      // Keep walking automatically until the initial expansion depth is reached
+      if (node.depth + 1 < initialExpandDepth && node.depth + 1 < maxDepth) {
+        newNodes.forEach(newNode => {
+          loadRelatives(nodeKey(newNode.direction, newNode.ancestry));
+        });
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to load ${node.direction} for ${node.inscriptionId}:`, error);
+      patchNode(key, {
+        loading: false,
+        error: error instanceof Error ? error.message : `Failed to load ${node.direction}`
+      });
+    }
+  }, [apiService, initialExpandDepth, maxDepth, patchNode, updateNodes]);
+
+  // Reset the tree whenever the root inscription changes
+  useEffect(() => {
+    isMountedRef.current = true;
+    const roots = createProvenanceRoots(inscriptionId, directions);
+    nodesRef.current = roots;
+    setNodes(roots);
+    setRootInfo(null);
+
+    if (initialExpandDepth > 0) {
+      directions.forEach(dir => loadRelatives(nodeKey(dir, [inscriptionId])));
+    }
+
+    apiService.getInscriptionInfo(inscriptionId).then(response => {
+      if (isMountedRef.current && response.success) {
+        setRootInfo(response.data);
+      }
+    });
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [inscriptionId, direction, apiService]); // loadRelatives is stable for a given configuration
+
+  const toggleNode = useCallback((key: string) => {
+    const node = nodesRef.current[key];
+    if (!node) return;
+    if (node.page < 0) {
+      loadRelatives(key);
+    } else {
+      patchNode(key, { expanded: !node.expanded });
+    }
+  }, [loadRelatives, patchNode]);
+
+  const renderNodeCard = (node: ProvenanceNode, isRoot: boolean) => {
+    const number = node.info?.number ?? (isRoot ? rootInfo?.number : undefined);
+    const contentType = node.info?.effective_content_type || node.info?.content_type || (isRoot ? rootInfo?.content_type : undefined);
+
+    return (
+      <div
+        className="flex items-center gap-3 p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer min-w-0"
+        onClick={() => onNodeSelect?.(node.inscriptionId, node.info || rootInfo || undefined)}
+      >
+        <div
+          className="flex-shrink-0 overflow-hidden rounded bg-gray-100 dark:bg-gray-800"
+          style={{ width: thumbnailSize, height: thumbnailSize }}
+        >
+          <InscriptionRenderer
+            inscriptionId={node.inscriptionId}
+            inscriptionNumber={number}
+            size={thumbnailSize}
+            showHeader={false}
+            showControls={false}
+            autoLoad={true}
+            apiEndpoint={apiEndpoint}
+            showDelegateBadge={false}
+            className="w-full h-full"
+          />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium truncate">
+            {number !== undefined ? `#${number}` : shortId(node.inscriptionId)}
+          </div>
+          <div className="text-xs text-gray-500 font-mono truncate" title={node.inscriptionId}>
+            {shortId(node.inscriptionId)}
+          </div>
+          {contentType && (
+            <div className="text-xs text-gray-400 truncate">{contentType}</div>
+          )}
+        </div>
+        <div onClick={(event) => event.stopPropagation()}>
+          <InscriptionModal
+            inscriptionId={node.inscriptionId}
+            inscriptionNumber={number}
+            apiEndpoint={apiEndpoint}
+            trigger={
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Open inscription">
+                <Maximize2 className="h-4 w-4" />
+              </Button>
+            }
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderRelatives = (node: ProvenanceNode): React.ReactNode => {
+    if (!node.expanded) return null;
+
+    return (
+      <div className="ml-4 pl-3 border-l border-gray-200 dark:border-gray-700 space-y-2 mt-2">
+        {node.relatives.map(relativeKey => {
+          const relative = nodes[relativeKey];
+          return relative ? <React.Fragment key={relativeKey}>{renderTreeNode(relative)}</React.Fragment> : null;
+        })}
+
+        {node.page >= 0 && !node.loading && node.relatives.length === 0 && !node.error && (
+          <div className="text-xs text-gray-400 py-1">
+            No {node.direction}
+          </div>
+        )}
+
+        {node.loading && (
+          <div className="flex items-center gap-2 text-xs text-gray-500 py-1">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading {node.direction}...
+          </div>
+        )}
+
+        {node.error && (
+          <div className="flex items-center gap-2 text-xs text-red-500 py-1">
+            <AlertCircle className="h-3 w-3" />
+            <span className="truncate">{node.error}</span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => loadRelatives(nodeKey(node.direction, node.ancestry))}>
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {node.hasMore && !node.loading && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            onClick={() => loadRelatives(nodeKey(node.direction, node.ancestry))}
+          >
+            Load more {node.direction}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderTreeNode = (node: ProvenanceNode): React.ReactNode => {
+    const key = nodeKey(node.direction, node.ancestry);
+    const canExpand = node.depth < maxDepth;
+
+    return (
+      <div>
+        <div className="flex items-center gap-1 min-w-0">
+          {canExpand ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 flex-shrink-0"
+              onClick={() => toggleNode(key)}
+              title={node.expanded ? 'Collapse' : `Show ${node.direction}`}
+            >
+              {node.expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </Button>
+          ) : (
+            <span className="w-6 flex-shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">{renderNodeCard(node, false)}</div>
+        </div>
+        {renderRelatives(node)}
+      </div>
+    );
+  };
+
+  const rootNodes = directions.map(dir => nodes[nodeKey(dir, [inscriptionId])]).filter(Boolean);
+  const rootNode = rootNodes[0];
+
+  return (
+    <div className={`inscription-provenance-tree space-y-4 ${className}`}>
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <GitBranch className="h-4 w-4" />
+        Provenance
+      </div>
+
+      {rootNode && renderNodeCard(rootNode, true)}
+
+      {rootNodes.map(root => (
+        <div key={root.direction}>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-1 text-xs font-medium text-gray-600 dark:text-gray-400"
+              onClick={() => toggleNode(nodeKey(root.direction, root.ancestry))}
+            >
+              {root.expanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+              {root.direction === 'parents' ? 'Parents' : 'Children'}
+              {root.page >= 0 && ` (${root.relatives.length}${root.hasMore ? '+' : ''})`}
+            </Button>
+          </div>
+          {renderRelatives(root)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default InscriptionProvenanceTree;
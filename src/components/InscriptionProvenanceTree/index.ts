@@ -0,0 +1,3 @@
+export { InscriptionProvenanceTree } from './InscriptionProvenanceTree';
+export type { InscriptionProvenanceTreeProps, ProvenanceDirection } from './InscriptionProvenanceTree';
+export { default } from './InscriptionProvenanceTree';
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { DelegateResolution } from '@/services/DelegateResolver';
+
+/**
+ * "Delegated from" badge linking to the inscription whose content is displayed
+ */
+
+interface DelegateBadgeProps {
+  delegation: DelegateResolution;
+  explorerUrl?: string; // Base URL used for the inscription link
+  onOpenInscription?: (inscriptionId: string) => void; // Overrides the link navigation when provided
+  className?: string;
+}
+
+const shortId = (inscriptionId: string) => `${inscriptionId.slice(0, 8)}...${inscriptionId.slice(-4)}`;
+
+export function DelegateBadge({
+  delegation,
+  explorerUrl = 'https://ordinals.com',
+  onOpenInscription,
+  className = ''
+}: DelegateBadgeProps) {
+  if (!delegation.isDelegated) {
+    return null;
+  }
+
+  const baseUrl = explorerUrl.endsWith('/') ? explorerUrl.slice(0, -1) : explorerUrl;
+  const hops = delegation.chain.length - 1;
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    event.stopPropagation();
+    if (onOpenInscription) {
+      event.preventDefault();
+      onOpenInscription(delegation.resolvedId);
+    }
+  };
+
+  return (
+    <Badge
+      variant="secondary"
+      className={`gap-1 max-w-full ${className}`}
+      title={`Content delegated via ${delegation.chain.join(' → ')}`}
+    >
+      <Link2 className="h-3 w-3 flex-shrink-0" />
+      <span className="truncate">
+        Delegated from{' '}
+        <a
+          href={`${baseUrl}/inscription/${delegation.resolvedId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={handleClick}
+          className="font-mono underline hover:text-blue-600"
+        >
+          {shortId(delegation.resolvedId)}
+        </a>
+        {hops > 1 && ` (${hops} hops)`}
+      </span>
+    </Badge>
+  );
+}
+
+export default DelegateBadge;
@@ -4,6 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Eye, Maximize2, X } from 'lucide-react';
 import { InscriptionRenderer } from './InscriptionRenderer';
 import { ContentAnalysis } from './contentAnalyzer';
+import { DelegateBadge } from './DelegateBadge';
+import { MetadataPanel } from './MetadataPanel';
+import type { DelegateResolution } from '@/services/DelegateResolver';
+import { ordinalsApi, OrdinalsApiService, getEndpointService } from '@/services/OrdinalsApiService';
 
 /**
  * Modal for displaying inscription content with smart rendering
@@ -20,6 +24,12 @@ interface InscriptionModalProps {
   showTriggerButton?: boolean;
   htmlRenderMode?: 'iframe' | 'sandbox';
   forceIframe?: boolean;
+  strictHtmlIsolation?: boolean;
+  apiEndpoint?: string;
+  apiService?: OrdinalsApiService; // Service for content lookups and metadata, defaults to one for apiEndpoint
+  resolveDelegates?: boolean;
+  showMetadata?: boolean; // Show the decoded CBOR metadata panel
+  onOpenInscription?: (inscriptionId: string) => void; // Called when the "delegated from" badge is clicked
 }
 
 const modalSizes = {
@@ -40,12 +50,25 @@ export function InscriptionModal({
   modalSize = 'lg',
   showTriggerButton = true,
   htmlRenderMode = 'sandbox',
-  forceIframe = false
+  forceIframe = false,
+  strictHtmlIsolation = false,
+  apiEndpoint,
+  apiService,
+  resolveDelegates = true,
+  showMetadata = true,
+  onOpenInscription
 }: InscriptionModalProps) {
   const [open, setOpen] = React.useState(false);
   const [analysis, setAnalysis] = React.useState<ContentAnalysis | null>(null);
+  const [delegation, setDelegation] = React.useState<DelegateResolution | null>(null);
   const { size, className } = modalSizes[modalSize];
 
+  // Content, delegates and metadata all come from the same endpoint
+  const api = React.useMemo(
+    () => apiService || (apiEndpoint ? getEndpointService(apiEndpoint) : ordinalsApi),
+    [apiService, apiEndpoint]
+  );
+
   const handleAnalysisComplete = (contentAnalysis: ContentAnalysis) => {
     setAnalysis(contentAnalysis);
   };
@@ -92,6 +115,13 @@ export function InscriptionModal({
                   </span>
                 </div>
               )}
+              {delegation && (
+                <DelegateBadge
+                  delegation={delegation}
+                  explorerUrl={apiEndpoint}
+                  onOpenInscription={onOpenInscription}
+                />
+              )}
             </div>
           </DialogTitle>
         </DialogHeader>
@@ -109,6 +139,12 @@ export function InscriptionModal({
               autoLoad={true}
               htmlRenderMode={htmlRenderMode}
               forceIframe={forceIframe}
+              strictHtmlIsolation={strictHtmlIsolation}
+              apiEndpoint={apiEndpoint}
+              apiService={api}
+              resolveDelegates={resolveDelegates}
+              showDelegateBadge={false} // Badge already shown in modal header
+              onDelegateResolved={setDelegation}
               onAnalysisComplete={handleAnalysisComplete}
               className="w-full max-w-full"
             />
@@ -145,6 +181,12 @@ export function InscriptionModal({
                   <span className="text-gray-600 dark:text-gray-400">Inline:</span>
                   <span className="ml-2">{analysis.contentInfo.isInlineable ? '✅' : '❌'}</span>
                 </div>
+                {delegation && (
+                  <div className="col-span-2">
+                    <span className="text-gray-600 dark:text-gray-400">Delegate chain:</span>
+                    <span className="ml-2 font-mono break-all">{delegation.chain.join(' → ')}</span>
+                  </div>
+                )}
               </div>
               {analysis.preview && (
                 <div className="mt-3">
@@ -156,6 +198,13 @@ export function InscriptionModal({
               )}
             </div>
           )}
+
+          {/* CBOR metadata */}
+          {showMetadata && (
+            <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <MetadataPanel inscriptionId={inscriptionId} apiService={api} />
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,9 +1,21 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Loader2, AlertCircle, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { analyzeContent, ContentAnalysis, shouldLazyLoad } from './contentAnalyzer';
 import { inscriptionCache } from '@/services/InscriptionContentCache';
+import { cacheManager } from '@/services/CacheManager';
+import { objectUrlRegistry } from '@/services/ObjectUrlRegistry';
+import {
+  ContentSource,
+  ContentSourceAttempt,
+  ResolvedContent,
+  buildDefaultSourceChain,
+  loadFromSources
+} from '@/services/ContentSourceRegistry';
 import { laserEyesService, LaserEyesWallet } from '@/services/LaserEyesService';
+import { getDelegateResolver, DelegateResolution } from '@/services/DelegateResolver';
+import { ordinalsApi, OrdinalsApiService, getEndpointService } from '@/services/OrdinalsApiService';
+import { DelegateBadge } from './DelegateBadge';
 import { TextRenderer } from './renderers/TextRenderer';
 import { ImageRenderer } from './renderers/ImageRenderer';
 import { VideoRenderer } from './renderers/VideoRenderer';
@@ -14,14 +26,22 @@ import { ThreeDRenderer } from './renderers/ThreeDRenderer';
 import { IframeRenderer } from './renderers/IframeRenderer';
 import { CodeRenderer } from './renderers/CodeRenderer';
 import { DownloadRenderer } from './renderers/DownloadRenderer';
+import { ArchiveRenderer } from './renderers/ArchiveRenderer';
+import { FontRenderer } from './renderers/FontRenderer';
+import { PdfRenderer } from './renderers/PdfRenderer';
+import { MarkdownRenderer } from './renderers/MarkdownRenderer';
+import { TableRenderer } from './renderers/TableRenderer';
 
 /**
  * Smart Inscription Content Renderer
  * Analyzes content type and renders with the most appropriate native renderer
  */
 
-// Cache for failed inscriptions to prevent repeated attempts
-const failedInscriptionsCache = new Map<string, { error: string; timestamp: number; isPermanent: boolean }>();
+// Failed inscriptions are kept in the cache manager's 'negative' namespace to prevent repeated attempts
+interface FailedInscriptionEntry {
+  error: string;
+  isPermanent: boolean;
+}
 const FAILED_CACHE_DURATION = 30 * 60 * 1000; // 30 minutes for temporary failures
 const PERMANENT_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours for permanent failures
 
@@ -36,19 +56,30 @@ interface InscriptionRendererProps {
   showControls?: boolean;
   autoLoad?: boolean;
   apiEndpoint?: string; // Custom API endpoint
+  apiService?: OrdinalsApiService; // Service for delegate lookups and recursion, defaults to one for apiEndpoint
   htmlRenderMode?: 'iframe' | 'sandbox';
   forceIframe?: boolean;
+  strictHtmlIsolation?: boolean; // Run HTML without same-origin access, serving recursion over postMessage
   onAnalysisComplete?: (analysis: ContentAnalysis) => void;
   laserEyesWallet?: LaserEyesWallet; // Optional LaserEyes wallet instance
   preferLaserEyes?: boolean; // Whether to prefer LaserEyes over API endpoints
   contentFetcher?: (inscriptionId: string) => Promise<any>; // Custom content fetcher
+  sources?: ContentSource[]; // Ordered content sources, replaces the default chain
+  onSourceAttempt?: (attempt: ContentSourceAttempt) => void;
+  resolveDelegates?: boolean; // Swap in the delegate's content once the inscription's delegate chain resolves
+  maxDelegateDepth?: number;
+  onDelegateResolved?: (delegation: DelegateResolution) => void;
+  showDelegateBadge?: boolean; // Overlay a "delegated from" badge on delegated content
+  onOpenInscription?: (inscriptionId: string) => void; // Called when the "delegated from" badge is clicked
 }
 
-interface LoadedContent {
+export interface LoadedContent {
   url: string;
   blob: Blob;
   text?: string;
   analysis: ContentAnalysis;
+  source: string; // Name of the content source that produced the blob
+  delegation?: DelegateResolution; // Present when the content came from a delegate
 }
 
 export const InscriptionRenderer = React.memo(function InscriptionRenderer({
@@ -62,12 +93,21 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
   showControls = true,
   autoLoad = true,
   apiEndpoint,
+  apiService,
   htmlRenderMode = 'sandbox',
   forceIframe = false,
+  strictHtmlIsolation = false,
   onAnalysisComplete,
   laserEyesWallet,
   preferLaserEyes = true,
-  contentFetcher // Add support for custom content fetcher
+  contentFetcher, // Add support for custom content fetcher
+  sources,
+  onSourceAttempt,
+  resolveDelegates = true,
+  maxDelegateDepth,
+  onDelegateResolved,
+  showDelegateBadge = true,
+  onOpenInscription
 }: InscriptionRendererProps) {
   const [loadedContent, setLoadedContent] = useState<LoadedContent | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -76,6 +116,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
   const [loadingStage, setLoadingStage] = useState<string>('');
   const isMountedRef = useRef(true);
   const isAnalyzingRef = useRef(false);
+  const loadAbortRef = useRef<AbortController | null>(null); // Cancels the source chain on unmount
   
   // Reset mounted ref on component mount and setup LaserEyes wallet
   useEffect(() => {
@@ -91,37 +132,41 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
     };
   }, [laserEyesWallet]);
   
+  // Base URL for inscription links (delegate badge)
+  const explorerUrl = React.useMemo(() => {
+    if (!apiEndpoint) return 'https://ordinals.com';
+    return apiEndpoint.endsWith('/') ? apiEndpoint.slice(0, -1) : apiEndpoint;
+  }, [apiEndpoint]);
+
+  // Delegates are looked up on the same indexer the content is fetched from
+  const api = useMemo(
+    () => apiService || (apiEndpoint ? getEndpointService(explorerUrl) : ordinalsApi),
+    [apiService, apiEndpoint, explorerUrl]
+  );
+
+  // Content URL for an inscription id on the configured endpoint
+  const contentUrlFor = useCallback((id: string) => {
+    // For recursive endpoints, use /r/inscription/ format
+    if (apiEndpoint && (apiEndpoint.includes('/r/') || apiEndpoint.includes('recursive'))) {
+      return `${explorerUrl}/r/inscription/${id}`;
+    }
+    return `${explorerUrl}/content/${id}`;
+  }, [apiEndpoint, explorerUrl]);
+
   // Generate the content URL with configurable endpoint support
   const finalContentUrl = React.useMemo(() => {
     // If a full URL is provided, use it as-is
     if (contentUrl?.startsWith('http')) {
       return contentUrl;
     }
-    
-    // If custom API endpoint is provided, use it
-    if (apiEndpoint) {
-      const baseUrl = apiEndpoint.endsWith('/') ? apiEndpoint.slice(0, -1) : apiEndpoint;
-      if (inscriptionId) {
-        // For recursive endpoints, use /r/inscription/ format
-        if (apiEndpoint.includes('/r/') || apiEndpoint.includes('recursive')) {
-          return `${baseUrl}/r/inscription/${inscriptionId}`;
-        }
-        // For content endpoints, use /content/ format
-        return `${baseUrl}/content/${inscriptionId}`;
-      } else if (inscriptionNumber) {
-        return `${baseUrl}/content/${inscriptionNumber}`;
-      }
-    }
-    
-    // Default to ordinals.com content endpoint
     if (inscriptionId) {
-      return `https://ordinals.com/content/${inscriptionId}`;
+      return contentUrlFor(inscriptionId);
     } else if (inscriptionNumber) {
-      return `https://ordinals.com/content/${inscriptionNumber}`;
+      return `${explorerUrl}/content/${inscriptionNumber}`;
     }
     
     return `https://ordinals.com/content/unknown`;
-  }, [contentUrl, apiEndpoint, inscriptionId, inscriptionNumber]);
+  }, [contentUrl, contentUrlFor, explorerUrl, inscriptionId, inscriptionNumber]);
         
   console.log('🌐 Generated content URL for', inscriptionId, ':', finalContentUrl);
   const loadContent = useCallback(async () => {
@@ -133,21 +178,13 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
     console.log('🚀 Starting loadContent for:', inscriptionId);
     
     // Check failed inscriptions cache first
-    const failedEntry = failedInscriptionsCache.get(inscriptionId);
+    const failedEntry = cacheManager.get<FailedInscriptionEntry>('negative', inscriptionId);
     if (failedEntry) {
-      const cacheExpiry = failedEntry.isPermanent ? PERMANENT_CACHE_DURATION : FAILED_CACHE_DURATION;
-      const isExpired = Date.now() - failedEntry.timestamp > cacheExpiry;
-      
-      if (!isExpired) {
-        console.log('🚫 Using cached failure for:', inscriptionId, 'Permanent:', failedEntry.isPermanent);
-        setError(failedEntry.error);
-        setIsPermanentError(failedEntry.isPermanent);
-        setIsLoading(false);
-        return;
-      } else {
-        // Expired, remove from cache
-        failedInscriptionsCache.delete(inscriptionId);
-      }
+      console.log('🚫 Using cached failure for:', inscriptionId, 'Permanent:', failedEntry.isPermanent);
+      setError(failedEntry.error);
+      setIsPermanentError(failedEntry.isPermanent);
+      setIsLoading(false);
+      return;
     }
     
     isAnalyzingRef.current = true;
@@ -156,314 +193,120 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
     setIsPermanentError(false);
     setLoadingStage('Checking cache...');
 
+    const loadAbort = new AbortController();
+    loadAbortRef.current = loadAbort;
+
     try {
-      // Step 1: Check cache first
-      const cachedContent = inscriptionCache.get(inscriptionId);
-        if (cachedContent && cachedContent.contentType && isMountedRef.current) {
-        console.log(`🎯 Using cached content for inscription ${inscriptionId}`);
-        setLoadingStage('Loading from cache...');
-          // Reconstruct content from cache
-        let blob: Blob | undefined;
-        let text: string | undefined;
-        
-        if (cachedContent.contentType.startsWith('text/') || 
-            cachedContent.contentType.includes('json') || 
-            cachedContent.contentType.includes('html')) {
-          // Text content is stored as-is
-          text = cachedContent.content;
-          blob = new Blob([text || ''], { type: cachedContent.contentType });
-        } else {
-          // Binary content is stored as base64
-          try {
-            const binaryString = atob(cachedContent.content);
-            const bytes = new Uint8Array(binaryString.length);
-            for (let i = 0; i < binaryString.length; i++) {
-              bytes[i] = binaryString.charCodeAt(i);
-            }
-            blob = new Blob([bytes], { type: cachedContent.contentType });
-          } catch (e) {
-            console.error('Failed to decode cached binary content:', e);
-            // Fall back to network fetch
-            inscriptionCache.delete(inscriptionId);
-            blob = undefined;
+      // Step 1: Walk the content source chain until one produces content
+      const chain = sources || buildDefaultSourceChain({ contentFetcher, preferLaserEyes });
+      const fetchContent = (id: string, url: string, isRequested: boolean) => loadFromSources(chain, {
+        inscriptionId: id,
+        inscriptionNumber: isRequested ? inscriptionNumber : undefined,
+        contentUrl: url,
+        contentType: isRequested ? contentType : undefined
+      }, {
+        onAttemptStart: (source) => {
+          if (isMountedRef.current) {
+            setLoadingStage(source.label || `Fetching via ${source.name}...`);
           }
+        },
+        onAttempt: onSourceAttempt,
+        signal: loadAbort.signal
+      });
+      const isCurrentLoad = () => isMountedRef.current && loadAbortRef.current === loadAbort && !loadAbort.signal.aborted;
+
+      // Steps 2-4: analyze, cache and show one inscription's content
+      const showContent = async (contentId: string, resolved: ResolvedContent, delegation?: DelegateResolution) => {
+        console.log(`✅ Content for ${contentId} resolved via source:`, resolved.source);
+
+        // Analyze content using the blob directly, not the original URL
+        setLoadingStage('Analyzing content...');
+        // Renderers showing the same content share one ref-counted object URL
+        const objectUrl = objectUrlRegistry.acquire(contentId, resolved.blob);
+        const analysis = await analyzeContent(objectUrl, contentId, resolved.contentType);
+
+        if (!isCurrentLoad()) {
+          objectUrlRegistry.release(objectUrl);
+          return false;
         }
-        
-        if (blob) {
-          const objectUrl = URL.createObjectURL(blob);
-          
-          // Analyze content using the blob directly, not the original URL
-          const analysis = await analyzeContent(objectUrl, inscriptionId, cachedContent.contentType);
-          
-          if (!isMountedRef.current) return;
-          
-          setLoadedContent({
-            url: objectUrl,
-            blob,
-            text,
-            analysis
-          });
-          setIsLoading(false);
-          setLoadingStage('');
-          onAnalysisComplete?.(analysis);
-          return;
-        }
-      }
 
-      // Step 2: Try enhanced content fetcher first if available
-      if (contentFetcher) {
-        setLoadingStage('Fetching via enhanced fetcher...');
-        console.log('🚀 Attempting to fetch via enhanced fetcher for:', inscriptionId);
-        
-        try {
-          const fetcherContent = await contentFetcher(inscriptionId);
-          
-          if (fetcherContent && isMountedRef.current) {
-            console.log('✅ Successfully fetched via enhanced fetcher for:', inscriptionId);
-            
-            let blob: Blob;
-            let text: string | undefined;
-            let contentToCache: string;
-            let fetchedContentType = 'unknown';
-            
-            // Handle different content types from fetcher
-            if (typeof fetcherContent === 'string') {
-              text = fetcherContent;
-              fetchedContentType = 'text/plain';
-              blob = new Blob([text], { type: fetchedContentType });
-              contentToCache = text;
-            } else if (fetcherContent instanceof Blob) {
-              blob = fetcherContent;
-              fetchedContentType = blob.type || 'application/octet-stream';
-              const uint8Array = new Uint8Array(await blob.arrayBuffer());
-              contentToCache = btoa(String.fromCharCode.apply(null, Array.from(uint8Array)));
-            } else if (fetcherContent && typeof fetcherContent === 'object') {
-              // Handle structured content (LaserEyes format)
-              if (fetcherContent.content && fetcherContent.contentType) {
-                fetchedContentType = fetcherContent.contentType;
-                if (typeof fetcherContent.content === 'string') {
-                  const textContent = fetcherContent.content;
-                  text = textContent;
-                  blob = new Blob([textContent], { type: fetchedContentType });
-                  contentToCache = textContent;
-                } else {
-                  blob = new Blob([fetcherContent.content], { type: fetchedContentType });
-                  const uint8Array = new Uint8Array(fetcherContent.content);
-                  contentToCache = btoa(String.fromCharCode.apply(null, Array.from(uint8Array)));
-                }
-              } else {
-                // Fallback to JSON
-                const jsonText = JSON.stringify(fetcherContent);
-                text = jsonText;
-                fetchedContentType = 'application/json';
-                blob = new Blob([jsonText], { type: fetchedContentType });
-                contentToCache = jsonText;
-              }
-            } else {
-              throw new Error('Unsupported content format from fetcher');
-            }
-            
-            // Cache the content
-            try {
-              inscriptionCache.set(inscriptionId, contentToCache, fetchedContentType);
-              console.log('✅ Enhanced fetcher content cached for:', inscriptionId);
-            } catch (cacheError: any) {
-              console.warn('⚠️ Failed to cache enhanced fetcher content for:', inscriptionId, 'Error:', cacheError);
-            }
-            
-            // Create object URL and analyze content
-            const objectUrl = URL.createObjectURL(blob);
-            const analysis = await analyzeContent(objectUrl, inscriptionId, fetchedContentType);
-            
-            if (!isMountedRef.current) return;
-            
-            setLoadedContent({
-              url: objectUrl,
-              blob,
-              text,
-              analysis
-            });
-            setIsLoading(false);
-            setLoadingStage('');
-            onAnalysisComplete?.(analysis);
-            return;
+        // Cache the content unless it came from a non-cacheable source
+        const resolvedSource = chain.find(source => source.name === resolved.source);
+        if (resolvedSource?.cacheable !== false) {
+          try {
+            // Stored as a Blob in memory and in the persistent IndexedDB tier
+            await inscriptionCache.setContent(contentId, resolved.blob, resolved.contentType);
+            console.log('💾 Content cached for:', contentId);
+          } catch (cacheError: any) {
+            console.warn('⚠️ Failed to cache content for:', contentId, 'Error:', cacheError);
           }
-        } catch (fetcherError: any) {
-          console.warn('⚠️ Enhanced fetcher failed, trying LaserEyes or falling back to API:', fetcherError.message);
-          // Continue to LaserEyes or API fallback
         }
-      }
 
-      // Step 3: Try LaserEyes wallet if available and preferred
-      if (preferLaserEyes && laserEyesService.isAvailable()) {
-        setLoadingStage('Fetching via LaserEyes wallet...');
-        console.log('🔥 Attempting to fetch via LaserEyes for:', inscriptionId);
-        
-        try {
-          const laserEyesContent = await laserEyesService.getInscriptionContent(inscriptionId);
-          
-          if (laserEyesContent && isMountedRef.current) {
-            console.log('✅ Successfully fetched via LaserEyes for:', inscriptionId);
-            
-            let blob: Blob;
-            let text: string | undefined;
-            let contentToCache: string;
-            
-            if (typeof laserEyesContent.content === 'string') {
-              text = laserEyesContent.content;
-              blob = new Blob([text], { type: laserEyesContent.contentType });
-              contentToCache = text;
-            } else {
-              // ArrayBuffer content
-              blob = new Blob([laserEyesContent.content], { type: laserEyesContent.contentType });
-              const uint8Array = new Uint8Array(laserEyesContent.content);
-              contentToCache = btoa(String.fromCharCode.apply(null, Array.from(uint8Array)));
-            }
-            
-            // Cache the content
-            try {
-              inscriptionCache.set(inscriptionId, contentToCache, laserEyesContent.contentType);
-              console.log('✅ LaserEyes content cached for:', inscriptionId);
-            } catch (cacheError: any) {
-              console.warn('⚠️ Failed to cache LaserEyes content for:', inscriptionId, 'Error:', cacheError);
-            }
-            
-            // Create object URL and analyze content
-            const objectUrl = URL.createObjectURL(blob);
-            const analysis = await analyzeContent(objectUrl, inscriptionId, laserEyesContent.contentType);
-            
-            if (!isMountedRef.current) return;
-            
-            setLoadedContent({
-              url: objectUrl,
-              blob,
-              text,
-              analysis
-            });
-            setIsLoading(false);
-            setLoadingStage('');
-            onAnalysisComplete?.(analysis);
-            return;
-          }
-        } catch (laserEyesError: any) {
-          console.warn('⚠️ LaserEyes fetch failed, falling back to API:', laserEyesError.message);
-          // Continue to API fallback
+        if (!isCurrentLoad()) {
+          objectUrlRegistry.release(objectUrl);
+          return false;
         }
-      }
 
-      // Step 4: Fall back to network API (original logic)
-      setLoadingStage('Loading content...');
-      console.log('🔍 Starting network load for:', inscriptionId, 'URL:', finalContentUrl);
-      
-      // Load content first
-      let blob: Blob;
-      let text: string | undefined;
-      let contentToCache: string;
-      let detectedContentType: string;
+        setLoadedContent({
+          url: objectUrl,
+          blob: resolved.blob,
+          text: resolved.text,
+          analysis,
+          source: resolved.source,
+          delegation
+        });
+        setIsLoading(false);
+        setLoadingStage('');
+        onAnalysisComplete?.(analysis);
+        return true;
+      };
 
-      try {
-        const response = await fetch(finalContentUrl);
-        console.log('📡 Network fetch response:', response.status, response.statusText);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // Swap in the delegate's content once the chain resolves. Content that came from
+      // the cache or arrived with a content type skips the lookup unless it is already known.
+      const applyDelegation = async (requested?: ResolvedContent) => {
+        const resolver = getDelegateResolver(api);
+        let delegation = resolver.getCached(inscriptionId, maxDelegateDepth);
+        if (!delegation) {
+          if (requested && (contentType || requested.source === 'cache')) return false;
+          delegation = await resolver.resolve(inscriptionId, { maxDepth: maxDelegateDepth });
         }
+        if (!delegation.isDelegated || !isCurrentLoad()) return false;
 
-        detectedContentType = response.headers.get('content-type') || 'application/octet-stream';
-        console.log('� Detected content type:', detectedContentType);
-
-        // Decide how to load based on content type
-        if (detectedContentType.startsWith('text/') || detectedContentType.includes('json') || detectedContentType.includes('html')) {
-          // Load as text for text-based content
-          console.log('📝 Loading as text content for:', inscriptionId);
-          text = await response.text();
-          contentToCache = text;
-          blob = new Blob([text], { type: detectedContentType });
-          console.log('✅ Text content loaded for:', inscriptionId, 'length:', text.length);
-        } else {
-          // Load as blob for binary content
-          console.log('🖼️ Loading as binary content for:', inscriptionId);
-          blob = await response.blob();
-          console.log('✅ Binary content loaded for:', inscriptionId, 'size:', blob.size);
-          
-          // Convert blob to base64 for caching binary content - handle large files efficiently
-          const arrayBuffer = await blob.arrayBuffer();
-          const uint8Array = new Uint8Array(arrayBuffer);
-          
-          // For large files, convert in chunks to avoid stack overflow
-          if (uint8Array.length > 50000) {
-            console.log('📦 Converting large binary content in chunks for:', inscriptionId);
-            let binaryString = '';
-            const chunkSize = 8192; // Process in 8KB chunks
-            for (let i = 0; i < uint8Array.length; i += chunkSize) {
-              const chunk = uint8Array.slice(i, i + chunkSize);
-              binaryString += String.fromCharCode.apply(null, Array.from(chunk));
-            }
-            contentToCache = btoa(binaryString);
-          } else {
-            // For small files, use the original method
-            contentToCache = btoa(String.fromCharCode.apply(null, Array.from(uint8Array)));
-          }
-        }
-      } catch (fetchError: any) {
-        console.error('❌ Content fetch failed for:', inscriptionId, 'Error:', fetchError);
-        
-        // Check if this is a permanent error (404, 400)
-        if (fetchError.message?.includes('PERMANENT_ERROR') || 
-            fetchError.message?.includes('404') || 
-            fetchError.message?.includes('400')) {
-          throw new Error(`PERMANENT: ${fetchError.message}`);
-        }
-        
-        throw new Error(`Content loading failed: ${fetchError.message}`);
+        onDelegateResolved?.(delegation);
+        const delegateContent = await fetchContent(delegation.resolvedId, contentUrlFor(delegation.resolvedId), false);
+        if (!isCurrentLoad()) return false;
+        return showContent(delegation.resolvedId, delegateContent, delegation);
+      };
+
+      let requested: ResolvedContent;
+      try {
+        requested = await fetchContent(inscriptionId, finalContentUrl, true);
+      } catch (requestedError) {
+        // Its failure only matters if no delegate replaces it
+        if (!resolveDelegates || !inscriptionId || loadAbort.signal.aborted || !(await applyDelegation())) throw requestedError;
+        return;
       }
 
-      if (!isMountedRef.current) {
+      if (!isCurrentLoad()) {
         console.log('⚠️ Component unmounted during content loading for:', inscriptionId);
         return;
       }
 
-      // Step 5: Analyze content
-      setLoadingStage('Analyzing content...');
-      console.log('🔍 Analyzing content for:', inscriptionId);
-      const objectUrl = URL.createObjectURL(blob);
-      const analysis = await analyzeContent(objectUrl, inscriptionId, detectedContentType);
-      
-      if (!isMountedRef.current) return;
-
-      // Step 6: Cache the content
-      setLoadingStage('Caching content...');
-      console.log('💾 Caching content for:', inscriptionId);
-      try {
-        inscriptionCache.set(inscriptionId, contentToCache, detectedContentType);
-        console.log('✅ Content cached for:', inscriptionId);
-      } catch (cacheError: any) {
-        console.warn('⚠️ Failed to cache content for:', inscriptionId, 'Error:', cacheError);
+      // Show the requested content right away; a delegate replaces it when one resolves
+      const shown = await showContent(inscriptionId, requested);
+      if (shown && resolveDelegates && inscriptionId) {
+        void applyDelegation(requested).catch(delegateError => {
+          console.warn('⚠️ Delegate resolution failed for:', inscriptionId, delegateError);
+        });
       }
 
-      console.log('🎯 Created object URL for:', inscriptionId, 'URL:', objectUrl);
-      
-      const newLoadedContent = {
-        url: objectUrl,
-        blob,
-        text,
-        analysis
-      };
-      
-      console.log('🔄 Setting loaded content for:', inscriptionId, 'Content:', newLoadedContent);
-      setLoadedContent(newLoadedContent);
-      setIsLoading(false);
-      setLoadingStage('');
-      console.log('✅ Content fully loaded and state updated for:', inscriptionId);
-      console.log('🎯 Final state:', { 
-        isLoading: false, 
-        hasContent: true, 
-        contentType: analysis.contentInfo.detectedType,
-        hasUrl: !!objectUrl,
-        hasBlob: !!blob
-      });
-
     } catch (err: any) {
+      // Cancelled loads are not failures and must not be cached as such
+      if (loadAbort.signal.aborted) {
+        console.log('⚠️ Content loading cancelled for:', inscriptionId);
+        return;
+      }
+
       console.error('❌ Failed to load inscription content:', err);
       console.error('📍 Error details:', {
         inscriptionId,
@@ -483,10 +326,11 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
                            errorMessage.includes('Bad Request');
         
         // Cache the failed inscription to prevent repeated attempts
-        failedInscriptionsCache.set(inscriptionId, {
+        cacheManager.set<FailedInscriptionEntry>('negative', inscriptionId, {
           error: errorMessage,
-          timestamp: Date.now(),
           isPermanent
+        }, {
+          ttl: isPermanent ? PERMANENT_CACHE_DURATION : FAILED_CACHE_DURATION
         });
         
         setIsPermanentError(isPermanent);
@@ -503,7 +347,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
     } finally {
       isAnalyzingRef.current = false;
     }
-  }, [finalContentUrl, inscriptionId, onAnalysisComplete]);
+  }, [finalContentUrl, contentUrlFor, api, inscriptionId, inscriptionNumber, contentType, sources, contentFetcher, preferLaserEyes, onAnalysisComplete, onSourceAttempt, resolveDelegates, maxDelegateDepth, onDelegateResolved]);
 
   const handleRetry = useCallback(() => {
     // Don't allow retry for permanent errors
@@ -513,11 +357,9 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
     }
     
     // Clear the failed cache entry for this inscription
-    failedInscriptionsCache.delete(inscriptionId);
+    cacheManager.delete('negative', inscriptionId);
     
-    if (loadedContent?.url) {
-      URL.revokeObjectURL(loadedContent.url);
-    }
+    // The object URL is released by the loadedContent cleanup effect
     setLoadedContent(null);
     setError(null);
     setIsPermanentError(false);
@@ -560,17 +402,15 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
     return () => {
       console.log('🧹 Cleaning up InscriptionRenderer for:', inscriptionId);
       isMountedRef.current = false;
-      if (loadedContent?.url) {
-        URL.revokeObjectURL(loadedContent.url);
-      }
+      loadAbortRef.current?.abort();
     };
   }, []);
 
-  // Cleanup on unmount
+  // Release the object URL when the content is replaced or the renderer unmounts
   useEffect(() => {
     return () => {
       if (loadedContent?.url) {
-        URL.revokeObjectURL(loadedContent.url);
+        objectUrlRegistry.release(loadedContent.url);
       }
     };
   }, [loadedContent]);
@@ -592,6 +432,29 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
 
     switch (contentInfo.detectedType) {
       case 'text':
+        if (contentInfo.subType === 'markdown') {
+          return (
+            <MarkdownRenderer
+              content={loadedContent.text || ''}
+              mimeType={contentInfo.mimeType}
+              fileExtension={contentInfo.fileExtension}
+              maxHeight={maxHeight}
+              showControls={showControls}
+              apiEndpoint={explorerUrl}
+            />
+          );
+        }
+        if (contentInfo.subType === 'csv' || contentInfo.subType === 'tsv') {
+          return (
+            <TableRenderer
+              content={loadedContent.text || ''}
+              mimeType={contentInfo.mimeType}
+              fileExtension={contentInfo.fileExtension}
+              maxHeight={maxHeight}
+              showControls={showControls}
+            />
+          );
+        }
         return (
           <TextRenderer
             content={loadedContent.text || ''}
@@ -621,6 +484,8 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
             mimeType={contentInfo.mimeType}
             maxHeight={maxHeight}
             showControls={showControls}
+            inscriptionId={inscriptionId}
+            apiService={api}
           />
         );
 
@@ -634,6 +499,8 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
               fileExtension={contentInfo.fileExtension}
               maxHeight={maxHeight}
               showControls={showControls}
+              strictIsolation={strictHtmlIsolation}
+              apiService={api}
             />
           );
         }
@@ -645,6 +512,8 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
             mimeType={contentInfo.mimeType}
             maxHeight={maxHeight}
             showControls={showControls}
+            strictIsolation={strictHtmlIsolation}
+            apiService={api}
           />
         );
 
@@ -658,6 +527,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
             fileExtension={contentInfo.fileExtension}
             maxHeight={maxHeight}
             showControls={showControls}
+            blob={loadedContent.blob}
           />
         );
 
@@ -669,6 +539,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
             fileExtension={contentInfo.fileExtension}
             maxHeight={maxHeight}
             showControls={showControls}
+            blob={loadedContent.blob}
           />
         );
 
@@ -680,6 +551,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
             fileExtension={contentInfo.fileExtension}
             maxHeight={maxHeight}
             showControls={showControls}
+            blob={loadedContent.blob}
           />
         );
 
@@ -696,20 +568,46 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
 
       case 'pdf':
         return (
-          <IframeRenderer
+          <PdfRenderer
             src={loadedContent.url}
             mimeType={contentInfo.mimeType}
             fileExtension={contentInfo.fileExtension}
             maxHeight={maxHeight}
             showControls={showControls}
+            blob={loadedContent.blob}
           />
         );
 
       case 'archive':
+        return (
+          <ArchiveRenderer
+            src={loadedContent.url}
+            mimeType={contentInfo.mimeType}
+            fileExtension={contentInfo.fileExtension}
+            maxHeight={maxHeight}
+            showControls={showControls}
+            displayName={contentInfo.displayName}
+            description={contentInfo.description}
+            blob={loadedContent.blob}
+          />
+        );
+
+      case 'font':
+        return (
+          <FontRenderer
+            src={loadedContent.url}
+            mimeType={contentInfo.mimeType}
+            fileExtension={contentInfo.fileExtension}
+            maxHeight={maxHeight}
+            showControls={showControls}
+            blob={loadedContent.blob}
+            inscriptionId={inscriptionId}
+          />
+        );
+
       case 'document':
       case 'ebook':
       case 'executable':
-      case 'font':
       case 'data':
         return (
           <DownloadRenderer
@@ -720,6 +618,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
             showControls={showControls}
             displayName={contentInfo.displayName}
             description={contentInfo.description}
+            blob={loadedContent.blob}
           />
         );
 
@@ -737,6 +636,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
               showControls={showControls}
               displayName={contentInfo.displayName}
               description={contentInfo.description}
+              blob={loadedContent.blob}
             />
           );
         }
@@ -748,10 +648,12 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
             fileExtension={contentInfo.fileExtension}
             maxHeight={maxHeight}
             showControls={showControls}
+            strictIsolation={strictHtmlIsolation}
+            apiService={api}
           />
         );
     }
-  }, [loadedContent, size, showHeader, showControls, htmlRenderMode, forceIframe, inscriptionNumber, inscriptionId]);
+  }, [loadedContent, size, showHeader, showControls, htmlRenderMode, forceIframe, strictHtmlIsolation, api, inscriptionNumber, inscriptionId]);
 
   const headerHeight = showHeader ? 40 : 0;
   
@@ -779,7 +681,7 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
               #{inscriptionNumber || 'N/A'}
             </span>
             {loadedContent && (
-              <span className="text-gray-500 dark:text-gray-500 truncate" title={loadedContent.analysis.contentInfo.mimeType}>
+              <span className="text-gray-500 dark:text-gray-500 truncate" title={`${loadedContent.analysis.contentInfo.mimeType} (via ${loadedContent.source})`}>
                 {loadedContent.analysis.contentInfo.detectedType}
               </span>
             )}
@@ -827,6 +729,8 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
                   ? 'Inscription not found (404)'
                   : error.includes('Failed to fetch') || error.includes('network')
                   ? 'Network error - Check connection'
+                  : error.includes('Delegate')
+                  ? error.replace('PERMANENT: ', '')
                   : error.includes('PERMANENT')
                   ? 'Inscription unavailable'
                   : error}
@@ -878,6 +782,16 @@ export const InscriptionRenderer = React.memo(function InscriptionRenderer({
               });
               return renderContent;
             })()}
+            {showDelegateBadge && loadedContent.delegation && (
+              <div className="absolute top-1 left-1 right-1 z-20 flex justify-start pointer-events-none">
+                <DelegateBadge
+                  delegation={loadedContent.delegation}
+                  explorerUrl={explorerUrl}
+                  onOpenInscription={onOpenInscription}
+                  className="pointer-events-auto shadow-sm"
+                />
+              </div>
+            )}
           </div>
         )}
 
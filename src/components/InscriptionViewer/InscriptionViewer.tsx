@@ -18,6 +18,7 @@ export const InscriptionViewer = React.memo(function InscriptionViewer({
   apiEndpoint,
   htmlRenderMode = 'sandbox',
   forceIframe = false,
+  strictHtmlIsolation = false,
   className = ''
 }: InscriptionViewerProps) {
   // Normalize the input to consistent format
@@ -45,7 +46,8 @@ export const InscriptionViewer = React.memo(function InscriptionViewer({
       autoLoad: autoLoad,
       apiEndpoint: apiEndpoint,
       htmlRenderMode: htmlRenderMode,
-      forceIframe: forceIframe
+      forceIframe: forceIframe,
+      strictHtmlIsolation: strictHtmlIsolation
     };
 
     if (enableModal) {
@@ -74,7 +76,7 @@ export const InscriptionViewer = React.memo(function InscriptionViewer({
         <InscriptionRenderer {...baseProps} className="w-full h-full" />
       </div>
     );
-  }, [cardSize, showHeaders, showControls, autoLoad, enableModal, lazy]);
+  }, [cardSize, showHeaders, showControls, autoLoad, enableModal, lazy, strictHtmlIsolation]);
 
   if (normalizedInscriptions.length === 0) {
     return (
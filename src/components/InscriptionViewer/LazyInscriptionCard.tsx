@@ -13,6 +13,7 @@ interface LazyInscriptionCardProps {
   apiEndpoint?: string;
   htmlRenderMode?: 'iframe' | 'sandbox';
   forceIframe?: boolean;
+  strictHtmlIsolation?: boolean;
   className?: string;
   onLoad?: () => void;
   onError?: (error: string) => void;
@@ -31,6 +32,7 @@ export function LazyInscriptionCard({
   apiEndpoint,
   htmlRenderMode = 'sandbox',
   forceIframe = false,
+  strictHtmlIsolation = false,
   className = '',
   onLoad,
   onError,
@@ -89,6 +91,7 @@ export function LazyInscriptionCard({
           apiEndpoint={apiEndpoint}
           htmlRenderMode={htmlRenderMode}
           forceIframe={forceIframe}
+          strictHtmlIsolation={strictHtmlIsolation}
           className="w-full h-full"
         />
       ) : (
@@ -0,0 +1,258 @@
+import React from 'react';
+import { Copy, Loader2, Tags } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ordinalsApi, OrdinalsApiService } from '@/services/OrdinalsApiService';
+import { CborByteString, CborSimple, CborTag, CborValue, cborToJson, decodeCborHex } from '@/utils/cbor';
+import { formatHexDump } from '@/utils/bytes';
+
+/**
+ * Inscription metadata panel
+ * Decodes the CBOR metadata from /r/metadata/<ID> and shows it as a tree,
+ * falling back to a hex dump when decoding fails
+ */
+
+interface MetadataPanelProps {
+  inscriptionId?: string; // Fetch metadata for this inscription
+  hex?: string; // Or decode an already fetched hex string
+  apiService?: OrdinalsApiService;
+  maxHeight?: number;
+  className?: string;
+}
+
+type MetadataView = 'decoded' | 'json' | 'hex';
+
+const MAX_INLINE_BYTES = 64;
+
+export function MetadataPanel({
+  inscriptionId,
+  hex,
+  apiService = ordinalsApi,
+  maxHeight = 300,
+  className = ''
+}: MetadataPanelProps) {
+  const [metadataHex, setMetadataHex] = React.useState<string | null>(hex ?? null);
+  const [loading, setLoading] = React.useState(false);
+  const [fetchError, setFetchError] = React.useState<string | null>(null);
+  const [view, setView] = React.useState<MetadataView>('decoded');
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set());
+  const [copied, setCopied] = React.useState(false);
+
+  React.useEffect(() => {
+    if (hex !== undefined) {
+      setMetadataHex(hex);
+      return;
+    }
+    if (!inscriptionId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setFetchError(null);
+    setMetadataHex(null);
+
+    apiService.getInscriptionMetadata(inscriptionId).then(response => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setMetadataHex(response.data);
+      } else {
+        // ord answers 404 for inscriptions without metadata
+        setFetchError(response.error?.includes('404') ? null : response.error || 'Failed to load metadata');
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inscriptionId, hex, apiService]);
+
+  const decoded = React.useMemo(() => (metadataHex ? decodeCborHex(metadataHex) : null), [metadataHex]);
+  const activeView: MetadataView = decoded?.error ? 'hex' : view;
+
+  const toggleCollapse = (path: string) => {
+    const next = new Set(collapsed);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setCollapsed(next);
+  };
+
+  const handleCopy = async () => {
+    if (!decoded) return;
+    try {
+      const text = decoded.error
+        ? metadataHex || ''
+        : JSON.stringify(cborToJson(decoded.value as CborValue), null, 2);
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const renderCollapsible = (
+    path: string,
+    summary: string,
+    rows: Array<{ key: React.ReactNode; value: React.ReactNode }>
+  ) => {
+    const isCollapsed = collapsed.has(path);
+    return (
+      <div>
+        <span
+          className="cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 px-1 rounded text-gray-500"
+          onClick={() => toggleCollapse(path)}
+        >
+          {isCollapsed ? '►' : '▼'} {summary}
+        </span>
+        {!isCollapsed && (
+          <div className="ml-4">
+            {rows.map((row, index) => (
+              <div key={index} className="font-mono">
+                {row.key}
+                <span className="text-gray-500">: </span>
+                {row.value}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderValue = (value: CborValue, path: string): React.ReactNode => {
+    if (value === null) return <span className="text-gray-500">null</span>;
+    if (value === undefined) return <span className="text-gray-500">undefined</span>;
+    if (typeof value === 'boolean') return <span className="text-blue-600 dark:text-blue-400">{value.toString()}</span>;
+    if (typeof value === 'number') return <span className="text-purple-600 dark:text-purple-400">{value}</span>;
+    if (typeof value === 'bigint') {
+      return <span className="text-purple-600 dark:text-purple-400" title="Big integer">{value.toString()}n</span>;
+    }
+    if (typeof value === 'string') return <span className="text-green-600 dark:text-green-400">"{value}"</span>;
+
+    if (value instanceof CborByteString) {
+      const hexValue = value.toHex();
+      const truncated = value.bytes.length > MAX_INLINE_BYTES;
+      return (
+        <span className="text-orange-600 dark:text-orange-400 break-all" title={`${value.bytes.length} bytes`}>
+          h'{truncated ? `${hexValue.slice(0, MAX_INLINE_BYTES * 2)}…` : hexValue}'
+          <span className="text-gray-400 ml-1">({value.bytes.length} B)</span>
+        </span>
+      );
+    }
+
+    if (value instanceof CborSimple) {
+      return <span className="text-gray-500">simple({value.value})</span>;
+    }
+
+    if (value instanceof CborTag) {
+      return (
+        <span>
+          <span
+            className="inline-flex items-center px-1.5 rounded bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300 text-xs mr-1"
+            title={value.name || 'Unregistered tag'}
+          >
+            tag {value.tag.toString()}{value.name ? ` · ${value.name}` : ''}
+          </span>
+          {renderValue(value.value, `${path}#`)}
+        </span>
+      );
+    }
+
+    if (Array.isArray(value)) {
+      return renderCollapsible(path, `[${value.length}]`, value.map((item, index) => ({
+        key: <span className="text-gray-400">{index}</span>,
+        value: renderValue(item, `${path}[${index}]`)
+      })));
+    }
+
+    if (value instanceof Map) {
+      const rows: Array<{ key: React.ReactNode; value: React.ReactNode }> = [];
+      let index = 0;
+      value.forEach((entry, key) => {
+        rows.push({
+          key: typeof key === 'string'
+            ? <span className="text-blue-600 dark:text-blue-400">"{key}"</span>
+            : renderValue(key, `${path}{key${index}}`),
+          value: renderValue(entry, `${path}{${index}}`)
+        });
+        index++;
+      });
+      return renderCollapsible(path, `{${value.size}}`, rows);
+    }
+
+    return <span>{String(value)}</span>;
+  };
+
+  if (loading) {
+    return (
+      <div className={`flex items-center gap-2 text-xs text-gray-500 ${className}`}>
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading metadata...
+      </div>
+    );
+  }
+
+  if (fetchError) {
+    return <div className={`text-xs text-red-500 ${className}`}>Metadata unavailable: {fetchError}</div>;
+  }
+
+  if (!decoded) {
+    return <div className={`text-xs text-gray-400 ${className}`}>No metadata</div>;
+  }
+
+  return (
+    <div className={`metadata-panel ${className}`}>
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Tags className="h-4 w-4" />
+          Metadata
+          <span className="text-xs text-gray-500 font-normal">CBOR · {decoded.bytes.length.toLocaleString()} bytes</span>
+        </div>
+        <div className="flex gap-1">
+          {!decoded.error && (['decoded', 'json', 'hex'] as MetadataView[]).map(option => (
+            <Button
+              key={option}
+              variant={activeView === option ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setView(option)}
+              className="h-6 px-2 text-xs capitalize"
+            >
+              {option}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={handleCopy} className="h-6 px-2 text-xs">
+            <Copy className="h-3 w-3 mr-1" />
+            {copied ? 'Copied!' : 'Copy'}
+          </Button>
+        </div>
+      </div>
+
+      {decoded.error && (
+        <div className="text-xs text-orange-600 dark:text-orange-400 mb-2">
+          Could not decode CBOR ({decoded.error}); showing raw bytes
+        </div>
+      )}
+
+      <div
+        className="overflow-auto bg-white dark:bg-gray-900 rounded p-2 text-xs font-mono"
+        style={{ maxHeight }}
+      >
+        {activeView === 'decoded' && renderValue(decoded.value as CborValue, '')}
+        {activeView === 'json' && (
+          <pre className="whitespace-pre-wrap break-all">
+            {JSON.stringify(cborToJson(decoded.value as CborValue), null, 2)}
+          </pre>
+        )}
+        {activeView === 'hex' && (
+          <pre className="whitespace-pre">
+            {decoded.bytes.length > 0 ? formatHexDump(decoded.bytes) : metadataHex}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MetadataPanel;
@@ -4,6 +4,7 @@
  */
 
 import { throttledFetch } from '../../utils/requestThrottler';
+import { sniffContent, SignatureKind, SignatureMatch } from '../../utils/contentSniffer';
 
 export interface ContentInfo {
   mimeType: string;
@@ -15,6 +16,7 @@ export interface ContentInfo {
   category?: 'media' | 'document' | 'code' | 'data' | 'executable' | 'font' | 'archive' | 'unknown';
   displayName?: string;
   description?: string;
+  subType?: string; // Finer text classification: 'markdown', 'csv', 'tsv', 'yaml', 'toml' or 'text'
 }
 
 export interface ContentAnalysis {
@@ -139,6 +141,30 @@ export async function analyzeContent(
   }
 }
 
+// Rendering approach per sniffed signature kind, matching the MIME-based branches
+const SIGNATURE_KIND_INFO: Record<SignatureKind, Pick<ContentInfo, 'detectedType' | 'renderStrategy' | 'isInlineable' | 'category'>> = {
+  image: { detectedType: 'image', renderStrategy: 'native', isInlineable: true, category: 'media' },
+  audio: { detectedType: 'audio', renderStrategy: 'native', isInlineable: true, category: 'media' },
+  video: { detectedType: 'video', renderStrategy: 'native', isInlineable: true, category: 'media' },
+  '3d': { detectedType: '3d', renderStrategy: 'native', isInlineable: true, category: 'media' },
+  font: { detectedType: 'font', renderStrategy: 'iframe', isInlineable: false, category: 'font' },
+  archive: { detectedType: 'archive', renderStrategy: 'download', isInlineable: false, category: 'archive' },
+  pdf: { detectedType: 'pdf', renderStrategy: 'iframe', isInlineable: false, category: 'document' },
+  document: { detectedType: 'document', renderStrategy: 'download', isInlineable: false, category: 'document' },
+  ebook: { detectedType: 'ebook', renderStrategy: 'download', isInlineable: false, category: 'document' },
+  executable: { detectedType: 'executable', renderStrategy: 'download', isInlineable: false, category: 'executable' },
+  data: { detectedType: 'data', renderStrategy: 'download', isInlineable: false, category: 'data' }
+};
+
+function contentInfoFromSignature(match: SignatureMatch): Omit<ContentInfo, 'mimeType'> {
+  return {
+    ...SIGNATURE_KIND_INFO[match.signature.kind],
+    fileExtension: match.extension,
+    displayName: match.signature.label,
+    description: `${match.signature.description || match.signature.label} (detected by content)`
+  };
+}
+
 /**
  * Comprehensive MIME type and content analysis for Bitcoin inscriptions
  * Handles hundreds of file types that could be inscribed on Bitcoin
@@ -168,98 +194,10 @@ function analyzeContentType(
   // Analyze actual content bytes first - this is most reliable for inscriptions
   // =============================================================================
   
-  if (bytes.length >= 4) {
-    const magic = Array.from(bytes.slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join('');
-    const magic8 = bytes.length >= 8 ? Array.from(bytes.slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('') : '';
-    
-    console.log(`🔍 Magic bytes: ${magic} (first 4), ${magic8} (first 8)`);
-    
-    // PNG magic bytes: 89 50 4E 47
-    if (magic === '89504e47') {
-      console.log('✅ Detected PNG by magic bytes');
-      return {
-        detectedType: 'image',
-        renderStrategy: 'native',
-        fileExtension: 'png',
-        isInlineable: true,
-        category: 'media',
-        displayName: 'PNG Image',
-        description: 'Portable Network Graphics (detected by content)'
-      };
-    }
-    
-    // JPEG magic bytes: FF D8
-    if (magic.startsWith('ffd8')) {
-      console.log('✅ Detected JPEG by magic bytes');
-      return {
-        detectedType: 'image',
-        renderStrategy: 'native',
-        fileExtension: 'jpg',
-        isInlineable: true,
-        category: 'media',
-        displayName: 'JPEG Image',
-        description: 'JPEG compressed image (detected by content)'
-      };
-    }
-
-    // GIF magic bytes: 47 49 46 38 (GIF8)
-    if (magic === '47494638') {
-      console.log('✅ Detected GIF by magic bytes');
-      return {
-        detectedType: 'image',
-        renderStrategy: 'native',
-        fileExtension: 'gif',
-        isInlineable: true,
-        category: 'media',
-        displayName: 'GIF Animation',
-        description: 'Graphics Interchange Format (detected by content)'
-      };
-    }
-
-    // WebP magic bytes: RIFF....WEBP
-    if (magic === '52494646' && bytes.length >= 12) {
-      const webpSignature = Array.from(bytes.slice(8, 12)).map(b => b.toString(16).padStart(2, '0')).join('');
-      if (webpSignature === '57454250') { // WEBP
-        console.log('✅ Detected WebP by magic bytes');
-        return {
-          detectedType: 'image',
-          renderStrategy: 'native',
-          fileExtension: 'webp',
-          isInlineable: true,
-          category: 'media',
-          displayName: 'WebP Image',
-          description: 'WebP compressed image (detected by content)'
-        };
-      }
-    }
-
-    // PDF magic bytes: %PDF
-    if (bytes.length >= 4 && String.fromCharCode(...bytes.slice(0, 4)) === '%PDF') {
-      console.log('✅ Detected PDF by magic bytes');
-      return {
-        detectedType: 'pdf',
-        renderStrategy: 'iframe',
-        fileExtension: 'pdf',
-        isInlineable: false,
-        category: 'document',
-        displayName: 'PDF Document',
-        description: 'Portable Document Format (detected by content)'
-      };
-    }
-
-    // ZIP magic bytes: 50 4B
-    if (magic.startsWith('504b')) {
-      console.log('✅ Detected ZIP by magic bytes');
-      return {
-        detectedType: 'archive',
-        renderStrategy: 'download',
-        fileExtension: 'zip',
-        isInlineable: false,
-        category: 'archive',
-        displayName: 'ZIP Archive',
-        description: 'ZIP compressed archive (detected by content)'
-      };
-    }
+  const signature = sniffContent(bytes);
+  if (signature) {
+    console.log(`✅ Detected ${signature.signature.label} by magic bytes (${Math.round(signature.confidence * 100)}% confidence)`);
+    return contentInfoFromSignature(signature);
   }
   
   // =============================================================================
@@ -479,6 +417,10 @@ function analyzeContentType(
       subType = 'csv';
       displayName = 'CSV Data';
       description = 'Comma-separated values data';
+    } else if (lowerMime.includes('tab-separated') || fileExtension === 'tsv') {
+      subType = 'tsv';
+      displayName = 'TSV Data';
+      description = 'Tab-separated values data';
     } else if (fileExtension === 'yaml' || fileExtension === 'yml') {
       subType = 'yaml';
       displayName = 'YAML Config';
@@ -500,7 +442,8 @@ function analyzeContentType(
       isInlineable: true,
       category: 'document',
       displayName,
-      description
+      description,
+      subType
     };
   }
 
@@ -955,96 +898,6 @@ function analyzeContentType(
     };
   }
 
-  // =============================================================================
-  // BINARY CONTENT - MAGIC BYTE DETECTION
-  // =============================================================================
-  
-  if (bytes.length >= 4) {
-    const magic = Array.from(bytes.slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join('');
-    const magic8 = bytes.length >= 8 ? Array.from(bytes.slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('') : '';
-    
-    // PNG magic bytes
-    if (magic === '89504e47') {
-      return {
-        detectedType: 'image',
-        renderStrategy: 'native',
-        fileExtension: 'png',
-        isInlineable: true,
-        category: 'media',
-        displayName: 'PNG Image',
-        description: 'Portable Network Graphics'
-      };
-    }
-    
-    // JPEG magic bytes
-    if (magic.startsWith('ffd8')) {
-      return {
-        detectedType: 'image',
-        renderStrategy: 'native',
-        fileExtension: 'jpg',
-        isInlineable: true,
-        category: 'media',
-        displayName: 'JPEG Image',
-        description: 'JPEG compressed image'
-      };
-    }
-
-    // GIF magic bytes
-    if (magic === '47494638') {
-      return {
-        detectedType: 'image',
-        renderStrategy: 'native',
-        fileExtension: 'gif',
-        isInlineable: true,
-        category: 'media',
-        displayName: 'GIF Animation',
-        description: 'Graphics Interchange Format'
-      };
-    }
-
-    // WebP magic bytes
-    if (magic === '52494646' && bytes.length >= 12) {
-      const webpSig = Array.from(bytes.slice(8, 12)).map(b => String.fromCharCode(b)).join('');
-      if (webpSig === 'WEBP') {
-        return {
-          detectedType: 'image',
-          renderStrategy: 'native',
-          fileExtension: 'webp',
-          isInlineable: true,
-          category: 'media',
-          displayName: 'WebP Image',
-          description: 'WebP compressed image'
-        };
-      }
-    }
-
-    // PDF magic bytes
-    if (bytes.length >= 4 && String.fromCharCode(...bytes.slice(0, 4)) === '%PDF') {
-      return {
-        detectedType: 'pdf',
-        renderStrategy: 'iframe',
-        fileExtension: 'pdf',
-        isInlineable: false,
-        category: 'document',
-        displayName: 'PDF Document',
-        description: 'Portable Document Format'
-      };
-    }
-
-    // ZIP magic bytes
-    if (magic === '504b0304' || magic === '504b0506' || magic === '504b0708') {
-      return {
-        detectedType: 'archive',
-        renderStrategy: 'download',
-        fileExtension: 'zip',
-        isInlineable: false,
-        category: 'archive',
-        displayName: 'ZIP Archive',
-        description: 'ZIP compressed archive'
-      };
-    }
-  }
-
   // =============================================================================
   // UNKNOWN BINARY CONTENT - FINAL FALLBACK
   // =============================================================================
@@ -1,11 +1,14 @@
 export { InscriptionViewer } from './InscriptionViewer';
 export { InscriptionRenderer } from './InscriptionRenderer';  
 export { InscriptionModal } from './InscriptionModal';
+export { DelegateBadge } from './DelegateBadge';
+export { MetadataPanel } from './MetadataPanel';
 export { LazyInscriptionCard } from './LazyInscriptionCard';
 export { ApiExplorer } from './ApiExplorer';
 export { EnhancedInscriptionViewer } from './EnhancedInscriptionViewer';
 export { analyzeContent, shouldLazyLoad } from './contentAnalyzer';
 export type { ContentInfo, ContentAnalysis } from './contentAnalyzer';
+export type { LoadedContent } from './InscriptionRenderer';
 export type { EnhancedInscriptionViewerProps, PreFetchedContent, PerformanceOptions, FallbackOptions } from './EnhancedInscriptionViewer';
 
 // Export renderers
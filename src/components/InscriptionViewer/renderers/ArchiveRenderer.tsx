@@ -0,0 +1,387 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, File, Folder, FolderOpen, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { safeFormatFileSize } from '../../../utils/safeFormatting';
+import { openArchive, OpenedArchive, ArchiveEntry } from '../../../utils/containerParsers';
+import { sniffContent, looksLikeText } from '../../../utils/contentSniffer';
+import { objectUrlRegistry } from '@/services/ObjectUrlRegistry';
+import { analyzeContent, ContentAnalysis } from '../contentAnalyzer';
+import { TextRenderer } from './TextRenderer';
+import { CodeRenderer } from './CodeRenderer';
+import { JsonRenderer } from './JsonRenderer';
+import { ImageRenderer } from './ImageRenderer';
+import { DownloadRenderer } from './DownloadRenderer';
+
+interface ArchiveRendererProps {
+  src: string;
+  mimeType: string;
+  fileExtension?: string;
+  maxHeight?: number;
+  showControls?: boolean;
+  displayName?: string;
+  description?: string;
+  blob?: Blob;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  entry?: ArchiveEntry;
+  children: TreeNode[];
+}
+
+interface EntryPreview {
+  path: string;
+  url: string;
+  analysis: ContentAnalysis;
+  text?: string;
+}
+
+// Text MIME types by extension; binary formats are sniffed from their bytes
+const TEXT_MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  geojson: 'application/geo+json',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  ts: 'text/typescript',
+  py: 'text/x-python',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  yaml: 'text/yaml',
+  yml: 'text/yaml'
+};
+
+const MAX_TEXT_PREVIEW = 1024 * 1024;
+
+function entryMimeType(path: string, bytes: Uint8Array): string {
+  const sniffed = sniffContent(bytes);
+  if (sniffed) return sniffed.mimeType;
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  if (TEXT_MIME_TYPES[extension]) return TEXT_MIME_TYPES[extension];
+  return looksLikeText(bytes) ? 'text/plain' : 'application/octet-stream';
+}
+
+/** Build a folder tree from flat entry paths, creating folders that have no entry of their own */
+function buildTree(entries: ArchiveEntry[]): TreeNode {
+  const root: TreeNode = { name: '', path: '', children: [] };
+  const folders = new Map<string, TreeNode>([['', root]]);
+
+  const folderFor = (path: string): TreeNode => {
+    const existing = folders.get(path);
+    if (existing) return existing;
+    const slash = path.lastIndexOf('/', path.length - 2);
+    const parent = folderFor(slash >= 0 ? path.slice(0, slash + 1) : '');
+    const node: TreeNode = { name: path.slice(slash + 1, -1), path, children: [] };
+    parent.children.push(node);
+    folders.set(path, node);
+    return node;
+  };
+
+  entries.forEach(entry => {
+    const path = entry.path.replace(/^\.?\//, '');
+    if (!path) return;
+    if (entry.isDirectory) {
+      folderFor(path.endsWith('/') ? path : `${path}/`).entry = entry;
+      return;
+    }
+    const slash = path.lastIndexOf('/');
+    folderFor(slash >= 0 ? path.slice(0, slash + 1) : '').children.push({
+      name: path.slice(slash + 1),
+      path: entry.path,
+      entry,
+      children: []
+    });
+  });
+
+  const sort = (node: TreeNode) => {
+    node.children.sort((a, b) => {
+      const aFolder = !a.entry || a.entry.isDirectory;
+      const bFolder = !b.entry || b.entry.isDirectory;
+      return aFolder === bFolder ? a.name.localeCompare(b.name) : aFolder ? -1 : 1;
+    });
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+function downloadBytes(bytes: Uint8Array, filename: string) {
+  const url = URL.createObjectURL(new Blob([bytes]));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Archive browser for ZIP and TAR inscriptions. Lists the file tree from the
+ * in-memory blob and previews entries with the matching renderer.
+ */
+export function ArchiveRenderer({
+  src,
+  mimeType,
+  fileExtension,
+  maxHeight = 400,
+  showControls = true,
+  displayName,
+  description,
+  blob
+}: ArchiveRendererProps) {
+  const [archive, setArchive] = useState<OpenedArchive | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unsupported, setUnsupported] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set(['']));
+  const [preview, setPreview] = useState<EntryPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [loadingPath, setLoadingPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setUnsupported(false);
+    setArchive(null);
+    setPreview(null);
+    (blob ? Promise.resolve(blob) : fetch(src).then(response => response.blob()))
+      .then(data => openArchive(data))
+      .then(result => {
+        if (cancelled) return;
+        setArchive(result);
+        setUnsupported(!result);
+      })
+      .catch(err => {
+        console.warn('⚠️ Failed to open archive:', err);
+        if (!cancelled) setUnsupported(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, blob]);
+
+  // Release the previewed entry's object URL when it changes or on unmount
+  useEffect(() => {
+    if (!preview) return;
+    return () => objectUrlRegistry.release(preview.url);
+  }, [preview]);
+
+  const tree = useMemo(() => (archive ? buildTree(archive.entries) : null), [archive]);
+  const fileCount = archive ? archive.entries.filter(entry => !entry.isDirectory).length : 0;
+
+  const openEntry = async (entry: ArchiveEntry) => {
+    if (!archive) return;
+    setLoadingPath(entry.path);
+    setPreviewError(null);
+
+    try {
+      const bytes = await archive.read(entry.path);
+      const entryBlob = new Blob([bytes], { type: entryMimeType(entry.path, bytes) });
+      const url = objectUrlRegistry.acquire(`archive:${src}:${entry.path}`, entryBlob);
+      const analysis = await analyzeContent(url, undefined, entryBlob.type);
+      const detected = analysis.contentInfo.detectedType;
+      const text = ['text', 'code', 'json'].includes(detected)
+        ? new TextDecoder('utf-8', { fatal: false }).decode(bytes.subarray(0, MAX_TEXT_PREVIEW))
+        : undefined;
+
+      setPreview({ path: entry.path, url, analysis, text });
+    } catch (err: any) {
+      console.warn(`⚠️ Failed to preview ${entry.path}:`, err);
+      setPreview(null);
+      setPreviewError(err?.message || 'Failed to read entry');
+    } finally {
+      setLoadingPath(null);
+    }
+  };
+
+  const downloadEntry = async (entry: ArchiveEntry) => {
+    if (!archive) return;
+    try {
+      downloadBytes(await archive.read(entry.path), entry.path.split('/').pop() || 'entry');
+    } catch (err) {
+      console.error('Failed to download entry:', err);
+    }
+  };
+
+  const toggleFolder = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  if (!isLoading && (unsupported || !archive)) {
+    return (
+      <DownloadRenderer
+        src={src}
+        mimeType={mimeType}
+        fileExtension={fileExtension}
+        maxHeight={maxHeight}
+        showControls={showControls}
+        displayName={displayName}
+        description={description}
+        blob={blob}
+      />
+    );
+  }
+
+  if (isLoading || !archive || !tree) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-white dark:bg-gray-900">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    const isFolder = !node.entry || node.entry.isDirectory;
+    const isOpen = expanded.has(node.path);
+    const isSelected = preview?.path === node.path;
+
+    return (
+      <React.Fragment key={node.path}>
+        <div
+          className={`group flex items-center gap-1 py-0.5 pr-2 cursor-pointer text-xs font-mono hover:bg-gray-100 dark:hover:bg-gray-800 ${
+            isSelected ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+          }`}
+          style={{ paddingLeft: 8 + depth * 12 }}
+          onClick={() => (isFolder ? toggleFolder(node.path) : node.entry && openEntry(node.entry))}
+        >
+          {isFolder ? (
+            <>
+              {isOpen ? <ChevronDown className="h-3 w-3 text-gray-400" /> : <ChevronRight className="h-3 w-3 text-gray-400" />}
+              {isOpen ? <FolderOpen className="h-3 w-3 text-yellow-600" /> : <Folder className="h-3 w-3 text-yellow-600" />}
+            </>
+          ) : (
+            <File className="h-3 w-3 ml-4 text-gray-400" />
+          )}
+          <span className="flex-1 truncate text-gray-800 dark:text-gray-200">{node.name}</span>
+          {loadingPath === node.path && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+          {!isFolder && node.entry && (
+            <>
+              <span className="text-gray-400">{safeFormatFileSize(node.entry.size)}</span>
+              <button
+                className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  downloadEntry(node.entry!);
+                }}
+                title="Download this file"
+              >
+                <Download className="h-3 w-3" />
+              </button>
+            </>
+          )}
+        </div>
+        {isFolder && isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  const renderPreview = () => {
+    if (previewError) {
+      return <div className="p-4 text-xs text-red-600 dark:text-red-400">{previewError}</div>;
+    }
+    if (!preview) {
+      return <div className="p-4 text-xs text-gray-500">Select a file to preview it</div>;
+    }
+
+    const { contentInfo } = preview.analysis;
+    const previewHeight = maxHeight - (showControls ? 40 : 0);
+
+    switch (contentInfo.detectedType) {
+      case 'image':
+      case 'svg':
+        return (
+          <ImageRenderer
+            src={preview.url}
+            alt={preview.path}
+            mimeType={contentInfo.mimeType}
+            fileExtension={contentInfo.fileExtension}
+            maxHeight={previewHeight}
+            showControls={false}
+          />
+        );
+      case 'json':
+        return <JsonRenderer content={preview.text || ''} mimeType={contentInfo.mimeType} maxHeight={previewHeight} showControls={false} />;
+      case 'code':
+        return (
+          <CodeRenderer
+            content={preview.text || ''}
+            mimeType={contentInfo.mimeType}
+            fileExtension={preview.path.split('.').pop()}
+            maxHeight={previewHeight}
+            showControls={false}
+            language={contentInfo.displayName}
+          />
+        );
+      case 'text':
+        return <TextRenderer content={preview.text || ''} mimeType={contentInfo.mimeType} maxHeight={previewHeight} showControls={false} />;
+      default:
+        return (
+          <div className="p-4 text-xs text-gray-500 space-y-1">
+            <div>No inline preview for {contentInfo.displayName || contentInfo.mimeType}.</div>
+            <div>Use the download button next to the file to save it.</div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white dark:bg-gray-900" style={{ maxHeight }}>
+      {/* Controls */}
+      {showControls && (
+        <div className="flex justify-between items-center p-2 border-b bg-gray-50 dark:bg-gray-800">
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            <span className="font-mono">{archive.format}</span>
+            <span className="ml-2 text-gray-500">•</span>
+            <span className="ml-2">{fileCount} file{fileCount === 1 ? '' : 's'}</span>
+            {archive.truncated && <span className="ml-2 text-yellow-600">• listing may be incomplete</span>}
+          </div>
+          {preview && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                const entry = archive.entries.find(item => item.path === preview.path);
+                if (entry) downloadEntry(entry);
+              }}
+              className="h-6 px-2 text-xs"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              {preview.path.split('/').pop()}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Tree + preview */}
+      <div className="flex-1 flex min-h-0">
+        <div className="w-2/5 overflow-auto border-r dark:border-gray-700 py-1">
+          {tree.children.map(child => renderNode(child, 0))}
+        </div>
+        <div className="flex-1 min-w-0 overflow-auto">
+          {renderPreview()}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ArchiveRenderer;
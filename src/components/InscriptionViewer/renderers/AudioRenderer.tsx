@@ -1,7 +1,10 @@
 import React from 'react';
-import { Download, Play, Pause, Volume2, VolumeX } from 'lucide-react';
+import { Download, Play, Pause, Volume2, VolumeX, AudioWaveform, AudioLines } from 'lucide-react';
 import { Button } from '../../../components/ui/button';
-import { safeMimeSubtype, safeExtensionFormat } from '../../../utils/safeFormatting';
+import { safeMimeSubtype, safeExtensionFormat, safeFormatTime } from '../../../utils/safeFormatting';
+import { parseAudioTags, AudioTags } from '../../../utils/audioTags';
+import { useObjectUrl } from '../../../hooks/useObjectUrl';
+import { AudioVisualizer, AudioView } from './AudioVisualizer';
 
 interface AudioRendererProps {
   src: string;
@@ -9,17 +12,30 @@ interface AudioRendererProps {
   fileExtension?: string;
   maxHeight?: number;
   showControls?: boolean;
+  blob?: Blob; // Already-loaded content, used for tags and the waveform
 }
 
+/** Larger files are played without a waveform */
+const MAX_DECODE_BYTES = 32 * 1024 * 1024;
+
 /**
- * Native audio player with HTML5 controls
+ * Decode audio at 44.1 kHz without holding a hardware audio context
+ */
+async function decodeAudio(buffer: ArrayBuffer): Promise<AudioBuffer | null> {
+  if (typeof OfflineAudioContext === 'undefined') return null;
+  return new OfflineAudioContext(1, 1, 44100).decodeAudioData(buffer);
+}
+
+/**
+ * Audio player with waveform or spectrogram seeking and ID3/Vorbis tag display
  */
 export function AudioRenderer({ 
   src, 
   mimeType, 
   fileExtension,
   maxHeight = 300,
-  showControls = true
+  showControls = true,
+  blob
 }: AudioRendererProps) {
   console.log('🎵 AudioRenderer render:', { src: src.substring(0, 50), showControls, mimeType, fileExtension });
   
@@ -34,6 +50,16 @@ export function AudioRenderer({
   const [isMuted, setIsMuted] = React.useState(false);
   const [showOverlay, setShowOverlay] = React.useState(false);
   const [duration, setDuration] = React.useState(0);
+  const [currentTime, setCurrentTime] = React.useState(0);
+  const [tags, setTags] = React.useState<AudioTags | null>(null);
+  const [decoded, setDecoded] = React.useState<AudioBuffer | null>(null);
+  const [view, setView] = React.useState<AudioView>('waveform');
+
+  const coverBlob = React.useMemo(
+    () => (tags?.picture ? new Blob([tags.picture.data], { type: tags.picture.mimeType }) : null),
+    [tags]
+  );
+  const coverUrl = useObjectUrl(coverBlob ? `${src}#cover` : null, coverBlob);
 
   React.useEffect(() => {
     console.log('🎵 AudioRenderer props:', { 
@@ -45,6 +71,45 @@ export function AudioRenderer({
     });
   }, [showControls, mimeType, fileExtension, src]);
 
+  // Read tags and decode samples for the waveform
+  React.useEffect(() => {
+    setTags(null);
+    setDecoded(null);
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const source = blob ?? await (await fetch(src)).blob();
+        const buffer = await source.arrayBuffer();
+        if (cancelled) return;
+        setTags(parseAudioTags(new Uint8Array(buffer)));
+        if (buffer.byteLength > MAX_DECODE_BYTES) return;
+        // decodeAudioData detaches its input, and the tags are already read
+        const audio = await decodeAudio(buffer);
+        if (!cancelled) setDecoded(audio);
+      } catch (err) {
+        if (!cancelled) console.warn('⚠️ Could not analyse audio:', err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, blob]);
+
+  // Follow playback smoothly; timeupdate alone only fires a few times a second
+  React.useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      setCurrentTime(audio.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
   // Support for common audio formats
   const isSupportedFormat = React.useMemo(() => {
     const supportedTypes = ['mp3', 'wav', 'ogg', 'm4a', 'aac', 'flac', 'webm', 'opus'];
@@ -91,6 +156,14 @@ export function AudioRenderer({
     }
   };
 
+  const handleSeek = (fraction: number) => {
+    const audio = audioRef.current;
+    const total = duration || decoded?.duration || 0;
+    if (!audio || !total) return;
+    audio.currentTime = fraction * total;
+    setCurrentTime(audio.currentTime);
+  };
+
   const toggleMute = () => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -169,11 +242,15 @@ export function AudioRenderer({
     );
   }
 
+  const title = tags?.title;
+  const subtitle = [tags?.artist, tags?.album].filter(Boolean).join(' • ');
+  const total = duration || decoded?.duration || 0;
+
   return (
     <div className="w-full h-full flex flex-col rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
       {/* Audio visualizer area with overlay controls */}
       <div 
-        className="flex-1 relative bg-gradient-to-br from-blue-50 to-purple-50 dark:from-gray-800 dark:to-gray-900 rounded-lg"
+        className="flex-1 relative bg-gradient-to-br from-blue-50 to-purple-50 dark:from-gray-800 dark:to-gray-900"
         style={{ minHeight: '120px' }}
         onMouseEnter={() => setShowOverlay(true)}
         onMouseLeave={() => setShowOverlay(false)}
@@ -187,13 +264,22 @@ export function AudioRenderer({
           onError={handleError}
           onPlay={handlePlay}
           onPause={handlePause}
+          onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
           preload="metadata"
           className="hidden"
         />
 
+        {/* Embedded cover art */}
+        {coverUrl && (
+          <>
+            <img src={coverUrl} alt={tags?.picture?.description || 'Cover art'} className="absolute inset-0 w-full h-full object-cover" />
+            <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-black/20 to-transparent" />
+          </>
+        )}
+
         {/* Visualizer content */}
-        <div className="absolute inset-0 flex items-center justify-center cursor-pointer rounded-lg" onClick={togglePlay}>
-          <div className="text-center">
+        <div className="absolute inset-0 flex items-center justify-center cursor-pointer" onClick={togglePlay}>
+          <div className={`text-center px-4 ${coverUrl ? 'self-end pb-4 text-white' : ''}`}>
             {isLoading ? (
               <>
                 <div className="text-4xl mb-4 animate-pulse">🔄</div>
@@ -201,17 +287,31 @@ export function AudioRenderer({
                   Loading Audio...
                 </div>
               </>
+            ) : title ? (
+              <>
+                {!coverUrl && <div className="text-4xl mb-2 opacity-30">🎵</div>}
+                <div className={`text-lg font-medium truncate ${coverUrl ? '' : 'text-gray-700 dark:text-gray-300'}`}>
+                  {title}
+                </div>
+                {subtitle && (
+                  <div className={`text-sm truncate ${coverUrl ? 'text-white/80' : 'text-gray-600 dark:text-gray-400'}`}>
+                    {subtitle}
+                  </div>
+                )}
+              </>
             ) : (
               <>
-                <div className="text-6xl mb-4 opacity-30">🎵</div>
-                <div className="text-lg font-medium text-gray-700 dark:text-gray-300">
+                {!coverUrl && <div className="text-6xl mb-4 opacity-30">🎵</div>}
+                <div className={`text-lg font-medium ${coverUrl ? '' : 'text-gray-700 dark:text-gray-300'}`}>
                   {isPlaying ? 'Now Playing' : 'Audio Player'}
                 </div>
               </>
             )}
             
-            <div className="text-sm text-gray-500 dark:text-gray-400 mt-1 opacity-75">
+            <div className={`text-sm mt-1 opacity-75 ${coverUrl ? '' : 'text-gray-500 dark:text-gray-400'}`}>
               {safeMimeSubtype(mimeType)} • {safeExtensionFormat(fileExtension)}
+              {tags?.year && ` • ${tags.year}`}
+              {tags?.genre && ` • ${tags.genre}`}
             </div>
           </div>
         </div>
@@ -247,14 +347,25 @@ export function AudioRenderer({
                 >
                   {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
                 </Button>
-                {duration > 0 && (
+                {total > 0 && (
                   <span className="text-white text-xs">
-                    {Math.floor(duration / 60)}:{(duration % 60).toFixed(0).padStart(2, '0')}
+                    {safeFormatTime(currentTime)} / {safeFormatTime(total)}
                   </span>
                 )}
               </div>
 
               <div className="flex items-center gap-2">
+                {decoded && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setView(view === 'waveform' ? 'spectrogram' : 'waveform')}
+                    className="text-white hover:bg-white/20 h-8 w-8 p-0"
+                    title={view === 'waveform' ? 'Show spectrogram' : 'Show waveform'}
+                  >
+                    {view === 'waveform' ? <AudioLines className="h-4 w-4" /> : <AudioWaveform className="h-4 w-4" />}
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -276,6 +387,17 @@ export function AudioRenderer({
           </div>
         )}
       </div>
+
+      {/* Waveform / spectrogram strip */}
+      {decoded && (
+        <AudioVisualizer
+          audio={decoded}
+          view={view}
+          progress={total ? currentTime / total : 0}
+          onSeek={handleSeek}
+          className={showControls ? 'h-20' : 'h-12'}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { computePeaks, computeSpectrogram, mixToMono, spectrogramColor } from '../../../utils/audioAnalysis';
+
+export type AudioView = 'waveform' | 'spectrogram';
+
+interface AudioVisualizerProps {
+  audio: AudioBuffer;
+  view: AudioView;
+  progress: number; // 0-1
+  onSeek: (fraction: number) => void;
+  className?: string;
+}
+
+const MIN_DECIBELS = -100;
+const WAVEFORM_COLOR = '#60a5fa';
+
+function drawWaveform(ctx: CanvasRenderingContext2D, channels: Float32Array[], width: number, height: number) {
+  const { min, max } = computePeaks(channels, width);
+  // Normalise so quiet recordings still fill the strip
+  let peak = 0;
+  for (let x = 0; x < width; x++) peak = Math.max(peak, -min[x], max[x]);
+  const scale = peak > 0 ? (height / 2) / peak : 0;
+  const middle = height / 2;
+
+  ctx.fillStyle = WAVEFORM_COLOR;
+  for (let x = 0; x < width; x++) {
+    const top = middle - max[x] * scale;
+    const bottom = middle - min[x] * scale;
+    ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+  }
+}
+
+function drawSpectrogram(ctx: CanvasRenderingContext2D, mono: Float32Array, sampleRate: number, width: number, height: number) {
+  const { columns, bins } = computeSpectrogram(mono, sampleRate, { columns: width, minDecibels: MIN_DECIBELS });
+  const image = ctx.createImageData(width, height);
+
+  // Logarithmic frequency axis: the bottom row is the lowest non-DC bin
+  const rowBins = Array.from({ length: height }, (_, y) =>
+    Math.min(bins - 1, Math.round(Math.pow(bins - 1, 1 - y / Math.max(1, height - 1))))
+  );
+
+  columns.forEach((magnitudes, x) => {
+    for (let y = 0; y < height; y++) {
+      const [r, g, b] = spectrogramColor((magnitudes[rowBins[y]] - MIN_DECIBELS) / -MIN_DECIBELS);
+      const i = (y * width + x) * 4;
+      image.data[i] = r;
+      image.data[i + 1] = g;
+      image.data[i + 2] = b;
+      image.data[i + 3] = 255;
+    }
+  });
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Waveform or spectrogram of decoded audio with a playback cursor. Clicking
+ * or using the arrow keys seeks.
+ */
+export function AudioVisualizer({ audio, view, progress, onSeek, className = '' }: AudioVisualizerProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const channels = useMemo(
+    () => Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i)),
+    [audio]
+  );
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width);
+      const height = Math.round(entry.contentRect.height);
+      setSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size.width || !size.height) return;
+    canvas.width = size.width;
+    canvas.height = size.height;
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (view === 'spectrogram') {
+      drawSpectrogram(ctx, mixToMono(channels), audio.sampleRate, size.width, size.height);
+    } else {
+      drawWaveform(ctx, channels, size.width, size.height);
+    }
+  }, [channels, audio.sampleRate, view, size]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const step = 5 / Math.max(audio.duration, 5); // Five seconds
+    onSeek(Math.max(0, Math.min(1, progress + (e.key === 'ArrowLeft' ? -step : step))));
+  };
+
+  const percent = Math.max(0, Math.min(100, progress * 100));
+
+  return (
+    <div
+      ref={wrapperRef}
+      className={`relative cursor-pointer select-none bg-gray-900 ${className}`}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(audio.duration)}
+      aria-valuenow={Math.round(progress * audio.duration)}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div className="absolute inset-y-0 left-0 bg-white/15 pointer-events-none" style={{ width: `${percent}%` }} />
+      <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: `${percent}%` }} />
+    </div>
+  );
+}
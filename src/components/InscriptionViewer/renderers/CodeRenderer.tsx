@@ -20,6 +20,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { getFormatLabel } from '../../../utils/safeFormatting';
+import { resolveLanguage, tokenize, tokenizeAsync, getGrammar, SyntaxToken, SyntaxTokenType } from '../../../utils/syntaxHighlighter';
 
 interface CodeRendererProps {
   content: string;
@@ -37,7 +38,142 @@ interface LineInfo {
   isEmpty: boolean;
 }
 
-type Theme = 'dark' | 'light' | 'monokai' | 'github';
+export type CodeTheme = 'dark' | 'light' | 'monokai' | 'github';
+
+export interface CodeThemeStyles {
+  background: string;
+  text: string;
+  lineNumbers: string;
+  controls: string;
+  tokens: Record<SyntaxTokenType, string>;
+}
+
+// Files at or above this size are tokenized off the main thread
+const LARGE_FILE_THRESHOLD = 100 * 1024;
+
+/** Tailwind classes per theme and token type; shared with code blocks in other renderers */
+export const CODE_THEMES: Record<CodeTheme, CodeThemeStyles> = {
+  dark: {
+    background: 'bg-gray-900',
+    text: 'text-gray-100',
+    lineNumbers: 'bg-gray-800 text-gray-500 border-gray-700',
+    controls: 'bg-gray-800 border-gray-700',
+    tokens: {
+      plain: '',
+      keyword: 'text-purple-400 font-semibold',
+      string: 'text-green-400',
+      escape: 'text-emerald-300',
+      comment: 'text-gray-500 italic',
+      number: 'text-blue-400',
+      constant: 'text-orange-400',
+      property: 'text-yellow-400',
+      attribute: 'text-yellow-300',
+      tag: 'text-red-400',
+      selector: 'text-pink-400 font-semibold',
+      operator: 'text-sky-300',
+      punctuation: 'text-gray-400',
+      function: 'text-cyan-300',
+      type: 'text-teal-300',
+      variable: 'text-rose-300',
+      builtin: 'text-indigo-300',
+      regex: 'text-orange-300',
+      meta: 'text-gray-400',
+      heading: 'text-blue-300 font-semibold',
+      inserted: 'text-green-400 bg-green-900/30',
+      deleted: 'text-red-400 bg-red-900/30'
+    }
+  },
+  light: {
+    background: 'bg-white',
+    text: 'text-gray-900',
+    lineNumbers: 'bg-gray-100 text-gray-600 border-gray-300',
+    controls: 'bg-gray-100 border-gray-300',
+    tokens: {
+      plain: '',
+      keyword: 'text-purple-600 font-semibold',
+      string: 'text-green-600',
+      escape: 'text-emerald-700',
+      comment: 'text-gray-500 italic',
+      number: 'text-blue-600',
+      constant: 'text-orange-600',
+      property: 'text-yellow-600',
+      attribute: 'text-yellow-700',
+      tag: 'text-red-600',
+      selector: 'text-pink-600 font-semibold',
+      operator: 'text-sky-700',
+      punctuation: 'text-gray-500',
+      function: 'text-cyan-700',
+      type: 'text-teal-700',
+      variable: 'text-rose-600',
+      builtin: 'text-indigo-600',
+      regex: 'text-orange-700',
+      meta: 'text-gray-500',
+      heading: 'text-blue-700 font-semibold',
+      inserted: 'text-green-700 bg-green-50',
+      deleted: 'text-red-700 bg-red-50'
+    }
+  },
+  monokai: {
+    background: 'bg-gray-900',
+    text: 'text-gray-200',
+    lineNumbers: 'bg-gray-800 text-gray-600 border-gray-700',
+    controls: 'bg-gray-800 border-gray-700',
+    tokens: {
+      plain: '',
+      keyword: 'text-pink-400 font-semibold',
+      string: 'text-yellow-300',
+      escape: 'text-purple-300',
+      comment: 'text-gray-500 italic',
+      number: 'text-purple-400',
+      constant: 'text-purple-300',
+      property: 'text-blue-400',
+      attribute: 'text-green-300',
+      tag: 'text-red-400',
+      selector: 'text-green-400 font-semibold',
+      operator: 'text-pink-300',
+      punctuation: 'text-gray-400',
+      function: 'text-green-400',
+      type: 'text-sky-300 italic',
+      variable: 'text-orange-300',
+      builtin: 'text-sky-400',
+      regex: 'text-yellow-200',
+      meta: 'text-gray-400',
+      heading: 'text-yellow-300 font-semibold',
+      inserted: 'text-green-400 bg-green-900/30',
+      deleted: 'text-red-400 bg-red-900/30'
+    }
+  },
+  github: {
+    background: 'bg-gray-50',
+    text: 'text-gray-900',
+    lineNumbers: 'bg-white text-gray-500 border-gray-200',
+    controls: 'bg-white border-gray-200',
+    tokens: {
+      plain: '',
+      keyword: 'text-red-600',
+      string: 'text-blue-600',
+      escape: 'text-blue-800',
+      comment: 'text-gray-600 italic',
+      number: 'text-purple-600',
+      constant: 'text-blue-700',
+      property: 'text-green-600',
+      attribute: 'text-purple-700',
+      tag: 'text-blue-600',
+      selector: 'text-purple-600',
+      operator: 'text-red-500',
+      punctuation: 'text-gray-600',
+      function: 'text-purple-700',
+      type: 'text-orange-700',
+      variable: 'text-orange-600',
+      builtin: 'text-blue-700',
+      regex: 'text-blue-800',
+      meta: 'text-gray-500',
+      heading: 'text-blue-700 font-semibold',
+      inserted: 'text-green-800 bg-green-50',
+      deleted: 'text-red-800 bg-red-50'
+    }
+  }
+};
 
 /**
  * Enhanced code renderer with syntax highlighting, search, and developer tools
@@ -53,7 +189,7 @@ export function CodeRenderer({
   const [showLineNumbers, setShowLineNumbers] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [wordWrap, setWordWrap] = useState(false);
-  const [theme, setTheme] = useState<Theme>('dark');
+  const [theme, setTheme] = useState<CodeTheme>('dark');
   const [fontSize, setFontSize] = useState(14);
   const [searchTerm, setSearchTerm] = useState('');
   const [showSearch, setShowSearch] = useState(false);
@@ -75,130 +211,46 @@ export function CodeRenderer({
     }));
   }, [content]);
 
-  // Enhanced language detection
-  const detectedLanguage = useMemo(() => {
-    if (language) return language.toLowerCase();
-    
-    if (fileExtension) {
-      const extensionMap: Record<string, string> = {
-        // JavaScript/TypeScript
-        'js': 'javascript', 'jsx': 'javascript', 'mjs': 'javascript',
-        'ts': 'typescript', 'tsx': 'typescript',
-        
-        // Python
-        'py': 'python', 'pyw': 'python', 'pyi': 'python',
-        
-        // Web languages
-        'html': 'html', 'htm': 'html', 'xhtml': 'html',
-        'css': 'css', 'scss': 'scss', 'sass': 'sass', 'less': 'less',
-        'json': 'json', 'jsonc': 'json',
-        
-        // Systems languages
-        'c': 'c', 'h': 'c',
-        'cpp': 'cpp', 'cc': 'cpp', 'cxx': 'cpp', 'hpp': 'cpp',
-        'rs': 'rust', 'go': 'go',
-        'java': 'java', 'kt': 'kotlin', 'kts': 'kotlin',
-        'cs': 'csharp', 'vb': 'vbnet',
-        
-        // Scripting
-        'sh': 'bash', 'bash': 'bash', 'zsh': 'bash',
-        'ps1': 'powershell', 'psm1': 'powershell',
-        'rb': 'ruby', 'php': 'php',
-        
-        // Data formats
-        'sql': 'sql', 'mysql': 'sql', 'pgsql': 'sql',
-        'xml': 'xml', 'xsd': 'xml', 'xsl': 'xml',
-        'yaml': 'yaml', 'yml': 'yaml',
-        'toml': 'toml', 'ini': 'ini', 'conf': 'ini',
-        
-        // Markup
-        'md': 'markdown', 'markdown': 'markdown',
-        'tex': 'latex', 'ltx': 'latex',
-        
-        // Others
-        'r': 'r', 'R': 'r',
-        'lua': 'lua', 'pl': 'perl', 'pm': 'perl',
-        'swift': 'swift', 'm': 'objectivec',
-        'dart': 'dart', 'scala': 'scala'
-      };
-      
-      return extensionMap[fileExtension.toLowerCase()] || 'plaintext';
-    }
-    
-    // Content-based detection
-    const firstLine = content.split('\n')[0];
-    if (firstLine.startsWith('#!/')) {
-      if (firstLine.includes('python')) return 'python';
-      if (firstLine.includes('node')) return 'javascript';
-      if (firstLine.includes('bash') || firstLine.includes('sh')) return 'bash';
-    }
-    
-    // Look for patterns in content
-    if (content.includes('function ') && content.includes('{')) return 'javascript';
-    if (content.includes('def ') && content.includes(':')) return 'python';
-    if (content.includes('<html') || content.includes('<!DOCTYPE')) return 'html';
-    if (content.includes('SELECT ') || content.includes('FROM ')) return 'sql';
-    
-    return 'plaintext';
-  }, [language, fileExtension, content]);
+  // Language detection from explicit language, extension, MIME type or content
+  const detectedLanguage = useMemo(() => resolveLanguage({
+    language,
+    fileExtension,
+    mimeType,
+    content: content.slice(0, 4096)
+  }), [language, fileExtension, mimeType, content]);
+
+  const languageLabel = getGrammar(detectedLanguage)?.label || detectedLanguage;
+
+  // Tokenize small files synchronously; large files in a worker while lines render unhighlighted
+  const isLargeFile = content.length >= LARGE_FILE_THRESHOLD;
+  const syncTokens = useMemo(
+    () => (isLargeFile ? null : tokenize(content, detectedLanguage)),
+    [isLargeFile, content, detectedLanguage]
+  );
+  const [asyncTokens, setAsyncTokens] = useState<SyntaxToken[][] | null>(null);
 
-  // Simple syntax highlighting (basic implementation)
-  const highlightSyntax = useCallback((code: string, lang: string): string => {
-    // This is a simplified syntax highlighter - in production you'd use Prism.js or similar
-    let highlighted = code;
-    
-    // Escape HTML first
-    highlighted = highlighted
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;');
-    
-    switch (lang) {
-      case 'javascript':
-      case 'typescript':
-        highlighted = highlighted
-          // Keywords
-          .replace(/\b(function|const|let|var|if|else|for|while|return|class|import|export|from|default|async|await|try|catch|finally|throw|new|this|super|extends|implements|interface|type|enum|public|private|protected|static|readonly)\b/g, '<span class="keyword">$1</span>')
-          // Strings
-          .replace(/(["'`])((?:\\.|(?!\1)[^\\])*?)\1/g, '<span class="string">$1$2$1</span>')
-          // Comments
-          .replace(/(\/\/.*$|\/\*[\s\S]*?\*\/)/gm, '<span class="comment">$1</span>')
-          // Numbers
-          .replace(/\b(\d+\.?\d*)\b/g, '<span class="number">$1</span>');
-        break;
-        
-      case 'python':
-        highlighted = highlighted
-          .replace(/\b(def|class|if|elif|else|for|while|in|return|import|from|as|try|except|finally|raise|with|lambda|and|or|not|is|None|True|False|pass|break|continue|global|nonlocal|yield|async|await)\b/g, '<span class="keyword">$1</span>')
-          .replace(/(["']{3}[\s\S]*?["']{3}|["'](?:\\.|[^"'\\])*?["'])/g, '<span class="string">$1</span>')
-          .replace(/(#.*$)/gm, '<span class="comment">$1</span>')
-          .replace(/\b(\d+\.?\d*)\b/g, '<span class="number">$1</span>');
-        break;
-        
-      case 'html':
-        highlighted = highlighted
-          .replace(/(&lt;\/?[a-zA-Z][^&gt;]*&gt;)/g, '<span class="tag">$1</span>')
-          .replace(/(&lt;!--[\s\S]*?--&gt;)/g, '<span class="comment">$1</span>');
-        break;
-        
-      case 'css':
-        highlighted = highlighted
-          .replace(/([a-zA-Z-]+)(\s*:)/g, '<span class="property">$1</span>$2')
-          .replace(/(\/\*[\s\S]*?\*\/)/g, '<span class="comment">$1</span>')
-          .replace(/([.#][a-zA-Z-_]+)/g, '<span class="selector">$1</span>');
-        break;
-        
-      case 'json':
-        highlighted = highlighted
-          .replace(/(["'](?:\\.|[^"'\\])*?["'])\s*:/g, '<span class="property">$1</span>:')
-          .replace(/:\s*(["'](?:\\.|[^"'\\])*?["'])/g, ': <span class="string">$1</span>')
-          .replace(/:\s*(true|false|null)\b/g, ': <span class="keyword">$1</span>')
-          .replace(/:\s*(\d+\.?\d*)/g, ': <span class="number">$1</span>');
-        break;
-    }
-    
-    return highlighted;
-  }, []);
+  useEffect(() => {
+    if (!isLargeFile) return;
+
+    let cancelled = false;
+    const controller = new AbortController();
+    setAsyncTokens(null);
+
+    tokenizeAsync(content, detectedLanguage, { workerThreshold: LARGE_FILE_THRESHOLD, signal: controller.signal })
+      .then(tokens => {
+        if (!cancelled) setAsyncTokens(tokens);
+      })
+      .catch(error => {
+        if (!cancelled) console.warn('⚠️ Syntax highlighting failed:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [isLargeFile, content, detectedLanguage]);
+
+  const tokenLines = syncTokens || asyncTokens;
 
   // Search functionality
   const searchMatches = useMemo(() => {
@@ -221,6 +273,17 @@ export function CodeRenderer({
     return matches;
   }, [searchTerm, lines]);
 
+  // Matches grouped by line, keeping their global index for the current-match highlight
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, Array<{ column: number; length: number; index: number }>>();
+    searchMatches.forEach((match, index) => {
+      const entries = byLine.get(match.line) || [];
+      entries.push({ column: match.column, length: match.length, index });
+      byLine.set(match.line, entries);
+    });
+    return byLine;
+  }, [searchMatches]);
+
   // Statistics
   const stats = useMemo(() => {
     const totalChars = content.length;
@@ -238,66 +301,7 @@ export function CodeRenderer({
     };
   }, [content, lines]);
 
-  // Theme styles
-  const getThemeStyles = (theme: Theme) => {
-    const themes = {
-      dark: {
-        background: 'bg-gray-900',
-        text: 'text-gray-100',
-        lineNumbers: 'bg-gray-800 text-gray-500 border-gray-700',
-        controls: 'bg-gray-800 border-gray-700',
-        keyword: 'text-purple-400',
-        string: 'text-green-400',
-        comment: 'text-gray-500',
-        number: 'text-blue-400',
-        property: 'text-yellow-400',
-        tag: 'text-red-400',
-        selector: 'text-pink-400'
-      },
-      light: {
-        background: 'bg-white',
-        text: 'text-gray-900',
-        lineNumbers: 'bg-gray-100 text-gray-600 border-gray-300',
-        controls: 'bg-gray-100 border-gray-300',
-        keyword: 'text-purple-600',
-        string: 'text-green-600',
-        comment: 'text-gray-500',
-        number: 'text-blue-600',
-        property: 'text-yellow-600',
-        tag: 'text-red-600',
-        selector: 'text-pink-600'
-      },
-      monokai: {
-        background: 'bg-gray-900',
-        text: 'text-gray-200',
-        lineNumbers: 'bg-gray-800 text-gray-600 border-gray-700',
-        controls: 'bg-gray-800 border-gray-700',
-        keyword: 'text-pink-400',
-        string: 'text-yellow-300',
-        comment: 'text-gray-500',
-        number: 'text-purple-400',
-        property: 'text-blue-400',
-        tag: 'text-red-400',
-        selector: 'text-green-400'
-      },
-      github: {
-        background: 'bg-gray-50',
-        text: 'text-gray-900',
-        lineNumbers: 'bg-white text-gray-500 border-gray-200',
-        controls: 'bg-white border-gray-200',
-        keyword: 'text-red-600',
-        string: 'text-blue-600',
-        comment: 'text-gray-600',
-        number: 'text-purple-600',
-        property: 'text-green-600',
-        tag: 'text-blue-600',
-        selector: 'text-purple-600'
-      }
-    };
-    return themes[theme];
-  };
-
-  const themeStyles = getThemeStyles(theme);
+  const themeStyles = CODE_THEMES[theme];
 
   const handleCopy = async () => {
     try {
@@ -400,19 +404,53 @@ export function CodeRenderer({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [showSearch, currentMatch, searchMatches.length]);
 
+  // Render a line from its tokens, splitting tokens where search matches start and end
+  const renderLineContent = (line: LineInfo, index: number): React.ReactNode => {
+    const tokens = tokenLines?.[index] || (line.content ? [{ type: 'plain' as SyntaxTokenType, value: line.content }] : []);
+    if (tokens.length === 0) return ' ';
+
+    const lineMatches = matchesByLine.get(line.number) || [];
+    const parts: React.ReactNode[] = [];
+    let offset = 0;
+
+    tokens.forEach((token, tokenIndex) => {
+      const start = offset;
+      const end = offset + token.value.length;
+      const tokenClass = themeStyles.tokens[token.type] || undefined;
+      let cursor = start;
+      offset = end;
+
+      lineMatches.forEach(match => {
+        const matchStart = Math.max(match.column, start);
+        const matchEnd = Math.min(match.column + match.length, end);
+        if (matchStart >= matchEnd) return;
+
+        if (cursor < matchStart) {
+          parts.push(<span key={`${tokenIndex}-${cursor}`} className={tokenClass}>{token.value.slice(cursor - start, matchStart - start)}</span>);
+        }
+        const highlightClass = match.index === currentMatch ? 'search-highlight current' : 'search-highlight';
+        parts.push(
+          <span key={`${tokenIndex}-${matchStart}-match`} className={`${tokenClass || ''} ${highlightClass}`}>
+            {token.value.slice(matchStart - start, matchEnd - start)}
+          </span>
+        );
+        cursor = matchEnd;
+      });
+
+      if (cursor < end) {
+        parts.push(<span key={`${tokenIndex}-${cursor}`} className={tokenClass}>{token.value.slice(cursor - start)}</span>);
+      }
+    });
+
+    return parts;
+  };
+
   const controlsHeight = showControls ? (showSearch ? 100 : 60) : 0;
 
   return (
     <div className={`w-full h-full flex flex-col ${themeStyles.background} ${themeStyles.text} ${isFullscreen ? 'fixed inset-0 z-50' : 'rounded-lg overflow-hidden border'}`}>
-      {/* CSS for syntax highlighting */}
+      {/* CSS for search highlighting */}
       <style dangerouslySetInnerHTML={{ __html: `
-        .keyword { color: ${themeStyles.keyword.replace('text-', '')}; font-weight: 600; }
-        .string { color: ${themeStyles.string.replace('text-', '')}; }
-        .comment { color: ${themeStyles.comment.replace('text-', '')}; font-style: italic; }
-        .number { color: ${themeStyles.number.replace('text-', '')}; }
-        .property { color: ${themeStyles.property.replace('text-', '')}; }
-        .tag { color: ${themeStyles.tag.replace('text-', '')}; }
-        .selector { color: ${themeStyles.selector.replace('text-', '')}; font-weight: 600; }
         .search-highlight { background-color: #ffd700; color: #000; padding: 1px 2px; border-radius: 2px; }
         .search-highlight.current { background-color: #ff6b6b; }
       `}} />
@@ -426,7 +464,7 @@ export function CodeRenderer({
                 {getFormatLabel(mimeType, fileExtension)}
               </span>
               <span className="text-gray-500">•</span>
-              <span className="capitalize font-medium">{detectedLanguage}</span>
+              <span className="font-medium">{languageLabel}</span>
             </div>
             
             <div className="flex items-center gap-3 text-xs text-gray-500">
@@ -470,7 +508,7 @@ export function CodeRenderer({
 
             <select
               value={theme}
-              onChange={(e) => setTheme(e.target.value as Theme)}
+              onChange={(e) => setTheme(e.target.value as CodeTheme)}
               className="h-8 px-2 text-xs rounded bg-transparent border border-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
               title="Change theme"
             >
@@ -606,30 +644,16 @@ export function CodeRenderer({
           <div className="flex-1 p-2 overflow-x-auto">
             <pre className={wordWrap ? "whitespace-pre-wrap break-words" : "whitespace-pre"}>
               <code>
-                {lines.map((line, index) => {
-                  let highlightedContent = highlightSyntax(line.content || ' ', detectedLanguage);
-                  
-                  // Apply search highlighting
-                  if (searchTerm && searchMatches.length > 0) {
-                    const lineMatches = searchMatches.filter(match => match.line === line.number);
-                    lineMatches.forEach((match, matchIndex) => {
-                      const globalMatchIndex = searchMatches.indexOf(match);
-                      const className = globalMatchIndex === currentMatch ? 'search-highlight current' : 'search-highlight';
-                      const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-                      highlightedContent = highlightedContent.replace(regex, `<span class="${className}">$1</span>`);
-                    });
-                  }
-                  
-                  return (
-                    <div 
-                      key={line.number}
-                      className="leading-6"
-                      data-line={line.number}
-                      style={{ fontSize: `${fontSize}px` }}
-                      dangerouslySetInnerHTML={{ __html: highlightedContent }}
-                    />
-                  );
-                })}
+                {lines.map((line, index) => (
+                  <div 
+                    key={line.number}
+                    className="leading-6"
+                    data-line={line.number}
+                    style={{ fontSize: `${fontSize}px` }}
+                  >
+                    {renderLineContent(line, index)}
+                  </div>
+                ))}
               </code>
             </pre>
           </div>
@@ -647,7 +671,8 @@ export function CodeRenderer({
       {!isFullscreen && (
         <div className={`px-3 py-1 border-t ${themeStyles.controls} text-xs text-gray-500 flex justify-between`}>
           <div>
-            {detectedLanguage} • UTF-8 • {stats.averageLineLength} avg chars/line
+            {languageLabel} • UTF-8 • {stats.averageLineLength} avg chars/line
+            {!tokenLines && ' • Highlighting…'}
           </div>
           <div>
             {copySuccess && <span className="text-green-500 mr-2">Copied!</span>}
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
-import { Download, ExternalLink, FileText, AlertTriangle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Download, ExternalLink, FileText, AlertTriangle, Folder, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { getFormatLabel, safeFormatFileSize } from '../../../utils/safeFormatting';
+import { inspectContainer, ContainerDetails } from '../../../utils/containerParsers';
 
 interface DownloadRendererProps {
   src: string;
@@ -12,11 +13,176 @@ interface DownloadRendererProps {
   displayName?: string;
   description?: string;
   fileSize?: number;
+  blob?: Blob; // Already-fetched content; inspected instead of re-fetching src
+  inspect?: boolean; // Parse archives, fonts, PDFs and executables for details
+}
+
+const MAX_LISTED_ENTRIES = 200;
+
+function formatDate(date?: Date | null): string | undefined {
+  return date ? date.toLocaleString() : undefined;
+}
+
+/** Label/value rows, skipping empty values */
+function DetailRows({ rows }: { rows: Array<[string, React.ReactNode]> }) {
+  const visible = rows.filter(([, value]) => value !== undefined && value !== null && value !== '');
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+      {visible.map(([label, value]) => (
+        <React.Fragment key={label}>
+          <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+          <dd className="text-gray-900 dark:text-gray-100 break-all">{value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+}
+
+/** File listing for ZIP and TAR archives */
+function ArchiveListing({ details }: { details: Extract<ContainerDetails, { kind: 'zip' | 'tar' }> }) {
+  const entries = details.kind === 'zip'
+    ? details.info.entries.map(entry => ({
+        name: entry.name,
+        isDirectory: entry.isDirectory,
+        size: entry.size,
+        detail: entry.encrypted ? `${entry.methodName}, encrypted` : entry.methodName,
+        modified: entry.modified
+      }))
+    : details.info.entries.map(entry => ({
+        name: entry.name,
+        isDirectory: entry.type === 'directory',
+        size: entry.size,
+        detail: entry.type,
+        modified: entry.modified
+      }));
+  const files = entries.filter(entry => !entry.isDirectory).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-600 dark:text-gray-400">
+        {files} file{files === 1 ? '' : 's'}
+        {entries.length > files && `, ${entries.length - files} folder${entries.length - files === 1 ? '' : 's'}`}
+        {' • '}{safeFormatFileSize(details.info.totalSize)} uncompressed
+        {details.kind === 'zip' && details.info.truncated && ' • central directory missing, listing may be incomplete'}
+      </div>
+      {details.kind === 'zip' && details.info.comment && (
+        <div className="text-xs italic text-gray-500 dark:text-gray-400">{details.info.comment}</div>
+      )}
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+            <th className="py-1 pr-2 font-normal">Name</th>
+            <th className="py-1 pr-2 font-normal text-right">Size</th>
+            <th className="py-1 pr-2 font-normal">Type</th>
+            <th className="py-1 font-normal">Modified</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.slice(0, MAX_LISTED_ENTRIES).map((entry, index) => (
+            <tr key={`${entry.name}-${index}`} className="border-b border-gray-100 dark:border-gray-800 text-gray-800 dark:text-gray-200">
+              <td className="py-1 pr-2 break-all">
+                {entry.isDirectory && <Folder className="inline h-3 w-3 mr-1 text-gray-400" />}
+                {entry.name}
+              </td>
+              <td className="py-1 pr-2 text-right whitespace-nowrap">{entry.isDirectory ? '' : safeFormatFileSize(entry.size)}</td>
+              <td className="py-1 pr-2 whitespace-nowrap">{entry.detail}</td>
+              <td className="py-1 whitespace-nowrap">{formatDate(entry.modified) || ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {entries.length > MAX_LISTED_ENTRIES && (
+        <div className="text-xs text-gray-500">…and {entries.length - MAX_LISTED_ENTRIES} more entries</div>
+      )}
+    </div>
+  );
+}
+
+/** Structured details for a parsed container */
+function ContainerDetailsView({ details }: { details: ContainerDetails }) {
+  switch (details.kind) {
+    case 'zip':
+    case 'tar':
+      return <ArchiveListing details={details} />;
+
+    case 'font': {
+      const { info } = details;
+      return (
+        <DetailRows rows={[
+          ['Family', info.family],
+          ['Style', info.subfamily],
+          ['Full name', info.fullName],
+          ['Version', info.version],
+          ['Glyphs', info.glyphCount?.toLocaleString()],
+          ['Units per em', info.unitsPerEm],
+          ['Fonts in collection', info.fontCount],
+          ['Designer', info.designer],
+          ['Foundry', info.manufacturer],
+          ['Copyright', info.copyright],
+          ['Tables', info.tables.join(', ')],
+          ['Note', info.namesUnavailable ? 'Names are Brotli-compressed in WOFF2 and not shown' : undefined]
+        ]} />
+      );
+    }
+
+    case 'pdf': {
+      const { info } = details;
+      return (
+        <DetailRows rows={[
+          ['Title', info.title],
+          ['Author', info.author],
+          ['Pages', info.pageCount],
+          ['Subject', info.subject],
+          ['Keywords', info.keywords],
+          ['PDF version', info.version],
+          ['Creator', info.creator],
+          ['Producer', info.producer],
+          ['Created', formatDate(info.creationDate)],
+          ['Modified', formatDate(info.modificationDate)],
+          ['Encrypted', info.encrypted ? 'Yes' : undefined],
+          ['Linearized', info.linearized ? 'Yes (fast web view)' : undefined]
+        ]} />
+      );
+    }
+
+    case 'pe': {
+      const { info } = details;
+      return (
+        <DetailRows rows={[
+          ['Architecture', `${info.machine} (${info.is64Bit ? 'PE32+' : 'PE32'})`],
+          ['Kind', info.isDll ? 'Dynamic-link library' : 'Executable'],
+          ['Subsystem', info.subsystem],
+          ['.NET assembly', info.isDotNet ? 'Yes' : undefined],
+          ['Linked', formatDate(info.timestamp)],
+          ['Entry point', <span className="font-mono">{info.entryPoint}</span>],
+          ['Image base', <span className="font-mono">{info.imageBase}</span>],
+          ['Flags', info.characteristics.join(', ')],
+          ['Sections', info.sections.map(section => section.name).join(', ')]
+        ]} />
+      );
+    }
+
+    case 'elf': {
+      const { info } = details;
+      return (
+        <DetailRows rows={[
+          ['Architecture', `${info.machine} (${info.is64Bit ? '64' : '32'}-bit, ${info.littleEndian ? 'little' : 'big'}-endian)`],
+          ['Type', info.type],
+          ['OS ABI', info.osAbi],
+          ['Interpreter', info.interpreter],
+          ['Entry point', <span className="font-mono">{info.entryPoint}</span>],
+          ['Program headers', info.programHeaders],
+          ['Sections', info.sections.map(section => section.name).join(', ')]
+        ]} />
+      );
+    }
+  }
 }
 
 /**
- * Download-only renderer for files that can't be displayed inline
- * (Archives, executables, documents, etc.)
+ * Download renderer for files that can't be displayed inline
+ * (Archives, executables, documents, etc.). Shows parsed container details
+ * (file listings, font names, PDF info, executable headers) when available.
  */
 export function DownloadRenderer({ 
   src, 
@@ -26,9 +192,38 @@ export function DownloadRenderer({
   showControls = true,
   displayName,
   description,
-  fileSize
+  fileSize,
+  blob,
+  inspect = true
 }: DownloadRendererProps) {
   const [isDownloading, setIsDownloading] = useState(false);
+  const [details, setDetails] = useState<ContainerDetails | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+
+  useEffect(() => {
+    if (!inspect) return;
+    let cancelled = false;
+
+    setDetails(null);
+    setIsInspecting(true);
+    (blob ? Promise.resolve(blob) : fetch(src).then(response => response.blob()))
+      .then(data => inspectContainer(data))
+      .then(result => {
+        if (!cancelled) setDetails(result);
+      })
+      .catch(err => {
+        console.warn('⚠️ Failed to inspect file:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsInspecting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, blob, inspect]);
+
+  const effectiveSize = fileSize ?? blob?.size;
 
   const handleDownload = async () => {
     setIsDownloading(true);
@@ -69,10 +264,9 @@ export function DownloadRenderer({
   };
 
   const getWarningForType = () => {
-    if (!fileExtension) return null;
-    
     const executableTypes = ['exe', 'msi', 'app', 'deb', 'rpm', 'dmg', 'pkg'];
-    if (executableTypes.includes(fileExtension)) {
+    const isExecutable = details?.kind === 'pe' || details?.kind === 'elf';
+    if (isExecutable || (fileExtension && executableTypes.includes(fileExtension))) {
       return (
         <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
           <AlertTriangle className="h-4 w-4 flex-shrink-0" />
@@ -93,10 +287,10 @@ export function DownloadRenderer({
             <span className="font-mono">
               {getFormatLabel(mimeType, fileExtension)}
             </span>
-            {fileSize && (
+            {effectiveSize && (
               <>
                 <span className="ml-2 text-gray-500">•</span>
-                <span className="ml-2">{safeFormatFileSize(fileSize)}</span>
+                <span className="ml-2">{safeFormatFileSize(effectiveSize)}</span>
               </>
             )}
           </div>
@@ -124,7 +318,31 @@ export function DownloadRenderer({
         </div>
       )}
 
-      {/* Content */}
+      {/* Parsed details */}
+      {details ? (
+        <div
+          className="flex-1 overflow-auto p-4 space-y-3"
+          style={{ maxHeight: maxHeight - (showControls ? 50 : 0) }}
+        >
+          <div className="flex items-center gap-3">
+            <span className="text-3xl">{typeof getIconForType() === 'string' ? getIconForType() : '📁'}</span>
+            <div className="min-w-0">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
+                {displayName || details.format}
+              </h3>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {details.format}
+                {effectiveSize ? ` • ${safeFormatFileSize(effectiveSize)}` : ''}
+              </div>
+            </div>
+          </div>
+
+          {getWarningForType()}
+
+          <ContainerDetailsView details={details} />
+        </div>
+      ) : (
+      /* Content */
       <div 
         className="flex-1 flex flex-col items-center justify-center p-8 text-center"
         style={{
@@ -158,9 +376,16 @@ export function DownloadRenderer({
           <div className="text-xs text-gray-500 dark:text-gray-500 mb-6 space-y-1">
             <div>Type: {mimeType}</div>
             {fileExtension && <div>Extension: .{fileExtension}</div>}
-            {fileSize && <div>Size: {safeFormatFileSize(fileSize)}</div>}
+            {effectiveSize && <div>Size: {safeFormatFileSize(effectiveSize)}</div>}
           </div>
 
+          {isInspecting && (
+            <div className="flex items-center justify-center gap-2 text-xs text-gray-500 mb-4">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Reading file details...
+            </div>
+          )}
+
           {/* Warning */}
           {getWarningForType()}
 
@@ -187,6 +412,7 @@ export function DownloadRenderer({
           </div>
         </div>
       </div>
+      )}
     </div>
   );
 }
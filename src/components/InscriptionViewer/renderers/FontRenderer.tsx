@@ -0,0 +1,315 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { safeFormatFileSize } from '../../../utils/safeFormatting';
+import { parseFont, FontInfo } from '../../../utils/containerParsers';
+
+interface FontRendererProps {
+  src: string;
+  mimeType: string;
+  fileExtension?: string;
+  maxHeight?: number;
+  showControls?: boolean;
+  blob?: Blob;
+  inscriptionId?: string; // Used for the @font-face snippet recursive inscriptions can copy
+}
+
+const DEFAULT_SAMPLE = 'The quick brown fox jumps over the lazy dog 0123456789';
+const GLYPH_PAGE = 256;
+
+// Printable ASCII when the font's cmap can't be read (e.g. WOFF2)
+const FALLBACK_CODEPOINTS = Array.from({ length: 95 }, (_, i) => 0x20 + i);
+
+function isPrintable(code: number): boolean {
+  return code > 0x20 && !(code >= 0x7f && code <= 0xa0) && !(code >= 0xd800 && code <= 0xdfff);
+}
+
+function formatCodepoint(code: number): string {
+  return `U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+let fontCounter = 0;
+
+/**
+ * Font specimen renderer: loads the inscription via the FontFace API and shows
+ * editable sample text, a size slider, a glyph grid and name-table metadata
+ */
+export function FontRenderer({
+  src,
+  mimeType,
+  fileExtension,
+  maxHeight = 400,
+  showControls = true,
+  blob,
+  inscriptionId
+}: FontRendererProps) {
+  const [family] = useState(() => `inscription-font-${++fontCounter}`);
+  const [info, setInfo] = useState<FontInfo | null>(null);
+  const [fileSize, setFileSize] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sample, setSample] = useState(DEFAULT_SAMPLE);
+  const [fontSize, setFontSize] = useState(36);
+  const [glyphLimit, setGlyphLimit] = useState(GLYPH_PAGE);
+  const [selectedGlyph, setSelectedGlyph] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const loadBlob = (): Promise<Blob> => (blob ? Promise.resolve(blob) : fetch(src).then(response => response.blob()));
+
+  useEffect(() => {
+    let cancelled = false;
+    let face: FontFace | null = null;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setInfo(null);
+
+      try {
+        const data = await loadBlob();
+        const buffer = await data.arrayBuffer();
+        if (cancelled) return;
+        setFileSize(buffer.byteLength);
+
+        // Metadata is best-effort; the specimen still works if the tables can't be read
+        parseFont(new Uint8Array(buffer))
+          .then(result => { if (!cancelled) setInfo(result); })
+          .catch(err => console.warn('⚠️ Could not read font tables:', err));
+
+        face = new FontFace(family, buffer);
+        await face.load();
+        if (cancelled) return;
+        document.fonts.add(face);
+        console.log(`🔤 Loaded font ${family}`);
+      } catch (err: any) {
+        console.error('❌ Font load error:', err);
+        if (!cancelled) setError(err?.message || 'The browser could not load this font');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (face) document.fonts.delete(face);
+    };
+  }, [src, blob]);
+
+  const glyphs = useMemo(() => {
+    const codepoints = info?.codepoints?.length ? info.codepoints : FALLBACK_CODEPOINTS;
+    return codepoints.filter(isPrintable);
+  }, [info]);
+
+  const fontFamily = `'${family}', monospace`;
+  const cssSnippet = inscriptionId
+    ? `@font-face {\n  font-family: '${info?.family || 'Inscription Font'}';\n  src: url('/content/${inscriptionId}');\n}`
+    : null;
+
+  const handleDownload = async () => {
+    try {
+      const data = await loadBlob();
+      const url = URL.createObjectURL(data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${info?.postscriptName || 'font'}.${fileExtension || 'ttf'}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download:', err);
+    }
+  };
+
+  const handleCopySnippet = async () => {
+    if (!cssSnippet) return;
+    try {
+      await navigator.clipboard.writeText(cssSnippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-100 dark:bg-gray-800">
+        <div className="text-center text-gray-500">
+          <div className="text-2xl mb-2">🔤</div>
+          <div className="text-sm text-red-600 dark:text-red-400">Font Load Error</div>
+          <div className="text-xs mt-1 text-gray-400">{error}</div>
+          <div className="mt-3">
+            <Button variant="outline" size="sm" onClick={handleDownload} className="text-xs">
+              <Download className="h-3 w-3 mr-1" />
+              Download Font
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const metadata: Array<[string, React.ReactNode]> = [
+    ['Family', info?.family],
+    ['Style', info?.subfamily],
+    ['Full name', info?.fullName],
+    ['PostScript name', info?.postscriptName],
+    ['Version', info?.version],
+    ['Format', info?.format],
+    ['Glyphs', info?.glyphCount?.toLocaleString()],
+    ['Mapped characters', info?.codepoints?.length.toLocaleString()],
+    ['Units per em', info?.unitsPerEm],
+    ['Designer', info?.designer],
+    ['Foundry', info?.manufacturer],
+    ['Copyright', info?.copyright],
+    ['License', info?.license]
+  ];
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white dark:bg-gray-900" style={{ maxHeight }}>
+      {/* Controls */}
+      {showControls && (
+        <div className="flex justify-between items-center gap-2 p-2 border-b bg-gray-50 dark:bg-gray-800">
+          <div className="text-xs text-gray-600 dark:text-gray-400 truncate">
+            <span className="font-mono">{info?.family || mimeType}</span>
+            {info?.subfamily && <span className="ml-1">{info.subfamily}</span>}
+            {fileSize !== null && (
+              <>
+                <span className="ml-2 text-gray-500">•</span>
+                <span className="ml-2">{safeFormatFileSize(fileSize)}</span>
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min={8}
+              max={120}
+              value={fontSize}
+              onChange={(e) => setFontSize(Number(e.target.value))}
+              className="w-24"
+              aria-label="Sample size"
+            />
+            <span className="text-xs text-gray-500 w-10">{fontSize}px</span>
+            <Button variant="ghost" size="sm" onClick={handleDownload} className="h-6 px-2 text-xs">
+              <Download className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 space-y-6">
+          {/* Specimen */}
+          <textarea
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            rows={2}
+            spellCheck={false}
+            className="w-full resize-none bg-transparent text-gray-900 dark:text-gray-100 outline-none border-b border-dashed border-gray-200 dark:border-gray-700"
+            style={{ fontFamily, fontSize, lineHeight: 1.2 }}
+            aria-label="Sample text"
+          />
+
+          {/* Waterfall */}
+          <div className="space-y-1">
+            {[12, 18, 24, 36].map(size => (
+              <div key={size} className="flex items-baseline gap-3 overflow-hidden whitespace-nowrap">
+                <span className="text-xs text-gray-400 w-8 flex-shrink-0">{size}</span>
+                <span className="text-gray-800 dark:text-gray-200" style={{ fontFamily, fontSize: size }}>
+                  {sample || DEFAULT_SAMPLE}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* Glyph grid */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300">
+                Glyphs ({glyphs.length.toLocaleString()})
+              </h4>
+              {selectedGlyph !== null && (
+                <span className="text-xs font-mono text-gray-500">
+                  {formatCodepoint(selectedGlyph)}
+                </span>
+              )}
+            </div>
+            {selectedGlyph !== null && (
+              <div
+                className="flex items-center justify-center h-32 mb-2 border rounded bg-gray-50 dark:bg-gray-800 dark:border-gray-700 text-gray-900 dark:text-gray-100"
+                style={{ fontFamily, fontSize: 96 }}
+              >
+                {String.fromCodePoint(selectedGlyph)}
+              </div>
+            )}
+            <div className="grid gap-1" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(40px, 1fr))' }}>
+              {glyphs.slice(0, glyphLimit).map(code => (
+                <button
+                  key={code}
+                  onClick={() => setSelectedGlyph(code === selectedGlyph ? null : code)}
+                  className={`h-10 flex items-center justify-center border rounded text-lg text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                    code === selectedGlyph ? 'border-blue-500' : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                  style={{ fontFamily }}
+                  title={formatCodepoint(code)}
+                >
+                  {String.fromCodePoint(code)}
+                </button>
+              ))}
+            </div>
+            {glyphs.length > glyphLimit && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setGlyphLimit(limit => limit + GLYPH_PAGE * 4)}
+                className="mt-2 text-xs"
+              >
+                Show more ({(glyphs.length - glyphLimit).toLocaleString()} remaining)
+              </Button>
+            )}
+          </div>
+
+          {/* Metadata */}
+          {info && (
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+              {metadata
+                .filter(([, value]) => value !== undefined && value !== '')
+                .map(([label, value]) => (
+                  <React.Fragment key={label}>
+                    <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                    <dd className="text-gray-900 dark:text-gray-100 break-words">{value}</dd>
+                  </React.Fragment>
+                ))}
+            </dl>
+          )}
+
+          {/* Recursive usage */}
+          {cssSnippet && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300">Use in a recursive inscription</h4>
+                <Button variant="ghost" size="sm" onClick={handleCopySnippet} className="h-6 px-2 text-xs">
+                  <Copy className="h-3 w-3 mr-1" />
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+              <pre className="text-xs font-mono p-2 rounded bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 overflow-x-auto">
+                {cssSnippet}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FontRenderer;
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef } from 'react';
+import { Pause, Play, SkipBack, SkipForward, Download, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { frameDuration } from '../../../utils/animatedImage';
+import type { AnimationPlayer } from '../../../hooks/useAnimationPlayer';
+
+interface FrameCanvasProps {
+  player: AnimationPlayer;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+interface FrameControlsProps {
+  player: AnimationPlayer;
+}
+
+const DISPOSE_LABELS = { none: 'keep', background: 'clear', previous: 'restore' };
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(ms % 1000 ? 2 : 0)}s` : `${ms}ms`;
+}
+
+/**
+ * Canvas showing the player's current composited frame
+ */
+export function FrameCanvas({ player, className, style }: FrameCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { animation, frame } = player;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const pixels = animation?.frames[frame];
+    if (!canvas || !animation || !pixels) return;
+    const { width, height } = animation.info;
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(new ImageData(pixels, width, height), 0, 0);
+  }, [animation, frame]);
+
+  if (!animation) {
+    return (
+      <div className="text-center text-gray-500 text-sm">
+        {player.error ? `Failed to decode frames: ${player.error}` : 'Decoding frames...'}
+      </div>
+    );
+  }
+
+  return <canvas ref={canvasRef} className={className} style={style} />;
+}
+
+/**
+ * Playback controls, frame details, delay timeline and single-frame PNG export
+ */
+export function FrameControls({ player }: FrameControlsProps) {
+  const { animation, frame, playing } = player;
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current frame visible in long timelines
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [frame]);
+
+  if (!animation) return null;
+
+  const { info, frames } = animation;
+  const current = info.frames[frame];
+  const decoded = info.frames.slice(0, frames.length);
+  const loopLabel = info.loopCount === 0 ? 'loops forever' : `plays ${info.loopCount}×`;
+
+  const handleExport = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = info.width;
+    canvas.height = info.height;
+    canvas.getContext('2d')?.putImageData(new ImageData(frames[frame], info.width, info.height), 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `frame-${frame + 1}.png`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }, 'image/png');
+  };
+
+  return (
+    <div className="border-t bg-gray-50 dark:bg-gray-800 px-3 py-2 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => player.step(-1)} className="h-7 px-2" title="Previous frame (←)">
+            <SkipBack className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={player.toggle} className="h-7 px-2" title={playing ? 'Pause (Space)' : 'Play (Space)'}>
+            {playing ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => player.step(1)} className="h-7 px-2" title="Next frame (→)">
+            <SkipForward className="h-3 w-3" />
+          </Button>
+          <span className="ml-2 text-xs font-mono text-gray-700 dark:text-gray-300">
+            {frame + 1} / {frames.length}
+          </span>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-600 dark:text-gray-400 min-w-0">
+          <span title="Frame delay">{formatDuration(current.delay)}{frameDuration(current) !== current.delay && ` (plays ${formatDuration(frameDuration(current))})`}</span>
+          <span className="hidden sm:inline" title="Frame rectangle and disposal">
+            {current.width}×{current.height} @ {current.x},{current.y} · {DISPOSE_LABELS[current.dispose]}
+          </span>
+          <span className="flex items-center gap-1" title="Loop count">
+            <Repeat className="h-3 w-3" />
+            {loopLabel}
+          </span>
+          <span title="Total duration">{formatDuration(info.duration)}</span>
+          <Button variant="ghost" size="sm" onClick={handleExport} className="h-7 px-2 text-xs" title="Export this frame as PNG">
+            <Download className="h-3 w-3 mr-1" />
+            PNG
+          </Button>
+        </div>
+      </div>
+
+      {/* Timeline: one segment per frame, sized by its delay */}
+      <div className="flex h-5 gap-px overflow-x-auto rounded">
+        {decoded.map(info => (
+          <button
+            key={info.index}
+            ref={info.index === frame ? activeRef : undefined}
+            onClick={() => player.seek(info.index)}
+            className={`h-full min-w-[4px] flex-shrink-0 ${
+              info.index === frame ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-600 hover:bg-blue-300 dark:hover:bg-blue-700'
+            }`}
+            style={{ flexGrow: frameDuration(info) }}
+            title={`Frame ${info.index + 1} · ${formatDuration(info.delay)}`}
+          />
+        ))}
+      </div>
+
+      {animation.truncated && (
+        <div className="text-xs text-amber-600 dark:text-amber-400">
+          Showing the first {frames.length} of {info.frames.length} frames (memory limit)
+        </div>
+      )}
+    </div>
+  );
+}
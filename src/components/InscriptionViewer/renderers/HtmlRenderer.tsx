@@ -1,6 +1,9 @@
 import React from 'react';
 import { Download, ExternalLink, Eye, EyeOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { prepareIsolatedHtml, STRICT_SANDBOX } from '../../../utils/recursionBridge';
+import { useRecursionBridge } from '../../../hooks/useRecursionBridge';
+import { OrdinalsApiService } from '../../../services/OrdinalsApiService';
 
 interface HtmlRendererProps {
   content: string;
@@ -8,6 +11,8 @@ interface HtmlRendererProps {
   mimeType: string;
   maxHeight?: number;
   showControls?: boolean;
+  strictIsolation?: boolean; // No same-origin access; recursion goes through the bridge
+  apiService?: OrdinalsApiService;
 }
 
 /**
@@ -18,12 +23,21 @@ export function HtmlRenderer({
   src,
   mimeType,
   maxHeight = 400,
-  showControls = false 
+  showControls = false,
+  strictIsolation = false,
+  apiService
 }: HtmlRendererProps) {
   const [showSource, setShowSource] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const iframeRef = React.useRef<HTMLIFrameElement>(null);
 
+  // Strict mode needs the markup itself to inject the bridge bootstrap
+  const isolatedDoc = React.useMemo(
+    () => (strictIsolation && content ? prepareIsolatedHtml(content) : null),
+    [strictIsolation, content]
+  );
+  useRecursionBridge(iframeRef, isolatedDoc !== null, apiService);
+
   // Create blob URL for content if provided
   const blobUrl = React.useMemo(() => {
     if (!content) return src;
@@ -148,9 +162,12 @@ export function HtmlRenderer({
           // Rendered view
           <iframe
             ref={iframeRef}
-            src={blobUrl || undefined}
+            src={isolatedDoc === null ? blobUrl || undefined : undefined}
+            srcDoc={isolatedDoc ?? undefined}
             className="w-full h-full border-0"
-            sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox"
+            sandbox={strictIsolation
+              ? `${STRICT_SANDBOX} allow-popups`
+              : 'allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox'}
             title="HTML Content"
             onError={() => setError('Failed to load HTML content')}
           />
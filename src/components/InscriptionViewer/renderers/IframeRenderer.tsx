@@ -14,6 +14,9 @@ import {
 import { Button } from '../../ui/button';
 import { getFormatLabel } from '../../../utils/safeFormatting';
 import { throttledFetch } from '../../../utils/requestThrottler';
+import { prepareIsolatedHtml } from '../../../utils/recursionBridge';
+import { useRecursionBridge } from '../../../hooks/useRecursionBridge';
+import { OrdinalsApiService } from '../../../services/OrdinalsApiService';
 
 interface IframeRendererProps {
   src: string;
@@ -25,6 +28,8 @@ interface IframeRendererProps {
   allowForms?: boolean;       // Always true for ordinals by default  
   allowPopups?: boolean;      // Optional for ordinals with popup behavior
   showSecurityWarning?: boolean;
+  strictIsolation?: boolean;  // Drop same-origin; HTML recursion goes through the bridge
+  apiService?: OrdinalsApiService;
 }
 
 /**
@@ -39,7 +44,9 @@ export function IframeRenderer({
   allowScripts = true,
   allowForms = true,
   allowPopups = false,
-  showSecurityWarning = false
+  showSecurityWarning = false,
+  strictIsolation = false,
+  apiService
 }: IframeRendererProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -51,25 +58,35 @@ export function IframeRenderer({
   const [showWarning, setShowWarning] = useState(showSecurityWarning);
   const [loadStartTime, setLoadStartTime] = useState<number | null>(null);
   const [loadDuration, setLoadDuration] = useState<number | null>(null);
+  const [isolatedDoc, setIsolatedDoc] = useState<string | null>(null);
   
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Generate sandbox permissions - always include same-origin for ordinals recursion
+  // Only HTML can be rewritten to use the bridge; other content is just sandboxed
+  const useBridge = strictIsolation && mimeType.toLowerCase().includes('html');
+  useRecursionBridge(iframeRef, useBridge, apiService);
+
+  // Generate sandbox permissions - same-origin is included for ordinals recursion
+  // unless strict isolation serves recursion through the bridge instead
   const generateSandbox = useCallback(() => {
     const permissions = [
-      'allow-same-origin', // Essential for ordinals recursion
       'allow-scripts',     // Most ordinals need JavaScript
       'allow-forms'        // Allow form interactions
     ];
+
+    if (!strictIsolation) {
+      permissions.unshift('allow-same-origin'); // Essential for ordinals recursion
+    }
     
     if (allowPopups) {
       permissions.push('allow-popups');
-      permissions.push('allow-popups-to-escape-sandbox');
+      // Escaping popups would run outside the opaque origin
+      if (!strictIsolation) permissions.push('allow-popups-to-escape-sandbox');
     }
     
     return permissions.join(' ');
-  }, [allowPopups]);
+  }, [allowPopups, strictIsolation]);
 
   const handleLoad = useCallback(() => {
     setIsLoading(false);
@@ -200,6 +217,32 @@ export function IframeRenderer({
     };
   }, [src]);
 
+  // Strict mode renders the HTML from srcdoc with the bridge bootstrap injected
+  useEffect(() => {
+    setIsolatedDoc(null);
+    if (!useBridge) return;
+
+    let cancelled = false;
+    throttledFetch(src)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        return response.text();
+      })
+      .then(html => {
+        if (!cancelled) setIsolatedDoc(prepareIsolatedHtml(html));
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('❌ Failed to load HTML for isolated frame:', err);
+        setIsLoading(false);
+        setError(`Failed to load content: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, useBridge, retryCount]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -226,8 +269,9 @@ export function IframeRenderer({
   const contentHeight = isFullscreen ? '100vh' : `${maxHeight - controlsHeight}px`;
 
   // Determine security level - for ordinals, we allow scripts/forms by default
-  const securityLevel = allowPopups ? 'medium' : 'ordinal-safe';
-  const securityColor = securityLevel === 'ordinal-safe' ? 'text-blue-600' : 'text-yellow-600';
+  const securityLevel = strictIsolation ? 'strict' : allowPopups ? 'medium' : 'ordinal-safe';
+  const securityColor = securityLevel === 'strict' ? 'text-green-600' : securityLevel === 'ordinal-safe' ? 'text-blue-600' : 'text-yellow-600';
+  const securityLabel = securityLevel === 'strict' ? 'Strict Isolation' : securityLevel === 'ordinal-safe' ? 'Ordinal-Safe' : 'Popups-Enabled';
 
   return (
     <div className={`w-full h-full flex flex-col ${isFullscreen ? 'fixed inset-0 z-50 bg-white dark:bg-gray-900' : 'rounded-lg overflow-hidden border'}`}>
@@ -238,7 +282,9 @@ export function IframeRenderer({
             <AlertTriangle className="h-4 w-4 text-yellow-600" />
             <div className="flex items-center justify-between flex-1">
               <span className="text-sm text-yellow-800">
-                This ordinal content runs with same-origin access for recursion support. 
+                {strictIsolation
+                  ? 'This ordinal content runs in an isolated origin; recursive requests are served by the viewer.'
+                  : 'This ordinal content runs with same-origin access for recursion support.'} 
                 <span className={`ml-1 font-medium ${securityColor}`}>
                   Mode: {securityLevel.toUpperCase()}
                 </span>
@@ -276,7 +322,7 @@ export function IframeRenderer({
             <div className="flex items-center gap-1">
               <Shield className={`h-3 w-3 ${securityColor}`} />
               <span className={`text-xs ${securityColor}`}>
-                {securityLevel === 'ordinal-safe' ? 'Ordinal-Safe' : 'Popups-Enabled'}
+                {securityLabel}
               </span>
             </div>
           </div>
@@ -363,17 +409,21 @@ export function IframeRenderer({
           minHeight: isFullscreen ? '100vh' : '200px'
         }}
       >
-        <iframe
-          ref={iframeRef}
-          src={src}
-          className="w-full h-full border-0"
-          sandbox={generateSandbox()}
-          onLoad={handleLoad}
-          onError={handleError}
-          title={`Content: ${fileExtension || mimeType}`}
-          loading="lazy"
-          allow="fullscreen"
-        />
+        {/* In strict mode the frame waits for its prepared document */}
+        {(!useBridge || isolatedDoc !== null) && (
+          <iframe
+            ref={iframeRef}
+            src={useBridge ? undefined : src}
+            srcDoc={useBridge ? isolatedDoc ?? undefined : undefined}
+            className="w-full h-full border-0"
+            sandbox={generateSandbox()}
+            onLoad={handleLoad}
+            onError={handleError}
+            title={`Content: ${fileExtension || mimeType}`}
+            loading="lazy"
+            allow="fullscreen"
+          />
+        )}
         
         {/* Loading overlay */}
         {isLoading && (
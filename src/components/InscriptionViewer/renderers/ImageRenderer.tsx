@@ -1,7 +1,12 @@
-import React, { useCallback, useEffect, useRef } from 'react';
-import { Download, ZoomIn, ZoomOut, RotateCw, Maximize2, Move } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { Download, ZoomIn, ZoomOut, RotateCw, Maximize2, Move, Film, Grid3x3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { safeMimeSubtype } from '../../../utils/safeFormatting';
+import { parseAnimation } from '../../../utils/animatedImage';
+import { useAnimationPlayer } from '../../../hooks/useAnimationPlayer';
+import { FrameCanvas, FrameControls } from './FrameInspector';
+import { PixelStage, PixelReadout, PalettePanel, InspectedPixel } from './PixelInspector';
+import { extractPalette, fitIntegerScale, PaletteColor, PIXEL_INSPECT_LIMIT } from '../../../utils/pixelInspect';
 
 interface ImageRendererProps {
   src: string;
@@ -10,8 +15,13 @@ interface ImageRendererProps {
   fileExtension?: string;
   maxHeight?: number;
   showControls?: boolean;
+  blob?: Blob; // Already-loaded content, used to look for animation frames
 }
 
+const ANIMATABLE_MIME = /^image\/(gif|png|apng|webp)\b/i;
+const MAX_PIXEL_SCALE = 64;
+const PALETTE_WIDTH = 176; // PalettePanel is w-44
+
 /**
  * Enhanced image renderer with zoom, pan, rotation, and download controls
  */
@@ -21,7 +31,8 @@ export function ImageRenderer({
   mimeType, 
   fileExtension,
   maxHeight = 400,
-  showControls = false 
+  showControls = false,
+  blob
 }: ImageRendererProps) {
   const [zoom, setZoom] = React.useState(1);
   const [rotation, setRotation] = React.useState(0);
@@ -32,7 +43,18 @@ export function ImageRenderer({
   const [imageDimensions, setImageDimensions] = React.useState<{width: number, height: number} | null>(null);
   const [isDragging, setIsDragging] = React.useState(false);
   const [dragStart, setDragStart] = React.useState({ x: 0, y: 0 });
+  const [animationSource, setAnimationSource] = React.useState<{ blob: Blob, frameCount: number } | null>(null);
+  const [showFrames, setShowFrames] = React.useState(false);
+  
+  const [pixelMode, setPixelMode] = React.useState(false);
+  const [pixelScale, setPixelScale] = React.useState(1);
+  const [pixelData, setPixelData] = React.useState<ImageData | null>(null);
+  const [pixelError, setPixelError] = React.useState<string | null>(null);
+  const [hoveredPixel, setHoveredPixel] = React.useState<InspectedPixel | null>(null);
+  const [highlightColor, setHighlightColor] = React.useState<PaletteColor | null>(null);
   
+  const player = useAnimationPlayer(animationSource?.blob, showFrames);
+  const palette = useMemo(() => (pixelData ? extractPalette(pixelData.data) : null), [pixelData]);
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -42,6 +64,80 @@ export function ImageRenderer({
     setImageDimensions({ width: img.naturalWidth, height: img.naturalHeight });
   }, []);
 
+  // Look for GIF, APNG or animated WebP frames so they can be inspected
+  useEffect(() => {
+    setAnimationSource(null);
+    setShowFrames(false);
+    if (!showControls || !ANIMATABLE_MIME.test(mimeType)) return;
+    let cancelled = false;
+
+    (blob ? Promise.resolve(blob) : fetch(src).then(response => response.blob()))
+      .then(async source => {
+        const info = parseAnimation(new Uint8Array(await source.arrayBuffer()));
+        if (!cancelled && info && info.frames.length > 1) {
+          setAnimationSource({ blob: source, frameCount: info.frames.length });
+        }
+      })
+      .catch(err => console.warn('⚠️ Could not read animation frames:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, blob, mimeType, showControls]);
+
+  const fitPixelScale = useCallback((width: number, height: number) => {
+    const container = containerRef.current;
+    const row = container?.parentElement;
+    if (container && row) {
+      // Measure the row, which also holds the palette panel in pixel mode
+      setPixelScale(fitIntegerScale(width, height, row.clientWidth - PALETTE_WIDTH, container.clientHeight, MAX_PIXEL_SCALE));
+    }
+  }, []);
+
+  // Read the image back at its natural size for the pixel inspector
+  useEffect(() => {
+    setPixelData(null);
+    setPixelError(null);
+    setHoveredPixel(null);
+    setHighlightColor(null);
+    const img = imageRef.current;
+    if (!pixelMode || !imageLoaded || !img) return;
+
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context unavailable');
+      ctx.drawImage(img, 0, 0);
+      setPixelData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+
+      fitPixelScale(canvas.width, canvas.height);
+    } catch (err) {
+      // Cross-origin images taint the canvas
+      console.warn('⚠️ Could not read image pixels:', err);
+      setPixelError('Pixel data is not readable for this image');
+    }
+  }, [pixelMode, imageLoaded, src, fitPixelScale]);
+
+  useEffect(() => {
+    setPixelMode(false);
+  }, [src]);
+
+  const canInspectPixels = !!imageDimensions && imageDimensions.width > 0 &&
+    imageDimensions.width * imageDimensions.height <= PIXEL_INSPECT_LIMIT;
+
+  const togglePixelMode = useCallback(() => {
+    setPixelMode(prev => !prev);
+    setShowFrames(false);
+    setPan({ x: 0, y: 0 });
+  }, []);
+
+  const toggleFrames = useCallback(() => {
+    setShowFrames(prev => !prev);
+    setPixelMode(false);
+  }, []);
+
   const handleImageError = useCallback(() => {
     setImageError(true);
     setImageLoaded(false);
@@ -68,13 +164,25 @@ export function ImageRenderer({
     setZoom(1);
     setRotation(0);
     setPan({ x: 0, y: 0 });
-  }, []);
+    if (pixelData) {
+      fitPixelScale(pixelData.width, pixelData.height);
+    }
+  }, [pixelData, fitPixelScale]);
 
   const handleZoomIn = useCallback(() => {
+    // Pixel mode only scales by whole numbers so every pixel stays square
+    if (pixelMode) {
+      setPixelScale(prev => Math.min(MAX_PIXEL_SCALE, prev + 1));
+      return;
+    }
     setZoom(prev => Math.min(5, prev + 0.2));
-  }, []);
+  }, [pixelMode]);
 
   const handleZoomOut = useCallback(() => {
+    if (pixelMode) {
+      setPixelScale(prev => Math.max(1, prev - 1));
+      return;
+    }
     setZoom(prev => {
       const newZoom = Math.max(0.1, prev - 0.2);
       // Reset pan if zooming out to 1x or less
@@ -83,7 +191,7 @@ export function ImageRenderer({
       }
       return newZoom;
     });
-  }, []);
+  }, [pixelMode]);
 
   const handleRotate = useCallback(() => {
     setRotation(prev => (prev + 90) % 360);
@@ -91,22 +199,24 @@ export function ImageRenderer({
   }, []);
 
   // Mouse drag handlers for panning
+  const canPan = zoom > 1 || pixelMode;
+
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
-    if (zoom > 1) {
+    if (canPan) {
       setIsDragging(true);
       setDragStart({ x: e.clientX - pan.x, y: e.clientY - pan.y });
       e.preventDefault();
     }
-  }, [zoom, pan]);
+  }, [canPan, pan]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (isDragging && zoom > 1) {
+    if (isDragging && canPan) {
       setPan({
         x: e.clientX - dragStart.x,
         y: e.clientY - dragStart.y
       });
     }
-  }, [isDragging, dragStart, zoom]);
+  }, [isDragging, dragStart, canPan]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
@@ -141,6 +251,19 @@ export function ImageRenderer({
           e.preventDefault();
           resetTransform();
           break;
+        case ' ':
+          if (showFrames) {
+            e.preventDefault();
+            player.toggle();
+          }
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight':
+          if (showFrames) {
+            e.preventDefault();
+            player.step(e.key === 'ArrowLeft' ? -1 : 1);
+          }
+          break;
       }
     };
 
@@ -148,18 +271,23 @@ export function ImageRenderer({
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
     }
-  }, [imageLoaded, isFullscreen, handleZoomIn, handleZoomOut, handleRotate, resetTransform]);
+  }, [imageLoaded, isFullscreen, handleZoomIn, handleZoomOut, handleRotate, resetTransform, showFrames, player]);
 
   // Wheel zoom
   const handleWheel = useCallback((e: React.WheelEvent) => {
     if (e.ctrlKey || e.metaKey) {
       e.preventDefault();
+      if (pixelMode) {
+        setPixelScale(prev => Math.max(1, Math.min(MAX_PIXEL_SCALE, prev + (e.deltaY > 0 ? -1 : 1))));
+        return;
+      }
       const delta = e.deltaY > 0 ? -0.1 : 0.1;
       setZoom(prev => Math.max(0.1, Math.min(5, prev + delta)));
     }
-  }, []);
+  }, [pixelMode]);
 
-  const controlsHeight = showControls && imageLoaded ? 70 : 0;
+  const frameControlsHeight = showFrames && player.animation ? 90 : 0;
+  const controlsHeight = (showControls && imageLoaded ? 70 : 0) + frameControlsHeight;
   const containerHeight = isFullscreen ? '100vh' : `${maxHeight - controlsHeight}px`;
 
   if (imageError) {
@@ -202,7 +330,7 @@ export function ImageRenderer({
               </span>
             )}
             <span>
-              {Math.round(zoom * 100)}%
+              {pixelMode ? `${pixelScale}×` : `${Math.round(zoom * 100)}%`}
             </span>
           </div>
           <div className="flex gap-1">
@@ -211,7 +339,7 @@ export function ImageRenderer({
               size="sm"
               onClick={handleZoomOut}
               className="h-8 px-2 text-xs"
-              disabled={zoom <= 0.2}
+              disabled={pixelMode ? pixelScale <= 1 : zoom <= 0.2}
               title="Zoom out (-)"
             >
               <ZoomOut className="h-3 w-3" />
@@ -221,7 +349,7 @@ export function ImageRenderer({
               size="sm"
               onClick={handleZoomIn}
               className="h-8 px-2 text-xs"
-              disabled={zoom >= 5}
+              disabled={pixelMode ? pixelScale >= MAX_PIXEL_SCALE : zoom >= 5}
               title="Zoom in (+)"
             >
               <ZoomIn className="h-3 w-3" />
@@ -244,7 +372,7 @@ export function ImageRenderer({
             >
               Reset
             </Button>
-            {zoom > 1 && (
+            {zoom > 1 && !pixelMode && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -254,6 +382,29 @@ export function ImageRenderer({
                 <Move className="h-3 w-3" />
               </Button>
             )}
+            {canInspectPixels && (
+              <Button
+                variant={pixelMode ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={togglePixelMode}
+                className="h-8 px-2 text-xs"
+                title="Pixel inspector"
+              >
+                <Grid3x3 className="h-3 w-3" />
+              </Button>
+            )}
+            {animationSource && (
+              <Button
+                variant={showFrames ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={toggleFrames}
+                className="h-8 px-2 text-xs"
+                title="Inspect animation frames"
+              >
+                <Film className="h-3 w-3 mr-1" />
+                {animationSource.frameCount}
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -276,78 +427,117 @@ export function ImageRenderer({
         </div>
       )}
 
-      {/* Image container */}
-      <div 
-        ref={containerRef}
-        className="flex-1 relative overflow-hidden bg-gray-50 dark:bg-gray-900"
-        style={{ 
-          height: containerHeight,
-          minHeight: isFullscreen ? '100vh' : '200px',
-          cursor: zoom > 1 ? (isDragging ? 'grabbing' : 'grab') : 'default'
-        }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onWheel={handleWheel}
-      >
-        {/* Image */}
+      <div className="flex-1 flex min-h-0">
+        {/* Image container */}
         <div 
-          className="absolute inset-0 flex items-center justify-center transition-transform duration-200"
-          style={{
-            transform: `translate(${pan.x}px, ${pan.y}px)`
+          ref={containerRef}
+          className="flex-1 relative overflow-hidden bg-gray-50 dark:bg-gray-900"
+          style={{ 
+            height: containerHeight,
+            minHeight: isFullscreen ? '100vh' : '200px',
+            cursor: pixelMode ? (isDragging ? 'grabbing' : 'crosshair') : zoom > 1 ? (isDragging ? 'grabbing' : 'grab') : 'default'
           }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          onWheel={handleWheel}
         >
-          <img
-            ref={imageRef}
-            src={src}
-            alt={alt}
-            className="max-w-full max-h-full object-contain transition-transform duration-200 select-none"
+          {/* Image */}
+          <div 
+            className="absolute inset-0 flex items-center justify-center transition-transform duration-200"
             style={{
-              transform: `scale(${zoom}) rotate(${rotation}deg)`,
-              imageRendering: zoom > 2 ? 'pixelated' : 'auto'
+              transform: `translate(${pan.x}px, ${pan.y}px)`
             }}
-            onLoad={handleImageLoad}
-            onError={handleImageError}
-            draggable={false}
-          />
-        </div>
-        
-        {/* Loading state */}
-        {!imageLoaded && !imageError && (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="text-center text-gray-500">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
-              <div className="text-sm font-medium">Loading image...</div>
-              <div className="text-xs text-gray-400 mt-1">Please wait</div>
-            </div>
+          >
+            <img
+              ref={imageRef}
+              src={src}
+              alt={alt}
+              className={`max-w-full max-h-full object-contain transition-transform duration-200 select-none ${showFrames || pixelData ? 'hidden' : ''}`}
+              style={{
+                transform: `scale(${zoom}) rotate(${rotation}deg)`,
+                imageRendering: zoom > 2 ? 'pixelated' : 'auto'
+              }}
+              onLoad={handleImageLoad}
+              onError={handleImageError}
+              draggable={false}
+            />
+            {pixelMode && pixelData && (
+              <PixelStage
+                pixels={pixelData}
+                scale={pixelScale}
+                rotation={rotation}
+                hovered={hoveredPixel}
+                highlight={highlightColor}
+                onHover={setHoveredPixel}
+              />
+            )}
+            {showFrames && (
+              <FrameCanvas
+                player={player}
+                className="max-w-full max-h-full object-contain transition-transform duration-200"
+                style={{
+                  transform: `scale(${zoom}) rotate(${rotation}deg)`,
+                  imageRendering: zoom > 2 ? 'pixelated' : 'auto'
+                }}
+              />
+            )}
           </div>
-        )}
-        
-        {/* Fullscreen exit button */}
-        {isFullscreen && (
-          <div className="absolute top-4 right-4 flex gap-2">
-            <div className="bg-black/70 text-white text-xs px-3 py-1 rounded">
-              Press ESC to exit • Use +/- to zoom • R to rotate
+          
+          {/* Loading state */}
+          {!imageLoaded && !imageError && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-center text-gray-500">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+                <div className="text-sm font-medium">Loading image...</div>
+                <div className="text-xs text-gray-400 mt-1">Please wait</div>
+              </div>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setIsFullscreen(false)}
-              className="bg-black/70 text-white hover:bg-black/90 border-white/20"
-            >
-              ✕ Exit
-            </Button>
-          </div>
-        )}
+          )}
+          
+          {/* Fullscreen exit button */}
+          {isFullscreen && (
+            <div className="absolute top-4 right-4 flex gap-2">
+              <div className="bg-black/70 text-white text-xs px-3 py-1 rounded">
+                Press ESC to exit • Use +/- to zoom • R to rotate{showFrames && ' • Space to play • ←/→ to step'}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsFullscreen(false)}
+                className="bg-black/70 text-white hover:bg-black/90 border-white/20"
+              >
+                ✕ Exit
+              </Button>
+            </div>
+          )}
 
-        {/* Zoom indicator */}
-        {zoom !== 1 && !isFullscreen && (
-          <div className="absolute bottom-4 left-4 bg-black/70 text-white text-xs px-2 py-1 rounded">
-            {Math.round(zoom * 100)}%
-          </div>
+          {/* Pixel readout */}
+          {pixelMode && (pixelData || pixelError) && (
+            <div className="absolute bottom-4 left-4 bg-black/70 text-white text-xs px-2 py-1 rounded">
+              {pixelData ? (
+                <PixelReadout pixel={hoveredPixel} width={pixelData.width} height={pixelData.height} />
+              ) : (
+                pixelError
+              )}
+            </div>
+          )}
+
+          {/* Zoom indicator */}
+          {zoom !== 1 && !isFullscreen && !pixelMode && (
+            <div className="absolute bottom-4 left-4 bg-black/70 text-white text-xs px-2 py-1 rounded">
+              {Math.round(zoom * 100)}%
+            </div>
+          )}
+        </div>
+
+        {pixelMode && palette && (
+          <PalettePanel palette={palette} selected={highlightColor} onSelect={setHighlightColor} />
         )}
       </div>
+
+      {showFrames && <FrameControls player={player} />}
     </div>
   );
 }
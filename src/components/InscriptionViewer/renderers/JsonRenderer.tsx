@@ -1,12 +1,16 @@
 import React from 'react';
-import { Copy, Download, Expand, Minimize } from 'lucide-react';
+import { Copy, Download, Expand, Minimize, Tags } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { MetadataPanel } from '../MetadataPanel';
+import type { OrdinalsApiService } from '@/services/OrdinalsApiService';
 
 interface JsonRendererProps {
   content: string;
   mimeType: string;
   maxHeight?: number;
   showControls?: boolean;
+  inscriptionId?: string; // Enables the CBOR metadata panel for this inscription
+  apiService?: OrdinalsApiService; // Where the metadata is fetched from
 }
 
 /**
@@ -16,13 +20,16 @@ export function JsonRenderer({
   content, 
   mimeType,
   maxHeight = 400,
-  showControls = false 
+  showControls = false,
+  inscriptionId,
+  apiService
 }: JsonRendererProps) {
   const [parsedJson, setParsedJson] = React.useState<any>(null);
   const [parseError, setParseError] = React.useState<string | null>(null);
   const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set());
   const [allCollapsed, setAllCollapsed] = React.useState(false);
   const [copied, setCopied] = React.useState(false);
+  const [showMetadata, setShowMetadata] = React.useState(false);
 
   React.useEffect(() => {
     try {
@@ -209,6 +216,17 @@ export function JsonRenderer({
             <span className="ml-2">({content.length.toLocaleString()} chars)</span>
           </div>
           <div className="flex gap-1">
+            {inscriptionId && (
+              <Button
+                variant={showMetadata ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setShowMetadata(!showMetadata)}
+                className="h-6 px-2 text-xs"
+              >
+                <Tags className="h-3 w-3 mr-1" />
+                Metadata
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -255,6 +273,13 @@ export function JsonRenderer({
           {parsedJson && renderValue(parsedJson)}
         </div>
       </div>
+
+      {/* CBOR metadata */}
+      {showMetadata && inscriptionId && (
+        <div className="border-t p-3 bg-gray-50 dark:bg-gray-800">
+          <MetadataPanel inscriptionId={inscriptionId} apiService={apiService} maxHeight={Math.max(120, maxHeight / 3)} />
+        </div>
+      )}
     </div>
   );
 }
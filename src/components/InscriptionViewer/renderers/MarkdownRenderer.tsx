@@ -0,0 +1,400 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { Copy, Download, Eye, Code2, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CodeRenderer, CODE_THEMES } from './CodeRenderer';
+import { parseMarkdown, resolveRecursiveUrl, MarkdownBlock, MarkdownInline } from '../../../utils/markdown';
+import { resolveLanguage, tokenize, getGrammar } from '../../../utils/syntaxHighlighter';
+
+interface MarkdownRendererProps {
+  content: string;
+  mimeType: string;
+  fileExtension?: string;
+  maxHeight?: number;
+  showControls?: boolean;
+  apiEndpoint?: string;
+}
+
+interface RenderContext {
+  apiEndpoint: string;
+  idPrefix: string;
+}
+
+// =================
+// STYLES
+// =================
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold mt-6 mb-3 pb-1 border-b border-gray-200 dark:border-gray-700',
+  'text-xl font-bold mt-5 mb-3 pb-1 border-b border-gray-200 dark:border-gray-700',
+  'text-lg font-semibold mt-4 mb-2',
+  'text-base font-semibold mt-4 mb-2',
+  'text-sm font-semibold mt-3 mb-2',
+  'text-sm font-semibold mt-3 mb-2 text-gray-600 dark:text-gray-400'
+];
+
+const LINK_CLASS = 'text-blue-600 dark:text-blue-400 hover:underline break-words';
+const INLINE_CODE_CLASS = 'px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono text-[0.85em]';
+const CELL_CLASS = 'px-3 py-1.5 border border-gray-200 dark:border-gray-700';
+
+// Classes for sanitized HTML elements; unlisted tags render unstyled
+const ELEMENT_CLASSES: Record<string, string> = {
+  h1: HEADING_CLASSES[0], h2: HEADING_CLASSES[1], h3: HEADING_CLASSES[2],
+  h4: HEADING_CLASSES[3], h5: HEADING_CLASSES[4], h6: HEADING_CLASSES[5],
+  p: 'my-3',
+  a: LINK_CLASS,
+  blockquote: 'my-3 pl-4 border-l-4 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400',
+  code: INLINE_CODE_CLASS,
+  pre: 'my-3 p-3 rounded bg-gray-100 dark:bg-gray-800 overflow-x-auto font-mono text-xs',
+  kbd: 'px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 font-mono text-xs shadow-sm',
+  mark: 'bg-yellow-200 dark:bg-yellow-700/60 px-0.5 rounded-sm',
+  img: 'inline-block max-w-full h-auto',
+  ul: 'my-3 pl-6 list-disc',
+  ol: 'my-3 pl-6 list-decimal',
+  table: 'my-3 border-collapse text-sm',
+  th: `${CELL_CLASS} font-semibold bg-gray-50 dark:bg-gray-800`,
+  td: CELL_CLASS,
+  hr: 'my-6 border-gray-200 dark:border-gray-700',
+  details: 'my-3',
+  summary: 'cursor-pointer font-medium',
+  dt: 'font-semibold mt-2',
+  dd: 'pl-4',
+  figcaption: 'text-xs text-gray-500 mt-1'
+};
+
+const ALIGN_VALUES = new Set(['left', 'center', 'right', 'justify']);
+
+// =================
+// INLINE RENDERING
+// =================
+
+function resolveImageSrc(src: string, context: RenderContext): string {
+  return resolveRecursiveUrl(src, context.apiEndpoint);
+}
+
+/** Same-document anchors scroll in place; everything else opens in a new tab */
+function linkProps(href: string, context: RenderContext): React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  if (href.startsWith('#')) return { href };
+  return { href: resolveRecursiveUrl(href, context.apiEndpoint), target: '_blank', rel: 'noopener noreferrer' };
+}
+
+/** Map sanitized HTML attributes onto React props */
+function elementProps(tag: string, attrs: Record<string, string>, context: RenderContext): Record<string, unknown> {
+  const props: Record<string, unknown> = { className: ELEMENT_CLASSES[tag] };
+  for (const [name, value] of Object.entries(attrs)) {
+    switch (name) {
+      case 'href':
+        Object.assign(props, linkProps(value, context));
+        break;
+      case 'src':
+        props.src = resolveImageSrc(value, context);
+        break;
+      case 'colspan':
+        props.colSpan = parseInt(value, 10);
+        break;
+      case 'rowspan':
+        props.rowSpan = parseInt(value, 10);
+        break;
+      case 'start':
+        props.start = parseInt(value, 10);
+        break;
+      case 'datetime':
+        props.dateTime = value;
+        break;
+      case 'open':
+        props.open = true;
+        break;
+      case 'align':
+        if (tag !== 'img' && ALIGN_VALUES.has(value.toLowerCase())) props.style = { textAlign: value.toLowerCase() };
+        break;
+      default:
+        props[name] = value;
+    }
+  }
+  if (tag === 'img') props.loading = 'lazy';
+  return props;
+}
+
+function renderInlines(nodes: MarkdownInline[], context: RenderContext): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <code key={index} className={INLINE_CODE_CLASS}>{node.text}</code>;
+      case 'emphasis':
+        return <em key={index}>{renderInlines(node.children, context)}</em>;
+      case 'strong':
+        return <strong key={index}>{renderInlines(node.children, context)}</strong>;
+      case 'strikethrough':
+        return <del key={index}>{renderInlines(node.children, context)}</del>;
+      case 'break':
+        return <br key={index} />;
+      case 'link':
+        return (
+          <a key={index} className={LINK_CLASS} title={node.title} {...linkProps(node.href, context)}>
+            {renderInlines(node.children, context)}
+          </a>
+        );
+      case 'image':
+        // Unsafe sources were blanked by the parser; show the alt text instead
+        return node.src ? (
+          <img
+            key={index}
+            src={resolveImageSrc(node.src, context)}
+            alt={node.alt}
+            title={node.title}
+            loading="lazy"
+            className={ELEMENT_CLASSES.img}
+          />
+        ) : (
+          <span key={index} className="text-gray-500 italic">{node.alt}</span>
+        );
+      case 'element': {
+        // <center> is obsolete; render it as a centered block
+        const tag = node.tag === 'center' ? 'div' : node.tag === 'tt' ? 'code' : node.tag;
+        const props: Record<string, unknown> = { key: index, ...elementProps(node.tag, node.attrs, context) };
+        if (node.tag === 'center') props.style = { textAlign: 'center' };
+        if (node.tag === 'tt') props.className = INLINE_CODE_CLASS;
+        return ['br', 'hr', 'img', 'wbr'].includes(tag)
+          ? React.createElement(tag, props)
+          : React.createElement(tag, props, ...renderInlines(node.children, context));
+      }
+    }
+  });
+}
+
+// =================
+// BLOCK RENDERING
+// =================
+
+/**
+ * Fenced code block highlighted with CodeRenderer's grammars and dark theme
+ */
+function MarkdownCodeBlock({ code, language }: { code: string; language: string }) {
+  const [copied, setCopied] = useState(false);
+  const resolved = useMemo(() => resolveLanguage({ language: language || 'plaintext' }), [language]);
+  const lines = useMemo(() => tokenize(code, resolved), [code, resolved]);
+  const theme = CODE_THEMES.dark;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className={`group relative my-3 rounded ${theme.background} ${theme.text}`}>
+      <div className="absolute right-1 top-1 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        {resolved !== 'plaintext' && (
+          <span className="text-[10px] uppercase tracking-wide text-gray-400">{getGrammar(resolved)?.label || resolved}</span>
+        )}
+        <Button variant="ghost" size="sm" onClick={handleCopy} className="h-6 px-2 text-xs text-gray-300 hover:text-white hover:bg-gray-700">
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        </Button>
+      </div>
+      <pre className="p-3 overflow-x-auto font-mono text-xs leading-relaxed">
+        <code>
+          {lines.map((tokens, line) => (
+            <React.Fragment key={line}>
+              {tokens.map((token, i) => (
+                <span key={i} className={theme.tokens[token.type]}>{token.value}</span>
+              ))}
+              {line < lines.length - 1 && '\n'}
+            </React.Fragment>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+function renderBlocks(blocks: MarkdownBlock[], context: RenderContext, tight: boolean = false): React.ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading':
+        return React.createElement(
+          `h${block.level}`,
+          { key: index, id: `${context.idPrefix}-${block.id}`, className: HEADING_CLASSES[block.level - 1] },
+          ...renderInlines(block.children, context)
+        );
+      case 'paragraph':
+        // Tight list items render their text without paragraph spacing
+        return tight
+          ? <React.Fragment key={index}>{renderInlines(block.children, context)}</React.Fragment>
+          : <p key={index} className={ELEMENT_CLASSES.p}>{renderInlines(block.children, context)}</p>;
+      case 'code':
+        return <MarkdownCodeBlock key={index} code={block.text} language={block.language} />;
+      case 'blockquote':
+        return <blockquote key={index} className={ELEMENT_CLASSES.blockquote}>{renderBlocks(block.children, context)}</blockquote>;
+      case 'rule':
+        return <hr key={index} className={ELEMENT_CLASSES.hr} />;
+      case 'html':
+        return <React.Fragment key={index}>{renderInlines(block.children, context)}</React.Fragment>;
+      case 'list': {
+        const isTaskList = block.items.some(item => item.checked !== null);
+        const items = block.items.map((item, i) => (
+          <li key={i} className={item.checked !== null ? 'list-none -ml-5' : 'my-0.5'}>
+            {item.checked !== null && (
+              <input type="checkbox" checked={item.checked} readOnly disabled className="mr-2 align-middle" />
+            )}
+            {renderBlocks(item.children, context, block.tight)}
+          </li>
+        ));
+        const className = `${block.ordered ? ELEMENT_CLASSES.ol : ELEMENT_CLASSES.ul}${isTaskList ? ' pl-5' : ''}`;
+        return block.ordered
+          ? <ol key={index} start={block.start} className={className}>{items}</ol>
+          : <ul key={index} className={className}>{items}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className={ELEMENT_CLASSES.table}>
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} className={ELEMENT_CLASSES.th} style={{ textAlign: block.align[column] || undefined }}>
+                      {renderInlines(cell, context)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="even:bg-gray-50 dark:even:bg-gray-800/50">
+                    {row.map((cell, column) => (
+                      <td key={column} className={ELEMENT_CLASSES.td} style={{ textAlign: block.align[column] || undefined }}>
+                        {renderInlines(cell, context)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+}
+
+// =================
+// COMPONENT
+// =================
+
+/**
+ * Markdown renderer with GFM tables and task lists, highlighted code blocks and
+ * a sanitized HTML subset. Recursive `/content/<id>` references resolve against
+ * the API endpoint.
+ */
+export function MarkdownRenderer({
+  content,
+  mimeType,
+  fileExtension,
+  maxHeight = 400,
+  showControls = false,
+  apiEndpoint = 'https://ordinals.com'
+}: MarkdownRendererProps) {
+  const [showSource, setShowSource] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Heading ids are prefixed so several documents can share a page
+  const idPrefix = `md${React.useId().replace(/:/g, '')}`;
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const context = useMemo(() => ({ apiEndpoint, idPrefix }), [apiEndpoint, idPrefix]);
+  const rendered = useMemo(() => renderBlocks(blocks, context), [blocks, context]);
+
+  const wordCount = useMemo(() => content.split(/\s+/).filter(Boolean).length, [content]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `content.${fileExtension || 'md'}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Scroll to in-document anchors within the preview instead of navigating
+  const handleClick = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
+    const anchor = (event.target as HTMLElement).closest('a');
+    const href = anchor?.getAttribute('href');
+    if (!href || !href.startsWith('#')) return;
+    event.preventDefault();
+    const target = document.getElementById(`${idPrefix}-${decodeURIComponent(href.slice(1)).toLowerCase()}`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [idPrefix]);
+
+  const contentHeight = maxHeight - (showControls ? 41 : 0);
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      {/* Controls */}
+      {showControls && (
+        <div className="flex justify-between items-center p-2 border-b bg-gray-50 dark:bg-gray-800">
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            <span className="font-mono">markdown</span>
+            <span className="ml-2">({wordCount.toLocaleString()} words)</span>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSource(!showSource)}
+              className="h-6 px-2 text-xs"
+              title={showSource ? 'Show rendered markdown' : 'Show markdown source'}
+            >
+              {showSource ? <Eye className="h-3 w-3 mr-1" /> : <Code2 className="h-3 w-3 mr-1" />}
+              {showSource ? 'Preview' : 'Source'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleCopy} className="h-6 px-2 text-xs">
+              <Copy className="h-3 w-3 mr-1" />
+              {copied ? 'Copied!' : 'Copy'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDownload} className="h-6 px-2 text-xs">
+              <Download className="h-3 w-3 mr-1" />
+              Download
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Content */}
+      {showSource ? (
+        <CodeRenderer
+          content={content}
+          mimeType={mimeType}
+          fileExtension={fileExtension}
+          language="markdown"
+          maxHeight={contentHeight}
+          showControls={false}
+        />
+      ) : (
+        <div
+          onClick={handleClick}
+          className="flex-1 overflow-auto w-full px-5 py-3 text-sm leading-relaxed text-gray-900 dark:text-gray-100 break-words"
+          style={{ maxHeight: contentHeight, minHeight: '100px' }}
+        >
+          {rendered}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MarkdownRenderer;
@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Eye, EyeOff, Pause, Play } from 'lucide-react';
+import * as THREE from 'three';
+import { Button } from '@/components/ui/button';
+import { safeFormatTime } from '../../../utils/safeFormatting';
+import { MaterialInfo, SceneNodeInfo, TextureSlotInfo } from '../../../utils/modelInspection';
+
+interface AnimationBarProps {
+  clips: THREE.AnimationClip[];
+  activeClip: number;
+  playing: boolean;
+  time: number;
+  onSelectClip: (index: number) => void;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+}
+
+interface SceneGraphPanelProps {
+  root: SceneNodeInfo;
+  hidden: Set<string>;
+  onToggleVisibility: (id: string) => void;
+}
+
+interface MaterialPanelProps {
+  materials: MaterialInfo[];
+}
+
+/** Tree levels expanded when the panel first opens */
+const DEFAULT_EXPANDED_DEPTH = 2;
+const TEXTURE_PREVIEW_SIZE = 48;
+
+/**
+ * Clip selector, play/pause and scrubber for animations embedded in a model
+ */
+export function AnimationBar({ clips, activeClip, playing, time, onSelectClip, onTogglePlay, onSeek }: AnimationBarProps) {
+  const clip = clips[activeClip];
+  if (!clip) return null;
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 border-b bg-gray-50 dark:bg-gray-800 text-xs text-gray-600 dark:text-gray-400">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onTogglePlay}
+        className="h-7 px-2"
+        title={playing ? 'Pause animation (P)' : 'Play animation (P)'}
+      >
+        {playing ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+      </Button>
+      {clips.length > 1 ? (
+        <select
+          value={activeClip}
+          onChange={e => onSelectClip(Number(e.target.value))}
+          className="h-7 max-w-[12rem] rounded border bg-white dark:bg-gray-900 px-1"
+          aria-label="Animation clip"
+        >
+          {clips.map((c, i) => (
+            <option key={c.uuid} value={i}>{c.name || `Clip ${i + 1}`}</option>
+          ))}
+        </select>
+      ) : (
+        <span className="truncate max-w-[12rem]">{clip.name || 'Animation'}</span>
+      )}
+      <input
+        type="range"
+        min={0}
+        max={clip.duration}
+        step={0.01}
+        value={Math.min(time, clip.duration)}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="flex-1 min-w-0"
+        aria-label="Animation time"
+      />
+      <span className="font-mono tabular-nums">
+        {safeFormatTime(time)} / {safeFormatTime(clip.duration)}
+      </span>
+    </div>
+  );
+}
+
+function SceneNode({ node, depth, hidden, onToggleVisibility }: { node: SceneNodeInfo, depth: number } & Omit<SceneGraphPanelProps, 'root'>) {
+  const [expanded, setExpanded] = useState(depth < DEFAULT_EXPANDED_DEPTH);
+  const isHidden = hidden.has(node.id);
+
+  return (
+    <li>
+      <div
+        className={`flex items-center gap-1 py-0.5 pr-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 ${isHidden ? 'opacity-50' : ''}`}
+        style={{ paddingLeft: depth * 12 }}
+      >
+        {node.children.length > 0 ? (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="h-4 w-4 flex items-center justify-center text-gray-500"
+            aria-label={expanded ? 'Collapse' : 'Expand'}
+          >
+            {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+        ) : (
+          <span className="w-4" />
+        )}
+        <span className="flex-1 min-w-0 truncate" title={`${node.type}${node.name ? ` "${node.name}"` : ''}`}>
+          {node.name || <span className="italic text-gray-400">{node.type}</span>}
+        </span>
+        {node.vertices > 0 && (
+          <span className="text-gray-400 tabular-nums">{node.vertices.toLocaleString()}v</span>
+        )}
+        <button
+          onClick={() => onToggleVisibility(node.id)}
+          className="h-4 w-4 flex items-center justify-center text-gray-500"
+          title={isHidden ? 'Show' : 'Hide'}
+        >
+          {isHidden ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+        </button>
+      </div>
+      {expanded && node.children.length > 0 && (
+        <ul>
+          {node.children.map(child => (
+            <SceneNode key={child.id} node={child} depth={depth + 1} hidden={hidden} onToggleVisibility={onToggleVisibility} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Collapsible tree of the loaded scene with per-node visibility toggles
+ */
+export function SceneGraphPanel({ root, hidden, onToggleVisibility }: SceneGraphPanelProps) {
+  return (
+    <ul className="text-xs text-gray-700 dark:text-gray-300">
+      <SceneNode node={root} depth={0} hidden={hidden} onToggleVisibility={onToggleVisibility} />
+    </ul>
+  );
+}
+
+/** Draws a texture's image, waiting for it if it is still loading */
+function TexturePreview({ slot }: { slot: TextureSlotInfo }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+
+  useEffect(() => {
+    const image = slot.texture.image as CanvasImageSource & { width?: number, height?: number } | null;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!image || !canvas || !ctx) return;
+
+    const draw = () => {
+      const width = Number(image.width) || 0;
+      const height = Number(image.height) || 0;
+      setSize({ width, height });
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      // Data textures have no drawable image; only their size is shown
+      if (!width || !height || !(image instanceof HTMLImageElement || image instanceof HTMLCanvasElement ||
+        (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap))) return;
+      const scale = Math.min(canvas.width / width, canvas.height / height);
+      const w = width * scale;
+      const h = height * scale;
+      ctx.drawImage(image, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+    };
+
+    if (image instanceof HTMLImageElement && !image.complete) {
+      image.addEventListener('load', draw);
+      return () => image.removeEventListener('load', draw);
+    }
+    draw();
+  }, [slot.texture]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <canvas
+        ref={canvasRef}
+        width={TEXTURE_PREVIEW_SIZE}
+        height={TEXTURE_PREVIEW_SIZE}
+        className="shrink-0 rounded border bg-gray-100 dark:bg-gray-800"
+      />
+      <div className="min-w-0">
+        <div className="font-mono truncate">{slot.slot}</div>
+        <div className="text-gray-400">
+          {size && size.width ? `${size.width}×${size.height}` : 'Loading...'}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Materials in the model with their base color and texture maps
+ */
+export function MaterialPanel({ materials }: MaterialPanelProps) {
+  if (materials.length === 0) {
+    return <div className="text-xs text-gray-500">No materials</div>;
+  }
+
+  return (
+    <ul className="space-y-3 text-xs text-gray-700 dark:text-gray-300">
+      {materials.map(material => (
+        <li key={material.id} className="space-y-1.5">
+          <div className="flex items-center gap-2">
+            {material.color && (
+              <span className="h-3 w-3 shrink-0 rounded-sm border" style={{ backgroundColor: material.color }} title={material.color} />
+            )}
+            <span className="flex-1 min-w-0 truncate font-medium">{material.name || 'Unnamed'}</span>
+            <span className="text-gray-400">×{material.meshes}</span>
+          </div>
+          <div className="text-gray-400">{material.type}</div>
+          {material.textures.map(slot => (
+            <TexturePreview key={slot.slot} slot={slot} />
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,437 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Download, Loader2, Maximize2, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PdfDocument } from '../../../utils/pdfDocument';
+import { PdfRasterizer, PdfTextRun } from '../../../utils/pdfRasterizer';
+import { DownloadRenderer } from './DownloadRenderer';
+
+interface PdfRendererProps {
+  src: string;
+  mimeType: string;
+  fileExtension?: string;
+  maxHeight?: number;
+  showControls?: boolean;
+  blob?: Blob; // Already-fetched content; parsed instead of re-fetching src
+}
+
+interface SearchMatch {
+  page: number;
+  run: PdfTextRun;
+}
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+const THUMBNAIL_WIDTH = 80;
+const PAGE_PADDING = 16;
+
+type RenderTask = () => Promise<unknown>;
+
+/** Lazily rendered page thumbnail; renders once it scrolls into view */
+function PageThumbnail({
+  rasterizer,
+  index,
+  active,
+  onSelect,
+  enqueue
+}: {
+  rasterizer: PdfRasterizer;
+  index: number;
+  active: boolean;
+  onSelect: (index: number) => void;
+  enqueue: (task: RenderTask) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const page = rasterizer.doc.getPage(index);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let cancelled = false;
+
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+      enqueue(() => cancelled
+        ? Promise.resolve()
+        : rasterizer.renderPage(index, canvas, {
+          scale: (THUMBNAIL_WIDTH * (window.devicePixelRatio || 1)) / page.width,
+          isCancelled: () => cancelled
+        }).catch(err => console.warn(`⚠️ Thumbnail ${index + 1} failed:`, err)));
+    });
+    observer.observe(canvas);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [rasterizer, index]);
+
+  return (
+    <button
+      onClick={() => onSelect(index)}
+      className={`block w-full p-1 rounded border-2 ${active ? 'border-blue-500' : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'}`}
+      title={`Page ${index + 1}`}
+    >
+      <canvas
+        ref={canvasRef}
+        className="w-full bg-white shadow-sm"
+        style={{ aspectRatio: `${page.width} / ${page.height}` }}
+      />
+      <div className="text-[10px] text-center text-gray-500 mt-0.5">{index + 1}</div>
+    </button>
+  );
+}
+
+/**
+ * PDF renderer: parses and rasterizes pages itself so documents look the same
+ * in every browser and work inside sandboxed frames without a PDF plugin
+ */
+export function PdfRenderer({
+  src,
+  mimeType,
+  fileExtension,
+  maxHeight = 400,
+  showControls = true,
+  blob
+}: PdfRendererProps) {
+  const [rasterizer, setRasterizer] = useState<PdfRasterizer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [encrypted, setEncrypted] = useState(false);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoom, setZoom] = useState<number | 'fit'>('fit');
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [isRendering, setIsRendering] = useState(false);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const activeHighlightRef = useRef<HTMLDivElement>(null);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const loadBlob = (): Promise<Blob> => (blob ? Promise.resolve(blob) : fetch(src).then(response => response.blob()));
+
+  // Thumbnails render one at a time so they don't compete with the main page
+  const enqueue = useCallback((task: RenderTask) => {
+    queueRef.current = queueRef.current.then(task, task);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let created: PdfRasterizer | null = null;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setEncrypted(false);
+      setRasterizer(null);
+      setPageIndex(0);
+      setMatches([]);
+
+      try {
+        const data = await loadBlob();
+        const doc = await PdfDocument.load(new Uint8Array(await data.arrayBuffer()));
+        if (cancelled) return;
+        if (doc.encrypted) {
+          setEncrypted(true);
+          return;
+        }
+        if (!doc.pageCount) {
+          throw new Error('This PDF has no pages');
+        }
+        created = new PdfRasterizer(doc);
+        setRasterizer(created);
+        console.log(`📄 Loaded PDF with ${doc.pageCount} page(s)`);
+      } catch (err: any) {
+        console.error('❌ PDF load error:', err);
+        if (!cancelled) setError(err?.message || 'Failed to read PDF');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      created?.dispose();
+    };
+  }, [src, blob]);
+
+  // Track the viewport width for fit-to-width zoom
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() => setContainerWidth(viewport.clientWidth));
+    observer.observe(viewport);
+    setContainerWidth(viewport.clientWidth);
+    return () => observer.disconnect();
+  }, [rasterizer]);
+
+  const page = rasterizer ? rasterizer.doc.getPage(pageIndex) : null;
+  const scale = page
+    ? zoom === 'fit'
+      ? Math.max(MIN_ZOOM, (containerWidth - PAGE_PADDING * 2) / page.width || 1)
+      : zoom
+    : 1;
+
+  // Render the current page offscreen, then swap it in to avoid flashing
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!rasterizer || !page || !canvas) return;
+    let cancelled = false;
+    const ratio = window.devicePixelRatio || 1;
+    const buffer = document.createElement('canvas');
+
+    setIsRendering(true);
+    rasterizer
+      .renderPage(pageIndex, buffer, { scale: scale * ratio, isCancelled: () => cancelled })
+      .then(() => {
+        if (cancelled) return;
+        canvas.width = buffer.width;
+        canvas.height = buffer.height;
+        canvas.getContext('2d')?.drawImage(buffer, 0, 0);
+      })
+      .catch(err => console.error(`❌ Failed to render page ${pageIndex + 1}:`, err))
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rasterizer, pageIndex, scale]);
+
+  useEffect(() => {
+    setPageInput(String(pageIndex + 1));
+  }, [pageIndex]);
+
+  // Search every page's text, debounced while typing
+  useEffect(() => {
+    const term = query.trim().toLowerCase();
+    if (!rasterizer || !term) {
+      setMatches([]);
+      setActiveMatch(0);
+      return;
+    }
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      const found: SearchMatch[] = [];
+      for (let index = 0; index < rasterizer.doc.pageCount && !cancelled; index++) {
+        try {
+          const runs = await rasterizer.extractText(index);
+          runs.forEach(run => {
+            if (run.text.toLowerCase().includes(term)) found.push({ page: index, run });
+          });
+        } catch (err) {
+          console.warn(`⚠️ Could not search page ${index + 1}:`, err);
+        }
+      }
+      if (cancelled) return;
+      setMatches(found);
+      setActiveMatch(0);
+      setIsSearching(false);
+      if (found.length) setPageIndex(found[0].page);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [rasterizer, query]);
+
+  useEffect(() => {
+    activeHighlightRef.current?.scrollIntoView({ block: 'center', inline: 'nearest' });
+  }, [activeMatch, matches, pageIndex]);
+
+  const goToPage = (index: number) => {
+    if (!rasterizer) return;
+    setPageIndex(Math.max(0, Math.min(rasterizer.doc.pageCount - 1, index)));
+  };
+
+  const goToMatch = (index: number) => {
+    if (!matches.length) return;
+    const next = (index + matches.length) % matches.length;
+    setActiveMatch(next);
+    setPageIndex(matches[next].page);
+  };
+
+  const changeZoom = (factor: number) => {
+    setZoom(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale * factor)));
+  };
+
+  const handleDownload = async () => {
+    try {
+      const data = await loadBlob();
+      const url = URL.createObjectURL(data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `document.${fileExtension || 'pdf'}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download:', err);
+    }
+  };
+
+  if (encrypted || error) {
+    return (
+      <DownloadRenderer
+        src={src}
+        mimeType={mimeType}
+        fileExtension={fileExtension}
+        maxHeight={maxHeight}
+        showControls={showControls}
+        blob={blob}
+        displayName="PDF Document"
+        description={encrypted ? 'This PDF is encrypted and cannot be previewed' : `Could not display this PDF: ${error}`}
+      />
+    );
+  }
+
+  if (isLoading || !rasterizer || !page) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-100 dark:bg-gray-800" style={{ maxHeight }}>
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const pageCount = rasterizer.doc.pageCount;
+  const pageMatches = matches.filter(match => match.page === pageIndex);
+  const activeRun = matches[activeMatch]?.run;
+
+  return (
+    <div className="w-full h-full flex flex-col bg-white dark:bg-gray-900" style={{ maxHeight }}>
+      {/* Controls */}
+      {showControls && (
+        <div className="flex flex-wrap justify-between items-center gap-2 p-2 border-b bg-gray-50 dark:bg-gray-800">
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => goToPage(pageIndex - 1)} disabled={pageIndex === 0} className="h-6 px-2">
+              <ChevronLeft className="h-3 w-3" />
+            </Button>
+            <input
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') goToPage(parseInt(pageInput, 10) - 1 || 0);
+              }}
+              onBlur={() => setPageInput(String(pageIndex + 1))}
+              className="w-10 h-6 text-xs text-center border rounded bg-white dark:bg-gray-900 dark:border-gray-700"
+              aria-label="Page number"
+            />
+            <span className="text-xs text-gray-500">/ {pageCount}</span>
+            <Button variant="ghost" size="sm" onClick={() => goToPage(pageIndex + 1)} disabled={pageIndex >= pageCount - 1} className="h-6 px-2">
+              <ChevronRight className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => changeZoom(1 / 1.25)} className="h-6 px-2">
+              <ZoomOut className="h-3 w-3" />
+            </Button>
+            <span className="text-xs text-gray-500 w-10 text-center">{Math.round(scale * 100)}%</span>
+            <Button variant="ghost" size="sm" onClick={() => changeZoom(1.25)} className="h-6 px-2">
+              <ZoomIn className="h-3 w-3" />
+            </Button>
+            <Button
+              variant={zoom === 'fit' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setZoom('fit')}
+              className="h-6 px-2"
+              title="Fit width"
+            >
+              <Maximize2 className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <div className="relative">
+              <Search className="h-3 w-3 absolute left-1.5 top-1.5 text-gray-400" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') goToMatch(activeMatch + (e.shiftKey ? -1 : 1));
+                }}
+                placeholder="Search"
+                className="w-32 h-6 pl-5 pr-1 text-xs border rounded bg-white dark:bg-gray-900 dark:border-gray-700"
+                aria-label="Search text"
+              />
+            </div>
+            {query.trim() && (
+              <span className="text-xs text-gray-500 w-14 text-center">
+                {isSearching ? <Loader2 className="h-3 w-3 animate-spin inline" /> : matches.length ? `${activeMatch + 1}/${matches.length}` : 'No results'}
+              </span>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => goToMatch(activeMatch - 1)} disabled={!matches.length} className="h-6 px-2">
+              <ChevronUp className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => goToMatch(activeMatch + 1)} disabled={!matches.length} className="h-6 px-2">
+              <ChevronDown className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDownload} className="h-6 px-2">
+              <Download className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {/* Thumbnails */}
+        {pageCount > 1 && (
+          <div className="flex-shrink-0 overflow-y-auto border-r bg-gray-50 dark:bg-gray-800 dark:border-gray-700 p-1 space-y-1" style={{ width: THUMBNAIL_WIDTH + 16 }}>
+            {Array.from({ length: pageCount }, (_, index) => (
+              <PageThumbnail
+                key={index}
+                rasterizer={rasterizer}
+                index={index}
+                active={index === pageIndex}
+                onSelect={goToPage}
+                enqueue={enqueue}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Page */}
+        <div ref={viewportRef} className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-800" style={{ padding: PAGE_PADDING }}>
+          <div
+            className="relative mx-auto bg-white shadow"
+            style={{ width: page.width * scale, height: page.height * scale }}
+          >
+            <canvas ref={canvasRef} className="block w-full h-full" />
+            {pageMatches.map((match, i) => (
+              <div
+                key={i}
+                ref={match.run === activeRun ? activeHighlightRef : undefined}
+                className={`absolute pointer-events-none rounded-sm ${match.run === activeRun ? 'bg-orange-400/50' : 'bg-yellow-300/40'}`}
+                style={{
+                  left: match.run.x * scale,
+                  top: match.run.y * scale,
+                  width: match.run.width * scale,
+                  height: match.run.height * scale
+                }}
+              />
+            ))}
+            {isRendering && (
+              <div className="absolute top-2 right-2">
+                <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PdfRenderer;
@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { rgbaToHex, mapToImagePixel, pixelAt, PaletteColor, PaletteResult } from '../../../utils/pixelInspect';
+
+/** Grid lines are drawn from this scale up; below it they would hide the pixels */
+const GRID_MIN_SCALE = 6;
+
+export interface InspectedPixel {
+  x: number;
+  y: number;
+  rgba: [number, number, number, number];
+}
+
+interface PixelStageProps {
+  pixels: ImageData;
+  scale: number;
+  rotation: number;
+  hovered: InspectedPixel | null;
+  highlight: PaletteColor | null;
+  onHover: (pixel: InspectedPixel | null) => void;
+}
+
+interface PixelReadoutProps {
+  pixel: InspectedPixel | null;
+  width: number;
+  height: number;
+}
+
+interface PalettePanelProps {
+  palette: PaletteResult;
+  selected: PaletteColor | null;
+  onSelect: (color: PaletteColor | null) => void;
+}
+
+const CHECKERBOARD = 'repeating-conic-gradient(#d1d5db 0% 25%, #f9fafb 0% 50%) 0 0 / 16px 16px';
+
+function formatShare(count: number, total: number): string {
+  const share = (count / total) * 100;
+  return share < 0.1 ? '<0.1%' : `${share.toFixed(1)}%`;
+}
+
+const sameColor = (color: PaletteColor, r: number, g: number, b: number, a: number) =>
+  color.a === 0 ? a === 0 : color.r === r && color.g === g && color.b === b && color.a === a;
+
+/**
+ * Image pixels drawn at a whole-number scale over a transparency checkerboard,
+ * with a grid, the hovered-pixel outline and the palette highlight on top
+ */
+export function PixelStage({ pixels, scale, rotation, hovered, highlight, onHover }: PixelStageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const { width, height } = pixels;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+  }, [pixels, width, height]);
+
+  // Dim every pixel that is not the highlighted color
+  useEffect(() => {
+    const canvas = maskRef.current;
+    if (!canvas || !highlight) return;
+    const { data } = pixels;
+    const mask = new ImageData(width, height);
+    for (let i = 0; i < data.length; i += 4) {
+      if (!sameColor(highlight, data[i], data[i + 1], data[i + 2], data[i + 3])) {
+        mask.data[i + 3] = 200;
+      }
+    }
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(mask, 0, 0);
+  }, [pixels, width, height, highlight]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    // The bounding box is already rotated, so map back to unrotated pixels
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = mapToImagePixel(
+      (e.clientX - rect.left) / rect.width,
+      (e.clientY - rect.top) / rect.height,
+      rotation,
+      width,
+      height
+    );
+    if (!position) {
+      onHover(null);
+    } else if (position.x !== hovered?.x || position.y !== hovered?.y) {
+      onHover({ ...position, rgba: pixelAt(pixels.data, width, position.x, position.y) });
+    }
+  };
+
+  return (
+    <div
+      className="relative flex-shrink-0 transition-transform duration-200"
+      style={{ width: width * scale, height: height * scale, transform: `rotate(${rotation}deg)`, background: CHECKERBOARD }}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => onHover(null)}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" style={{ imageRendering: 'pixelated' }} />
+      {highlight && (
+        <canvas ref={maskRef} className="absolute inset-0 w-full h-full pointer-events-none" style={{ imageRendering: 'pixelated' }} />
+      )}
+      {scale >= GRID_MIN_SCALE && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            backgroundImage: 'linear-gradient(to right, rgba(128,128,128,0.45) 1px, transparent 1px), linear-gradient(to bottom, rgba(128,128,128,0.45) 1px, transparent 1px)',
+            backgroundSize: `${scale}px ${scale}px`
+          }}
+        />
+      )}
+      {hovered && (
+        <div
+          className="absolute outline outline-2 outline-blue-500 pointer-events-none"
+          style={{ left: hovered.x * scale, top: hovered.y * scale, width: scale, height: scale }}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Coordinates and RGBA value of the pixel under the cursor
+ */
+export function PixelReadout({ pixel, width, height }: PixelReadoutProps) {
+  if (!pixel) {
+    return <span className="opacity-70">{width} × {height} · hover a pixel</span>;
+  }
+  const [r, g, b, a] = pixel.rgba;
+  return (
+    <span className="flex items-center gap-2 font-mono">
+      <span
+        className="inline-block h-3 w-3 rounded-sm border border-gray-400"
+        style={{ backgroundColor: `rgba(${r}, ${g}, ${b}, ${a / 255})` }}
+      />
+      <span>{pixel.x}, {pixel.y}</span>
+      <span>{rgbaToHex(r, g, b, a)}</span>
+      <span className="hidden sm:inline opacity-70">rgba({r}, {g}, {b}, {a})</span>
+    </span>
+  );
+}
+
+/**
+ * Colors used by the image, most frequent first. Selecting one highlights
+ * its pixels.
+ */
+export function PalettePanel({ palette, selected, onSelect }: PalettePanelProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!selected) return;
+    try {
+      await navigator.clipboard.writeText(selected.hex);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="w-44 flex-shrink-0 flex flex-col border-l bg-white dark:bg-gray-900 text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b text-gray-600 dark:text-gray-400">
+        <span>
+          {palette.total} {palette.total === 1 ? 'color' : 'colors'}
+        </span>
+        {selected && (
+          <Button variant="ghost" size="sm" onClick={handleCopy} className="h-6 px-1.5 text-xs" title={`Copy ${selected.hex}`}>
+            {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          </Button>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {palette.colors.map(color => {
+          const isSelected = selected?.hex === color.hex;
+          return (
+            <button
+              key={color.hex}
+              onClick={() => onSelect(isSelected ? null : color)}
+              className={`w-full flex items-center gap-2 px-2 py-1 text-left hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                isSelected ? 'bg-blue-50 dark:bg-blue-900/40' : ''
+              }`}
+              title={isSelected ? 'Clear highlight' : 'Highlight these pixels'}
+            >
+              <span
+                className="inline-block h-4 w-4 flex-shrink-0 rounded-sm border border-gray-300 dark:border-gray-600"
+                style={{ backgroundColor: `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a / 255})` }}
+              />
+              <span className="font-mono flex-1 truncate">{color.a === 0 ? 'transparent' : color.hex}</span>
+              <span className="text-gray-500">{formatShare(color.count, palette.pixelCount)}</span>
+            </button>
+          );
+        })}
+        {palette.total > palette.colors.length && (
+          <div className="px-2 py-1.5 text-gray-500">
+            +{palette.total - palette.colors.length} more
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
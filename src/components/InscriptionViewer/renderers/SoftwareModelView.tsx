@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { extractTriangles, rasterize } from '../../../utils/softwareRasterizer';
+
+interface SoftwareModelViewProps {
+  object: THREE.Object3D;
+  zoom: number;
+  wireframe: boolean;
+  hiddenNodes: Set<string>; // Identity changes whenever node visibility does
+}
+
+/** Triangle budgets for the idle preview and for redraws while dragging */
+const PREVIEW_TRIANGLES = 40000;
+const DRAG_TRIANGLES = 4000;
+/** Three-quarter view, so the preview is not a flat silhouette */
+const INITIAL_ROTATION = { x: 0.45, y: -0.6 };
+
+/**
+ * Shaded preview of a model drawn on the CPU, for browsers without WebGL.
+ * Dragging rotates a reduced mesh; the full preview is redrawn on release.
+ */
+export function SoftwareModelView({ object, zoom, wireframe, hiddenNodes }: SoftwareModelViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number, y: number } | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [rotation, setRotation] = useState(INITIAL_ROTATION);
+  const [dragging, setDragging] = useState(false);
+
+  const preview = useMemo(() => extractTriangles(object, PREVIEW_TRIANGLES), [object, hiddenNodes]);
+  const lowPoly = useMemo(() => extractTriangles(object, DRAG_TRIANGLES), [object, hiddenNodes]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width);
+      const height = Math.round(entry.contentRect.height);
+      setSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size.width || !size.height) return;
+
+    // Coalesce pointer moves into one redraw per frame
+    const frame = requestAnimationFrame(() => {
+      const image = rasterize(dragging ? lowPoly : preview, {
+        ...size,
+        rotationX: rotation.x,
+        rotationY: rotation.y,
+        zoom,
+        wireframe
+      });
+      canvas.width = image.width;
+      canvas.height = image.height;
+      ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [preview, lowPoly, dragging, rotation, size, zoom, wireframe]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setDragging(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = dragRef.current;
+    if (!last) return;
+    const dx = e.clientX - last.x;
+    const dy = e.clientY - last.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setRotation(prev => ({ x: prev.x + dy * 0.01, y: prev.y + dx * 0.01 }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setDragging(false);
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="absolute bottom-4 right-4 bg-black/70 text-white text-xs px-2 py-1 rounded pointer-events-none">
+        Software rendering
+      </div>
+    </>
+  );
+}
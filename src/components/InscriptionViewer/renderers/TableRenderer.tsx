@@ -0,0 +1,308 @@
+import React, { useState, useMemo, useDeferredValue } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, Filter, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useVirtualScroll } from '../../../hooks/useVirtualScroll';
+import {
+  parseDelimited,
+  cellValue,
+  compareValues,
+  matchesFilter,
+  formatDelimited,
+  ColumnType,
+  TableColumn
+} from '../../../utils/delimitedText';
+
+interface TableRendererProps {
+  content: string;
+  mimeType: string;
+  fileExtension?: string;
+  maxHeight?: number;
+  showControls?: boolean;
+}
+
+interface SortState {
+  column: number;
+  direction: 'asc' | 'desc';
+}
+
+const ROW_HEIGHT = 28;
+const ROW_NUMBER_WIDTH = 56;
+// Below this many rows every row is rendered
+const VIRTUALIZE_THRESHOLD = 200;
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  number: '#',
+  boolean: 'T/F',
+  date: 'date',
+  text: 'Aa'
+};
+
+const FILTER_HINTS: Record<ColumnType, string> = {
+  number: '>10, 5..20',
+  date: '>=2024-01-01',
+  boolean: 'true',
+  text: 'contains…'
+};
+
+/** Width from the longest of the header and a sample of cells */
+function columnWidth(column: TableColumn, rows: string[][]): number {
+  let longest = column.name.length + 4;
+  for (let i = 0; i < Math.min(rows.length, 100); i++) {
+    longest = Math.max(longest, rows[i][column.index].length);
+  }
+  return Math.min(320, Math.max(64, longest * 7 + 24));
+}
+
+/**
+ * CSV/TSV renderer with type inference, sorting, column filters and
+ * virtualized rows; exports the filtered and sorted view
+ */
+export function TableRenderer({
+  content,
+  mimeType,
+  fileExtension,
+  maxHeight = 400,
+  showControls = false
+}: TableRendererProps) {
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [query, setQuery] = useState('');
+  const [columnFilters, setColumnFilters] = useState<Record<number, string>>({});
+  const [showFilters, setShowFilters] = useState(false);
+
+  // Filtering runs on deferred values so typing stays responsive on large tables
+  const deferredQuery = useDeferredValue(query);
+  const deferredFilters = useDeferredValue(columnFilters);
+
+  const isTsv = mimeType.includes('tab-separated') || fileExtension === 'tsv';
+  const table = useMemo(
+    () => parseDelimited(content, { delimiter: isTsv ? '\t' : undefined, header: headerOverride ?? undefined }),
+    [content, isTsv, headerOverride]
+  );
+  const { columns, rows } = table;
+
+  const widths = useMemo(() => columns.map(column => columnWidth(column, rows)), [columns, rows]);
+  const gridTemplateColumns = `${ROW_NUMBER_WIDTH}px ${widths.map(width => `${width}px`).join(' ')}`;
+  const totalWidth = ROW_NUMBER_WIDTH + widths.reduce((sum, width) => sum + width, 0);
+
+  const filteredIndices = useMemo(() => {
+    const search = deferredQuery.trim().toLowerCase();
+    const active = columns.filter(column => deferredFilters[column.index]?.trim());
+    const indices: number[] = [];
+    rows.forEach((row, index) => {
+      if (search && !row.some(cell => cell.toLowerCase().includes(search))) return;
+      if (active.some(column => !matchesFilter(row[column.index], column.type, deferredFilters[column.index]))) return;
+      indices.push(index);
+    });
+    return indices;
+  }, [rows, columns, deferredQuery, deferredFilters]);
+
+  // Sort keys are parsed once per column rather than on every comparison
+  const sortKeys = useMemo(() => {
+    if (!sort || !columns[sort.column]) return null;
+    const { index, type } = columns[sort.column];
+    return rows.map(row => cellValue(row[index], type));
+  }, [rows, columns, sort?.column]);
+
+  const orderedIndices = useMemo(() => {
+    if (!sort || !sortKeys) return filteredIndices;
+    return [...filteredIndices].sort((a, b) => compareValues(sortKeys[a], sortKeys[b], sort.direction) || a - b);
+  }, [filteredIndices, sortKeys, sort?.direction]);
+
+  const headerHeight = ROW_HEIGHT * (showFilters ? 2 : 1);
+  const bodyHeight = maxHeight - (showControls ? 41 : 0);
+  const {
+    visibleItems,
+    onScroll,
+    containerRef,
+    wrapperStyle,
+    viewportStyle,
+    currentRange
+  } = useVirtualScroll(orderedIndices, {
+    itemHeight: ROW_HEIGHT,
+    containerHeight: bodyHeight - headerHeight,
+    overscan: 10,
+    enabled: orderedIndices.length > VIRTUALIZE_THRESHOLD
+  });
+
+  const toggleSort = (column: number) => {
+    setSort(current => {
+      if (!current || current.column !== column) return { column, direction: 'asc' };
+      return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const setColumnFilter = (column: number, value: string) => {
+    setColumnFilters(current => ({ ...current, [column]: value }));
+  };
+
+  const isFiltered = orderedIndices.length !== rows.length;
+
+  const handleExport = () => {
+    const exported = orderedIndices.map(index => rows[index]);
+    if (table.hasHeader) exported.unshift(columns.map(column => column.name));
+    const extension = table.delimiter === '\t' ? 'tsv' : 'csv';
+    const blob = new Blob([formatDelimited(exported, table.delimiter)], {
+      type: extension === 'tsv' ? 'text/tab-separated-values' : 'text/csv'
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${isFiltered ? 'filtered' : 'content'}.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!columns.length || (!rows.length && !table.hasHeader)) {
+    return (
+      <div className="w-full h-full flex items-center justify-center p-4 text-sm text-gray-500">
+        Empty table
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      {/* Controls */}
+      {showControls && (
+        <div className="flex justify-between items-center gap-2 p-2 border-b bg-gray-50 dark:bg-gray-800">
+          <div className="text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+            <span className="font-mono">{table.delimiter === '\t' ? 'tsv' : 'csv'}</span>
+            <span className="ml-2">
+              {isFiltered && `${orderedIndices.length.toLocaleString()} of `}
+              {rows.length.toLocaleString()} rows × {columns.length} cols
+            </span>
+          </div>
+          <div className="flex items-center gap-1 min-w-0">
+            <div className="relative min-w-0">
+              <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={event => setQuery(event.target.value)}
+                placeholder="Search rows"
+                className="h-6 w-32 pl-6 pr-5 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+              />
+              {query && (
+                <button onClick={() => setQuery('')} className="absolute right-1 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600">
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+            <Button
+              variant={showFilters ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setShowFilters(!showFilters)}
+              className="h-6 px-2 text-xs"
+              title="Column filters"
+            >
+              <Filter className="h-3 w-3" />
+            </Button>
+            <Button
+              variant={table.hasHeader ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setHeaderOverride(!table.hasHeader)}
+              className="h-6 px-2 text-xs"
+              title="Treat the first row as column names"
+            >
+              Header
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleExport} className="h-6 px-2 text-xs" title="Export the filtered, sorted rows">
+              <Download className="h-3 w-3 mr-1" />
+              Export
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Table */}
+      <div
+        ref={containerRef as React.RefObject<HTMLDivElement>}
+        onScroll={onScroll}
+        className="flex-1 overflow-auto w-full text-xs"
+        style={{ maxHeight: bodyHeight, minHeight: '100px' }}
+      >
+        <div style={{ width: totalWidth, minWidth: '100%' }}>
+          {/* Column headers and filters stay pinned while scrolling */}
+          <div className="sticky top-0 z-10 bg-gray-100 dark:bg-gray-800 border-b border-gray-300 dark:border-gray-600">
+            <div className="grid" style={{ gridTemplateColumns, height: ROW_HEIGHT }}>
+              <div className="px-2 flex items-center justify-end text-gray-400">#</div>
+              {columns.map(column => {
+                const sorted = sort?.column === column.index ? sort.direction : null;
+                const SortIcon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown;
+                return (
+                  <button
+                    key={column.index}
+                    onClick={() => toggleSort(column.index)}
+                    className={`px-2 flex items-center gap-1 font-semibold text-left border-l border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700 ${
+                      column.type === 'number' ? 'justify-end' : ''
+                    }`}
+                    title={`${column.name} (${column.type}) – click to sort`}
+                  >
+                    <span className="text-[10px] font-mono font-normal text-gray-400">{TYPE_LABELS[column.type]}</span>
+                    <span className="truncate">{column.name}</span>
+                    <SortIcon className={`h-3 w-3 flex-shrink-0 ${sorted ? 'text-blue-500' : 'text-gray-300'}`} />
+                  </button>
+                );
+              })}
+            </div>
+            {showFilters && (
+              <div className="grid" style={{ gridTemplateColumns, height: ROW_HEIGHT }}>
+                <div />
+                {columns.map(column => (
+                  <div key={column.index} className="px-1 flex items-center border-l border-gray-200 dark:border-gray-700">
+                    <input
+                      type="text"
+                      value={columnFilters[column.index] || ''}
+                      onChange={event => setColumnFilter(column.index, event.target.value)}
+                      placeholder={FILTER_HINTS[column.type]}
+                      className="h-5 w-full px-1 text-xs font-normal rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {orderedIndices.length === 0 ? (
+            <div className="p-4 text-center text-gray-500">No rows match the current filters</div>
+          ) : (
+            <div style={wrapperStyle}>
+              <div style={viewportStyle}>
+                {visibleItems.map((rowIndex, offset) => (
+                  <div
+                    key={rowIndex}
+                    className={`grid border-b border-gray-100 dark:border-gray-800 hover:bg-blue-50 dark:hover:bg-gray-800 ${
+                      (currentRange.startIndex + offset) % 2 ? 'bg-gray-50/60 dark:bg-gray-900/40' : ''
+                    }`}
+                    style={{ gridTemplateColumns, height: ROW_HEIGHT }}
+                  >
+                    <div className="px-2 flex items-center justify-end text-gray-400 tabular-nums">{rowIndex + 1}</div>
+                    {columns.map(column => {
+                      const value = rows[rowIndex][column.index];
+                      return (
+                        <div
+                          key={column.index}
+                          className={`px-2 flex items-center border-l border-gray-100 dark:border-gray-800 min-w-0 ${
+                            column.type === 'number' ? 'justify-end tabular-nums' : ''
+                          }`}
+                          title={value}
+                        >
+                          <span className="truncate">{value}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TableRenderer;
@@ -11,7 +11,8 @@ import {
   Eye,
   RotateCw,
   Square,
-  Settings
+  Settings,
+  ListTree
 } from 'lucide-react';
 import { Button } from '../../../components/ui/button';
 import * as THREE from 'three';
@@ -21,6 +22,16 @@ import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
 import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
 import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { TDSLoader } from 'three/examples/jsm/loaders/TDSLoader.js';
+import { VRMLLoader } from 'three/examples/jsm/loaders/VRMLLoader.js';
+import { VOXLoader, VOXMesh, Chunk } from 'three/examples/jsm/loaders/VOXLoader.js';
+import WebGL from 'three/examples/jsm/capabilities/WebGL.js';
+import { resolveModelFormat, buildSceneGraph, collectMaterials, SceneNodeInfo, MaterialInfo } from '../../../utils/modelInspection';
+import { AnimationBar, SceneGraphPanel, MaterialPanel } from './ModelInspector';
+import { SoftwareModelView } from './SoftwareModelView';
 
 interface ThreeDRendererProps {
   src: string;
@@ -28,8 +39,11 @@ interface ThreeDRendererProps {
   fileExtension?: string;
   maxHeight?: number;
   showControls?: boolean;
+  forceSoftwareRendering?: boolean; // Skip WebGL, e.g. for deterministic snapshots
 }
 
+type InspectorTab = 'scene' | 'materials';
+
 interface ModelInfo {
   vertices: number;
   faces: number;
@@ -49,6 +63,8 @@ const loadGLTF = async (arrayBuffer: ArrayBuffer, extension: string): Promise<TH
     
     loader.parse(arrayBuffer, '', (gltf) => {
       console.log('✅ GLTF/GLB loaded successfully');
+      // Keep clips with the scene, where the FBX and Collada loaders put them
+      gltf.scene.animations = gltf.animations;
       resolve(gltf.scene);
     }, (error) => {
       console.error('❌ GLTF/GLB loading error:', error);
@@ -105,12 +121,50 @@ const loadPLY = async (arrayBuffer: ArrayBuffer): Promise<THREE.Object3D> => {
   });
 };
 
+/** Wrap a synchronous loader in the same logging and error shape as the ones above */
+const parseModel = async (label: string, parse: () => THREE.Object3D): Promise<THREE.Object3D> => {
+  try {
+    const object = parse();
+    console.log(`✅ ${label} loaded successfully`);
+    return object;
+  } catch (error: any) {
+    console.error(`❌ ${label} loading error:`, error);
+    throw new Error(`Failed to parse ${label}: ${error.message}`);
+  }
+};
+
+const load3MF = (arrayBuffer: ArrayBuffer) => parseModel('3MF', () => {
+  // 3MF is Z-up; the wrapper leaves the model's own rotation free for dragging
+  const model = new ThreeMFLoader().parse(arrayBuffer);
+  model.rotation.x = -Math.PI / 2;
+  return new THREE.Group().add(model);
+});
+
+const loadDAE = (arrayBuffer: ArrayBuffer) => parseModel('DAE', () =>
+  new ColladaLoader().parse(new TextDecoder().decode(arrayBuffer), '').scene
+);
+
+const loadFBX = (arrayBuffer: ArrayBuffer) => parseModel('FBX', () => new FBXLoader().parse(arrayBuffer, ''));
+
+const load3DS = (arrayBuffer: ArrayBuffer) => parseModel('3DS', () => new TDSLoader().parse(arrayBuffer, ''));
+
+const loadVRML = (arrayBuffer: ArrayBuffer) => parseModel('VRML', () =>
+  new VRMLLoader().parse(new TextDecoder().decode(arrayBuffer), '')
+);
+
+const loadVOX = (arrayBuffer: ArrayBuffer) => parseModel('VOX', () => {
+  const group = new THREE.Group();
+  (new VOXLoader().parse(arrayBuffer) as Chunk[]).forEach(chunk => group.add(new VOXMesh(chunk)));
+  return group;
+});
+
 export function ThreeDRenderer({ 
   src, 
   mimeType, 
   fileExtension,
   maxHeight = 400,
-  showControls = true 
+  showControls = true,
+  forceSoftwareRendering = false
 }: ThreeDRendererProps) {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -120,6 +174,12 @@ export function ThreeDRenderer({
   const controlsRef = useRef<{ update: () => void } | null>(null);
   const frameRef = useRef<number | undefined>(undefined);
   const lightsRef = useRef<THREE.Light[]>([]);
+  const needsRenderRef = useRef(false);
+  const mixerRef = useRef<THREE.AnimationMixer | null>(null);
+  const actionRef = useRef<THREE.AnimationAction | null>(null);
+  const clockRef = useRef(new THREE.Clock());
+  const animationPlayingRef = useRef(false);
+  const lastTimeUpdateRef = useRef(0);
   
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -131,6 +191,21 @@ export function ThreeDRenderer({
   const [modelInfo, setModelInfo] = useState<ModelInfo | null>(null);
   const [environmentLighting, setEnvironmentLighting] = useState(true);
   const [performanceMode, setPerformanceMode] = useState(false);
+  const [placeholderFormat, setPlaceholderFormat] = useState<string | null>(null);
+  const [softwareRendering, setSoftwareRendering] = useState(false);
+  const [loadedModel, setLoadedModel] = useState<THREE.Object3D | null>(null);
+
+  // Embedded animations
+  const [clips, setClips] = useState<THREE.AnimationClip[]>([]);
+  const [activeClip, setActiveClip] = useState(0);
+  const [animationPlaying, setAnimationPlaying] = useState(false);
+  const [animationTime, setAnimationTime] = useState(0);
+
+  // Scene graph and material inspector
+  const [inspectorTab, setInspectorTab] = useState<InspectorTab | null>(null);
+  const [sceneGraph, setSceneGraph] = useState<SceneNodeInfo | null>(null);
+  const [materials, setMaterials] = useState<MaterialInfo[]>([]);
+  const [hiddenNodes, setHiddenNodes] = useState<Set<string>>(new Set());
 
   // Mouse interaction state
   const [isDragging, setIsDragging] = useState(false);
@@ -143,7 +218,7 @@ export function ThreeDRenderer({
   const fpsRef = useRef({ frames: 0, lastTime: performance.now() });
 
   const supportedFormats = useMemo(() => {
-    return new Set(['gltf', 'glb', 'obj', 'stl', 'ply', 'dae', '3ds', 'fbx']);
+    return new Set(['gltf', 'glb', 'obj', 'stl', 'ply', 'dae', '3ds', 'fbx', '3mf', 'wrl', 'vox']);
   }, []);
 
   const isSupported = useMemo(() => {
@@ -171,15 +246,27 @@ export function ThreeDRenderer({
     camera.lookAt(0, 0, 0);
     cameraRef.current = camera;
 
-    // Renderer with enhanced settings for performance
-    const renderer = new THREE.WebGLRenderer({ 
-      antialias: !performanceMode && window.devicePixelRatio <= 1, // Only antialias in high quality mode
-      alpha: true,
-      powerPreference: "high-performance",
-      stencil: false, // Disable stencil buffer for better performance
-      depth: true,
-      preserveDrawingBuffer: false // Better performance
-    });
+    // Renderer with enhanced settings for performance. Without WebGL the
+    // model is drawn by the CPU rasterizer instead
+    let renderer: THREE.WebGLRenderer | null = null;
+    try {
+      renderer = !forceSoftwareRendering && WebGL.isWebGLAvailable() ? new THREE.WebGLRenderer({ 
+        antialias: !performanceMode && window.devicePixelRatio <= 1, // Only antialias in high quality mode
+        alpha: true,
+        powerPreference: "high-performance",
+        stencil: false, // Disable stencil buffer for better performance
+        depth: true,
+        preserveDrawingBuffer: false // Better performance
+      }) : null;
+    } catch (err) {
+      console.warn('⚠️ WebGL context creation failed:', err);
+    }
+    setSoftwareRendering(!renderer);
+    if (!renderer) {
+      console.log('🎮 Using software rendering for 3D preview');
+      rendererRef.current = null;
+      return;
+    }
     renderer.setSize(width, height);
     renderer.setPixelRatio(performanceMode ? 1 : Math.min(window.devicePixelRatio, 2));
     renderer.shadowMap.enabled = !performanceMode; // Disable shadows in performance mode
@@ -203,7 +290,7 @@ export function ThreeDRenderer({
 
     setupLighting(scene);
     mountRef.current.appendChild(canvas);
-  }, [performanceMode]);
+  }, [performanceMode, forceSoftwareRendering]);
 
   const setupLighting = useCallback((scene: THREE.Scene) => {
     // Clear existing lights
@@ -257,7 +344,6 @@ export function ThreeDRenderer({
   const analyzeModel = (object: THREE.Object3D): ModelInfo => {
     let vertices = 0;
     let faces = 0;
-    let materials = 0;
     const boundingBox = new THREE.Box3();
 
     object.traverse((child) => {
@@ -271,11 +357,11 @@ export function ThreeDRenderer({
         } else {
           faces += vertices / 3;
         }
-        materials++;
       }
     });
 
     boundingBox.setFromObject(object);
+    const materials = collectMaterials(object).length;
     
     return { vertices, faces, boundingBox, materials };
   };
@@ -318,9 +404,11 @@ export function ThreeDRenderer({
       setLoadingProgress(50);
       
       const extension = fileExtension?.toLowerCase() || '';
+      const format = resolveModelFormat(mimeType, extension);
       let object: THREE.Object3D | null = null;
+      setPlaceholderFormat(format ? null : extension || 'unknown');
 
-      switch (extension) {
+      switch (format) {
         case 'obj':
           object = await loadOBJ(arrayBuffer);
           break;
@@ -332,7 +420,25 @@ export function ThreeDRenderer({
           break;
         case 'gltf':
         case 'glb':
-          object = await loadGLTF(arrayBuffer, extension);
+          object = await loadGLTF(arrayBuffer, format);
+          break;
+        case '3mf':
+          object = await load3MF(arrayBuffer);
+          break;
+        case 'dae':
+          object = await loadDAE(arrayBuffer);
+          break;
+        case 'fbx':
+          object = await loadFBX(arrayBuffer);
+          break;
+        case '3ds':
+          object = await load3DS(arrayBuffer);
+          break;
+        case 'wrl':
+          object = await loadVRML(arrayBuffer);
+          break;
+        case 'vox':
+          object = await loadVOX(arrayBuffer);
           break;
         default:
           object = createUnsupportedPlaceholder(extension || 'unknown');
@@ -358,6 +464,9 @@ export function ThreeDRenderer({
         object.scale.setScalar(scale);
 
         // Remove only the previous model, not the entire scene
+        mixerRef.current?.stopAllAction();
+        mixerRef.current = null;
+        actionRef.current = null;
         if (modelRef.current) {
           sceneRef.current.remove(modelRef.current);
           // Dispose of previous model
@@ -377,6 +486,25 @@ export function ThreeDRenderer({
         object.userData.loadedSrc = src;
         sceneRef.current.add(object);
         modelRef.current = object;
+        setLoadedModel(object);
+
+        setSceneGraph(buildSceneGraph(object));
+        setMaterials(collectMaterials(object));
+        setHiddenNodes(new Set());
+
+        // Play the first embedded clip, if any
+        const animations = object.animations ?? [];
+        setClips(animations);
+        setActiveClip(0);
+        setAnimationTime(0);
+        if (animations.length > 0) {
+          mixerRef.current = new THREE.AnimationMixer(object);
+          actionRef.current = mixerRef.current.clipAction(animations[0]);
+          actionRef.current.play();
+          clockRef.current.getDelta();
+        }
+        animationPlayingRef.current = animations.length > 0;
+        setAnimationPlaying(animations.length > 0);
 
         // Add ground plane if it doesn't exist
         const existingPlane = sceneRef.current.children.find(child => child.userData.isGroundPlane);
@@ -399,7 +527,7 @@ export function ThreeDRenderer({
           }
         });
 
-        console.log(`✅ Successfully loaded 3D model: ${extension}`);
+        console.log(`✅ Successfully loaded 3D model: ${format ?? extension}`);
       }
 
       setLoadingProgress(100);
@@ -413,6 +541,47 @@ export function ThreeDRenderer({
     }
   }, [src]); // Only depend on src
 
+  const selectClip = useCallback((index: number) => {
+    const mixer = mixerRef.current;
+    if (!mixer || !clips[index]) return;
+    mixer.stopAllAction();
+    actionRef.current = mixer.clipAction(clips[index]);
+    actionRef.current.reset().play();
+    mixer.update(0);
+    setActiveClip(index);
+    setAnimationTime(0);
+    needsRenderRef.current = true;
+  }, [clips]);
+
+  const toggleAnimation = useCallback(() => {
+    if (!actionRef.current) return;
+    animationPlayingRef.current = !animationPlayingRef.current;
+    // Drop the time spent paused so the clip resumes where it stopped
+    clockRef.current.getDelta();
+    setAnimationPlaying(animationPlayingRef.current);
+  }, []);
+
+  const seekAnimation = useCallback((time: number) => {
+    if (!mixerRef.current || !actionRef.current) return;
+    actionRef.current.time = time;
+    mixerRef.current.update(0);
+    setAnimationTime(time);
+    needsRenderRef.current = true;
+  }, []);
+
+  const toggleNodeVisibility = useCallback((id: string) => {
+    const node = modelRef.current?.getObjectByProperty('uuid', id);
+    if (!node) return;
+    node.visible = !node.visible;
+    setHiddenNodes(prev => {
+      const next = new Set(prev);
+      if (node.visible) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    needsRenderRef.current = true;
+  }, []);
+
   const createUnsupportedPlaceholder = (format: string): THREE.Object3D => {
     const group = new THREE.Group();
     
@@ -440,7 +609,20 @@ export function ThreeDRenderer({
   const animate = useCallback(() => {
     if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return;
 
-    let needsRender = false;
+    let needsRender = needsRenderRef.current;
+    needsRenderRef.current = false;
+
+    const delta = clockRef.current.getDelta();
+    if (mixerRef.current && actionRef.current && animationPlayingRef.current) {
+      mixerRef.current.update(delta);
+      needsRender = true;
+      // The scrubber only needs a few updates a second
+      const now = performance.now();
+      if (now - lastTimeUpdateRef.current > 100) {
+        setAnimationTime(actionRef.current.time);
+        lastTimeUpdateRef.current = now;
+      }
+    }
 
     // FPS monitoring (reduce frequency)
     fpsRef.current.frames++;
@@ -603,6 +785,9 @@ export function ThreeDRenderer({
         case 'f':
           setIsFullscreen(prev => !prev);
           break;
+        case 'p':
+          toggleAnimation();
+          break;
         case 'escape':
           if (isFullscreen) setIsFullscreen(false);
           break;
@@ -626,6 +811,9 @@ export function ThreeDRenderer({
       if (frameRef.current) {
         cancelAnimationFrame(frameRef.current);
       }
+      mixerRef.current?.stopAllAction();
+      mixerRef.current = null;
+      actionRef.current = null;
       if (rendererRef.current && mountRef.current?.contains(rendererRef.current.domElement)) {
         mountRef.current.removeChild(rendererRef.current.domElement);
         rendererRef.current.dispose();
@@ -646,20 +834,24 @@ export function ThreeDRenderer({
     };
   }, [src]); // Only depend on src to prevent unnecessary reloads
 
+  // Follow the mount's size, which also changes when the inspector opens
   useEffect(() => {
-    const handleResize = () => {
-      if (rendererRef.current && cameraRef.current && mountRef.current) {
-        const width = mountRef.current.clientWidth;
-        const height = mountRef.current.clientHeight;
+    const mount = mountRef.current;
+    if (!mount) return;
+    const observer = new ResizeObserver(() => {
+      if (rendererRef.current && cameraRef.current) {
+        const width = mount.clientWidth;
+        const height = mount.clientHeight;
+        if (!width || !height) return;
         
         cameraRef.current.aspect = width / height;
         cameraRef.current.updateProjectionMatrix();
-        rendererRef.current.setSize(width, height);
+        rendererRef.current.setSize(width, height, false);
+        needsRenderRef.current = true;
       }
-    };
-
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
+    });
+    observer.observe(mount);
+    return () => observer.disconnect();
   }, []);
 
   // Re-setup lighting when performance mode or environment lighting changes
@@ -713,7 +905,9 @@ export function ThreeDRenderer({
                 <div className="text-xs text-gray-500 space-x-3">
                   <span>{modelInfo.vertices.toLocaleString()} vertices</span>
                   <span>{Math.round(modelInfo.faces).toLocaleString()} faces</span>
-                  <span>{fps} FPS</span>
+                  <span>{modelInfo.materials} materials</span>
+                  {clips.length > 0 && <span>{clips.length} animations</span>}
+                  <span>{softwareRendering ? 'Software' : `${fps} FPS`}</span>
                 </div>
               )}
             </div>
@@ -754,7 +948,7 @@ export function ThreeDRenderer({
                 size="sm"
                 onClick={() => setAutoRotate(!autoRotate)}
                 className="h-8 px-2 text-xs"
-                disabled={isLoading}
+                disabled={isLoading || softwareRendering}
                 title="Auto rotate (Space)"
               >
                 <RotateCw className="h-3 w-3" />
@@ -774,7 +968,7 @@ export function ThreeDRenderer({
                 size="sm"
                 onClick={() => setEnvironmentLighting(!environmentLighting)}
                 className="h-8 px-2 text-xs"
-                disabled={isLoading}
+                disabled={isLoading || softwareRendering}
                 title="Environment lighting"
               >
                 <Sun className="h-3 w-3" />
@@ -784,11 +978,21 @@ export function ThreeDRenderer({
                 size="sm"
                 onClick={() => setPerformanceMode(!performanceMode)}
                 className="h-8 px-2 text-xs"
-                disabled={isLoading}
+                disabled={isLoading || softwareRendering}
                 title="Performance mode"
               >
                 <Settings className="h-3 w-3" />
               </Button>
+              <Button
+                variant={inspectorTab ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setInspectorTab(inspectorTab ? null : 'scene')}
+                className="h-8 px-2 text-xs"
+                disabled={isLoading || !sceneGraph}
+                title="Scene graph and materials"
+              >
+                <ListTree className="h-3 w-3" />
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -820,103 +1024,149 @@ export function ThreeDRenderer({
                 {error && (
                   <span className="text-red-600">Error: {error}</span>
                 )}
-                {!isLoading && !error && (
+                {!isLoading && !error && !placeholderFormat && (
                   <span className="text-green-600">Ready</span>
                 )}
+                {!isLoading && !error && placeholderFormat && (
+                  <span className="text-amber-600">
+                    {safeExtensionFormat(placeholderFormat)} can't be previewed; export it to glTF to view it here
+                  </span>
+                )}
               </div>
               <div className="text-gray-500">
                 Drag to rotate • Scroll to zoom • Space to toggle rotation
               </div>
             </div>
           </div>
+
+          {clips.length > 0 && !isLoading && !softwareRendering && (
+            <AnimationBar
+              clips={clips}
+              activeClip={activeClip}
+              playing={animationPlaying}
+              time={animationTime}
+              onSelectClip={selectClip}
+              onTogglePlay={toggleAnimation}
+              onSeek={seekAnimation}
+            />
+          )}
         </>
       )}
 
-      <div 
-        ref={mountRef}
-        className={`flex-1 relative w-full h-full bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 ${
-          isDragging ? 'cursor-grabbing' : 'cursor-grab'
-        }`}
-        style={{ 
-          height: containerHeight,
-          minHeight: isFullscreen ? '100vh' : '300px',
-          margin: 0,
-          padding: 0,
-          overflow: 'hidden',
-          userSelect: 'none',
-          touchAction: 'none' // Prevent touch scrolling
-        }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onWheel={handleWheel}
-        onContextMenu={(e) => e.preventDefault()} // Prevent right-click menu
-        tabIndex={0} // Make it focusable for keyboard events
-      >
-        {isLoading && (
-          <div className="absolute inset-0 flex items-center justify-center bg-white/90 dark:bg-gray-900/90 z-10">
-            <div className="text-center">
-              <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-              <div className="text-lg font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Loading 3D Model
-              </div>
-              <div className="text-sm text-gray-500 mb-3">
-                {safeExtensionFormat(fileExtension)} • {loadingProgress}%
+      <div className="flex-1 flex min-h-0">
+        <div 
+          ref={mountRef}
+          className={`flex-1 min-w-0 relative h-full bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 ${
+            isDragging ? 'cursor-grabbing' : 'cursor-grab'
+          }`}
+          style={{ 
+            height: containerHeight,
+            minHeight: isFullscreen ? '100vh' : '300px',
+            margin: 0,
+            padding: 0,
+            overflow: 'hidden',
+            userSelect: 'none',
+            touchAction: 'none' // Prevent touch scrolling
+          }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          onWheel={handleWheel}
+          onContextMenu={(e) => e.preventDefault()} // Prevent right-click menu
+          tabIndex={0} // Make it focusable for keyboard events
+        >
+          {softwareRendering && loadedModel && !isLoading && (
+            <SoftwareModelView object={loadedModel} zoom={zoom} wireframe={wireframe} hiddenNodes={hiddenNodes} />
+          )}
+
+          {isLoading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white/90 dark:bg-gray-900/90 z-10">
+              <div className="text-center">
+                <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <div className="text-lg font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Loading 3D Model
+                </div>
+                <div className="text-sm text-gray-500 mb-3">
+                  {safeExtensionFormat(fileExtension)} • {loadingProgress}%
+                </div>
+                <div className="w-48 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden mx-auto">
+                  <div 
+                    className="h-full bg-blue-500 transition-all duration-300"
+                    style={{ width: `${loadingProgress}%` }}
+                  />
+                </div>
               </div>
-              <div className="w-48 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden mx-auto">
-                <div 
-                  className="h-full bg-blue-500 transition-all duration-300"
-                  style={{ width: `${loadingProgress}%` }}
-                />
+            </div>
+          )}
+
+          {error && (
+            <div className="absolute inset-0 flex items-center justify-center bg-red-50/90 dark:bg-red-900/20 z-10">
+              <div className="text-center text-red-600 dark:text-red-400 max-w-md px-4">
+                <div className="text-4xl mb-4">⚠️</div>
+                <div className="text-lg font-medium mb-2">Failed to Load Model</div>
+                <div className="text-sm mb-4 bg-white dark:bg-gray-800 p-3 rounded border">
+                  {error}
+                </div>
+                <div className="flex gap-2 justify-center">
+                  <Button variant="outline" size="sm" onClick={loadModel}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleDownload}>
+                    <Download className="h-3 w-3 mr-1" />
+                    Download
+                  </Button>
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
 
-        {error && (
-          <div className="absolute inset-0 flex items-center justify-center bg-red-50/90 dark:bg-red-900/20 z-10">
-            <div className="text-center text-red-600 dark:text-red-400 max-w-md px-4">
-              <div className="text-4xl mb-4">⚠️</div>
-              <div className="text-lg font-medium mb-2">Failed to Load Model</div>
-              <div className="text-sm mb-4 bg-white dark:bg-gray-800 p-3 rounded border">
-                {error}
-              </div>
-              <div className="flex gap-2 justify-center">
-                <Button variant="outline" size="sm" onClick={loadModel}>
-                  <RotateCcw className="h-3 w-3 mr-1" />
-                  Retry
-                </Button>
-                <Button variant="outline" size="sm" onClick={handleDownload}>
-                  <Download className="h-3 w-3 mr-1" />
-                  Download
-                </Button>
+          {/* Fullscreen controls */}
+          {isFullscreen && !isLoading && (
+            <div className="absolute top-4 right-4 flex gap-2 z-20">
+              <div className="bg-black/70 text-white text-xs px-3 py-1 rounded">
+                ESC to exit • R to reset • Space to rotate • W for wireframe{clips.length > 0 ? ' • P to play' : ''}
               </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsFullscreen(false)}
+                className="bg-black/70 text-white hover:bg-black/90"
+              >
+                ✕ Exit
+              </Button>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Fullscreen controls */}
-        {isFullscreen && !isLoading && (
-          <div className="absolute top-4 right-4 flex gap-2 z-20">
-            <div className="bg-black/70 text-white text-xs px-3 py-1 rounded">
-              ESC to exit • R to reset • Space to rotate • W for wireframe
+          {/* Zoom indicator */}
+          {zoom !== 1 && !isFullscreen && !isLoading && (
+            <div className="absolute bottom-4 left-4 bg-black/70 text-white text-xs px-2 py-1 rounded">
+              {Math.round(zoom * 100)}% zoom
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setIsFullscreen(false)}
-              className="bg-black/70 text-white hover:bg-black/90"
-            >
-              ✕ Exit
-            </Button>
-          </div>
-        )}
+          )}
+        </div>
 
-        {/* Zoom indicator */}
-        {zoom !== 1 && !isFullscreen && !isLoading && (
-          <div className="absolute bottom-4 left-4 bg-black/70 text-white text-xs px-2 py-1 rounded">
-            {Math.round(zoom * 100)}% zoom
+        {inspectorTab && sceneGraph && (
+          <div className="w-64 shrink-0 flex flex-col border-l bg-white dark:bg-gray-900">
+            <div className="flex border-b text-xs">
+              {(['scene', 'materials'] as InspectorTab[]).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setInspectorTab(tab)}
+                  className={`flex-1 px-3 py-2 ${inspectorTab === tab ? 'font-medium border-b-2 border-blue-500' : 'text-gray-500'}`}
+                >
+                  {tab === 'scene' ? 'Scene' : `Materials (${materials.length})`}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-auto p-2">
+              {inspectorTab === 'scene' ? (
+                <SceneGraphPanel root={sceneGraph} hidden={hiddenNodes} onToggleVisibility={toggleNodeVisibility} />
+              ) : (
+                <MaterialPanel materials={materials} />
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -1,7 +1,10 @@
 import React from 'react';
-import { Download, Play, Pause, Volume2, VolumeX, Maximize2 } from 'lucide-react';
+import { Download, Play, Pause, Volume2, VolumeX, Maximize2, StepBack, StepForward } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { safeMimeSubtype } from '../../../utils/safeFormatting';
+import { safeMimeSubtype, safeFormatTime } from '../../../utils/safeFormatting';
+import { parseVideoMetadata, describeCodec, VideoMetadata } from '../../../utils/videoMetadata';
+import { stepFrameTime } from '../../../utils/videoFrames';
+import { useVideoFrames, VideoThumbnail } from '../../../hooks/useVideoFrames';
 
 interface VideoRendererProps {
   src: string;
@@ -9,17 +12,111 @@ interface VideoRendererProps {
   fileExtension?: string;
   maxHeight?: number;
   showControls?: boolean;
+  blob?: Blob; // Already-loaded content, used for container metadata
+}
+
+interface ThumbnailStripProps {
+  thumbnails: VideoThumbnail[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+const THUMBNAIL_COUNT = 12;
+const STRIP_HEIGHT = 56;
+const DEFAULT_FRAME_RATE = 30;
+
+function formatBitrate(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1e6 ? `${(bitsPerSecond / 1e6).toFixed(1)} Mbps` : `${Math.round(bitsPerSecond / 1e3)} kbps`;
+}
+
+/** One-line summary such as "H.264 1920×1080 30 fps · AAC · 2.1 Mbps" */
+function describeMetadata(metadata: VideoMetadata): string {
+  const parts = metadata.tracks
+    .filter(track => track.kind !== 'other')
+    .map(track => {
+      const details = [describeCodec(track.codec)];
+      if (track.width && track.height) details.push(`${track.width}×${track.height}`);
+      if (track.frameRate) details.push(`${Number(track.frameRate.toFixed(2))} fps`);
+      return details.join(' ');
+    });
+  if (metadata.bitrate) parts.push(formatBitrate(metadata.bitrate));
+  return parts.join(' · ');
+}
+
+/**
+ * Thumbnails across the whole video. Hovering previews a position and
+ * clicking seeks to it.
+ */
+function ThumbnailStrip({ thumbnails, duration, currentTime, onSeek }: ThumbnailStripProps) {
+  const [hover, setHover] = React.useState<number | null>(null);
+
+  const fractionAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+  };
+
+  const hoveredIndex = hover === null ? -1 : Math.min(thumbnails.length - 1, Math.floor(hover * THUMBNAIL_COUNT));
+
+  return (
+    <div
+      className="relative flex bg-black cursor-pointer select-none"
+      style={{ height: STRIP_HEIGHT }}
+      onMouseMove={e => setHover(fractionAt(e))}
+      onMouseLeave={() => setHover(null)}
+      onClick={e => onSeek(fractionAt(e) * duration)}
+    >
+      {Array.from({ length: THUMBNAIL_COUNT }, (_, i) => {
+        const thumbnail = thumbnails[i];
+        return (
+          <div key={i} className="relative flex-1 overflow-hidden border-r border-black last:border-r-0">
+            {thumbnail ? (
+              <img
+                src={thumbnail.url}
+                alt={`Frame at ${safeFormatTime(thumbnail.time)}`}
+                className={`w-full h-full object-cover transition-opacity ${i === hoveredIndex ? 'opacity-100' : 'opacity-60'}`}
+                draggable={false}
+              />
+            ) : (
+              <div className="w-full h-full bg-gray-800 animate-pulse" />
+            )}
+          </div>
+        );
+      })}
+
+      {/* Playback position */}
+      {duration > 0 && (
+        <div className="absolute inset-y-0 w-0.5 bg-red-500 pointer-events-none" style={{ left: `${(currentTime / duration) * 100}%` }} />
+      )}
+
+      {/* Hover position and time */}
+      {hover !== null && duration > 0 && (
+        <>
+          <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: `${hover * 100}%` }} />
+          <div
+            className="absolute top-1 -translate-x-1/2 bg-black/80 text-white text-xs px-1.5 py-0.5 rounded pointer-events-none"
+            style={{ left: `${Math.max(4, Math.min(96, hover * 100))}%` }}
+          >
+            {safeFormatTime(hover * duration)}
+          </div>
+        </>
+      )}
+    </div>
+  );
 }
 
 /**
- * Native video player with HTML5 controls
+ * Video player with frame stepping, playback rate, a thumbnail scrub strip,
+ * an automatically chosen poster frame and container metadata
  */
 export function VideoRenderer({ 
   src, 
   mimeType, 
   fileExtension,
   maxHeight = 400,
-  showControls = true
+  showControls = true,
+  blob
 }: VideoRendererProps) {
   // For video content, always show controls in gallery view even if showControls=false
   // Video requires user interaction to be useful, so we default to showing controls
@@ -32,10 +129,38 @@ export function VideoRenderer({
   const [isMuted, setIsMuted] = React.useState(false);
   const [showOverlay, setShowOverlay] = React.useState(false);
   const [videoDimensions, setVideoDimensions] = React.useState<{width: number, height: number} | null>(null);
+  const [currentTime, setCurrentTime] = React.useState(0);
+  const [duration, setDuration] = React.useState(0);
+  const [playbackRate, setPlaybackRate] = React.useState(1);
+  const [metadata, setMetadata] = React.useState<VideoMetadata | null>(null);
+
+  // Thumbnails are only shown with full controls; gallery cards just get a poster
+  const { poster, thumbnails } = useVideoFrames(src, showControls ? THUMBNAIL_COUNT : 0);
+  const frameRate = metadata?.tracks.find(track => track.kind === 'video')?.frameRate || DEFAULT_FRAME_RATE;
+
+  React.useEffect(() => {
+    setMetadata(null);
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const source = blob ?? await (await fetch(src)).blob();
+        const parsed = parseVideoMetadata(new Uint8Array(await source.arrayBuffer()));
+        if (!cancelled) setMetadata(parsed);
+      } catch (err) {
+        if (!cancelled) console.warn('⚠️ Could not read video metadata:', err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, blob]);
 
   const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
     const video = e.currentTarget;
     setVideoDimensions({ width: video.videoWidth, height: video.videoHeight });
+    setDuration(Number.isFinite(video.duration) ? video.duration : metadata?.duration || 0);
     setIsLoading(false);
   };
 
@@ -67,6 +192,45 @@ export function VideoRenderer({
     }
   };
 
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const stepFrame = (steps: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    seekTo(stepFrameTime(video.currentTime, steps, frameRate, duration));
+  };
+
+  const cyclePlaybackRate = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length];
+    video.playbackRate = next;
+    setPlaybackRate(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      case ' ':
+        e.preventDefault();
+        togglePlay();
+        break;
+      case ',':
+        e.preventDefault();
+        stepFrame(-1);
+        break;
+      case '.':
+        e.preventDefault();
+        stepFrame(1);
+        break;
+    }
+  };
+
   const toggleMute = () => {
     const video = videoRef.current;
     if (!video) return;
@@ -103,6 +267,8 @@ export function VideoRenderer({
     }
   };
 
+  const showStrip = showControls && thumbnails.length > 0 && duration > 0;
+
   if (error) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-gray-100 dark:bg-gray-800">
@@ -132,9 +298,11 @@ export function VideoRenderer({
     <div className="w-full h-full flex flex-col rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
       {/* Video container with native controls and overlay */}
       <div 
-        className="flex-1 relative bg-black rounded-lg overflow-hidden"
+        className="flex-1 relative bg-black overflow-hidden focus:outline-none"
         onMouseEnter={() => setShowOverlay(true)}
         onMouseLeave={() => setShowOverlay(false)}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
       >
         {isLoading && (
           <div className="absolute inset-0 z-20 flex items-center justify-center">
@@ -148,11 +316,14 @@ export function VideoRenderer({
         <video
           ref={videoRef}
           src={src}
-          className="w-full h-full object-contain rounded-lg"
+          poster={poster ?? undefined}
+          className="w-full h-full object-contain"
           style={{ 
-            maxHeight: maxHeight,
+            maxHeight: maxHeight - (showStrip ? STRIP_HEIGHT : 0),
           }}
           onLoadedMetadata={handleLoadedMetadata}
+          onDurationChange={e => Number.isFinite(e.currentTarget.duration) && setDuration(e.currentTarget.duration)}
+          onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
           onCanPlay={handleCanPlay}
           onError={handleError}
           onPlay={handlePlay}
@@ -161,6 +332,13 @@ export function VideoRenderer({
           onClick={togglePlay}
         />
 
+        {/* Container metadata */}
+        {showOverlay && metadata && metadata.tracks.length > 0 && (
+          <div className="absolute top-2 left-2 z-10 max-w-[90%] truncate bg-black/70 text-white text-xs px-2 py-1 rounded pointer-events-none">
+            {describeMetadata(metadata)}
+          </div>
+        )}
+
         {/* Center Play/Pause Button - Always visible by default */}
         {shouldShowControls && !isLoading && (
           <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
@@ -192,9 +370,41 @@ export function VideoRenderer({
                 >
                   {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => stepFrame(-1)}
+                  className="text-white hover:bg-white/20 h-8 w-8 p-0"
+                  title="Previous frame (,)"
+                >
+                  <StepBack className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => stepFrame(1)}
+                  className="text-white hover:bg-white/20 h-8 w-8 p-0"
+                  title="Next frame (.)"
+                >
+                  <StepForward className="h-4 w-4" />
+                </Button>
+                {duration > 0 && (
+                  <span className="text-white text-xs font-mono">
+                    {safeFormatTime(currentTime)} / {safeFormatTime(duration)}
+                  </span>
+                )}
               </div>
 
               <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={cyclePlaybackRate}
+                  className="text-white hover:bg-white/20 h-8 px-2 text-xs"
+                  title="Playback speed"
+                >
+                  {playbackRate}×
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -216,6 +426,10 @@ export function VideoRenderer({
           </div>
         )}
       </div>
+
+      {showStrip && (
+        <ThumbnailStrip thumbnails={thumbnails} duration={duration} currentTime={currentTime} onSeek={seekTo} />
+      )}
     </div>
   );
 }
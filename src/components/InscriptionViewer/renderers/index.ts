@@ -14,6 +14,11 @@ export { ThreeDRenderer } from './ThreeDRenderer';
 export { IframeRenderer } from './IframeRenderer';
 export { CodeRenderer } from './CodeRenderer';
 export { DownloadRenderer } from './DownloadRenderer';
+export { ArchiveRenderer } from './ArchiveRenderer';
+export { FontRenderer } from './FontRenderer';
+export { PdfRenderer } from './PdfRenderer';
+export { MarkdownRenderer } from './MarkdownRenderer';
+export { TableRenderer } from './TableRenderer';
 
 // Import for default export
 import { TextRenderer } from './TextRenderer';
@@ -26,6 +31,11 @@ import { ThreeDRenderer } from './ThreeDRenderer';
 import { IframeRenderer } from './IframeRenderer';
 import { CodeRenderer } from './CodeRenderer';
 import { DownloadRenderer } from './DownloadRenderer';
+import { ArchiveRenderer } from './ArchiveRenderer';
+import { FontRenderer } from './FontRenderer';
+import { PdfRenderer } from './PdfRenderer';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { TableRenderer } from './TableRenderer';
 
 export default {
   TextRenderer,
@@ -37,5 +47,10 @@ export default {
   ThreeDRenderer,
   IframeRenderer,
   CodeRenderer,
-  DownloadRenderer
+  DownloadRenderer,
+  ArchiveRenderer,
+  FontRenderer,
+  PdfRenderer,
+  MarkdownRenderer,
+  TableRenderer
 };
\ No newline at end of file
@@ -22,8 +22,16 @@ export {
   type PerformanceEvent
 } from './usePerformanceMonitor';
 
+export { useObjectUrl } from './useObjectUrl';
+
 export { 
   useVirtualScroll,
   type VirtualScrollConfig,
   type VirtualScrollResult
 } from './useVirtualScroll';
+
+export { useAnimationPlayer, type AnimationPlayer } from './useAnimationPlayer';
+
+export { useVideoFrames, type VideoFrames, type VideoThumbnail } from './useVideoFrames';
+
+export { useRecursionBridge } from './useRecursionBridge';
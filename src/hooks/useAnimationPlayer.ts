@@ -0,0 +1,118 @@
+/**
+ * Animation Player Hook
+ * Decodes an animated GIF, APNG or WebP into frames and plays them with the
+ * file's own frame delays and loop count
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { decodeAnimation, frameDuration, DecodedAnimation } from '../utils/animatedImage';
+
+export interface AnimationPlayer {
+  animation: DecodedAnimation | null;
+  loading: boolean;
+  error: string | null;
+  frame: number;
+  playing: boolean;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  step: (delta: number) => void;
+  seek: (index: number) => void;
+}
+
+/**
+ * Decode `source` when enabled and drive frame playback. Playback stops on the
+ * last frame once the loop count is used up; playing again restarts it.
+ */
+export const useAnimationPlayer = (source: Blob | null | undefined, enabled: boolean = true): AnimationPlayer => {
+  const [animation, setAnimation] = useState<DecodedAnimation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const playsRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled || !source) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    source.arrayBuffer()
+      .then(buffer => decodeAnimation(new Uint8Array(buffer), { isCancelled: () => cancelled }))
+      .then(decoded => {
+        if (cancelled) return;
+        setAnimation(decoded);
+        setFrame(0);
+        playsRef.current = 0;
+        setPlaying(decoded.frames.length > 1);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('❌ Failed to decode animation:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, enabled]);
+
+  // Release decoded frames when the player is switched off
+  useEffect(() => {
+    if (!enabled) {
+      setAnimation(null);
+      setPlaying(false);
+    }
+  }, [enabled]);
+
+  const frameCount = animation?.frames.length ?? 0;
+
+  useEffect(() => {
+    if (!playing || !animation || frameCount < 2) return;
+    const timer = setTimeout(() => {
+      if (frame < frameCount - 1) {
+        setFrame(frame + 1);
+        return;
+      }
+      playsRef.current++;
+      const { loopCount } = animation.info;
+      if (loopCount > 0 && playsRef.current >= loopCount) {
+        setPlaying(false);
+      } else {
+        setFrame(0);
+      }
+    }, frameDuration(animation.info.frames[frame]));
+    return () => clearTimeout(timer);
+  }, [playing, animation, frame, frameCount]);
+
+  const play = useCallback(() => {
+    // Restart a finished animation
+    if (frameCount && frame === frameCount - 1) {
+      setFrame(0);
+      playsRef.current = 0;
+    }
+    setPlaying(true);
+  }, [frame, frameCount]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const toggle = useCallback(() => (playing ? pause() : play()), [playing, play, pause]);
+
+  const seek = useCallback((index: number) => {
+    if (!frameCount) return;
+    setPlaying(false);
+    setFrame(Math.max(0, Math.min(frameCount - 1, index)));
+  }, [frameCount]);
+
+  const step = useCallback((delta: number) => {
+    if (!frameCount) return;
+    setPlaying(false);
+    setFrame(current => (current + delta + frameCount) % frameCount);
+  }, [frameCount]);
+
+  return { animation, loading, error, frame, playing, play, pause, toggle, step, seek };
+};
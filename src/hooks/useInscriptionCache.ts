@@ -4,9 +4,11 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { cacheManager, estimateCacheSize } from '@/services/CacheManager';
 
 export interface CacheConfig {
   maxSize?: number;
+  maxBytes?: number; // Byte budget for this hook's entries (default 50MB)
   ttl?: number; // Time to live in milliseconds
   strategy?: 'lru' | 'fifo';
   enabled?: boolean;
@@ -29,32 +31,40 @@ export interface CachedContent {
   lastAccessed: number;
 }
 
+let cacheInstanceCounter = 0;
+
+/**
+ * Per-hook view onto the shared cache manager: entries live in the 'content' namespace,
+ * while size limits, eviction strategy and hit stats stay local to the hook
+ */
 class InscriptionCache {
-  private cache: Map<string, CachedContent> = new Map();
   private accessOrder: Map<string, number> = new Map();
   private maxSize: number;
+  private maxBytes: number;
   private ttl: number;
   private strategy: 'lru' | 'fifo';
+  private scope: string;
   private hits = 0;
   private misses = 0;
 
   constructor(config: CacheConfig = {}) {
     this.maxSize = config.maxSize || 100;
+    this.maxBytes = config.maxBytes || 50 * 1024 * 1024;
     this.ttl = config.ttl || 300000; // 5 minutes default
     this.strategy = config.strategy || 'lru';
+    this.scope = `hook-${++cacheInstanceCounter}:`;
+  }
+
+  private cacheKey(inscriptionId: string): string {
+    return `${this.scope}${inscriptionId}`;
   }
 
   get(inscriptionId: string): CachedContent | null {
-    const item = this.cache.get(inscriptionId);
-    
-    if (!item) {
-      this.misses++;
-      return null;
-    }
+    const item = cacheManager.get<CachedContent>('content', this.cacheKey(inscriptionId));
 
-    // Check TTL
-    if (Date.now() - item.timestamp > this.ttl) {
-      this.delete(inscriptionId);
+    // Missing, expired (TTL is enforced by the cache manager) or evicted under memory pressure
+    if (!item) {
+      this.accessOrder.delete(inscriptionId);
       this.misses++;
       return null;
     }
@@ -73,13 +83,25 @@ class InscriptionCache {
   }
 
   set(inscriptionId: string, content: any, contentType: string = 'unknown'): void {
-    // Remove oldest items if at max capacity
-    while (this.cache.size >= this.maxSize) {
-      this.evictOldest();
+    const timestamp = Date.now();
+    const size = estimateCacheSize(content);
+
+    // Replaced entries don't count against the budget; oversized ones are not cached at all
+    this.delete(inscriptionId);
+    if (size > this.maxBytes) {
+      return;
     }
 
-    const timestamp = Date.now();
-    const size = this.estimateSize(content);
+    // Remove oldest items while over the entry count or byte budget
+    while (this.accessOrder.size >= this.maxSize) {
+      this.evictOldest();
+    }
+    let usedBytes = this.estimateMemoryUsage();
+    while (usedBytes + size > this.maxBytes && this.accessOrder.size > 0) {
+      const oldestKey = this.accessOrder.keys().next().value as string;
+      usedBytes -= cacheManager.peek<CachedContent>('content', this.cacheKey(oldestKey))?.size || 0;
+      this.delete(oldestKey);
+    }
     
     const cachedContent: CachedContent = {
       content,
@@ -90,18 +112,17 @@ class InscriptionCache {
       lastAccessed: timestamp
     };
 
-    this.cache.set(inscriptionId, cachedContent);
+    cacheManager.set('content', this.cacheKey(inscriptionId), cachedContent, { ttl: this.ttl, size });
     this.accessOrder.set(inscriptionId, timestamp);
   }
 
   delete(inscriptionId: string): boolean {
-    const deleted = this.cache.delete(inscriptionId);
     this.accessOrder.delete(inscriptionId);
-    return deleted;
+    return cacheManager.delete('content', this.cacheKey(inscriptionId));
   }
 
   clear(): void {
-    this.cache.clear();
+    cacheManager.invalidateMemory({ namespace: 'content', prefix: this.scope });
     this.accessOrder.clear();
     this.hits = 0;
     this.misses = 0;
@@ -114,55 +135,31 @@ class InscriptionCache {
     return {
       hits: this.hits,
       misses: this.misses,
-      size: this.cache.size,
+      size: this.accessOrder.size,
       hitRate,
       memoryUsage: this.estimateMemoryUsage()
     };
   }
 
   private evictOldest(): void {
-    if (this.cache.size === 0) return;
-
-    let oldestKey: string | undefined;
-    
-    if (this.strategy === 'lru') {
-      // Find least recently used
-      let oldestTime = Date.now();
-      
-      for (const [key, timestamp] of this.accessOrder.entries()) {
-        if (timestamp < oldestTime) {
-          oldestTime = timestamp;
-          oldestKey = key;
-        }
-      }
-    } else {
-      // FIFO - first key in the map
-      oldestKey = this.cache.keys().next().value;
-    }
+    if (this.accessOrder.size === 0) return;
 
-    if (oldestKey) {
+    // accessOrder is kept in access order for LRU and insertion order for FIFO
+    const oldestKey = this.accessOrder.keys().next().value;
+    if (oldestKey !== undefined) {
       this.delete(oldestKey);
     }
   }
 
-  private estimateSize(content: any): number {
-    if (typeof content === 'string') {
-      return content.length * 2; // Rough estimate for UTF-16
-    }
-    if (content instanceof ArrayBuffer) {
-      return content.byteLength;
-    }
-    if (content instanceof Blob) {
-      return content.size;
-    }
-    // Rough estimate for objects
-    return JSON.stringify(content).length * 2;
-  }
-
   private estimateMemoryUsage(): number {
     let totalSize = 0;
-    for (const item of this.cache.values()) {
-      totalSize += item.size;
+    for (const inscriptionId of Array.from(this.accessOrder.keys())) {
+      const record = cacheManager.peek<CachedContent>('content', this.cacheKey(inscriptionId));
+      if (record) {
+        totalSize += record.size;
+      } else {
+        this.accessOrder.delete(inscriptionId);
+      }
     }
     return totalSize;
   }
@@ -0,0 +1,31 @@
+/**
+ * Object URL Hook
+ * Shares one ref-counted object URL per key across components
+ */
+
+import { useEffect, useState } from 'react';
+import { objectUrlRegistry } from '@/services/ObjectUrlRegistry';
+
+/**
+ * Returns an object URL for the blob that stays valid while the component is mounted.
+ * Components passing the same key share one URL; it is revoked after the last one unmounts.
+ */
+export const useObjectUrl = (key: string | null | undefined, blob: Blob | null | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!key || !blob) {
+      setUrl(null);
+      return;
+    }
+
+    const acquired = objectUrlRegistry.acquire(key, blob);
+    setUrl(acquired);
+
+    return () => {
+      objectUrlRegistry.release(acquired);
+    };
+  }, [key, blob]);
+
+  return url;
+};
@@ -18,7 +18,7 @@ export interface UseInscriptionsResult {
   error: string | null;
   hasMore: boolean;
   currentPage: number;
-  source: 'user-node' | 'ordinals.com' | null;
+  source: string | null;
   fetchInscriptions: (page?: number) => Promise<void>;
   fetchInscriptionsByIds: (ids: string[]) => Promise<void>;
   fetchInscriptionsByAddress: (address: string) => Promise<void>;
@@ -37,7 +37,7 @@ export function useInscriptions(options: UseOrdinalsApiOptions = {}): UseInscrip
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [currentPage, setCurrentPage] = useState(0);
-  const [source, setSource] = useState<'user-node' | 'ordinals.com' | null>(null);
+  const [source, setSource] = useState<string | null>(null);
   const [lastFetchFunction, setLastFetchFunction] = useState<(() => Promise<void>) | null>(null);
 
   // Update API endpoints if provided
@@ -108,7 +108,7 @@ export function useInscriptions(options: UseOrdinalsApiOptions = {}): UseInscrip
     const fetchFn = async () => {
       const response = await ordinalsApi.getAddressAssets(address);
       if (response.success && response.data) {
-        const inscriptionData = response.data.inscriptions.map(id => 
+        const inscriptionData = (response.data.inscriptions || []).map(id => 
           ordinalsApi.normalizeInscriptionData(id)
         );
         setInscriptions(inscriptionData);
@@ -195,7 +195,7 @@ export interface UseInscriptionResult {
   inscription: InscriptionData | null;
   loading: boolean;
   error: string | null;
-  source: 'user-node' | 'ordinals.com' | null;
+  source: string | null;
   fetchInscription: (inscriptionId: string) => Promise<void>;
   fetchInscriptionContent: (inscriptionId: string) => Promise<void>;
   content: any;
@@ -209,7 +209,7 @@ export function useInscription(): UseInscriptionResult {
   const [inscription, setInscription] = useState<InscriptionData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [source, setSource] = useState<'user-node' | 'ordinals.com' | null>(null);
+  const [source, setSource] = useState<string | null>(null);
   const [content, setContent] = useState<any>(null);
   const [metadata, setMetadata] = useState<string | null>(null);
 
@@ -276,7 +276,7 @@ export interface UseBlockResult {
   inscriptions: InscriptionData[];
   loading: boolean;
   error: string | null;
-  source: 'user-node' | 'ordinals.com' | null;
+  source: string | null;
   fetchBlock: (blockHashOrHeight: string | number) => Promise<void>;
   fetchBlockInscriptions: (blockHeight: number) => Promise<void>;
 }
@@ -289,7 +289,7 @@ export function useBlock(): UseBlockResult {
   const [inscriptions, setInscriptions] = useState<InscriptionData[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [source, setSource] = useState<'user-node' | 'ordinals.com' | null>(null);
+  const [source, setSource] = useState<string | null>(null);
 
   const fetchBlock = useCallback(async (blockHashOrHeight: string | number) => {
     setLoading(true);
@@ -301,7 +301,7 @@ export function useBlock(): UseBlockResult {
       setSource(response.source);
       
       // Convert inscription IDs to InscriptionData format
-      const blockInscriptions = response.data.inscriptions.map((id: string) => 
+      const blockInscriptions = (response.data.inscriptions || []).map((id: string) => 
         ordinalsApi.normalizeInscriptionData(id)
       );
       setInscriptions(blockInscriptions);
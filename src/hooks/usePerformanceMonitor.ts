@@ -4,6 +4,7 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { requestCoalescer, RequestCoalescingStats } from '@/utils/requestCoalescer';
 
 export interface PerformanceMetrics {
   loadTimes: number[];
@@ -17,6 +18,7 @@ export interface PerformanceMetrics {
   bandwidthUsage: number;
   errorsByType: Record<string, number>;
   requestsPerSecond: number;
+  coalescing: RequestCoalescingStats; // Global in-flight deduplication counters
 }
 
 export interface PerformanceEvent {
@@ -106,7 +108,8 @@ class PerformanceMonitor {
       memoryUsage: this.estimateMemoryUsage(),
       bandwidthUsage,
       errorsByType,
-      requestsPerSecond
+      requestsPerSecond,
+      coalescing: requestCoalescer.getStats()
     };
   }
 
@@ -123,6 +126,8 @@ class PerformanceMonitor {
   clear(): void {
     this.events = [];
     this.loadStartTimes.clear();
+    // Coalescing counters are reported alongside, so they start over too
+    requestCoalescer.resetStats();
   }
 
   export(): PerformanceEvent[] {
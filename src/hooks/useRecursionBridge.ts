@@ -0,0 +1,42 @@
+/**
+ * Recursion Bridge Hook
+ * Answers recursive requests from a strictly isolated iframe using the
+ * Ordinals API service, so the frame never needs the host's origin
+ */
+
+import { RefObject, useEffect } from 'react';
+import { ordinalsApi, OrdinalsApiService } from '@/services/OrdinalsApiService';
+import { createBridgeResponse, isBridgeRequest } from '../utils/recursionBridge';
+
+/**
+ * Serve bridge requests posted by `frameRef`'s window while `enabled`.
+ * Messages from any other window, or from the frame once it is no longer
+ * sandboxed into an opaque origin, are ignored.
+ */
+export const useRecursionBridge = (
+  frameRef: RefObject<HTMLIFrameElement | null>,
+  enabled: boolean = true,
+  apiService: OrdinalsApiService = ordinalsApi
+): void => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleMessage = async (event: MessageEvent) => {
+      const frame = frameRef.current?.contentWindow;
+      if (!frame || event.source !== frame || event.origin !== 'null' || !isBridgeRequest(event.data)) return;
+
+      const { id, path } = event.data;
+      const response = await createBridgeResponse(id, await apiService.getRecursiveResource(path));
+      if (!response.body) {
+        console.warn(`⚠️ Recursion bridge could not serve ${path}:`, response.error);
+      }
+      // The frame may have been replaced while the lookup ran
+      if (frameRef.current?.contentWindow !== frame) return;
+      // An opaque origin cannot be named as a target, so the reply is addressed to the frame's window only
+      frame.postMessage(response, '*', response.body ? [response.body] : []);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [frameRef, enabled, apiService]);
+};
@@ -0,0 +1,123 @@
+/**
+ * Video Frames Hook
+ * Captures a poster frame and evenly spaced thumbnails from a video using an
+ * offscreen element, leaving the visible player untouched
+ */
+
+import { useEffect, useState } from 'react';
+import { scoreFrame, isUsablePoster, posterCandidateTimes, thumbnailTimes, FrameScore } from '../utils/videoFrames';
+
+export interface VideoThumbnail {
+  time: number;
+  url: string; // JPEG data URL
+}
+
+export interface VideoFrames {
+  poster: string | null;
+  thumbnails: VideoThumbnail[];
+}
+
+const THUMBNAIL_WIDTH = 160;
+const POSTER_WIDTH = 640;
+const SEEK_TIMEOUT = 5000;
+
+function waitFor(video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(event, handleDone);
+      video.removeEventListener('error', handleError);
+    };
+    const handleDone = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Video failed to load'));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Video did not fire ${event} in time`));
+    }, SEEK_TIMEOUT);
+    video.addEventListener(event, handleDone);
+    video.addEventListener('error', handleError);
+  });
+}
+
+/** Draw the current frame at the given width; throws for cross-origin video */
+function capture(video: HTMLVideoElement, width: number): { url: string, score: FrameScore } {
+  const scale = Math.min(1, width / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const score = scoreFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+  return { url: canvas.toDataURL('image/jpeg', 0.75), score };
+}
+
+/**
+ * Pick a poster frame that is not black or blank, then capture
+ * `thumbnailCount` thumbnails. Thumbnails appear as they are captured.
+ */
+export const useVideoFrames = (src: string | null | undefined, thumbnailCount: number = 0): VideoFrames => {
+  const [poster, setPoster] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<VideoThumbnail[]>([]);
+
+  useEffect(() => {
+    setPoster(null);
+    setThumbnails([]);
+    if (!src) return;
+
+    let cancelled = false;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const run = async () => {
+      const loaded = waitFor(video, 'loadeddata');
+      video.src = src;
+      await loaded;
+
+      const seek = async (time: number) => {
+        const seeked = waitFor(video, 'seeked');
+        video.currentTime = time;
+        await seeked;
+      };
+
+      let best: { url: string, score: FrameScore } | null = null;
+      for (const time of posterCandidateTimes(video.duration)) {
+        await seek(time);
+        if (cancelled) return;
+        const frame = capture(video, POSTER_WIDTH);
+        if (!best || frame.score.brightness * frame.score.contrast > best.score.brightness * best.score.contrast) {
+          best = frame;
+        }
+        if (isUsablePoster(frame.score)) break;
+      }
+      if (best) setPoster(best.url);
+
+      for (const time of thumbnailTimes(video.duration, thumbnailCount)) {
+        await seek(time);
+        if (cancelled) return;
+        const { url } = capture(video, THUMBNAIL_WIDTH);
+        setThumbnails(prev => [...prev, { time, url }]);
+      }
+    };
+
+    run().catch(err => {
+      if (!cancelled) console.warn('⚠️ Could not capture video frames:', err);
+    });
+
+    return () => {
+      cancelled = true;
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, [src, thumbnailCount]);
+
+  return { poster, thumbnails };
+};
@@ -1,22 +1,23 @@
 /**
  * Virtual Scrolling Hook for Large Inscription Lists
  * Provides performance optimization for rendering large numbers of inscriptions
+ * (or any fixed-height items, such as table rows)
  */
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type { InscriptionData } from '../types';
 
-export interface VirtualScrollConfig {
+export interface VirtualScrollConfig<T = InscriptionData> {
   itemHeight: number;
   containerHeight: number;
   overscan?: number; // Number of items to render outside viewport
   prefetchDistance?: number; // How far ahead to prefetch content
   enabled?: boolean;
-  onPrefetch?: (items: InscriptionData[], startIndex: number, endIndex: number) => void;
+  onPrefetch?: (items: T[], startIndex: number, endIndex: number) => void;
 }
 
-export interface VirtualScrollResult {
-  visibleItems: InscriptionData[];
+export interface VirtualScrollResult<T = InscriptionData> {
+  visibleItems: T[];
   totalHeight: number;
   scrollTop: number;
   onScroll: (event: React.UIEvent<HTMLDivElement>) => void;
@@ -27,10 +28,10 @@ export interface VirtualScrollResult {
   prefetchRange: { startIndex: number; endIndex: number };
 }
 
-export const useVirtualScroll = (
-  items: InscriptionData[],
-  config: VirtualScrollConfig
-): VirtualScrollResult => {
+export const useVirtualScroll = <T = InscriptionData>(
+  items: T[],
+  config: VirtualScrollConfig<T>
+): VirtualScrollResult<T> => {
   const [scrollTop, setScrollTop] = useState(0);
   const containerRef = useRef<HTMLDivElement>(null);
   
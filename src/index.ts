@@ -1,10 +1,11 @@
 // Core components
-export { InscriptionViewer, InscriptionRenderer, InscriptionModal, LazyInscriptionCard, ApiExplorer, EnhancedInscriptionViewer, analyzeContent, shouldLazyLoad } from './components/InscriptionViewer';
+export { InscriptionViewer, InscriptionRenderer, InscriptionModal, DelegateBadge, MetadataPanel, LazyInscriptionCard, ApiExplorer, EnhancedInscriptionViewer, analyzeContent, shouldLazyLoad } from './components/InscriptionViewer';
 
 // Individual renderers (for advanced usage)
-export { TextRenderer, ImageRenderer, VideoRenderer, AudioRenderer, JsonRenderer, HtmlRenderer, ThreeDRenderer, IframeRenderer, CodeRenderer, DownloadRenderer } from './components/InscriptionViewer/renderers';
+export { TextRenderer, ImageRenderer, VideoRenderer, AudioRenderer, JsonRenderer, HtmlRenderer, ThreeDRenderer, IframeRenderer, CodeRenderer, DownloadRenderer, ArchiveRenderer, FontRenderer, PdfRenderer, MarkdownRenderer, TableRenderer } from './components/InscriptionViewer/renderers';
 export { InscriptionGallery } from './components/InscriptionGallery';
 export { InscriptionExplorer } from './components/InscriptionExplorer';
+export { InscriptionProvenanceTree } from './components/InscriptionProvenanceTree';
 export { LaserEyesInscriptionGallery } from './components/LaserEyesInscriptionGallery';
 export { LiveDemo } from './components/LiveDemo';
 
@@ -18,15 +19,16 @@ export { normalizeInscriptions } from './types';
 
 // Types - Component Props
 export type { InscriptionGalleryProps } from './components/InscriptionGallery';
+export type { InscriptionProvenanceTreeProps, ProvenanceDirection } from './components/InscriptionProvenanceTree';
 export type { LaserEyesInscriptionGalleryProps } from './components/LaserEyesInscriptionGallery';
-export type { EnhancedInscriptionViewerProps, PreFetchedContent, PerformanceOptions, FallbackOptions } from './components/InscriptionViewer';
+export type { EnhancedInscriptionViewerProps, PreFetchedContent, PerformanceOptions, FallbackOptions, LoadedContent } from './components/InscriptionViewer';
 
 // Services
-export { InscriptionContentCache, inscriptionCache, OrdinalsApiService, ordinalsApi, LaserEyesService, laserEyesService, swManager, useServiceWorker } from './services';
-export type { LaserEyesWallet, LaserEyesInscriptionContent, ApiEndpoint, ApiResponse, InscriptionApiData, InscriptionsListResponse, BlockResponse, AddressResponse } from './services';
+export { InscriptionContentCache, inscriptionCache, OrdinalsApiService, ordinalsApi, getEndpointService, LaserEyesService, laserEyesService, swManager, useServiceWorker, ContentSourceRegistry, contentSourceRegistry, CONTENT_SOURCE_PRIORITY, buildDefaultSourceChain, loadFromSources, createCacheSource, createFetcherSource, createLaserEyesSource, createNetworkSource, normalizeSourcePayload, ordinalsApiSchemas, DelegateResolver, delegateResolver, getDelegateResolver, DEFAULT_MAX_DELEGATE_DEPTH, PersistentContentStore, CacheManager, cacheManager, CACHE_NAMESPACES, estimateCacheSize, ObjectUrlRegistry, objectUrlRegistry } from './services';
+export type { LaserEyesWallet, LaserEyesInscriptionContent, ApiEndpoint, ApiResponse, ApiErrorCode, InscriptionApiData, InscriptionsListResponse, BlockResponse, AddressResponse, EndpointHealth, CircuitState, OrdinalsApiServiceConfig, SchemaDriftReport, InscriptionIdsPage, ChildInscriptionsPage, ParentInscriptionsPage, SatInscriptionResponse, BlockInfo, RuneBalance, UtxoInfo, OutputResponse, StatusResponse, InscriptionContentResponse, ContentSource, ContentSourceRequest, ContentSourceContext, ContentSourceResult, ContentSourceFallthrough, ContentSourceAttempt, ResolvedContent, DelegateResolution, DelegateResolveOptions, InscriptionContentCacheOptions, CachedContent, PersistentContentStoreConfig, PersistentContentRecord, PersistentContentInfo, PersistentStoreStats, CacheNamespace, CacheNamespaceConfig, CacheManagerConfig, CacheSetOptions, CacheRecord, CacheInvalidation, CacheTier, CacheNamespaceStats, CacheManagerStats, CacheManagerFullStats, ObjectUrlRegistryConfig, ObjectUrlStats } from './services';
 
 // Hooks and their types
-export { useInscriptions, useInscription, useBlock, useInscriptionCache, useInscriptionPerformance, useVirtualScroll } from './hooks';
+export { useInscriptions, useInscription, useBlock, useInscriptionCache, useInscriptionPerformance, useVirtualScroll, useObjectUrl, useAnimationPlayer, useVideoFrames, useRecursionBridge } from './hooks';
 export type { 
   CacheConfig, 
   CacheStats, 
@@ -38,7 +40,10 @@ export type {
   UseOrdinalsApiOptions,
   UseInscriptionsResult,
   UseInscriptionResult,
-  UseBlockResult
+  UseBlockResult,
+  AnimationPlayer,
+  VideoFrames,
+  VideoThumbnail
 } from './hooks';
 
 // Utils (including batch fetcher)
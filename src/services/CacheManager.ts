@@ -0,0 +1,487 @@
+/**
+ * Unified cache manager
+ * Every in-memory cache in the library stores its entries here, in one of three namespaces
+ * with shared memory budgets, unified stats and a single invalidation API. External tiers
+ * (IndexedDB, service worker) register themselves so invalidations reach them as well.
+ */
+
+export type CacheNamespace = 'content' | 'metadata' | 'negative';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['content', 'metadata', 'negative'];
+
+export interface CacheNamespaceConfig {
+  maxEntries: number;
+  maxBytes: number;
+  ttl?: number; // Default time to live in ms, undefined = no expiry
+}
+
+export interface CacheManagerConfig {
+  maxBytes?: number; // Shared budget across all namespaces
+  namespaces?: Partial<Record<CacheNamespace, Partial<CacheNamespaceConfig>>>;
+}
+
+export interface CacheSetOptions {
+  ttl?: number; // Overrides the namespace default, 0 = no expiry
+  size?: number; // Byte size when the estimate would be wrong (e.g. objects holding Blobs)
+}
+
+export interface CacheRecord<T = any> {
+  key: string;
+  namespace: CacheNamespace;
+  value: T;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+  expiresAt?: number;
+  hits: number;
+}
+
+/**
+ * Selects entries to invalidate. All given criteria must match; an empty selector matches everything.
+ */
+export interface CacheInvalidation {
+  namespace?: CacheNamespace | CacheNamespace[];
+  key?: string;
+  prefix?: string;
+  inscriptionId?: string; // Any key containing this inscription id
+  match?: (key: string) => boolean;
+  memoryOnly?: boolean; // Skip registered tiers
+}
+
+/**
+ * An external cache layer (IndexedDB, service worker) that follows memory invalidations
+ */
+export interface CacheTier {
+  name: string;
+  namespaces: CacheNamespace[];
+  invalidate(selector: CacheInvalidation): Promise<number | void> | number | void;
+  getStats?(): Promise<Record<string, any> | null>;
+}
+
+export interface CacheNamespaceStats {
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+export interface CacheManagerStats {
+  namespaces: Record<CacheNamespace, CacheNamespaceStats>;
+  totalEntries: number;
+  totalBytes: number;
+  maxBytes: number;
+}
+
+export interface CacheManagerFullStats extends CacheManagerStats {
+  tiers: Record<string, Record<string, any> | null>;
+}
+
+const DEFAULT_NAMESPACES: Record<CacheNamespace, CacheNamespaceConfig> = {
+  content: { maxEntries: 500, maxBytes: 128 * 1024 * 1024 },
+  metadata: { maxEntries: 2000, maxBytes: 16 * 1024 * 1024, ttl: 5 * 60 * 1000 },
+  negative: { maxEntries: 1000, maxBytes: 1024 * 1024, ttl: 30 * 60 * 1000 }
+};
+
+interface NamespaceState {
+  config: CacheNamespaceConfig;
+  entries: Map<string, CacheRecord>; // Insertion order doubles as LRU order
+  bytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+const MAX_SIZE_DEPTH = 6;
+
+/**
+ * In-memory size of a cached value. Blobs and buffers count their actual byte size,
+ * including when nested inside objects, arrays and Maps.
+ */
+export function estimateCacheSize(value: any, depth: number = 0): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'string') return value.length * 2; // UTF-16
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') return 8;
+  if (typeof value !== 'object') return 0;
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return value.size;
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+
+  // Deep or cyclic structures are cut off with a flat estimate
+  if (depth >= MAX_SIZE_DEPTH) return 1024;
+
+  let size = 0;
+  if (Array.isArray(value)) {
+    value.forEach(item => {
+      size += 8 + estimateCacheSize(item, depth + 1);
+    });
+  } else if (value instanceof Map) {
+    value.forEach((item, key) => {
+      size += estimateCacheSize(key, depth + 1) + estimateCacheSize(item, depth + 1);
+    });
+  } else {
+    Object.keys(value).forEach(key => {
+      size += key.length * 2 + estimateCacheSize(value[key], depth + 1);
+    });
+  }
+  return size;
+}
+
+export class CacheManager {
+  private namespaces: Record<CacheNamespace, NamespaceState>;
+  private maxBytes: number;
+  private tiers: CacheTier[] = [];
+
+  constructor(config: CacheManagerConfig = {}) {
+    this.maxBytes = config.maxBytes ?? 160 * 1024 * 1024;
+    this.namespaces = {} as Record<CacheNamespace, NamespaceState>;
+    CACHE_NAMESPACES.forEach(namespace => {
+      this.namespaces[namespace] = {
+        config: { ...DEFAULT_NAMESPACES[namespace], ...config.namespaces?.[namespace] },
+        entries: new Map(),
+        bytes: 0,
+        hits: 0,
+        misses: 0,
+        evictions: 0
+      };
+    });
+  }
+
+  /**
+   * Change memory budgets at runtime; entries over the new budgets are evicted immediately
+   */
+  configure(config: CacheManagerConfig): void {
+    if (config.maxBytes !== undefined) {
+      this.maxBytes = config.maxBytes;
+    }
+    CACHE_NAMESPACES.forEach(namespace => {
+      const overrides = config.namespaces?.[namespace];
+      if (overrides) {
+        this.namespaces[namespace].config = { ...this.namespaces[namespace].config, ...overrides };
+      }
+    });
+    CACHE_NAMESPACES.forEach(namespace => this.enforceBudgets(namespace));
+  }
+
+  // =================
+  // ENTRY ACCESS
+  // =================
+
+  /**
+   * Get a cached value, or undefined on miss / expiry
+   */
+  get<T = any>(namespace: CacheNamespace, key: string): T | undefined {
+    return this.getRecord<T>(namespace, key)?.value;
+  }
+
+  /**
+   * Get the full record (timestamps, size, hit count) and mark it as recently used
+   */
+  getRecord<T = any>(namespace: CacheNamespace, key: string): CacheRecord<T> | undefined {
+    const state = this.namespaces[namespace];
+    const record = state.entries.get(key);
+
+    if (!record) {
+      state.misses++;
+      return undefined;
+    }
+
+    if (this.isExpired(record)) {
+      this.removeEntry(state, key);
+      state.misses++;
+      return undefined;
+    }
+
+    state.hits++;
+    record.hits++;
+    record.lastAccess = Date.now();
+    state.entries.delete(key);
+    state.entries.set(key, record);
+    return record;
+  }
+
+  /**
+   * Read a live record without touching stats or LRU order
+   */
+  peek<T = any>(namespace: CacheNamespace, key: string): CacheRecord<T> | undefined {
+    const record = this.namespaces[namespace].entries.get(key);
+    return record && !this.isExpired(record) ? record : undefined;
+  }
+
+  /**
+   * Check for a live entry without touching stats or LRU order
+   */
+  has(namespace: CacheNamespace, key: string): boolean {
+    return !!this.peek(namespace, key);
+  }
+
+  set<T = any>(namespace: CacheNamespace, key: string, value: T, options: CacheSetOptions = {}): void {
+    const state = this.namespaces[namespace];
+    const size = options.size ?? estimateCacheSize(value);
+
+    // Values larger than the namespace budget would evict everything and still not fit
+    if (size > state.config.maxBytes) {
+      this.removeEntry(state, key);
+      return;
+    }
+
+    const now = Date.now();
+    const ttl = options.ttl ?? state.config.ttl;
+    const existing = state.entries.get(key);
+    if (existing) {
+      this.removeEntry(state, key);
+    }
+
+    state.entries.set(key, {
+      key,
+      namespace,
+      value,
+      size,
+      createdAt: existing?.createdAt ?? now,
+      lastAccess: now,
+      expiresAt: ttl ? now + ttl : undefined,
+      hits: 0
+    });
+    state.bytes += size;
+
+    this.enforceBudgets(namespace);
+  }
+
+  delete(namespace: CacheNamespace, key: string): boolean {
+    return this.removeEntry(this.namespaces[namespace], key);
+  }
+
+  /**
+   * Live keys in a namespace, optionally filtered by prefix, least recently used first
+   */
+  keys(namespace: CacheNamespace, prefix: string = ''): string[] {
+    const result: string[] = [];
+    this.namespaces[namespace].entries.forEach((record, key) => {
+      if (key.startsWith(prefix) && !this.isExpired(record)) {
+        result.push(key);
+      }
+    });
+    return result;
+  }
+
+  // =================
+  // INVALIDATION
+  // =================
+
+  /**
+   * Remove matching entries from memory and from every registered tier covering the namespaces.
+   * Returns the number of memory entries removed.
+   */
+  async invalidate(selector: CacheInvalidation = {}): Promise<number> {
+    const removed = this.invalidateMemory(selector);
+
+    if (!selector.memoryOnly) {
+      const namespaces = this.selectedNamespaces(selector);
+      const tiers = this.tiers.filter(tier => tier.namespaces.some(namespace => namespaces.includes(namespace)));
+      await Promise.all(tiers.map(async tier => {
+        try {
+          await tier.invalidate(selector);
+        } catch (error) {
+          console.warn(`⚠️ Cache tier ${tier.name} failed to invalidate:`, error);
+        }
+      }));
+    }
+
+    if (removed > 0) {
+      console.log(`🧹 Invalidated ${removed} cache entries`);
+    }
+    return removed;
+  }
+
+  /**
+   * Synchronous memory-only invalidation for callers that cannot await
+   */
+  invalidateMemory(selector: CacheInvalidation = {}): number {
+    let removed = 0;
+    this.selectedNamespaces(selector).forEach(namespace => {
+      const state = this.namespaces[namespace];
+      Array.from(state.entries.keys()).forEach(key => {
+        if (this.matches(key, selector) && this.removeEntry(state, key)) {
+          removed++;
+        }
+      });
+    });
+    return removed;
+  }
+
+  /**
+   * Drop everything cached for one inscription in every namespace and tier
+   */
+  invalidateInscription(inscriptionId: string): Promise<number> {
+    return this.invalidate({ inscriptionId });
+  }
+
+  clear(namespace?: CacheNamespace): Promise<number> {
+    return this.invalidate({ namespace });
+  }
+
+  /**
+   * Remove expired entries from every namespace
+   */
+  prune(): number {
+    let removed = 0;
+    CACHE_NAMESPACES.forEach(namespace => {
+      const state = this.namespaces[namespace];
+      Array.from(state.entries.values()).forEach(record => {
+        if (this.isExpired(record) && this.removeEntry(state, record.key)) {
+          removed++;
+        }
+      });
+    });
+    return removed;
+  }
+
+  // =================
+  // TIERS
+  // =================
+
+  /**
+   * Register an external tier. Returns a function that unregisters it.
+   */
+  registerTier(tier: CacheTier): () => void {
+    this.tiers = this.tiers.filter(existing => existing.name !== tier.name);
+    this.tiers.push(tier);
+    return () => {
+      this.tiers = this.tiers.filter(existing => existing !== tier);
+    };
+  }
+
+  getTiers(): string[] {
+    return this.tiers.map(tier => tier.name);
+  }
+
+  // =================
+  // STATS
+  // =================
+
+  getStats(): CacheManagerStats {
+    const namespaces = {} as Record<CacheNamespace, CacheNamespaceStats>;
+    let totalEntries = 0;
+    let totalBytes = 0;
+
+    CACHE_NAMESPACES.forEach(namespace => {
+      const state = this.namespaces[namespace];
+      const requests = state.hits + state.misses;
+      namespaces[namespace] = {
+        entries: state.entries.size,
+        bytes: state.bytes,
+        maxEntries: state.config.maxEntries,
+        maxBytes: state.config.maxBytes,
+        hits: state.hits,
+        misses: state.misses,
+        evictions: state.evictions,
+        hitRate: requests > 0 ? state.hits / requests : 0
+      };
+      totalEntries += state.entries.size;
+      totalBytes += state.bytes;
+    });
+
+    return { namespaces, totalEntries, totalBytes, maxBytes: this.maxBytes };
+  }
+
+  /**
+   * Memory stats plus the stats reported by each registered tier
+   */
+  async getFullStats(): Promise<CacheManagerFullStats> {
+    const tiers: Record<string, Record<string, any> | null> = {};
+    await Promise.all(this.tiers.map(async tier => {
+      try {
+        tiers[tier.name] = tier.getStats ? await tier.getStats() : null;
+      } catch {
+        tiers[tier.name] = null;
+      }
+    }));
+    return { ...this.getStats(), tiers };
+  }
+
+  resetStats(): void {
+    CACHE_NAMESPACES.forEach(namespace => {
+      const state = this.namespaces[namespace];
+      state.hits = 0;
+      state.misses = 0;
+      state.evictions = 0;
+    });
+  }
+
+  // =================
+  // INTERNALS
+  // =================
+
+  private isExpired(record: CacheRecord): boolean {
+    return record.expiresAt !== undefined && Date.now() > record.expiresAt;
+  }
+
+  private removeEntry(state: NamespaceState, key: string): boolean {
+    const record = state.entries.get(key);
+    if (!record) return false;
+    state.entries.delete(key);
+    state.bytes -= record.size;
+    return true;
+  }
+
+  private selectedNamespaces(selector: CacheInvalidation): CacheNamespace[] {
+    if (!selector.namespace) return CACHE_NAMESPACES;
+    return Array.isArray(selector.namespace) ? selector.namespace : [selector.namespace];
+  }
+
+  private matches(key: string, selector: CacheInvalidation): boolean {
+    if (selector.key !== undefined && key !== selector.key) return false;
+    if (selector.prefix !== undefined && !key.startsWith(selector.prefix)) return false;
+    if (selector.inscriptionId !== undefined && !key.includes(selector.inscriptionId)) return false;
+    if (selector.match && !selector.match(key)) return false;
+    return true;
+  }
+
+  private evictOldest(state: NamespaceState): void {
+    const oldestKey = state.entries.keys().next().value;
+    if (oldestKey !== undefined) {
+      this.removeEntry(state, oldestKey);
+      state.evictions++;
+    }
+  }
+
+  /**
+   * Evict least recently used entries until the namespace and the shared budget fit.
+   * The shared budget evicts from whichever namespace holds the globally oldest entry.
+   */
+  private enforceBudgets(namespace: CacheNamespace): void {
+    const state = this.namespaces[namespace];
+    while (
+      state.entries.size > state.config.maxEntries ||
+      state.bytes > state.config.maxBytes
+    ) {
+      this.evictOldest(state);
+    }
+
+    let totalBytes = CACHE_NAMESPACES.reduce((sum, name) => sum + this.namespaces[name].bytes, 0);
+    while (totalBytes > this.maxBytes) {
+      let oldest: NamespaceState | null = null;
+      let oldestAccess = Infinity;
+      CACHE_NAMESPACES.forEach(name => {
+        const candidate = this.namespaces[name];
+        const first = candidate.entries.values().next().value as CacheRecord | undefined;
+        if (first && first.lastAccess < oldestAccess) {
+          oldestAccess = first.lastAccess;
+          oldest = candidate;
+        }
+      });
+      if (!oldest) break;
+      const before = (oldest as NamespaceState).bytes;
+      this.evictOldest(oldest);
+      totalBytes -= before - (oldest as NamespaceState).bytes;
+    }
+  }
+}
+
+// Shared instance used by every cache in the library
+export const cacheManager = new CacheManager();
+
+export default CacheManager;
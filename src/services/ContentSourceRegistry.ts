@@ -0,0 +1,495 @@
+/**
+ * Content Source Chain
+ * Pluggable, ordered sources for loading inscription content (cache, custom
+ * fetchers, LaserEyes, indexers, IPFS mirrors, local ord nodes, network)
+ */
+
+import { inscriptionCache } from './InscriptionContentCache';
+import { laserEyesService } from './LaserEyesService';
+import { requestCoalescer } from '../utils/requestCoalescer';
+
+export interface ContentSourceRequest {
+  inscriptionId: string;
+  inscriptionNumber?: number | string;
+  contentUrl: string; // Resolved network URL for the inscription content
+  contentType?: string; // Content type hint supplied by the caller
+}
+
+export interface ContentSourceContext extends ContentSourceRequest {
+  signal: AbortSignal; // Aborted when the source times out or the caller cancels the chain
+}
+
+export interface ContentSourceResult {
+  blob: Blob;
+  contentType: string;
+  text?: string; // Present for text-like content
+}
+
+export interface ResolvedContent extends ContentSourceResult {
+  source: string; // Name of the source that produced the content
+}
+
+/**
+ * How the chain proceeds after a source fails to produce content:
+ * - 'always': try the next source on a miss, timeout or error (default)
+ * - 'on-miss': try the next source only when this one returned nothing; errors end the chain
+ * - 'never': this source is authoritative; a miss or error ends the chain
+ */
+export type ContentSourceFallthrough = 'always' | 'on-miss' | 'never';
+
+export interface ContentSource {
+  name: string;
+  label?: string; // Loading stage text shown while this source is tried
+  timeout?: number; // Milliseconds before the attempt is aborted
+  fallthrough?: ContentSourceFallthrough;
+  cacheable?: boolean; // Whether results are written to the content cache (default true)
+  canHandle?: (request: ContentSourceRequest) => boolean;
+  fetch: (context: ContentSourceContext) => Promise<ContentSourceResult | null>;
+}
+
+export interface ContentSourceAttempt {
+  source: string;
+  status: 'hit' | 'miss' | 'skipped' | 'error' | 'timeout';
+  duration: number;
+  error?: string;
+}
+
+// Built-in priorities; registered sources default to sitting between LaserEyes and the network
+export const CONTENT_SOURCE_PRIORITY = {
+  cache: 0,
+  contentFetcher: 100,
+  laserEyes: 200,
+  custom: 500,
+  network: 1000
+} as const;
+
+/**
+ * Check whether a content type should be loaded and cached as text
+ */
+export function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith('text/') || contentType.includes('json') || contentType.includes('html');
+}
+
+/**
+ * Convert binary content to base64 for the string-based content cache
+ * Converts in chunks to avoid stack overflow on large files
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binaryString += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binaryString);
+}
+
+/**
+ * Normalize the loosely typed payloads returned by custom fetchers and wallets
+ * (strings, Blobs, ArrayBuffers, typed arrays or { content, contentType } objects)
+ */
+export function normalizeSourcePayload(payload: any, fallbackContentType = 'text/plain'): ContentSourceResult | null {
+  if (payload === null || payload === undefined) {
+    return null;
+  }
+
+  if (typeof payload === 'string') {
+    return {
+      blob: new Blob([payload], { type: fallbackContentType }),
+      contentType: fallbackContentType,
+      text: payload
+    };
+  }
+
+  if (payload instanceof Blob) {
+    return {
+      blob: payload,
+      contentType: payload.type || 'application/octet-stream'
+    };
+  }
+
+  if (payload instanceof ArrayBuffer || ArrayBuffer.isView(payload)) {
+    const contentType = fallbackContentType === 'text/plain' ? 'application/octet-stream' : fallbackContentType;
+    return {
+      blob: new Blob([payload], { type: contentType }),
+      contentType
+    };
+  }
+
+  if (typeof payload === 'object') {
+    // Structured content (LaserEyes format)
+    if (payload.content && payload.contentType) {
+      const contentType: string = payload.contentType;
+      if (typeof payload.content === 'string') {
+        return {
+          blob: new Blob([payload.content], { type: contentType }),
+          contentType,
+          text: payload.content
+        };
+      }
+      return {
+        blob: new Blob([payload.content], { type: contentType }),
+        contentType
+      };
+    }
+
+    // Fallback to JSON
+    const jsonText = JSON.stringify(payload);
+    return {
+      blob: new Blob([jsonText], { type: 'application/json' }),
+      contentType: 'application/json',
+      text: jsonText
+    };
+  }
+
+  throw new Error('Unsupported content format from source');
+}
+
+// =================
+// BUILT-IN SOURCES
+// =================
+
+/**
+ * Reads previously loaded content from the shared inscription cache
+ */
+export function createCacheSource(): ContentSource {
+  return {
+    name: 'cache',
+    label: 'Loading from cache...',
+    cacheable: false,
+    fetch: async ({ inscriptionId }) => {
+      // Blob entries from memory or the persistent IndexedDB tier
+      const cached = await inscriptionCache.getContent(inscriptionId);
+      if (cached) {
+        return {
+          blob: cached.blob,
+          contentType: cached.contentType,
+          text: isTextContentType(cached.contentType) ? await cached.blob.text() : undefined
+        };
+      }
+
+      const entry = inscriptionCache.getEntry(inscriptionId);
+      if (!entry || !entry.contentType || typeof entry.data !== 'string') {
+        return null;
+      }
+
+      const { data: content, contentType } = entry;
+
+      if (isTextContentType(contentType)) {
+        // Legacy text entries are stored as-is
+        return {
+          blob: new Blob([content], { type: contentType }),
+          contentType,
+          text: content
+        };
+      }
+
+      // Legacy binary entries are stored as base64
+      try {
+        const binaryString = atob(content);
+        const bytes = new Uint8Array(binaryString.length);
+        for (let i = 0; i < binaryString.length; i++) {
+          bytes[i] = binaryString.charCodeAt(i);
+        }
+        return {
+          blob: new Blob([bytes], { type: contentType }),
+          contentType
+        };
+      } catch (e) {
+        console.error('Failed to decode cached binary content:', e);
+        inscriptionCache.delete(inscriptionId);
+        return null;
+      }
+    }
+  };
+}
+
+/**
+ * Wraps a user-supplied content fetcher (the `contentFetcher` prop)
+ */
+export function createFetcherSource(
+  fetcher: (inscriptionId: string) => Promise<any>,
+  name = 'contentFetcher'
+): ContentSource {
+  return {
+    name,
+    label: 'Fetching via enhanced fetcher...',
+    fetch: async ({ inscriptionId }) => normalizeSourcePayload(await fetcher(inscriptionId))
+  };
+}
+
+/**
+ * Fetches content through the connected LaserEyes wallet
+ */
+export function createLaserEyesSource(): ContentSource {
+  return {
+    name: 'lasereyes',
+    label: 'Fetching via LaserEyes wallet...',
+    canHandle: () => laserEyesService.isAvailable(),
+    fetch: async ({ inscriptionId }) => {
+      const content = await laserEyesService.getInscriptionContent(inscriptionId);
+      return content ? normalizeSourcePayload(content) : null;
+    }
+  };
+}
+
+/**
+ * Fetches content from the resolved content URL (ordinals.com or a configured endpoint)
+ */
+export function createNetworkSource(options: { name?: string; timeout?: number } = {}): ContentSource {
+  return {
+    name: options.name || 'network',
+    label: 'Loading content...',
+    timeout: options.timeout,
+    fetch: async ({ contentUrl, signal }) => {
+      let response: Response;
+      try {
+        // Renderers loading the same inscription at once share one request
+        response = await requestCoalescer.fetch(contentUrl, { signal });
+      } catch (fetchError: any) {
+        throw new Error(`Content loading failed: ${fetchError.message}`);
+      }
+
+      if (!response.ok) {
+        const message = `HTTP ${response.status}: ${response.statusText}`;
+        // 404 and 400 are permanent - retrying will not help
+        if (response.status === 404 || response.status === 400) {
+          throw new Error(`PERMANENT: ${message}`);
+        }
+        throw new Error(`Content loading failed: ${message}`);
+      }
+
+      const contentType = response.headers.get('content-type') || 'application/octet-stream';
+
+      if (isTextContentType(contentType)) {
+        const text = await response.text();
+        return {
+          blob: new Blob([text], { type: contentType }),
+          contentType,
+          text
+        };
+      }
+
+      return {
+        blob: await response.blob(),
+        contentType
+      };
+    }
+  };
+}
+
+// =================
+// REGISTRY
+// =================
+
+interface RegisteredSource {
+  source: ContentSource;
+  priority: number;
+}
+
+/**
+ * Global registry of additional content sources used by every InscriptionRenderer
+ * that does not receive an explicit `sources` prop
+ */
+export class ContentSourceRegistry {
+  private entries: RegisteredSource[] = [];
+
+  /**
+   * Register a source; lower priorities are tried first.
+   * Returns a function that unregisters the source again.
+   */
+  register(source: ContentSource, priority: number = CONTENT_SOURCE_PRIORITY.custom): () => void {
+    this.unregister(source.name);
+    this.entries.push({ source, priority });
+    this.entries.sort((a, b) => a.priority - b.priority);
+    return () => {
+      const entry = this.entries.find(e => e.source === source);
+      if (entry) {
+        this.entries = this.entries.filter(e => e !== entry);
+      }
+    };
+  }
+
+  /**
+   * Remove a source by name
+   */
+  unregister(name: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.source.name !== name);
+    return this.entries.length !== before;
+  }
+
+  /**
+   * Get registered sources with their priorities, in priority order
+   */
+  getEntries(): RegisteredSource[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Get registered sources in priority order
+   */
+  getSources(): ContentSource[] {
+    return this.entries.map(entry => entry.source);
+  }
+
+  /**
+   * Remove all registered sources
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+export const contentSourceRegistry = new ContentSourceRegistry();
+
+export interface DefaultSourceChainOptions {
+  contentFetcher?: (inscriptionId: string) => Promise<any>;
+  preferLaserEyes?: boolean;
+  registry?: ContentSourceRegistry;
+}
+
+/**
+ * Build the default chain: cache → contentFetcher → LaserEyes → registered sources → network
+ */
+export function buildDefaultSourceChain({
+  contentFetcher,
+  preferLaserEyes = true,
+  registry = contentSourceRegistry
+}: DefaultSourceChainOptions = {}): ContentSource[] {
+  const entries: RegisteredSource[] = [
+    { source: createCacheSource(), priority: CONTENT_SOURCE_PRIORITY.cache },
+    { source: createNetworkSource(), priority: CONTENT_SOURCE_PRIORITY.network }
+  ];
+
+  if (contentFetcher) {
+    entries.push({ source: createFetcherSource(contentFetcher), priority: CONTENT_SOURCE_PRIORITY.contentFetcher });
+  }
+
+  if (preferLaserEyes) {
+    entries.push({ source: createLaserEyesSource(), priority: CONTENT_SOURCE_PRIORITY.laserEyes });
+  }
+
+  entries.push(...registry.getEntries());
+
+  // Stable sort keeps built-ins ahead of registered sources with the same priority
+  return entries
+    .map((entry, index) => ({ ...entry, index }))
+    .sort((a, b) => a.priority - b.priority || a.index - b.index)
+    .map(entry => entry.source);
+}
+
+// =================
+// CHAIN EXECUTION
+// =================
+
+/**
+ * Errors are told apart by name, like the DOMExceptions fetch throws for AbortSignal.timeout() and abort()
+ */
+function namedError(name: 'TimeoutError' | 'AbortError', message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+async function runWithTimeout<T>(
+  source: ContentSource,
+  request: ContentSourceRequest,
+  signal?: AbortSignal
+): Promise<T | null> {
+  const controller = new AbortController();
+  let stop!: (error: Error) => void;
+  const stopped = new Promise<never>((_, reject) => {
+    stop = error => {
+      controller.abort();
+      reject(error);
+    };
+  });
+
+  const timeoutId = source.timeout
+    ? setTimeout(() => stop(namedError('TimeoutError', `Content source "${source.name}" did not respond within ${source.timeout}ms`)), source.timeout)
+    : undefined;
+  const onAbort = () => stop(namedError('AbortError', `Loading ${request.inscriptionId} was cancelled`));
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    const attempt = source.fetch({ ...request, signal: controller.signal }) as Promise<any>;
+    // An aborted source may still reject after the race is decided
+    attempt.catch(() => undefined);
+    return await Promise.race([attempt, stopped]);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export interface LoadFromSourcesOptions {
+  onAttemptStart?: (source: ContentSource) => void;
+  onAttempt?: (attempt: ContentSourceAttempt) => void;
+  signal?: AbortSignal; // Cancels the chain and the running source, e.g. when the renderer unmounts
+}
+
+/**
+ * Try each source in order until one produces content, honouring per-source
+ * timeouts and fallthrough rules. Throws the last error when every source fails,
+ * or an AbortError as soon as `options.signal` is aborted.
+ */
+export async function loadFromSources(
+  sources: ContentSource[],
+  request: ContentSourceRequest,
+  options: LoadFromSourcesOptions = {}
+): Promise<ResolvedContent> {
+  let lastError: Error | null = null;
+
+  for (const source of sources) {
+    if (options.signal?.aborted) {
+      throw namedError('AbortError', `Loading ${request.inscriptionId} was cancelled`);
+    }
+
+    const fallthrough = source.fallthrough || 'always';
+    const startTime = Date.now();
+
+    if (source.canHandle && !source.canHandle(request)) {
+      options.onAttempt?.({ source: source.name, status: 'skipped', duration: 0 });
+      continue;
+    }
+
+    options.onAttemptStart?.(source);
+
+    try {
+      const result = await runWithTimeout<ContentSourceResult>(source, request, options.signal);
+      const duration = Date.now() - startTime;
+
+      if (result) {
+        options.onAttempt?.({ source: source.name, status: 'hit', duration });
+        return { ...result, source: source.name };
+      }
+
+      options.onAttempt?.({ source: source.name, status: 'miss', duration });
+      if (fallthrough === 'never') {
+        break;
+      }
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      const message = error?.message || String(error);
+      lastError = error instanceof Error ? error : new Error(message);
+      options.onAttempt?.({
+        source: source.name,
+        status: error?.name === 'TimeoutError' ? 'timeout' : 'error',
+        duration: Date.now() - startTime,
+        error: message
+      });
+      console.warn(`⚠️ Content source "${source.name}" failed for ${request.inscriptionId}:`, message);
+
+      if (fallthrough !== 'always') {
+        break;
+      }
+    }
+  }
+
+  throw lastError || new Error(`No content source returned content for ${request.inscriptionId}`);
+}
+
+export default contentSourceRegistry;
@@ -0,0 +1,145 @@
+/**
+ * Delegate Inscription Resolver
+ * Follows an inscription's `delegate` field to the inscription whose content it displays,
+ * with cycle and depth protection
+ */
+
+import { OrdinalsApiService, ordinalsApi } from './OrdinalsApiService';
+import { cacheManager } from './CacheManager';
+
+export interface DelegateResolution {
+  inscriptionId: string; // The inscription that was requested
+  resolvedId: string; // The inscription whose content is rendered
+  chain: string[]; // Requested id first, resolved id last
+  isDelegated: boolean;
+}
+
+export interface DelegateResolveOptions {
+  maxDepth?: number; // Maximum number of delegate hops to follow
+}
+
+export const DEFAULT_MAX_DELEGATE_DEPTH = 5;
+
+let resolverInstanceCounter = 0;
+
+export class DelegateResolver {
+  private api: OrdinalsApiService;
+  private cacheScope = `delegate-resolver-${++resolverInstanceCounter}:`; // Resolved chains live in the shared 'metadata' namespace
+  private pending: Map<string, Promise<DelegateResolution>> = new Map(); // Only while the lookup is in flight
+
+  constructor(api: OrdinalsApiService = ordinalsApi) {
+    this.api = api;
+  }
+
+  /**
+   * Resolve the delegate chain for an inscription. Metadata lookups that fail are
+   * treated as "no delegate" so content loading is never blocked on metadata.
+   * Cycles and chains deeper than maxDepth reject with a PERMANENT error.
+   */
+  async resolve(inscriptionId: string, options: DelegateResolveOptions = {}): Promise<DelegateResolution> {
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DELEGATE_DEPTH;
+    const key = this.cacheKey(inscriptionId, maxDepth);
+
+    const resolved = cacheManager.get<DelegateResolution>('metadata', key);
+    if (resolved) return resolved;
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = this.walkChain(inscriptionId, maxDepth)
+      .then(resolution => {
+        // Bounded by the namespace's LRU budget and expired with its TTL, so failed lookups are retried
+        cacheManager.set('metadata', key, resolution);
+        return resolution;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Previously resolved chain, if any
+   */
+  getCached(inscriptionId: string, maxDepth: number = DEFAULT_MAX_DELEGATE_DEPTH): DelegateResolution | undefined {
+    return cacheManager.get<DelegateResolution>('metadata', this.cacheKey(inscriptionId, maxDepth));
+  }
+
+  /**
+   * Forget resolved chains
+   */
+  clear(): void {
+    cacheManager.invalidateMemory({ namespace: 'metadata', prefix: this.cacheScope });
+  }
+
+  private cacheKey(inscriptionId: string, maxDepth: number): string {
+    return `${this.cacheScope}${inscriptionId}:${maxDepth}`;
+  }
+
+  private async walkChain(inscriptionId: string, maxDepth: number): Promise<DelegateResolution> {
+    const chain = [inscriptionId];
+    let currentId = inscriptionId;
+
+    while (true) {
+      const delegateId = await this.lookupDelegate(currentId);
+      if (!delegateId) break;
+
+      if (chain.includes(delegateId)) {
+        throw new Error(`PERMANENT: Delegate cycle detected (${[...chain, delegateId].join(' → ')})`);
+      }
+      if (chain.length > maxDepth) {
+        throw new Error(`PERMANENT: Delegate chain for ${inscriptionId} exceeds ${maxDepth} levels`);
+      }
+
+      chain.push(delegateId);
+      currentId = delegateId;
+    }
+
+    if (chain.length > 1) {
+      console.log(`🔗 Resolved delegate chain for ${inscriptionId}:`, chain.join(' → '));
+    }
+
+    return {
+      inscriptionId,
+      resolvedId: currentId,
+      chain,
+      isDelegated: chain.length > 1
+    };
+  }
+
+  private async lookupDelegate(inscriptionId: string): Promise<string | null> {
+    try {
+      const response = await this.api.getInscriptionInfo(inscriptionId);
+      if (!response.success || !response.data) {
+        console.warn(`⚠️ Delegate lookup failed for ${inscriptionId}:`, response.error);
+        return null;
+      }
+      return response.data.delegate || null;
+    } catch (error) {
+      console.warn(`⚠️ Delegate lookup failed for ${inscriptionId}:`, error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const delegateResolver = new DelegateResolver();
+
+const resolversByApi = new WeakMap<OrdinalsApiService, DelegateResolver>([[ordinalsApi, delegateResolver]]);
+
+/**
+ * Resolver bound to an API service, shared by every caller using that service
+ * so delegates are looked up on the same indexer the content comes from
+ */
+export function getDelegateResolver(api: OrdinalsApiService = ordinalsApi): DelegateResolver {
+  let resolver = resolversByApi.get(api);
+  if (!resolver) {
+    resolver = new DelegateResolver(api);
+    resolversByApi.set(api, resolver);
+  }
+  return resolver;
+}
+
+export default delegateResolver;
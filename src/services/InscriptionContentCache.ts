@@ -3,39 +3,158 @@
  * and reduce redundant network requests
  */
 
+import {
+  PersistentContentStore,
+  PersistentContentStoreConfig,
+  PersistentContentInfo,
+  PersistentStoreStats
+} from './PersistentContentStore';
+import { cacheManager, estimateCacheSize } from './CacheManager';
+
 interface CacheEntry {
   data: any;
   timestamp: number;
   contentType?: string;
 }
 
+export interface InscriptionContentCacheOptions {
+  persistent?: boolean | PersistentContentStoreConfig | PersistentContentStore; // Default: true
+  scope?: string; // Key prefix in the shared cache manager, default 'inscription'
+}
+
+export interface CachedContent {
+  blob: Blob;
+  contentType: string;
+  source: 'memory' | 'persistent';
+}
+
 export class InscriptionContentCache {
-  private cache: Map<string, CacheEntry> = new Map();
+  private keys: Set<string> = new Set(); // Insertion order for maxSize eviction
   private maxSize: number;
   private maxAge: number; // in milliseconds
+  private scope: string;
+  private persistent: PersistentContentStore | null;
 
-  constructor(maxSize = 100, maxAgeMinutes = 30) {
+  constructor(maxSize = 100, maxAgeMinutes = 30, options: InscriptionContentCacheOptions = {}) {
     this.maxSize = maxSize;
     this.maxAge = maxAgeMinutes * 60 * 1000;
+    this.scope = `${options.scope || 'inscription'}:`;
+
+    const persistent = options.persistent ?? true;
+    if (persistent instanceof PersistentContentStore) {
+      this.persistent = persistent;
+    } else if (persistent) {
+      this.persistent = new PersistentContentStore(persistent === true ? {} : persistent);
+    } else {
+      this.persistent = null;
+    }
+
+    if (this.persistent) {
+      this.registerPersistentTier(this.persistent);
+    }
+  }
+
+  private cacheKey(key: string): string {
+    return `${this.scope}${key}`;
+  }
+
+  private getCacheEntry(key: string): CacheEntry | undefined {
+    const entry = cacheManager.get<CacheEntry>('content', this.cacheKey(key));
+    if (!entry) {
+      this.keys.delete(key);
+    }
+    return entry;
+  }
+
+  /**
+   * Forward cache manager invalidations to the IndexedDB tier, which stores unscoped keys
+   */
+  private registerPersistentTier(store: PersistentContentStore): void {
+    cacheManager.registerTier({
+      name: `persistent:${this.scope.slice(0, -1)}`,
+      namespaces: ['content'],
+      invalidate: async selector => {
+        const hasCriteria = selector.key !== undefined || selector.prefix !== undefined ||
+          selector.inscriptionId !== undefined || selector.match !== undefined;
+        if (!hasCriteria) {
+          await store.clear();
+          return;
+        }
+
+        if (selector.key !== undefined && selector.prefix === undefined && !selector.match) {
+          if (selector.key.startsWith(this.scope)) {
+            await store.delete(selector.key.slice(this.scope.length));
+          }
+          return;
+        }
+
+        const records = await store.list();
+        const targets = records.map(record => record.key).filter(key => {
+          const scoped = this.cacheKey(key);
+          if (selector.key !== undefined && scoped !== selector.key) return false;
+          if (selector.prefix !== undefined && !scoped.startsWith(selector.prefix)) return false;
+          if (selector.inscriptionId !== undefined && !key.includes(selector.inscriptionId)) return false;
+          return !selector.match || selector.match(scoped);
+        });
+        await Promise.all(targets.map(key => store.delete(key)));
+        return targets.length;
+      },
+      getStats: async () => ({ ...(await store.getStats()) })
+    });
   }
 
   /**
    * Get cached content for an inscription
    */
   get(key: string): any | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
+    const entry = this.getCacheEntry(key);
+    return entry ? entry.data : null;
+  }
+
+  /**
+   * Get the raw memory entry including its content type
+   */
+  getEntry(key: string): { data: any; contentType?: string } | null {
+    const entry = this.getCacheEntry(key);
+    return entry ? { data: entry.data, contentType: entry.contentType } : null;
+  }
+
+  /**
+   * Get inscription content as a Blob, checking memory first and then the
+   * persistent tier. Persistent hits are promoted into memory.
+   */
+  async getContent(key: string): Promise<CachedContent | null> {
+    const entry = this.getEntry(key);
+    if (entry && entry.data instanceof Blob) {
+      return {
+        blob: entry.data,
+        contentType: entry.contentType || entry.data.type || 'application/octet-stream',
+        source: 'memory'
+      };
+    }
+
+    if (!this.persistent) {
       return null;
     }
 
-    // Check if entry has expired
-    if (Date.now() - entry.timestamp > this.maxAge) {
-      this.cache.delete(key);
+    const record = await this.persistent.get(key);
+    if (!record) {
       return null;
     }
 
-    return entry.data;
+    this.set(key, record.blob, record.contentType);
+    return { blob: record.blob, contentType: record.contentType, source: 'persistent' };
+  }
+
+  /**
+   * Store inscription content as a Blob in memory and in the persistent tier.
+   * Only use this for immutable content keyed by inscription id.
+   */
+  async setContent(key: string, blob: Blob, contentType: string): Promise<void> {
+    this.set(key, blob, contentType);
+    if (this.persistent) {
+      await this.persistent.put(key, blob, contentType);
+    }
   }
 
   /**
@@ -43,17 +162,23 @@ export class InscriptionContentCache {
    */
   set(key: string, data: any, contentType?: string): void {
     // If cache is at max size, remove oldest entry
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
+    if (!this.keys.has(key) && this.keys.size >= this.maxSize) {
+      const oldestKey = this.keys.values().next().value;
+      if (oldestKey !== undefined) {
+        this.delete(oldestKey);
       }
     }
 
-    this.cache.set(key, {
+    const entry: CacheEntry = {
       data,
       timestamp: Date.now(),
       contentType
+    };
+    this.keys.delete(key);
+    this.keys.add(key);
+    cacheManager.set('content', this.cacheKey(key), entry, {
+      ttl: this.maxAge,
+      size: estimateCacheSize(data)
     });
   }
 
@@ -61,41 +186,79 @@ export class InscriptionContentCache {
    * Check if key exists in cache (and is not expired)
    */
   has(key: string): boolean {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      return false;
-    }
-
-    // Check if entry has expired
-    if (Date.now() - entry.timestamp > this.maxAge) {
-      this.cache.delete(key);
-      return false;
+    const exists = cacheManager.has('content', this.cacheKey(key));
+    if (!exists) {
+      this.keys.delete(key);
     }
-
-    return true;
+    return exists;
   }
 
   /**
    * Remove specific entry from cache
    */
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    this.keys.delete(key);
+    return cacheManager.delete('content', this.cacheKey(key));
   }
 
   /**
-   * Clear all cached entries
+   * Clear all cached entries (memory only, see clearPersistent)
    */
   clear(): void {
-    this.cache.clear();
+    this.keys.clear();
+    cacheManager.invalidateMemory({ namespace: 'content', prefix: this.scope });
+  }
+
+  // =================
+  // PERSISTENT TIER
+  // =================
+
+  /**
+   * The IndexedDB store backing this cache, or null when persistence is disabled
+   */
+  getPersistentStore(): PersistentContentStore | null {
+    return this.persistent;
+  }
+
+  async getPersistentStats(): Promise<PersistentStoreStats | null> {
+    return this.persistent ? this.persistent.getStats() : null;
+  }
+
+  /**
+   * List persisted entries (without content), most recently accessed first
+   */
+  async listPersistent(): Promise<PersistentContentInfo[]> {
+    return this.persistent ? this.persistent.list() : [];
+  }
+
+  async deletePersistent(key: string): Promise<void> {
+    this.delete(key);
+    if (this.persistent) {
+      await this.persistent.delete(key);
+    }
+  }
+
+  async clearPersistent(): Promise<void> {
+    if (this.persistent) {
+      await this.persistent.clear();
+    }
+  }
+
+  /**
+   * Clear both the memory and persistent tiers
+   */
+  async clearAll(): Promise<void> {
+    this.clear();
+    await this.clearPersistent();
   }
 
   /**
    * Get cache statistics
    */
   getStats(): { size: number; maxSize: number; maxAge: number } {
+    this.keys.forEach(key => this.has(key));
     return {
-      size: this.cache.size,
+      size: this.keys.size,
       maxSize: this.maxSize,
       maxAge: this.maxAge
     };
@@ -108,7 +271,7 @@ export class InscriptionContentCache {
     // Check cache first
     const cached = this.get(url);
     if (cached) {
-      return { data: cached, contentType: this.cache.get(url)?.contentType || 'text/plain' };
+      return { data: cached, contentType: this.getEntry(url)?.contentType || 'text/plain' };
     }
 
     try {
@@ -154,16 +317,7 @@ export class InscriptionContentCache {
    * Clean up expired entries
    */
   cleanup(): void {
-    const now = Date.now();
-    const expiredKeys: string[] = [];
-
-    this.cache.forEach((entry, key) => {
-      if (now - entry.timestamp > this.maxAge) {
-        expiredKeys.push(key);
-      }
-    });
-
-    expiredKeys.forEach(key => this.cache.delete(key));
+    this.keys.forEach(key => this.has(key));
   }
 }
 
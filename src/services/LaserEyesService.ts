@@ -3,6 +3,8 @@
  * Provides inscription content fetching through LaserEyes wallet integration
  */
 
+import { cacheManager } from './CacheManager';
+
 export interface LaserEyesWallet {
   getInscriptionContent(inscriptionId: string): Promise<any>;
   isConnected(): boolean;
@@ -17,7 +19,7 @@ export interface LaserEyesInscriptionContent {
 
 export class LaserEyesService {
   private wallet: LaserEyesWallet | null = null;
-  private cache: Map<string, { data: LaserEyesInscriptionContent; timestamp: number }> = new Map();
+  private cachePrefix = 'lasereyes:'; // Entries live in the shared 'content' namespace
   private cacheMaxAge = 10 * 60 * 1000; // 10 minutes
 
   constructor(wallet?: LaserEyesWallet) {
@@ -56,10 +58,10 @@ export class LaserEyesService {
     }
 
     // Check cache first
-    const cached = this.cache.get(inscriptionId);
-    if (cached && Date.now() - cached.timestamp < this.cacheMaxAge) {
+    const cached = cacheManager.get<LaserEyesInscriptionContent>('content', `${this.cachePrefix}${inscriptionId}`);
+    if (cached) {
       console.log(`🎯 Using cached LaserEyes content for inscription ${inscriptionId}`);
-      return cached.data;
+      return cached;
     }
 
     try {
@@ -102,9 +104,9 @@ export class LaserEyesService {
       };
 
       // Cache the result
-      this.cache.set(inscriptionId, {
-        data: inscriptionContent,
-        timestamp: Date.now()
+      cacheManager.set('content', `${this.cachePrefix}${inscriptionId}`, inscriptionContent, {
+        ttl: this.cacheMaxAge,
+        size: typeof content === 'string' ? content.length * 2 : content.byteLength
       });
 
       console.log(`✅ Successfully fetched inscription content via LaserEyes for: ${inscriptionId}`);
@@ -121,9 +123,9 @@ export class LaserEyesService {
    */
   clearCache(inscriptionId?: string) {
     if (inscriptionId) {
-      this.cache.delete(inscriptionId);
+      cacheManager.delete('content', `${this.cachePrefix}${inscriptionId}`);
     } else {
-      this.cache.clear();
+      cacheManager.invalidateMemory({ namespace: 'content', prefix: this.cachePrefix });
     }
   }
 
@@ -131,9 +133,10 @@ export class LaserEyesService {
    * Get cache statistics
    */
   getCacheStats() {
+    const entries = cacheManager.keys('content', this.cachePrefix).map(key => key.slice(this.cachePrefix.length));
     return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.keys())
+      size: entries.length,
+      entries
     };
   }
 }
@@ -0,0 +1,137 @@
+/**
+ * Reference-counted registry for Blob object URLs
+ * Renderers showing the same inscription share one URL, which is revoked
+ * shortly after the last holder releases it
+ */
+
+export interface ObjectUrlRegistryConfig {
+  revokeDelay?: number; // ms to keep an unreferenced URL alive for quick remounts (virtual scrolling)
+}
+
+export interface ObjectUrlStats {
+  urls: number;
+  references: number;
+  bytes: number;
+  created: number;
+  revoked: number;
+}
+
+interface ObjectUrlEntry {
+  key: string;
+  url: string;
+  blob: Blob;
+  refs: number;
+  revokeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export class ObjectUrlRegistry {
+  private entries: Map<string, ObjectUrlEntry> = new Map();
+  private keysByUrl: Map<string, string> = new Map();
+  private revokeDelay: number;
+  private created = 0;
+  private revoked = 0;
+
+  constructor(config: ObjectUrlRegistryConfig = {}) {
+    this.revokeDelay = config.revokeDelay ?? 1000;
+  }
+
+  /**
+   * Get an object URL for a blob and take a reference to it.
+   * Every acquire must be paired with a release.
+   */
+  acquire(key: string, blob: Blob): string {
+    const existing = this.entries.get(key);
+
+    // Reuse only when the key still refers to the same bytes
+    if (existing && (existing.blob === blob || (existing.blob.size === blob.size && existing.blob.type === blob.type))) {
+      if (existing.revokeTimer) {
+        clearTimeout(existing.revokeTimer);
+        existing.revokeTimer = null;
+      }
+      existing.refs++;
+      return existing.url;
+    }
+
+    if (existing) {
+      // Holders of the old URL keep it until they release; only the key moves on
+      this.entries.delete(key);
+      this.entries.set(`${key}#${existing.url}`, { ...existing, key: `${key}#${existing.url}` });
+      this.keysByUrl.set(existing.url, `${key}#${existing.url}`);
+    }
+
+    const url = URL.createObjectURL(blob);
+    this.created++;
+    this.entries.set(key, { key, url, blob, refs: 1, revokeTimer: null });
+    this.keysByUrl.set(url, key);
+    return url;
+  }
+
+  /**
+   * Drop a reference by key or by the URL returned from acquire
+   */
+  release(keyOrUrl: string): void {
+    const key = this.keysByUrl.get(keyOrUrl) ?? keyOrUrl;
+    const entry = this.entries.get(key);
+    if (!entry || entry.refs === 0) return;
+
+    entry.refs--;
+    if (entry.refs > 0) return;
+
+    if (this.revokeDelay <= 0) {
+      this.revoke(entry);
+      return;
+    }
+
+    entry.revokeTimer = setTimeout(() => {
+      entry.revokeTimer = null;
+      if (entry.refs === 0) {
+        this.revoke(entry);
+      }
+    }, this.revokeDelay);
+  }
+
+  /**
+   * Current URL for a key without taking a reference
+   */
+  get(key: string): string | null {
+    return this.entries.get(key)?.url || null;
+  }
+
+  getStats(): ObjectUrlStats {
+    let references = 0;
+    let bytes = 0;
+    this.entries.forEach(entry => {
+      references += entry.refs;
+      bytes += entry.blob.size;
+    });
+    return {
+      urls: this.entries.size,
+      references,
+      bytes,
+      created: this.created,
+      revoked: this.revoked
+    };
+  }
+
+  /**
+   * Revoke every URL regardless of outstanding references (e.g. on app teardown)
+   */
+  revokeAll(): void {
+    Array.from(this.entries.values()).forEach(entry => this.revoke(entry));
+  }
+
+  private revoke(entry: ObjectUrlEntry): void {
+    if (entry.revokeTimer) {
+      clearTimeout(entry.revokeTimer);
+    }
+    URL.revokeObjectURL(entry.url);
+    this.entries.delete(entry.key);
+    this.keysByUrl.delete(entry.url);
+    this.revoked++;
+  }
+}
+
+// Singleton instance shared by all renderers
+export const objectUrlRegistry = new ObjectUrlRegistry();
+
+export default ObjectUrlRegistry;
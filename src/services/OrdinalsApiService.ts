@@ -1,44 +1,116 @@
 /**
  * Comprehensive Ordinals API Service
- * Handles both user's node API endpoints and ordinals.com recursive endpoints
+ * Routes requests across any number of endpoints (user's node, ordinals.com, mirrors)
+ * with health scoring, circuit breaking and automatic failover
  * Based on the official Ordinals API documentation
  */
 
 import { InscriptionData } from '../types/inscription';
+import { SchemaIssue, SchemaNode, describeSchema, validateSchema } from '../utils/schemaValidation';
+import { ordinalsApiSchemas } from './ordinalsApiSchemas';
+import { cacheManager } from './CacheManager';
+import { requestCoalescer } from '../utils/requestCoalescer';
+import { isRecursivePath, normalizeRecursivePath } from '../utils/recursionBridge';
 
 export interface ApiEndpoint {
   baseUrl: string;
   timeout?: number;
   headers?: Record<string, string>;
+  name?: string; // Reported as ApiResponse.source, defaults to baseUrl
+  weight?: number; // Relative preference when routing, defaults to 1
+  recursiveOnly?: boolean; // Only route recursive endpoints (/r/, /content/, ...) here
 }
 
 export interface ApiResponse<T = any> {
   data: T;
   success: boolean;
   error?: string;
-  source: 'user-node' | 'ordinals.com';
+  source: string; // Name of the endpoint that served the request ('user-node', 'ordinals.com', ...)
+  schemaIssues?: SchemaIssue[]; // Non-fatal schema drift detected in the response
+  errorCode?: ApiErrorCode; // Why a failed request failed
+  status?: number; // HTTP status when errorCode is 'http'
 }
 
+/**
+ * 'http': the endpoint answered with an error status
+ * 'network': timeout, network or parse failure
+ * 'schema': the response did not match its schema
+ * 'unsupported': the request was refused before reaching an endpoint
+ * 'unavailable': no endpoint was eligible to serve the request
+ */
+export type ApiErrorCode = 'http' | 'network' | 'schema' | 'unsupported' | 'unavailable';
+
+export interface SchemaDriftReport {
+  endpoint: string;
+  source: string;
+  schema: string;
+  issues: SchemaIssue[];
+  timestamp: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EndpointHealth {
+  name: string;
+  baseUrl: string;
+  weight: number;
+  score: number;
+  circuit: CircuitState;
+  successRate: number; // Exponentially weighted, 0-1
+  averageLatency: number; // Exponentially weighted, in milliseconds
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastChecked: number | null;
+  lastError?: string;
+}
+
+export interface OrdinalsApiServiceConfig {
+  endpoints?: ApiEndpoint[]; // Replaces the default user node + ordinals.com pair
+  healthCheckInterval?: number; // Milliseconds between /status probes; 0 disables periodic probing
+  failureThreshold?: number; // Consecutive failures before an endpoint's circuit opens
+  circuitResetTimeout?: number; // Milliseconds an open circuit waits before a half-open trial
+  validateResponses?: boolean; // Validate JSON responses against the known schemas, defaults to true
+  onSchemaDrift?: (report: SchemaDriftReport) => void;
+}
+
+// =================
+// RESPONSE MODELS
+// =================
+
 export interface InscriptionApiData {
   id: string;
   number?: number;
-  address?: string;
-  content_type?: string;
-  content_length?: number;
-  timestamp?: number;
-  genesis_height?: number;
-  genesis_fee?: number;
+  address?: string | null;
+  charms?: string[];
+  child_count?: number;
+  children?: string[]; // Child inscription ids
+  content_type?: string | null;
+  content_length?: number | null;
+  effective_content_type?: string | null; // Content type after delegate resolution
+  delegate?: string | null; // Inscription id whose content this inscription displays
+  fee?: number;
+  height?: number;
+  genesis_height?: number; // Older ord releases
+  genesis_fee?: number; // Older ord releases
+  metaprotocol?: string | null;
+  next?: string | null;
+  previous?: string | null;
   output?: string;
-  output_value?: number;
-  sat?: number;
+  output_value?: number | null;
+  value?: number | null;
+  parents?: string[]; // Parent inscription ids
+  rune?: string | null; // Spaced rune etched alongside the inscription
+  sat?: number | null;
   satpoint?: string;
-  charms?: string[];
+  timestamp?: number;
 }
 
 export interface InscriptionsListResponse {
   ids?: string[];
   inscriptions?: InscriptionApiData[];
   children?: InscriptionApiData[];
+  parents?: InscriptionApiData[];
   more?: boolean;
   page?: number;
   page_index?: number;
@@ -46,113 +118,410 @@ export interface InscriptionsListResponse {
   next?: number | null;
 }
 
+/** GET /r/children/<ID>, /r/parents/<ID> and /r/sat/<SAT> */
+export interface InscriptionIdsPage {
+  ids: string[];
+  more: boolean;
+  page: number;
+}
+
+/** GET /r/children/<ID>/inscriptions */
+export interface ChildInscriptionsPage {
+  children: InscriptionApiData[];
+  more: boolean;
+  page: number;
+}
+
+/** GET /r/parents/<ID>/inscriptions */
+export interface ParentInscriptionsPage {
+  parents: InscriptionApiData[];
+  more: boolean;
+  page: number;
+}
+
+/** GET /r/sat/<SAT>/at/<INDEX> */
+export interface SatInscriptionResponse {
+  id: string | null;
+}
+
 export interface BlockResponse {
   hash: string;
   height: number;
-  inscriptions: string[];
-  transactions: string[];
-  target?: string;
   best_height?: number;
+  inscriptions?: string[];
+  runes?: string[];
+  target?: string;
+  transactions?: any[]; // Transaction objects on current ord, txids on older releases
+}
+
+/** GET /r/blockinfo/<HEIGHT_OR_HASH> */
+export interface BlockInfo {
+  hash: string;
+  height: number;
+  timestamp: number;
+  average_fee?: number;
+  average_fee_rate?: number;
+  average_size?: number;
+  bits?: number;
+  chainwork?: string;
+  confirmations?: number;
+  difficulty?: number;
+  feerate_percentiles?: number[];
+  max_fee?: number;
+  max_fee_rate?: number;
+  max_tx_size?: number;
+  median_fee?: number;
+  median_time?: number | null;
+  merkle_root?: string;
+  min_fee?: number;
+  min_fee_rate?: number;
+  next_block?: string | null;
+  nonce?: number;
+  previous_block?: string | null;
+  subsidy?: number;
+  target?: string;
+  total_fee?: number;
+  total_size?: number;
+  total_weight?: number;
+  transaction_count?: number;
+  version?: number;
+}
+
+export interface RuneBalance {
+  amount: number;
+  divisibility: number;
+  symbol?: string | null;
+}
+
+/** GET /r/utxo/<OUTPOINT> */
+export interface UtxoInfo {
+  value: number;
+  inscriptions?: string[] | null;
+  runes?: Record<string, RuneBalance> | null;
+  sat_ranges?: [number, number][] | null;
+}
+
+/** GET /output/<OUTPOINT> */
+export interface OutputResponse extends UtxoInfo {
+  address?: string | null;
+  confirmations?: number;
+  indexed?: boolean;
+  outpoint?: string;
+  script_pubkey?: string;
+  spent?: boolean;
+  transaction?: string;
 }
 
 export interface AddressResponse {
   outputs: string[];
-  inscriptions: string[];
+  inscriptions?: string[] | null;
   sat_balance: number;
-  runes_balances: any[];
+  runes_balances?: any[] | null;
+}
+
+/** GET /status */
+export interface StatusResponse {
+  address_index?: boolean;
+  blessed_inscriptions?: number;
+  chain?: string;
+  cursed_inscriptions?: number;
+  height?: number | null;
+  initial_sync_time?: { secs: number; nanos: number };
+  inscriptions?: number;
+  lost_sats?: number;
+  minimum_rune_for_next_block?: string | null;
+  rune_index?: boolean;
+  runes?: number;
+  sat_index?: boolean;
+  started?: string;
+  transaction_index?: boolean;
+  unrecoverably_reorged?: boolean;
+  uptime?: { secs: number; nanos: number };
+}
+
+/** GET /content/<ID> and /r/undelegated-content/<ID> */
+export interface InscriptionContentResponse {
+  blob: Blob;
+  contentType: string;
+  size: number;
+}
+
+interface EndpointState {
+  endpoint: ApiEndpoint;
+  name: string;
+  circuit: CircuitState;
+  openedAt: number;
+  probing: boolean; // A half-open trial request is in flight
+  successRate: number;
+  averageLatency: number;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastChecked: number | null;
+  lastError?: string;
+}
+
+interface RequestPlan<T> {
+  parse: (response: Response) => Promise<T>;
+  schema?: SchemaNode;
+  cacheable: boolean;
+}
+
+const HEALTH_SMOOTHING = 0.3; // Weight of the newest sample in the moving averages
+/** Statuses that say something about the endpoint rather than the request */
+const isEndpointFailureStatus = (status: number) => status >= 500 || status === 429 || status === 408;
+const MAX_DRIFT_REPORTS = 50;
+
+let apiInstanceCounter = 0;
+
+interface CachedApiResponse {
+  data: any;
+  source: string;
+  schemaIssues?: SchemaIssue[];
 }
 
 export class OrdinalsApiService {
-  private userNodeEndpoint: ApiEndpoint;
-  private ordinalsEndpoint: ApiEndpoint;
-  private cache: Map<string, { data: any; timestamp: number }> = new Map();
+  private endpoints: EndpointState[] = [];
+  private cacheScope = `ordinals-api-${++apiInstanceCounter}:`; // Responses live in the shared 'metadata' namespace
   private cacheMaxAge = 5 * 60 * 1000; // 5 minutes
+  private failureThreshold: number;
+  private circuitResetTimeout: number;
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private validateResponses: boolean;
+  private onSchemaDrift?: (report: SchemaDriftReport) => void;
+  private driftReports: SchemaDriftReport[] = [];
+  private reportedDrift: Set<string> = new Set();
 
   constructor(
     userNodeUrl: string = 'http://localhost:80',
-    ordinalsUrl: string = 'https://ordinals.com'
+    ordinalsUrl: string = 'https://ordinals.com',
+    config: OrdinalsApiServiceConfig = {}
   ) {
-    this.userNodeEndpoint = {
-      baseUrl: userNodeUrl,
-      timeout: 10000,
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json'
-      }
-    };
+    this.failureThreshold = config.failureThreshold ?? 3;
+    this.circuitResetTimeout = config.circuitResetTimeout ?? 30000;
+    this.validateResponses = config.validateResponses ?? true;
+    this.onSchemaDrift = config.onSchemaDrift;
 
-    this.ordinalsEndpoint = {
-      baseUrl: ordinalsUrl,
-      timeout: 15000,
-      headers: {
-        'Accept': 'application/json'
+    this.setEndpoints(config.endpoints || [
+      {
+        name: 'user-node',
+        baseUrl: userNodeUrl,
+        timeout: 10000,
+        weight: 2, // Prefer the user's own node while it is healthy
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json'
+        }
+      },
+      {
+        name: 'ordinals.com',
+        baseUrl: ordinalsUrl,
+        timeout: 15000,
+        recursiveOnly: true,
+        headers: {
+          'Accept': 'application/json'
+        }
       }
-    };
+    ]);
+
+    if (config.healthCheckInterval) {
+      this.startHealthChecks(config.healthCheckInterval);
+    }
   }
 
   /**
-   * Generic HTTP request handler with fallback logic
+   * JSON request validated against a response schema
    */
   private async makeRequest<T>(
     endpoint: string,
-    useUserNode: boolean = true,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    schema?: SchemaNode
+  ): Promise<ApiResponse<T>> {
+    return this.routeRequest<T>(endpoint, options, {
+      parse: response => response.json(),
+      schema,
+      cacheable: true
+    });
+  }
+
+  /**
+   * Raw content request; bodies are not cached here since the content caches own them
+   */
+  private async makeContentRequest(endpoint: string): Promise<ApiResponse<InscriptionContentResponse>> {
+    return this.routeRequest<InscriptionContentResponse>(endpoint, { headers: { 'Accept': '*/*' } }, {
+      parse: async response => {
+        const blob = await response.blob();
+        return {
+          blob,
+          contentType: response.headers.get('content-type') || blob.type || 'application/octet-stream',
+          size: blob.size
+        };
+      },
+      cacheable: false
+    });
+  }
+
+  /**
+   * Generic HTTP request handler that routes to the healthiest endpoint
+   * and fails over through the remaining eligible endpoints
+   */
+  private async routeRequest<T>(
+    endpoint: string,
+    options: RequestInit,
+    plan: RequestPlan<T>
   ): Promise<ApiResponse<T>> {
-    const cacheKey = `${useUserNode ? 'node' : 'ordinals'}:${endpoint}`;
-    
+    const cacheKey = `${this.cacheScope}${options.method || 'GET'}:${endpoint}:${options.body || ''}`;
+
     // Check cache first
-    const cached = this.cache.get(cacheKey);
-    if (cached && (Date.now() - cached.timestamp) < this.cacheMaxAge) {
+    const cached = plan.cacheable ? cacheManager.get<CachedApiResponse>('metadata', cacheKey) : undefined;
+    if (cached) {
       return {
         data: cached.data,
         success: true,
-        source: useUserNode ? 'user-node' : 'ordinals.com'
+        source: cached.source,
+        schemaIssues: cached.schemaIssues
       };
     }
 
-    const config = useUserNode ? this.userNodeEndpoint : this.ordinalsEndpoint;
-    const url = `${config.baseUrl}${endpoint}`;
+    const candidates = this.getCandidates(endpoint);
+    if (candidates.length === 0) {
+      return {
+        data: null as T,
+        success: false,
+        error: 'No healthy endpoint available for this request',
+        errorCode: 'unavailable',
+        source: 'none'
+      };
+    }
 
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...config.headers,
-          ...options.headers
-        },
-        signal: AbortSignal.timeout(config.timeout || 10000)
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    let lastError = 'No healthy endpoint available for this request';
+    let lastCode: ApiErrorCode = 'unavailable';
+    let lastStatus: number | undefined;
+    let lastSource = candidates[0].name;
+
+    for (const state of candidates) {
+      // A half-open circuit admits a single trial request at a time
+      if (state.circuit === 'half-open') {
+        if (state.probing) continue;
+        state.probing = true;
       }
 
-      const data = await response.json();
-      
-      // Cache the response
-      this.cache.set(cacheKey, { data, timestamp: Date.now() });
+      const config = state.endpoint;
+      const url = `${config.baseUrl}${endpoint}`;
+      const startTime = Date.now();
+      lastSource = state.name;
 
-      return {
-        data,
-        success: true,
-        source: useUserNode ? 'user-node' : 'ordinals.com'
-      };
-    } catch (error) {
-      console.warn(`Failed to fetch from ${useUserNode ? 'user node' : 'ordinals.com'}:`, error);
-      
-      // If user node fails, try ordinals.com as fallback for recursive endpoints
-      if (useUserNode && this.isRecursiveEndpoint(endpoint)) {
-        console.log('Trying ordinals.com as fallback for recursive endpoint...');
-        return this.makeRequest<T>(endpoint, false, options);
+      try {
+        const response = await requestCoalescer.fetch(url, {
+          ...options,
+          headers: {
+            ...config.headers,
+            ...options.headers
+          },
+          signal: AbortSignal.timeout(config.timeout || 10000)
+        });
+
+        if (!response.ok) {
+          const error = `HTTP ${response.status}: ${response.statusText}`;
+          if (isEndpointFailureStatus(response.status)) {
+            lastError = error;
+            lastCode = 'http';
+            lastStatus = response.status;
+            this.recordFailure(state, error);
+            console.warn(`Failed to fetch ${endpoint} from ${state.name}: ${error}`);
+            continue;
+          }
+          // Client errors, such as an unindexed inscription, go straight back without failover
+          this.recordSuccess(state, Date.now() - startTime);
+          return {
+            data: null as T,
+            success: false,
+            error,
+            errorCode: 'http',
+            status: response.status,
+            source: state.name
+          };
+        }
+
+        const data = await plan.parse(response);
+
+        // Malformed data is treated like a failed request so the next endpoint gets a chance
+        const schemaIssues = plan.schema ? this.checkSchema(endpoint, state.name, plan.schema, data) : undefined;
+        const schemaError = schemaIssues?.find(issue => issue.severity === 'error');
+        if (schemaError) {
+          lastError = `${endpoint} response does not match ${describeSchema(plan.schema!)} (${schemaError.path}: ${schemaError.message})`;
+          lastCode = 'schema';
+          lastStatus = undefined;
+          this.recordFailure(state, lastError);
+          console.warn(`Failed to fetch ${endpoint} from ${state.name}: ${lastError}`);
+          continue;
+        }
+
+        this.recordSuccess(state, Date.now() - startTime);
+
+        // Cache the response
+        if (plan.cacheable) {
+          cacheManager.set<CachedApiResponse>('metadata', cacheKey, { data, source: state.name, schemaIssues }, {
+            ttl: this.cacheMaxAge
+          });
+        }
+
+        return {
+          data,
+          success: true,
+          source: state.name,
+          schemaIssues
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        lastCode = 'network';
+        lastStatus = undefined;
+        this.recordFailure(state, lastError);
+        console.warn(`Failed to fetch ${endpoint} from ${state.name}:`, error);
       }
+    }
 
-      return {
-        data: null as T,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        source: useUserNode ? 'user-node' : 'ordinals.com'
-      };
+    return {
+      data: null as T,
+      success: false,
+      error: lastError,
+      errorCode: lastCode,
+      status: lastStatus,
+      source: lastSource
+    };
+  }
+
+  /**
+   * Validate a response and report any drift. Returns undefined when validation is disabled.
+   */
+  private checkSchema(endpoint: string, source: string, schema: SchemaNode, data: unknown): SchemaIssue[] | undefined {
+    if (!this.validateResponses) return undefined;
+
+    const { issues } = validateSchema(schema, data);
+    if (issues.length === 0) return issues;
+
+    const report: SchemaDriftReport = {
+      endpoint,
+      source,
+      schema: describeSchema(schema),
+      issues,
+      timestamp: Date.now()
+    };
+
+    this.driftReports.push(report);
+    if (this.driftReports.length > MAX_DRIFT_REPORTS) {
+      this.driftReports.shift();
+    }
+
+    // Log each distinct drift once per source and schema instead of on every request
+    const signature = `${source}:${report.schema}:${issues.map(issue => `${issue.severity}@${issue.path.replace(/\[\d+\]/g, '[]')}`).join(',')}`;
+    if (!this.reportedDrift.has(signature)) {
+      this.reportedDrift.add(signature);
+      console.warn(`🧬 Schema drift in ${endpoint} from ${source}:`, issues);
     }
+
+    this.onSchemaDrift?.(report);
+    return issues;
   }
 
   /**
@@ -170,6 +539,180 @@ export class OrdinalsApiService {
     return recursivePatterns.some(pattern => endpoint.includes(pattern));
   }
 
+  // =================
+  // ENDPOINT ROUTING & HEALTH
+  // =================
+
+  /**
+   * Eligible endpoints for a path, healthiest first. Open circuits are skipped
+   * until their reset timeout elapses, after which one half-open trial is allowed
+   * and the endpoint is skipped again while that trial is in flight.
+   */
+  private getCandidates(endpoint: string): EndpointState[] {
+    const isRecursive = this.isRecursiveEndpoint(endpoint);
+    const now = Date.now();
+
+    return this.endpoints
+      .filter(state => isRecursive || !state.endpoint.recursiveOnly)
+      .filter(state => {
+        if (state.circuit === 'half-open') return !state.probing;
+        if (state.circuit !== 'open') return true;
+        if (now - state.openedAt >= this.circuitResetTimeout) {
+          state.circuit = 'half-open';
+          return true;
+        }
+        return false;
+      })
+      .sort((a, b) => this.scoreOf(b) - this.scoreOf(a));
+  }
+
+  /**
+   * Routing score: weight scaled by recent success rate and penalized by latency
+   */
+  private scoreOf(state: EndpointState): number {
+    const weight = state.endpoint.weight ?? 1;
+    return weight * state.successRate / (1 + state.averageLatency / 1000);
+  }
+
+  private recordSuccess(state: EndpointState, latency: number): void {
+    state.totalRequests++;
+    state.consecutiveFailures = 0;
+    state.successRate = state.successRate * (1 - HEALTH_SMOOTHING) + HEALTH_SMOOTHING;
+    state.averageLatency = state.totalRequests === 1
+      ? latency
+      : state.averageLatency * (1 - HEALTH_SMOOTHING) + latency * HEALTH_SMOOTHING;
+    state.lastChecked = Date.now();
+    state.lastError = undefined;
+    state.circuit = 'closed';
+    state.probing = false;
+  }
+
+  private recordFailure(state: EndpointState, error: string): void {
+    state.totalRequests++;
+    state.totalFailures++;
+    state.consecutiveFailures++;
+    state.successRate = state.successRate * (1 - HEALTH_SMOOTHING);
+    state.lastChecked = Date.now();
+    state.lastError = error;
+    state.probing = false;
+
+    // A failed half-open trial re-opens immediately; otherwise open once the threshold is hit
+    if (state.circuit === 'half-open' || state.consecutiveFailures >= this.failureThreshold) {
+      if (state.circuit !== 'open') {
+        console.warn(`🔌 Circuit opened for endpoint ${state.name} after ${state.consecutiveFailures} consecutive failures`);
+      }
+      state.circuit = 'open';
+      state.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Probe every endpoint's /status route and update its health
+   */
+  async checkHealth(): Promise<EndpointHealth[]> {
+    await Promise.allSettled(this.endpoints.map(async (state) => {
+      const startTime = Date.now();
+      try {
+        const response = await fetch(`${state.endpoint.baseUrl}/status`, {
+          headers: state.endpoint.headers,
+          signal: AbortSignal.timeout(state.endpoint.timeout || 10000)
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        this.recordSuccess(state, Date.now() - startTime);
+      } catch (error) {
+        this.recordFailure(state, error instanceof Error ? error.message : 'Health probe failed');
+      }
+    }));
+
+    return this.getEndpointHealth();
+  }
+
+  /**
+   * Start periodic /status probes
+   */
+  startHealthChecks(interval: number = 60000): void {
+    this.stopHealthChecks();
+    this.healthCheckTimer = setInterval(() => {
+      this.checkHealth().catch(error => console.warn('Endpoint health check failed:', error));
+    }, interval);
+  }
+
+  /**
+   * Stop periodic /status probes
+   */
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Current health of every configured endpoint, healthiest first
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    return this.endpoints
+      .map(state => ({
+        name: state.name,
+        baseUrl: state.endpoint.baseUrl,
+        weight: state.endpoint.weight ?? 1,
+        score: state.circuit === 'open' ? 0 : this.scoreOf(state),
+        circuit: state.circuit,
+        successRate: state.successRate,
+        averageLatency: state.averageLatency,
+        consecutiveFailures: state.consecutiveFailures,
+        totalRequests: state.totalRequests,
+        totalFailures: state.totalFailures,
+        lastChecked: state.lastChecked,
+        lastError: state.lastError
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Replace all endpoints (health history is reset)
+   */
+  setEndpoints(endpoints: ApiEndpoint[]): void {
+    this.endpoints = endpoints.map(endpoint => this.createEndpointState(endpoint));
+    this.clearCache();
+  }
+
+  /**
+   * Add an endpoint, replacing any existing endpoint with the same name
+   */
+  addEndpoint(endpoint: ApiEndpoint): void {
+    const state = this.createEndpointState(endpoint);
+    this.endpoints = this.endpoints.filter(existing => existing.name !== state.name);
+    this.endpoints.push(state);
+  }
+
+  /**
+   * Remove an endpoint by name or base URL
+   */
+  removeEndpoint(nameOrUrl: string): boolean {
+    const before = this.endpoints.length;
+    this.endpoints = this.endpoints.filter(state => state.name !== nameOrUrl && state.endpoint.baseUrl !== nameOrUrl);
+    return this.endpoints.length !== before;
+  }
+
+  private createEndpointState(endpoint: ApiEndpoint): EndpointState {
+    return {
+      endpoint: { ...endpoint },
+      name: endpoint.name || endpoint.baseUrl,
+      circuit: 'closed',
+      openedAt: 0,
+      probing: false,
+      successRate: 1,
+      averageLatency: 0,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      lastChecked: null
+    };
+  }
+
   // =================
   // API ENDPOINTS (User's Node)
   // =================
@@ -179,7 +722,7 @@ export class OrdinalsApiService {
    * List all assets of an address
    */
   async getAddressAssets(address: string): Promise<ApiResponse<AddressResponse>> {
-    return this.makeRequest<AddressResponse>(`/address/${address}`);
+    return this.makeRequest<AddressResponse>(`/address/${address}`, {}, ordinalsApiSchemas.address);
   }
 
   /**
@@ -187,7 +730,7 @@ export class OrdinalsApiService {
    * Returns info about the specified block
    */
   async getBlock(blockHashOrHeight: string | number): Promise<ApiResponse<BlockResponse>> {
-    return this.makeRequest<BlockResponse>(`/block/${blockHashOrHeight}`);
+    return this.makeRequest<BlockResponse>(`/block/${blockHashOrHeight}`, {}, ordinalsApiSchemas.block);
   }
 
   /**
@@ -195,7 +738,7 @@ export class OrdinalsApiService {
    * Returns the height of the latest block
    */
   async getBlockCount(): Promise<ApiResponse<number>> {
-    return this.makeRequest<number>('/blockcount');
+    return this.makeRequest<number>('/blockcount', {}, ordinalsApiSchemas.number);
   }
 
   /**
@@ -211,7 +754,7 @@ export class OrdinalsApiService {
    * Fetch details about a specific inscription by its ID
    */
   async getInscription(inscriptionId: string): Promise<ApiResponse<InscriptionApiData>> {
-    return this.makeRequest<InscriptionApiData>(`/inscription/${inscriptionId}`);
+    return this.makeRequest<InscriptionApiData>(`/inscription/${inscriptionId}`, {}, ordinalsApiSchemas.inscription);
   }
 
   /**
@@ -220,7 +763,7 @@ export class OrdinalsApiService {
    */
   async getInscriptions(page?: number): Promise<ApiResponse<InscriptionsListResponse>> {
     const endpoint = page !== undefined ? `/inscriptions/${page}` : '/inscriptions';
-    return this.makeRequest<InscriptionsListResponse>(endpoint);
+    return this.makeRequest<InscriptionsListResponse>(endpoint, {}, ordinalsApiSchemas.inscriptionsList);
   }
 
   /**
@@ -228,7 +771,7 @@ export class OrdinalsApiService {
    * Pagination for inscriptions
    */
   async getInscriptionsPage(page: number): Promise<ApiResponse<InscriptionsListResponse>> {
-    return this.makeRequest<InscriptionsListResponse>(`/inscriptions/${page}`);
+    return this.makeRequest<InscriptionsListResponse>(`/inscriptions/${page}`, {}, ordinalsApiSchemas.inscriptionsList);
   }
 
   /**
@@ -236,7 +779,7 @@ export class OrdinalsApiService {
    * Get inscriptions for a specific block
    */
   async getInscriptionsInBlock(blockHeight: number): Promise<ApiResponse<InscriptionsListResponse>> {
-    return this.makeRequest<InscriptionsListResponse>(`/inscriptions/block/${blockHeight}`);
+    return this.makeRequest<InscriptionsListResponse>(`/inscriptions/block/${blockHeight}`, {}, ordinalsApiSchemas.inscriptionsList);
   }
 
   /**
@@ -244,26 +787,26 @@ export class OrdinalsApiService {
    * Fetch details for a list of inscription IDs
    */
   async getInscriptionsByIds(inscriptionIds: string[]): Promise<ApiResponse<InscriptionApiData[]>> {
-    return this.makeRequest<InscriptionApiData[]>('/inscriptions', true, {
+    return this.makeRequest<InscriptionApiData[]>('/inscriptions', {
       method: 'POST',
       body: JSON.stringify(inscriptionIds)
-    });
+    }, ordinalsApiSchemas.inscriptionList);
   }
 
   /**
    * GET /output/<OUTPUT>
    * Returns information about a UTXO, including inscriptions within it
    */
-  async getOutput(output: string): Promise<ApiResponse<any>> {
-    return this.makeRequest(`/output/${output}`);
+  async getOutput(output: string): Promise<ApiResponse<OutputResponse>> {
+    return this.makeRequest<OutputResponse>(`/output/${output}`, {}, ordinalsApiSchemas.output);
   }
 
   /**
    * GET /status
    * Returns details about the server installation and index
    */
-  async getStatus(): Promise<ApiResponse<any>> {
-    return this.makeRequest('/status');
+  async getStatus(): Promise<ApiResponse<StatusResponse>> {
+    return this.makeRequest<StatusResponse>('/status', {}, ordinalsApiSchemas.status);
   }
 
   // =================
@@ -275,7 +818,15 @@ export class OrdinalsApiService {
    * Latest block hash
    */
   async getLatestBlockHash(): Promise<ApiResponse<string>> {
-    return this.makeRequest<string>('/r/blockhash');
+    return this.makeRequest<string>('/r/blockhash', {}, ordinalsApiSchemas.string);
+  }
+
+  /**
+   * GET /r/blockhash/<HEIGHT>
+   * Block hash at the given height
+   */
+  async getBlockHashAtHeight(height: number): Promise<ApiResponse<string>> {
+    return this.makeRequest<string>(`/r/blockhash/${height}`, {}, ordinalsApiSchemas.string);
   }
 
   /**
@@ -283,7 +834,15 @@ export class OrdinalsApiService {
    * Latest block height
    */
   async getLatestBlockHeight(): Promise<ApiResponse<number>> {
-    return this.makeRequest<number>('/r/blockheight');
+    return this.makeRequest<number>('/r/blockheight', {}, ordinalsApiSchemas.number);
+  }
+
+  /**
+   * GET /r/blockinfo/<HEIGHT_OR_HASH>
+   * Block statistics and header fields
+   */
+  async getBlockInfo(heightOrHash: string | number): Promise<ApiResponse<BlockInfo>> {
+    return this.makeRequest<BlockInfo>(`/r/blockinfo/${heightOrHash}`, {}, ordinalsApiSchemas.blockInfo);
   }
 
   /**
@@ -291,29 +850,29 @@ export class OrdinalsApiService {
    * UNIX timestamp of latest block
    */
   async getLatestBlockTime(): Promise<ApiResponse<number>> {
-    return this.makeRequest<number>('/r/blocktime');
+    return this.makeRequest<number>('/r/blocktime', {}, ordinalsApiSchemas.number);
   }
 
   /**
    * GET /r/children/<INSCRIPTION_ID>
    * The first 100 child inscription ids
    */
-  async getInscriptionChildren(inscriptionId: string, page?: number): Promise<ApiResponse<InscriptionsListResponse>> {
+  async getInscriptionChildren(inscriptionId: string, page?: number): Promise<ApiResponse<InscriptionIdsPage>> {
     const endpoint = page !== undefined 
       ? `/r/children/${inscriptionId}/${page}`
       : `/r/children/${inscriptionId}`;
-    return this.makeRequest<InscriptionsListResponse>(endpoint);
+    return this.makeRequest<InscriptionIdsPage>(endpoint, {}, ordinalsApiSchemas.inscriptionIdsPage);
   }
 
   /**
    * GET /r/children/<INSCRIPTION_ID>/inscriptions
    * Details of first 100 child inscriptions
    */
-  async getInscriptionChildrenDetails(inscriptionId: string, page?: number): Promise<ApiResponse<InscriptionsListResponse>> {
+  async getInscriptionChildrenDetails(inscriptionId: string, page?: number): Promise<ApiResponse<ChildInscriptionsPage>> {
     const endpoint = page !== undefined 
       ? `/r/children/${inscriptionId}/inscriptions/${page}`
       : `/r/children/${inscriptionId}/inscriptions`;
-    return this.makeRequest<InscriptionsListResponse>(endpoint);
+    return this.makeRequest<ChildInscriptionsPage>(endpoint, {}, ordinalsApiSchemas.childInscriptionsPage);
   }
 
   /**
@@ -321,7 +880,7 @@ export class OrdinalsApiService {
    * Information about an inscription
    */
   async getInscriptionInfo(inscriptionId: string): Promise<ApiResponse<InscriptionApiData>> {
-    return this.makeRequest<InscriptionApiData>(`/r/inscription/${inscriptionId}`);
+    return this.makeRequest<InscriptionApiData>(`/r/inscription/${inscriptionId}`, {}, ordinalsApiSchemas.inscription);
   }
 
   /**
@@ -329,59 +888,129 @@ export class OrdinalsApiService {
    * JSON string containing the hex-encoded CBOR metadata
    */
   async getInscriptionMetadata(inscriptionId: string): Promise<ApiResponse<string>> {
-    return this.makeRequest<string>(`/r/metadata/${inscriptionId}`);
+    return this.makeRequest<string>(`/r/metadata/${inscriptionId}`, {}, ordinalsApiSchemas.string);
   }
 
   /**
    * GET /r/parents/<INSCRIPTION_ID>
    * The first 100 parent inscription ids
    */
-  async getInscriptionParents(inscriptionId: string, page?: number): Promise<ApiResponse<InscriptionsListResponse>> {
+  async getInscriptionParents(inscriptionId: string, page?: number): Promise<ApiResponse<InscriptionIdsPage>> {
     const endpoint = page !== undefined 
       ? `/r/parents/${inscriptionId}/${page}`
       : `/r/parents/${inscriptionId}`;
-    return this.makeRequest<InscriptionsListResponse>(endpoint);
+    return this.makeRequest<InscriptionIdsPage>(endpoint, {}, ordinalsApiSchemas.inscriptionIdsPage);
   }
 
   /**
    * GET /r/parents/<INSCRIPTION_ID>/inscriptions
    * Details of the first 100 parent inscriptions
    */
-  async getInscriptionParentsDetails(inscriptionId: string, page?: number): Promise<ApiResponse<InscriptionsListResponse>> {
+  async getInscriptionParentsDetails(inscriptionId: string, page?: number): Promise<ApiResponse<ParentInscriptionsPage>> {
     const endpoint = page !== undefined 
       ? `/r/parents/${inscriptionId}/inscriptions/${page}`
       : `/r/parents/${inscriptionId}/inscriptions`;
-    return this.makeRequest<InscriptionsListResponse>(endpoint);
+    return this.makeRequest<ParentInscriptionsPage>(endpoint, {}, ordinalsApiSchemas.parentInscriptionsPage);
   }
 
   /**
-   * GET /r/sat/<SAT_NUMBER>/inscriptions
+   * GET /r/sat/<SAT_NUMBER>
    * The first 100 inscription ids on a sat
    */
-  async getSatInscriptions(satNumber: number, page?: number): Promise<ApiResponse<InscriptionsListResponse>> {
+  async getSatInscriptions(satNumber: number, page?: number): Promise<ApiResponse<InscriptionIdsPage>> {
     const endpoint = page !== undefined 
-      ? `/r/sat/${satNumber}/inscriptions/${page}`
-      : `/r/sat/${satNumber}/inscriptions`;
-    return this.makeRequest<InscriptionsListResponse>(endpoint);
+      ? `/r/sat/${satNumber}/${page}`
+      : `/r/sat/${satNumber}`;
+    return this.makeRequest<InscriptionIdsPage>(endpoint, {}, ordinalsApiSchemas.inscriptionIdsPage);
   }
 
   /**
    * GET /r/sat/<SAT_NUMBER>/at/<INDEX>
-   * The inscription id at INDEX of all inscriptions on a sat
+   * The inscription id at INDEX of all inscriptions on a sat (negative indexes count from the end)
+   */
+  async getSatInscriptionAtIndex(satNumber: number, index: number): Promise<ApiResponse<SatInscriptionResponse>> {
+    return this.makeRequest<SatInscriptionResponse>(`/r/sat/${satNumber}/at/${index}`, {}, ordinalsApiSchemas.satInscriptionAtIndex);
+  }
+
+  /**
+   * GET /r/tx/<TXID>
+   * Hex-encoded raw transaction
    */
-  async getSatInscriptionAtIndex(satNumber: number, index: number): Promise<ApiResponse<string>> {
-    return this.makeRequest<string>(`/r/sat/${satNumber}/at/${index}`);
+  async getTransaction(txid: string): Promise<ApiResponse<string>> {
+    return this.makeRequest<string>(`/r/tx/${txid}`, {}, ordinalsApiSchemas.string);
+  }
+
+  /**
+   * GET /r/utxo/<OUTPOINT>
+   * Assets held by an unspent output
+   */
+  async getUtxo(outpoint: string): Promise<ApiResponse<UtxoInfo>> {
+    return this.makeRequest<UtxoInfo>(`/r/utxo/${outpoint}`, {}, ordinalsApiSchemas.utxo);
   }
 
   /**
    * GET /content/<INSCRIPTION_ID>
    * The content of the inscription (recursive endpoint, can use ordinals.com)
+   * parsed as JSON. Use getInscriptionContentBlob for content of any type.
    */
   async getInscriptionContent(inscriptionId: string): Promise<ApiResponse<any>> {
     // This is a special case - content endpoint doesn't need /r/ prefix
     return this.makeRequest(`/content/${inscriptionId}`);
   }
 
+  /**
+   * GET /content/<INSCRIPTION_ID>
+   * The raw content of the inscription with its content type
+   */
+  async getInscriptionContentBlob(inscriptionId: string): Promise<ApiResponse<InscriptionContentResponse>> {
+    return this.makeContentRequest(`/content/${inscriptionId}`);
+  }
+
+  /**
+   * GET /r/undelegated-content/<INSCRIPTION_ID>
+   * The inscription's own content, ignoring any delegate
+   */
+  async getUndelegatedContent(inscriptionId: string): Promise<ApiResponse<InscriptionContentResponse>> {
+    return this.makeContentRequest(`/r/undelegated-content/${inscriptionId}`);
+  }
+
+  /**
+   * GET any `/content/` or `/r/` path, as requested by a recursive inscription.
+   * The raw body is returned whatever its type; other paths are refused.
+   */
+  async getRecursiveResource(path: string): Promise<ApiResponse<InscriptionContentResponse>> {
+    const normalized = isRecursivePath(path) ? normalizeRecursivePath(path) : null;
+    if (!normalized) {
+      return {
+        data: null as unknown as InscriptionContentResponse,
+        success: false,
+        error: `${path} is not a recursive endpoint`,
+        errorCode: 'unsupported',
+        source: 'none'
+      };
+    }
+    return this.makeContentRequest(normalized);
+  }
+
+  // =================
+  // SCHEMA DRIFT
+  // =================
+
+  /**
+   * Most recent schema drift reports, oldest first
+   */
+  getSchemaDriftReports(): SchemaDriftReport[] {
+    return [...this.driftReports];
+  }
+
+  /**
+   * Forget collected drift reports so repeated drift is logged again
+   */
+  clearSchemaDriftReports(): void {
+    this.driftReports = [];
+    this.reportedDrift.clear();
+  }
+
   // =================
   // UTILITY METHODS
   // =================
@@ -400,7 +1029,7 @@ export class OrdinalsApiService {
     return {
       id: apiData.id,
       number: apiData.number,
-      contentType: apiData.content_type,
+      contentType: apiData.effective_content_type ?? apiData.content_type ?? undefined,
       contentUrl: `/content/${apiData.id}`
     };
   }
@@ -426,6 +1055,11 @@ export class OrdinalsApiService {
       inscriptions.push(...response.children.map(child => this.normalizeInscriptionData(child)));
     }
 
+    // Handle { parents: [...] } format
+    if (response.parents) {
+      inscriptions.push(...response.parents.map(parent => this.normalizeInscriptionData(parent)));
+    }
+
     return inscriptions;
   }
 
@@ -433,23 +1067,41 @@ export class OrdinalsApiService {
    * Clear cache
    */
   clearCache(): void {
-    this.cache.clear();
+    cacheManager.invalidateMemory({ namespace: 'metadata', prefix: this.cacheScope });
   }
 
   /**
    * Update endpoint configurations
    */
   updateEndpoints(userNodeUrl?: string, ordinalsUrl?: string): void {
-    if (userNodeUrl) {
-      this.userNodeEndpoint.baseUrl = userNodeUrl;
-    }
-    if (ordinalsUrl) {
-      this.ordinalsEndpoint.baseUrl = ordinalsUrl;
-    }
+    this.endpoints.forEach(state => {
+      if (userNodeUrl && state.name === 'user-node') {
+        state.endpoint.baseUrl = userNodeUrl;
+      }
+      if (ordinalsUrl && state.name === 'ordinals.com') {
+        state.endpoint.baseUrl = ordinalsUrl;
+      }
+    });
     this.clearCache(); // Clear cache when endpoints change
   }
 }
 
 // Export singleton instance
 export const ordinalsApi = new OrdinalsApiService();
+
+const endpointServices = new Map<string, OrdinalsApiService>();
+
+/**
+ * Service for a single custom endpoint (a component's `apiEndpoint`), shared by every
+ * component pointed at it so content, metadata and delegates come from the same node
+ */
+export function getEndpointService(baseUrl: string): OrdinalsApiService {
+  const normalized = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  let service = endpointServices.get(normalized);
+  if (!service) {
+    service = new OrdinalsApiService(undefined, undefined, { endpoints: [{ name: normalized, baseUrl: normalized }] });
+    endpointServices.set(normalized, service);
+  }
+  return service;
+}
 export default ordinalsApi;
@@ -0,0 +1,285 @@
+/**
+ * Persistent IndexedDB store for inscription content
+ * Inscription content is immutable, so entries never expire; they are only evicted
+ * by last access once the byte or entry quota is exceeded
+ */
+
+export interface PersistentContentStoreConfig {
+  dbName?: string;
+  storeName?: string;
+  maxBytes?: number; // Total byte quota for stored blobs
+  maxEntries?: number;
+  maxEntryBytes?: number; // Larger blobs are not persisted
+}
+
+export interface PersistentContentRecord {
+  key: string;
+  blob: Blob;
+  contentType: string;
+  size: number;
+  storedAt: number;
+  lastAccess: number;
+}
+
+export type PersistentContentInfo = Omit<PersistentContentRecord, 'blob'>;
+
+export interface PersistentStoreStats {
+  available: boolean;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  maxEntries: number;
+}
+
+const DB_VERSION = 1;
+const ACCESS_WRITE_INTERVAL = 60 * 1000; // Only rewrite lastAccess once a minute per entry
+
+export class PersistentContentStore {
+  private dbName: string;
+  private storeName: string;
+  private maxBytes: number;
+  private maxEntries: number;
+  private maxEntryBytes: number;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private totals: { entries: number; bytes: number } | null = null;
+
+  constructor(config: PersistentContentStoreConfig = {}) {
+    this.dbName = config.dbName || 'inscription-viewer';
+    this.storeName = config.storeName || 'content';
+    this.maxBytes = config.maxBytes ?? 250 * 1024 * 1024; // 250MB
+    this.maxEntries = config.maxEntries ?? 5000;
+    this.maxEntryBytes = config.maxEntryBytes ?? 25 * 1024 * 1024; // 25MB
+  }
+
+  /**
+   * Whether IndexedDB exists in this environment (false during SSR and in some private modes)
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (!this.isSupported()) {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            const store = db.createObjectStore(this.storeName, { keyPath: 'key' });
+            store.createIndex('lastAccess', 'lastAccess');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('⚠️ Persistent content store unavailable:', request.error);
+          resolve(null);
+        };
+        request.onblocked = () => {
+          console.warn('⚠️ Persistent content store upgrade blocked by another tab');
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('⚠️ Persistent content store unavailable:', error);
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+
+  private promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => Promise<T>
+  ): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    try {
+      const transaction = db.transaction(this.storeName, mode);
+      const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+      const result = await run(transaction.objectStore(this.storeName));
+      await done;
+      return result;
+    } catch (error) {
+      console.warn('⚠️ Persistent content store operation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Walk every record (blobs are lazy handles, so this does not read content)
+   */
+  private async scan(): Promise<PersistentContentInfo[]> {
+    const records = await this.withStore('readonly', store => new Promise<PersistentContentInfo[]>((resolve, reject) => {
+      const results: PersistentContentInfo[] = [];
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(results);
+          return;
+        }
+        const { blob: _blob, ...info } = cursor.value as PersistentContentRecord;
+        results.push(info);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+
+    const list = records || [];
+    this.totals = {
+      entries: list.length,
+      bytes: list.reduce((sum, record) => sum + record.size, 0)
+    };
+    return list;
+  }
+
+  private async getTotals(): Promise<{ entries: number; bytes: number }> {
+    if (!this.totals) {
+      await this.scan();
+    }
+    return this.totals || { entries: 0, bytes: 0 };
+  }
+
+  /**
+   * Read an entry and record the access for eviction ordering
+   */
+  async get(key: string): Promise<PersistentContentRecord | null> {
+    return this.withStore('readwrite', async store => {
+      const record = await this.promisify(store.get(key)) as PersistentContentRecord | undefined;
+      if (!record) return null;
+
+      const now = Date.now();
+      if (now - record.lastAccess > ACCESS_WRITE_INTERVAL) {
+        record.lastAccess = now;
+        await this.promisify(store.put(record));
+      }
+      return record;
+    });
+  }
+
+  /**
+   * Store a blob, evicting least recently accessed entries when over quota
+   */
+  async put(key: string, blob: Blob, contentType: string): Promise<boolean> {
+    if (blob.size > this.maxEntryBytes || blob.size > this.maxBytes) {
+      return false;
+    }
+
+    const totals = await this.getTotals();
+    const now = Date.now();
+    const previous = await this.withStore('readwrite', async store => {
+      const existing = await this.promisify(store.get(key)) as PersistentContentRecord | undefined;
+      await this.promisify(store.put({
+        key,
+        blob,
+        contentType,
+        size: blob.size,
+        storedAt: existing?.storedAt ?? now,
+        lastAccess: now
+      } as PersistentContentRecord));
+      return existing ? { size: existing.size } : { size: -1 };
+    });
+
+    if (!previous) return false;
+
+    if (previous.size < 0) {
+      totals.entries++;
+      totals.bytes += blob.size;
+    } else {
+      totals.bytes += blob.size - previous.size;
+    }
+
+    if (totals.bytes > this.maxBytes || totals.entries > this.maxEntries) {
+      await this.evict();
+    }
+    return true;
+  }
+
+  /**
+   * Delete least recently accessed entries until both quotas are satisfied
+   */
+  private async evict(): Promise<void> {
+    const totals = await this.getTotals();
+    let evicted = 0;
+
+    await this.withStore('readwrite', store => new Promise<void>((resolve, reject) => {
+      const request = store.index('lastAccess').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (totals.bytes <= this.maxBytes && totals.entries <= this.maxEntries)) {
+          resolve();
+          return;
+        }
+        const record = cursor.value as PersistentContentRecord;
+        cursor.delete();
+        totals.bytes -= record.size;
+        totals.entries--;
+        evicted++;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+
+    if (evicted > 0) {
+      console.log(`🗑️ Evicted ${evicted} entries from persistent content store`);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    const count = await this.withStore('readonly', store => this.promisify(store.count(key)));
+    return (count || 0) > 0;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withStore('readwrite', store => this.promisify(store.delete(key)));
+    this.totals = null;
+  }
+
+  async clear(): Promise<void> {
+    await this.withStore('readwrite', store => this.promisify(store.clear()));
+    this.totals = { entries: 0, bytes: 0 };
+  }
+
+  /**
+   * Stored entries without their content, most recently accessed first
+   */
+  async list(): Promise<PersistentContentInfo[]> {
+    const records = await this.scan();
+    return records.sort((a, b) => b.lastAccess - a.lastAccess);
+  }
+
+  async getStats(): Promise<PersistentStoreStats> {
+    const db = await this.open();
+    const totals = db ? (await this.scan(), await this.getTotals()) : { entries: 0, bytes: 0 };
+    return {
+      available: !!db,
+      entries: totals.entries,
+      totalBytes: totals.bytes,
+      maxBytes: this.maxBytes,
+      maxEntries: this.maxEntries
+    };
+  }
+}
+
+export default PersistentContentStore;
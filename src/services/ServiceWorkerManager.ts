@@ -3,6 +3,8 @@
  * Provides interface to control the service worker from the main thread
  */
 
+import { cacheManager } from './CacheManager';
+
 export interface ServiceWorkerStats {
   entries: number;
   estimatedSize: number;
@@ -38,6 +40,29 @@ class InscriptionServiceWorkerManager {
         }
       });
     }
+
+    // Follow cache manager invalidations. The worker caches by URL, so only whole-namespace
+    // and per-inscription invalidations can be mapped onto it.
+    cacheManager.registerTier({
+      name: 'service-worker',
+      namespaces: ['content', 'metadata'],
+      invalidate: async selector => {
+        if (!this.isActive()) return;
+        if (selector.inscriptionId) {
+          const result = await this.invalidate([selector.inscriptionId]);
+          return result.cleared;
+        }
+        if (selector.key === undefined && selector.prefix === undefined && !selector.match) {
+          const result = await this.clearCache();
+          return result.cleared;
+        }
+      },
+      getStats: async () => {
+        if (!this.isActive()) return null;
+        const result = await this.getCacheStats();
+        return result.stats ? { ...result.stats } : null;
+      }
+    });
   }
 
   /**
@@ -122,6 +147,28 @@ class InscriptionServiceWorkerManager {
     });
   }
 
+  /**
+   * Remove cached responses whose URL contains any of the patterns (e.g. inscription ids)
+   */
+  async invalidate(patterns: string[]): Promise<{ success: boolean; cleared?: number; error?: string }> {
+    if (!this.registration?.active) {
+      return { success: false, error: 'Service Worker not active' };
+    }
+
+    return new Promise((resolve) => {
+      const channel = new MessageChannel();
+      
+      channel.port1.onmessage = (event) => {
+        resolve(event.data);
+      };
+
+      this.registration!.active!.postMessage(
+        { type: 'invalidate', data: { patterns } },
+        [channel.port2]
+      );
+    });
+  }
+
   async getCacheStats(): Promise<{ success: boolean; stats?: ServiceWorkerStats; error?: string }> {
     if (!this.registration?.active) {
       return { success: false, error: 'Service Worker not active' };
@@ -1,13 +1,75 @@
 export { InscriptionContentCache, inscriptionCache } from './InscriptionContentCache';
-export { OrdinalsApiService, ordinalsApi } from './OrdinalsApiService';
+export { PersistentContentStore } from './PersistentContentStore';
+export { CacheManager, cacheManager, CACHE_NAMESPACES, estimateCacheSize } from './CacheManager';
+export { ObjectUrlRegistry, objectUrlRegistry } from './ObjectUrlRegistry';
+export { OrdinalsApiService, ordinalsApi, getEndpointService } from './OrdinalsApiService';
 export { LaserEyesService, laserEyesService } from './LaserEyesService';
 export { swManager, useServiceWorker } from './ServiceWorkerManager';
+export {
+  ContentSourceRegistry,
+  contentSourceRegistry,
+  CONTENT_SOURCE_PRIORITY,
+  buildDefaultSourceChain,
+  loadFromSources,
+  createCacheSource,
+  createFetcherSource,
+  createLaserEyesSource,
+  createNetworkSource,
+  normalizeSourcePayload
+} from './ContentSourceRegistry';
 export type { 
   ApiEndpoint, 
   ApiResponse, 
+  ApiErrorCode,
   InscriptionApiData, 
   InscriptionsListResponse,
   BlockResponse,
-  AddressResponse
+  AddressResponse,
+  EndpointHealth,
+  CircuitState,
+  OrdinalsApiServiceConfig,
+  SchemaDriftReport,
+  InscriptionIdsPage,
+  ChildInscriptionsPage,
+  ParentInscriptionsPage,
+  SatInscriptionResponse,
+  BlockInfo,
+  RuneBalance,
+  UtxoInfo,
+  OutputResponse,
+  StatusResponse,
+  InscriptionContentResponse
 } from './OrdinalsApiService';
-export type { LaserEyesWallet, LaserEyesInscriptionContent } from './LaserEyesService';
\ No newline at end of file
+export { ordinalsApiSchemas } from './ordinalsApiSchemas';
+export { DelegateResolver, delegateResolver, getDelegateResolver, DEFAULT_MAX_DELEGATE_DEPTH } from './DelegateResolver';
+export type { LaserEyesWallet, LaserEyesInscriptionContent } from './LaserEyesService';
+export type {
+  ContentSource,
+  ContentSourceRequest,
+  ContentSourceContext,
+  ContentSourceResult,
+  ContentSourceFallthrough,
+  ContentSourceAttempt,
+  ResolvedContent
+} from './ContentSourceRegistry';
+export type { DelegateResolution, DelegateResolveOptions } from './DelegateResolver';
+export type { InscriptionContentCacheOptions, CachedContent } from './InscriptionContentCache';
+export type {
+  PersistentContentStoreConfig,
+  PersistentContentRecord,
+  PersistentContentInfo,
+  PersistentStoreStats
+} from './PersistentContentStore';
+export type {
+  CacheNamespace,
+  CacheNamespaceConfig,
+  CacheManagerConfig,
+  CacheSetOptions,
+  CacheRecord,
+  CacheInvalidation,
+  CacheTier,
+  CacheNamespaceStats,
+  CacheManagerStats,
+  CacheManagerFullStats
+} from './CacheManager';
+export type { ObjectUrlRegistryConfig, ObjectUrlStats } from './ObjectUrlRegistry';
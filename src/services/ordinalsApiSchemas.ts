@@ -0,0 +1,176 @@
+/**
+ * Runtime schemas for Ordinals API responses
+ * Only identity fields are required so older ord releases still validate;
+ * every field that is present is type-checked and unknown fields are reported as drift
+ */
+
+import { schema as s, SchemaNode } from '../utils/schemaValidation';
+
+const inscriptionIds = s.array(s.string());
+const satRanges = s.array(s.tuple(s.number(), s.number()));
+const duration = s.object({ secs: s.number(), nanos: s.number() }, 'Duration');
+
+const runeBalance = s.object({
+  amount: s.number(),
+  divisibility: s.number(),
+  symbol: s.maybe(s.string())
+}, 'RuneBalance');
+
+const inscription = s.object({
+  id: s.string(),
+  number: s.optional(s.number()),
+  address: s.maybe(s.string()),
+  charms: s.optional(s.array(s.string())),
+  child_count: s.optional(s.number()),
+  children: s.optional(inscriptionIds),
+  content_length: s.maybe(s.number()),
+  content_type: s.maybe(s.string()),
+  effective_content_type: s.maybe(s.string()),
+  delegate: s.maybe(s.string()),
+  fee: s.optional(s.number()),
+  height: s.optional(s.number()),
+  genesis_height: s.optional(s.number()),
+  genesis_fee: s.optional(s.number()),
+  metaprotocol: s.maybe(s.string()),
+  next: s.maybe(s.string()),
+  previous: s.maybe(s.string()),
+  output: s.optional(s.string()),
+  output_value: s.maybe(s.number()),
+  value: s.maybe(s.number()),
+  parents: s.optional(inscriptionIds),
+  rune: s.maybe(s.string()),
+  sat: s.maybe(s.number()),
+  satpoint: s.optional(s.string()),
+  timestamp: s.optional(s.number())
+}, 'InscriptionApiData');
+
+export const ordinalsApiSchemas = {
+  string: s.string(),
+  number: s.number(),
+
+  inscription,
+  inscriptionList: s.array(inscription),
+
+  inscriptionsList: s.object({
+    ids: s.optional(inscriptionIds),
+    inscriptions: s.optional(s.array(inscription)),
+    children: s.optional(s.array(inscription)),
+    parents: s.optional(s.array(inscription)),
+    more: s.optional(s.boolean()),
+    page: s.optional(s.number()),
+    page_index: s.optional(s.number()),
+    prev: s.maybe(s.number()),
+    next: s.maybe(s.number())
+  }, 'InscriptionsListResponse'),
+
+  inscriptionIdsPage: s.object({
+    ids: inscriptionIds,
+    more: s.boolean(),
+    page: s.number()
+  }, 'InscriptionIdsPage'),
+
+  childInscriptionsPage: s.object({
+    children: s.array(inscription),
+    more: s.boolean(),
+    page: s.number()
+  }, 'ChildInscriptionsPage'),
+
+  parentInscriptionsPage: s.object({
+    parents: s.array(inscription),
+    more: s.boolean(),
+    page: s.number()
+  }, 'ParentInscriptionsPage'),
+
+  satInscriptionAtIndex: s.object({
+    id: s.nullable(s.string())
+  }, 'SatInscriptionResponse'),
+
+  block: s.object({
+    hash: s.string(),
+    height: s.number(),
+    best_height: s.optional(s.number()),
+    inscriptions: s.optional(inscriptionIds),
+    runes: s.optional(s.array(s.string())),
+    target: s.optional(s.string()),
+    transactions: s.optional(s.array(s.any()))
+  }, 'BlockResponse'),
+
+  blockInfo: s.object({
+    hash: s.string(),
+    height: s.number(),
+    timestamp: s.number(),
+    average_fee: s.optional(s.number()),
+    average_fee_rate: s.optional(s.number()),
+    average_size: s.optional(s.number()),
+    bits: s.optional(s.number()),
+    chainwork: s.optional(s.string()),
+    confirmations: s.optional(s.number()),
+    difficulty: s.optional(s.number()),
+    feerate_percentiles: s.optional(s.array(s.number())),
+    max_fee: s.optional(s.number()),
+    max_fee_rate: s.optional(s.number()),
+    max_tx_size: s.optional(s.number()),
+    median_fee: s.optional(s.number()),
+    median_time: s.maybe(s.number()),
+    merkle_root: s.optional(s.string()),
+    min_fee: s.optional(s.number()),
+    min_fee_rate: s.optional(s.number()),
+    next_block: s.maybe(s.string()),
+    nonce: s.optional(s.number()),
+    previous_block: s.maybe(s.string()),
+    subsidy: s.optional(s.number()),
+    target: s.optional(s.string()),
+    total_fee: s.optional(s.number()),
+    total_size: s.optional(s.number()),
+    total_weight: s.optional(s.number()),
+    transaction_count: s.optional(s.number()),
+    version: s.optional(s.number())
+  }, 'BlockInfo'),
+
+  utxo: s.object({
+    value: s.number(),
+    inscriptions: s.maybe(inscriptionIds),
+    runes: s.maybe(s.record(runeBalance)),
+    sat_ranges: s.maybe(satRanges)
+  }, 'UtxoInfo'),
+
+  output: s.object({
+    value: s.number(),
+    address: s.maybe(s.string()),
+    confirmations: s.optional(s.number()),
+    indexed: s.optional(s.boolean()),
+    inscriptions: s.maybe(inscriptionIds),
+    outpoint: s.optional(s.string()),
+    runes: s.maybe(s.record(runeBalance)),
+    sat_ranges: s.maybe(satRanges),
+    script_pubkey: s.optional(s.string()),
+    spent: s.optional(s.boolean()),
+    transaction: s.optional(s.string())
+  }, 'OutputResponse'),
+
+  address: s.object({
+    outputs: s.array(s.string()),
+    inscriptions: s.maybe(inscriptionIds),
+    sat_balance: s.number(),
+    runes_balances: s.maybe(s.array(s.any()))
+  }, 'AddressResponse'),
+
+  status: s.object({
+    address_index: s.optional(s.boolean()),
+    blessed_inscriptions: s.optional(s.number()),
+    chain: s.optional(s.string()),
+    cursed_inscriptions: s.optional(s.number()),
+    height: s.maybe(s.number()),
+    initial_sync_time: s.optional(duration),
+    inscriptions: s.optional(s.number()),
+    lost_sats: s.optional(s.number()),
+    minimum_rune_for_next_block: s.maybe(s.string()),
+    rune_index: s.optional(s.boolean()),
+    runes: s.optional(s.number()),
+    sat_index: s.optional(s.boolean()),
+    started: s.optional(s.string()),
+    transaction_index: s.optional(s.boolean()),
+    unrecoverably_reorged: s.optional(s.boolean()),
+    uptime: s.optional(duration)
+  }, 'StatusResponse')
+} satisfies Record<string, SchemaNode>;
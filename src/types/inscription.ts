@@ -18,6 +18,7 @@ export interface InscriptionViewerProps {
   apiEndpoint?: string;
   htmlRenderMode?: 'iframe' | 'sandbox';
   forceIframe?: boolean;
+  strictHtmlIsolation?: boolean; // Run HTML without same-origin access, serving recursion over postMessage
   className?: string;
 }
 
@@ -0,0 +1,657 @@
+/**
+ * Animated image decoding
+ * Frame-level parsing for GIF, APNG and animated WebP. GIF frames are decoded
+ * here (LZW); APNG and WebP frames are repackaged as standalone images for the
+ * browser's decoder. All formats share one compositor that applies each frame's
+ * offset, blend and disposal so every frame can be shown on its own.
+ */
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+export interface AnimationFrameInfo {
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  delay: number; // Milliseconds, as stored in the file
+  dispose: 'none' | 'background' | 'previous';
+  blend: 'source' | 'over';
+}
+
+export interface AnimationInfo {
+  format: AnimationFormat;
+  width: number;
+  height: number;
+  loopCount: number; // Times the animation plays; 0 loops forever
+  frames: AnimationFrameInfo[];
+  duration: number; // Total playback time in milliseconds, using browser delay clamping
+}
+
+export interface DecodedAnimation {
+  info: AnimationInfo;
+  frames: Uint8ClampedArray[]; // Composited RGBA at the full canvas size, one per decoded frame
+  truncated: boolean; // Frames beyond the memory budget were not decoded
+}
+
+export interface DecodeAnimationOptions {
+  maxBytes?: number; // Memory budget for composited frames
+  isCancelled?: () => boolean;
+}
+
+/** Internal frame with the data needed to decode it */
+interface FrameSource {
+  info: AnimationFrameInfo;
+  data: Uint8Array; // Standalone image file (APNG/WebP) or GIF image data
+}
+
+interface ParsedAnimation {
+  info: AnimationInfo;
+  sources: FrameSource[];
+  gifImages?: GifImage[];
+}
+
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Playback delay for a frame. Browsers treat very short delays (≤10ms) as 100ms,
+ * so animations authored with 0 delays play at the speed viewers expect.
+ */
+export function frameDuration(frame: AnimationFrameInfo): number {
+  return frame.delay <= 10 ? 100 : frame.delay;
+}
+
+function finishInfo(info: Omit<AnimationInfo, 'duration'>): AnimationInfo {
+  return { ...info, duration: info.frames.reduce((total, frame) => total + frameDuration(frame), 0) };
+}
+
+// =================
+// BYTES
+// =================
+
+const u16le = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const u24le = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+const u32le = (bytes: Uint8Array, offset: number) => (u24le(bytes, offset) | (bytes[offset + 3] << 24)) >>> 0;
+const u16be = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const u32be = (bytes: Uint8Array, offset: number) => ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+const ascii = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// =================
+// GIF
+// =================
+
+interface GifImage {
+  info: AnimationFrameInfo;
+  palette: Uint8Array;
+  transparentIndex: number; // -1 when the frame has no transparency
+  interlaced: boolean;
+  minCodeSize: number;
+  data: Uint8Array;
+}
+
+const GIF_DISPOSAL: AnimationFrameInfo['dispose'][] = ['none', 'none', 'background', 'previous'];
+
+function parseGifImages(bytes: Uint8Array): { info: Omit<AnimationInfo, 'duration'>; images: GifImage[] } | null {
+  if (bytes.length < 13 || !/^GIF8[79]a$/.test(ascii(bytes, 0, 6))) return null;
+
+  const width = u16le(bytes, 6);
+  const height = u16le(bytes, 8);
+  const packed = bytes[10];
+  let offset = 13;
+  let globalPalette = new Uint8Array(0);
+  if (packed & 0x80) {
+    const size = 3 * (1 << ((packed & 7) + 1));
+    globalPalette = bytes.slice(offset, offset + size);
+    offset += size;
+  }
+
+  const images: GifImage[] = [];
+  let loopCount = 1;
+  let pending = { delay: 0, dispose: 'none' as AnimationFrameInfo['dispose'], transparentIndex: -1 };
+
+  // Concatenate data sub-blocks starting at `offset`; returns the data and the offset after the terminator
+  const readSubBlocks = (start: number): [Uint8Array, number] => {
+    const parts: Uint8Array[] = [];
+    let position = start;
+    while (position < bytes.length && bytes[position] !== 0) {
+      const size = bytes[position];
+      parts.push(bytes.subarray(position + 1, position + 1 + size));
+      position += size + 1;
+    }
+    return [concatBytes(parts), position + 1];
+  };
+
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x3b) break; // Trailer
+
+    if (block === 0x21) {
+      const label = bytes[offset + 1];
+      if (label === 0xf9 && bytes[offset + 2] >= 4) {
+        // Graphic control extension: applies to the next image
+        const flags = bytes[offset + 3];
+        pending = {
+          delay: u16le(bytes, offset + 4) * 10,
+          dispose: GIF_DISPOSAL[(flags >> 2) & 7] || 'none',
+          transparentIndex: flags & 1 ? bytes[offset + 6] : -1
+        };
+      } else if (label === 0xff && bytes[offset + 2] === 11) {
+        const application = ascii(bytes, offset + 3, 11);
+        const [data] = readSubBlocks(offset + 14);
+        if ((application === 'NETSCAPE2.0' || application === 'ANIMEXTS1.0') && data[0] === 1 && data.length >= 3) {
+          // Stored as repeats after the first play
+          const repeats = u16le(data, 1);
+          loopCount = repeats === 0 ? 0 : repeats + 1;
+        }
+      }
+      [, offset] = readSubBlocks(offset + 2);
+      continue;
+    }
+
+    if (block === 0x2c) {
+      if (offset + 10 > bytes.length) break;
+      const flags = bytes[offset + 9];
+      let position = offset + 10;
+      let palette = globalPalette;
+      if (flags & 0x80) {
+        const size = 3 * (1 << ((flags & 7) + 1));
+        palette = bytes.slice(position, position + size);
+        position += size;
+      }
+      const minCodeSize = bytes[position];
+      const [data, next] = readSubBlocks(position + 1);
+      images.push({
+        info: {
+          index: images.length,
+          x: u16le(bytes, offset + 1),
+          y: u16le(bytes, offset + 3),
+          width: u16le(bytes, offset + 5),
+          height: u16le(bytes, offset + 7),
+          delay: pending.delay,
+          dispose: pending.dispose,
+          blend: 'over'
+        },
+        palette,
+        transparentIndex: pending.transparentIndex,
+        interlaced: (flags & 0x40) !== 0,
+        minCodeSize,
+        data
+      });
+      pending = { delay: 0, dispose: 'none', transparentIndex: -1 };
+      offset = next;
+      continue;
+    }
+
+    break; // Unknown block: stop at what has been read
+  }
+
+  if (!images.length) return null;
+  return { info: { format: 'gif', width, height, loopCount, frames: images.map(image => image.info) }, images };
+}
+
+/**
+ * Decode GIF LZW data into palette indices. Truncated or corrupt streams leave
+ * the remaining pixels at index 0.
+ */
+export function decodeLzw(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Uint16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+  for (let i = 0; i < clearCode; i++) suffix[i] = i;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let first = 0;
+  let buffer = 0;
+  let bits = 0;
+  let written = 0;
+  let offset = 0;
+
+  while (written < pixelCount) {
+    // Codes are packed least significant bit first
+    while (bits < codeSize) {
+      if (offset >= data.length) return output;
+      buffer |= data[offset++] << bits;
+      bits += 8;
+    }
+    const code = buffer & ((1 << codeSize) - 1);
+    buffer >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) break;
+
+    if (previous < 0) {
+      if (code >= clearCode) break;
+      output[written++] = first = code;
+      previous = code;
+      continue;
+    }
+
+    // Unwind the code's string onto the stack, last character first
+    let top = 0;
+    let current = code;
+    if (code >= nextCode) {
+      if (code > nextCode) break;
+      // Not yet in the table: previous string plus its own first character
+      stack[top++] = first;
+      current = previous;
+    }
+    while (current >= clearCode) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    first = suffix[current];
+    stack[top++] = first;
+    while (top > 0 && written < pixelCount) output[written++] = stack[--top];
+
+    if (nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      nextCode++;
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = code;
+  }
+
+  return output;
+}
+
+function deinterlace(indices: Uint8Array, width: number, height: number): Uint8Array {
+  const output = new Uint8Array(indices.length);
+  let row = 0;
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) {
+      output.set(indices.subarray(row * width, (row + 1) * width), y * width);
+      row++;
+    }
+  }
+  return output;
+}
+
+function decodeGifImage(image: GifImage): Uint8ClampedArray {
+  const { width, height } = image.info;
+  let indices = decodeLzw(image.data, Math.max(2, Math.min(image.minCodeSize, 11)), width * height);
+  if (image.interlaced) indices = deinterlace(indices, width, height);
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const colors = image.palette.length / 3;
+  for (let i = 0; i < indices.length; i++) {
+    const index = indices[i];
+    if (index === image.transparentIndex || index >= colors) continue; // Stays transparent
+    pixels[i * 4] = image.palette[index * 3];
+    pixels[i * 4 + 1] = image.palette[index * 3 + 1];
+    pixels[i * 4 + 2] = image.palette[index * 3 + 2];
+    pixels[i * 4 + 3] = 255;
+  }
+  return pixels;
+}
+
+/**
+ * Decode every GIF frame to an RGBA patch the size of its frame rectangle
+ */
+export function decodeGif(bytes: Uint8Array): { info: AnimationInfo; patches: Uint8ClampedArray[] } {
+  const parsed = parseGifImages(bytes);
+  if (!parsed) throw new Error('Not a GIF image');
+  return { info: finishInfo(parsed.info), patches: parsed.images.map(decodeGifImage) };
+}
+
+// =================
+// APNG
+// =================
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// Chunks copied into every standalone frame
+const PNG_SHARED_CHUNKS = new Set(['PLTE', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'sBIT', 'cICP']);
+const APNG_DISPOSAL: AnimationFrameInfo['dispose'][] = ['none', 'background', 'previous'];
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function parseApng(bytes: Uint8Array): ParsedAnimation | null {
+  if (bytes.length < 33 || !PNG_SIGNATURE.every((value, i) => bytes[i] === value)) return null;
+
+  let ihdr: Uint8Array | null = null;
+  let loopCount = 0;
+  let animated = false;
+  const shared: Uint8Array[] = [];
+  const frames: Array<{ info: AnimationFrameInfo; data: Uint8Array[] }> = [];
+  let current: { info: AnimationFrameInfo; data: Uint8Array[] } | null = null;
+
+  for (let offset = 8; offset + 12 <= bytes.length; ) {
+    const length = u32be(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, Math.min(offset + 8 + length, bytes.length));
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      ihdr = data;
+    } else if (type === 'acTL' && data.length >= 8) {
+      animated = true;
+      loopCount = u32be(data, 4);
+    } else if (type === 'fcTL' && data.length >= 26) {
+      const numerator = u16be(data, 20);
+      const denominator = u16be(data, 22) || 100;
+      current = {
+        info: {
+          index: frames.length,
+          width: u32be(data, 4),
+          height: u32be(data, 8),
+          x: u32be(data, 12),
+          y: u32be(data, 16),
+          delay: Math.round((numerator / denominator) * 1000),
+          // "Previous" on the first frame behaves like "background"
+          dispose: APNG_DISPOSAL[data[24]] === 'previous' && !frames.length ? 'background' : APNG_DISPOSAL[data[24]] || 'none',
+          blend: data[25] === 1 ? 'over' : 'source'
+        },
+        data: []
+      };
+      frames.push(current);
+    } else if (type === 'IDAT') {
+      // IDAT belongs to the animation only when an fcTL precedes it
+      current?.data.push(data);
+    } else if (type === 'fdAT' && data.length > 4) {
+      current?.data.push(data.subarray(4));
+    } else if (PNG_SHARED_CHUNKS.has(type) && !frames.length) {
+      shared.push(pngChunk(type, data));
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!ihdr || !animated) return null;
+  const usable = frames.filter(frame => frame.data.length && frame.info.width && frame.info.height);
+  if (!usable.length) return null;
+
+  const sources = usable.map((frame, index): FrameSource => {
+    const header = ihdr!.slice();
+    const view = new DataView(header.buffer);
+    view.setUint32(0, frame.info.width);
+    view.setUint32(4, frame.info.height);
+    return {
+      info: { ...frame.info, index },
+      data: concatBytes([
+        PNG_SIGNATURE,
+        pngChunk('IHDR', header),
+        ...shared,
+        ...frame.data.map(data => pngChunk('IDAT', data)),
+        pngChunk('IEND', new Uint8Array(0))
+      ])
+    };
+  });
+
+  return {
+    info: finishInfo({ format: 'apng', width: u32be(ihdr, 0), height: u32be(ihdr, 4), loopCount, frames: sources.map(source => source.info) }),
+    sources
+  };
+}
+
+// =================
+// WEBP
+// =================
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  for (let i = 0; i < 4; i++) chunk[i] = type.charCodeAt(i);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function riffFile(chunks: Uint8Array[]): Uint8Array {
+  const body = concatBytes([new TextEncoder().encode('WEBP'), ...chunks]);
+  return concatBytes([new TextEncoder().encode('RIFF'), new Uint8Array(new Uint32Array([body.length]).buffer), body]);
+}
+
+function parseWebp(bytes: Uint8Array): ParsedAnimation | null {
+  if (bytes.length < 30 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WEBP') return null;
+
+  let width = 0;
+  let height = 0;
+  let loopCount = 0;
+  let animated = false;
+  const sources: FrameSource[] = [];
+
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const type = ascii(bytes, offset, 4);
+    const length = u32le(bytes, offset + 4);
+    const data = bytes.subarray(offset + 8, Math.min(offset + 8 + length, bytes.length));
+    offset += 8 + length + (length & 1);
+
+    if (type === 'VP8X' && data.length >= 10) {
+      animated = (data[0] & 0x02) !== 0;
+      width = u24le(data, 4) + 1;
+      height = u24le(data, 7) + 1;
+    } else if (type === 'ANIM' && data.length >= 6) {
+      loopCount = u16le(data, 4);
+    } else if (type === 'ANMF' && data.length >= 16) {
+      const frameWidth = u24le(data, 6) + 1;
+      const frameHeight = u24le(data, 9) + 1;
+      const flags = data[15];
+
+      // Frame data: optional ALPH followed by VP8, or a single VP8L
+      const chunks: Uint8Array[] = [];
+      let hasAlpha = false;
+      for (let position = 16; position + 8 <= data.length; ) {
+        const chunkType = ascii(data, position, 4);
+        const chunkLength = u32le(data, position + 4);
+        if (chunkType === 'ALPH' || chunkType === 'VP8 ' || chunkType === 'VP8L') {
+          chunks.push(riffChunk(chunkType, data.subarray(position + 8, position + 8 + chunkLength)));
+          hasAlpha ||= chunkType === 'ALPH';
+        }
+        position += 8 + chunkLength + (chunkLength & 1);
+      }
+      if (!chunks.length) continue;
+
+      if (hasAlpha) {
+        // Lossy frames with alpha need a VP8X header declaring the alpha channel
+        const header = new Uint8Array(10);
+        header[0] = 0x10;
+        header.set([(frameWidth - 1) & 0xff, ((frameWidth - 1) >> 8) & 0xff, (frameWidth - 1) >> 16], 4);
+        header.set([(frameHeight - 1) & 0xff, ((frameHeight - 1) >> 8) & 0xff, (frameHeight - 1) >> 16], 7);
+        chunks.unshift(riffChunk('VP8X', header));
+      }
+
+      sources.push({
+        info: {
+          index: sources.length,
+          x: u24le(data, 0) * 2,
+          y: u24le(data, 3) * 2,
+          width: frameWidth,
+          height: frameHeight,
+          delay: u24le(data, 12),
+          dispose: flags & 0x01 ? 'background' : 'none',
+          blend: flags & 0x02 ? 'source' : 'over'
+        },
+        data: riffFile(chunks)
+      });
+    }
+  }
+
+  if (!animated || !sources.length) return null;
+  return { info: finishInfo({ format: 'webp', width, height, loopCount, frames: sources.map(source => source.info) }), sources };
+}
+
+// =================
+// PUBLIC API
+// =================
+
+function parseAny(bytes: Uint8Array): ParsedAnimation | null {
+  const gif = parseGifImages(bytes);
+  if (gif) {
+    return { info: finishInfo(gif.info), sources: gif.images.map(image => ({ info: image.info, data: image.data })), gifImages: gif.images };
+  }
+  return parseApng(bytes) || parseWebp(bytes);
+}
+
+/**
+ * Read animation structure (canvas size, loop count, frame rectangles and
+ * timing) without decoding pixels. Returns null for static or unsupported images.
+ */
+export function parseAnimation(bytes: Uint8Array): AnimationInfo | null {
+  return parseAny(bytes)?.info ?? null;
+}
+
+/** True when the image has more than one frame */
+export function isAnimatedImage(bytes: Uint8Array): boolean {
+  return (parseAnimation(bytes)?.frames.length ?? 0) > 1;
+}
+
+/**
+ * Composites frame patches onto a canvas-sized RGBA buffer, applying blend and
+ * disposal the way browsers play the animation
+ */
+export class AnimationCompositor {
+  private readonly canvas: Uint8ClampedArray;
+  private pendingDispose: { frame: AnimationFrameInfo; saved: Uint8ClampedArray | null } | null = null;
+
+  constructor(private readonly width: number, private readonly height: number) {
+    this.canvas = new Uint8ClampedArray(width * height * 4);
+  }
+
+  /** Draw the next frame and return a copy of the full canvas */
+  compose(frame: AnimationFrameInfo, patch: Uint8ClampedArray): Uint8ClampedArray {
+    this.applyPendingDispose();
+    const saved = frame.dispose === 'previous' ? this.canvas.slice() : null;
+
+    const x0 = Math.max(0, frame.x);
+    const y0 = Math.max(0, frame.y);
+    const x1 = Math.min(this.width, frame.x + frame.width);
+    const y1 = Math.min(this.height, frame.y + frame.height);
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const source = ((y - frame.y) * frame.width + (x - frame.x)) * 4;
+        const target = (y * this.width + x) * 4;
+        const alpha = patch[source + 3];
+        if (frame.blend === 'source' || alpha === 255) {
+          this.canvas[target] = patch[source];
+          this.canvas[target + 1] = patch[source + 1];
+          this.canvas[target + 2] = patch[source + 2];
+          this.canvas[target + 3] = alpha;
+        } else if (alpha > 0) {
+          // Source-over with straight (non-premultiplied) alpha
+          const a = alpha / 255;
+          const b = this.canvas[target + 3] / 255;
+          const out = a + b * (1 - a);
+          for (let c = 0; c < 3; c++) {
+            this.canvas[target + c] = (patch[source + c] * a + this.canvas[target + c] * b * (1 - a)) / out;
+          }
+          this.canvas[target + 3] = out * 255;
+        }
+      }
+    }
+
+    const result = this.canvas.slice();
+    this.pendingDispose = { frame, saved };
+    return result;
+  }
+
+  private applyPendingDispose(): void {
+    if (!this.pendingDispose) return;
+    const { frame, saved } = this.pendingDispose;
+    this.pendingDispose = null;
+    if (frame.dispose === 'previous' && saved) {
+      this.canvas.set(saved);
+    } else if (frame.dispose === 'background') {
+      // Browsers clear to transparent rather than the declared background colour
+      for (let y = Math.max(0, frame.y); y < Math.min(this.height, frame.y + frame.height); y++) {
+        const start = (y * this.width + Math.max(0, frame.x)) * 4;
+        const end = (y * this.width + Math.min(this.width, frame.x + frame.width)) * 4;
+        if (end > start) this.canvas.fill(0, start, end);
+      }
+    }
+  }
+}
+
+/** Decode a standalone PNG/WebP frame with the browser's decoder */
+async function decodeBrowserPatch(data: Uint8Array, format: AnimationFormat, info: AnimationFrameInfo): Promise<Uint8ClampedArray> {
+  const bitmap = await createImageBitmap(new Blob([data], { type: format === 'apng' ? 'image/png' : 'image/webp' }));
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = info.width;
+    canvas.height = info.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, info.width, info.height).data;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Decode and composite every frame of an animated GIF, APNG or WebP.
+ * Decoding stops once the composited frames reach the memory budget.
+ */
+export async function decodeAnimation(bytes: Uint8Array, options: DecodeAnimationOptions = {}): Promise<DecodedAnimation> {
+  const parsed = parseAny(bytes);
+  if (!parsed) throw new Error('Not an animated GIF, APNG or WebP image');
+
+  const { info, sources, gifImages } = parsed;
+  if (!info.width || !info.height) throw new Error('Animation has an empty canvas');
+
+  const frameBytes = info.width * info.height * 4;
+  const limit = Math.max(1, Math.floor((options.maxBytes ?? DEFAULT_MAX_BYTES) / frameBytes));
+  const compositor = new AnimationCompositor(info.width, info.height);
+  const frames: Uint8ClampedArray[] = [];
+
+  for (const source of sources.slice(0, limit)) {
+    if (options.isCancelled?.()) break; // Callers discard cancelled results
+    let patch: Uint8ClampedArray;
+    if (gifImages) {
+      // GIF decoding is synchronous; yield now and then so long animations don't block the page
+      if (source.info.index % 8 === 7) await new Promise(resolve => setTimeout(resolve, 0));
+      patch = decodeGifImage(gifImages[source.info.index]);
+    } else {
+      patch = await decodeBrowserPatch(source.data, info.format, source.info);
+    }
+    frames.push(compositor.compose(source.info, patch));
+  }
+
+  if (sources.length > limit) {
+    console.warn(`⚠️ Animation decoding stopped at ${limit} of ${sources.length} frames (memory budget)`);
+  }
+  return { info, frames, truncated: sources.length > limit };
+}
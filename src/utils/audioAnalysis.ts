@@ -0,0 +1,151 @@
+/**
+ * Waveform peaks and spectrograms computed from decoded audio samples
+ */
+
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface Spectrogram {
+  columns: Float32Array[]; // One per time slice, magnitudes in dB from 0 Hz up to Nyquist
+  bins: number;
+  sampleRate: number;
+}
+
+export interface SpectrogramOptions {
+  fftSize?: number; // Power of two
+  columns?: number;
+  minDecibels?: number;
+}
+
+/**
+ * Min and max sample per bucket across all channels, for drawing a waveform
+ * `buckets` wide
+ */
+export function computePeaks(channels: Float32Array[], buckets: number): WaveformPeaks {
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  const length = channels[0]?.length ?? 0;
+  if (!length || buckets <= 0) return { min, max };
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor((bucket * length) / buckets);
+    const end = Math.max(start + 1, Math.floor(((bucket + 1) * length) / buckets));
+    let low = 0;
+    let high = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end && i < length; i++) {
+        const sample = channel[i];
+        if (sample < low) low = sample;
+        if (sample > high) high = sample;
+      }
+    }
+    min[bucket] = low;
+    max[bucket] = high;
+  }
+  return { min, max };
+}
+
+/**
+ * In-place radix-2 FFT; `real` and `imag` must have the same power-of-two length
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const tReal = wReal * real[odd] - wImag * imag[odd];
+        const tImag = wReal * imag[odd] + wImag * real[odd];
+        real[odd] = real[even] - tReal;
+        imag[odd] = imag[even] - tImag;
+        real[even] += tReal;
+        imag[even] += tImag;
+        [wReal, wImag] = [wReal * stepReal - wImag * stepImag, wReal * stepImag + wImag * stepReal];
+      }
+    }
+  }
+}
+
+/**
+ * Short-time Fourier transform of mono samples with a Hann window. Columns
+ * are spread evenly over the whole clip.
+ */
+export function computeSpectrogram(samples: Float32Array, sampleRate: number, options: SpectrogramOptions = {}): Spectrogram {
+  const { fftSize = 1024, columns: columnCount = 512, minDecibels = -100 } = options;
+  const bins = fftSize / 2;
+  const window = new Float32Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1));
+  }
+  // Full-scale sine through the window peaks at fftSize / 4
+  const reference = fftSize / 4;
+
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const columns: Float32Array[] = [];
+  const span = Math.max(0, samples.length - fftSize);
+
+  for (let column = 0; column < columnCount; column++) {
+    const start = columnCount > 1 ? Math.round((column * span) / (columnCount - 1)) : 0;
+    for (let i = 0; i < fftSize; i++) {
+      real[i] = (samples[start + i] ?? 0) * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    const magnitudes = new Float32Array(bins);
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.hypot(real[bin], imag[bin]) / reference;
+      magnitudes[bin] = Math.max(minDecibels, 20 * Math.log10(magnitude || Number.MIN_VALUE));
+    }
+    columns.push(magnitudes);
+  }
+
+  return { columns, bins, sampleRate };
+}
+
+/**
+ * Average all channels into one
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  channels.forEach(channel => {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  });
+  return mono;
+}
+
+const SPECTROGRAM_STOPS: Array<[number, number, number]> = [
+  [0, 0, 4], [40, 11, 84], [101, 21, 110], [159, 42, 99], [212, 72, 66], [245, 125, 21], [250, 193, 39], [252, 255, 164]
+];
+
+/**
+ * Inferno-style color for a level between 0 (silent) and 1 (loudest)
+ */
+export function spectrogramColor(level: number): [number, number, number] {
+  const position = Math.max(0, Math.min(1, level)) * (SPECTROGRAM_STOPS.length - 1);
+  const index = Math.min(SPECTROGRAM_STOPS.length - 2, Math.floor(position));
+  const t = position - index;
+  const [from, to] = [SPECTROGRAM_STOPS[index], SPECTROGRAM_STOPS[index + 1]];
+  return [0, 1, 2].map(i => Math.round(from[i] + (to[i] - from[i]) * t)) as [number, number, number];
+}
@@ -0,0 +1,394 @@
+/**
+ * Audio tag readers: ID3v2/ID3v1 (MP3) and Vorbis comments (Ogg Vorbis,
+ * Opus and FLAC), including embedded cover art
+ */
+
+export interface AudioPicture {
+  mimeType: string;
+  description: string;
+  data: Uint8Array;
+}
+
+export interface AudioTags {
+  format: 'id3v2' | 'id3v1' | 'vorbis';
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: string;
+  genre?: string;
+  track?: string;
+  picture?: AudioPicture;
+}
+
+// =================
+// Byte helpers
+// =================
+
+const be32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const le32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const syncsafe32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  latin1.decode(bytes.subarray(offset, offset + length));
+
+/** Remove 0xFF 0x00 unsynchronisation pairs */
+function resync(bytes: Uint8Array): Uint8Array {
+  const output = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    output[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return output.subarray(0, length);
+}
+
+/** Drop empty values and keep only the keys that are set */
+function compact(tags: AudioTags): AudioTags {
+  const result = { ...tags };
+  (Object.keys(result) as Array<keyof AudioTags>).forEach(key => {
+    const value = result[key];
+    if (value === undefined || (typeof value === 'string' && !value.trim())) delete result[key];
+  });
+  return result;
+}
+
+// =================
+// ID3
+// =================
+
+/** ID3v1 genres 0-79 */
+const ID3_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock'
+];
+
+/** Resolve "(17)", "17" and "(17)Rock" style genre references */
+function resolveGenre(value: string): string {
+  const match = value.match(/^\((\d+)\)(.*)$/) || value.match(/^(\d+)()$/);
+  if (!match) return value;
+  return match[2].trim() || ID3_GENRES[Number(match[1])] || value;
+}
+
+/** Decode ID3 text in the given encoding byte, stopping at the first terminator */
+function decodeId3Text(bytes: Uint8Array, encoding: number): string {
+  let label = 'latin1';
+  let data = bytes;
+  if (encoding === 1 || encoding === 2) {
+    label = encoding === 2 ? 'utf-16be' : 'utf-16le';
+    if (data[0] === 0xfe && data[1] === 0xff) {
+      label = 'utf-16be';
+      data = data.subarray(2);
+    } else if (data[0] === 0xff && data[1] === 0xfe) {
+      data = data.subarray(2);
+    }
+  } else if (encoding === 3) {
+    label = 'utf-8';
+  }
+  // v2.4 separates multiple values with the terminator; the first is enough
+  return new TextDecoder(label).decode(data.subarray(0, id3TextEnd(data, encoding))).trim();
+}
+
+/** Offset of the terminator of a string in the given encoding, or the length */
+function id3TextEnd(bytes: Uint8Array, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = 0; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+}
+
+function parseApic(data: Uint8Array, legacy: boolean): { type: number, picture: AudioPicture } | null {
+  const encoding = data[0];
+  let offset = 1;
+  let mimeType: string;
+  if (legacy) {
+    // ID3v2.2 PIC has a three-letter image format instead of a MIME type
+    const format = ascii(data, 1, 3).toLowerCase();
+    mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const end = data.indexOf(0, offset);
+    if (end < 0) return null;
+    mimeType = ascii(data, offset, end - offset).toLowerCase() || 'image/jpeg';
+    if (!mimeType.includes('/')) mimeType = `image/${mimeType === 'jpg' ? 'jpeg' : mimeType}`;
+    offset = end + 1;
+  }
+  const type = data[offset++];
+  const rest = data.subarray(offset);
+  const end = id3TextEnd(rest, encoding);
+  const description = decodeId3Text(rest.subarray(0, end), encoding);
+  const start = end + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (start > rest.length) return null;
+  return { type, picture: { mimeType, description, data: rest.slice(start) } };
+}
+
+const ID3_TEXT_FRAMES: Record<string, keyof AudioTags> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TYER: 'year', TYE: 'year', TDRC: 'year',
+  TCON: 'genre', TCO: 'genre',
+  TRCK: 'track', TRK: 'track'
+};
+
+/**
+ * Read an ID3v2.2-2.4 tag at the start of the file
+ */
+export function parseId3v2(bytes: Uint8Array): AudioTags | null {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') return null;
+  const version = bytes[3];
+  if (version < 2 || version > 4) return null;
+  const flags = bytes[5];
+  const size = syncsafe32(bytes, 6);
+  let tag = bytes.subarray(10, Math.min(bytes.length, 10 + size));
+  // Before v2.4 unsynchronisation applies to the whole tag
+  if (flags & 0x80 && version < 4) tag = resync(tag);
+
+  let offset = 0;
+  if (flags & 0x40 && version > 2) {
+    offset = version === 4 ? syncsafe32(tag, 0) : be32(tag, 0) + 4;
+  }
+
+  const tags: AudioTags = { format: 'id3v2' };
+  let cover: { type: number, picture: AudioPicture } | null = null;
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  while (offset + headerLength <= tag.length) {
+    const id = ascii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+    const frameSize = version === 2
+      ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+      : version === 4 ? syncsafe32(tag, offset + 4) : be32(tag, offset + 4);
+    const frameFlags = version === 2 ? 0 : tag[offset + 9];
+    const start = offset + headerLength;
+    offset = start + frameSize;
+    if (offset > tag.length) break;
+
+    // Compressed and encrypted frames are skipped
+    if (version === 3 && frameFlags & 0xc0) continue;
+    if (version === 4 && frameFlags & 0x0c) continue;
+    let data = tag.subarray(start, start + frameSize);
+    if (version === 4 && frameFlags & 0x02) data = resync(data);
+    if (version === 4 && frameFlags & 0x01) data = data.subarray(4); // Data length indicator
+
+    const field = ID3_TEXT_FRAMES[id];
+    if (field && data.length > 1 && !tags[field]) {
+      const text = decodeId3Text(data.subarray(1), data[0]);
+      (tags as unknown as Record<string, string>)[field] = field === 'genre' ? resolveGenre(text) : text;
+    } else if ((id === 'APIC' || id === 'PIC') && data.length > 4) {
+      const parsed = parseApic(data, id === 'PIC');
+      // Prefer the front cover (type 3) over other pictures
+      if (parsed && (!cover || (parsed.type === 3 && cover.type !== 3))) cover = parsed;
+    }
+  }
+
+  if (cover) tags.picture = cover.picture;
+  return compact(tags);
+}
+
+/**
+ * Read an ID3v1 tag from the last 128 bytes of the file
+ */
+export function parseId3v1(bytes: Uint8Array): AudioTags | null {
+  if (bytes.length < 128) return null;
+  const tag = bytes.subarray(bytes.length - 128);
+  if (ascii(tag, 0, 3) !== 'TAG') return null;
+  const field = (offset: number, length: number) => {
+    const raw = tag.subarray(offset, offset + length);
+    const end = raw.indexOf(0);
+    return latin1.decode(end >= 0 ? raw.subarray(0, end) : raw).trim();
+  };
+  // ID3v1.1 keeps the track number in the last comment byte
+  const track = tag[125] === 0 && tag[126] ? String(tag[126]) : undefined;
+  return compact({
+    format: 'id3v1',
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: field(93, 4),
+    genre: ID3_GENRES[tag[127]],
+    track
+  });
+}
+
+// =================
+// Vorbis comments
+// =================
+
+/**
+ * Parse a FLAC PICTURE block, also used base64-encoded in Vorbis comments
+ */
+function parseFlacPicture(data: Uint8Array): { type: number, picture: AudioPicture } | null {
+  if (data.length < 32) return null;
+  const type = be32(data, 0);
+  let offset = 4;
+  const mimeLength = be32(data, offset);
+  const mimeType = ascii(data, offset + 4, mimeLength) || 'image/jpeg';
+  offset += 4 + mimeLength;
+  const descriptionLength = be32(data, offset);
+  const description = utf8.decode(data.subarray(offset + 4, offset + 4 + descriptionLength));
+  offset += 4 + descriptionLength + 16; // Width, height, depth and palette size
+  const length = be32(data, offset);
+  offset += 4;
+  if (offset + length > data.length) return null;
+  return { type, picture: { mimeType, description, data: data.slice(offset, offset + length) } };
+}
+
+function base64ToBytes(value: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(value.replace(/\s+/g, '')), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+const VORBIS_FIELDS: Record<string, keyof AudioTags> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUM: 'album',
+  DATE: 'year',
+  YEAR: 'year',
+  GENRE: 'genre',
+  TRACKNUMBER: 'track'
+};
+
+/**
+ * Parse a Vorbis comment block (vendor string, then KEY=value entries)
+ */
+export function parseVorbisComment(data: Uint8Array): AudioTags | null {
+  if (data.length < 8) return null;
+  let offset = 4 + le32(data, 0);
+  if (offset + 4 > data.length) return null;
+  const count = le32(data, offset);
+  offset += 4;
+
+  const tags: AudioTags = { format: 'vorbis' };
+  let cover: { type: number, picture: AudioPicture } | null = null;
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = le32(data, offset);
+    const entry = data.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+    const separator = entry.indexOf(0x3d); // '='
+    if (separator <= 0) continue;
+    const key = ascii(entry, 0, separator).toUpperCase();
+    const field = VORBIS_FIELDS[key];
+    if (field && !tags[field]) {
+      (tags as unknown as Record<string, string>)[field] = utf8.decode(entry.subarray(separator + 1)).trim();
+    } else if (key === 'METADATA_BLOCK_PICTURE') {
+      const bytes = base64ToBytes(ascii(entry, separator + 1, entry.length - separator - 1));
+      const parsed = bytes && parseFlacPicture(bytes);
+      if (parsed && (!cover || (parsed.type === 3 && cover.type !== 3))) cover = parsed;
+    }
+  }
+
+  if (cover) tags.picture = cover.picture;
+  return compact(tags);
+}
+
+/**
+ * Read the comment and picture metadata blocks of a FLAC file
+ */
+export function parseFlacTags(bytes: Uint8Array): AudioTags | null {
+  if (ascii(bytes, 0, 4) !== 'fLaC') return null;
+  let offset = 4;
+  let tags: AudioTags | null = null;
+  let cover: { type: number, picture: AudioPicture } | null = null;
+
+  while (offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const block = bytes.subarray(offset + 4, offset + 4 + length);
+    const type = header & 0x7f;
+    if (type === 4) tags = parseVorbisComment(block);
+    if (type === 6) {
+      const parsed = parseFlacPicture(block);
+      if (parsed && (!cover || (parsed.type === 3 && cover.type !== 3))) cover = parsed;
+    }
+    offset += 4 + length;
+    if (header & 0x80) break; // Last metadata block
+  }
+
+  if (!tags && !cover) return null;
+  const result: AudioTags = tags ?? { format: 'vorbis' };
+  if (cover && !result.picture) result.picture = cover.picture;
+  return result;
+}
+
+/**
+ * Reassemble the second logical packet of the first Ogg stream, which holds
+ * the comment header for Vorbis and Opus
+ */
+function oggCommentPacket(bytes: Uint8Array): Uint8Array | null {
+  const chunks: Uint8Array[] = [];
+  let packet = 0;
+  let serial: number | null = null;
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && ascii(bytes, offset, 4) === 'OggS') {
+    const pageSerial = le32(bytes, offset + 14);
+    const segments = bytes[offset + 26];
+    let dataOffset = offset + 27 + segments;
+    if (serial === null) serial = pageSerial;
+
+    for (let i = 0; i < segments; i++) {
+      const lacing = bytes[offset + 27 + i];
+      if (pageSerial === serial && packet === 1) {
+        chunks.push(bytes.subarray(dataOffset, dataOffset + lacing));
+      }
+      dataOffset += lacing;
+      // A lacing value below 255 ends the packet
+      if (lacing < 255 && pageSerial === serial) {
+        if (packet === 1) {
+          const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+          const output = new Uint8Array(total);
+          let position = 0;
+          chunks.forEach(chunk => {
+            output.set(chunk, position);
+            position += chunk.length;
+          });
+          return output;
+        }
+        packet++;
+      }
+    }
+    offset = dataOffset;
+  }
+  return null;
+}
+
+/**
+ * Read Vorbis comments from an Ogg Vorbis or Opus file
+ */
+export function parseOggTags(bytes: Uint8Array): AudioTags | null {
+  if (ascii(bytes, 0, 4) !== 'OggS') return null;
+  const packet = oggCommentPacket(bytes);
+  if (!packet) return null;
+  if (packet[0] === 3 && ascii(packet, 1, 6) === 'vorbis') return parseVorbisComment(packet.subarray(7));
+  if (ascii(packet, 0, 8) === 'OpusTags') return parseVorbisComment(packet.subarray(8));
+  return null;
+}
+
+/**
+ * Read whichever tag format the file carries. ID3v2 takes precedence over
+ * ID3v1; returns null when there are no tags.
+ */
+export function parseAudioTags(bytes: Uint8Array): AudioTags | null {
+  const tags = parseId3v2(bytes) ?? parseFlacTags(bytes) ?? parseOggTags(bytes);
+  if (tags && Object.keys(tags).length > 1) return tags;
+  return parseId3v1(bytes);
+}
@@ -0,0 +1,51 @@
+/**
+ * Byte helpers shared by the binary decoders
+ */
+
+/**
+ * Decode a hex string (optionally 0x-prefixed or JSON-quoted) into bytes
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.trim().replace(/^"|"$/g, '').replace(/^0x/i, '').replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) {
+    throw new Error('Invalid hex string');
+  }
+
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Classic offset / hex / ASCII dump, one row per line
+ */
+export function formatHexDump(bytes: Uint8Array, bytesPerLine: number = 16, maxBytes: number = 4096): string {
+  const lines: string[] = [];
+  const length = Math.min(bytes.length, maxBytes);
+
+  for (let offset = 0; offset < length; offset += bytesPerLine) {
+    const row = bytes.subarray(offset, Math.min(offset + bytesPerLine, length));
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(bytesPerLine * 3 - 1)}  |${ascii}|`);
+  }
+
+  if (bytes.length > length) {
+    lines.push(`... ${(bytes.length - length).toLocaleString()} more bytes`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,359 @@
+/**
+ * CBOR (RFC 8949) decoder for inscription metadata
+ * Preserves byte strings, tags, big integers and non-string map keys
+ */
+
+import { bytesToHex, hexToBytes } from './bytes';
+
+export class CborByteString {
+  constructor(public readonly bytes: Uint8Array) {}
+
+  toHex(): string {
+    return bytesToHex(this.bytes);
+  }
+}
+
+export class CborTag {
+  constructor(public readonly tag: number | bigint, public readonly value: CborValue) {}
+
+  get name(): string | undefined {
+    return CBOR_TAG_NAMES[Number(this.tag)];
+  }
+}
+
+export class CborSimple {
+  constructor(public readonly value: number) {}
+}
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | CborByteString
+  | CborTag
+  | CborSimple
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export interface CborDecodeResult {
+  value?: CborValue;
+  bytes: Uint8Array;
+  error?: string;
+}
+
+/** Registered tag names (subset of the IANA registry) */
+export const CBOR_TAG_NAMES: Record<number, string> = {
+  0: 'date/time string',
+  1: 'epoch date/time',
+  2: 'unsigned bignum',
+  3: 'negative bignum',
+  4: 'decimal fraction',
+  5: 'bigfloat',
+  21: 'expected base64url',
+  22: 'expected base64',
+  23: 'expected base16',
+  24: 'embedded CBOR',
+  32: 'URI',
+  33: 'base64url',
+  34: 'base64',
+  36: 'MIME message',
+  37: 'UUID',
+  258: 'set',
+  55799: 'self-described CBOR'
+};
+
+const MAX_NESTING = 256;
+const BREAK = Symbol('break');
+
+class CborReader {
+  private view: DataView;
+  private offset = 0;
+  private textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`CBOR decode error at byte ${this.offset}: ${message}`);
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      this.fail(`unexpected end of input (needed ${length} more bytes)`);
+    }
+  }
+
+  private readUint8(): number {
+    this.ensure(1);
+    return this.bytes[this.offset++];
+  }
+
+  private readArgument(additional: number): number | bigint {
+    if (additional < 24) return additional;
+
+    switch (additional) {
+      case 24:
+        return this.readUint8();
+      case 25: {
+        this.ensure(2);
+        const value = this.view.getUint16(this.offset);
+        this.offset += 2;
+        return value;
+      }
+      case 26: {
+        this.ensure(4);
+        const value = this.view.getUint32(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case 27: {
+        this.ensure(8);
+        const value = this.view.getBigUint64(this.offset);
+        this.offset += 8;
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        return this.fail(`invalid additional information ${additional}`);
+    }
+  }
+
+  private readLength(additional: number): number {
+    const length = this.readArgument(additional);
+    // Every element occupies at least one byte, so longer lengths can only be malformed
+    if (typeof length === 'bigint' || length > this.remaining) {
+      this.fail(`length ${length} exceeds input size`);
+    }
+    return length as number;
+  }
+
+  private readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  private readChunks(majorType: number, depth: number): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+    while (true) {
+      const item = this.readItem(depth + 1, true);
+      if (item === BREAK) return chunks;
+      if (majorType === 2 && item instanceof CborByteString) {
+        chunks.push(item.bytes);
+      } else if (majorType === 3 && typeof item === 'string') {
+        chunks.push(new TextEncoder().encode(item));
+      } else {
+        this.fail('invalid chunk in indefinite-length string');
+      }
+    }
+  }
+
+  private concat(chunks: Uint8Array[]): Uint8Array {
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const result = new Uint8Array(total);
+    let position = 0;
+    chunks.forEach(chunk => {
+      result.set(chunk, position);
+      position += chunk.length;
+    });
+    return result;
+  }
+
+  private decodeText(bytes: Uint8Array): string {
+    try {
+      return this.textDecoder.decode(bytes);
+    } catch {
+      return this.fail('invalid UTF-8 in text string');
+    }
+  }
+
+  private readFloat16(): number {
+    this.ensure(2);
+    const half = this.view.getUint16(this.offset);
+    this.offset += 2;
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * Math.pow(2, -14) * (mantissa / 1024);
+    if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+    return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+  }
+
+  readItem(depth: number = 0, allowBreak: boolean = false): CborValue | typeof BREAK {
+    if (depth > MAX_NESTING) {
+      this.fail(`nesting deeper than ${MAX_NESTING} levels`);
+    }
+
+    const initial = this.readUint8();
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+
+    switch (majorType) {
+      case 0:
+        return this.readArgument(additional);
+
+      case 1: {
+        const argument = this.readArgument(additional);
+        return typeof argument === 'bigint' ? -1n - argument : -1 - argument;
+      }
+
+      case 2:
+      case 3: {
+        const bytes = additional === 31
+          ? this.concat(this.readChunks(majorType, depth))
+          : this.readBytes(this.readLength(additional));
+        return majorType === 2 ? new CborByteString(bytes) : this.decodeText(bytes);
+      }
+
+      case 4: {
+        const items: CborValue[] = [];
+        if (additional === 31) {
+          while (true) {
+            const item = this.readItem(depth + 1, true);
+            if (item === BREAK) break;
+            items.push(item);
+          }
+        } else {
+          const length = this.readLength(additional);
+          for (let i = 0; i < length; i++) {
+            items.push(this.readItem(depth + 1) as CborValue);
+          }
+        }
+        return items;
+      }
+
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        const readEntry = (key: CborValue) => {
+          map.set(key, this.readItem(depth + 1) as CborValue);
+        };
+        if (additional === 31) {
+          while (true) {
+            const key = this.readItem(depth + 1, true);
+            if (key === BREAK) break;
+            readEntry(key);
+          }
+        } else {
+          const length = this.readLength(additional);
+          for (let i = 0; i < length; i++) {
+            readEntry(this.readItem(depth + 1) as CborValue);
+          }
+        }
+        return map;
+      }
+
+      case 6: {
+        const tag = this.readArgument(additional);
+        const value = this.readItem(depth + 1) as CborValue;
+
+        // Bignums are decoded straight into bigint
+        if ((tag === 2 || tag === 3) && value instanceof CborByteString) {
+          let magnitude = 0n;
+          value.bytes.forEach(byte => {
+            magnitude = (magnitude << 8n) | BigInt(byte);
+          });
+          return tag === 2 ? magnitude : -1n - magnitude;
+        }
+        return new CborTag(tag, value);
+      }
+
+      case 7:
+        switch (additional) {
+          case 20: return false;
+          case 21: return true;
+          case 22: return null;
+          case 23: return undefined;
+          case 24: return new CborSimple(this.readUint8());
+          case 25: return this.readFloat16();
+          case 26: {
+            this.ensure(4);
+            const value = this.view.getFloat32(this.offset);
+            this.offset += 4;
+            return value;
+          }
+          case 27: {
+            this.ensure(8);
+            const value = this.view.getFloat64(this.offset);
+            this.offset += 8;
+            return value;
+          }
+          case 31:
+            if (!allowBreak) this.fail('unexpected break');
+            return BREAK;
+          default:
+            if (additional < 20) return new CborSimple(additional);
+            return this.fail(`reserved simple value ${additional}`);
+        }
+
+      default:
+        return this.fail(`invalid major type ${majorType}`);
+    }
+  }
+}
+
+/**
+ * Decode a single CBOR item. Throws on malformed input or trailing bytes.
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const reader = new CborReader(bytes);
+  const value = reader.readItem() as CborValue;
+  if (reader.remaining > 0) {
+    throw new Error(`CBOR decode error at byte ${reader.position}: ${reader.remaining} trailing bytes`);
+  }
+  return value;
+}
+
+/**
+ * Decode hex-encoded CBOR (as returned by /r/metadata) without throwing.
+ * The raw bytes are always returned so callers can fall back to a hex dump.
+ */
+export function decodeCborHex(hex: string): CborDecodeResult {
+  let bytes: Uint8Array;
+  try {
+    bytes = hexToBytes(hex);
+  } catch (error) {
+    return { bytes: new Uint8Array(0), error: error instanceof Error ? error.message : 'Invalid hex string' };
+  }
+
+  try {
+    return { value: decodeCbor(bytes), bytes };
+  } catch (error) {
+    return { bytes, error: error instanceof Error ? error.message : 'CBOR decode failed' };
+  }
+}
+
+/**
+ * Convert a decoded value into plain JSON-safe data: byte strings become h'..' strings,
+ * big integers become decimal strings, tags become { tag, value } objects
+ */
+export function cborToJson(value: CborValue): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof CborByteString) return `h'${value.toHex()}'`;
+  if (value instanceof CborSimple) return `simple(${value.value})`;
+  if (value instanceof CborTag) {
+    return { tag: Number(value.tag), value: cborToJson(value.value) };
+  }
+  if (Array.isArray(value)) return value.map(cborToJson);
+  if (value instanceof Map) {
+    const result: Record<string, unknown> = {};
+    value.forEach((entry, key) => {
+      const jsonKey = typeof key === 'string' ? key : JSON.stringify(cborToJson(key));
+      result[jsonKey] = cborToJson(entry);
+    });
+    return result;
+  }
+  return value;
+}
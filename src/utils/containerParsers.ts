@@ -0,0 +1,1284 @@
+/**
+ * Container parsers
+ * Lightweight readers that pull structured details (archive listings, font names,
+ * PDF info, executable headers) out of bytes that have already been fetched
+ */
+
+import { sniffContent } from './contentSniffer';
+
+// =================
+// TYPES
+// =================
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  compressedSize: number;
+  method: number;
+  methodName: string;
+  isDirectory: boolean;
+  encrypted: boolean;
+  modified: Date | null;
+  crc32: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipInfo {
+  entries: ZipEntry[];
+  comment: string;
+  totalSize: number;
+  totalCompressedSize: number;
+  truncated: boolean; // Central directory missing; entries recovered from local headers
+}
+
+export interface TarEntry {
+  name: string;
+  size: number;
+  type: 'file' | 'directory' | 'symlink' | 'link' | 'other';
+  mode: number;
+  modified: Date | null;
+  dataOffset: number;
+}
+
+export interface TarInfo {
+  entries: TarEntry[];
+  totalSize: number;
+  compressed: boolean; // Read from a gzip stream
+}
+
+export interface FontInfo {
+  format: 'TrueType' | 'OpenType' | 'WOFF' | 'WOFF2' | 'Collection';
+  family?: string;
+  subfamily?: string;
+  fullName?: string;
+  postscriptName?: string;
+  version?: string;
+  designer?: string;
+  manufacturer?: string;
+  copyright?: string;
+  license?: string;
+  glyphCount?: number;
+  unitsPerEm?: number;
+  tables: string[];
+  codepoints?: number[]; // Unicode codepoints mapped by the cmap table, ascending
+  fontCount?: number; // Collections only
+  namesUnavailable?: boolean; // WOFF2 tables are Brotli-compressed
+}
+
+export interface PdfInfo {
+  version?: string;
+  pageCount?: number;
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: Date | null;
+  modificationDate?: Date | null;
+  encrypted: boolean;
+  linearized: boolean;
+}
+
+export interface ExecutableSection {
+  name: string;
+  size: number;
+  virtualSize?: number;
+}
+
+export interface PeInfo {
+  machine: string;
+  is64Bit: boolean;
+  isDll: boolean;
+  isDotNet: boolean;
+  subsystem: string;
+  timestamp: Date | null;
+  entryPoint: string;
+  imageBase: string;
+  characteristics: string[];
+  sections: ExecutableSection[];
+}
+
+export interface ElfInfo {
+  is64Bit: boolean;
+  littleEndian: boolean;
+  osAbi: string;
+  type: string;
+  machine: string;
+  entryPoint: string;
+  programHeaders: number;
+  interpreter?: string;
+  sections: ExecutableSection[];
+}
+
+export type ContainerDetails =
+  | { kind: 'zip'; format: string; info: ZipInfo }
+  | { kind: 'tar'; format: string; info: TarInfo }
+  | { kind: 'font'; format: string; info: FontInfo }
+  | { kind: 'pdf'; format: string; info: PdfInfo }
+  | { kind: 'pe'; format: string; info: PeInfo }
+  | { kind: 'elf'; format: string; info: ElfInfo };
+
+/** Format-neutral archive entry used by the archive browser */
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  compressedSize: number;
+  isDirectory: boolean;
+  modified: Date | null;
+  encrypted: boolean;
+  method: string;
+}
+
+export interface OpenedArchive {
+  kind: 'zip' | 'tar';
+  format: string;
+  entries: ArchiveEntry[];
+  truncated: boolean;
+  read(path: string): Promise<Uint8Array>;
+}
+
+export interface InspectOptions {
+  maxBytes?: number; // Inspect at most this many bytes (default 64MB)
+  maxEntries?: number; // Cap archive listings (default 10000)
+}
+
+// =================
+// BYTE HELPERS
+// =================
+
+class ByteReader {
+  private view: DataView;
+
+  constructor(public readonly bytes: Uint8Array, private littleEndian: boolean = true) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  has(offset: number, length: number): boolean {
+    return offset >= 0 && offset + length <= this.bytes.length;
+  }
+
+  private check(offset: number, length: number): void {
+    if (!this.has(offset, length)) {
+      throw new Error(`Read of ${length} bytes at ${offset} is past the end (${this.bytes.length})`);
+    }
+  }
+
+  u8(offset: number): number {
+    this.check(offset, 1);
+    return this.bytes[offset];
+  }
+
+  u16(offset: number): number {
+    this.check(offset, 2);
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  u32(offset: number): number {
+    this.check(offset, 4);
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  u64(offset: number): bigint {
+    this.check(offset, 8);
+    return this.view.getBigUint64(offset, this.littleEndian);
+  }
+
+  ascii(offset: number, length: number): string {
+    this.check(offset, length);
+    return latin1(this.bytes.subarray(offset, offset + length));
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+}
+
+function utf16be(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return text;
+}
+
+function cString(value: string): string {
+  const end = value.indexOf('\0');
+  return (end >= 0 ? value.slice(0, end) : value).trim();
+}
+
+function toHex(value: number | bigint): string {
+  return `0x${value.toString(16)}`;
+}
+
+/**
+ * Decompress with the browser's DecompressionStream, stopping after maxBytes of output
+ */
+export async function decompressBytes(
+  bytes: Uint8Array,
+  format: 'gzip' | 'deflate' | 'deflate-raw',
+  maxBytes: number = 64 * 1024 * 1024
+): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error(`DecompressionStream is not available for ${format}`);
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    while (total < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      total += value.length;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  const output = new Uint8Array(Math.min(total, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, output.length - offset);
+    output.set(slice, offset);
+    offset += slice.length;
+    if (offset >= output.length) break;
+  }
+  return output;
+}
+
+// =================
+// ZIP
+// =================
+
+const ZIP_METHODS: Record<number, string> = {
+  0: 'Stored',
+  1: 'Shrunk',
+  6: 'Imploded',
+  8: 'Deflate',
+  9: 'Deflate64',
+  12: 'BZIP2',
+  14: 'LZMA',
+  93: 'Zstandard',
+  95: 'XZ',
+  98: 'PPMd',
+  99: 'AES'
+};
+
+function dosDateTime(date: number, time: number): Date | null {
+  if (date === 0) return null;
+  const year = (date >> 9) + 1980;
+  const month = ((date >> 5) & 0x0f) - 1;
+  const day = date & 0x1f;
+  if (month < 0 || month > 11 || day === 0) return null;
+  return new Date(year, month, day, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+}
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: false });
+
+function findEndOfCentralDirectory(reader: ByteReader): number {
+  const minimum = Math.max(0, reader.length - 22 - 0xffff);
+  for (let offset = reader.length - 22; offset >= minimum; offset--) {
+    if (reader.u32(offset) === 0x06054b50) return offset;
+  }
+  return -1;
+}
+
+function readZip64Extra(reader: ByteReader, start: number, length: number, fields: { size: boolean; compressed: boolean; offset: boolean }) {
+  const result: { size?: number; compressed?: number; offset?: number } = {};
+  let position = start;
+  while (position + 4 <= start + length) {
+    const id = reader.u16(position);
+    const dataLength = reader.u16(position + 2);
+    if (id === 0x0001) {
+      let cursor = position + 4;
+      if (fields.size) { result.size = Number(reader.u64(cursor)); cursor += 8; }
+      if (fields.compressed) { result.compressed = Number(reader.u64(cursor)); cursor += 8; }
+      if (fields.offset) { result.offset = Number(reader.u64(cursor)); }
+      break;
+    }
+    position += 4 + dataLength;
+  }
+  return result;
+}
+
+function scanLocalHeaders(reader: ByteReader, maxEntries: number): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  while (reader.has(offset, 30) && reader.u32(offset) === 0x04034b50 && entries.length < maxEntries) {
+    const flags = reader.u16(offset + 6);
+    const method = reader.u16(offset + 8);
+    const compressedSize = reader.u32(offset + 18);
+    const nameLength = reader.u16(offset + 26);
+    const extraLength = reader.u16(offset + 28);
+    if (!reader.has(offset + 30, nameLength)) break;
+    const name = utf8Decoder.decode(reader.bytes.subarray(offset + 30, offset + 30 + nameLength));
+
+    entries.push({
+      name,
+      size: reader.u32(offset + 22),
+      compressedSize,
+      method,
+      methodName: ZIP_METHODS[method] || `Method ${method}`,
+      isDirectory: name.endsWith('/'),
+      encrypted: (flags & 0x1) !== 0,
+      modified: dosDateTime(reader.u16(offset + 12), reader.u16(offset + 10)),
+      crc32: reader.u32(offset + 14),
+      localHeaderOffset: offset
+    });
+
+    // Sizes live in a trailing data descriptor; the next header can't be located reliably
+    if (flags & 0x8) break;
+    offset += 30 + nameLength + extraLength + compressedSize;
+  }
+
+  return entries;
+}
+
+/**
+ * List a ZIP archive from its central directory (with ZIP64 support),
+ * falling back to local headers when the archive is truncated
+ */
+export function parseZip(bytes: Uint8Array, maxEntries: number = 10000): ZipInfo {
+  const reader = new ByteReader(bytes);
+  const eocd = reader.length >= 22 ? findEndOfCentralDirectory(reader) : -1;
+
+  if (eocd < 0) {
+    const entries = scanLocalHeaders(reader, maxEntries);
+    if (entries.length === 0) {
+      throw new Error('No ZIP end of central directory or local headers found');
+    }
+    return summarizeZip(entries, '', true);
+  }
+
+  let entryCount = reader.u16(eocd + 10);
+  let directoryOffset = reader.u32(eocd + 16);
+  const commentLength = reader.u16(eocd + 20);
+  const comment = reader.has(eocd + 22, commentLength)
+    ? utf8Decoder.decode(bytes.subarray(eocd + 22, eocd + 22 + commentLength))
+    : '';
+
+  // ZIP64 end of central directory
+  if ((entryCount === 0xffff || directoryOffset === 0xffffffff) && eocd >= 20 && reader.u32(eocd - 20) === 0x07064b50) {
+    const zip64Offset = Number(reader.u64(eocd - 12));
+    if (reader.has(zip64Offset, 56) && reader.u32(zip64Offset) === 0x06064b50) {
+      entryCount = Number(reader.u64(zip64Offset + 32));
+      directoryOffset = Number(reader.u64(zip64Offset + 48));
+    }
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount && entries.length < maxEntries; i++) {
+    if (!reader.has(offset, 46) || reader.u32(offset) !== 0x02014b50) break;
+
+    const flags = reader.u16(offset + 8);
+    const method = reader.u16(offset + 10);
+    const nameLength = reader.u16(offset + 28);
+    const extraLength = reader.u16(offset + 30);
+    const entryCommentLength = reader.u16(offset + 32);
+    let compressedSize = reader.u32(offset + 20);
+    let size = reader.u32(offset + 24);
+    let localHeaderOffset = reader.u32(offset + 42);
+
+    if (!reader.has(offset + 46, nameLength)) break;
+    const name = utf8Decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (size === 0xffffffff || compressedSize === 0xffffffff || localHeaderOffset === 0xffffffff) {
+      const zip64 = readZip64Extra(reader, offset + 46 + nameLength, extraLength, {
+        size: size === 0xffffffff,
+        compressed: compressedSize === 0xffffffff,
+        offset: localHeaderOffset === 0xffffffff
+      });
+      size = zip64.size ?? size;
+      compressedSize = zip64.compressed ?? compressedSize;
+      localHeaderOffset = zip64.offset ?? localHeaderOffset;
+    }
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      method,
+      methodName: ZIP_METHODS[method] || `Method ${method}`,
+      isDirectory: name.endsWith('/'),
+      encrypted: (flags & 0x1) !== 0,
+      modified: dosDateTime(reader.u16(offset + 14), reader.u16(offset + 12)),
+      crc32: reader.u32(offset + 16),
+      localHeaderOffset
+    });
+
+    offset += 46 + nameLength + extraLength + entryCommentLength;
+  }
+
+  return summarizeZip(entries, comment, false);
+}
+
+/**
+ * Extract one entry's bytes (stored or deflated) using its local header
+ */
+export async function extractZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  if (entry.encrypted) {
+    throw new Error(`${entry.name} is encrypted`);
+  }
+
+  const reader = new ByteReader(bytes);
+  const offset = entry.localHeaderOffset;
+  if (!reader.has(offset, 30) || reader.u32(offset) !== 0x04034b50) {
+    throw new Error(`Missing local header for ${entry.name}`);
+  }
+
+  const start = offset + 30 + reader.u16(offset + 26) + reader.u16(offset + 28);
+  if (!reader.has(start, entry.compressedSize)) {
+    throw new Error(`${entry.name} extends past the end of the archive`);
+  }
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8:
+      return decompressBytes(data, 'deflate-raw', entry.size);
+    default:
+      throw new Error(`${entry.methodName} compression is not supported`);
+  }
+}
+
+function summarizeZip(entries: ZipEntry[], comment: string, truncated: boolean): ZipInfo {
+  return {
+    entries,
+    comment,
+    totalSize: entries.reduce((total, entry) => total + entry.size, 0),
+    totalCompressedSize: entries.reduce((total, entry) => total + entry.compressedSize, 0),
+    truncated
+  };
+}
+
+// =================
+// TAR
+// =================
+
+function parseOctal(reader: ByteReader, offset: number, length: number): number {
+  // GNU base-256 encoding for large values
+  if (reader.u8(offset) & 0x80) {
+    let value = 0;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + reader.u8(offset + i);
+    }
+    return value;
+  }
+  const text = cString(reader.ascii(offset, length));
+  return text ? parseInt(text, 8) || 0 : 0;
+}
+
+const TAR_TYPES: Record<string, TarEntry['type']> = {
+  '0': 'file',
+  '\0': 'file',
+  '7': 'file',
+  '1': 'link',
+  '2': 'symlink',
+  '5': 'directory'
+};
+
+/**
+ * List a POSIX/GNU tar archive, honouring GNU long names and PAX path overrides
+ */
+export function parseTar(bytes: Uint8Array, maxEntries: number = 10000, compressed: boolean = false): TarInfo {
+  const reader = new ByteReader(bytes);
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let pendingName: string | null = null;
+
+  while (reader.has(offset, 512) && entries.length < maxEntries) {
+    // Two zero blocks end the archive; one is enough to stop
+    if (reader.u8(offset) === 0) break;
+
+    const size = parseOctal(reader, offset + 124, 12);
+    const typeFlag = reader.ascii(offset + 156, 1);
+    const dataOffset = offset + 512;
+    const next = dataOffset + Math.ceil(size / 512) * 512;
+
+    if (typeFlag === 'L' || typeFlag === 'x') {
+      const data = latin1(bytes.subarray(dataOffset, Math.min(dataOffset + size, bytes.length)));
+      if (typeFlag === 'L') {
+        pendingName = cString(data);
+      } else {
+        const path = /(?:^|\n)\d+ path=([^\n]*)/.exec(data);
+        if (path) pendingName = utf8Decoder.decode(Uint8Array.from(path[1], char => char.charCodeAt(0)));
+      }
+      offset = next;
+      continue;
+    }
+
+    const isUstar = reader.ascii(offset + 257, 5) === 'ustar';
+    const prefix = isUstar ? cString(reader.ascii(offset + 345, 155)) : '';
+    const baseName = cString(reader.ascii(offset, 100));
+    const name = pendingName || (prefix ? `${prefix}/${baseName}` : baseName);
+    const mtime = parseOctal(reader, offset + 136, 12);
+    pendingName = null;
+
+    if (typeFlag !== 'g') {
+      entries.push({
+        name,
+        size,
+        type: TAR_TYPES[typeFlag] || (name.endsWith('/') ? 'directory' : 'other'),
+        mode: parseOctal(reader, offset + 100, 8),
+        modified: mtime ? new Date(mtime * 1000) : null,
+        dataOffset
+      });
+    }
+
+    offset = next;
+  }
+
+  return {
+    entries,
+    totalSize: entries.reduce((total, entry) => total + entry.size, 0),
+    compressed
+  };
+}
+
+// =================
+// FONTS
+// =================
+
+// FontInfo fields holding free-form strings from the name table
+type FontNameField = { [K in keyof FontInfo]-?: string extends FontInfo[K] ? K : never }[keyof FontInfo];
+
+const NAME_IDS: Record<number, FontNameField> = {
+  0: 'copyright',
+  1: 'family',
+  2: 'subfamily',
+  4: 'fullName',
+  5: 'version',
+  6: 'postscriptName',
+  8: 'manufacturer',
+  9: 'designer',
+  13: 'license'
+};
+
+// WOFF2 known-table index (spec section 4.1)
+const WOFF2_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep', 'CFF ',
+  'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern', 'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS',
+  'GSUB', 'EBSC', 'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar', 'bdat', 'bloc',
+  'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty', 'just', 'lcar', 'mort', 'morx', 'opbd', 'prop',
+  'trak', 'Zapf', 'Silf', 'Glat', 'Gloc', 'Feat', 'Sill'
+];
+
+type TableLookup = (tag: string) => Uint8Array | null;
+
+const MAX_CODEPOINTS = 65536;
+
+/**
+ * Codepoints covered by the best Unicode cmap subtable (format 4 or 12)
+ */
+function readCmap(cmap: Uint8Array): number[] | undefined {
+  const reader = new ByteReader(cmap, false);
+  const count = reader.u16(2);
+  let best: { offset: number; score: number } | null = null;
+
+  for (let i = 0; i < count; i++) {
+    const record = 4 + i * 8;
+    if (!reader.has(record, 8)) break;
+    const platform = reader.u16(record);
+    const encoding = reader.u16(record + 2);
+    const offset = reader.u32(record + 4);
+    if (!reader.has(offset, 2)) continue;
+    const format = reader.u16(offset);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!unicode || (format !== 4 && format !== 12)) continue;
+    const score = format === 12 ? 2 : 1;
+    if (!best || score > best.score) best = { offset, score };
+  }
+  if (!best) return undefined;
+
+  const codepoints = new Set<number>();
+  const offset = best.offset;
+
+  if (best.score === 2) {
+    const groups = reader.u32(offset + 12);
+    for (let i = 0; i < groups && codepoints.size < MAX_CODEPOINTS; i++) {
+      const group = offset + 16 + i * 12;
+      if (!reader.has(group, 12)) break;
+      const end = Math.min(reader.u32(group + 4), 0x10ffff);
+      for (let code = reader.u32(group); code <= end && codepoints.size < MAX_CODEPOINTS; code++) {
+        codepoints.add(code);
+      }
+    }
+  } else {
+    const segments = reader.u16(offset + 6) / 2;
+    const ends = offset + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+
+    for (let i = 0; i < segments; i++) {
+      const end = reader.u16(ends + i * 2);
+      const start = reader.u16(starts + i * 2);
+      const delta = reader.u16(deltas + i * 2);
+      const rangeOffset = reader.u16(rangeOffsets + i * 2);
+
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let glyph: number;
+        if (rangeOffset === 0) {
+          glyph = (code + delta) & 0xffff;
+        } else {
+          const address = rangeOffsets + i * 2 + rangeOffset + (code - start) * 2;
+          glyph = reader.has(address, 2) ? reader.u16(address) : 0;
+          if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+        }
+        if (glyph !== 0) codepoints.add(code);
+      }
+    }
+  }
+
+  return Array.from(codepoints).sort((a, b) => a - b);
+}
+
+function readFontTables(getTable: TableLookup, info: FontInfo): FontInfo {
+  const name = getTable('name');
+  if (name && name.length >= 6) {
+    const reader = new ByteReader(name, false);
+    const count = reader.u16(2);
+    const storage = reader.u16(4);
+    const found: Record<number, { score: number; value: string }> = {};
+
+    for (let i = 0; i < count; i++) {
+      const record = 6 + i * 12;
+      if (!reader.has(record, 12)) break;
+      const platform = reader.u16(record);
+      const language = reader.u16(record + 4);
+      const nameId = reader.u16(record + 6);
+      const length = reader.u16(record + 8);
+      const start = storage + reader.u16(record + 10);
+      if (!reader.has(start, length) || !(nameId in NAME_IDS || nameId === 16 || nameId === 17)) continue;
+
+      // Prefer Windows English, then Unicode, then Mac Roman
+      const score = platform === 3 ? (language === 0x409 ? 3 : 2) : platform === 0 ? 1 : 0;
+      if (found[nameId] && found[nameId].score >= score) continue;
+      const raw = name.subarray(start, start + length);
+      found[nameId] = { score, value: (platform === 1 ? latin1(raw) : utf16be(raw)).trim() };
+    }
+
+    Object.entries(NAME_IDS).forEach(([id, key]) => {
+      if (found[Number(id)]) info[key] = found[Number(id)].value;
+    });
+    // Typographic family/subfamily are the real names for fonts with many styles
+    if (found[16]) info.family = found[16].value;
+    if (found[17]) info.subfamily = found[17].value;
+  }
+
+  const maxp = getTable('maxp');
+  if (maxp && maxp.length >= 6) {
+    info.glyphCount = new ByteReader(maxp, false).u16(4);
+  }
+
+  const head = getTable('head');
+  if (head && head.length >= 20) {
+    info.unitsPerEm = new ByteReader(head, false).u16(18);
+  }
+
+  const cmap = getTable('cmap');
+  if (cmap && cmap.length >= 4) {
+    try {
+      info.codepoints = readCmap(cmap);
+    } catch (error) {
+      console.warn('⚠️ Could not read font cmap table:', error);
+    }
+  }
+
+  return info;
+}
+
+function parseSfnt(bytes: Uint8Array, offset: number = 0): FontInfo {
+  const reader = new ByteReader(bytes, false);
+  const version = reader.u32(offset);
+  const numTables = reader.u16(offset + 4);
+  const tables: Record<string, Uint8Array> = {};
+
+  for (let i = 0; i < numTables; i++) {
+    const record = offset + 12 + i * 16;
+    if (!reader.has(record, 16)) break;
+    const tag = reader.ascii(record, 4);
+    const tableOffset = reader.u32(record + 8);
+    const length = reader.u32(record + 12);
+    tables[tag] = bytes.subarray(tableOffset, Math.min(tableOffset + length, bytes.length));
+  }
+
+  return readFontTables(tag => tables[tag] || null, {
+    format: version === 0x4f54544f ? 'OpenType' : 'TrueType',
+    tables: Object.keys(tables)
+  });
+}
+
+async function parseWoff(bytes: Uint8Array): Promise<FontInfo> {
+  const reader = new ByteReader(bytes, false);
+  const numTables = reader.u16(12);
+  const directory: Record<string, { offset: number; compressed: number; original: number }> = {};
+
+  for (let i = 0; i < numTables; i++) {
+    const record = 44 + i * 20;
+    if (!reader.has(record, 20)) break;
+    directory[reader.ascii(record, 4)] = {
+      offset: reader.u32(record + 4),
+      compressed: reader.u32(record + 8),
+      original: reader.u32(record + 12)
+    };
+  }
+
+  // Only the tables we read are inflated
+  const tables: Record<string, Uint8Array | null> = {};
+  for (const tag of ['name', 'maxp', 'head', 'cmap']) {
+    const entry = directory[tag];
+    if (!entry) continue;
+    const raw = bytes.subarray(entry.offset, entry.offset + entry.compressed);
+    try {
+      tables[tag] = entry.compressed < entry.original ? await decompressBytes(raw, 'deflate', entry.original) : raw;
+    } catch (error) {
+      console.warn(`⚠️ Could not inflate WOFF ${tag} table:`, error);
+      tables[tag] = null;
+    }
+  }
+
+  return readFontTables(tag => tables[tag] || null, { format: 'WOFF', tables: Object.keys(directory) });
+}
+
+function parseWoff2(bytes: Uint8Array): FontInfo {
+  const reader = new ByteReader(bytes, false);
+  const numTables = reader.u16(12);
+  const tables: string[] = [];
+  let offset = 48;
+
+  const readBase128 = (): number => {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      const byte = reader.u8(offset++);
+      value = value * 128 + (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error('Invalid UIntBase128 in WOFF2 directory');
+  };
+
+  for (let i = 0; i < numTables; i++) {
+    const flags = reader.u8(offset++);
+    const tagIndex = flags & 0x3f;
+    let tag: string;
+    if (tagIndex === 63) {
+      tag = reader.ascii(offset, 4);
+      offset += 4;
+    } else {
+      tag = WOFF2_TAGS[tagIndex] || `#${tagIndex}`;
+    }
+    readBase128(); // origLength
+    const transform = (flags >> 6) & 0x3;
+    const transformed = tag === 'glyf' || tag === 'loca' ? transform === 0 : transform !== 0;
+    if (transformed) readBase128(); // transformLength
+    tables.push(tag);
+  }
+
+  return { format: 'WOFF2', tables, namesUnavailable: true };
+}
+
+/**
+ * Read family, style, version and glyph count from TTF/OTF/TTC/WOFF/WOFF2 bytes
+ */
+export async function parseFont(bytes: Uint8Array): Promise<FontInfo> {
+  const signature = latin1(bytes.subarray(0, 4));
+
+  if (signature === 'wOFF') return parseWoff(bytes);
+  if (signature === 'wOF2') return parseWoff2(bytes);
+
+  if (signature === 'ttcf') {
+    const reader = new ByteReader(bytes, false);
+    const fontCount = reader.u32(8);
+    const first = parseSfnt(bytes, reader.u32(12));
+    return { ...first, format: 'Collection', fontCount };
+  }
+
+  return parseSfnt(bytes);
+}
+
+// =================
+// PDF
+// =================
+
+function decodePdfString(raw: string): string {
+  let bytes: number[];
+
+  if (raw.startsWith('<')) {
+    const hex = raw.slice(1, -1).replace(/[^0-9a-fA-F]/g, '');
+    bytes = [];
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes.push(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+    }
+  } else {
+    const body = raw.slice(1, -1);
+    bytes = [];
+    for (let i = 0; i < body.length; i++) {
+      const char = body[i];
+      if (char !== '\\') {
+        bytes.push(char.charCodeAt(0) & 0xff);
+        continue;
+      }
+      const next = body[++i];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+      if (next in escapes) {
+        bytes.push(escapes[next]);
+      } else if (/[0-7]/.test(next)) {
+        const octal = body.slice(i, i + 3).match(/^[0-7]{1,3}/)![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += octal.length - 1;
+      } else if (next === '\r' || next === '\n') {
+        if (next === '\r' && body[i + 1] === '\n') i++;
+      } else if (next !== undefined) {
+        bytes.push(next.charCodeAt(0));
+      }
+    }
+  }
+
+  const array = Uint8Array.from(bytes);
+  if (array[0] === 0xfe && array[1] === 0xff) return utf16be(array.subarray(2)).trim();
+  if (array[0] === 0xef && array[1] === 0xbb && array[2] === 0xbf) return utf8Decoder.decode(array.subarray(3)).trim();
+  return latin1(array).trim();
+}
+
+/** Reads a literal (balanced parentheses) or hex string starting at `start` */
+function readPdfStringAt(text: string, start: number): string | null {
+  if (text[start] === '<') {
+    const end = text.indexOf('>', start);
+    return end > start ? text.slice(start, end + 1) : null;
+  }
+  if (text[start] !== '(') return null;
+  let depth = 0;
+  for (let i = start; i < text.length && i < start + 65536; i++) {
+    const char = text[i];
+    if (char === '\\') { i++; continue; }
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) return text.slice(start, i + 1);
+  }
+  return null;
+}
+
+function parsePdfDate(value?: string): Date | null {
+  const match = value && /D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Z+-])?(\d{2})?'?(\d{2})?/.exec(value);
+  if (!match) return null;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone, zoneHour = '00', zoneMinute = '00'] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  const offset = zone === '+' || zone === '-' ? (zone === '+' ? 1 : -1) * (+zoneHour * 60 + +zoneMinute) * 60000 : 0;
+  return new Date(utc - offset);
+}
+
+/**
+ * Read page count and document info, inflating object streams when the info is compressed
+ */
+export async function parsePdf(bytes: Uint8Array): Promise<PdfInfo> {
+  let text = latin1(bytes);
+
+  // Modern PDFs keep dictionaries inside compressed object streams
+  if (!/\/Type\s*\/Pages\b/.test(text) || !/\/(?:Title|Producer)\s*[(<]/.test(text)) {
+    const streamPattern = /\/Type\s*\/ObjStm[^]*?stream\r?\n/g;
+    let match: RegExpExecArray | null;
+    let inflated = 0;
+    while ((match = streamPattern.exec(text)) !== null && inflated < 32) {
+      const start = match.index + match[0].length;
+      const end = text.indexOf('endstream', start);
+      if (end < 0) break;
+      try {
+        const data = await decompressBytes(bytes.subarray(start, end), 'deflate', 8 * 1024 * 1024);
+        text += '\n' + latin1(data);
+        inflated++;
+      } catch {
+        // Not Flate-encoded or damaged; skip this stream
+      }
+    }
+  }
+
+  const infoString = (key: string): string | undefined => {
+    const pattern = new RegExp(`/${key}\\s*(?=[(<][^<])`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const raw = readPdfStringAt(text, match.index + match[0].length);
+      if (raw) {
+        const value = decodePdfString(raw);
+        if (value) return value;
+      }
+    }
+    return undefined;
+  };
+
+  const xmp = (pattern: RegExp): string | undefined => {
+    const match = pattern.exec(text);
+    return match ? match[1].replace(/<[^>]+>/g, '').trim() || undefined : undefined;
+  };
+
+  // Page count: the largest /Count of any /Pages node is the root's
+  let pageCount: number | undefined;
+  const pagesPattern = /\/Type\s*\/Pages\b/g;
+  let pagesMatch: RegExpExecArray | null;
+  while ((pagesMatch = pagesPattern.exec(text)) !== null) {
+    const window = text.slice(Math.max(0, pagesMatch.index - 512), pagesMatch.index + 512);
+    const counts = Array.from(window.matchAll(/\/Count\s+(\d+)/g), count => parseInt(count[1], 10));
+    if (counts.length) pageCount = Math.max(pageCount || 0, ...counts);
+  }
+  if (pageCount === undefined) {
+    const pages = text.match(/\/Type\s*\/Page\b(?!s)/g);
+    if (pages) pageCount = pages.length;
+  }
+
+  return {
+    version: /%PDF-(\d\.\d)/.exec(text)?.[1],
+    pageCount,
+    title: infoString('Title') || xmp(/<dc:title>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/),
+    author: infoString('Author') || xmp(/<dc:creator>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/),
+    subject: infoString('Subject'),
+    keywords: infoString('Keywords') || xmp(/<pdf:Keywords>([\s\S]*?)<\/pdf:Keywords>/),
+    creator: infoString('Creator') || xmp(/<xmp:CreatorTool>([\s\S]*?)<\/xmp:CreatorTool>/),
+    producer: infoString('Producer') || xmp(/<pdf:Producer>([\s\S]*?)<\/pdf:Producer>/),
+    creationDate: parsePdfDate(infoString('CreationDate')),
+    modificationDate: parsePdfDate(infoString('ModDate')),
+    encrypted: /\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(text),
+    linearized: /\/Linearized\s/.test(text.slice(0, 2048))
+  };
+}
+
+// =================
+// EXECUTABLES
+// =================
+
+const PE_MACHINES: Record<number, string> = {
+  0x014c: 'x86',
+  0x8664: 'x86-64',
+  0x01c0: 'ARM',
+  0x01c4: 'ARMv7 (Thumb-2)',
+  0xaa64: 'ARM64',
+  0x0200: 'Itanium',
+  0x5032: 'RISC-V 32',
+  0x5064: 'RISC-V 64',
+  0x0ebc: 'EFI byte code'
+};
+
+const PE_SUBSYSTEMS: Record<number, string> = {
+  1: 'Native',
+  2: 'Windows GUI',
+  3: 'Windows console',
+  5: 'OS/2 console',
+  7: 'POSIX console',
+  9: 'Windows CE',
+  10: 'EFI application',
+  11: 'EFI boot service driver',
+  12: 'EFI runtime driver',
+  13: 'EFI ROM',
+  14: 'Xbox',
+  16: 'Windows boot application'
+};
+
+/**
+ * Read the COFF/optional headers and section table of a Windows PE file
+ */
+export function parsePe(bytes: Uint8Array): PeInfo {
+  const reader = new ByteReader(bytes);
+  const peOffset = reader.u32(0x3c);
+  if (reader.ascii(peOffset, 4) !== 'PE\0\0') {
+    throw new Error('Missing PE signature (plain MS-DOS executable)');
+  }
+
+  const coff = peOffset + 4;
+  const machine = reader.u16(coff);
+  const sectionCount = reader.u16(coff + 2);
+  const timestamp = reader.u32(coff + 4);
+  const optionalSize = reader.u16(coff + 16);
+  const flags = reader.u16(coff + 18);
+  const optional = coff + 20;
+  const is64Bit = reader.u16(optional) === 0x20b;
+
+  const directoryCountOffset = optional + (is64Bit ? 108 : 92);
+  const directories = optional + (is64Bit ? 112 : 96);
+  const directoryCount = reader.has(directoryCountOffset, 4) ? reader.u32(directoryCountOffset) : 0;
+  const isDotNet = directoryCount > 14 && reader.has(directories + 14 * 8, 4) && reader.u32(directories + 14 * 8) !== 0;
+
+  const sections: ExecutableSection[] = [];
+  const sectionTable = optional + optionalSize;
+  for (let i = 0; i < sectionCount && i < 96; i++) {
+    const section = sectionTable + i * 40;
+    if (!reader.has(section, 40)) break;
+    sections.push({
+      name: cString(reader.ascii(section, 8)),
+      virtualSize: reader.u32(section + 8),
+      size: reader.u32(section + 16)
+    });
+  }
+
+  const characteristics: string[] = [];
+  if (flags & 0x0002) characteristics.push('Executable image');
+  if (flags & 0x0020) characteristics.push('Large address aware');
+  if (flags & 0x2000) characteristics.push('DLL');
+  if (flags & 0x1000) characteristics.push('System file');
+
+  return {
+    machine: PE_MACHINES[machine] || toHex(machine),
+    is64Bit,
+    isDll: (flags & 0x2000) !== 0,
+    isDotNet,
+    subsystem: PE_SUBSYSTEMS[reader.u16(optional + 68)] || 'Unknown',
+    // Reproducible builds put a hash here instead of a time
+    timestamp: timestamp > 0 && timestamp < Date.now() / 1000 ? new Date(timestamp * 1000) : null,
+    entryPoint: toHex(reader.u32(optional + 16)),
+    imageBase: toHex(is64Bit ? reader.u64(optional + 24) : reader.u32(optional + 28)),
+    characteristics,
+    sections
+  };
+}
+
+const ELF_TYPES: Record<number, string> = {
+  1: 'Relocatable object',
+  2: 'Executable',
+  3: 'Shared object / PIE',
+  4: 'Core dump'
+};
+
+const ELF_MACHINES: Record<number, string> = {
+  2: 'SPARC',
+  3: 'x86',
+  8: 'MIPS',
+  20: 'PowerPC',
+  21: 'PowerPC64',
+  22: 'S390',
+  40: 'ARM',
+  43: 'SPARC V9',
+  62: 'x86-64',
+  183: 'AArch64',
+  243: 'RISC-V',
+  247: 'eBPF',
+  258: 'LoongArch'
+};
+
+const ELF_ABIS: Record<number, string> = {
+  0: 'System V',
+  1: 'HP-UX',
+  2: 'NetBSD',
+  3: 'Linux',
+  6: 'Solaris',
+  9: 'FreeBSD',
+  12: 'OpenBSD',
+  97: 'ARM',
+  255: 'Standalone'
+};
+
+/**
+ * Read the ELF header, interpreter and section names
+ */
+export function parseElf(bytes: Uint8Array): ElfInfo {
+  if (bytes.length < 52) {
+    throw new Error('ELF header is truncated');
+  }
+  const is64Bit = bytes[4] === 2;
+  const littleEndian = bytes[5] !== 2;
+  const reader = new ByteReader(bytes, littleEndian);
+  const word = (offset: number): number => (is64Bit ? Number(reader.u64(offset)) : reader.u32(offset));
+
+  const type = reader.u16(16);
+  const machine = reader.u16(18);
+  const entry = is64Bit ? reader.u64(24) : reader.u32(24);
+  const programOffset = word(is64Bit ? 32 : 28);
+  const sectionOffset = word(is64Bit ? 40 : 32);
+  const programSize = reader.u16(is64Bit ? 54 : 42);
+  const programCount = reader.u16(is64Bit ? 56 : 44);
+  const sectionSize = reader.u16(is64Bit ? 58 : 46);
+  const sectionCount = reader.u16(is64Bit ? 60 : 48);
+  const stringIndex = reader.u16(is64Bit ? 62 : 50);
+
+  let interpreter: string | undefined;
+  for (let i = 0; i < programCount && i < 256; i++) {
+    const header = programOffset + i * programSize;
+    if (!reader.has(header, is64Bit ? 56 : 32)) break;
+    if (reader.u32(header) === 3) { // PT_INTERP
+      const offset = word(header + (is64Bit ? 8 : 4));
+      const size = word(header + (is64Bit ? 32 : 16));
+      if (reader.has(offset, size)) interpreter = cString(reader.ascii(offset, size));
+      break;
+    }
+  }
+
+  const sections: ExecutableSection[] = [];
+  const sectionHeader = (index: number) => sectionOffset + index * sectionSize;
+  const headerLength = is64Bit ? 64 : 40;
+  if (sectionOffset > 0 && stringIndex < sectionCount && reader.has(sectionHeader(stringIndex), headerLength)) {
+    const strings = sectionHeader(stringIndex);
+    const stringsOffset = word(strings + (is64Bit ? 24 : 16));
+
+    for (let i = 0; i < sectionCount && i < 256; i++) {
+      const header = sectionHeader(i);
+      if (!reader.has(header, headerLength)) break;
+      const nameOffset = stringsOffset + reader.u32(header);
+      let name = '';
+      for (let cursor = nameOffset; cursor < bytes.length && bytes[cursor] !== 0 && name.length < 64; cursor++) {
+        name += String.fromCharCode(bytes[cursor]);
+      }
+      if (i === 0 && !name) continue; // SHN_UNDEF
+      sections.push({ name, size: word(header + (is64Bit ? 32 : 20)) });
+    }
+  }
+
+  return {
+    is64Bit,
+    littleEndian,
+    osAbi: ELF_ABIS[bytes[7]] || `ABI ${bytes[7]}`,
+    type: ELF_TYPES[type] || toHex(type),
+    machine: ELF_MACHINES[machine] || `Machine ${machine}`,
+    entryPoint: toHex(entry),
+    programHeaders: programCount,
+    interpreter,
+    sections
+  };
+}
+
+// =================
+// DISPATCH
+// =================
+
+async function readBytes(data: Blob | ArrayBuffer | Uint8Array, maxBytes: number): Promise<Uint8Array> {
+  if (data instanceof Uint8Array) return data.subarray(0, maxBytes);
+  if (data instanceof ArrayBuffer) return new Uint8Array(data, 0, Math.min(data.byteLength, maxBytes));
+  return new Uint8Array(await data.slice(0, maxBytes).arrayBuffer());
+}
+
+// Signatures (see contentSniffer) whose container is a ZIP archive
+const ZIP_SIGNATURES = new Set([
+  'zip', 'zip-empty', 'zip-spanned', 'jar', 'apk', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', '3mf', 'usdz'
+]);
+
+/**
+ * Sniff the bytes and run the matching parser. Returns null for formats without a
+ * parser or when the bytes can't be parsed.
+ */
+export async function inspectContainer(
+  data: Blob | ArrayBuffer | Uint8Array,
+  options: InspectOptions = {}
+): Promise<ContainerDetails | null> {
+  const { maxBytes = 64 * 1024 * 1024, maxEntries = 10000 } = options;
+  const bytes = await readBytes(data, maxBytes);
+  const match = sniffContent(bytes);
+  if (!match) return null;
+  const { id, label, kind } = match.signature;
+
+  try {
+    if (ZIP_SIGNATURES.has(id)) {
+      return { kind: 'zip', format: label, info: parseZip(bytes, maxEntries) };
+    }
+    if (id === 'tar') {
+      return { kind: 'tar', format: label, info: parseTar(bytes, maxEntries) };
+    }
+    if (id === 'gzip') {
+      const inflated = await decompressBytes(bytes, 'gzip', maxBytes);
+      if (latin1(inflated.subarray(257, 262)) === 'ustar') {
+        return { kind: 'tar', format: 'Gzipped TAR Archive', info: parseTar(inflated, maxEntries, true) };
+      }
+      return null;
+    }
+    if (kind === 'font') {
+      return { kind: 'font', format: label, info: await parseFont(bytes) };
+    }
+    if (id === 'pdf') {
+      return { kind: 'pdf', format: label, info: await parsePdf(bytes) };
+    }
+    if (id === 'pe') {
+      return { kind: 'pe', format: label, info: parsePe(bytes) };
+    }
+    if (id === 'elf') {
+      return { kind: 'elf', format: label, info: parseElf(bytes) };
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not parse ${label}:`, error);
+  }
+
+  return null;
+}
+
+/**
+ * Open a ZIP, TAR or gzipped TAR archive for browsing. Returns null for other
+ * formats; read() extracts a single entry by path.
+ */
+export async function openArchive(
+  data: Blob | ArrayBuffer | Uint8Array,
+  options: InspectOptions = {}
+): Promise<OpenedArchive | null> {
+  const { maxBytes = 64 * 1024 * 1024, maxEntries = 10000 } = options;
+  const bytes = await readBytes(data, maxBytes);
+  const match = sniffContent(bytes);
+  if (!match) return null;
+  const { id, label } = match.signature;
+
+  if (ZIP_SIGNATURES.has(id)) {
+    const info = parseZip(bytes, maxEntries);
+    const byPath = new Map(info.entries.map(entry => [entry.name, entry]));
+    return {
+      kind: 'zip',
+      format: label,
+      truncated: info.truncated,
+      entries: info.entries.map(entry => ({
+        path: entry.name,
+        size: entry.size,
+        compressedSize: entry.compressedSize,
+        isDirectory: entry.isDirectory,
+        modified: entry.modified,
+        encrypted: entry.encrypted,
+        method: entry.methodName
+      })),
+      read: async (path: string) => {
+        const entry = byPath.get(path);
+        if (!entry) throw new Error(`${path} is not in the archive`);
+        return extractZipEntry(bytes, entry);
+      }
+    };
+  }
+
+  let tarBytes: Uint8Array | null = null;
+  let compressed = false;
+  if (id === 'tar') {
+    tarBytes = bytes;
+  } else if (id === 'gzip') {
+    const inflated = await decompressBytes(bytes, 'gzip', maxBytes);
+    if (latin1(inflated.subarray(257, 262)) === 'ustar') {
+      tarBytes = inflated;
+      compressed = true;
+    }
+  }
+  if (!tarBytes) return null;
+
+  const archive = tarBytes;
+  const info = parseTar(archive, maxEntries, compressed);
+  const byPath = new Map(info.entries.map(entry => [entry.name, entry]));
+  return {
+    kind: 'tar',
+    format: compressed ? 'Gzipped TAR Archive' : label,
+    truncated: false,
+    entries: info.entries.map(entry => ({
+      path: entry.type === 'directory' && !entry.name.endsWith('/') ? `${entry.name}/` : entry.name,
+      size: entry.size,
+      compressedSize: entry.size,
+      isDirectory: entry.type === 'directory',
+      modified: entry.modified,
+      encrypted: false,
+      method: entry.type
+    })),
+    read: async (path: string) => {
+      const entry = byPath.get(path);
+      if (!entry) throw new Error(`${path} is not in the archive`);
+      return archive.subarray(entry.dataOffset, entry.dataOffset + entry.size);
+    }
+  };
+}
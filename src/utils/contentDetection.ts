@@ -1,33 +1,14 @@
 export { getMimeTypeFromExtension, getExtensionsFromMimeType, isMimeTypeSupported, getAllSupportedExtensions, getMimeTypeCategory } from './mimeTypes';
+import { sniffContent } from './contentSniffer';
 
 /**
  * Detect content type from binary data and headers
  */
 export function detectContentTypeFromBytes(bytes: Uint8Array, mimeType?: string): string {
-  // PNG signature
-  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) {
-    return 'image/png';
-  }
-  
-  // JPEG signature
-  if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
-    return 'image/jpeg';
-  }
-  
-  // GIF signature
-  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
-    return 'image/gif';
-  }
-  
-  // WebP signature
-  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
-      bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) {
-    return 'image/webp';
-  }
-  
-  // PDF signature
-  if (bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46) {
-    return 'application/pdf';
+  // Binary formats by magic bytes
+  const signature = sniffContent(bytes);
+  if (signature) {
+    return signature.mimeType;
   }
   
   // Check if it's text-based content
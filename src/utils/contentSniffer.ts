@@ -0,0 +1,346 @@
+/**
+ * Content Sniffer - Table-driven magic-byte signature engine
+ * Every signature is a set of byte patterns (with optional offsets, masks and search
+ * ranges) that must all match. The highest-confidence, most specific match wins.
+ */
+
+// =================
+// TYPES
+// =================
+
+export type SignatureKind =
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'font'
+  | 'archive'
+  | '3d'
+  | 'pdf'
+  | 'document'
+  | 'ebook'
+  | 'executable'
+  | 'data';
+
+export interface SignaturePattern {
+  offset?: number; // Default 0
+  bytes: number[] | string; // Strings are matched as Latin-1 bytes
+  mask?: number[]; // Per-byte AND mask applied to both sides
+  range?: number; // Search up to this many bytes past offset instead of matching at it
+}
+
+export interface ContentSignature {
+  id: string;
+  mimeType: string;
+  extension: string;
+  label: string;
+  kind: SignatureKind;
+  patterns: SignaturePattern[]; // All must match
+  confidence: number; // 0-1
+  description?: string;
+}
+
+export interface SignatureMatch {
+  signature: ContentSignature;
+  confidence: number;
+  mimeType: string;
+  extension: string;
+}
+
+export interface SniffOptions {
+  minConfidence?: number;
+}
+
+interface CompiledPattern {
+  offset: number;
+  bytes: number[];
+  mask: number[] | null;
+  range: number;
+}
+
+interface CompiledSignature {
+  signature: ContentSignature;
+  patterns: CompiledPattern[];
+  specificity: number;
+  order: number;
+}
+
+// =================
+// SIGNATURE TABLE
+// =================
+
+const ftyp = (brand: string): SignaturePattern[] => [
+  { offset: 4, bytes: 'ftyp' },
+  { offset: 8, bytes: brand }
+];
+const riff = (form: string): SignaturePattern[] => [
+  { bytes: 'RIFF' },
+  { offset: 8, bytes: form }
+];
+const zipWith = (entry: string, range: number = 4096): SignaturePattern[] => [
+  { bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { offset: 30, bytes: entry, range }
+];
+const zipMimetype = (mimeType: string): SignaturePattern[] => [
+  { bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { offset: 30, bytes: 'mimetype' },
+  { offset: 38, bytes: mimeType }
+];
+
+export const DEFAULT_SIGNATURES: ContentSignature[] = [
+  // Images
+  { id: 'png', mimeType: 'image/png', extension: 'png', label: 'PNG Image', kind: 'image', confidence: 1, description: 'Portable Network Graphics', patterns: [{ bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }] },
+  { id: 'apng', mimeType: 'image/apng', extension: 'apng', label: 'Animated PNG', kind: 'image', confidence: 1, description: 'Animated Portable Network Graphics', patterns: [{ bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }, { offset: 33, bytes: 'acTL', range: 512 }] },
+  { id: 'jpeg', mimeType: 'image/jpeg', extension: 'jpg', label: 'JPEG Image', kind: 'image', confidence: 0.95, description: 'JPEG compressed image', patterns: [{ bytes: [0xff, 0xd8, 0xff] }] },
+  { id: 'gif', mimeType: 'image/gif', extension: 'gif', label: 'GIF Animation', kind: 'image', confidence: 1, description: 'Graphics Interchange Format', patterns: [{ bytes: 'GIF8' }, { offset: 5, bytes: 'a' }] },
+  { id: 'webp', mimeType: 'image/webp', extension: 'webp', label: 'WebP Image', kind: 'image', confidence: 1, description: 'WebP compressed image', patterns: riff('WEBP') },
+  { id: 'avif', mimeType: 'image/avif', extension: 'avif', label: 'AVIF Image', kind: 'image', confidence: 0.98, description: 'AV1 Image File Format', patterns: ftyp('avi') },
+  { id: 'heic', mimeType: 'image/heic', extension: 'heic', label: 'HEIC Image', kind: 'image', confidence: 0.98, description: 'High Efficiency Image Container', patterns: ftyp('hei') },
+  { id: 'heif', mimeType: 'image/heif', extension: 'heif', label: 'HEIF Image', kind: 'image', confidence: 0.95, description: 'High Efficiency Image File Format', patterns: ftyp('mif1') },
+  { id: 'bmp', mimeType: 'image/bmp', extension: 'bmp', label: 'BMP Image', kind: 'image', confidence: 0.85, description: 'Windows bitmap', patterns: [{ bytes: 'BM' }, { offset: 6, bytes: [0, 0, 0, 0] }, { offset: 15, bytes: [0, 0, 0] }] },
+  { id: 'ico', mimeType: 'image/x-icon', extension: 'ico', label: 'Icon', kind: 'image', confidence: 0.8, description: 'Windows icon', patterns: [{ bytes: [0x00, 0x00, 0x01, 0x00] }, { offset: 5, bytes: [0x00] }] },
+  { id: 'cur', mimeType: 'image/x-icon', extension: 'cur', label: 'Cursor', kind: 'image', confidence: 0.75, description: 'Windows cursor', patterns: [{ bytes: [0x00, 0x00, 0x02, 0x00] }, { offset: 5, bytes: [0x00] }] },
+  { id: 'tiff-le', mimeType: 'image/tiff', extension: 'tiff', label: 'TIFF Image', kind: 'image', confidence: 0.95, description: 'Tagged Image File Format', patterns: [{ bytes: [0x49, 0x49, 0x2a, 0x00] }] },
+  { id: 'tiff-be', mimeType: 'image/tiff', extension: 'tiff', label: 'TIFF Image', kind: 'image', confidence: 0.95, description: 'Tagged Image File Format', patterns: [{ bytes: [0x4d, 0x4d, 0x00, 0x2a] }] },
+  { id: 'jxl', mimeType: 'image/jxl', extension: 'jxl', label: 'JPEG XL Image', kind: 'image', confidence: 0.9, description: 'JPEG XL codestream', patterns: [{ bytes: [0xff, 0x0a] }] },
+  { id: 'jxl-container', mimeType: 'image/jxl', extension: 'jxl', label: 'JPEG XL Image', kind: 'image', confidence: 1, description: 'JPEG XL container', patterns: [{ bytes: [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a] }] },
+  { id: 'jp2', mimeType: 'image/jp2', extension: 'jp2', label: 'JPEG 2000 Image', kind: 'image', confidence: 1, description: 'JPEG 2000', patterns: [{ bytes: [0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a] }] },
+  { id: 'psd', mimeType: 'image/vnd.adobe.photoshop', extension: 'psd', label: 'Photoshop Document', kind: 'image', confidence: 0.95, description: 'Adobe Photoshop image', patterns: [{ bytes: '8BPS' }, { offset: 4, bytes: [0x00] }] },
+  { id: 'qoi', mimeType: 'image/qoi', extension: 'qoi', label: 'QOI Image', kind: 'image', confidence: 0.9, description: 'Quite OK Image format', patterns: [{ bytes: 'qoif' }] },
+
+  // Audio
+  { id: 'mp3-id3', mimeType: 'audio/mpeg', extension: 'mp3', label: 'MP3 Audio', kind: 'audio', confidence: 0.95, description: 'MPEG audio with ID3 tags', patterns: [{ bytes: 'ID3' }, { offset: 3, bytes: [0x00], mask: [0xf8] }] },
+  { id: 'mp3-frame', mimeType: 'audio/mpeg', extension: 'mp3', label: 'MP3 Audio', kind: 'audio', confidence: 0.6, description: 'MPEG layer III audio', patterns: [{ bytes: [0xff, 0xe2], mask: [0xff, 0xe6] }] },
+  { id: 'aac-adts', mimeType: 'audio/aac', extension: 'aac', label: 'AAC Audio', kind: 'audio', confidence: 0.6, description: 'Advanced Audio Coding (ADTS)', patterns: [{ bytes: [0xff, 0xf0], mask: [0xff, 0xf6] }] },
+  { id: 'flac', mimeType: 'audio/flac', extension: 'flac', label: 'FLAC Audio', kind: 'audio', confidence: 1, description: 'Free Lossless Audio Codec', patterns: [{ bytes: 'fLaC' }] },
+  { id: 'wav', mimeType: 'audio/wav', extension: 'wav', label: 'WAV Audio', kind: 'audio', confidence: 1, description: 'Waveform audio', patterns: riff('WAVE') },
+  { id: 'aiff', mimeType: 'audio/aiff', extension: 'aiff', label: 'AIFF Audio', kind: 'audio', confidence: 1, description: 'Audio Interchange File Format', patterns: [{ bytes: 'FORM' }, { offset: 8, bytes: 'AIF' }] },
+  { id: 'ogg', mimeType: 'audio/ogg', extension: 'ogg', label: 'Ogg Audio', kind: 'audio', confidence: 0.9, description: 'Ogg container', patterns: [{ bytes: 'OggS' }] },
+  { id: 'ogg-vorbis', mimeType: 'audio/ogg', extension: 'ogg', label: 'Ogg Vorbis Audio', kind: 'audio', confidence: 1, description: 'Vorbis audio in Ogg', patterns: [{ bytes: 'OggS' }, { offset: 28, bytes: [0x01, 0x76, 0x6f, 0x72, 0x62, 0x69, 0x73] }] },
+  { id: 'opus', mimeType: 'audio/opus', extension: 'opus', label: 'Opus Audio', kind: 'audio', confidence: 1, description: 'Opus audio in Ogg', patterns: [{ bytes: 'OggS' }, { offset: 28, bytes: 'OpusHead' }] },
+  { id: 'ogg-flac', mimeType: 'audio/ogg', extension: 'oga', label: 'Ogg FLAC Audio', kind: 'audio', confidence: 1, description: 'FLAC audio in Ogg', patterns: [{ bytes: 'OggS' }, { offset: 28, bytes: [0x7f, 0x46, 0x4c, 0x41, 0x43] }] },
+  { id: 'm4a', mimeType: 'audio/mp4', extension: 'm4a', label: 'M4A Audio', kind: 'audio', confidence: 0.98, description: 'MPEG-4 audio', patterns: ftyp('M4A') },
+  { id: 'midi', mimeType: 'audio/midi', extension: 'mid', label: 'MIDI', kind: 'audio', confidence: 1, description: 'Musical Instrument Digital Interface', patterns: [{ bytes: 'MThd' }, { offset: 4, bytes: [0x00, 0x00, 0x00, 0x06] }] },
+  { id: 'amr', mimeType: 'audio/amr', extension: 'amr', label: 'AMR Audio', kind: 'audio', confidence: 0.95, description: 'Adaptive Multi-Rate audio', patterns: [{ bytes: '#!AMR' }] },
+
+  // Video
+  { id: 'mp4', mimeType: 'video/mp4', extension: 'mp4', label: 'MP4 Video', kind: 'video', confidence: 0.8, description: 'ISO base media file', patterns: [{ offset: 4, bytes: 'ftyp' }] },
+  { id: 'mp4-iso', mimeType: 'video/mp4', extension: 'mp4', label: 'MP4 Video', kind: 'video', confidence: 0.95, description: 'MPEG-4 video', patterns: ftyp('iso') },
+  { id: 'mp4-mp4x', mimeType: 'video/mp4', extension: 'mp4', label: 'MP4 Video', kind: 'video', confidence: 0.95, description: 'MPEG-4 video', patterns: ftyp('mp4') },
+  { id: 'mp4-avc', mimeType: 'video/mp4', extension: 'mp4', label: 'MP4 Video', kind: 'video', confidence: 0.95, description: 'MPEG-4 video', patterns: ftyp('avc1') },
+  { id: 'mp4-dash', mimeType: 'video/mp4', extension: 'mp4', label: 'MP4 Video', kind: 'video', confidence: 0.95, description: 'MPEG-DASH segment', patterns: ftyp('dash') },
+  { id: 'm4v', mimeType: 'video/x-m4v', extension: 'm4v', label: 'M4V Video', kind: 'video', confidence: 0.95, description: 'iTunes video', patterns: ftyp('M4V') },
+  { id: 'mov', mimeType: 'video/quicktime', extension: 'mov', label: 'QuickTime Video', kind: 'video', confidence: 0.98, description: 'QuickTime movie', patterns: ftyp('qt  ') },
+  { id: 'mov-moov', mimeType: 'video/quicktime', extension: 'mov', label: 'QuickTime Video', kind: 'video', confidence: 0.8, description: 'QuickTime movie', patterns: [{ offset: 4, bytes: 'moov' }] },
+  { id: '3gp', mimeType: 'video/3gpp', extension: '3gp', label: '3GP Video', kind: 'video', confidence: 0.95, description: '3GPP multimedia', patterns: ftyp('3gp') },
+  { id: '3g2', mimeType: 'video/3gpp2', extension: '3g2', label: '3G2 Video', kind: 'video', confidence: 0.95, description: '3GPP2 multimedia', patterns: ftyp('3g2') },
+  { id: 'matroska', mimeType: 'video/x-matroska', extension: 'mkv', label: 'Matroska Video', kind: 'video', confidence: 0.9, description: 'Matroska container', patterns: [{ bytes: [0x1a, 0x45, 0xdf, 0xa3] }] },
+  { id: 'webm', mimeType: 'video/webm', extension: 'webm', label: 'WebM Video', kind: 'video', confidence: 1, description: 'WebM container', patterns: [{ bytes: [0x1a, 0x45, 0xdf, 0xa3] }, { offset: 4, bytes: 'webm', range: 64 }] },
+  { id: 'avi', mimeType: 'video/x-msvideo', extension: 'avi', label: 'AVI Video', kind: 'video', confidence: 1, description: 'Audio Video Interleave', patterns: riff('AVI ') },
+  { id: 'ogv', mimeType: 'video/ogg', extension: 'ogv', label: 'Ogg Video', kind: 'video', confidence: 1, description: 'Theora video in Ogg', patterns: [{ bytes: 'OggS' }, { offset: 28, bytes: [0x80, 0x74, 0x68, 0x65, 0x6f, 0x72, 0x61] }] },
+  { id: 'flv', mimeType: 'video/x-flv', extension: 'flv', label: 'Flash Video', kind: 'video', confidence: 0.95, description: 'Flash video', patterns: [{ bytes: [0x46, 0x4c, 0x56, 0x01] }] },
+  { id: 'mpeg-ts', mimeType: 'video/mp2t', extension: 'ts', label: 'MPEG-TS Video', kind: 'video', confidence: 0.7, description: 'MPEG transport stream', patterns: [{ bytes: [0x47] }, { offset: 188, bytes: [0x47] }, { offset: 376, bytes: [0x47] }] },
+  { id: 'mpeg-ps', mimeType: 'video/mpeg', extension: 'mpg', label: 'MPEG Video', kind: 'video', confidence: 0.9, description: 'MPEG program stream', patterns: [{ bytes: [0x00, 0x00, 0x01, 0xba] }] },
+  { id: 'wmv', mimeType: 'video/x-ms-wmv', extension: 'wmv', label: 'Windows Media', kind: 'video', confidence: 0.9, description: 'Advanced Systems Format', patterns: [{ bytes: [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11] }] },
+
+  // Fonts
+  { id: 'woff', mimeType: 'font/woff', extension: 'woff', label: 'WOFF Font', kind: 'font', confidence: 1, description: 'Web Open Font Format', patterns: [{ bytes: 'wOFF' }] },
+  { id: 'woff2', mimeType: 'font/woff2', extension: 'woff2', label: 'WOFF2 Font', kind: 'font', confidence: 1, description: 'Web Open Font Format 2', patterns: [{ bytes: 'wOF2' }] },
+  { id: 'ttf', mimeType: 'font/ttf', extension: 'ttf', label: 'TrueType Font', kind: 'font', confidence: 0.85, description: 'TrueType font', patterns: [{ bytes: [0x00, 0x01, 0x00, 0x00, 0x00] }] },
+  { id: 'ttf-mac', mimeType: 'font/ttf', extension: 'ttf', label: 'TrueType Font', kind: 'font', confidence: 0.9, description: 'TrueType font (Apple)', patterns: [{ bytes: 'true' }, { offset: 4, bytes: [0x00] }] },
+  { id: 'otf', mimeType: 'font/otf', extension: 'otf', label: 'OpenType Font', kind: 'font', confidence: 0.95, description: 'OpenType font with CFF outlines', patterns: [{ bytes: 'OTTO' }, { offset: 4, bytes: [0x00] }] },
+  { id: 'ttc', mimeType: 'font/collection', extension: 'ttc', label: 'Font Collection', kind: 'font', confidence: 0.95, description: 'TrueType/OpenType collection', patterns: [{ bytes: 'ttcf' }] },
+
+  // Archives
+  { id: 'zip', mimeType: 'application/zip', extension: 'zip', label: 'ZIP Archive', kind: 'archive', confidence: 0.9, description: 'ZIP compressed archive', patterns: [{ bytes: [0x50, 0x4b, 0x03, 0x04] }] },
+  { id: 'zip-empty', mimeType: 'application/zip', extension: 'zip', label: 'ZIP Archive', kind: 'archive', confidence: 0.9, description: 'Empty ZIP archive', patterns: [{ bytes: [0x50, 0x4b, 0x05, 0x06] }] },
+  { id: 'zip-spanned', mimeType: 'application/zip', extension: 'zip', label: 'ZIP Archive', kind: 'archive', confidence: 0.9, description: 'Spanned ZIP archive', patterns: [{ bytes: [0x50, 0x4b, 0x07, 0x08] }] },
+  { id: 'gzip', mimeType: 'application/gzip', extension: 'gz', label: 'GZIP Archive', kind: 'archive', confidence: 0.95, description: 'GZIP compressed data', patterns: [{ bytes: [0x1f, 0x8b, 0x08] }] },
+  { id: 'bzip2', mimeType: 'application/x-bzip2', extension: 'bz2', label: 'BZIP2 Archive', kind: 'archive', confidence: 0.95, description: 'BZIP2 compressed data', patterns: [{ bytes: 'BZh' }, { offset: 4, bytes: [0x31, 0x41, 0x59, 0x26, 0x53, 0x59] }] },
+  { id: 'xz', mimeType: 'application/x-xz', extension: 'xz', label: 'XZ Archive', kind: 'archive', confidence: 1, description: 'XZ compressed data', patterns: [{ bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] }] },
+  { id: '7z', mimeType: 'application/x-7z-compressed', extension: '7z', label: '7-Zip Archive', kind: 'archive', confidence: 1, description: '7-Zip compressed archive', patterns: [{ bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] }] },
+  { id: 'rar', mimeType: 'application/vnd.rar', extension: 'rar', label: 'RAR Archive', kind: 'archive', confidence: 1, description: 'RAR compressed archive', patterns: [{ bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] }] },
+  { id: 'tar', mimeType: 'application/x-tar', extension: 'tar', label: 'TAR Archive', kind: 'archive', confidence: 0.95, description: 'Tape archive', patterns: [{ offset: 257, bytes: 'ustar' }] },
+  { id: 'zstd', mimeType: 'application/zstd', extension: 'zst', label: 'Zstandard Archive', kind: 'archive', confidence: 1, description: 'Zstandard compressed data', patterns: [{ bytes: [0x28, 0xb5, 0x2f, 0xfd] }] },
+  { id: 'lz4', mimeType: 'application/x-lz4', extension: 'lz4', label: 'LZ4 Archive', kind: 'archive', confidence: 1, description: 'LZ4 frame', patterns: [{ bytes: [0x04, 0x22, 0x4d, 0x18] }] },
+  { id: 'cab', mimeType: 'application/vnd.ms-cab-compressed', extension: 'cab', label: 'Cabinet Archive', kind: 'archive', confidence: 0.95, description: 'Microsoft Cabinet', patterns: [{ bytes: 'MSCF' }, { offset: 4, bytes: [0x00, 0x00, 0x00, 0x00] }] },
+  { id: 'jar', mimeType: 'application/java-archive', extension: 'jar', label: 'Java Archive', kind: 'archive', confidence: 0.92, description: 'Java archive', patterns: zipWith('META-INF/', 256) },
+
+  // 3D
+  { id: 'glb', mimeType: 'model/gltf-binary', extension: 'glb', label: 'GLB Model', kind: '3d', confidence: 1, description: 'Binary glTF', patterns: [{ bytes: 'glTF' }, { offset: 4, bytes: [0x02, 0x00, 0x00, 0x00] }] },
+  { id: 'glb-v1', mimeType: 'model/gltf-binary', extension: 'glb', label: 'GLB Model', kind: '3d', confidence: 0.95, description: 'Binary glTF 1.0', patterns: [{ bytes: 'glTF' }] },
+  { id: 'ply', mimeType: 'model/ply', extension: 'ply', label: 'PLY Model', kind: '3d', confidence: 0.9, description: 'Polygon File Format', patterns: [{ bytes: 'ply' }, { offset: 3, bytes: 'format ', range: 4 }] },
+  { id: 'stl-ascii', mimeType: 'model/stl', extension: 'stl', label: 'STL Model', kind: '3d', confidence: 0.8, description: 'Stereolithography (ASCII)', patterns: [{ bytes: 'solid' }, { offset: 5, bytes: 'facet', range: 512 }] },
+  { id: 'fbx', mimeType: 'application/octet-stream', extension: 'fbx', label: 'FBX Model', kind: '3d', confidence: 1, description: 'Autodesk FBX (binary)', patterns: [{ bytes: 'Kaydara FBX Binary' }] },
+  { id: '3mf', mimeType: 'model/3mf', extension: '3mf', label: '3MF Model', kind: '3d', confidence: 0.95, description: '3D Manufacturing Format', patterns: zipWith('3D/', 2048) },
+  { id: 'usdc', mimeType: 'model/vnd.usd', extension: 'usdc', label: 'USD Model', kind: '3d', confidence: 1, description: 'Universal Scene Description (crate)', patterns: [{ bytes: 'PXR-USDC' }] },
+  { id: 'usdz', mimeType: 'model/vnd.usdz+zip', extension: 'usdz', label: 'USDZ Model', kind: '3d', confidence: 0.95, description: 'Universal Scene Description archive', patterns: zipWith('.usd', 256) },
+  { id: 'vox', mimeType: 'application/octet-stream', extension: 'vox', label: 'MagicaVoxel Model', kind: '3d', confidence: 0.9, description: 'MagicaVoxel voxel model', patterns: [{ bytes: 'VOX ' }] },
+  { id: 'draco', mimeType: 'application/octet-stream', extension: 'drc', label: 'Draco Mesh', kind: '3d', confidence: 0.95, description: 'Draco compressed mesh', patterns: [{ bytes: 'DRACO' }] },
+
+  // Documents
+  { id: 'pdf', mimeType: 'application/pdf', extension: 'pdf', label: 'PDF Document', kind: 'pdf', confidence: 1, description: 'Portable Document Format', patterns: [{ bytes: '%PDF-' }] },
+  { id: 'postscript', mimeType: 'application/postscript', extension: 'ps', label: 'PostScript Document', kind: 'document', confidence: 0.95, description: 'PostScript', patterns: [{ bytes: '%!PS' }] },
+  { id: 'rtf', mimeType: 'application/rtf', extension: 'rtf', label: 'RTF Document', kind: 'document', confidence: 0.95, description: 'Rich Text Format', patterns: [{ bytes: '{\\rtf' }] },
+  { id: 'ole', mimeType: 'application/x-ole-storage', extension: 'doc', label: 'Office Document', kind: 'document', confidence: 0.9, description: 'Legacy Microsoft Office (OLE compound file)', patterns: [{ bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] }] },
+  { id: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx', label: 'Word Document', kind: 'document', confidence: 0.95, description: 'Microsoft Word (OOXML)', patterns: zipWith('word/') },
+  { id: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx', label: 'Excel Spreadsheet', kind: 'document', confidence: 0.95, description: 'Microsoft Excel (OOXML)', patterns: zipWith('xl/') },
+  { id: 'pptx', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', extension: 'pptx', label: 'PowerPoint Presentation', kind: 'document', confidence: 0.95, description: 'Microsoft PowerPoint (OOXML)', patterns: zipWith('ppt/') },
+  { id: 'odt', mimeType: 'application/vnd.oasis.opendocument.text', extension: 'odt', label: 'OpenDocument Text', kind: 'document', confidence: 1, description: 'OpenDocument text', patterns: zipMimetype('application/vnd.oasis.opendocument.text') },
+  { id: 'ods', mimeType: 'application/vnd.oasis.opendocument.spreadsheet', extension: 'ods', label: 'OpenDocument Spreadsheet', kind: 'document', confidence: 1, description: 'OpenDocument spreadsheet', patterns: zipMimetype('application/vnd.oasis.opendocument.spreadsheet') },
+  { id: 'odp', mimeType: 'application/vnd.oasis.opendocument.presentation', extension: 'odp', label: 'OpenDocument Presentation', kind: 'document', confidence: 1, description: 'OpenDocument presentation', patterns: zipMimetype('application/vnd.oasis.opendocument.presentation') },
+  { id: 'djvu', mimeType: 'image/vnd.djvu', extension: 'djvu', label: 'DjVu Document', kind: 'document', confidence: 1, description: 'DjVu scanned document', patterns: [{ bytes: 'AT&TFORM' }] },
+  { id: 'epub', mimeType: 'application/epub+zip', extension: 'epub', label: 'EPUB Book', kind: 'ebook', confidence: 1, description: 'Electronic publication', patterns: zipMimetype('application/epub+zip') },
+  { id: 'mobi', mimeType: 'application/x-mobipocket-ebook', extension: 'mobi', label: 'Mobipocket Book', kind: 'ebook', confidence: 1, description: 'Mobipocket / Kindle e-book', patterns: [{ offset: 60, bytes: 'BOOKMOBI' }] },
+
+  // Executables
+  { id: 'wasm', mimeType: 'application/wasm', extension: 'wasm', label: 'WebAssembly Module', kind: 'executable', confidence: 1, description: 'WebAssembly binary', patterns: [{ bytes: [0x00, 0x61, 0x73, 0x6d] }] },
+  { id: 'elf', mimeType: 'application/x-elf', extension: 'elf', label: 'ELF Executable', kind: 'executable', confidence: 1, description: 'Executable and Linkable Format', patterns: [{ bytes: [0x7f, 0x45, 0x4c, 0x46] }] },
+  { id: 'pe', mimeType: 'application/vnd.microsoft.portable-executable', extension: 'exe', label: 'Windows Executable', kind: 'executable', confidence: 0.8, description: 'Portable Executable', patterns: [{ bytes: 'MZ' }, { offset: 60, bytes: [0x00, 0x00], mask: [0x00, 0xf0] }] },
+  { id: 'macho-32', mimeType: 'application/x-mach-binary', extension: 'macho', label: 'Mach-O Binary', kind: 'executable', confidence: 0.95, description: 'Mach-O executable', patterns: [{ bytes: [0xce, 0xfa, 0xed, 0xfe] }] },
+  { id: 'macho-64', mimeType: 'application/x-mach-binary', extension: 'macho', label: 'Mach-O Binary', kind: 'executable', confidence: 0.95, description: 'Mach-O executable', patterns: [{ bytes: [0xcf, 0xfa, 0xed, 0xfe] }] },
+  { id: 'java-class', mimeType: 'application/java-vm', extension: 'class', label: 'Java Class', kind: 'executable', confidence: 0.7, description: 'Java bytecode', patterns: [{ bytes: [0xca, 0xfe, 0xba, 0xbe] }, { offset: 4, bytes: [0x00, 0x00] }] },
+  { id: 'dex', mimeType: 'application/vnd.android.dex', extension: 'dex', label: 'Dalvik Executable', kind: 'executable', confidence: 1, description: 'Android Dalvik bytecode', patterns: [{ bytes: 'dex\n' }] },
+  { id: 'apk', mimeType: 'application/vnd.android.package-archive', extension: 'apk', label: 'Android Package', kind: 'executable', confidence: 0.95, description: 'Android application package', patterns: zipWith('AndroidManifest.xml') },
+
+  // Data
+  { id: 'sqlite', mimeType: 'application/vnd.sqlite3', extension: 'sqlite', label: 'SQLite Database', kind: 'data', confidence: 1, description: 'SQLite 3 database', patterns: [{ bytes: 'SQLite format 3\u0000' }] },
+  { id: 'parquet', mimeType: 'application/vnd.apache.parquet', extension: 'parquet', label: 'Parquet Data', kind: 'data', confidence: 0.95, description: 'Apache Parquet', patterns: [{ bytes: 'PAR1' }] },
+  { id: 'avro', mimeType: 'application/avro', extension: 'avro', label: 'Avro Data', kind: 'data', confidence: 0.95, description: 'Apache Avro object container', patterns: [{ bytes: [0x4f, 0x62, 0x6a, 0x01] }] },
+  { id: 'arrow', mimeType: 'application/vnd.apache.arrow.file', extension: 'arrow', label: 'Arrow Data', kind: 'data', confidence: 1, description: 'Apache Arrow IPC file', patterns: [{ bytes: 'ARROW1' }] },
+  { id: 'pcap', mimeType: 'application/vnd.tcpdump.pcap', extension: 'pcap', label: 'Packet Capture', kind: 'data', confidence: 0.95, description: 'libpcap capture', patterns: [{ bytes: [0xd4, 0xc3, 0xb2, 0xa1] }] }
+];
+
+// =================
+// ENGINE
+// =================
+
+function toBytes(value: number[] | string): number[] {
+  if (typeof value !== 'string') return value;
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    bytes.push(value.charCodeAt(i) & 0xff);
+  }
+  return bytes;
+}
+
+function matchesAt(data: Uint8Array, pattern: CompiledPattern, at: number): boolean {
+  if (at + pattern.bytes.length > data.length) return false;
+  for (let i = 0; i < pattern.bytes.length; i++) {
+    const mask = pattern.mask ? pattern.mask[i] ?? 0xff : 0xff;
+    if ((data[at + i] & mask) !== (pattern.bytes[i] & mask)) return false;
+  }
+  return true;
+}
+
+function matchesPattern(data: Uint8Array, pattern: CompiledPattern): boolean {
+  if (pattern.range <= 0) return matchesAt(data, pattern, pattern.offset);
+  const last = Math.min(data.length - pattern.bytes.length, pattern.offset + pattern.range);
+  for (let at = pattern.offset; at <= last; at++) {
+    if (matchesAt(data, pattern, at)) return true;
+  }
+  return false;
+}
+
+/**
+ * Heuristic: true when a sample has no NULs and almost no control bytes
+ */
+export function looksLikeText(bytes: Uint8Array, sampleSize: number = 1024): boolean {
+  const length = Math.min(bytes.length, sampleSize);
+  if (length === 0) return false;
+  let control = 0;
+  for (let i = 0; i < length; i++) {
+    const byte = bytes[i];
+    if (byte === 0x00) return false;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) {
+      control++;
+    }
+  }
+  return control / length < 0.02;
+}
+
+export class ContentSniffer {
+  private signatures: Map<string, CompiledSignature> = new Map();
+  private order = 0;
+
+  constructor(signatures: ContentSignature[] = DEFAULT_SIGNATURES) {
+    signatures.forEach(signature => this.register(signature));
+  }
+
+  /**
+   * Add a signature, replacing any existing one with the same id.
+   * Later registrations win ties, so integrators can override built-ins.
+   */
+  register(signature: ContentSignature): void {
+    if (!signature.patterns.length) {
+      throw new Error(`Signature "${signature.id}" has no patterns`);
+    }
+
+    const patterns = signature.patterns.map(pattern => ({
+      offset: pattern.offset || 0,
+      bytes: toBytes(pattern.bytes),
+      mask: pattern.mask || null,
+      range: pattern.range || 0
+    }));
+
+    this.signatures.set(signature.id, {
+      signature,
+      patterns,
+      specificity: patterns.reduce((total, pattern) => total + pattern.bytes.length, 0),
+      order: this.order++
+    });
+  }
+
+  unregister(id: string): boolean {
+    return this.signatures.delete(id);
+  }
+
+  getSignatures(): ContentSignature[] {
+    return Array.from(this.signatures.values()).map(entry => entry.signature);
+  }
+
+  /**
+   * All matching signatures, best first
+   */
+  sniffAll(bytes: Uint8Array, options: SniffOptions = {}): SignatureMatch[] {
+    const { minConfidence = 0 } = options;
+    const matches: CompiledSignature[] = [];
+
+    this.signatures.forEach(entry => {
+      if (entry.signature.confidence < minConfidence) return;
+      if (entry.patterns.every(pattern => matchesPattern(bytes, pattern))) {
+        matches.push(entry);
+      }
+    });
+
+    return matches
+      .sort((a, b) =>
+        b.signature.confidence - a.signature.confidence ||
+        b.specificity - a.specificity ||
+        b.order - a.order
+      )
+      .map(entry => ({
+        signature: entry.signature,
+        confidence: entry.signature.confidence,
+        mimeType: entry.signature.mimeType,
+        extension: entry.signature.extension
+      }));
+  }
+
+  /**
+   * Best matching signature, or null when nothing matches
+   */
+  sniff(bytes: Uint8Array, options: SniffOptions = {}): SignatureMatch | null {
+    return this.sniffAll(bytes, options)[0] || null;
+  }
+}
+
+// Shared instance used by content analysis and detectContentTypeFromBytes
+export const contentSniffer = new ContentSniffer();
+
+export function sniffContent(bytes: Uint8Array, options?: SniffOptions): SignatureMatch | null {
+  return contentSniffer.sniff(bytes, options);
+}
+
+export function registerSignature(signature: ContentSignature): void {
+  contentSniffer.register(signature);
+}
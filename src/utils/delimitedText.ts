@@ -0,0 +1,286 @@
+/**
+ * Delimited text (CSV/TSV) parsing
+ * RFC 4180 fields with quoted delimiters, escaped quotes and embedded newlines,
+ * delimiter and header detection, per-column type inference, filter expressions
+ * and serialization back to delimited text.
+ */
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'text';
+
+export interface TableColumn {
+  index: number;
+  name: string;
+  type: ColumnType;
+}
+
+export interface DelimitedTable {
+  delimiter: string;
+  hasHeader: boolean;
+  columns: TableColumn[];
+  rows: string[][]; // Data rows, padded to the column count
+}
+
+export interface DelimitedParseOptions {
+  delimiter?: string; // Detected from the first lines when omitted
+  header?: boolean; // Detected from the first row when omitted
+  maxRows?: number;
+}
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+// =================
+// PARSING
+// =================
+
+/**
+ * Split delimited text into rows of fields. Quotes only open at the start of a
+ * field; stray quotes inside unquoted fields are kept literally.
+ */
+export function parseDelimitedRows(text: string, delimiter: string, maxRows: number = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length && rows.length < maxRows) {
+    const char = text[i];
+
+    if (char === '"' && field === '') {
+      // Quoted field: read to the closing quote, unescaping ""
+      i++;
+      while (i < text.length) {
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        field += text[i++];
+      }
+      // Anything between the closing quote and the next delimiter is kept
+      while (i < text.length && text[i] !== delimiter && text[i] !== '\n' && text[i] !== '\r') field += text[i++];
+      continue;
+    }
+
+    if (char === delimiter) {
+      row.push(field);
+      field = '';
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  if (rows.length < maxRows && (field !== '' || row.length)) endRow();
+  return rows;
+}
+
+/**
+ * Pick the delimiter whose field count is highest and most consistent over the first lines
+ */
+export function detectDelimiter(text: string): string {
+  const sample = parseSampleLines(text);
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = sample.map(line => parseDelimitedRows(line, delimiter, 1)[0]?.length ?? 0);
+    if (!counts.length || counts[0] < 2) continue;
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function parseSampleLines(text: string): string[] {
+  return text.slice(0, 16 * 1024).split(/\r\n?|\n/).filter(line => line.trim()).slice(0, 20);
+}
+
+// =================
+// TYPES
+// =================
+
+const NUMBER_PATTERN = /^[-+]?[$€£¥₿]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?(?:[eE][-+]?\d+)?%?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+
+/** Parse a cell as a number, accepting thousands separators, a currency prefix and a percent suffix */
+export function parseNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed || !NUMBER_PATTERN.test(trimmed) || !/\d/.test(trimmed)) return null;
+  const number = Number(trimmed.replace(/[$€£¥₿,%]/g, ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+/** Parse an ISO 8601 date or date-time cell to a timestamp */
+export function parseDate(value: string): number | null {
+  const trimmed = value.trim();
+  if (!DATE_PATTERN.test(trimmed)) return null;
+  const time = Date.parse(trimmed);
+  return Number.isNaN(time) ? null : time;
+}
+
+function parseBoolean(value: string): boolean | null {
+  return BOOLEAN_VALUES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Infer a column type: the first of boolean, number or date that every
+ * non-empty value satisfies, otherwise text
+ */
+export function inferColumnType(values: string[]): ColumnType {
+  const present = values.filter(value => value.trim() !== '');
+  if (!present.length) return 'text';
+  if (present.every(value => parseBoolean(value) !== null)) return 'boolean';
+  if (present.every(value => parseNumber(value) !== null)) return 'number';
+  if (present.every(value => parseDate(value) !== null)) return 'date';
+  return 'text';
+}
+
+/** Value used for sorting and comparisons; null for empty cells */
+export function cellValue(value: string, type: ColumnType): number | string | null {
+  if (value.trim() === '') return null;
+  switch (type) {
+    case 'number': return parseNumber(value);
+    case 'date': return parseDate(value);
+    case 'boolean': return parseBoolean(value) ? 1 : 0;
+    default: return value;
+  }
+}
+
+/** Compare two cell values from `cellValue`; empty cells always sort last */
+export function compareValues(left: number | string | null, right: number | string | null, direction: 'asc' | 'desc' = 'asc'): number {
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+  const order = typeof left === 'number' && typeof right === 'number'
+    ? left - right
+    : String(left).localeCompare(String(right), undefined, { numeric: true, sensitivity: 'base' });
+  return direction === 'asc' ? order : -order;
+}
+
+/** Compare two cells of a column */
+export function compareCells(a: string, b: string, type: ColumnType, direction: 'asc' | 'desc' = 'asc'): number {
+  return compareValues(cellValue(a, type), cellValue(b, type), direction);
+}
+
+// =================
+// TABLES
+// =================
+
+/**
+ * A header row is distinct, non-empty text whose cells either sit above a typed
+ * column or never repeat in the rows below
+ */
+function looksLikeHeader(first: string[], body: string[][]): boolean {
+  if (first.some(cell => cell.trim() === '' || inferColumnType([cell]) !== 'text')) return false;
+  if (new Set(first.map(cell => cell.trim().toLowerCase())).size !== first.length) return false;
+  const sample = body.slice(0, 200);
+  const hasTypedColumn = first.some((_, column) => inferColumnType(sample.map(row => row[column])) !== 'text');
+  return hasTypedColumn || first.every((cell, column) => !sample.some(row => row[column] === cell));
+}
+
+/**
+ * Parse delimited text into named, typed columns
+ */
+export function parseDelimited(text: string, options: DelimitedParseOptions = {}): DelimitedTable {
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const parsed = parseDelimitedRows(text, delimiter, options.maxRows === undefined ? Infinity : options.maxRows + 1);
+  const width = parsed.reduce((max, row) => Math.max(max, row.length), 0);
+  const padded = parsed.map(row => (row.length < width ? [...row, ...new Array(width - row.length).fill('')] : row));
+
+  const hasHeader = options.header ?? (padded.length > 1 && looksLikeHeader(padded[0], padded.slice(1)));
+  const header = hasHeader ? padded[0] : [];
+  let rows = hasHeader ? padded.slice(1) : padded;
+  if (options.maxRows !== undefined) rows = rows.slice(0, options.maxRows);
+
+  const columns = Array.from({ length: width }, (_, index) => ({
+    index,
+    name: header[index]?.trim() || `Column ${index + 1}`,
+    type: inferColumnType(rows.map(row => row[index]))
+  }));
+
+  return { delimiter, hasHeader, columns, rows };
+}
+
+// =================
+// FILTERING
+// =================
+
+const COMPARISON_PATTERN = /^(>=|<=|!=|>|<|=)\s*(.+)$/;
+const RANGE_PATTERN = /^(.+?)\s*\.\.\s*(.+)$/;
+
+/**
+ * Test a cell against a column filter. Number and date columns accept
+ * comparisons (`>10`, `<=2024-01-01`, `!=0`) and ranges (`5..10`); every column
+ * accepts `=exact`, `!excluded` and plain case-insensitive substrings.
+ */
+export function matchesFilter(value: string, type: ColumnType, filter: string): boolean {
+  const query = filter.trim();
+  if (!query) return true;
+  const text = value.toLowerCase();
+
+  if (type === 'number' || type === 'date') {
+    const parse = type === 'number' ? parseNumber : parseDate;
+    const cell = parse(value);
+    const range = RANGE_PATTERN.exec(query);
+    if (range) {
+      const [low, high] = [parse(range[1]), parse(range[2])];
+      if (low !== null && high !== null) return cell !== null && cell >= low && cell <= high;
+    }
+    const comparison = COMPARISON_PATTERN.exec(query);
+    const target = comparison ? parse(comparison[2]) : null;
+    if (comparison && target !== null) {
+      if (cell === null) return comparison[1] === '!=';
+      switch (comparison[1]) {
+        case '>': return cell > target;
+        case '<': return cell < target;
+        case '>=': return cell >= target;
+        case '<=': return cell <= target;
+        case '=': return cell === target;
+        case '!=': return cell !== target;
+      }
+    }
+  }
+
+  if (query.startsWith('=')) return text === query.slice(1).trim().toLowerCase();
+  if (query.startsWith('!') && query.length > 1) return !text.includes(query.slice(1).trim().toLowerCase());
+  return text.includes(query.toLowerCase());
+}
+
+// =================
+// SERIALIZING
+// =================
+
+/** Quote a field when it contains the delimiter, quotes, line breaks or edge whitespace */
+function quoteField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Serialize rows back to delimited text
+ */
+export function formatDelimited(rows: string[][], delimiter: string = ','): string {
+  return rows.map(row => row.map(value => quoteField(value, delimiter)).join(delimiter)).join('\n') + '\n';
+}
@@ -3,3 +3,23 @@ export * from './contentDetection';
 export * from './batchFetcher';
 export * from './safeFormatting';
 export * from './requestThrottler';
+export * from './schemaValidation';
+export * from './bytes';
+export * from './cbor';
+export * from './requestCoalescer';
+export * from './syntaxHighlighter';
+export * from './contentSniffer';
+export * from './containerParsers';
+export * from './pdfDocument';
+export * from './pdfRasterizer';
+export * from './markdown';
+export * from './delimitedText';
+export * from './animatedImage';
+export * from './pixelInspect';
+export * from './audioTags';
+export * from './audioAnalysis';
+export * from './videoMetadata';
+export * from './videoFrames';
+export * from './modelInspection';
+export * from './softwareRasterizer';
+export * from './recursionBridge';
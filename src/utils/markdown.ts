@@ -0,0 +1,907 @@
+/**
+ * Markdown parser
+ * CommonMark-style blocks and inlines plus the GFM extensions inscriptions use
+ * (tables, task lists, strikethrough, autolinks). Inline and block HTML is
+ * reduced to an allow-listed subset: unknown tags are unwrapped, script-like
+ * tags are dropped with their content, and only safe attributes and URLs survive.
+ * The output is a plain tree so renderers never inject raw HTML.
+ */
+
+// =================
+// TYPES
+// =================
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'emphasis' | 'strong' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; title?: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string; title?: string }
+  | { type: 'element'; tag: string; attrs: Record<string, string>; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  checked: boolean | null; // null for regular items, boolean for task list items
+  children: MarkdownBlock[];
+}
+
+export type MarkdownAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: MarkdownListItem[] }
+  | { type: 'table'; align: MarkdownAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' }
+  | { type: 'html'; children: MarkdownInline[] };
+
+interface LinkReference {
+  href: string;
+  title?: string;
+}
+
+type References = Map<string, LinkReference>;
+
+// =================
+// SANITIZING
+// =================
+
+// Tags kept as elements; everything else is unwrapped to its children
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'caption', 'center', 'cite', 'code', 'dd', 'del', 'details',
+  'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img',
+  'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'small', 'span', 'strike',
+  'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'tt', 'u',
+  'ul', 'var', 'wbr'
+]);
+
+// Tags removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript', 'template',
+  'title', 'head', 'textarea', 'select', 'svg', 'math', 'canvas', 'audio', 'video'
+]);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'wbr', 'area', 'base', 'col', 'embed', 'input', 'link', 'meta', 'source', 'track']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'details', 'dialog', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p',
+  'picture', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+  ...Array.from(DROPPED_TAGS)
+]);
+
+const GLOBAL_ATTRIBUTES = ['title', 'align', 'dir', 'lang'];
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+  ol: ['start'],
+  details: ['open'],
+  time: ['datetime'],
+  abbr: ['title']
+};
+
+/**
+ * Return the URL if it is safe to link to or load, otherwise null.
+ * Images additionally allow raster data: URLs.
+ */
+export function sanitizeUrl(url: string, kind: 'link' | 'image' = 'link'): string | null {
+  // Browsers ignore control characters and whitespace inside schemes
+  const trimmed = url.trim();
+  const compact = trimmed.replace(/[\u0000- \u007f]/g, '').toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(compact);
+  if (!scheme) return trimmed;
+  if (['http', 'https'].includes(scheme[1])) return trimmed;
+  if (kind === 'link' && scheme[1] === 'mailto') return trimmed;
+  if (kind === 'image' && /^data:image\/(?:png|gif|jpe?g|webp|avif);/.test(compact)) return trimmed;
+  return null;
+}
+
+/**
+ * Resolve recursive inscription references (`/content/<id>`, `/r/...`) against
+ * the configured API endpoint; other URLs are returned unchanged
+ */
+export function resolveRecursiveUrl(url: string, apiEndpoint: string): string {
+  if (!/^\/(?:content|r|preview)\//.test(url)) return url;
+  return `${apiEndpoint.replace(/\/+$/, '')}${url}`;
+}
+
+function sanitizeAttributes(tag: string, raw: Record<string, string>): Record<string, string> {
+  const allowed = [...GLOBAL_ATTRIBUTES, ...(TAG_ATTRIBUTES[tag] || [])];
+  const attrs: Record<string, string> = {};
+  for (const name of allowed) {
+    if (!(name in raw)) continue;
+    const value = raw[name];
+    if (name === 'href' || name === 'src') {
+      const safe = sanitizeUrl(value, name === 'src' ? 'image' : 'link');
+      if (safe !== null) attrs[name] = safe;
+    } else if (name === 'width' || name === 'height' || name === 'colspan' || name === 'rowspan' || name === 'start') {
+      if (/^\d{1,5}%?$/.test(value.trim())) attrs[name] = value.trim();
+    } else {
+      attrs[name] = value;
+    }
+  }
+  return attrs;
+}
+
+// =================
+// ENTITIES
+// =================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•',
+  middot: '·', times: '×', divide: '÷', deg: '°', euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§',
+  para: '¶', larr: '←', rarr: '→', uarr: '↑', darr: '↓', harr: '↔', check: '✓', laquo: '«', raquo: '»'
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]{1,6}|#\d{1,7}|[a-z][a-z0-9]{1,31});/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff) ? String.fromCodePoint(code) : '�';
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// =================
+// HTML
+// =================
+
+const TAG_PATTERN = /^<([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+const CLOSE_TAG_PATTERN = /^<\/([a-zA-Z][a-zA-Z0-9-]*)\s*>/;
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(ATTRIBUTE_PATTERN))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/** Skip past the closing tag of a dropped element; returns the index after it */
+function skipDropped(html: string, from: number, tag: string): number {
+  const close = new RegExp(`</${tag}\\s*>`, 'i').exec(html.slice(from));
+  return close ? from + close.index + close[0].length : html.length;
+}
+
+/**
+ * Parse an HTML fragment into sanitized nodes. Markdown is not processed inside.
+ */
+export function parseHtml(html: string): MarkdownInline[] {
+  const root: MarkdownInline[] = [];
+  const stack: Array<{ tag: string; children: MarkdownInline[] }> = [];
+  const current = () => (stack.length ? stack[stack.length - 1].children : root);
+  let text = '';
+  const flush = () => {
+    if (text) current().push({ type: 'text', text: decodeEntities(text) });
+    text = '';
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    if (html[i] !== '<') {
+      text += html[i++];
+      continue;
+    }
+    const rest = html.slice(i);
+
+    if (rest.startsWith('<!--')) {
+      flush();
+      const end = rest.indexOf('-->', 4);
+      i += end < 0 ? rest.length : end + 3;
+      continue;
+    }
+    if (/^<[!?]/.test(rest)) {
+      flush();
+      const end = rest.indexOf('>');
+      i += end < 0 ? rest.length : end + 1;
+      continue;
+    }
+
+    const close = CLOSE_TAG_PATTERN.exec(rest);
+    if (close) {
+      flush();
+      const tag = close[1].toLowerCase();
+      const index = stack.map(entry => entry.tag).lastIndexOf(tag);
+      if (index >= 0) stack.length = index;
+      i += close[0].length;
+      continue;
+    }
+
+    const open = TAG_PATTERN.exec(rest);
+    if (!open) {
+      text += html[i++];
+      continue;
+    }
+
+    flush();
+    const tag = open[1].toLowerCase();
+    i += open[0].length;
+    if (DROPPED_TAGS.has(tag)) {
+      if (!open[3] && !VOID_TAGS.has(tag)) i = skipDropped(html, i, tag);
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    const element: MarkdownInline = { type: 'element', tag, attrs: sanitizeAttributes(tag, parseAttributes(open[2])), children: [] };
+    current().push(element);
+    if (!VOID_TAGS.has(tag) && !open[3]) stack.push({ tag, children: element.children });
+  }
+
+  flush();
+  return root;
+}
+
+// =================
+// INLINES
+// =================
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const WHITESPACE = /\s/;
+const ALPHANUMERIC = /[\p{L}\p{N}]/u;
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Find the bracket that closes the one at `open`, honouring escapes and code spans */
+function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end > 0) i = end + run.length - 1;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      if (--depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** Parse `(destination "title")` at `start`; returns the end index and parts */
+function parseLinkTail(text: string, start: number): { end: number; href: string; title?: string } | null {
+  if (text[start] !== '(') return null;
+  let i = start + 1;
+  while (i < text.length && WHITESPACE.test(text[i])) i++;
+
+  let href = '';
+  if (text[i] === '<') {
+    const end = text.indexOf('>', i);
+    if (end < 0) return null;
+    href = text.slice(i + 1, end);
+    i = end + 1;
+  } else {
+    let depth = 0;
+    while (i < text.length && !WHITESPACE.test(text[i])) {
+      if (text[i] === '\\' && i + 1 < text.length) {
+        href += text[i + 1];
+        i += 2;
+        continue;
+      }
+      if (text[i] === '(') depth++;
+      if (text[i] === ')' && depth-- === 0) break;
+      href += text[i++];
+    }
+  }
+
+  while (i < text.length && WHITESPACE.test(text[i])) i++;
+  let title: string | undefined;
+  const quote = text[i];
+  if (quote === '"' || quote === "'" || quote === '(') {
+    const closer = quote === '(' ? ')' : quote;
+    const end = text.indexOf(closer, i + 1);
+    if (end < 0) return null;
+    title = decodeEntities(text.slice(i + 1, end));
+    i = end + 1;
+    while (i < text.length && WHITESPACE.test(text[i])) i++;
+  }
+
+  if (text[i] !== ')') return null;
+  return { end: i + 1, href: decodeEntities(href), title };
+}
+
+function plainText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': case 'code': return node.text;
+      case 'image': return node.alt;
+      case 'break': return ' ';
+      default: return 'children' in node ? plainText(node.children) : '';
+    }
+  }).join('');
+}
+
+function canOpen(text: string, index: number, length: number, char: string): boolean {
+  const next = text[index + length];
+  if (next === undefined || WHITESPACE.test(next)) return false;
+  return char !== '_' || !ALPHANUMERIC.test(text[index - 1] || '');
+}
+
+function canClose(text: string, index: number, length: number, char: string): boolean {
+  const previous = text[index - 1];
+  if (previous === undefined || WHITESPACE.test(previous)) return false;
+  return char !== '_' || !ALPHANUMERIC.test(text[index + length] || '');
+}
+
+/**
+ * Find a closing delimiter run for an opener of `length` characters, skipping
+ * code spans and escapes. Runs of exactly that length win; otherwise the tail
+ * of a longer run closes (e.g. the last "*" of "***" in `*a **b***`).
+ */
+function findCloser(text: string, from: number, char: string, length: number): number {
+  let fallback = -1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end > 0) i = end + run.length - 1;
+      continue;
+    }
+    if (text[i] !== char) continue;
+    let run = 1;
+    while (text[i + run] === char) run++;
+    if (run >= length && canClose(text, i, run, char)) {
+      if (run === length) return i;
+      if (fallback < 0) fallback = i + run - length;
+    }
+    i += run - 1;
+  }
+  return fallback;
+}
+
+const AUTOLINK_PATTERN = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/;
+const EMAIL_AUTOLINK_PATTERN = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+const BARE_URL_PATTERN = /^(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:*_~)'"]/;
+
+/**
+ * Parse inline markdown. Exported for table cells and other single-line content.
+ */
+export function parseInline(text: string, references: References = new Map(), depth: number = 0): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+  // Once a delimiter finds no closer from some point, later openers won't either
+  const unclosed = new Map<string, number>();
+  // Guard against pathological nesting
+  const inner = (source: string) => (depth > 16 ? [{ type: 'text' as const, text: source }] : parseInline(source, references, depth + 1));
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    // Escapes and hard breaks
+    if (char === '\\') {
+      if (text[i + 1] === '\n') {
+        push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+    }
+    if (char === '\n') {
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, '');
+        push({ type: 'break' });
+      } else {
+        buffer = buffer.replace(/ +$/, '') + '\n';
+      }
+      i++;
+      while (text[i] === ' ') i++;
+      continue;
+    }
+
+    // Code spans
+    if (char === '`') {
+      const run = /^`+/.exec(rest)![0];
+      let end = i + run.length;
+      let found = -1;
+      while ((end = text.indexOf(run, end)) >= 0) {
+        if (text[end + run.length] !== '`' && text[end - 1] !== '`') {
+          found = end;
+          break;
+        }
+        end += run.length;
+      }
+      if (found >= 0) {
+        let code = text.slice(i + run.length, found).replace(/\n/g, ' ');
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+        push({ type: 'code', text: code });
+        i = found + run.length;
+      } else {
+        buffer += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    // Autolinks and inline HTML
+    if (char === '<') {
+      const auto = AUTOLINK_PATTERN.exec(rest);
+      const email = auto ? null : EMAIL_AUTOLINK_PATTERN.exec(rest);
+      const match = auto || email;
+      if (match) {
+        const href = sanitizeUrl(email ? `mailto:${match[1]}` : match[1]);
+        if (href !== null) push({ type: 'link', href, children: [{ type: 'text', text: match[1] }] });
+        else buffer += match[1];
+        i += match[0].length;
+        continue;
+      }
+      const html = parseInlineHtml(text, i, inner);
+      if (html) {
+        if (html.node) push(html.node);
+        i = html.end;
+        continue;
+      }
+    }
+
+    // Images and links
+    if ((char === '!' && text[i + 1] === '[') || char === '[') {
+      const open = char === '!' ? i + 1 : i;
+      const close = findClosingBracket(text, open);
+      if (close > 0) {
+        const label = text.slice(open + 1, close);
+        let target: LinkReference | null = null;
+        let end = close + 1;
+
+        const tail = parseLinkTail(text, close + 1);
+        if (tail) {
+          target = { href: tail.href, title: tail.title };
+          end = tail.end;
+        } else {
+          // Full [text][ref], collapsed [text][] or shortcut [text] references
+          const refMatch = /^\[([^\]]*)\]/.exec(text.slice(close + 1));
+          const key = normalizeLabel(refMatch && refMatch[1] ? refMatch[1] : label);
+          if (references.has(key)) {
+            target = references.get(key)!;
+            if (refMatch) end = close + 1 + refMatch[0].length;
+          }
+        }
+
+        if (target) {
+          if (char === '!') {
+            const src = sanitizeUrl(target.href, 'image');
+            push({ type: 'image', src: src ?? '', alt: plainText(inner(label)), title: target.title });
+          } else {
+            const href = sanitizeUrl(target.href);
+            const children = inner(label);
+            if (href !== null) push({ type: 'link', href, title: target.title, children });
+            else children.forEach(push);
+          }
+          i = end;
+          continue;
+        }
+      }
+    }
+
+    // Emphasis, strong and strikethrough
+    if (char === '*' || char === '_' || char === '~') {
+      let run = 1;
+      while (text[i + run] === char) run++;
+      if (canOpen(text, i, run, char)) {
+        const attempts = char === '~' ? (run <= 2 ? [run] : []) : run >= 3 ? [3, 2, 1] : run === 2 ? [2, 1] : [1];
+        let matched = false;
+        for (const length of attempts) {
+          // Extra opener characters stay literal
+          const key = char + length;
+          if (i + run >= (unclosed.get(key) ?? Infinity)) continue;
+          const closer = findCloser(text, i + run, char, length);
+          if (closer < 0) unclosed.set(key, i + run);
+          if (closer <= i + run) continue;
+          const children = inner(text.slice(i + run, closer));
+          let node: MarkdownInline;
+          if (char === '~') node = { type: 'strikethrough', children };
+          else if (length === 3) node = { type: 'emphasis', children: [{ type: 'strong', children }] };
+          else node = { type: length === 2 ? 'strong' : 'emphasis', children };
+          buffer += char.repeat(run - length);
+          push(node);
+          i = closer + length;
+          matched = true;
+          break;
+        }
+        if (matched) continue;
+      }
+      buffer += char.repeat(run);
+      i += run;
+      continue;
+    }
+
+    // GFM bare URLs
+    if ((char === 'h' || char === 'w') && !ALPHANUMERIC.test(text[i - 1] || '')) {
+      const url = BARE_URL_PATTERN.exec(rest);
+      if (url) {
+        const href = url[0].startsWith('www.') ? `https://${url[0]}` : url[0];
+        push({ type: 'link', href, children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    if (char === '&') {
+      const entity = /^&(?:#x[0-9a-f]{1,6}|#\d{1,7}|[a-z][a-z0-9]{1,31});/i.exec(rest);
+      if (entity) {
+        buffer += decodeEntities(entity[0]);
+        i += entity[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Inline HTML: an allowed tag wraps markdown up to its matching close tag.
+ * Returns null when the text at `start` isn't a tag.
+ */
+function parseInlineHtml(
+  text: string,
+  start: number,
+  inner: (source: string) => MarkdownInline[]
+): { node: MarkdownInline | null; end: number } | null {
+  const rest = text.slice(start);
+  if (rest.startsWith('<!--')) {
+    const end = rest.indexOf('-->', 4);
+    return end < 0 ? null : { node: null, end: start + end + 3 };
+  }
+  const close = CLOSE_TAG_PATTERN.exec(rest);
+  if (close) return { node: null, end: start + close[0].length }; // Stray close tag
+  const open = TAG_PATTERN.exec(rest);
+  if (!open) return null;
+
+  const tag = open[1].toLowerCase();
+  let end = start + open[0].length;
+  if (DROPPED_TAGS.has(tag)) {
+    return { node: null, end: open[3] ? end : skipDropped(text, end, tag) };
+  }
+
+  // Find the matching close tag, allowing nested tags of the same name
+  let children: MarkdownInline[] = [];
+  if (!VOID_TAGS.has(tag) && !open[3]) {
+    const pattern = new RegExp(`<(/?)${tag}(?=[\\s/>])[^>]*>`, 'gi');
+    pattern.lastIndex = end;
+    let depth = 1;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      depth += match[1] ? -1 : 1;
+      if (depth === 0) break;
+    }
+    if (match && depth === 0) {
+      children = inner(text.slice(end, match.index));
+      end = match.index + match[0].length;
+    }
+  }
+
+  if (!ALLOWED_TAGS.has(tag)) {
+    // Unknown tags are unwrapped
+    return { node: children.length ? { type: 'element', tag: 'span', attrs: {}, children } : null, end };
+  }
+  return { node: { type: 'element', tag, attrs: sanitizeAttributes(tag, parseAttributes(open[2])), children }, end };
+}
+
+// =================
+// BLOCKS
+// =================
+
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])( {1,4}|\t|$)/;
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_BLOCK_PATTERN = /^ {0,3}(?:<!--|<\/?([a-zA-Z][a-zA-Z0-9-]*)(?:[\s/>]|$))/;
+const REFERENCE_PATTERN = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+
+function isBlank(line: string): boolean {
+  return !line.trim();
+}
+
+function startsHtmlBlock(line: string): boolean {
+  const match = HTML_BLOCK_PATTERN.exec(line);
+  return !!match && (!match[1] || BLOCK_TAGS.has(match[1].toLowerCase()));
+}
+
+/** Lines that end a paragraph without a blank line */
+function interruptsParagraph(line: string): boolean {
+  if (FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line) || BLOCKQUOTE_PATTERN.test(line)) return true;
+  if (startsHtmlBlock(line)) return true;
+  const list = LIST_PATTERN.exec(line);
+  // Only bullets and lists starting at 1 may interrupt, and never with an empty item
+  return !!list && !isBlank(line.slice(list[0].length)) && (/^[-*+]$/.test(list[2]) || /^1[.)]$/.test(list[2]));
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().trim().replace(/[^\p{L}\p{N}\s-]/gu, '').replace(/\s+/g, '-');
+}
+
+function removeIndent(line: string, columns: number): string {
+  let removed = 0;
+  while (removed < columns && line[removed] === ' ') removed++;
+  return line.slice(removed);
+}
+
+class BlockParser {
+  private slugs = new Map<string, number>();
+
+  constructor(private references: References) {}
+
+  parse(lines: string[]): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        i++;
+        continue;
+      }
+
+      // Fenced code
+      const fence = FENCE_PATTERN.exec(line);
+      if (fence && !(fence[2][0] === '`' && line.slice(fence[0].indexOf(fence[2]) + fence[2].length).includes('`'))) {
+        const [, indent, marker, info] = fence;
+        const closer = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+        const code: string[] = [];
+        i++;
+        while (i < lines.length && !closer.test(lines[i])) {
+          code.push(removeIndent(lines[i], indent.length));
+          i++;
+        }
+        i++; // Closing fence (or end of document)
+        blocks.push({ type: 'code', language: decodeEntities(info || ''), text: code.join('\n') });
+        continue;
+      }
+
+      // ATX heading
+      const heading = HEADING_PATTERN.exec(line);
+      if (heading) {
+        blocks.push(this.heading(heading[1].length, heading[2] || ''));
+        i++;
+        continue;
+      }
+
+      if (RULE_PATTERN.test(line)) {
+        blocks.push({ type: 'rule' });
+        i++;
+        continue;
+      }
+
+      // Blockquote, with lazy continuation lines
+      if (BLOCKQUOTE_PATTERN.test(line)) {
+        const quoted: string[] = [];
+        while (i < lines.length && !isBlank(lines[i])) {
+          if (BLOCKQUOTE_PATTERN.test(lines[i])) quoted.push(lines[i].replace(BLOCKQUOTE_PATTERN, ''));
+          else if (!interruptsParagraph(lines[i])) quoted.push(lines[i]);
+          else break;
+          i++;
+        }
+        blocks.push({ type: 'blockquote', children: this.parse(quoted) });
+        continue;
+      }
+
+      // Lists
+      if (LIST_PATTERN.test(line)) {
+        i = this.list(lines, i, blocks);
+        continue;
+      }
+
+      // Indented code
+      if (/^ {4}/.test(line)) {
+        const code: string[] = [];
+        while (i < lines.length && (/^ {4}/.test(lines[i]) || isBlank(lines[i]))) {
+          code.push(lines[i].slice(4));
+          i++;
+        }
+        while (code.length && isBlank(code[code.length - 1])) code.pop();
+        blocks.push({ type: 'code', language: '', text: code.join('\n') });
+        continue;
+      }
+
+      // HTML blocks run to the next blank line
+      if (startsHtmlBlock(line)) {
+        const html: string[] = [];
+        while (i < lines.length && !isBlank(lines[i])) html.push(lines[i++]);
+        blocks.push({ type: 'html', children: parseHtml(html.join('\n')) });
+        continue;
+      }
+
+      // GFM table: header row followed by a delimiter row with the same cell count
+      if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1])) {
+        const header = splitTableRow(line);
+        const delimiters = splitTableRow(lines[i + 1]);
+        if (header.length === delimiters.length) {
+          const align = delimiters.map(cell => {
+            const left = cell.startsWith(':');
+            const right = cell.endsWith(':');
+            return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+          });
+          const rows: MarkdownInline[][][] = [];
+          i += 2;
+          while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) {
+            const cells = splitTableRow(lines[i]);
+            rows.push(header.map((_, column) => parseInline(cells[column] ?? '', this.references)));
+            i++;
+          }
+          blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell, this.references)), rows });
+          continue;
+        }
+      }
+
+      // Paragraph, possibly a setext heading
+      const paragraph: string[] = [line.trim()];
+      i++;
+      let setext = 0;
+      while (i < lines.length && !isBlank(lines[i])) {
+        const underline = SETEXT_PATTERN.exec(lines[i]);
+        if (underline) {
+          setext = underline[1][0] === '=' ? 1 : 2;
+          i++;
+          break;
+        }
+        if (interruptsParagraph(lines[i])) break;
+        paragraph.push(lines[i].replace(/^\s+/, ''));
+        i++;
+      }
+      const text = paragraph.join('\n').replace(/\s+$/, '');
+      blocks.push(setext ? this.heading(setext, text) : { type: 'paragraph', children: parseInline(text, this.references) });
+    }
+
+    return blocks;
+  }
+
+  private heading(level: number, text: string): MarkdownBlock {
+    const children = parseInline(text.trim(), this.references);
+    let id = slugify(plainText(children)) || 'section';
+    const seen = this.slugs.get(id) || 0;
+    this.slugs.set(id, seen + 1);
+    if (seen) id = `${id}-${seen}`;
+    return { type: 'heading', level, id, children };
+  }
+
+  /** Parse a list starting at `start`; returns the index after it */
+  private list(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+    const first = LIST_PATTERN.exec(lines[start])!;
+    const ordered = /\d/.test(first[2]);
+    const delimiter = first[2].slice(-1);
+    const items: MarkdownListItem[] = [];
+    let tight = true;
+    let i = start;
+
+    while (i < lines.length) {
+      const marker = LIST_PATTERN.exec(lines[i]);
+      if (!marker || /\d/.test(marker[2]) !== ordered || marker[2].slice(-1) !== delimiter) break;
+
+      // Content starts after the marker; an empty first line means one space
+      const contentIndent = marker[1].length + marker[2].length + (isBlank(lines[i].slice(marker[0].length)) ? 1 : marker[3].length);
+      const itemLines = [lines[i].slice(marker[0].length)];
+      i++;
+
+      let sawBlank = false;
+      while (i < lines.length) {
+        const line = lines[i];
+        if (isBlank(line)) {
+          sawBlank = true;
+          itemLines.push('');
+          i++;
+          continue;
+        }
+        const indent = line.length - line.trimStart().length;
+        if (indent >= contentIndent) {
+          itemLines.push(removeIndent(line, contentIndent));
+        } else if (!sawBlank && !interruptsParagraph(line) && !LIST_PATTERN.test(line)) {
+          itemLines.push(line.trim()); // Lazy continuation
+        } else {
+          break;
+        }
+        sawBlank = false;
+        i++;
+      }
+
+      // Trailing blank lines belong between items, not inside them
+      let trailing = 0;
+      while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.pop();
+        trailing++;
+      }
+      if (itemLines.some(isBlank) || (trailing && i < lines.length && LIST_PATTERN.test(lines[i]))) tight = false;
+
+      // GFM task list marker
+      let checked: boolean | null = null;
+      const task = /^\[([ xX])\][ \t]+/.exec(itemLines[0]);
+      if (task) {
+        checked = task[1] !== ' ';
+        itemLines[0] = itemLines[0].slice(task[0].length);
+      }
+
+      items.push({ checked, children: this.parse(itemLines) });
+      if (trailing && !(i < lines.length && LIST_PATTERN.test(lines[i]))) break;
+    }
+
+    blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, tight, items });
+    return i;
+  }
+}
+
+/**
+ * Parse a markdown document into blocks. Link reference definitions are
+ * collected first so references can be used before they are defined.
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const references: References = new Map();
+  const content: string[] = [];
+  let inFence = false;
+
+  for (const line of lines) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    const reference = !inFence && REFERENCE_PATTERN.exec(line);
+    if (reference) {
+      const key = normalizeLabel(reference[1]);
+      if (!references.has(key)) {
+        references.set(key, { href: decodeEntities(reference[2]), title: reference[3] ?? reference[4] ?? reference[5] });
+      }
+    } else {
+      content.push(line);
+    }
+  }
+
+  return new BlockParser(references).parse(content);
+}
+
+/** Plain text of inline nodes, e.g. for alt text or search */
+export function markdownInlineText(nodes: MarkdownInline[]): string {
+  return plainText(nodes);
+}
@@ -0,0 +1,112 @@
+/**
+ * Scene graph, material and format helpers for the 3D renderer
+ */
+
+import * as THREE from 'three';
+
+/** Formats the 3D renderer has a loader for */
+export type ModelFormat = 'gltf' | 'glb' | 'obj' | 'stl' | 'ply' | '3mf' | 'dae' | 'fbx' | '3ds' | 'wrl' | 'vox';
+
+export interface SceneNodeInfo {
+  id: string; // Object3D uuid
+  name: string;
+  type: string;
+  vertices: number; // Own geometry only, 0 for groups
+  children: SceneNodeInfo[];
+}
+
+export interface TextureSlotInfo {
+  slot: string; // Material property, e.g. `map` or `normalMap`
+  texture: THREE.Texture;
+}
+
+export interface MaterialInfo {
+  id: string; // Material uuid
+  name: string;
+  type: string;
+  color: string | null; // Base color as `#rrggbb`
+  meshes: number; // Meshes using this material
+  textures: TextureSlotInfo[];
+}
+
+const FORMAT_EXTENSIONS: Record<string, ModelFormat> = {
+  gltf: 'gltf', glb: 'glb', obj: 'obj', stl: 'stl', ply: 'ply', '3mf': '3mf',
+  dae: 'dae', fbx: 'fbx', '3ds': '3ds', wrl: 'wrl', vrml: 'wrl', vox: 'vox'
+};
+
+const FORMAT_MIME_TYPES: Array<[string, ModelFormat]> = [
+  ['model/gltf-binary', 'glb'],
+  ['model/gltf', 'gltf'],
+  ['model/obj', 'obj'],
+  ['model/stl', 'stl'],
+  ['model/x.stl', 'stl'],
+  ['model/ply', 'ply'],
+  ['model/3mf', '3mf'],
+  ['model/vnd.collada+xml', 'dae'],
+  ['model/vrml', 'wrl'],
+  ['model/x3d-vrml', 'wrl']
+];
+
+/** Texture properties worth showing, in display order */
+const TEXTURE_SLOTS = [
+  'map', 'normalMap', 'roughnessMap', 'metalnessMap', 'aoMap', 'emissiveMap', 'alphaMap',
+  'bumpMap', 'displacementMap', 'specularMap', 'lightMap', 'clearcoatMap', 'sheenColorMap', 'transmissionMap'
+];
+
+/**
+ * Loader to use for a file, from its extension or else its MIME type
+ */
+export function resolveModelFormat(mimeType: string, fileExtension?: string): ModelFormat | null {
+  const extension = fileExtension?.toLowerCase() || '';
+  if (FORMAT_EXTENSIONS[extension]) return FORMAT_EXTENSIONS[extension];
+  const lowerMime = mimeType.toLowerCase();
+  return FORMAT_MIME_TYPES.find(([prefix]) => lowerMime.startsWith(prefix))?.[1] ?? null;
+}
+
+function ownVertices(object: THREE.Object3D): number {
+  const geometry = (object as THREE.Mesh).geometry;
+  return geometry instanceof THREE.BufferGeometry ? geometry.attributes.position?.count ?? 0 : 0;
+}
+
+/**
+ * Plain tree of the loaded object for the scene-graph panel
+ */
+export function buildSceneGraph(object: THREE.Object3D): SceneNodeInfo {
+  return {
+    id: object.uuid,
+    name: object.name,
+    type: object.type,
+    vertices: ownVertices(object),
+    children: object.children.map(buildSceneGraph)
+  };
+}
+
+/**
+ * Distinct materials used by meshes under `object`, with their textures.
+ * Materials shared by several meshes are listed once.
+ */
+export function collectMaterials(object: THREE.Object3D): MaterialInfo[] {
+  const materials = new Map<string, MaterialInfo>();
+
+  object.traverse(child => {
+    const material = (child as THREE.Mesh).material;
+    if (!material || !(child instanceof THREE.Mesh || child instanceof THREE.Points || child instanceof THREE.Line)) return;
+
+    (Array.isArray(material) ? material : [material]).forEach(mat => {
+      const existing = materials.get(mat.uuid);
+      if (existing) {
+        existing.meshes++;
+        return;
+      }
+      const properties = mat as unknown as Record<string, unknown>;
+      const color = properties.color instanceof THREE.Color ? `#${properties.color.getHexString()}` : null;
+      const textures = TEXTURE_SLOTS.flatMap(slot => {
+        const texture = properties[slot];
+        return texture instanceof THREE.Texture ? [{ slot, texture }] : [];
+      });
+      materials.set(mat.uuid, { id: mat.uuid, name: mat.name, type: mat.type, color, meshes: 1, textures });
+    });
+  });
+
+  return Array.from(materials.values());
+}
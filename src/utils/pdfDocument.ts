@@ -0,0 +1,1095 @@
+/**
+ * PDF document model
+ * Minimal PDF object reader: lexer, cross-reference tables and streams, object
+ * streams, stream filters and the page tree. Rendering lives in pdfRasterizer.
+ */
+
+// =================
+// OBJECTS
+// =================
+
+export class PdfName {
+  constructor(public readonly name: string) {}
+}
+
+export class PdfRef {
+  constructor(public readonly num: number, public readonly gen: number) {}
+
+  get key(): string {
+    return `${this.num} ${this.gen}`;
+  }
+}
+
+export class PdfString {
+  constructor(public readonly bytes: Uint8Array) {}
+
+  /** Text using the string's BOM (UTF-16BE/UTF-8) or PDFDocEncoding */
+  get text(): string {
+    return decodePdfText(this.bytes);
+  }
+}
+
+export class PdfDict {
+  constructor(public readonly entries: Map<string, PdfObject> = new Map()) {}
+
+  get(key: string): PdfObject | undefined {
+    return this.entries.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+}
+
+export class PdfStream {
+  constructor(public readonly dict: PdfDict, public readonly raw: Uint8Array) {}
+}
+
+/** Bare keyword: content-stream operators and structural keywords (obj, stream, R) */
+export class PdfOperator {
+  constructor(public readonly op: string) {}
+}
+
+export type PdfObject =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfDict
+  | PdfStream
+  | PdfObject[];
+
+export type PdfToken = PdfObject | PdfOperator;
+
+/** Inline image from a content stream (BI ... ID ... EI) */
+export class PdfInlineImage {
+  constructor(public readonly dict: PdfDict, public readonly data: Uint8Array) {}
+}
+
+export function isName(value: unknown, name?: string): value is PdfName {
+  return value instanceof PdfName && (name === undefined || value.name === name);
+}
+
+export function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && isFinite(value) ? value : fallback;
+}
+
+const windows1252 = new TextDecoder('windows-1252');
+const utf8 = new TextDecoder('utf-8');
+
+export function decodePdfText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return utf8.decode(bytes.subarray(3));
+  }
+  // PDFDocEncoding matches Windows-1252 for everything that matters for display
+  return windows1252.decode(bytes);
+}
+
+// =================
+// LEXER
+// =================
+
+const WHITESPACE = new Uint8Array(256);
+[0, 9, 10, 12, 13, 32].forEach(code => WHITESPACE[code] = 1);
+const DELIMITER = new Uint8Array(256);
+Array.from('()<>[]{}/%').forEach(char => DELIMITER[char.charCodeAt(0)] = 1);
+
+const END_ARRAY = Symbol('end-array');
+const END_DICT = Symbol('end-dict');
+type LexerToken = PdfToken | typeof END_ARRAY | typeof END_DICT | undefined;
+
+function hexValue(code: number): number {
+  if (code >= 48 && code <= 57) return code - 48;
+  if (code >= 65 && code <= 70) return code - 55;
+  if (code >= 97 && code <= 102) return code - 87;
+  return -1;
+}
+
+export class PdfLexer {
+  constructor(public readonly bytes: Uint8Array, public pos: number = 0) {}
+
+  get atEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.bytes.length;
+  }
+
+  skipWhitespace(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const code = bytes[this.pos];
+      if (WHITESPACE[code]) {
+        this.pos++;
+      } else if (code === 37) { // % comment
+        while (this.pos < bytes.length && bytes[this.pos] !== 10 && bytes[this.pos] !== 13) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Next object or operator; undefined at end of input */
+  next(): PdfToken | undefined {
+    const token = this.readToken();
+    if (token === END_ARRAY || token === END_DICT) return this.next();
+    return token;
+  }
+
+  private readToken(): LexerToken {
+    this.skipWhitespace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) return undefined;
+    const code = bytes[this.pos];
+
+    switch (code) {
+      case 0x5b: // [
+        this.pos++;
+        return this.readArray();
+      case 0x5d: // ]
+        this.pos++;
+        return END_ARRAY;
+      case 0x3c: // < or <<
+        if (bytes[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return this.readDict();
+        }
+        return this.readHexString();
+      case 0x3e: // >>
+        this.pos += bytes[this.pos + 1] === 0x3e ? 2 : 1;
+        return END_DICT;
+      case 0x28: // (
+        return this.readLiteralString();
+      case 0x2f: // /
+        return this.readName();
+      case 0x7b: // { } PostScript calculator braces
+      case 0x7d:
+        this.pos++;
+        return new PdfOperator(String.fromCharCode(code));
+    }
+
+    if ((code >= 48 && code <= 57) || code === 43 || code === 45 || code === 46) {
+      return this.readNumber();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && !WHITESPACE[bytes[this.pos]] && !DELIMITER[bytes[this.pos]]) this.pos++;
+    if (this.pos === start) {
+      this.pos++; // Stray delimiter
+      return this.readToken();
+    }
+    const word = latin1(bytes.subarray(start, this.pos));
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return new PdfOperator(word);
+  }
+
+  private readNumber(): PdfToken {
+    const { bytes } = this;
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < bytes.length) {
+      const code = bytes[this.pos];
+      if ((code >= 48 && code <= 57) || code === 46) {
+        this.pos++;
+      } else if (code === 45 && bytes[this.pos - 1] === 45) {
+        this.pos++; // Malformed "--5" seen in the wild
+      } else {
+        break;
+      }
+    }
+    const value = parseFloat(latin1(bytes.subarray(start, this.pos)).replace(/^--+/, '-')) || 0;
+
+    // "num gen R" indirect reference
+    if (Number.isInteger(value) && value >= 0) {
+      const save = this.pos;
+      this.skipWhitespace();
+      const genStart = this.pos;
+      while (this.pos < bytes.length && bytes[this.pos] >= 48 && bytes[this.pos] <= 57) this.pos++;
+      if (this.pos > genStart) {
+        const gen = parseInt(latin1(bytes.subarray(genStart, this.pos)), 10);
+        this.skipWhitespace();
+        if (bytes[this.pos] === 0x52 && (this.pos + 1 >= bytes.length || WHITESPACE[bytes[this.pos + 1]] || DELIMITER[bytes[this.pos + 1]])) {
+          this.pos++;
+          return new PdfRef(value, gen);
+        }
+      }
+      this.pos = save;
+    }
+    return value;
+  }
+
+  private readName(): PdfName {
+    const { bytes } = this;
+    this.pos++;
+    const chars: number[] = [];
+    while (this.pos < bytes.length && !WHITESPACE[bytes[this.pos]] && !DELIMITER[bytes[this.pos]]) {
+      const code = bytes[this.pos++];
+      if (code === 0x23 && hexValue(bytes[this.pos]) >= 0 && hexValue(bytes[this.pos + 1]) >= 0) {
+        chars.push(hexValue(bytes[this.pos]) * 16 + hexValue(bytes[this.pos + 1]));
+        this.pos += 2;
+      } else {
+        chars.push(code);
+      }
+    }
+    return new PdfName(utf8.decode(Uint8Array.from(chars)));
+  }
+
+  private readHexString(): PdfString {
+    const { bytes } = this;
+    this.pos++;
+    const output: number[] = [];
+    let high = -1;
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const value = hexValue(bytes[this.pos++]);
+      if (value < 0) continue;
+      if (high < 0) {
+        high = value;
+      } else {
+        output.push(high * 16 + value);
+        high = -1;
+      }
+    }
+    if (high >= 0) output.push(high * 16);
+    this.pos++;
+    return new PdfString(Uint8Array.from(output));
+  }
+
+  private readLiteralString(): PdfString {
+    const { bytes } = this;
+    this.pos++;
+    const output: number[] = [];
+    let depth = 1;
+
+    while (this.pos < bytes.length) {
+      const code = bytes[this.pos++];
+      if (code === 0x28) {
+        depth++;
+      } else if (code === 0x29) {
+        if (--depth === 0) break;
+      } else if (code === 0x5c) {
+        const next = bytes[this.pos++];
+        switch (next) {
+          case 0x6e: output.push(10); continue; // n
+          case 0x72: output.push(13); continue; // r
+          case 0x74: output.push(9); continue; // t
+          case 0x62: output.push(8); continue; // b
+          case 0x66: output.push(12); continue; // f
+          case 0x0d: // Line continuation
+            if (bytes[this.pos] === 0x0a) this.pos++;
+            continue;
+          case 0x0a:
+            continue;
+        }
+        if (next >= 48 && next <= 55) {
+          let value = next - 48;
+          for (let i = 0; i < 2 && bytes[this.pos] >= 48 && bytes[this.pos] <= 55; i++) {
+            value = value * 8 + bytes[this.pos++] - 48;
+          }
+          output.push(value & 0xff);
+          continue;
+        }
+        if (next !== undefined) output.push(next);
+        continue;
+      }
+      output.push(code);
+    }
+    return new PdfString(Uint8Array.from(output));
+  }
+
+  private readArray(): PdfObject[] {
+    const items: PdfObject[] = [];
+    for (;;) {
+      const token = this.readToken();
+      if (token === END_ARRAY || token === undefined) return items;
+      if (token === END_DICT || token instanceof PdfOperator) continue;
+      items.push(token);
+    }
+  }
+
+  private readDict(): PdfDict {
+    const dict = new PdfDict();
+    for (;;) {
+      const key = this.readToken();
+      if (key === END_DICT || key === undefined) return dict;
+      if (!(key instanceof PdfName)) continue;
+      const value = this.readToken();
+      if (value === END_DICT || value === undefined) return dict;
+      if (value === END_ARRAY || value instanceof PdfOperator) continue;
+      dict.entries.set(key.name, value);
+    }
+  }
+
+  /** Reads inline image data after the ID operator, up to the EI that ends it */
+  readInlineImageData(): Uint8Array {
+    const { bytes } = this;
+    const start = this.pos + 1; // Single whitespace byte after ID
+    for (let i = start; i + 1 < bytes.length; i++) {
+      if (
+        bytes[i] === 0x45 && bytes[i + 1] === 0x49 &&
+        WHITESPACE[bytes[i - 1]] &&
+        (i + 2 >= bytes.length || WHITESPACE[bytes[i + 2]])
+      ) {
+        this.pos = i + 2;
+        return bytes.subarray(start, i - 1);
+      }
+    }
+    this.pos = bytes.length;
+    return bytes.subarray(start);
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+}
+
+// =================
+// FILTERS
+// =================
+
+// Abbreviations used by inline images
+const FILTER_ALIASES: Record<string, string> = {
+  AHx: 'ASCIIHexDecode',
+  A85: 'ASCII85Decode',
+  LZW: 'LZWDecode',
+  Fl: 'FlateDecode',
+  RL: 'RunLengthDecode',
+  CCF: 'CCITTFaxDecode',
+  DCT: 'DCTDecode'
+};
+
+/** Filters that produce encoded images for the image decoder rather than bytes */
+export const IMAGE_FILTERS = new Set(['DCTDecode', 'JPXDecode', 'CCITTFaxDecode', 'JBIG2Decode']);
+
+/**
+ * Inflate zlib data, keeping whatever was produced if the stream is damaged
+ * (truncated and bad-checksum streams are common in PDFs)
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('DecompressionStream is not available');
+  }
+  const raw = (data[0] & 0x0f) !== 8;
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(raw ? 'deflate-raw' : 'deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      total += value.length;
+    }
+  } catch (error) {
+    if (total === 0) throw error;
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+function asciiHexDecode(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let high = -1;
+  for (const code of data) {
+    if (code === 0x3e) break;
+    const value = hexValue(code);
+    if (value < 0) continue;
+    if (high < 0) {
+      high = value;
+    } else {
+      output.push(high * 16 + value);
+      high = -1;
+    }
+  }
+  if (high >= 0) output.push(high * 16);
+  return Uint8Array.from(output);
+}
+
+function ascii85Decode(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  const group: number[] = [];
+  let start = 0;
+  if (data[0] === 0x3c && data[1] === 0x7e) start = 2; // <~
+
+  for (let i = start; i < data.length; i++) {
+    const code = data[i];
+    if (code === 0x7e) break; // ~>
+    if (WHITESPACE[code]) continue;
+    if (code === 0x7a && group.length === 0) { // z
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+    if (code < 33 || code > 117) continue;
+    group.push(code - 33);
+    if (group.length === 5) {
+      let value = 0;
+      group.forEach(digit => value = value * 85 + digit);
+      output.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group.length = 0;
+    }
+  }
+
+  if (group.length > 1) {
+    const count = group.length - 1;
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    group.forEach(digit => value = value * 85 + digit);
+    for (let i = 0; i < count; i++) output.push((value >>> (24 - i * 8)) & 0xff);
+  }
+  return Uint8Array.from(output);
+}
+
+function runLengthDecode(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let i = 0;
+  while (i < data.length) {
+    const length = data[i++];
+    if (length === 128) break;
+    if (length < 128) {
+      for (let j = 0; j <= length && i < data.length; j++) output.push(data[i++]);
+    } else {
+      const value = data[i++];
+      for (let j = 0; j < 257 - length; j++) output.push(value);
+    }
+  }
+  return Uint8Array.from(output);
+}
+
+function lzwDecode(data: Uint8Array, earlyChange: number): Uint8Array {
+  const output: number[] = [];
+  let dictionary: number[][] = [];
+  let codeLength = 9;
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const reset = () => {
+    dictionary = [];
+    for (let i = 0; i < 256; i++) dictionary.push([i]);
+    dictionary.push([], []); // 256 clear, 257 end
+    codeLength = 9;
+    previous = null;
+  };
+  reset();
+
+  for (let i = 0; i < data.length; i++) {
+    bitBuffer = (bitBuffer << 8) | data[i];
+    bitCount += 8;
+
+    while (bitCount >= codeLength) {
+      const code = (bitBuffer >>> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+      bitCount -= codeLength;
+      bitBuffer &= (1 << bitCount) - 1;
+
+      if (code === 256) {
+        reset();
+        continue;
+      }
+      if (code === 257) return Uint8Array.from(output);
+
+      let entry: number[];
+      if (code < dictionary.length) {
+        entry = dictionary[code];
+        if (previous) dictionary.push([...previous, entry[0]]);
+      } else if (previous) {
+        entry = [...previous, previous[0]];
+        dictionary.push(entry);
+      } else {
+        continue;
+      }
+      output.push(...entry);
+      previous = entry;
+
+      const size = dictionary.length + earlyChange;
+      if (size >= 4096) {
+        codeLength = 12;
+      } else if (size >= 2048) {
+        codeLength = 12;
+      } else if (size >= 1024) {
+        codeLength = 11;
+      } else if (size >= 512) {
+        codeLength = 10;
+      }
+    }
+  }
+  return Uint8Array.from(output);
+}
+
+/** PNG (10+) and TIFF (2) predictors from DecodeParms */
+function unpredict(data: Uint8Array, params: PdfDict | null): Uint8Array {
+  const predictor = numberOr(params?.get('Predictor'), 1);
+  if (predictor <= 1) return data;
+
+  const colors = numberOr(params?.get('Colors'), 1);
+  const bits = numberOr(params?.get('BitsPerComponent'), 8);
+  const columns = numberOr(params?.get('Columns'), 1);
+  const rowBytes = Math.ceil((columns * colors * bits) / 8);
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+
+  if (predictor === 2) {
+    if (bits !== 8) return data;
+    const output = data.slice();
+    for (let row = 0; row * rowBytes < output.length; row++) {
+      const start = row * rowBytes;
+      for (let i = bytesPerPixel; i < rowBytes && start + i < output.length; i++) {
+        output[start + i] = (output[start + i] + output[start + i - bytesPerPixel]) & 0xff;
+      }
+    }
+    return output;
+  }
+
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const output = new Uint8Array(rows * rowBytes);
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowBytes + 1)];
+    const input = row * (rowBytes + 1) + 1;
+    const out = row * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[input + i];
+      const left = i >= bytesPerPixel ? output[out + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[out - rowBytes + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[out - rowBytes + i - bytesPerPixel] : 0;
+      let value: number;
+      switch (type) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const estimate = left + up - upLeft;
+          const dl = Math.abs(estimate - left);
+          const du = Math.abs(estimate - up);
+          const dul = Math.abs(estimate - upLeft);
+          value = raw + (dl <= du && dl <= dul ? left : du <= dul ? up : upLeft);
+          break;
+        }
+        default: value = raw;
+      }
+      output[out + i] = value & 0xff;
+    }
+  }
+  return output;
+}
+
+// =================
+// DOCUMENT
+// =================
+
+type XrefEntry =
+  | { type: 'offset'; offset: number; gen: number }
+  | { type: 'compressed'; stream: number; index: number };
+
+export interface PdfPage {
+  index: number;
+  dict: PdfDict;
+  resources: PdfDict | null;
+  box: [number, number, number, number]; // CropBox (or MediaBox) in user space
+  rotate: number; // 0, 90, 180 or 270
+  width: number; // Displayed size in points, after rotation
+  height: number;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  creator?: string;
+  producer?: string;
+}
+
+export class PdfDocument {
+  private xref = new Map<number, XrefEntry>();
+  private cache = new Map<number, PdfObject>();
+  private objectStreams = new Map<number, Promise<Map<number, PdfObject>>>();
+  private decoded = new WeakMap<PdfStream, Promise<Uint8Array>>();
+  private pages: PdfPage[] = [];
+  private trailer = new PdfDict();
+  private pendingXrefStreams: PdfStream[] = [];
+
+  encrypted = false;
+  info: PdfDocumentInfo = {};
+
+  private constructor(public readonly bytes: Uint8Array) {}
+
+  /**
+   * Parse the cross-reference data and page tree. Damaged cross-reference
+   * tables are rebuilt by scanning the file for objects.
+   */
+  static async load(bytes: Uint8Array): Promise<PdfDocument> {
+    const doc = new PdfDocument(bytes);
+    if (latin1(bytes.subarray(0, 1024)).indexOf('%PDF-') < 0) {
+      throw new Error('Not a PDF file (missing %PDF- header)');
+    }
+
+    let root: PdfDict | null = null;
+    try {
+      doc.readXrefChain();
+      await doc.applyXrefStreams();
+      root = await doc.getDict(doc.trailer, 'Root');
+    } catch (error) {
+      console.warn('⚠️ PDF cross-reference is damaged, rebuilding:', error);
+    }
+    if (!root || !(await doc.getDict(root, 'Pages'))) {
+      await doc.reconstruct();
+      root = await doc.getDict(doc.trailer, 'Root');
+    }
+    if (!root) {
+      throw new Error('PDF has no document catalog');
+    }
+
+    doc.encrypted = doc.trailer.has('Encrypt');
+    const pagesRoot = await doc.getDict(root, 'Pages');
+    if (pagesRoot) {
+      await doc.collectPages(pagesRoot, {}, new Set());
+    }
+
+    const info = await doc.getDict(doc.trailer, 'Info');
+    if (info) {
+      for (const [key, field] of [['Title', 'title'], ['Author', 'author'], ['Subject', 'subject'], ['Creator', 'creator'], ['Producer', 'producer']] as const) {
+        const value = await doc.resolve(info.get(key));
+        if (value instanceof PdfString && value.text.trim()) doc.info[field] = value.text.trim();
+      }
+    }
+
+    return doc;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  getPage(index: number): PdfPage {
+    const page = this.pages[index];
+    if (!page) throw new Error(`Page ${index + 1} does not exist`);
+    return page;
+  }
+
+  // ---------- Object access ----------
+
+  async resolve(value: PdfObject | undefined, depth: number = 0): Promise<PdfObject | undefined> {
+    if (!(value instanceof PdfRef)) return value;
+    if (depth > 16) return null;
+    return this.resolve(await this.getObject(value.num), depth + 1);
+  }
+
+  async get(dict: PdfDict | null | undefined, key: string): Promise<PdfObject | undefined> {
+    return dict ? this.resolve(dict.get(key)) : undefined;
+  }
+
+  async getDict(dict: PdfDict | null | undefined, key: string): Promise<PdfDict | null> {
+    const value = await this.get(dict, key);
+    if (value instanceof PdfStream) return value.dict;
+    return value instanceof PdfDict ? value : null;
+  }
+
+  async getNumber(dict: PdfDict | null | undefined, key: string, fallback: number): Promise<number> {
+    return numberOr(await this.get(dict, key), fallback);
+  }
+
+  async getArray(dict: PdfDict | null | undefined, key: string): Promise<PdfObject[] | null> {
+    const value = await this.get(dict, key);
+    return Array.isArray(value) ? value : null;
+  }
+
+  async getObject(num: number): Promise<PdfObject> {
+    if (this.cache.has(num)) return this.cache.get(num)!;
+    const entry = this.xref.get(num);
+    let value: PdfObject = null;
+
+    if (entry?.type === 'offset') {
+      value = await this.readObjectAt(entry.offset, num);
+    } else if (entry?.type === 'compressed') {
+      const objects = await this.readObjectStream(entry.stream);
+      value = objects.get(num) ?? null;
+    }
+
+    this.cache.set(num, value);
+    return value;
+  }
+
+  /** Decoded stream data, stopping before image codecs (see IMAGE_FILTERS) */
+  decodeStream(stream: PdfStream): Promise<Uint8Array> {
+    let pending = this.decoded.get(stream);
+    if (!pending) {
+      pending = this.applyFilters(stream.dict, stream.raw);
+      this.decoded.set(stream, pending);
+    }
+    return pending;
+  }
+
+  /** The image codec left undecoded by decodeStream, if any */
+  async getImageFilter(dict: PdfDict): Promise<string | null> {
+    const filters = await this.filterList(dict);
+    const last = filters[filters.length - 1];
+    return last && IMAGE_FILTERS.has(last.name) ? last.name : null;
+  }
+
+  async applyFilters(dict: PdfDict, raw: Uint8Array): Promise<Uint8Array> {
+    let data = raw;
+    for (const { name, params } of await this.filterList(dict)) {
+      switch (name) {
+        case 'FlateDecode':
+          data = unpredict(await inflate(data), params);
+          break;
+        case 'LZWDecode':
+          data = unpredict(lzwDecode(data, numberOr(params?.get('EarlyChange'), 1)), params);
+          break;
+        case 'ASCIIHexDecode':
+          data = asciiHexDecode(data);
+          break;
+        case 'ASCII85Decode':
+          data = ascii85Decode(data);
+          break;
+        case 'RunLengthDecode':
+          data = runLengthDecode(data);
+          break;
+        case 'Crypt':
+          break;
+        default:
+          if (IMAGE_FILTERS.has(name)) return data;
+          throw new Error(`Unsupported PDF filter ${name}`);
+      }
+    }
+    return data;
+  }
+
+  private async filterList(dict: PdfDict): Promise<Array<{ name: string; params: PdfDict | null }>> {
+    const filter = await this.resolve(dict.get('Filter') ?? dict.get('F'));
+    const params = await this.resolve(dict.get('DecodeParms') ?? dict.get('DP'));
+    const names = Array.isArray(filter) ? filter : filter ? [filter] : [];
+    const paramList = Array.isArray(params) ? params : [params];
+
+    const result: Array<{ name: string; params: PdfDict | null }> = [];
+    for (let i = 0; i < names.length; i++) {
+      const name = await this.resolve(names[i]);
+      if (!(name instanceof PdfName)) continue;
+      const param = await this.resolve(paramList[i] ?? null);
+      result.push({
+        name: FILTER_ALIASES[name.name] || name.name,
+        params: param instanceof PdfDict ? param : null
+      });
+    }
+    return result;
+  }
+
+  // ---------- Cross-reference ----------
+
+  private readXrefChain(): void {
+    const tail = latin1(this.bytes.subarray(Math.max(0, this.bytes.length - 2048)));
+    const match = /startxref\s+(\d+)/g;
+    let offset = -1;
+    let found: RegExpExecArray | null;
+    while ((found = match.exec(tail)) !== null) offset = parseInt(found[1], 10);
+    if (offset < 0) throw new Error('startxref not found');
+
+    const seen = new Set<number>();
+    let first = true;
+    while (offset >= 0 && offset < this.bytes.length && !seen.has(offset)) {
+      seen.add(offset);
+      const trailer = this.readXrefSection(offset);
+      if (first) {
+        this.trailer = trailer;
+        first = false;
+      }
+      // Hybrid files keep extra entries in an xref stream
+      const xrefStream = trailer.get('XRefStm');
+      if (typeof xrefStream === 'number' && !seen.has(xrefStream)) {
+        seen.add(xrefStream);
+        this.readXrefSection(xrefStream);
+      }
+      const prev = trailer.get('Prev');
+      offset = typeof prev === 'number' ? prev : -1;
+    }
+  }
+
+  /** Reads one xref table or xref stream; earlier (newer) entries win */
+  private readXrefSection(offset: number): PdfDict {
+    const lexer = new PdfLexer(this.bytes, offset);
+    const first = lexer.next();
+
+    if (first instanceof PdfOperator && first.op === 'xref') {
+      for (;;) {
+        const start = lexer.next();
+        if (start instanceof PdfOperator && start.op === 'trailer') break;
+        const count = lexer.next();
+        if (typeof start !== 'number' || typeof count !== 'number') {
+          throw new Error('Malformed xref subsection');
+        }
+        for (let i = 0; i < count; i++) {
+          const entryOffset = lexer.next();
+          const gen = lexer.next();
+          const type = lexer.next();
+          const num = start + i;
+          if (this.xref.has(num) || !(type instanceof PdfOperator)) continue;
+          if (type.op === 'n' && typeof entryOffset === 'number' && entryOffset > 0) {
+            this.xref.set(num, { type: 'offset', offset: entryOffset, gen: numberOr(gen, 0) });
+          }
+        }
+      }
+      const trailer = lexer.next();
+      if (!(trailer instanceof PdfDict)) throw new Error('Missing trailer dictionary');
+      return trailer;
+    }
+
+    // Cross-reference stream: "n g obj << /Type /XRef ... >> stream"
+    const stream = this.readObjectAtSync(offset);
+    if (!(stream instanceof PdfStream) || !isName(stream.dict.get('Type'), 'XRef')) {
+      throw new Error(`No xref at offset ${offset}`);
+    }
+    this.pendingXrefStreams.push(stream);
+    return stream.dict;
+  }
+
+  private async applyXrefStreams(): Promise<void> {
+    const streams = this.pendingXrefStreams;
+    this.pendingXrefStreams = [];
+    for (const stream of streams) {
+      const data = await this.applyFilters(stream.dict, stream.raw);
+      const w = stream.dict.get('W');
+      const widths = Array.isArray(w) && w.length >= 3 ? w.map(value => numberOr(value, 0)) : [1, 2, 1];
+      const size = numberOr(stream.dict.get('Size'), 0);
+      const indexValue = stream.dict.get('Index');
+      const index = Array.isArray(indexValue) ? indexValue.map(value => numberOr(value, 0)) : [0, size];
+      const entryLength = widths[0] + widths[1] + widths[2];
+
+      const field = (position: number, width: number, fallback: number) => {
+        if (width === 0) return fallback;
+        let value = 0;
+        for (let i = 0; i < width; i++) value = value * 256 + data[position + i];
+        return value;
+      };
+
+      let position = 0;
+      for (let i = 0; i + 1 < index.length; i += 2) {
+        for (let j = 0; j < index[i + 1] && position + entryLength <= data.length; j++) {
+          const num = index[i] + j;
+          const type = field(position, widths[0], 1);
+          const second = field(position + widths[0], widths[1], 0);
+          const third = field(position + widths[0] + widths[1], widths[2], 0);
+          position += entryLength;
+          if (this.xref.has(num)) continue;
+          if (type === 1) this.xref.set(num, { type: 'offset', offset: second, gen: third });
+          if (type === 2) this.xref.set(num, { type: 'compressed', stream: second, index: third });
+        }
+      }
+    }
+  }
+
+  /** Rebuild the xref by scanning for "n g obj" and object streams */
+  private async reconstruct(): Promise<void> {
+    this.xref.clear();
+    this.cache.clear();
+    this.objectStreams.clear();
+    this.trailer = new PdfDict();
+
+    const text = latin1(this.bytes);
+    const pattern = /(?:^|[\r\n\s])(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const offset = match.index + match[0].indexOf(match[1]);
+      this.xref.set(parseInt(match[1], 10), { type: 'offset', offset, gen: parseInt(match[2], 10) });
+    }
+
+    // Objects stored inside object streams
+    const direct = Array.from(this.xref.keys());
+    for (const num of direct) {
+      const value = await this.getObject(num);
+      if (value instanceof PdfStream && isName(value.dict.get('Type'), 'ObjStm')) {
+        const objects = await this.readObjectStream(num);
+        objects.forEach((_, objectNum) => {
+          if (!this.xref.has(objectNum)) this.xref.set(objectNum, { type: 'compressed', stream: num, index: 0 });
+        });
+      }
+    }
+
+    // Last trailer dictionary with a Root wins; otherwise look for the catalog
+    const trailerPattern = /trailer\s*<</g;
+    while ((match = trailerPattern.exec(text)) !== null) {
+      const trailer = new PdfLexer(this.bytes, match.index + 7).next();
+      if (trailer instanceof PdfDict && trailer.has('Root')) this.trailer = trailer;
+    }
+    if (!this.trailer.has('Root')) {
+      for (const num of Array.from(this.xref.keys())) {
+        const value = await this.getObject(num);
+        if (value instanceof PdfDict && isName(value.get('Type'), 'Catalog')) {
+          this.trailer.entries.set('Root', new PdfRef(num, 0));
+        }
+        if (value instanceof PdfStream && isName(value.dict.get('Type'), 'XRef') && value.dict.has('Root')) {
+          value.dict.entries.forEach((entry, key) => this.trailer.entries.set(key, entry));
+        }
+      }
+    }
+  }
+
+  private readObjectAtSync(offset: number, expected?: number): PdfObject {
+    const lexer = new PdfLexer(this.bytes, offset);
+    const num = lexer.next();
+    lexer.next(); // generation
+    const keyword = lexer.next();
+    if (typeof num !== 'number' || !(keyword instanceof PdfOperator) || keyword.op !== 'obj') {
+      throw new Error(`No object at offset ${offset}`);
+    }
+    if (expected !== undefined && num !== expected) {
+      throw new Error(`Expected object ${expected} at offset ${offset}, found ${num}`);
+    }
+
+    const value = lexer.next();
+    if (!(value instanceof PdfDict)) return value instanceof PdfOperator ? null : value ?? null;
+
+    // Stream data follows the dictionary
+    const save = lexer.pos;
+    const next = lexer.next();
+    if (!(next instanceof PdfOperator) || next.op !== 'stream') {
+      lexer.pos = save;
+      return value;
+    }
+
+    let start = lexer.pos;
+    if (this.bytes[start] === 0x0d) start++;
+    if (this.bytes[start] === 0x0a) start++;
+
+    const declared = value.get('Length');
+    let length = typeof declared === 'number' ? declared : -1;
+    if (declared instanceof PdfRef) {
+      const lengthEntry = this.xref.get(declared.num);
+      if (lengthEntry?.type === 'offset') {
+        try {
+          const resolved = this.readObjectAtSync(lengthEntry.offset, declared.num);
+          if (typeof resolved === 'number') length = resolved;
+        } catch {
+          // Fall back to searching for endstream
+        }
+      }
+    }
+
+    const endsAt = (position: number) => latin1(this.bytes.subarray(position, position + 32)).trimStart().startsWith('endstream');
+    if (length < 0 || start + length > this.bytes.length || !endsAt(start + length)) {
+      const end = latin1(this.bytes.subarray(start)).indexOf('endstream');
+      length = end < 0 ? this.bytes.length - start : end;
+      // Drop the EOL before endstream
+      if (length > 0 && this.bytes[start + length - 1] === 0x0a) length--;
+      if (length > 0 && this.bytes[start + length - 1] === 0x0d) length--;
+    }
+
+    return new PdfStream(value, this.bytes.subarray(start, start + length));
+  }
+
+  private async readObjectAt(offset: number, num: number): Promise<PdfObject> {
+    try {
+      return this.readObjectAtSync(offset, num);
+    } catch (error) {
+      console.warn(`⚠️ PDF object ${num}:`, error);
+      return null;
+    }
+  }
+
+  private readObjectStream(num: number): Promise<Map<number, PdfObject>> {
+    let pending = this.objectStreams.get(num);
+    if (!pending) {
+      pending = (async () => {
+        const objects = new Map<number, PdfObject>();
+        const stream = await this.getObject(num);
+        if (!(stream instanceof PdfStream)) return objects;
+
+        const data = await this.decodeStream(stream);
+        const count = numberOr(stream.dict.get('N'), 0);
+        const first = numberOr(stream.dict.get('First'), 0);
+        const header = new PdfLexer(data);
+        const entries: Array<[number, number]> = [];
+        for (let i = 0; i < count; i++) {
+          const objectNum = header.next();
+          const offset = header.next();
+          if (typeof objectNum !== 'number' || typeof offset !== 'number') break;
+          entries.push([objectNum, offset]);
+        }
+        entries.forEach(([objectNum, offset]) => {
+          const value = new PdfLexer(data, first + offset).next();
+          objects.set(objectNum, value instanceof PdfOperator || value === undefined ? null : value);
+        });
+        return objects;
+      })();
+      this.objectStreams.set(num, pending);
+    }
+    return pending;
+  }
+
+  // ---------- Page tree ----------
+
+  private async collectPages(
+    node: PdfDict,
+    inherited: { resources?: PdfDict | null; mediaBox?: PdfObject[] | null; cropBox?: PdfObject[] | null; rotate?: number },
+    visited: Set<PdfDict>
+  ): Promise<void> {
+    if (visited.has(node) || this.pages.length > 100000) return;
+    visited.add(node);
+
+    const resources = (await this.getDict(node, 'Resources')) ?? inherited.resources;
+    const mediaBox = (await this.getArray(node, 'MediaBox')) ?? inherited.mediaBox;
+    const cropBox = (await this.getArray(node, 'CropBox')) ?? inherited.cropBox;
+    const rotateValue = await this.get(node, 'Rotate');
+    const rotate = typeof rotateValue === 'number' ? rotateValue : inherited.rotate ?? 0;
+
+    const kids = await this.getArray(node, 'Kids');
+    const type = await this.get(node, 'Type');
+    if (kids && !isName(type, 'Page')) {
+      for (const kid of kids) {
+        const child = await this.resolve(kid);
+        if (child instanceof PdfDict) {
+          await this.collectPages(child, { resources, mediaBox, cropBox, rotate }, visited);
+        }
+      }
+      return;
+    }
+
+    const toBox = async (box: PdfObject[] | null | undefined): Promise<[number, number, number, number] | null> => {
+      if (!box || box.length < 4) return null;
+      const values = await Promise.all(box.slice(0, 4).map(async value => numberOr(await this.resolve(value), 0)));
+      return [
+        Math.min(values[0], values[2]),
+        Math.min(values[1], values[3]),
+        Math.max(values[0], values[2]),
+        Math.max(values[1], values[3])
+      ];
+    };
+
+    const media = (await toBox(mediaBox)) || [0, 0, 612, 792];
+    const crop = await toBox(cropBox);
+    // CropBox is clipped to the MediaBox
+    const box: [number, number, number, number] = crop
+      ? [Math.max(crop[0], media[0]), Math.max(crop[1], media[1]), Math.min(crop[2], media[2]), Math.min(crop[3], media[3])]
+      : media;
+    const valid = box[2] > box[0] && box[3] > box[1] ? box : media;
+    const normalizedRotate = (((Math.round(rotate / 90) * 90) % 360) + 360) % 360;
+    const width = valid[2] - valid[0];
+    const height = valid[3] - valid[1];
+    const sideways = normalizedRotate === 90 || normalizedRotate === 270;
+
+    this.pages.push({
+      index: this.pages.length,
+      dict: node,
+      resources: resources ?? null,
+      box: valid,
+      rotate: normalizedRotate,
+      width: sideways ? height : width,
+      height: sideways ? width : height
+    });
+  }
+}
@@ -0,0 +1,2183 @@
+/**
+ * PDF rasterizer
+ * Interprets page content streams onto a 2D canvas and collects positioned text
+ * runs for search. Text is drawn with embedded TrueType/OpenType faces when the
+ * browser accepts them, otherwise with a matching system font fitted to the PDF
+ * glyph widths.
+ */
+
+import {
+  PdfDocument,
+  PdfPage,
+  PdfDict,
+  PdfStream,
+  PdfName,
+  PdfString,
+  PdfOperator,
+  PdfObject,
+  PdfLexer,
+  PdfInlineImage,
+  isName,
+  numberOr
+} from './pdfDocument';
+import { parseFont } from './containerParsers';
+
+// =================
+// TYPES
+// =================
+
+/** Text drawn on a page, in view space (points, top-left origin, page rotation applied) */
+export interface PdfTextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfRenderOptions {
+  scale?: number; // Device pixels per point (include devicePixelRatio here)
+  background?: string;
+  isCancelled?: () => boolean;
+}
+
+type Matrix = [number, number, number, number, number, number];
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type Rgb = [number, number, number];
+type PdfFunction = (inputs: number[]) => number[];
+
+interface ColorSpace {
+  name: string;
+  components: number;
+  toRgb(values: number[]): Rgb;
+  /** Default image Decode array for the given bits per component */
+  defaultDecode(bits: number): number[];
+  initial: number[];
+  isPattern?: boolean;
+  base?: ColorSpace | null; // Underlying space for uncolored patterns
+}
+
+type PatternPaint =
+  | { type: 'shading'; shading: PdfDict | PdfStream; matrix: Matrix; base: Matrix }
+  | { type: 'tiling'; stream: PdfStream; matrix: Matrix; base: Matrix; color: Rgb | null };
+
+interface GraphicsState {
+  ctm: Matrix;
+  fillSpace: ColorSpace;
+  fillColor: number[];
+  fillPattern: PatternPaint | null;
+  strokeSpace: ColorSpace;
+  strokeColor: number[];
+  strokePattern: PatternPaint | null;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  miterLimit: number;
+  dash: number[];
+  dashPhase: number;
+  fillAlpha: number;
+  strokeAlpha: number;
+  blendMode: GlobalCompositeOperation;
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+  renderMode: number;
+}
+
+interface DecodedGlyph {
+  code: number;
+  unicode: string;
+  width: number; // Text-space advance per unit font size
+  isSpace: boolean;
+  glyphName?: string;
+}
+
+interface PdfFont {
+  decode(bytes: Uint8Array): DecodedGlyph[];
+  css(sizePx: number): string;
+  embedded: boolean;
+  type3?: {
+    charProcs: PdfDict;
+    matrix: Matrix;
+    resources: PdfDict | null;
+  };
+}
+
+interface CMap {
+  codespace: Array<{ bytes: number; low: number; high: number }>;
+  unicode: Map<number, string>;
+  cids: Array<{ low: number; high: number; cid: number }>;
+}
+
+// =================
+// MATRICES
+// =================
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** m1 then m2: points transform as p × m1 × m2 */
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ];
+}
+
+function transformPoint(m: Matrix, x: number, y: number): [number, number] {
+  return [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]];
+}
+
+function invert(m: Matrix): Matrix {
+  const det = m[0] * m[3] - m[1] * m[2] || 1e-12;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det
+  ];
+}
+
+function toMatrix(value: PdfObject | undefined): Matrix | null {
+  if (!Array.isArray(value) || value.length < 6) return null;
+  return value.slice(0, 6).map(item => numberOr(item, 0)) as Matrix;
+}
+
+/** User space to view space (top-left origin, rotation applied), in points */
+export function getPageViewMatrix(page: PdfPage): Matrix {
+  const [x0, y0, x1, y1] = page.box;
+  switch (page.rotate) {
+    case 90: return [0, 1, 1, 0, -y0, -x0];
+    case 180: return [-1, 0, 0, 1, x1, -y0];
+    case 270: return [0, -1, -1, 0, y1, x1];
+    default: return [1, 0, 0, -1, -x0, y1];
+  }
+}
+
+// =================
+// COLOR
+// =================
+
+function clampByte(value: number): number {
+  return value <= 0 ? 0 : value >= 1 ? 255 : Math.round(value * 255);
+}
+
+function cmykToRgb(c: number, m: number, y: number, k: number): Rgb {
+  return [clampByte((1 - c) * (1 - k)), clampByte((1 - m) * (1 - k)), clampByte((1 - y) * (1 - k))];
+}
+
+function labToRgb(l: number, a: number, b: number): Rgb {
+  // CIE L*a*b* (D50) to sRGB, close enough for display
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const f = (t: number) => (t > 6 / 29 ? t * t * t : 3 * (6 / 29) * (6 / 29) * (t - 4 / 29));
+  const x = 0.9642 * f(fx);
+  const y = f(fy);
+  const z = 0.8249 * f(fz);
+  const linear = [
+    3.1339 * x - 1.6169 * y - 0.4906 * z,
+    -0.9788 * x + 1.9161 * y + 0.0335 * z,
+    0.0719 * x - 0.2290 * y + 1.4052 * z
+  ];
+  const gamma = (v: number) => (v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+  return [clampByte(gamma(linear[0])), clampByte(gamma(linear[1])), clampByte(gamma(linear[2]))];
+}
+
+const unitDecode = (components: number) => () => Array.from({ length: components * 2 }, (_, i) => i % 2);
+
+const DEVICE_GRAY: ColorSpace = {
+  name: 'DeviceGray',
+  components: 1,
+  toRgb: ([g]) => [clampByte(g), clampByte(g), clampByte(g)],
+  defaultDecode: unitDecode(1),
+  initial: [0]
+};
+
+const DEVICE_RGB: ColorSpace = {
+  name: 'DeviceRGB',
+  components: 3,
+  toRgb: ([r, g, b]) => [clampByte(r), clampByte(g), clampByte(b)],
+  defaultDecode: unitDecode(3),
+  initial: [0, 0, 0]
+};
+
+const DEVICE_CMYK: ColorSpace = {
+  name: 'DeviceCMYK',
+  components: 4,
+  toRgb: ([c, m, y, k]) => cmykToRgb(c, m, y, k),
+  defaultDecode: unitDecode(4),
+  initial: [0, 0, 0, 1]
+};
+
+function rgbCss([r, g, b]: Rgb): string {
+  return `rgb(${r},${g},${b})`;
+}
+
+// Fallback for paints we can't reproduce (e.g. mesh shadings in strokes)
+const UNSUPPORTED_PAINT: Rgb = [128, 128, 128];
+
+// =================
+// FONTS
+// =================
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',',
+  hyphen: '-', period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>', question: '?',
+  at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^', underscore: '_', grave: '`',
+  quoteleft: '‘', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~', exclamdown: '¡', cent: '¢',
+  sterling: '£', yen: '¥', currency: '¤', brokenbar: '¦', section: '§', dieresis: '¨', copyright: '©',
+  ordfeminine: 'ª', guillemotleft: '«', logicalnot: '¬', registered: '®', macron: '¯', degree: '°', plusminus: '±',
+  acute: '´', mu: 'µ', paragraph: '¶', periodcentered: '·', cedilla: '¸', ordmasculine: 'º', guillemotright: '»',
+  onequarter: '¼', onehalf: '½', threequarters: '¾', questiondown: '¿', multiply: '×', divide: '÷', minus: '−',
+  bullet: '•', endash: '–', emdash: '—', ellipsis: '…', dagger: '†', daggerdbl: '‡', trademark: '™',
+  perthousand: '‰', guilsinglleft: '‹', guilsinglright: '›', quotedblleft: '“', quotedblright: '”',
+  quotesinglbase: '‚', quotedblbase: '„', florin: 'ƒ', circumflex: 'ˆ', tilde: '˜', Euro: '€', fraction: '⁄',
+  fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', AE: 'Æ', ae: 'æ', OE: 'Œ', oe: 'œ', Oslash: 'Ø',
+  oslash: 'ø', germandbls: 'ß', dotlessi: 'ı', Lslash: 'Ł', lslash: 'ł', Eth: 'Ð', eth: 'ð', Thorn: 'Þ',
+  thorn: 'þ', nbspace: ' ', sfthyphen: '­', ring: '˚', caron: 'ˇ', breve: '˘', dotaccent: '˙',
+  ogonek: '˛', hungarumlaut: '˝'
+};
+
+const COMBINING_ACCENTS: Record<string, string> = {
+  acute: '́', grave: '̀', circumflex: '̂', dieresis: '̈', tilde: '̃', ring: '̊',
+  cedilla: '̧', caron: '̌', macron: '̄', breve: '̆', dotaccent: '̇', ogonek: '̨',
+  hungarumlaut: '̋', commaaccent: '̦'
+};
+
+function glyphNameToUnicode(name: string): string | undefined {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+
+  const dot = name.indexOf('.');
+  if (dot > 0) return glyphNameToUnicode(name.slice(0, dot));
+  if (name.includes('_')) {
+    const parts = name.split('_').map(glyphNameToUnicode);
+    return parts.every(Boolean) ? parts.join('') : undefined;
+  }
+
+  const uni = /^uni((?:[0-9A-F]{4})+)$/.exec(name);
+  if (uni) return uni[1].match(/.{4}/g)!.map(hex => String.fromCharCode(parseInt(hex, 16))).join('');
+  const u = /^u([0-9A-F]{4,6})$/.exec(name);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+
+  const accented = /^([A-Za-z])([a-z]+)$/.exec(name);
+  if (accented && COMBINING_ACCENTS[accented[2]]) {
+    return (accented[1] + COMBINING_ACCENTS[accented[2]]).normalize('NFC');
+  }
+  return undefined;
+}
+
+// Standard 14 font metrics for printable ASCII (32-126), used when a font has no Widths
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 222, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 222, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const TIMES_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 333, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+  556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444, 500, 444, 500, 444, 333, 500,
+  500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541
+];
+
+const windows1252 = new TextDecoder('windows-1252');
+let macRoman: TextDecoder | null = null;
+try {
+  macRoman = new TextDecoder('macintosh');
+} catch {
+  // Not every runtime ships the Mac Roman table
+}
+
+function baseEncodingChar(encoding: string, code: number): string {
+  const byte = Uint8Array.of(code);
+  switch (encoding) {
+    case 'WinAnsiEncoding':
+      return windows1252.decode(byte);
+    case 'MacRomanEncoding':
+      return macRoman ? macRoman.decode(byte) : String.fromCharCode(code);
+    default:
+      // StandardEncoding differs from Latin-1 mainly in its quotes
+      if (code === 0x27) return '’';
+      if (code === 0x60) return '‘';
+      return String.fromCharCode(code);
+  }
+}
+
+function readCode(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + (bytes[offset + i] ?? 0);
+  return value;
+}
+
+function utf16String(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  if (bytes.length % 2) text += String.fromCharCode(bytes[bytes.length - 1]);
+  return text;
+}
+
+/** ToUnicode and embedded CID CMaps */
+function parseCMap(data: Uint8Array): CMap {
+  const cmap: CMap = { codespace: [], unicode: new Map(), cids: [] };
+  const lexer = new PdfLexer(data);
+  let mode: string | null = null;
+  const operands: Array<PdfObject> = [];
+
+  for (;;) {
+    const token = lexer.next();
+    if (token === undefined) break;
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+
+    const op = token.op;
+    if (op.startsWith('begin')) {
+      mode = op;
+    } else if (op.startsWith('end')) {
+      switch (mode) {
+        case 'begincodespacerange':
+          for (let i = 0; i + 1 < operands.length; i += 2) {
+            const low = operands[i];
+            const high = operands[i + 1];
+            if (low instanceof PdfString && high instanceof PdfString) {
+              cmap.codespace.push({ bytes: low.bytes.length, low: readCode(low.bytes, 0, low.bytes.length), high: readCode(high.bytes, 0, high.bytes.length) });
+            }
+          }
+          break;
+        case 'beginbfchar':
+          for (let i = 0; i + 1 < operands.length; i += 2) {
+            const src = operands[i];
+            const dst = operands[i + 1];
+            if (src instanceof PdfString && dst instanceof PdfString) {
+              cmap.unicode.set(readCode(src.bytes, 0, src.bytes.length), utf16String(dst.bytes));
+            } else if (src instanceof PdfString && dst instanceof PdfName) {
+              const mapped = glyphNameToUnicode(dst.name);
+              if (mapped) cmap.unicode.set(readCode(src.bytes, 0, src.bytes.length), mapped);
+            }
+          }
+          break;
+        case 'beginbfrange':
+          for (let i = 0; i + 2 < operands.length; i += 3) {
+            const low = operands[i];
+            const high = operands[i + 1];
+            const dst = operands[i + 2];
+            if (!(low instanceof PdfString) || !(high instanceof PdfString)) continue;
+            const start = readCode(low.bytes, 0, low.bytes.length);
+            const end = Math.min(readCode(high.bytes, 0, high.bytes.length), start + 65535);
+            if (dst instanceof PdfString) {
+              const base = dst.bytes.slice();
+              for (let code = start; code <= end; code++) {
+                cmap.unicode.set(code, utf16String(base));
+                // Increment the last byte, carrying like pdf.js does
+                for (let j = base.length - 1; j >= 0; j--) {
+                  if (++base[j] <= 0xff) break;
+                  base[j] = 0;
+                }
+              }
+            } else if (Array.isArray(dst)) {
+              dst.forEach((item, j) => {
+                if (item instanceof PdfString && start + j <= end) cmap.unicode.set(start + j, utf16String(item.bytes));
+              });
+            }
+          }
+          break;
+        case 'begincidrange':
+          for (let i = 0; i + 2 < operands.length; i += 3) {
+            const low = operands[i];
+            const high = operands[i + 1];
+            if (low instanceof PdfString && high instanceof PdfString) {
+              cmap.cids.push({ low: readCode(low.bytes, 0, low.bytes.length), high: readCode(high.bytes, 0, high.bytes.length), cid: numberOr(operands[i + 2], 0) });
+            }
+          }
+          break;
+        case 'begincidchar':
+          for (let i = 0; i + 1 < operands.length; i += 2) {
+            const src = operands[i];
+            if (src instanceof PdfString) {
+              const code = readCode(src.bytes, 0, src.bytes.length);
+              cmap.cids.push({ low: code, high: code, cid: numberOr(operands[i + 1], 0) });
+            }
+          }
+          break;
+      }
+      mode = null;
+    }
+    operands.length = 0;
+  }
+
+  return cmap;
+}
+
+/** Split a string into character codes using CMap codespace ranges */
+function splitCodes(bytes: Uint8Array, codespace: CMap['codespace'], fallbackLength: number): Array<[number, number]> {
+  const codes: Array<[number, number]> = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    let length = 0;
+    for (let n = 1; n <= 4 && offset + n <= bytes.length && !length; n++) {
+      const code = readCode(bytes, offset, n);
+      if (codespace.some(range => range.bytes === n && code >= range.low && code <= range.high)) length = n;
+    }
+    if (!length) length = Math.min(fallbackLength, bytes.length - offset);
+    codes.push([readCode(bytes, offset, length), length]);
+    offset += length;
+  }
+  return codes;
+}
+
+let faceCounter = 0;
+
+function genericFamily(baseFont: string, flags: number): string {
+  if (/courier|mono|consol/i.test(baseFont) || flags & 1) return "'Courier New', Courier, monospace";
+  if (/times|serif|roman|georgia|garamond|minion|cambria|palatino|book/i.test(baseFont) && !/sans/i.test(baseFont)) {
+    return "'Times New Roman', Times, serif";
+  }
+  if (/symbol/i.test(baseFont)) return 'Symbol, serif';
+  if (flags & 2) return "'Times New Roman', Times, serif"; // Serif flag
+  return 'Helvetica, Arial, sans-serif';
+}
+
+// =================
+// FUNCTIONS
+// =================
+
+const POSTSCRIPT_OPERATORS: Record<string, (stack: number[]) => void> = {
+  add: s => s.push(s.pop()! + s.pop()!),
+  sub: s => { const b = s.pop()!; s.push(s.pop()! - b); },
+  mul: s => s.push(s.pop()! * s.pop()!),
+  div: s => { const b = s.pop()!; s.push(b === 0 ? 0 : s.pop()! / b); },
+  idiv: s => { const b = s.pop()!; s.push(b === 0 ? 0 : Math.trunc(s.pop()! / b)); },
+  mod: s => { const b = s.pop()!; s.push(b === 0 ? 0 : s.pop()! % b); },
+  neg: s => s.push(-s.pop()!),
+  abs: s => s.push(Math.abs(s.pop()!)),
+  ceiling: s => s.push(Math.ceil(s.pop()!)),
+  floor: s => s.push(Math.floor(s.pop()!)),
+  round: s => s.push(Math.round(s.pop()!)),
+  truncate: s => s.push(Math.trunc(s.pop()!)),
+  cvi: s => s.push(Math.trunc(s.pop()!)),
+  cvr: () => {},
+  sqrt: s => s.push(Math.sqrt(s.pop()!)),
+  sin: s => s.push(Math.sin((s.pop()! * Math.PI) / 180)),
+  cos: s => s.push(Math.cos((s.pop()! * Math.PI) / 180)),
+  atan: s => { const den = s.pop()!; const angle = (Math.atan2(s.pop()!, den) * 180) / Math.PI; s.push(angle < 0 ? angle + 360 : angle); },
+  exp: s => { const e = s.pop()!; s.push(Math.pow(s.pop()!, e)); },
+  ln: s => s.push(Math.log(s.pop()!)),
+  log: s => s.push(Math.log10(s.pop()!)),
+  dup: s => s.push(s[s.length - 1]),
+  exch: s => { const b = s.pop()!; const a = s.pop()!; s.push(b, a); },
+  pop: s => { s.pop(); },
+  copy: s => { const n = s.pop()!; s.push(...s.slice(s.length - n)); },
+  index: s => { const n = s.pop()!; s.push(s[s.length - 1 - n]); },
+  roll: s => {
+    const j = s.pop()!;
+    const n = s.pop()!;
+    if (n <= 0) return;
+    const items = s.splice(s.length - n, n);
+    const shift = ((j % n) + n) % n;
+    s.push(...items.slice(n - shift), ...items.slice(0, n - shift));
+  },
+  eq: s => s.push(s.pop()! === s.pop()! ? 1 : 0),
+  ne: s => s.push(s.pop()! !== s.pop()! ? 1 : 0),
+  gt: s => { const b = s.pop()!; s.push(s.pop()! > b ? 1 : 0); },
+  ge: s => { const b = s.pop()!; s.push(s.pop()! >= b ? 1 : 0); },
+  lt: s => { const b = s.pop()!; s.push(s.pop()! < b ? 1 : 0); },
+  le: s => { const b = s.pop()!; s.push(s.pop()! <= b ? 1 : 0); },
+  and: s => s.push(s.pop()! & s.pop()!),
+  or: s => s.push(s.pop()! | s.pop()!),
+  xor: s => s.push(s.pop()! ^ s.pop()!),
+  not: s => { const a = s.pop()!; s.push(a === 0 ? 1 : a === 1 ? 0 : ~a); },
+  bitshift: s => { const shift = s.pop()!; const a = s.pop()!; s.push(shift >= 0 ? a << shift : a >> -shift); },
+  true: s => s.push(1),
+  false: s => s.push(0)
+};
+
+type PostScriptProgram = Array<number | string | PostScriptProgram>;
+
+function parsePostScript(data: Uint8Array): PostScriptProgram {
+  const lexer = new PdfLexer(data);
+  const stack: PostScriptProgram[] = [];
+  let current: PostScriptProgram | null = null;
+  for (;;) {
+    const token = lexer.next();
+    if (token === undefined) break;
+    if (token instanceof PdfOperator && token.op === '{') {
+      const program: PostScriptProgram = [];
+      if (current) {
+        current.push(program);
+        stack.push(current);
+      }
+      current = program;
+    } else if (token instanceof PdfOperator && token.op === '}') {
+      if (!stack.length) return current || [];
+      current = stack.pop()!;
+    } else if (current) {
+      if (typeof token === 'number') current.push(token);
+      else if (token instanceof PdfOperator) current.push(token.op);
+      else if (typeof token === 'boolean') current.push(token ? 1 : 0);
+    }
+  }
+  return current || [];
+}
+
+function runPostScript(program: PostScriptProgram, stack: number[], depth: number = 0): void {
+  if (depth > 32) return;
+  for (let i = 0; i < program.length; i++) {
+    const item = program[i];
+    if (typeof item === 'number') {
+      stack.push(item);
+    } else if (Array.isArray(item)) {
+      const next = program[i + 1];
+      const afterNext = program[i + 2];
+      if (next === 'if') {
+        if (stack.pop()) runPostScript(item, stack, depth + 1);
+        i++;
+      } else if (Array.isArray(next) && afterNext === 'ifelse') {
+        runPostScript(stack.pop() ? item : next, stack, depth + 1);
+        i += 2;
+      }
+    } else if (POSTSCRIPT_OPERATORS[item]) {
+      POSTSCRIPT_OPERATORS[item](stack);
+    }
+  }
+}
+
+// =================
+// RASTERIZER
+// =================
+
+const MAX_FORM_DEPTH = 12;
+const MAX_IMAGE_PIXELS = 32 * 1024 * 1024;
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Renders pages of one document. Fonts, images and color spaces are cached per
+ * instance; call dispose() to release loaded font faces.
+ */
+export class PdfRasterizer {
+  private fonts = new Map<PdfDict, Promise<PdfFont>>();
+  private images = new WeakMap<PdfStream, Promise<CanvasImageSource | null>>();
+  private colorSpaces = new Map<PdfObject, Promise<ColorSpace>>();
+  private functions = new Map<PdfObject, Promise<PdfFunction | null>>();
+  private textRuns = new Map<number, Promise<PdfTextRun[]>>();
+  private faces: FontFace[] = [];
+  private measureCache = new Map<string, number>();
+  private measureContext: Canvas2D | null = null;
+
+  constructor(public readonly doc: PdfDocument) {}
+
+  /**
+   * Draw a page into the canvas (resizing it) and return the page's text runs
+   */
+  async renderPage(index: number, canvas: HTMLCanvasElement | OffscreenCanvas, options: PdfRenderOptions = {}): Promise<PdfTextRun[]> {
+    const { scale = 1, background = '#ffffff', isCancelled = () => false } = options;
+    const page = this.doc.getPage(index);
+    const width = Math.max(1, Math.ceil(page.width * scale));
+    const height = Math.max(1, Math.ceil(page.height * scale));
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d') as Canvas2D | null;
+    if (!ctx) throw new Error('2D canvas is not available');
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+
+    const view = getPageViewMatrix(page);
+    const runs: PdfTextRun[] = [];
+    const interpreter = new ContentInterpreter(this, ctx, multiply(view, [scale, 0, 0, scale, 0, 0]), view, runs, isCancelled, width, height);
+    await interpreter.runPage(page);
+
+    if (!isCancelled() && !this.textRuns.has(index)) {
+      this.textRuns.set(index, Promise.resolve(runs));
+    }
+    return runs;
+  }
+
+  /** Positioned text for a page without drawing it */
+  extractText(index: number): Promise<PdfTextRun[]> {
+    let pending = this.textRuns.get(index);
+    if (!pending) {
+      pending = (async () => {
+        const page = this.doc.getPage(index);
+        const view = getPageViewMatrix(page);
+        const runs: PdfTextRun[] = [];
+        await new ContentInterpreter(this, null, view, view, runs, () => false, 0, 0).runPage(page);
+        return runs;
+      })();
+      this.textRuns.set(index, pending);
+    }
+    return pending;
+  }
+
+  dispose(): void {
+    if (typeof document !== 'undefined' && document.fonts) {
+      this.faces.forEach(face => document.fonts.delete(face));
+    }
+    this.faces = [];
+    this.fonts.clear();
+    this.textRuns.clear();
+  }
+
+  // ---------- Shared resource loaders ----------
+
+  /** Width in em of a system-font glyph, for fitting substituted fonts to PDF widths */
+  measure(font: string, text: string): number {
+    const key = `${font}|${text}`;
+    const cached = this.measureCache.get(key);
+    if (cached !== undefined) return cached;
+
+    if (!this.measureContext) {
+      this.measureContext = createCanvas(1, 1).getContext('2d') as Canvas2D | null;
+    }
+    if (!this.measureContext) return 0;
+    this.measureContext.font = font.replace(/^(.*?)(\d+(?:\.\d+)?)px/, '$1100px');
+    const width = this.measureContext.measureText(text).width / 100;
+    this.measureCache.set(key, width);
+    return width;
+  }
+
+  loadFont(dict: PdfDict): Promise<PdfFont> {
+    let pending = this.fonts.get(dict);
+    if (!pending) {
+      pending = this.createFont(dict).catch(error => {
+        console.warn('⚠️ PDF font fallback:', error);
+        return this.fallbackFont();
+      });
+      this.fonts.set(dict, pending);
+    }
+    return pending;
+  }
+
+  private fallbackFont(): PdfFont {
+    return {
+      embedded: false,
+      css: size => `${size}px Helvetica, Arial, sans-serif`,
+      decode: bytes => Array.from(bytes, code => ({
+        code,
+        unicode: String.fromCharCode(code),
+        width: 0.5,
+        isSpace: code === 32
+      }))
+    };
+  }
+
+  private async createFont(dict: PdfDict): Promise<PdfFont> {
+    const { doc } = this;
+    const subtype = (await doc.get(dict, 'Subtype')) as PdfName | undefined;
+    const baseFontValue = await doc.get(dict, 'BaseFont');
+    const baseFont = baseFontValue instanceof PdfName ? baseFontValue.name.replace(/^[A-Z]{6}\+/, '') : '';
+    const isComposite = isName(subtype, 'Type0');
+    const descendant = isComposite ? await this.firstDescendant(dict) : null;
+    const descriptor = await doc.getDict(descendant || dict, 'FontDescriptor');
+    const flags = await doc.getNumber(descriptor, 'Flags', 0);
+    const weight = await doc.getNumber(descriptor, 'FontWeight', 400);
+
+    const bold = /bold|black|heavy|semibold|demi/i.test(baseFont) || weight >= 600 || (flags & 0x40000) !== 0;
+    const italic = /italic|oblique/i.test(baseFont) || (flags & 0x40) !== 0;
+    const generic = genericFamily(baseFont, flags);
+
+    // ToUnicode takes priority for text
+    const toUnicodeStream = await doc.get(dict, 'ToUnicode');
+    const toUnicode = toUnicodeStream instanceof PdfStream ? parseCMap(await doc.decodeStream(toUnicodeStream)) : null;
+
+    let font: PdfFont;
+    if (isComposite) {
+      font = await this.createCompositeFont(dict, descendant, toUnicode);
+    } else {
+      font = await this.createSimpleFont(dict, descriptor, baseFont, flags, toUnicode, isName(subtype, 'Type3'));
+    }
+
+    // Embedded TrueType/OpenType faces with a Unicode cmap can be drawn directly
+    let family = generic;
+    const fontFile = (await doc.get(descriptor, 'FontFile2')) ?? (await doc.get(descriptor, 'FontFile3'));
+    if (fontFile instanceof PdfStream && typeof FontFace !== 'undefined' && typeof document !== 'undefined') {
+      const isOpenType = !fontFile.dict.has('Subtype') || isName(await doc.get(fontFile.dict, 'Subtype'), 'OpenType');
+      if (isOpenType) {
+        try {
+          const bytes = await doc.decodeStream(fontFile);
+          const info = await parseFont(bytes);
+          if (info.codepoints && info.codepoints.some(code => code > 32)) {
+            const faceName = `pdf-font-${++faceCounter}`;
+            const face = new FontFace(faceName, bytes);
+            await face.load();
+            document.fonts.add(face);
+            this.faces.push(face);
+            family = `'${faceName}', ${generic}`;
+            font.embedded = true;
+          }
+        } catch (error) {
+          console.warn(`⚠️ Embedded font ${baseFont} not usable, using a system font:`, error);
+        }
+      }
+    }
+
+    const style = `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}`;
+    font.css = size => `${style}${size}px ${family}`;
+    return font;
+  }
+
+  private async firstDescendant(dict: PdfDict): Promise<PdfDict | null> {
+    const descendants = await this.doc.getArray(dict, 'DescendantFonts');
+    const first = descendants ? await this.doc.resolve(descendants[0]) : null;
+    return first instanceof PdfDict ? first : null;
+  }
+
+  private async createSimpleFont(
+    dict: PdfDict,
+    descriptor: PdfDict | null,
+    baseFont: string,
+    flags: number,
+    toUnicode: CMap | null,
+    isType3: boolean
+  ): Promise<PdfFont> {
+    const { doc } = this;
+    const firstChar = await doc.getNumber(dict, 'FirstChar', 0);
+    const widthsArray = await doc.getArray(dict, 'Widths');
+    const widths: number[] = [];
+    if (widthsArray) {
+      for (const value of widthsArray) widths.push(numberOr(await doc.resolve(value), 0));
+    }
+    const missingWidth = await doc.getNumber(descriptor, 'MissingWidth', 0);
+
+    // Encoding: base encoding plus Differences
+    const encodingValue = await doc.get(dict, 'Encoding');
+    let baseEncoding = /symbol|dingbat/i.test(baseFont) ? 'Builtin' : isType3 ? 'StandardEncoding' : 'WinAnsiEncoding';
+    if (!(flags & 0x20) && (flags & 0x4) && !isType3) baseEncoding = 'StandardEncoding'; // Symbolic without Nonsymbolic
+    const differences = new Map<number, string>();
+    if (encodingValue instanceof PdfName) {
+      baseEncoding = encodingValue.name;
+    } else if (encodingValue instanceof PdfDict) {
+      const base = await doc.get(encodingValue, 'BaseEncoding');
+      if (base instanceof PdfName) baseEncoding = base.name;
+      const diffs = await doc.getArray(encodingValue, 'Differences');
+      let code = 0;
+      for (const item of diffs || []) {
+        if (typeof item === 'number') code = item;
+        else if (item instanceof PdfName) differences.set(code++, item.name);
+      }
+    }
+
+    const standardWidths = /courier|mono/i.test(baseFont)
+      ? null
+      : /times|serif|roman/i.test(baseFont) && !/sans/i.test(baseFont) ? TIMES_WIDTHS : HELVETICA_WIDTHS;
+    const fixedWidth = /courier|mono/i.test(baseFont) ? 600 : 0;
+
+    let type3: PdfFont['type3'];
+    let widthScale = 0.001;
+    if (isType3) {
+      const matrix = toMatrix(await doc.get(dict, 'FontMatrix')) || [0.001, 0, 0, 0.001, 0, 0];
+      const charProcs = await doc.getDict(dict, 'CharProcs');
+      widthScale = matrix[0];
+      type3 = charProcs ? { charProcs, matrix, resources: await doc.getDict(dict, 'Resources') } : undefined;
+    }
+
+    const unicodeCache = new Map<number, string>();
+    const unicodeFor = (code: number): string => {
+      let text = unicodeCache.get(code);
+      if (text !== undefined) return text;
+      const name = differences.get(code);
+      text = toUnicode?.unicode.get(code)
+        ?? (name ? glyphNameToUnicode(name) : undefined)
+        ?? (baseEncoding === 'Builtin' ? String.fromCharCode(code) : baseEncodingChar(baseEncoding, code));
+      unicodeCache.set(code, text);
+      return text;
+    };
+
+    const widthFor = (code: number, unicode: string): number => {
+      const index = code - firstChar;
+      if (index >= 0 && index < widths.length) return widths[index];
+      if (widthsArray) return missingWidth;
+      if (fixedWidth) return fixedWidth;
+      const ascii = unicode.charCodeAt(0);
+      return standardWidths && ascii >= 32 && ascii <= 126 ? standardWidths[ascii - 32] : 500;
+    };
+
+    return {
+      embedded: false,
+      type3,
+      css: () => '',
+      decode: bytes => Array.from(bytes, code => {
+        const unicode = unicodeFor(code);
+        return {
+          code,
+          unicode,
+          width: widthFor(code, unicode) * widthScale,
+          isSpace: code === 32,
+          glyphName: differences.get(code)
+        };
+      })
+    };
+  }
+
+  private async createCompositeFont(dict: PdfDict, descendant: PdfDict | null, toUnicode: CMap | null): Promise<PdfFont> {
+    const { doc } = this;
+    const encoding = await doc.get(dict, 'Encoding');
+    let codespace: CMap['codespace'] = [{ bytes: 2, low: 0, high: 0xffff }];
+    let cidRanges: CMap['cids'] | null = null;
+    let unicodeFromCode = false;
+
+    if (encoding instanceof PdfStream) {
+      const cmap = parseCMap(await doc.decodeStream(encoding));
+      if (cmap.codespace.length) codespace = cmap.codespace;
+      cidRanges = cmap.cids;
+    } else if (encoding instanceof PdfName) {
+      unicodeFromCode = /UCS2|UTF16/.test(encoding.name);
+    }
+    if (toUnicode?.codespace.length && !(encoding instanceof PdfStream)) {
+      codespace = toUnicode.codespace;
+    }
+
+    const defaultWidth = await doc.getNumber(descendant, 'DW', 1000);
+    const widths = new Map<number, number>();
+    const w = await doc.getArray(descendant, 'W');
+    if (w) {
+      for (let i = 0; i < w.length; ) {
+        const first = numberOr(await doc.resolve(w[i]), 0);
+        const next = await doc.resolve(w[i + 1]);
+        if (Array.isArray(next)) {
+          for (let j = 0; j < next.length; j++) widths.set(first + j, numberOr(await doc.resolve(next[j]), defaultWidth));
+          i += 2;
+        } else {
+          const last = numberOr(next, first);
+          const width = numberOr(await doc.resolve(w[i + 2]), defaultWidth);
+          for (let cid = first; cid <= last && cid - first < 65536; cid++) widths.set(cid, width);
+          i += 3;
+        }
+      }
+    }
+
+    const cidFor = (code: number): number => {
+      if (!cidRanges) return code;
+      for (const range of cidRanges) {
+        if (code >= range.low && code <= range.high) return range.cid + (code - range.low);
+      }
+      return 0;
+    };
+
+    return {
+      embedded: false,
+      css: () => '',
+      decode: bytes => splitCodes(bytes, codespace, 2).map(([code, length]) => {
+        const cid = cidFor(code);
+        return {
+          code,
+          unicode: toUnicode?.unicode.get(code) ?? (unicodeFromCode ? String.fromCharCode(code) : ''),
+          width: (widths.get(cid) ?? defaultWidth) / 1000,
+          isSpace: length === 1 && code === 32
+        };
+      })
+    };
+  }
+
+  loadColorSpace(value: PdfObject | undefined, resources: PdfDict | null): Promise<ColorSpace> {
+    if (value instanceof PdfName) {
+      switch (value.name) {
+        case 'DeviceGray': case 'G': case 'CalGray': return Promise.resolve(DEVICE_GRAY);
+        case 'DeviceRGB': case 'RGB': case 'CalRGB': return Promise.resolve(DEVICE_RGB);
+        case 'DeviceCMYK': case 'CMYK': return Promise.resolve(DEVICE_CMYK);
+        case 'Pattern': return Promise.resolve(this.patternSpace(null));
+      }
+      return (async () => {
+        const named = await this.doc.getDict(resources, 'ColorSpace');
+        const resolved = named ? await this.doc.get(named, value.name) : undefined;
+        return resolved === undefined ? DEVICE_GRAY : this.loadColorSpace(resolved, resources);
+      })();
+    }
+
+    const key = value ?? null;
+    let pending = this.colorSpaces.get(key);
+    if (!pending) {
+      pending = this.createColorSpace(value, resources).catch(error => {
+        console.warn('⚠️ Unsupported PDF color space:', error);
+        return DEVICE_GRAY;
+      });
+      if (key !== null) this.colorSpaces.set(key, pending);
+    }
+    return pending;
+  }
+
+  private patternSpace(base: ColorSpace | null): ColorSpace {
+    return {
+      name: 'Pattern',
+      components: base ? base.components : 0,
+      toRgb: values => (base ? base.toRgb(values) : UNSUPPORTED_PAINT),
+      defaultDecode: () => [],
+      initial: base ? base.initial : [],
+      isPattern: true,
+      base
+    };
+  }
+
+  private async createColorSpace(value: PdfObject | undefined, resources: PdfDict | null): Promise<ColorSpace> {
+    const { doc } = this;
+    const resolved = await doc.resolve(value);
+    if (resolved instanceof PdfName) return this.loadColorSpace(resolved, resources);
+    if (!Array.isArray(resolved) || !resolved.length) return DEVICE_GRAY;
+
+    const family = await doc.resolve(resolved[0]);
+    const familyName = family instanceof PdfName ? family.name : '';
+
+    switch (familyName) {
+      case 'ICCBased': {
+        const stream = await doc.resolve(resolved[1]);
+        const dict = stream instanceof PdfStream ? stream.dict : null;
+        const alternate = await doc.get(dict, 'Alternate');
+        if (alternate) return this.loadColorSpace(alternate, resources);
+        const n = await doc.getNumber(dict, 'N', 3);
+        return n === 1 ? DEVICE_GRAY : n === 4 ? DEVICE_CMYK : DEVICE_RGB;
+      }
+      case 'CalGray': case 'G':
+        return DEVICE_GRAY;
+      case 'CalRGB': case 'RGB':
+        return DEVICE_RGB;
+      case 'Lab': {
+        const dict = await doc.resolve(resolved[1]);
+        const range = dict instanceof PdfDict ? await doc.getArray(dict, 'Range') : null;
+        const bounds = range ? range.map(item => numberOr(item, 0)) : [-100, 100, -100, 100];
+        return {
+          name: 'Lab',
+          components: 3,
+          toRgb: ([l, a, b]) => labToRgb(l, a, b),
+          defaultDecode: () => [0, 100, bounds[0], bounds[1], bounds[2], bounds[3]],
+          initial: [0, 0, 0]
+        };
+      }
+      case 'Indexed': case 'I': {
+        const base = await this.loadColorSpace(resolved[1], resources);
+        const hival = numberOr(await doc.resolve(resolved[2]), 0);
+        const lookupValue = await doc.resolve(resolved[3]);
+        const lookup = lookupValue instanceof PdfStream
+          ? await doc.decodeStream(lookupValue)
+          : lookupValue instanceof PdfString ? lookupValue.bytes : new Uint8Array(0);
+        const palette: Rgb[] = [];
+        for (let i = 0; i <= hival; i++) {
+          const components = Array.from({ length: base.components }, (_, j) => (lookup[i * base.components + j] ?? 0) / 255);
+          palette.push(base.toRgb(base.name === 'Lab' ? [components[0] * 100, components[1] * 255 - 128, components[2] * 255 - 128] : components));
+        }
+        return {
+          name: 'Indexed',
+          components: 1,
+          toRgb: ([index]) => palette[Math.max(0, Math.min(hival, Math.round(index)))] || [0, 0, 0],
+          defaultDecode: bits => [0, (1 << bits) - 1],
+          initial: [0]
+        };
+      }
+      case 'Separation': case 'DeviceN': {
+        const names = familyName === 'DeviceN' ? await doc.resolve(resolved[1]) : [resolved[1]];
+        const components = Array.isArray(names) ? names.length : 1;
+        const alternate = await this.loadColorSpace(resolved[2], resources);
+        const tint = await this.loadFunction(resolved[3]);
+        return {
+          name: familyName,
+          components,
+          toRgb: values => {
+            if (tint) return alternate.toRgb(tint(values));
+            const average = values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+            return DEVICE_GRAY.toRgb([1 - average]);
+          },
+          defaultDecode: unitDecode(components),
+          initial: Array(components).fill(1)
+        };
+      }
+      case 'Pattern': {
+        const base = resolved.length > 1 ? await this.loadColorSpace(resolved[1], resources) : null;
+        return this.patternSpace(base);
+      }
+    }
+    return DEVICE_GRAY;
+  }
+
+  loadFunction(value: PdfObject | undefined): Promise<PdfFunction | null> {
+    const key = value ?? null;
+    let pending = this.functions.get(key);
+    if (!pending) {
+      pending = this.createFunction(value).catch(error => {
+        console.warn('⚠️ Unsupported PDF function:', error);
+        return null;
+      });
+      if (key !== null) this.functions.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async createFunction(value: PdfObject | undefined): Promise<PdfFunction | null> {
+    const { doc } = this;
+    const resolved = await doc.resolve(value);
+
+    // An array of 1-output functions acts as one n-output function
+    if (Array.isArray(resolved)) {
+      const parts = await Promise.all(resolved.map(item => this.loadFunction(item)));
+      if (parts.some(part => !part)) return null;
+      return inputs => parts.map(part => part!(inputs)[0]);
+    }
+
+    const dict = resolved instanceof PdfStream ? resolved.dict : resolved instanceof PdfDict ? resolved : null;
+    if (!dict) return null;
+
+    const numbers = async (key: string): Promise<number[] | null> => {
+      const array = await doc.getArray(dict, key);
+      return array ? Promise.all(array.map(async item => numberOr(await doc.resolve(item), 0))) : null;
+    };
+    const type = await doc.getNumber(dict, 'FunctionType', -1);
+    const domain = (await numbers('Domain')) || [0, 1];
+    const range = await numbers('Range');
+
+    const clip = (values: number[]): number[] => (range
+      ? values.map((v, i) => (i * 2 + 1 < range.length ? Math.min(range[i * 2 + 1], Math.max(range[i * 2], v)) : v))
+      : values);
+    const clipInput = (x: number, i: number) => Math.min(domain[i * 2 + 1] ?? 1, Math.max(domain[i * 2] ?? 0, x));
+
+    switch (type) {
+      case 0: {
+        if (!(resolved instanceof PdfStream) || !range) return null;
+        const data = await doc.decodeStream(resolved);
+        const size = (await numbers('Size')) || [2];
+        const bits = await doc.getNumber(dict, 'BitsPerSample', 8);
+        const encode = (await numbers('Encode')) || size.flatMap(s => [0, s - 1]);
+        const decode = (await numbers('Decode')) || range;
+        const outputs = range.length / 2;
+        const maxSample = Math.pow(2, bits) - 1;
+
+        const sample = (index: number, output: number): number => {
+          const bitOffset = (index * outputs + output) * bits;
+          let value = 0;
+          for (let b = 0; b < bits; b++) {
+            const bit = bitOffset + b;
+            value = value * 2 + ((data[bit >> 3] >> (7 - (bit & 7))) & 1);
+          }
+          return value;
+        };
+
+        return inputs => {
+          // Linear interpolation along the first input, nearest sample for the rest
+          const positions = inputs.map((x, i) => {
+            const d0 = domain[i * 2] ?? 0;
+            const d1 = domain[i * 2 + 1] ?? 1;
+            const e = (clipInput(x, i) - d0) * ((encode[i * 2 + 1] - encode[i * 2]) / (d1 - d0 || 1)) + encode[i * 2];
+            return Math.min(size[i] - 1, Math.max(0, e));
+          });
+          let baseIndex = 0;
+          let stride = 1;
+          for (let i = 1; i < positions.length; i++) {
+            stride *= size[i - 1];
+            baseIndex += Math.round(positions[i]) * stride;
+          }
+          const low = Math.floor(positions[0]);
+          const high = Math.min(size[0] - 1, low + 1);
+          const fraction = positions[0] - low;
+          const result: number[] = [];
+          for (let o = 0; o < outputs; o++) {
+            const value = sample(baseIndex + low, o) * (1 - fraction) + sample(baseIndex + high, o) * fraction;
+            result.push(decode[o * 2] + (value / maxSample) * (decode[o * 2 + 1] - decode[o * 2]));
+          }
+          return clip(result);
+        };
+      }
+      case 2: {
+        const c0 = (await numbers('C0')) || [0];
+        const c1 = (await numbers('C1')) || [1];
+        const n = await doc.getNumber(dict, 'N', 1);
+        return ([x]) => {
+          const t = Math.pow(clipInput(x, 0), n);
+          return clip(c0.map((v, i) => v + t * (c1[i] - v)));
+        };
+      }
+      case 3: {
+        const functionsArray = await doc.getArray(dict, 'Functions');
+        const parts = await Promise.all((functionsArray || []).map(item => this.loadFunction(item)));
+        const bounds = (await numbers('Bounds')) || [];
+        const encode = (await numbers('Encode')) || [];
+        return ([x]) => {
+          const input = clipInput(x, 0);
+          let i = 0;
+          while (i < bounds.length && input >= bounds[i]) i++;
+          const low = i === 0 ? domain[0] : bounds[i - 1];
+          const high = i === bounds.length ? domain[1] : bounds[i];
+          const e0 = encode[i * 2] ?? 0;
+          const e1 = encode[i * 2 + 1] ?? 1;
+          const mapped = high === low ? e0 : e0 + ((input - low) * (e1 - e0)) / (high - low);
+          const part = parts[i];
+          return part ? clip(part([mapped])) : [0];
+        };
+      }
+      case 4: {
+        if (!(resolved instanceof PdfStream)) return null;
+        const program = parsePostScript(await doc.decodeStream(resolved));
+        return inputs => {
+          const stack = inputs.map(clipInput);
+          runPostScript(program, stack);
+          const outputs = range ? range.length / 2 : stack.length;
+          return clip(stack.slice(Math.max(0, stack.length - outputs)));
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Decode an image XObject or inline image into something drawImage accepts */
+  async loadImage(source: PdfStream | PdfInlineImage, resources: PdfDict | null, stencilColor: Rgb): Promise<CanvasImageSource | null> {
+    const dict = source.dict;
+    const isMask = (await this.doc.get(dict, 'ImageMask')) === true || (await this.doc.get(dict, 'IM')) === true;
+
+    // Stencil masks depend on the fill color, so only color images are cached
+    if (source instanceof PdfStream && !isMask) {
+      let pending = this.images.get(source);
+      if (!pending) {
+        pending = this.decodeImage(source.dict, source, resources, stencilColor, false).catch(error => {
+          console.warn('⚠️ PDF image skipped:', error);
+          return null;
+        });
+        this.images.set(source, pending);
+      }
+      return pending;
+    }
+    return this.decodeImage(dict, source, resources, stencilColor, isMask).catch(error => {
+      console.warn('⚠️ PDF image skipped:', error);
+      return null;
+    });
+  }
+
+  private async imageBytes(source: PdfStream | PdfInlineImage): Promise<Uint8Array> {
+    return source instanceof PdfStream
+      ? this.doc.decodeStream(source)
+      : this.doc.applyFilters(source.dict, source.data);
+  }
+
+  private async decodeImage(
+    dict: PdfDict,
+    source: PdfStream | PdfInlineImage,
+    resources: PdfDict | null,
+    stencilColor: Rgb,
+    isMask: boolean
+  ): Promise<CanvasImageSource | null> {
+    const { doc } = this;
+    const get = async (long: string, short: string) => (await doc.get(dict, long)) ?? (await doc.get(dict, short));
+    const width = numberOr(await get('Width', 'W'), 0);
+    const height = numberOr(await get('Height', 'H'), 0);
+    if (width <= 0 || height <= 0 || width * height > MAX_IMAGE_PIXELS) return null;
+
+    const filter = await doc.getImageFilter(dict);
+    const data = await this.imageBytes(source);
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as Canvas2D | null;
+    if (!ctx) return null;
+
+    let pixels: ImageData;
+    if (filter === 'DCTDecode' || filter === 'JPXDecode') {
+      const bitmap = await createImageBitmap(new Blob([data], { type: filter === 'DCTDecode' ? 'image/jpeg' : 'image/jp2' }));
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      bitmap.close();
+      pixels = ctx.getImageData(0, 0, width, height);
+    } else if (filter) {
+      throw new Error(`${filter} images are not supported`);
+    } else {
+      const bits = isMask ? 1 : numberOr(await get('BitsPerComponent', 'BPC'), 8);
+      const decodeValue = await get('Decode', 'D');
+      pixels = ctx.createImageData(width, height);
+
+      if (isMask) {
+        const invert = Array.isArray(decodeValue) && numberOr(decodeValue[0], 0) === 1;
+        const rowBytes = Math.ceil(width / 8);
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+            const painted = invert ? bit === 1 : bit === 0;
+            const i = (y * width + x) * 4;
+            pixels.data[i] = stencilColor[0];
+            pixels.data[i + 1] = stencilColor[1];
+            pixels.data[i + 2] = stencilColor[2];
+            pixels.data[i + 3] = painted ? 255 : 0;
+          }
+        }
+      } else {
+        const space = await this.loadColorSpace((await get('ColorSpace', 'CS')) ?? undefined, resources);
+        const decode = Array.isArray(decodeValue) ? decodeValue.map(value => numberOr(value, 0)) : space.defaultDecode(bits);
+        this.fillPixels(pixels, data, width, height, bits, space, decode, await doc.get(dict, 'Mask'));
+      }
+    }
+
+    // Soft mask supplies alpha
+    const smask = await doc.get(dict, 'SMask');
+    if (smask instanceof PdfStream) {
+      const alpha = await this.decodeAlpha(smask, width, height);
+      if (alpha) {
+        for (let i = 0; i < width * height; i++) pixels.data[i * 4 + 3] = alpha[i];
+      }
+    } else {
+      const mask = await doc.get(dict, 'Mask');
+      if (mask instanceof PdfStream) {
+        // Stencil mask stream: sample 1 hides the image
+        const stencil = await this.decodeAlpha(mask, width, height, true);
+        if (stencil) {
+          for (let i = 0; i < width * height; i++) pixels.data[i * 4 + 3] = Math.min(pixels.data[i * 4 + 3], stencil[i]);
+        }
+      }
+    }
+
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }
+
+  private fillPixels(
+    pixels: ImageData,
+    data: Uint8Array,
+    width: number,
+    height: number,
+    bits: number,
+    space: ColorSpace,
+    decode: number[],
+    mask: PdfObject | undefined
+  ): void {
+    const components = space.components || 1;
+    const rowBytes = Math.ceil((width * components * bits) / 8);
+    const maxValue = (1 << bits) - 1;
+    const colorKey = Array.isArray(mask) ? mask.map(value => numberOr(value, 0)) : null;
+    const out = pixels.data;
+
+    // Fast paths for the common 8-bit device spaces
+    if (bits === 8 && !colorKey && (space === DEVICE_RGB || space === DEVICE_GRAY) && decode[0] === 0 && decode[1] === 1) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = (y * width + x) * 4;
+          const s = y * rowBytes + x * components;
+          if (components === 3) {
+            out[i] = data[s]; out[i + 1] = data[s + 1]; out[i + 2] = data[s + 2];
+          } else {
+            out[i] = out[i + 1] = out[i + 2] = data[s];
+          }
+          out[i + 3] = 255;
+        }
+      }
+      return;
+    }
+
+    const raw = new Array<number>(components);
+    const values = new Array<number>(components);
+    for (let y = 0; y < height; y++) {
+      let bitOffset = y * rowBytes * 8;
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < components; c++) {
+          let value: number;
+          if (bits === 8) {
+            value = data[bitOffset >> 3];
+          } else if (bits === 16) {
+            value = (data[bitOffset >> 3] << 8) | data[(bitOffset >> 3) + 1];
+          } else {
+            value = (data[bitOffset >> 3] >> (8 - bits - (bitOffset & 7))) & maxValue;
+          }
+          bitOffset += bits;
+          raw[c] = value;
+          const dMin = decode[c * 2] ?? 0;
+          const dMax = decode[c * 2 + 1] ?? 1;
+          values[c] = dMin + (value * (dMax - dMin)) / (bits === 16 ? 65535 : maxValue);
+        }
+        const [r, g, b] = space.toRgb(values);
+        const i = (y * width + x) * 4;
+        out[i] = r;
+        out[i + 1] = g;
+        out[i + 2] = b;
+        let hidden = !!colorKey;
+        if (colorKey) {
+          for (let c = 0; c < components; c++) {
+            if (raw[c] < colorKey[c * 2] || raw[c] > colorKey[c * 2 + 1]) hidden = false;
+          }
+        }
+        out[i + 3] = hidden ? 0 : 255;
+      }
+    }
+  }
+
+  /** Gray soft mask or stencil, resampled to the image size */
+  private async decodeAlpha(stream: PdfStream, width: number, height: number, stencil: boolean = false): Promise<Uint8Array | null> {
+    const { doc } = this;
+    const maskWidth = await doc.getNumber(stream.dict, 'Width', 0);
+    const maskHeight = await doc.getNumber(stream.dict, 'Height', 0);
+    if (maskWidth <= 0 || maskHeight <= 0 || maskWidth * maskHeight > MAX_IMAGE_PIXELS) return null;
+
+    const filter = await doc.getImageFilter(stream.dict);
+    const data = await doc.decodeStream(stream);
+    const gray = new Uint8Array(maskWidth * maskHeight);
+
+    if (filter === 'DCTDecode' || filter === 'JPXDecode') {
+      const canvas = createCanvas(maskWidth, maskHeight);
+      const ctx = canvas.getContext('2d') as Canvas2D | null;
+      if (!ctx) return null;
+      const bitmap = await createImageBitmap(new Blob([data], { type: filter === 'DCTDecode' ? 'image/jpeg' : 'image/jp2' }));
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      const rgba = ctx.getImageData(0, 0, maskWidth, maskHeight).data;
+      for (let i = 0; i < gray.length; i++) gray[i] = rgba[i * 4];
+    } else if (filter) {
+      return null;
+    } else {
+      const bits = stencil ? 1 : await doc.getNumber(stream.dict, 'BitsPerComponent', 8);
+      const decode = await doc.getArray(stream.dict, 'Decode');
+      const inverted = decode ? numberOr(decode[0], 0) === 1 : false;
+      const rowBytes = Math.ceil((maskWidth * bits) / 8);
+      const maxValue = (1 << bits) - 1;
+      for (let y = 0; y < maskHeight; y++) {
+        for (let x = 0; x < maskWidth; x++) {
+          const bitOffset = y * rowBytes * 8 + x * bits;
+          const value = bits === 8 ? data[bitOffset >> 3] : (data[bitOffset >> 3] >> (8 - bits - (bitOffset & 7))) & maxValue;
+          let level = Math.round((value / maxValue) * 255);
+          if (inverted) level = 255 - level;
+          // Stencil: 1 masks out
+          gray[y * maskWidth + x] = stencil ? 255 - level : level;
+        }
+      }
+    }
+
+    if (maskWidth === width && maskHeight === height) return gray;
+    const resampled = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      const sy = Math.min(maskHeight - 1, Math.floor((y * maskHeight) / height));
+      for (let x = 0; x < width; x++) {
+        resampled[y * width + x] = gray[sy * maskWidth + Math.min(maskWidth - 1, Math.floor((x * maskWidth) / width))];
+      }
+    }
+    return resampled;
+  }
+
+  /** Canvas gradient for axial/radial shadings, in shading space */
+  async createGradient(ctx: Canvas2D, shadingValue: PdfDict | PdfStream, resources: PdfDict | null): Promise<CanvasGradient | null> {
+    const { doc } = this;
+    const shading = shadingValue instanceof PdfStream ? shadingValue.dict : shadingValue;
+    const type = await doc.getNumber(shading, 'ShadingType', 0);
+    if (type !== 2 && type !== 3) return null;
+
+    const coordsArray = await doc.getArray(shading, 'Coords');
+    const coords = coordsArray ? coordsArray.map(value => numberOr(value, 0)) : [];
+    const fn = await this.loadFunction(await doc.get(shading, 'Function'));
+    const space = await this.loadColorSpace(await doc.get(shading, 'ColorSpace'), resources);
+    const domainArray = await doc.getArray(shading, 'Domain');
+    const [t0, t1] = domainArray ? domainArray.map(value => numberOr(value, 0)) : [0, 1];
+    if (!fn || coords.length < (type === 2 ? 4 : 6)) return null;
+
+    const gradient = type === 2
+      ? ctx.createLinearGradient(coords[0], coords[1], coords[2], coords[3])
+      : ctx.createRadialGradient(coords[0], coords[1], Math.max(0, coords[2]), coords[3], coords[4], Math.max(0, coords[5]));
+    const steps = 32;
+    for (let i = 0; i <= steps; i++) {
+      const t = t0 + ((t1 - t0) * i) / steps;
+      gradient.addColorStop(i / steps, rgbCss(space.toRgb(fn([t]))));
+    }
+    return gradient;
+  }
+}
+
+// =================
+// CONTENT INTERPRETER
+// =================
+
+function initialState(ctm: Matrix): GraphicsState {
+  return {
+    ctm,
+    fillSpace: DEVICE_GRAY,
+    fillColor: [0],
+    fillPattern: null,
+    strokeSpace: DEVICE_GRAY,
+    strokeColor: [0],
+    strokePattern: null,
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    miterLimit: 10,
+    dash: [],
+    dashPhase: 0,
+    fillAlpha: 1,
+    strokeAlpha: 1,
+    blendMode: 'source-over',
+    font: null,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+    renderMode: 0
+  };
+}
+
+const LINE_CAPS: CanvasLineCap[] = ['butt', 'round', 'square'];
+const LINE_JOINS: CanvasLineJoin[] = ['miter', 'round', 'bevel'];
+const BLEND_MODES: Record<string, GlobalCompositeOperation> = {
+  Normal: 'source-over', Compatible: 'source-over', Multiply: 'multiply', Screen: 'screen', Overlay: 'overlay',
+  Darken: 'darken', Lighten: 'lighten', ColorDodge: 'color-dodge', ColorBurn: 'color-burn', HardLight: 'hard-light',
+  SoftLight: 'soft-light', Difference: 'difference', Exclusion: 'exclusion', Hue: 'hue', Saturation: 'saturation',
+  Color: 'color', Luminosity: 'luminosity'
+};
+
+// Inline image abbreviations
+const INLINE_KEYS: Record<string, string> = {
+  BPC: 'BitsPerComponent', CS: 'ColorSpace', D: 'Decode', DP: 'DecodeParms', F: 'Filter', H: 'Height',
+  IM: 'ImageMask', I: 'Interpolate', W: 'Width'
+};
+
+class ContentInterpreter {
+  private state: GraphicsState;
+  private stack: GraphicsState[] = [];
+  private stackFloor = 0; // Q can't pop state saved outside the current form
+  private path: Path2D | null = null;
+  private pathEmpty = true;
+  private currentPoint: [number, number] = [0, 0];
+  private pendingClip: CanvasFillRule | null = null;
+  private textMatrix: Matrix = IDENTITY;
+  private lineMatrix: Matrix = IDENTITY;
+  private patternBase: Matrix = IDENTITY;
+  private depth = 0;
+  private visitedForms = new Set<PdfStream>();
+  private currentFont = '';
+  private patternStyles = new WeakMap<PatternPaint, { style: CanvasGradient | CanvasPattern; matrix: Matrix }>();
+
+  constructor(
+    private rasterizer: PdfRasterizer,
+    private ctx: Canvas2D | null,
+    private device: Matrix, // User space to canvas pixels
+    private view: Matrix, // User space to view points, for text runs
+    private runs: PdfTextRun[],
+    private isCancelled: () => boolean,
+    private canvasWidth: number,
+    private canvasHeight: number
+  ) {
+    this.state = initialState(IDENTITY);
+  }
+
+  private get doc(): PdfDocument {
+    return this.rasterizer.doc;
+  }
+
+  async runPage(page: PdfPage): Promise<void> {
+    const contents = await this.doc.get(page.dict, 'Contents');
+    const streams = Array.isArray(contents) ? contents : [contents];
+    const parts: Uint8Array[] = [];
+    for (const item of streams) {
+      const stream = await this.doc.resolve(item);
+      if (stream instanceof PdfStream) {
+        try {
+          parts.push(await this.doc.decodeStream(stream));
+        } catch (error) {
+          console.warn('⚠️ PDF content stream skipped:', error);
+        }
+      }
+    }
+
+    // Streams are concatenated; a separator keeps tokens from merging
+    const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+    const content = new Uint8Array(total);
+    let offset = 0;
+    parts.forEach(part => {
+      content.set(part, offset);
+      content[offset + part.length] = 10;
+      offset += part.length + 1;
+    });
+
+    this.ctx?.save();
+    await this.execute(content, page.resources);
+    this.ctx?.restore();
+    await this.drawAnnotations(page);
+  }
+
+  private async drawAnnotations(page: PdfPage): Promise<void> {
+    const annots = await this.doc.getArray(page.dict, 'Annots');
+    if (!annots || !this.ctx) return;
+
+    for (const item of annots) {
+      if (this.isCancelled()) return;
+      const annot = await this.doc.resolve(item);
+      if (!(annot instanceof PdfDict)) continue;
+      const flags = await this.doc.getNumber(annot, 'F', 0);
+      const subtype = await this.doc.get(annot, 'Subtype');
+      if (flags & 0x2 || isName(subtype, 'Popup')) continue; // Hidden
+
+      const appearances = await this.doc.getDict(annot, 'AP');
+      let appearance = await this.doc.get(appearances, 'N');
+      if (appearance instanceof PdfDict && !(appearance instanceof PdfStream)) {
+        const state = await this.doc.get(annot, 'AS');
+        appearance = state instanceof PdfName ? await this.doc.get(appearance, state.name) : undefined;
+      }
+      const rectArray = await this.doc.getArray(annot, 'Rect');
+      if (!(appearance instanceof PdfStream) || !rectArray || rectArray.length < 4) continue;
+
+      // Map the appearance BBox (after its Matrix) onto the annotation Rect
+      const rect = rectArray.map(value => numberOr(value, 0));
+      const bboxArray = await this.doc.getArray(appearance.dict, 'BBox');
+      const bbox = bboxArray ? bboxArray.map(value => numberOr(value, 0)) : [0, 0, 1, 1];
+      const matrix = toMatrix(await this.doc.get(appearance.dict, 'Matrix')) || IDENTITY;
+      const corners = [[bbox[0], bbox[1]], [bbox[2], bbox[1]], [bbox[0], bbox[3]], [bbox[2], bbox[3]]].map(([x, y]) => transformPoint(matrix, x, y));
+      const minX = Math.min(...corners.map(c => c[0]));
+      const minY = Math.min(...corners.map(c => c[1]));
+      const maxX = Math.max(...corners.map(c => c[0]));
+      const maxY = Math.max(...corners.map(c => c[1]));
+      const sx = (Math.max(rect[0], rect[2]) - Math.min(rect[0], rect[2])) / (maxX - minX || 1);
+      const sy = (Math.max(rect[1], rect[3]) - Math.min(rect[1], rect[3])) / (maxY - minY || 1);
+      const placement: Matrix = [sx, 0, 0, sy, Math.min(rect[0], rect[2]) - minX * sx, Math.min(rect[1], rect[3]) - minY * sy];
+
+      this.state = initialState(placement);
+      this.stack = [];
+      await this.drawForm(appearance, page.resources);
+    }
+  }
+
+  private async execute(content: Uint8Array, resources: PdfDict | null): Promise<void> {
+    const lexer = new PdfLexer(content);
+    const operands: PdfObject[] = [];
+    let count = 0;
+
+    for (;;) {
+      if ((++count & 255) === 0 && this.isCancelled()) return;
+      const token = lexer.next();
+      if (token === undefined) break;
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      try {
+        if (token.op === 'BI') {
+          await this.inlineImage(lexer, resources);
+        } else {
+          const result = this.operator(token.op, operands, resources);
+          if (result) await result;
+        }
+      } catch (error) {
+        console.warn(`⚠️ PDF operator ${token.op} failed:`, error);
+      }
+      operands.length = 0;
+    }
+  }
+
+  private num(operands: PdfObject[], index: number, fallback: number = 0): number {
+    return numberOr(operands[index], fallback);
+  }
+
+  private operator(op: string, operands: PdfObject[], resources: PdfDict | null): Promise<void> | void {
+    const s = this.state;
+    const n = (i: number) => this.num(operands, i);
+
+    switch (op) {
+      // ---------- Graphics state ----------
+      case 'q':
+        this.stack.push({ ...s, dash: [...s.dash] });
+        this.ctx?.save();
+        return;
+      case 'Q':
+        if (this.stack.length > this.stackFloor) {
+          this.state = this.stack.pop()!;
+          this.ctx?.restore();
+        }
+        return;
+      case 'cm':
+        s.ctm = multiply([n(0), n(1), n(2), n(3), n(4), n(5)], s.ctm);
+        return;
+      case 'w': s.lineWidth = n(0); return;
+      case 'J': s.lineCap = LINE_CAPS[n(0)] || 'butt'; return;
+      case 'j': s.lineJoin = LINE_JOINS[n(0)] || 'miter'; return;
+      case 'M': s.miterLimit = n(0) || 10; return;
+      case 'd': {
+        const dash = operands[0];
+        s.dash = Array.isArray(dash) ? dash.map(value => numberOr(value, 0)) : [];
+        s.dashPhase = n(1);
+        return;
+      }
+      case 'gs':
+        return this.applyExtGState(operands[0], resources);
+      case 'ri': case 'i':
+        return;
+
+      // ---------- Paths ----------
+      case 'm': this.ensurePath()?.moveTo(n(0), n(1)); this.moveTo(n(0), n(1)); return;
+      case 'l': this.ensurePath()?.lineTo(n(0), n(1)); this.moveTo(n(0), n(1)); return;
+      case 'c': this.ensurePath()?.bezierCurveTo(n(0), n(1), n(2), n(3), n(4), n(5)); this.moveTo(n(4), n(5)); return;
+      case 'v': {
+        // First control point is the current point, which Path2D doesn't expose
+        const [x, y] = this.currentPoint;
+        this.ensurePath()?.bezierCurveTo(x, y, n(0), n(1), n(2), n(3));
+        this.moveTo(n(2), n(3));
+        return;
+      }
+      case 'y': this.ensurePath()?.bezierCurveTo(n(0), n(1), n(2), n(3), n(2), n(3)); this.moveTo(n(2), n(3)); return;
+      case 'h': this.ensurePath()?.closePath(); return;
+      case 're': this.ensurePath()?.rect(n(0), n(1), n(2), n(3)); this.moveTo(n(0), n(1)); return;
+
+      // ---------- Painting ----------
+      case 'S': this.paint(false, true, 'nonzero'); return;
+      case 's': this.path?.closePath(); this.paint(false, true, 'nonzero'); return;
+      case 'f': case 'F': this.paint(true, false, 'nonzero'); return;
+      case 'f*': this.paint(true, false, 'evenodd'); return;
+      case 'B': this.paint(true, true, 'nonzero'); return;
+      case 'B*': this.paint(true, true, 'evenodd'); return;
+      case 'b': this.path?.closePath(); this.paint(true, true, 'nonzero'); return;
+      case 'b*': this.path?.closePath(); this.paint(true, true, 'evenodd'); return;
+      case 'n': this.paint(false, false, 'nonzero'); return;
+      case 'W': this.pendingClip = 'nonzero'; return;
+      case 'W*': this.pendingClip = 'evenodd'; return;
+
+      // ---------- Color ----------
+      case 'CS': return this.setColorSpace(operands[0], resources, true);
+      case 'cs': return this.setColorSpace(operands[0], resources, false);
+      case 'SC': case 'SCN': return this.setColor(operands, resources, true);
+      case 'sc': case 'scn': return this.setColor(operands, resources, false);
+      case 'G': s.strokeSpace = DEVICE_GRAY; s.strokeColor = [n(0)]; s.strokePattern = null; return;
+      case 'g': s.fillSpace = DEVICE_GRAY; s.fillColor = [n(0)]; s.fillPattern = null; return;
+      case 'RG': s.strokeSpace = DEVICE_RGB; s.strokeColor = [n(0), n(1), n(2)]; s.strokePattern = null; return;
+      case 'rg': s.fillSpace = DEVICE_RGB; s.fillColor = [n(0), n(1), n(2)]; s.fillPattern = null; return;
+      case 'K': s.strokeSpace = DEVICE_CMYK; s.strokeColor = [n(0), n(1), n(2), n(3)]; s.strokePattern = null; return;
+      case 'k': s.fillSpace = DEVICE_CMYK; s.fillColor = [n(0), n(1), n(2), n(3)]; s.fillPattern = null; return;
+
+      // ---------- XObjects and shadings ----------
+      case 'Do': return this.drawXObject(operands[0], resources);
+      case 'sh': return this.drawShading(operands[0], resources);
+
+      // ---------- Text ----------
+      case 'BT':
+        this.textMatrix = IDENTITY;
+        this.lineMatrix = IDENTITY;
+        return;
+      case 'ET': return;
+      case 'Tc': s.charSpacing = n(0); return;
+      case 'Tw': s.wordSpacing = n(0); return;
+      case 'Tz': s.horizontalScale = n(0) / 100; return;
+      case 'TL': s.leading = n(0); return;
+      case 'Ts': s.rise = n(0); return;
+      case 'Tr': s.renderMode = n(0); return;
+      case 'Tf': return this.setFont(operands[0], n(1), resources);
+      case 'Td':
+        this.lineMatrix = multiply([1, 0, 0, 1, n(0), n(1)], this.lineMatrix);
+        this.textMatrix = this.lineMatrix;
+        return;
+      case 'TD':
+        s.leading = -n(1);
+        this.lineMatrix = multiply([1, 0, 0, 1, n(0), n(1)], this.lineMatrix);
+        this.textMatrix = this.lineMatrix;
+        return;
+      case 'Tm':
+        this.lineMatrix = [n(0), n(1), n(2), n(3), n(4), n(5)];
+        this.textMatrix = this.lineMatrix;
+        return;
+      case 'T*':
+        this.nextLine();
+        return;
+      case 'Tj':
+        return this.showText([operands[0]], resources);
+      case 'TJ':
+        return this.showText(Array.isArray(operands[0]) ? operands[0] : [], resources);
+      case "'":
+        this.nextLine();
+        return this.showText([operands[0]], resources);
+      case '"':
+        s.wordSpacing = n(0);
+        s.charSpacing = n(1);
+        this.nextLine();
+        return this.showText([operands[2]], resources);
+    }
+  }
+
+  // ---------- Paths and painting ----------
+
+  /** Paths are only built when drawing; text extraction skips them */
+  private ensurePath(): Path2D | null {
+    if (!this.ctx) return null;
+    if (!this.path) this.path = new Path2D();
+    return this.path;
+  }
+
+  private moveTo(x: number, y: number): void {
+    this.currentPoint = [x, y];
+    this.pathEmpty = false;
+  }
+
+  private setDeviceTransform(matrix: Matrix): void {
+    const m = multiply(matrix, this.device);
+    this.ctx!.setTransform(m[0], m[1], m[2], m[3], m[4], m[5]);
+  }
+
+  private paintStyle(stroke: boolean): string {
+    const s = this.state;
+    const space = stroke ? s.strokeSpace : s.fillSpace;
+    const color = stroke ? s.strokeColor : s.fillColor;
+    if (space.isPattern) return rgbCss(UNSUPPORTED_PAINT);
+    return rgbCss(space.toRgb(color));
+  }
+
+  private paint(fill: boolean, stroke: boolean, rule: CanvasFillRule): void {
+    const ctx = this.ctx;
+    const path = this.path;
+    const s = this.state;
+
+    if (ctx && path && !this.pathEmpty) {
+      this.setDeviceTransform(s.ctm);
+      ctx.globalCompositeOperation = s.blendMode;
+
+      if (fill) {
+        if (s.fillPattern) {
+          this.paintPattern(path, rule, s.fillPattern);
+        } else {
+          ctx.globalAlpha = s.fillAlpha;
+          ctx.fillStyle = this.paintStyle(false);
+          ctx.fill(path, rule);
+        }
+      }
+      if (stroke) {
+        ctx.globalAlpha = s.strokeAlpha;
+        ctx.strokeStyle = this.paintStyle(true);
+        // Zero-width lines are one device pixel wide
+        const scale = Math.sqrt(Math.abs(s.ctm[0] * s.ctm[3] - s.ctm[1] * s.ctm[2])) * Math.sqrt(Math.abs(this.device[0] * this.device[3] - this.device[1] * this.device[2]));
+        ctx.lineWidth = Math.max(s.lineWidth, scale > 0 ? 1 / scale : 1);
+        ctx.lineCap = s.lineCap;
+        ctx.lineJoin = s.lineJoin;
+        ctx.miterLimit = s.miterLimit;
+        ctx.setLineDash(s.dash.every(value => value === 0) ? [] : s.dash);
+        ctx.lineDashOffset = s.dashPhase;
+        ctx.stroke(path);
+      }
+      if (this.pendingClip) {
+        ctx.clip(path, this.pendingClip);
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    this.path = null;
+    this.pathEmpty = true;
+    this.pendingClip = null;
+  }
+
+  private paintPattern(path: Path2D, rule: CanvasFillRule, pattern: PatternPaint): void {
+    const ctx = this.ctx!;
+    const style = this.patternStyles.get(pattern);
+    if (!style) {
+      ctx.fillStyle = rgbCss(UNSUPPORTED_PAINT);
+      ctx.fill(path, rule);
+      return;
+    }
+
+    ctx.save();
+    ctx.clip(path, rule);
+    this.fillCanvas(style.matrix, style.style, this.state.fillAlpha);
+    ctx.restore();
+  }
+
+  /** Fill the whole visible canvas in the given user-space transform */
+  private fillCanvas(matrix: Matrix, style: string | CanvasGradient | CanvasPattern, alpha: number): void {
+    const ctx = this.ctx!;
+    this.setDeviceTransform(matrix);
+    const inverse = invert(multiply(matrix, this.device));
+    const corners = [[0, 0], [this.canvasWidth, 0], [0, this.canvasHeight], [this.canvasWidth, this.canvasHeight]]
+      .map(([x, y]) => transformPoint(inverse, x, y));
+    const xs = corners.map(c => c[0]);
+    const ys = corners.map(c => c[1]);
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = style;
+    ctx.fillRect(Math.min(...xs), Math.min(...ys), Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    ctx.globalAlpha = 1;
+  }
+
+  // ---------- State ----------
+
+  private async applyExtGState(nameValue: PdfObject, resources: PdfDict | null): Promise<void> {
+    if (!(nameValue instanceof PdfName)) return;
+    const states = await this.doc.getDict(resources, 'ExtGState');
+    const gs = await this.doc.getDict(states, nameValue.name);
+    if (!gs) return;
+    const s = this.state;
+
+    for (const [key, raw] of Array.from(gs.entries)) {
+      const value = await this.doc.resolve(raw);
+      switch (key) {
+        case 'LW': s.lineWidth = numberOr(value, s.lineWidth); break;
+        case 'LC': s.lineCap = LINE_CAPS[numberOr(value, 0)] || 'butt'; break;
+        case 'LJ': s.lineJoin = LINE_JOINS[numberOr(value, 0)] || 'miter'; break;
+        case 'ML': s.miterLimit = numberOr(value, 10); break;
+        case 'D':
+          if (Array.isArray(value) && Array.isArray(value[0])) {
+            s.dash = value[0].map(item => numberOr(item, 0));
+            s.dashPhase = numberOr(value[1], 0);
+          }
+          break;
+        case 'CA': s.strokeAlpha = numberOr(value, 1); break;
+        case 'ca': s.fillAlpha = numberOr(value, 1); break;
+        case 'BM': {
+          const mode = Array.isArray(value) ? value[0] : value;
+          s.blendMode = mode instanceof PdfName ? BLEND_MODES[mode.name] || 'source-over' : 'source-over';
+          break;
+        }
+        case 'Font':
+          if (Array.isArray(value)) {
+            const fontDict = await this.doc.resolve(value[0]);
+            if (fontDict instanceof PdfDict) {
+              s.font = await this.rasterizer.loadFont(fontDict);
+              s.fontSize = numberOr(value[1], s.fontSize);
+            }
+          }
+          break;
+      }
+    }
+  }
+
+  private async setColorSpace(nameValue: PdfObject, resources: PdfDict | null, stroke: boolean): Promise<void> {
+    const space = await this.rasterizer.loadColorSpace(nameValue, resources);
+    if (stroke) {
+      this.state.strokeSpace = space;
+      this.state.strokeColor = [...space.initial];
+      this.state.strokePattern = null;
+    } else {
+      this.state.fillSpace = space;
+      this.state.fillColor = [...space.initial];
+      this.state.fillPattern = null;
+    }
+  }
+
+  private async setColor(operands: PdfObject[], resources: PdfDict | null, stroke: boolean): Promise<void> {
+    const s = this.state;
+    const space = stroke ? s.strokeSpace : s.fillSpace;
+    const components = operands.filter((value): value is number => typeof value === 'number');
+    const name = operands[operands.length - 1];
+
+    if (space.isPattern && name instanceof PdfName) {
+      const pattern = await this.loadPattern(name.name, resources, space.base ? space.base.toRgb(components) : null);
+      if (stroke) {
+        s.strokePattern = pattern;
+        s.strokeColor = components;
+      } else {
+        s.fillPattern = pattern;
+        s.fillColor = components;
+      }
+      return;
+    }
+
+    if (stroke) s.strokeColor = components;
+    else s.fillColor = components;
+  }
+
+  private async loadPattern(name: string, resources: PdfDict | null, color: Rgb | null): Promise<PatternPaint | null> {
+    const patterns = await this.doc.getDict(resources, 'Pattern');
+    const value = await this.doc.get(patterns, name);
+    const dict = value instanceof PdfStream ? value.dict : value instanceof PdfDict ? value : null;
+    if (!dict || !this.ctx) return null;
+
+    const matrix = toMatrix(await this.doc.get(dict, 'Matrix')) || IDENTITY;
+    const type = await this.doc.getNumber(dict, 'PatternType', 0);
+
+    if (type === 2) {
+      const shading = await this.doc.get(dict, 'Shading');
+      if (!(shading instanceof PdfDict) && !(shading instanceof PdfStream)) return null;
+      const paint: PatternPaint = { type: 'shading', shading, matrix, base: this.patternBase };
+      const gradient = await this.rasterizer.createGradient(this.ctx, shading, resources);
+      if (!gradient) return null;
+      this.patternStyles.set(paint, { style: gradient, matrix: multiply(matrix, this.patternBase) });
+      return paint;
+    }
+
+    if (type === 1 && value instanceof PdfStream) {
+      const paint: PatternPaint = { type: 'tiling', stream: value, matrix, base: this.patternBase, color };
+      const tile = await this.renderTile(value, multiply(matrix, this.patternBase), color);
+      if (!tile) return null;
+      this.patternStyles.set(paint, tile);
+      return paint;
+    }
+    return null;
+  }
+
+  /** Render one tiling-pattern cell; returns a repeating pattern and its cell-to-user matrix */
+  private async renderTile(stream: PdfStream, patternMatrix: Matrix, color: Rgb | null): Promise<{ style: CanvasPattern; matrix: Matrix } | null> {
+    const { doc } = this;
+    const bboxArray = await doc.getArray(stream.dict, 'BBox');
+    const bbox = bboxArray ? bboxArray.map(value => numberOr(value, 0)) : [0, 0, 1, 1];
+    const xStep = Math.abs(await doc.getNumber(stream.dict, 'XStep', bbox[2] - bbox[0])) || 1;
+    const yStep = Math.abs(await doc.getNumber(stream.dict, 'YStep', bbox[3] - bbox[1])) || 1;
+
+    const total = multiply(patternMatrix, this.device);
+    let sx = Math.hypot(total[0], total[1]) || 1;
+    let sy = Math.hypot(total[2], total[3]) || 1;
+    // Keep the cell canvas bounded
+    sx = Math.min(sx, 1024 / xStep);
+    sy = Math.min(sy, 1024 / yStep);
+    const width = Math.max(1, Math.ceil(xStep * sx));
+    const height = Math.max(1, Math.ceil(yStep * sy));
+    sx = width / xStep;
+    sy = height / yStep;
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as Canvas2D | null;
+    if (!ctx) return null;
+
+    const cellDevice: Matrix = [sx, 0, 0, -sy, -bbox[0] * sx, height + bbox[1] * sy];
+    const interpreter = new ContentInterpreter(this.rasterizer, ctx, cellDevice, cellDevice, [], this.isCancelled, width, height);
+    interpreter.depth = this.depth + 1;
+    if (color) {
+      // Uncolored patterns paint with the color given to scn
+      interpreter.state.fillSpace = DEVICE_RGB;
+      interpreter.state.fillColor = color.map(v => v / 255);
+      interpreter.state.strokeSpace = DEVICE_RGB;
+      interpreter.state.strokeColor = color.map(v => v / 255);
+    }
+    const resources = await doc.getDict(stream.dict, 'Resources');
+    await interpreter.execute(await doc.decodeStream(stream), resources);
+
+    const style = this.ctx!.createPattern(canvas as CanvasImageSource, 'repeat');
+    if (!style) return null;
+    // Cell pixels back to pattern space
+    const cellToPattern: Matrix = [1 / sx, 0, 0, -1 / sy, bbox[0], height / sy + bbox[1]];
+    return { style, matrix: multiply(cellToPattern, patternMatrix) };
+  }
+
+  // ---------- XObjects ----------
+
+  private async drawXObject(nameValue: PdfObject, resources: PdfDict | null): Promise<void> {
+    if (!(nameValue instanceof PdfName)) return;
+    const xobjects = await this.doc.getDict(resources, 'XObject');
+    const xobject = await this.doc.get(xobjects, nameValue.name);
+    if (!(xobject instanceof PdfStream)) return;
+    const subtype = await this.doc.get(xobject.dict, 'Subtype');
+
+    if (isName(subtype, 'Form')) {
+      await this.drawForm(xobject, resources);
+    } else if (isName(subtype, 'Image')) {
+      await this.drawImage(xobject, resources);
+    }
+  }
+
+  private async drawForm(form: PdfStream, parentResources: PdfDict | null): Promise<void> {
+    if (this.depth >= MAX_FORM_DEPTH || this.visitedForms.has(form)) return;
+    const matrix = toMatrix(await this.doc.get(form.dict, 'Matrix')) || IDENTITY;
+    const bboxArray = await this.doc.getArray(form.dict, 'BBox');
+    const resources = (await this.doc.getDict(form.dict, 'Resources')) || parentResources;
+
+    const savedDepth = this.stack.length;
+    this.operator('q', [], resources);
+    this.state.ctm = multiply(matrix, this.state.ctm);
+    const savedPatternBase = this.patternBase;
+    this.patternBase = this.state.ctm;
+
+    if (bboxArray && bboxArray.length >= 4 && this.ctx) {
+      const [x0, y0, x1, y1] = bboxArray.map(value => numberOr(value, 0));
+      this.ensurePath()?.rect(x0, y0, x1 - x0, y1 - y0);
+      this.pathEmpty = false;
+      this.pendingClip = 'nonzero';
+      this.paint(false, false, 'nonzero');
+    }
+
+    const savedFloor = this.stackFloor;
+    this.stackFloor = this.stack.length;
+    this.depth++;
+    this.visitedForms.add(form);
+    try {
+      await this.execute(await this.doc.decodeStream(form), resources);
+    } finally {
+      this.visitedForms.delete(form);
+      this.depth--;
+      this.patternBase = savedPatternBase;
+      // Unbalanced q/Q inside the form must not leak out
+      this.stackFloor = savedDepth;
+      while (this.stack.length > savedDepth) this.operator('Q', [], resources);
+      this.stackFloor = savedFloor;
+    }
+  }
+
+  private async drawImage(source: PdfStream | PdfInlineImage, resources: PdfDict | null): Promise<void> {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const s = this.state;
+    const stencilColor = s.fillSpace.isPattern ? UNSUPPORTED_PAINT : s.fillSpace.toRgb(s.fillColor);
+    const image = await this.rasterizer.loadImage(source, resources, stencilColor);
+    if (!image) return;
+
+    // Images fill the unit square, with the first row at the top
+    this.setDeviceTransform(s.ctm);
+    ctx.transform(1, 0, 0, -1, 0, 1);
+    const interpolate = (await this.doc.get(source.dict, 'Interpolate')) === true || (await this.doc.get(source.dict, 'I')) === true;
+    const m = multiply(s.ctm, this.device);
+    const devicePixels = Math.hypot(m[0], m[1]);
+    const width = (image as { width: number }).width || 1;
+    ctx.imageSmoothingEnabled = interpolate || devicePixels < width * 2;
+    ctx.globalAlpha = s.fillAlpha;
+    ctx.globalCompositeOperation = s.blendMode;
+    ctx.drawImage(image, 0, 0, 1, 1);
+    ctx.globalAlpha = 1;
+  }
+
+  private async inlineImage(lexer: PdfLexer, resources: PdfDict | null): Promise<void> {
+    const dict = new PdfDict();
+    for (;;) {
+      const key = lexer.next();
+      if (key === undefined) return;
+      if (key instanceof PdfOperator && key.op === 'ID') break;
+      if (!(key instanceof PdfName)) continue;
+      const value = lexer.next();
+      if (value === undefined || value instanceof PdfOperator) continue;
+      dict.entries.set(INLINE_KEYS[key.name] || key.name, value);
+    }
+    const data = lexer.readInlineImageData();
+    await this.drawImage(new PdfInlineImage(dict, data), resources);
+  }
+
+  private async drawShading(nameValue: PdfObject, resources: PdfDict | null): Promise<void> {
+    if (!(nameValue instanceof PdfName) || !this.ctx) return;
+    const shadings = await this.doc.getDict(resources, 'Shading');
+    const shading = await this.doc.get(shadings, nameValue.name);
+    if (!(shading instanceof PdfDict) && !(shading instanceof PdfStream)) return;
+    const gradient = await this.rasterizer.createGradient(this.ctx, shading, resources);
+    if (!gradient) return;
+
+    this.ctx.save();
+    this.ctx.globalCompositeOperation = this.state.blendMode;
+    this.fillCanvas(this.state.ctm, gradient, this.state.fillAlpha);
+    this.ctx.restore();
+  }
+
+  // ---------- Text ----------
+
+  private nextLine(): void {
+    this.lineMatrix = multiply([1, 0, 0, 1, 0, -this.state.leading], this.lineMatrix);
+    this.textMatrix = this.lineMatrix;
+  }
+
+  private async setFont(nameValue: PdfObject, size: number, resources: PdfDict | null): Promise<void> {
+    this.state.fontSize = size;
+    if (!(nameValue instanceof PdfName)) return;
+    const fonts = await this.doc.getDict(resources, 'Font');
+    const fontDict = await this.doc.getDict(fonts, nameValue.name);
+    this.state.font = fontDict ? await this.rasterizer.loadFont(fontDict) : null;
+  }
+
+  private async showText(items: PdfObject[], resources: PdfDict | null): Promise<void> {
+    const s = this.state;
+    const font = s.font;
+    if (!font) return;
+
+    const fontSize = s.fontSize;
+    const hScale = s.horizontalScale;
+    const startMatrix = this.textMatrix;
+    let advance = 0; // Text-space distance from startMatrix
+    let text = '';
+
+    for (const item of items) {
+      if (typeof item === 'number') {
+        const shift = (-item / 1000) * fontSize * hScale;
+        advance += shift;
+        this.textMatrix = multiply([1, 0, 0, 1, shift, 0], this.textMatrix);
+        // Large negative kerning is usually a word gap
+        if (item < -150 && text && !text.endsWith(' ')) text += ' ';
+        continue;
+      }
+      if (!(item instanceof PdfString)) continue;
+
+      for (const glyph of font.decode(item.bytes)) {
+        await this.drawGlyph(font, glyph, resources);
+        const spacing = s.charSpacing + (glyph.isSpace ? s.wordSpacing : 0);
+        const tx = (glyph.width * fontSize + spacing) * hScale;
+        advance += tx;
+        this.textMatrix = multiply([1, 0, 0, 1, tx, 0], this.textMatrix);
+        text += glyph.unicode;
+      }
+    }
+
+    if (text.trim()) this.recordRun(text, startMatrix, advance);
+  }
+
+  private recordRun(text: string, startMatrix: Matrix, advance: number): void {
+    const s = this.state;
+    const toView = multiply(multiply(startMatrix, s.ctm), this.view);
+    const bottom = s.rise - 0.2 * s.fontSize;
+    const top = s.rise + 0.8 * s.fontSize;
+    const corners = [
+      transformPoint(toView, 0, bottom),
+      transformPoint(toView, 0, top),
+      transformPoint(toView, advance, bottom),
+      transformPoint(toView, advance, top)
+    ];
+    const xs = corners.map(c => c[0]);
+    const ys = corners.map(c => c[1]);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    this.runs.push({ text, x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y });
+  }
+
+  private async drawGlyph(font: PdfFont, glyph: DecodedGlyph, resources: PdfDict | null): Promise<void> {
+    const ctx = this.ctx;
+    const s = this.state;
+    const mode = s.renderMode % 4;
+    if (!ctx || mode === 3) return;
+
+    const textSpace: Matrix = [s.fontSize * s.horizontalScale, 0, 0, s.fontSize, 0, s.rise];
+    const glyphMatrix = multiply(multiply(textSpace, this.textMatrix), s.ctm);
+
+    if (font.type3) {
+      await this.drawType3Glyph(font, glyph, glyphMatrix, resources);
+      return;
+    }
+    if (!glyph.unicode || glyph.unicode === ' ') return;
+
+    const m = multiply(glyphMatrix, this.device);
+    const size = Math.hypot(m[2], m[3]);
+    if (size < 0.5) return;
+
+    // Substituted fonts are stretched to the PDF's advance width
+    const css = font.css(size);
+    let stretch = 1;
+    if (!font.embedded && glyph.width > 0) {
+      const natural = this.rasterizer.measure(css, glyph.unicode);
+      if (natural > 0) stretch = Math.max(0.5, Math.min(2, glyph.width / natural));
+    }
+
+    ctx.setTransform((m[0] / size) * stretch, (m[1] / size) * stretch, -m[2] / size, -m[3] / size, m[4], m[5]);
+    if (css !== this.currentFont) {
+      ctx.font = css;
+      this.currentFont = css;
+    }
+    ctx.globalCompositeOperation = s.blendMode;
+    if (mode === 0 || mode === 2) {
+      ctx.globalAlpha = s.fillAlpha;
+      ctx.fillStyle = this.paintStyle(false);
+      ctx.fillText(glyph.unicode, 0, 0);
+    }
+    if (mode === 1 || mode === 2) {
+      ctx.globalAlpha = s.strokeAlpha;
+      ctx.strokeStyle = this.paintStyle(true);
+      ctx.lineWidth = Math.max(0.5, (s.lineWidth * size) / (s.fontSize || 1));
+      ctx.strokeText(glyph.unicode, 0, 0);
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private async drawType3Glyph(font: PdfFont, glyph: DecodedGlyph, glyphMatrix: Matrix, resources: PdfDict | null): Promise<void> {
+    const type3 = font.type3!;
+    if (!glyph.glyphName || this.depth >= MAX_FORM_DEPTH) return;
+    const proc = await this.doc.get(type3.charProcs, glyph.glyphName);
+    if (!(proc instanceof PdfStream)) return;
+
+    const savedText = this.textMatrix;
+    const savedLine = this.lineMatrix;
+    this.operator('q', [], resources);
+    this.state.ctm = multiply(type3.matrix, glyphMatrix);
+    this.depth++;
+    try {
+      await this.execute(await this.doc.decodeStream(proc), type3.resources || resources);
+    } finally {
+      this.depth--;
+      this.operator('Q', [], resources);
+      this.textMatrix = savedText;
+      this.lineMatrix = savedLine;
+    }
+  }
+}
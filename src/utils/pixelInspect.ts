@@ -0,0 +1,97 @@
+/**
+ * Pixel inspection helpers for small images: palette extraction, integer
+ * scaling and mapping pointer positions back to image pixels
+ */
+
+export interface PaletteColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+  hex: string;
+  count: number;
+}
+
+export interface PaletteResult {
+  colors: PaletteColor[]; // Most used first, at most `limit` entries
+  total: number; // Distinct colors in the image
+  pixelCount: number;
+}
+
+/** Largest image, in pixels, that the inspector reads back */
+export const PIXEL_INSPECT_LIMIT = 2048 * 2048;
+
+const toHex = (value: number) => value.toString(16).padStart(2, '0');
+
+/**
+ * `#rrggbb`, or `#rrggbbaa` when the color is not fully opaque
+ */
+export function rgbaToHex(r: number, g: number, b: number, a: number = 255): string {
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}${a < 255 ? toHex(a) : ''}`;
+}
+
+/**
+ * Count the distinct colors in RGBA pixel data. Fully transparent pixels are
+ * counted as one color whatever their RGB values.
+ */
+export function extractPalette(data: Uint8ClampedArray, limit: number = 256): PaletteResult {
+  const counts = new Map<number, number>();
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    // Pack into an unsigned 32-bit key; transparent pixels share key 0
+    const key = a === 0 ? 0 : ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | a) >>> 0;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const colors = Array.from(counts, ([key, count]) => {
+    const r = key >>> 24;
+    const g = (key >>> 16) & 255;
+    const b = (key >>> 8) & 255;
+    const a = key & 255;
+    return { r, g, b, a, hex: rgbaToHex(r, g, b, a), count };
+  });
+  colors.sort((x, y) => y.count - x.count || x.hex.localeCompare(y.hex));
+
+  return { colors: colors.slice(0, limit), total: colors.length, pixelCount: data.length / 4 };
+}
+
+/**
+ * Largest whole-number scale at which the image fits the box, never below 1
+ */
+export function fitIntegerScale(width: number, height: number, boxWidth: number, boxHeight: number, maxScale: number = 64): number {
+  if (width <= 0 || height <= 0) return 1;
+  const fit = Math.floor(Math.min(boxWidth / width, boxHeight / height));
+  return Math.max(1, Math.min(maxScale, fit));
+}
+
+/**
+ * Map a pointer position, given as fractions (0-1) of the displayed box, to
+ * the image pixel under it. The image is shown rotated clockwise by a
+ * multiple of 90 degrees. Returns null outside the image.
+ */
+export function mapToImagePixel(u: number, v: number, rotation: number, width: number, height: number): { x: number, y: number } | null {
+  if (u < 0 || u >= 1 || v < 0 || v >= 1) return null;
+  let [px, py] = [u, v];
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      [px, py] = [v, 1 - u];
+      break;
+    case 180:
+      [px, py] = [1 - u, 1 - v];
+      break;
+    case 270:
+      [px, py] = [1 - v, u];
+      break;
+  }
+  const x = Math.min(width - 1, Math.floor(px * width));
+  const y = Math.min(height - 1, Math.floor(py * height));
+  return { x, y };
+}
+
+/**
+ * RGBA values of one pixel
+ */
+export function pixelAt(data: Uint8ClampedArray, width: number, x: number, y: number): [number, number, number, number] {
+  const i = (y * width + x) * 4;
+  return [data[i], data[i + 1], data[i + 2], data[i + 3]];
+}
@@ -0,0 +1,92 @@
+/**
+ * Node bookkeeping for the provenance tree: keys, paging and cycle guarding
+ */
+
+import type { InscriptionApiData } from '../services/OrdinalsApiService';
+
+export type ProvenanceDirection = 'parents' | 'children';
+
+export interface ProvenanceNode {
+  inscriptionId: string;
+  info?: InscriptionApiData;
+  direction: ProvenanceDirection;
+  depth: number;
+  ancestry: string[]; // Inscription ids from the root down to this node
+  relatives: string[]; // Keys of the loaded parent/child nodes
+  page: number; // Last loaded page, -1 when nothing has been loaded
+  hasMore: boolean;
+  expanded: boolean;
+  loading: boolean;
+  error?: string;
+}
+
+export type ProvenanceNodeMap = Record<string, ProvenanceNode>;
+
+/**
+ * Key of a node; the same inscription can appear under several ancestries
+ */
+export const provenanceNodeKey = (direction: ProvenanceDirection, ancestry: string[]) => `${direction}:${ancestry.join('/')}`;
+
+export function createProvenanceNode(
+  inscriptionId: string,
+  direction: ProvenanceDirection,
+  ancestry: string[],
+  info?: InscriptionApiData
+): ProvenanceNode {
+  return {
+    inscriptionId,
+    info,
+    direction,
+    depth: ancestry.length - 1,
+    ancestry,
+    relatives: [],
+    page: -1,
+    hasMore: false,
+    expanded: false,
+    loading: false
+  };
+}
+
+/**
+ * Root node for each direction, before anything is loaded
+ */
+export function createProvenanceRoots(inscriptionId: string, directions: ProvenanceDirection[]): ProvenanceNodeMap {
+  const roots: ProvenanceNodeMap = {};
+  directions.forEach(direction => {
+    roots[provenanceNodeKey(direction, [inscriptionId])] = createProvenanceNode(inscriptionId, direction, [inscriptionId]);
+  });
+  return roots;
+}
+
+/**
+ * Add a loaded page of relatives under the node at `key`. Relatives already in
+ * its ancestry are dropped so cyclic provenance data cannot recurse forever.
+ * The map is returned unchanged when the node is gone (the tree was reset).
+ */
+export function appendRelatives(
+  nodes: ProvenanceNodeMap,
+  key: string,
+  relatives: InscriptionApiData[],
+  page: number,
+  hasMore: boolean
+): { nodes: ProvenanceNodeMap, added: ProvenanceNode[] } {
+  const node = nodes[key];
+  if (!node) return { nodes, added: [] };
+
+  const added = relatives
+    .filter(relative => !node.ancestry.includes(relative.id))
+    .map(relative => createProvenanceNode(relative.id, node.direction, [...node.ancestry, relative.id], relative));
+
+  const next = { ...nodes };
+  added.forEach(relative => {
+    next[provenanceNodeKey(relative.direction, relative.ancestry)] = relative;
+  });
+  next[key] = {
+    ...node,
+    relatives: [...node.relatives, ...added.map(relative => provenanceNodeKey(relative.direction, relative.ancestry))],
+    page,
+    hasMore,
+    loading: false
+  };
+  return { nodes: next, added };
+}
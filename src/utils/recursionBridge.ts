@@ -0,0 +1,388 @@
+/**
+ * Strict isolation for HTML inscriptions. The iframe runs without
+ * `allow-same-origin`, so a bootstrap script injected into the document
+ * forwards recursive `/content/` and `/r/` requests to the host page over
+ * postMessage instead of letting them touch the host's origin.
+ */
+
+import type { ApiResponse, InscriptionContentResponse } from '../services/OrdinalsApiService';
+
+export const RECURSION_BRIDGE_CHANNEL = 'ord-recursion-bridge';
+
+/** Sandbox flags for strict mode: scripts run, but in an opaque origin */
+export const STRICT_SANDBOX = 'allow-scripts allow-forms';
+
+export interface BridgeRequest {
+  channel: typeof RECURSION_BRIDGE_CHANNEL;
+  type: 'request';
+  id: number;
+  path: string; // Path and query, e.g. `/r/blockheight`
+}
+
+export interface BridgeResponse {
+  channel: typeof RECURSION_BRIDGE_CHANNEL;
+  type: 'response';
+  id: number;
+  status: number;
+  contentType: string;
+  body: ArrayBuffer | null;
+  error?: string;
+}
+
+const RECURSIVE_PATH = /^\/(content|r)\//;
+
+/** Elements whose references are left alone: links navigate rather than load */
+const NAVIGATION_TAGS = new Set(['a', 'area', 'base', 'form']);
+const REFERENCE_ATTRIBUTE = /(\s)(src|href|poster)(\s*=\s*)(["'])(\/(?:content|r)\/[^"']*)\4/gi;
+const TAG = /<([a-z][a-z0-9-]*)\b([^>]*)>/gi;
+const JAVASCRIPT_TYPES = new Set(['', 'text/javascript', 'application/javascript', 'module']);
+const TYPE_ATTRIBUTE = /\stype\s*=\s*(["'])([^"']*)\1/i;
+const INLINE_SCRIPT = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+/** Static and dynamic `import` of a recursive module */
+const RECURSIVE_IMPORT = /(?:\bimport\s*\(\s*|\bfrom\s*|\bimport\s*)(["'])\/(?:content|r)\/[^"']*\1/;
+
+/** Encoded dots and slashes, and backslashes, which URL parsing may turn into traversal */
+const AMBIGUOUS_PATH = /%2e|%2f|%5c|\\/i;
+
+/**
+ * Resolve dot segments and decoding the way the endpoint's server will, so
+ * the allowlist is checked against the path actually requested. Returns null
+ * for anything that is not a plain `/content/<ID>` or `/r/...` path.
+ */
+export function normalizeRecursivePath(path: string): string | null {
+  if (!path.startsWith('/') || AMBIGUOUS_PATH.test(path)) return null;
+  let url: URL;
+  try {
+    url = new URL(path, 'http://bridge.invalid');
+  } catch {
+    return null;
+  }
+  if (url.origin !== 'http://bridge.invalid' || !RECURSIVE_PATH.test(url.pathname)) return null;
+  return url.pathname + url.search;
+}
+
+/**
+ * True for `/content/<ID>` and `/r/...` paths, the only ones the bridge serves
+ */
+export function isRecursivePath(path: string): boolean {
+  const normalized = normalizeRecursivePath(path);
+  return normalized !== null && RECURSIVE_PATH.test(path);
+}
+
+/**
+ * Type guard for bridge requests arriving through `message` events
+ */
+export function isBridgeRequest(data: unknown): data is BridgeRequest {
+  const message = data as Partial<BridgeRequest> | null;
+  return !!message && message.channel === RECURSION_BRIDGE_CHANNEL && message.type === 'request' &&
+    typeof message.id === 'number' && typeof message.path === 'string';
+}
+
+/**
+ * Move static recursive references (`src`, `href`, `poster`) to `data-ord-*`
+ * attributes so the browser does not request them from the host. When a
+ * script is among them, or an inline script imports a recursive module, every
+ * script is deferred so they still run in order.
+ */
+export function rewriteRecursiveReferences(html: string): { html: string, deferredScripts: boolean } {
+  let deferredScripts = false;
+  for (const [, attributes, body] of html.matchAll(INLINE_SCRIPT)) {
+    const type = attributes.match(TYPE_ATTRIBUTE)?.[2].trim().toLowerCase() ?? '';
+    if (JAVASCRIPT_TYPES.has(type) && RECURSIVE_IMPORT.test(body)) deferredScripts = true;
+  }
+
+  let rewritten = html.replace(TAG, (tag, name: string, attributes: string) => {
+    const tagName = name.toLowerCase();
+    if (NAVIGATION_TAGS.has(tagName)) return tag;
+    const updated = attributes.replace(REFERENCE_ATTRIBUTE, '$1data-ord-$2$3$4$5$4');
+    if (tagName === 'script' && updated !== attributes) deferredScripts = true;
+    return `<${name}${updated}>`;
+  });
+
+  if (deferredScripts) {
+    rewritten = rewritten.replace(/<script\b([^>]*)>/gi, (tag, attributes: string) => {
+      const type = attributes.match(TYPE_ATTRIBUTE)?.[2].trim().toLowerCase() ?? '';
+      if (!JAVASCRIPT_TYPES.has(type)) return tag;
+      const withoutType = attributes.replace(TYPE_ATTRIBUTE, '');
+      return `<script type="text/ord-deferred"${type ? ` data-ord-type="${type}"` : ''}${withoutType}>`;
+    });
+  }
+
+  return { html: rewritten, deferredScripts };
+}
+
+/**
+ * Runs first inside the sandboxed document. Patches `fetch` and asynchronous
+ * `XMLHttpRequest`, resolves rewritten references, stylesheet `url()` and
+ * `@import` sources and module imports to blob URLs, follows elements added
+ * later and runs deferred scripts in order before replaying DOMContentLoaded.
+ */
+const BOOTSTRAP = `(function () {
+  var CHANNEL = ${JSON.stringify(RECURSION_BRIDGE_CHANNEL)};
+  var ATTRIBUTES = ['src', 'href', 'poster'];
+  var MODULE_SPECIFIER = /(\\bimport\\s*\\(\\s*|\\bfrom\\s*|\\bimport\\s*)(["'])(\\/(?:content|r)\\/[^"']*)\\2/g;
+  var CSS_REFERENCE = /(@import\\s+)?url\\(\\s*(["']?)([^"')\\s]+)\\2\\s*\\)|@import\\s+(["'])([^"']+)\\4/gi;
+  var base = new URL(document.baseURI);
+  var nextId = 0;
+  var pending = {};
+  var objectUrls = {};
+  var loaded = false;
+
+  window.addEventListener('load', function () { loaded = true; });
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.channel !== CHANNEL || data.type !== 'response') return;
+    var resolve = pending[data.id];
+    delete pending[data.id];
+    if (resolve) resolve(data);
+  });
+
+  function request(path) {
+    return new Promise(function (resolve) {
+      var id = ++nextId;
+      pending[id] = resolve;
+      window.parent.postMessage({ channel: CHANNEL, type: 'request', id: id, path: path }, '*');
+    });
+  }
+
+  function recursivePath(value) {
+    var url;
+    try { url = new URL(value, document.baseURI); } catch (e) { return null; }
+    if (url.origin !== base.origin || !/^\\/(content|r)\\//.test(url.pathname)) return null;
+    return url.pathname + url.search;
+  }
+
+  // String.replace with a replacer that may return a promise
+  function replaceAsync(text, pattern, replacer) {
+    var parts = [];
+    var last = 0;
+    text.replace(pattern, function (match) {
+      var offset = arguments[arguments.length - 2];
+      parts.push(text.slice(last, offset), replacer.apply(null, arguments));
+      last = offset + match.length;
+      return match;
+    });
+    parts.push(text.slice(last));
+    return Promise.all(parts).then(function (resolved) { return resolved.join(''); });
+  }
+
+  // Blob URL for a bridged path. Stylesheets and modules have their own
+  // references rewritten first; chain holds the documents importing this one.
+  function bridgedUrl(path, kind, chain) {
+    var key = kind + ':' + path;
+    if (!objectUrls[key]) {
+      objectUrls[key] = request(path).then(function (response) {
+        if (!response.body) throw new Error(response.error || 'HTTP ' + response.status);
+        if (kind === 'raw') return new Blob([response.body], { type: response.contentType });
+        var text = new TextDecoder().decode(response.body);
+        var rewrite = kind === 'css' ? rewriteCss : rewriteModule;
+        return rewrite(text, chain.concat(path)).then(function (rewritten) {
+          return new Blob([rewritten], { type: kind === 'css' ? 'text/css' : 'text/javascript' });
+        });
+      }).then(function (blob) { return URL.createObjectURL(blob); });
+    }
+    return objectUrls[key];
+  }
+
+  function objectUrl(path) {
+    return bridgedUrl(path, 'raw', []);
+  }
+
+  // url(), @import and @font-face sources in stylesheet text
+  function rewriteCss(text, chain) {
+    return replaceAsync(text, CSS_REFERENCE, function (match, importPrefix, quote, urlValue, importQuote, importValue) {
+      var isImport = !!(importPrefix || importValue);
+      var path = recursivePath(urlValue || importValue);
+      if (!path || chain.indexOf(path) !== -1) return match;
+      return bridgedUrl(path, isImport ? 'css' : 'raw', chain).then(function (url) {
+        return (isImport ? '@import ' : '') + 'url("' + url + '")';
+      }, function () { return match; });
+    });
+  }
+
+  // Static and dynamic import specifiers in module source
+  function rewriteModule(text, chain) {
+    return replaceAsync(text, MODULE_SPECIFIER, function (match, prefix, quote, value) {
+      var path = recursivePath(value);
+      if (!path || chain.indexOf(path) !== -1) return match;
+      return bridgedUrl(path, 'module', chain).then(function (url) {
+        return prefix + quote + url + quote;
+      }, function () { return match; });
+    });
+  }
+
+  var nativeFetch = window.fetch;
+  window.fetch = function (input, init) {
+    var url = typeof input === 'string' ? input : input instanceof URL ? input.href : input && input.url;
+    var method = (init && init.method) || (input && input.method) || 'GET';
+    var path = url && method.toUpperCase() === 'GET' ? recursivePath(url) : null;
+    if (!path) return nativeFetch.apply(this, arguments);
+    return request(path).then(function (response) {
+      if (!response.status) throw new TypeError(response.error || 'Failed to fetch');
+      return new Response(response.body, { status: response.status, headers: { 'Content-Type': response.contentType } });
+    });
+  };
+
+  // Asynchronous GETs are re-opened against the bridged blob; synchronous ones cannot wait for the host
+  var xhrPaths = new WeakMap();
+  var nativeOpen = XMLHttpRequest.prototype.open;
+  var nativeSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function (method, url, async) {
+    var path = String(method).toUpperCase() === 'GET' && async !== false ? recursivePath(String(url)) : null;
+    if (path) xhrPaths.set(this, path); else xhrPaths.delete(this);
+    return nativeOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function () {
+    var xhr = this;
+    var path = xhrPaths.get(xhr);
+    if (!path) return nativeSend.apply(xhr, arguments);
+    xhrPaths.delete(xhr);
+    objectUrl(path).then(function (url) {
+      nativeOpen.call(xhr, 'GET', url, true);
+      nativeSend.call(xhr);
+    }, function () {
+      // Let the original request fail the way it would without the bridge
+      nativeSend.call(xhr);
+    });
+  };
+
+  function resolveStyle(element) {
+    var isStyle = element.tagName === 'STYLE';
+    var text = isStyle ? element.textContent : element.getAttribute('style');
+    if (!text || text.indexOf('/') === -1) return;
+    rewriteCss(text, []).then(function (rewritten) {
+      if (rewritten === text) return;
+      if (isStyle) element.textContent = rewritten; else element.setAttribute('style', rewritten);
+    });
+  }
+
+  function resolveElement(element) {
+    if (/^(A|AREA|BASE|FORM)$/.test(element.tagName)) return;
+    if (element.tagName === 'STYLE' || element.hasAttribute('style')) resolveStyle(element);
+    var stylesheet = element.tagName === 'LINK' && /(^|\\s)stylesheet(\\s|$)/i.test(element.rel);
+    ATTRIBUTES.forEach(function (attribute) {
+      var deferred = element.getAttribute('data-ord-' + attribute);
+      var value = deferred !== null ? deferred : element.getAttribute(attribute);
+      var path = value && recursivePath(value);
+      if (!path || (element.tagName === 'SCRIPT' && element.type === 'text/ord-deferred')) return;
+      element.removeAttribute('data-ord-' + attribute);
+      var source = stylesheet && attribute === 'href' ? bridgedUrl(path, 'css', []) :
+        element.tagName === 'SCRIPT' && element.type === 'module' ? bridgedUrl(path, 'module', []) : objectUrl(path);
+      source.then(function (url) {
+        if (element.tagName !== 'SCRIPT') return element.setAttribute(attribute, url);
+        // A script only runs once, so swap in a copy pointing at the blob
+        var script = document.createElement('script');
+        Array.prototype.forEach.call(element.attributes, function (a) {
+          if (a.name !== 'src') script.setAttribute(a.name, a.value);
+        });
+        script.onload = element.onload;
+        script.onerror = element.onerror;
+        script.src = url;
+        if (element.parentNode) element.parentNode.replaceChild(script, element);
+      }, function () {});
+    });
+  }
+
+  function scan(root) {
+    if (root.nodeType !== 1) return;
+    resolveElement(root);
+    Array.prototype.forEach.call(root.querySelectorAll('style,[style],[src],[href],[poster],[data-ord-src],[data-ord-href],[data-ord-poster]'), resolveElement);
+  }
+
+  new MutationObserver(function (mutations) {
+    mutations.forEach(function (mutation) {
+      if (mutation.type === 'attributes') resolveElement(mutation.target);
+      else if (mutation.target.tagName === 'STYLE') resolveStyle(mutation.target);
+      else Array.prototype.forEach.call(mutation.addedNodes, scan);
+    });
+  }).observe(document.documentElement, { childList: true, subtree: true, attributes: true, attributeFilter: ATTRIBUTES.concat('style') });
+
+  function runDeferred() {
+    var scripts = Array.prototype.slice.call(document.querySelectorAll('script[type="text/ord-deferred"]'));
+    return scripts.reduce(function (chain, deferred) {
+      return chain.then(function () {
+        var script = document.createElement('script');
+        Array.prototype.forEach.call(deferred.attributes, function (a) {
+          if (!/^(type|data-ord-type|data-ord-src|src)$/.test(a.name)) script.setAttribute(a.name, a.value);
+        });
+        var type = deferred.getAttribute('data-ord-type');
+        if (type) script.type = type;
+        var isModule = type === 'module';
+        var value = deferred.getAttribute('data-ord-src') || deferred.getAttribute('src');
+        var path = value && recursivePath(value);
+        var source = path ? bridgedUrl(path, isModule ? 'module' : 'raw', []) : Promise.resolve(value);
+        var text = value ? Promise.resolve(null) : rewriteModule(deferred.text, []);
+        return Promise.all([source, text]).then(function (resolved) {
+          return new Promise(function (resolve) {
+            var url = resolved[0];
+            if (url) {
+              script.onload = script.onerror = resolve;
+              script.src = url;
+            } else {
+              script.text = resolved[1];
+            }
+            deferred.parentNode.replaceChild(script, deferred);
+            if (!url) resolve();
+          });
+        }, function () {});
+      });
+    }, Promise.resolve()).then(function () {
+      document.dispatchEvent(new Event('DOMContentLoaded', { bubbles: true }));
+      if (loaded) window.dispatchEvent(new Event('load'));
+    });
+  }
+
+  document.addEventListener('DOMContentLoaded', function () {
+    scan(document.documentElement);
+    if (document.querySelector('script[type="text/ord-deferred"]')) runDeferred();
+  }, { once: true });
+})();`;
+
+/**
+ * HTML for a strictly isolated iframe's `srcdoc`: recursive references are
+ * rewritten and the bridge bootstrap is injected ahead of any other script
+ */
+export function prepareIsolatedHtml(html: string): string {
+  const { html: rewritten } = rewriteRecursiveReferences(html);
+  const bootstrap = `<script>${BOOTSTRAP}</script>`;
+  for (const anchor of [/<head\b[^>]*>/i, /<html\b[^>]*>/i, /<!doctype[^>]*>/i]) {
+    const match = anchor.exec(rewritten);
+    if (match) {
+      const end = match.index + match[0].length;
+      return rewritten.slice(0, end) + bootstrap + rewritten.slice(end);
+    }
+  }
+  return bootstrap + rewritten;
+}
+
+/** API result to answer with; failed results need not carry data */
+export type BridgeResult = Omit<ApiResponse<InscriptionContentResponse>, 'data'> & {
+  data?: InscriptionContentResponse | null;
+};
+
+/**
+ * Bridge reply for an API result. Failed lookups keep the HTTP status the
+ * endpoint reported, or 502 when there was none.
+ */
+export async function createBridgeResponse(id: number, result: BridgeResult): Promise<BridgeResponse> {
+  if (result.success && result.data) {
+    return {
+      channel: RECURSION_BRIDGE_CHANNEL,
+      type: 'response',
+      id,
+      status: 200,
+      contentType: result.data.contentType,
+      body: await result.data.blob.arrayBuffer()
+    };
+  }
+  const status = result.errorCode === 'http' && result.status ? result.status : 502;
+  return {
+    channel: RECURSION_BRIDGE_CHANNEL,
+    type: 'response',
+    id,
+    status,
+    contentType: 'text/plain',
+    body: null,
+    error: result.error
+  };
+}
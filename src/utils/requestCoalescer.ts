@@ -0,0 +1,176 @@
+/**
+ * Request Coalescer - Deduplicates identical in-flight requests
+ * Concurrent GETs for the same URL share one network request; every caller gets its
+ * own clone of the response, so bodies stream rather than being buffered and opaque
+ * (no-cors) responses pass through unchanged
+ */
+
+export interface RequestCoalescingStats {
+  requests: number; // Calls made through the coalescer
+  networkRequests: number; // Requests that actually hit the network
+  coalesced: number; // Calls served by joining an in-flight request
+  inFlight: number;
+  bytesShared: number; // Body bytes (by Content-Length) handed to joined callers without refetching
+  coalescingRate: number;
+}
+
+type Fetcher = (url: string, options?: RequestInit) => Promise<Response>;
+
+interface InFlightRequest {
+  key: string;
+  promise: Promise<Response>;
+  controller: AbortController;
+  waiters: number;
+}
+
+function createAbortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+export class RequestCoalescer {
+  private inFlight: Map<string, InFlightRequest> = new Map();
+  private requests = 0;
+  private networkRequests = 0;
+  private coalesced = 0;
+  private bytesShared = 0;
+
+  /**
+   * Whether a request can safely be shared between callers
+   */
+  isCoalescable(url: string, options: RequestInit = {}): boolean {
+    const method = (options.method || 'GET').toUpperCase();
+    if (method !== 'GET' && method !== 'HEAD') return false;
+    if (options.body) return false;
+    // Local object/data URLs are free to read again
+    return !url.startsWith('blob:') && !url.startsWith('data:');
+  }
+
+  /**
+   * Requests with different headers (e.g. Range) get different responses, so they key separately
+   */
+  private getKey(url: string, options: RequestInit): string {
+    const method = (options.method || 'GET').toUpperCase();
+    const headers = Array.from(new Headers(options.headers).entries())
+      .map(([name, value]) => `${name}:${value}`)
+      .sort()
+      .join('|');
+    return `${method} ${url} ${headers}`;
+  }
+
+  /**
+   * Fetch through the coalescer. The optional fetcher performs the real request
+   * (used to keep throttling out of the shared path).
+   */
+  async fetch(url: string, options: RequestInit = {}, fetcher: Fetcher = fetch): Promise<Response> {
+    this.requests++;
+
+    if (!this.isCoalescable(url, options)) {
+      this.networkRequests++;
+      return fetcher(url, options);
+    }
+
+    const { signal, ...sharedOptions } = options;
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const key = this.getKey(url, options);
+    let request = this.inFlight.get(key);
+    const joined = !!request;
+
+    if (request) {
+      this.coalesced++;
+    } else {
+      const controller = new AbortController();
+      this.networkRequests++;
+      const promise = fetcher(url, { ...sharedOptions, signal: controller.signal })
+        .finally(() => {
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+          }
+        });
+      request = { key, promise, controller, waiters: 0 };
+      this.inFlight.set(key, request);
+    }
+
+    request.waiters++;
+    const current = request;
+
+    let response: Response;
+    try {
+      const shared = await this.waitFor(current, signal);
+      // Waiters resume one at a time; the last one takes the shared response itself,
+      // so no cloned branch is left unread holding the whole body in memory
+      response = current.waiters > 1 ? shared.clone() : shared;
+    } finally {
+      current.waiters--;
+    }
+
+    if (joined) {
+      this.bytesShared += Number(response.headers.get('content-length')) || 0;
+    }
+    return response;
+  }
+
+  /**
+   * Wait for the shared request, honouring this caller's own abort signal.
+   * The shared request is only aborted once every caller has given up.
+   */
+  private waitFor(request: InFlightRequest, signal?: AbortSignal | null): Promise<Response> {
+    if (!signal) return request.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (request.waiters <= 1) {
+          request.controller.abort();
+          // Later callers must not join an aborted request
+          if (this.inFlight.get(request.key) === request) {
+            this.inFlight.delete(request.key);
+          }
+        }
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      request.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  getStats(): RequestCoalescingStats {
+    return {
+      requests: this.requests,
+      networkRequests: this.networkRequests,
+      coalesced: this.coalesced,
+      inFlight: this.inFlight.size,
+      bytesShared: this.bytesShared,
+      coalescingRate: this.requests > 0 ? this.coalesced / this.requests : 0
+    };
+  }
+
+  resetStats(): void {
+    this.requests = 0;
+    this.networkRequests = 0;
+    this.coalesced = 0;
+    this.bytesShared = 0;
+  }
+}
+
+// Global instance shared by the renderer, content analysis and the API service
+export const requestCoalescer = new RequestCoalescer();
+
+/**
+ * Coalesced fetch wrapper
+ */
+export function coalescedFetch(url: string, options?: RequestInit): Promise<Response> {
+  return requestCoalescer.fetch(url, options);
+}
@@ -3,6 +3,8 @@
  * Implements a token bucket algorithm for rate limiting
  */
 
+import { requestCoalescer } from './requestCoalescer';
+
 export class RequestThrottler {
   private tokens: number;
   private lastRefill: number;
@@ -91,15 +93,18 @@ export const ordinalsThrottler = new RequestThrottler(2, 0.3); // 2 tokens max,
 
 /**
  * Throttled fetch wrapper for ordinals.com
+ * Identical concurrent requests are coalesced first, so joined callers don't spend tokens
  */
 export async function throttledFetch(url: string, options?: RequestInit): Promise<Response> {
-  // Only throttle ordinals.com requests
-  if (url.includes('ordinals.com')) {
-    await ordinalsThrottler.waitForToken();
-    console.log(`🚦 Making throttled request to: ${url} (${ordinalsThrottler.getTokenCount()} tokens remaining)`);
-  }
-  
-  return fetch(url, options);
+  return requestCoalescer.fetch(url, options, async (requestUrl, requestOptions) => {
+    // Only throttle ordinals.com requests
+    if (requestUrl.includes('ordinals.com')) {
+      await ordinalsThrottler.waitForToken();
+      console.log(`🚦 Making throttled request to: ${requestUrl} (${ordinalsThrottler.getTokenCount()} tokens remaining)`);
+    }
+    
+    return fetch(requestUrl, requestOptions);
+  });
 }
 
 /**
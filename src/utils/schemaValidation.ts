@@ -0,0 +1,192 @@
+/**
+ * Lightweight runtime schema validation for API responses
+ * Reports schema drift (missing, mistyped or unexpected fields) without external dependencies
+ */
+
+export type SchemaNode =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'any' }
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'array'; items: SchemaNode }
+  | { kind: 'tuple'; items: SchemaNode[] }
+  | { kind: 'record'; values: SchemaNode }
+  | { kind: 'object'; name?: string; fields: Record<string, SchemaNode> }
+  | { kind: 'optional'; inner: SchemaNode }
+  | { kind: 'nullable'; inner: SchemaNode }
+  | { kind: 'union'; options: SchemaNode[] };
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning'; // Errors make the data unusable, warnings are additive drift
+  expected?: string;
+  received?: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean; // True when there are no error-level issues
+  issues: SchemaIssue[];
+}
+
+/**
+ * Schema builders
+ */
+export const schema = {
+  string: (): SchemaNode => ({ kind: 'string' }),
+  number: (): SchemaNode => ({ kind: 'number' }),
+  boolean: (): SchemaNode => ({ kind: 'boolean' }),
+  any: (): SchemaNode => ({ kind: 'any' }),
+  literal: (value: string | number | boolean | null): SchemaNode => ({ kind: 'literal', value }),
+  array: (items: SchemaNode): SchemaNode => ({ kind: 'array', items }),
+  tuple: (...items: SchemaNode[]): SchemaNode => ({ kind: 'tuple', items }),
+  record: (values: SchemaNode): SchemaNode => ({ kind: 'record', values }),
+  object: (fields: Record<string, SchemaNode>, name?: string): SchemaNode => ({ kind: 'object', fields, name }),
+  optional: (inner: SchemaNode): SchemaNode => ({ kind: 'optional', inner }),
+  nullable: (inner: SchemaNode): SchemaNode => ({ kind: 'nullable', inner }),
+  // Field that may be absent or null, the common case for ord fields across versions
+  maybe: (inner: SchemaNode): SchemaNode => ({ kind: 'optional', inner: { kind: 'nullable', inner } }),
+  union: (...options: SchemaNode[]): SchemaNode => ({ kind: 'union', options })
+};
+
+/**
+ * Human-readable description of a schema node
+ */
+export function describeSchema(node: SchemaNode): string {
+  switch (node.kind) {
+    case 'literal': return JSON.stringify(node.value);
+    case 'array': return `${describeSchema(node.items)}[]`;
+    case 'tuple': return `[${node.items.map(describeSchema).join(', ')}]`;
+    case 'record': return `Record<string, ${describeSchema(node.values)}>`;
+    case 'object': return node.name || 'object';
+    case 'optional': return `${describeSchema(node.inner)} | undefined`;
+    case 'nullable': return `${describeSchema(node.inner)} | null`;
+    case 'union': return node.options.map(describeSchema).join(' | ');
+    default: return node.kind;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function validateNode(node: SchemaNode, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const mismatch = () => issues.push({
+    path: path || '(root)',
+    message: `Expected ${describeSchema(node)}, received ${describeValue(value)}`,
+    severity: 'error',
+    expected: describeSchema(node),
+    received: describeValue(value)
+  });
+
+  switch (node.kind) {
+    case 'any':
+      return;
+
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== node.kind || (node.kind === 'number' && Number.isNaN(value))) mismatch();
+      return;
+
+    case 'literal':
+      if (value !== node.value) mismatch();
+      return;
+
+    case 'optional':
+      if (value !== undefined) validateNode(node.inner, value, path, issues);
+      return;
+
+    case 'nullable':
+      if (value !== null) validateNode(node.inner, value, path, issues);
+      return;
+
+    case 'union': {
+      const matches = node.options.some(option => {
+        const optionIssues: SchemaIssue[] = [];
+        validateNode(option, value, path, optionIssues);
+        return !optionIssues.some(issue => issue.severity === 'error');
+      });
+      if (!matches) mismatch();
+      return;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        mismatch();
+        return;
+      }
+      value.forEach((item, index) => validateNode(node.items, item, joinPath(path, index), issues));
+      return;
+
+    case 'tuple':
+      if (!Array.isArray(value) || value.length !== node.items.length) {
+        mismatch();
+        return;
+      }
+      node.items.forEach((item, index) => validateNode(item, value[index], joinPath(path, index), issues));
+      return;
+
+    case 'record':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        mismatch();
+        return;
+      }
+      Object.entries(value).forEach(([key, entry]) => validateNode(node.values, entry, joinPath(path, key), issues));
+      return;
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        mismatch();
+        return;
+      }
+      const record = value as Record<string, unknown>;
+
+      Object.entries(node.fields).forEach(([key, fieldNode]) => {
+        const fieldPath = joinPath(path, key);
+        if (!(key in record) && fieldNode.kind !== 'optional') {
+          issues.push({
+            path: fieldPath,
+            message: `Missing required field "${key}"`,
+            severity: 'error',
+            expected: describeSchema(fieldNode),
+            received: 'undefined'
+          });
+          return;
+        }
+        validateNode(fieldNode, record[key], fieldPath, issues);
+      });
+
+      // Fields the schema does not know about indicate the API has grown
+      Object.keys(record)
+        .filter(key => !(key in node.fields))
+        .forEach(key => issues.push({
+          path: joinPath(path, key),
+          message: `Unexpected field "${key}"`,
+          severity: 'warning',
+          received: describeValue(record[key])
+        }));
+      return;
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema, collecting every issue rather than stopping at the first
+ */
+export function validateSchema(node: SchemaNode, value: unknown): SchemaValidationResult {
+  const issues: SchemaIssue[] = [];
+  validateNode(node, value, '', issues);
+  return {
+    valid: !issues.some(issue => issue.severity === 'error'),
+    issues
+  };
+}
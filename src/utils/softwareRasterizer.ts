@@ -0,0 +1,194 @@
+/**
+ * CPU triangle rasterizer for previewing 3D models where WebGL is unavailable
+ */
+
+import * as THREE from 'three';
+
+export interface RasterTriangles {
+  positions: Float32Array; // Nine floats per triangle, world space
+  colors: Float32Array; // Three floats (0-1) per triangle
+  count: number;
+}
+
+export interface RasterView {
+  width: number;
+  height: number;
+  rotationX?: number; // Radians, applied after rotationY
+  rotationY?: number;
+  zoom?: number;
+  wireframe?: boolean;
+  background?: [number, number, number, number]; // RGBA, transparent by default
+}
+
+export interface RasterImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const AMBIENT = 0.35;
+const DIFFUSE = 0.65;
+/** Toward the viewer, from the upper right */
+const LIGHT = new THREE.Vector3(0.4, 0.6, 1).normalize();
+/** Camera distance in model radii; larger flattens the perspective */
+const CAMERA_DISTANCE = 4;
+/** Share of the shorter canvas side the model fills at zoom 1 */
+const FILL = 0.9;
+const DEFAULT_COLOR = new THREE.Color(0x888888);
+
+function meshColor(material: THREE.Material | undefined): THREE.Color {
+  const color = (material as { color?: unknown } | undefined)?.color;
+  return color instanceof THREE.Color ? color : DEFAULT_COLOR;
+}
+
+/**
+ * Flatten the visible meshes under `object` into world-space triangles with
+ * one color each. Above `maxTriangles`, every nth triangle is kept so the
+ * result still covers the whole model.
+ */
+export function extractTriangles(object: THREE.Object3D, maxTriangles: number = Infinity): RasterTriangles {
+  object.updateMatrixWorld(true);
+
+  const meshes: THREE.Mesh[] = [];
+  let total = 0;
+  object.traverseVisible(child => {
+    const geometry = (child as THREE.Mesh).geometry;
+    if (!(child instanceof THREE.Mesh) || !geometry?.attributes.position) return;
+    meshes.push(child);
+    total += Math.floor((geometry.index?.count ?? geometry.attributes.position.count) / 3);
+  });
+
+  const stride = Math.max(1, Math.ceil(total / Math.max(1, maxTriangles)));
+  const count = Math.ceil(total / stride);
+  const positions = new Float32Array(count * 9);
+  const colors = new Float32Array(count * 3);
+  const vertex = new THREE.Vector3();
+  let seen = 0;
+  let written = 0;
+
+  for (const mesh of meshes) {
+    const geometry = mesh.geometry;
+    const position = geometry.attributes.position;
+    const vertexColors = geometry.attributes.color;
+    const index = geometry.index;
+    const triangles = Math.floor((index?.count ?? position.count) / 3);
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const useVertexColors = !!vertexColors && materials.some(material => material.vertexColors);
+
+    for (let triangle = 0; triangle < triangles; triangle++, seen++) {
+      if (seen % stride !== 0 || written >= count) continue;
+
+      let color = meshColor(materials[0]);
+      if (Array.isArray(mesh.material)) {
+        const group = geometry.groups.find(g => triangle * 3 >= g.start && triangle * 3 < g.start + g.count);
+        color = meshColor(materials[group?.materialIndex ?? 0]);
+      }
+      let [r, g, b] = useVertexColors ? [0, 0, 0] : [color.r, color.g, color.b];
+
+      for (let corner = 0; corner < 3; corner++) {
+        const i = index ? index.getX(triangle * 3 + corner) : triangle * 3 + corner;
+        vertex.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+        positions.set([vertex.x, vertex.y, vertex.z], written * 9 + corner * 3);
+        if (useVertexColors) {
+          r += vertexColors.getX(i) / 3;
+          g += vertexColors.getY(i) / 3;
+          b += vertexColors.getZ(i) / 3;
+        }
+      }
+      colors.set([r, g, b], written * 3);
+      written++;
+    }
+  }
+
+  return { positions, colors, count: written };
+}
+
+function drawLine(data: Uint8ClampedArray, width: number, height: number, x0: number, y0: number, x1: number, y1: number, rgb: number[]) {
+  const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0), 1);
+  for (let step = 0; step <= steps; step++) {
+    const x = Math.round(x0 + ((x1 - x0) * step) / steps);
+    const y = Math.round(y0 + ((y1 - y0) * step) / steps);
+    if (x < 0 || y < 0 || x >= width || y >= height) continue;
+    const i = (y * width + x) * 4;
+    data[i] = rgb[0];
+    data[i + 1] = rgb[1];
+    data[i + 2] = rgb[2];
+    data[i + 3] = 255;
+  }
+}
+
+/**
+ * Draw triangles with a depth buffer and two-sided Lambert shading. The model
+ * is centred and scaled to fit, then viewed through a perspective camera.
+ */
+export function rasterize(triangles: RasterTriangles, view: RasterView): RasterImage {
+  const { width, height, rotationX = 0, rotationY = 0, zoom = 1, wireframe = false, background = [0, 0, 0, 0] } = view;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(background, i);
+  if (!triangles.count || !width || !height) return { data, width, height };
+
+  const bounds = new THREE.Box3().setFromArray(triangles.positions.subarray(0, triangles.count * 9));
+  const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+  const radius = sphere.radius || 1;
+  const rotation = new THREE.Matrix4().makeRotationX(rotationX).multiply(new THREE.Matrix4().makeRotationY(rotationY));
+  const scale = (zoom * FILL * Math.min(width, height)) / (2 * radius);
+  const distance = CAMERA_DISTANCE * radius;
+  const [cx, cy] = [width / 2, height / 2];
+
+  const depth = new Float32Array(width * height).fill(-Infinity);
+  const corners = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const screen = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const edgeA = new THREE.Vector3();
+  const edgeB = new THREE.Vector3();
+
+  for (let t = 0; t < triangles.count; t++) {
+    for (let c = 0; c < 3; c++) {
+      const v = corners[c].fromArray(triangles.positions, t * 9 + c * 3).sub(sphere.center).applyMatrix4(rotation);
+      const perspective = distance / Math.max(distance - v.z, 1e-6);
+      screen[c][0] = cx + v.x * scale * perspective;
+      screen[c][1] = cy - v.y * scale * perspective;
+      screen[c][2] = v.z;
+    }
+
+    const normal = edgeA.subVectors(corners[1], corners[0]).cross(edgeB.subVectors(corners[2], corners[0])).normalize();
+    const light = AMBIENT + DIFFUSE * Math.abs(normal.dot(LIGHT));
+    const rgb = [0, 1, 2].map(i => Math.round(Math.min(1, triangles.colors[t * 3 + i] * light) * 255));
+
+    const [[x0, y0, z0], [x1, y1, z1], [x2, y2, z2]] = screen;
+    if (wireframe) {
+      drawLine(data, width, height, x0, y0, x1, y1, rgb);
+      drawLine(data, width, height, x1, y1, x2, y2, rgb);
+      drawLine(data, width, height, x2, y2, x0, y0, rgb);
+      continue;
+    }
+
+    const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+    if (Math.abs(area) < 1e-9) continue;
+    const minX = Math.max(0, Math.floor(Math.min(x0, x1, x2)));
+    const maxX = Math.min(width - 1, Math.ceil(Math.max(x0, x1, x2)));
+    const minY = Math.max(0, Math.floor(Math.min(y0, y1, y2)));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(y0, y1, y2)));
+
+    for (let y = minY; y <= maxY; y++) {
+      const py = y + 0.5;
+      for (let x = minX; x <= maxX; x++) {
+        const px = x + 0.5;
+        // Barycentric weights, all non-negative inside the triangle
+        const w0 = ((x1 - px) * (y2 - py) - (x2 - px) * (y1 - py)) / area;
+        const w1 = ((x2 - px) * (y0 - py) - (x0 - px) * (y2 - py)) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+        const z = w0 * z0 + w1 * z1 + w2 * z2;
+        const pixel = y * width + x;
+        if (z <= depth[pixel]) continue;
+        depth[pixel] = z;
+        data[pixel * 4] = rgb[0];
+        data[pixel * 4 + 1] = rgb[1];
+        data[pixel * 4 + 2] = rgb[2];
+        data[pixel * 4 + 3] = 255;
+      }
+    }
+  }
+
+  return { data, width, height };
+}
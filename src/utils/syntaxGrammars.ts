@@ -0,0 +1,1246 @@
+/**
+ * Syntax grammars
+ * Declarative per-language grammars for the syntax highlighter. Each state is an ordered
+ * list of sticky regex rules; only multi-line constructs need their own states.
+ */
+
+import type { GrammarRule, SyntaxGrammar, SyntaxTokenType } from './syntaxHighlighter';
+
+// =================
+// SHARED RULES
+// =================
+
+const SLASH_COMMENTS: GrammarRule[] = [
+  { match: /\/\/.*/, token: 'comment' },
+  { match: /\/\*/, token: 'comment', push: 'blockComment' }
+];
+
+const BLOCK_COMMENT_STATE: GrammarRule[] = [
+  { match: /\*\//, token: 'comment', pop: true },
+  { match: /[^*]+|\*/, token: 'comment' }
+];
+
+const HASH_COMMENT: GrammarRule = { match: /#.*/, token: 'comment' };
+
+const DOUBLE_STRING: GrammarRule = { match: /"(?:\\.|[^"\\])*"?/, token: 'string' };
+const SINGLE_STRING: GrammarRule = { match: /'(?:\\.|[^'\\])*'?/, token: 'string' };
+
+const NUMBER: GrammarRule = {
+  match: /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[a-zA-Z]*/,
+  token: 'number'
+};
+
+const FUNCTION_CALL: GrammarRule = { match: /[A-Za-z_$][\w$]*(?=\s*\()/, token: 'function', keywords: true };
+const CONSTANT_CASE: GrammarRule = { match: /[A-Z][A-Z\d_]+(?![\w$])/, token: 'constant', keywords: true };
+const TYPE_CASE: GrammarRule = { match: /[A-Z][\w$]*/, token: 'type', keywords: true };
+const IDENTIFIER: GrammarRule = { match: /[A-Za-z_$][\w$]*/, token: 'plain', keywords: true };
+const OPERATOR: GrammarRule = { match: /[+\-*/%=&|^~!<>?:]+/, token: 'operator' };
+const PUNCTUATION: GrammarRule = { match: /[{}()[\];,.]/, token: 'punctuation' };
+
+/** Triple-quoted string state factory (Python, Kotlin, Swift, TOML...) */
+function tripleStringState(quote: string): GrammarRule[] {
+  return [
+    { match: new RegExp(quote), token: 'string', pop: true },
+    { match: /\\./, token: 'escape' },
+    { match: /[^\\"']+|["'\\]/, token: 'string' }
+  ];
+}
+
+// =================
+// C-FAMILY
+// =================
+
+interface CLikeOptions {
+  name: string;
+  label: string;
+  aliases?: string[];
+  extensions?: string[];
+  mimeTypes?: string[];
+  keywords: string[];
+  types?: string[];
+  constants?: string[];
+  builtins?: string[];
+  rules?: GrammarRule[]; // Language-specific rules tried before the shared ones
+  states?: Record<string, GrammarRule[]>;
+  caseInsensitiveWords?: boolean;
+  preprocessor?: boolean;
+  annotations?: boolean;
+  hashComments?: boolean;
+}
+
+function cLike(options: CLikeOptions): SyntaxGrammar {
+  const root: GrammarRule[] = [
+    ...(options.rules || []),
+    ...SLASH_COMMENTS,
+    ...(options.hashComments ? [HASH_COMMENT] : []),
+    ...(options.preprocessor ? [{ match: /^\s*#\s*\w+(?:\s*<[^>]*>)?/, token: 'meta' as SyntaxTokenType }] : []),
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    ...(options.annotations ? [{ match: /@[A-Za-z_][\w.]*/, token: 'meta' as SyntaxTokenType }] : []),
+    NUMBER,
+    FUNCTION_CALL,
+    CONSTANT_CASE,
+    TYPE_CASE,
+    IDENTIFIER,
+    OPERATOR,
+    PUNCTUATION
+  ];
+
+  return {
+    name: options.name,
+    label: options.label,
+    aliases: options.aliases,
+    extensions: options.extensions,
+    mimeTypes: options.mimeTypes,
+    caseInsensitiveWords: options.caseInsensitiveWords,
+    words: {
+      keyword: options.keywords,
+      type: options.types,
+      constant: options.constants,
+      builtin: options.builtins
+    },
+    defaultTokens: { blockComment: 'comment' },
+    states: {
+      root,
+      blockComment: BLOCK_COMMENT_STATE,
+      ...(options.states || {})
+    }
+  };
+}
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'get', 'if', 'import', 'in',
+  'instanceof', 'let', 'new', 'of', 'return', 'set', 'static', 'super', 'switch', 'this', 'throw', 'try',
+  'typeof', 'var', 'void', 'while', 'with', 'yield', 'as'
+];
+const JS_CONSTANTS = ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'];
+const JS_BUILTINS = [
+  'Array', 'Boolean', 'Date', 'Error', 'JSON', 'Map', 'Math', 'Number', 'Object', 'Promise', 'Proxy',
+  'Reflect', 'RegExp', 'Set', 'String', 'Symbol', 'WeakMap', 'WeakSet', 'console', 'document', 'window',
+  'globalThis', 'require', 'module', 'exports', 'BigInt', 'Uint8Array', 'ArrayBuffer', 'fetch'
+];
+const TS_KEYWORDS = [
+  ...JS_KEYWORDS, 'abstract', 'declare', 'enum', 'implements', 'interface', 'keyof', 'namespace', 'private',
+  'protected', 'public', 'readonly', 'type', 'infer', 'is', 'satisfies', 'override', 'asserts', 'unique'
+];
+const TS_TYPES = ['any', 'boolean', 'never', 'number', 'object', 'string', 'symbol', 'unknown', 'bigint'];
+
+const JS_RULES: GrammarRule[] = [
+  { match: /`/, token: 'string', push: 'template' },
+  // Regex literals only where an expression can start
+  {
+    match: /(?<=(?:^|[(,=:[!&|?{};]|\breturn|\btypeof)\s*)\/(?![*/])(?:\\.|\[(?:\\.|[^\]\\])*\]|[^/\\[])+\/[dgimsuyv]*/,
+    token: 'regex'
+  },
+  { match: /#[A-Za-z_$][\w$]*/, token: 'variable' },
+  { match: /@[A-Za-z_$][\w$.]*/, token: 'meta' }
+];
+
+const JSX_RULES: GrammarRule[] = [
+  { match: /(?<=(?:^|[(,=:[!&|?{};>]|\breturn)\s*)<\/?[A-Za-z][\w.:-]*/, token: 'tag', push: 'jsxTag' },
+  { match: /(?<=(?:^|[(,=:[!&|?{};]|\breturn)\s*)<>|<\/>/, token: 'tag' }
+];
+
+const JS_STATES: Record<string, GrammarRule[]> = {
+  template: [
+    { match: /`/, token: 'string', pop: true },
+    { match: /\\./, token: 'escape' },
+    { match: /\$\{/, token: 'punctuation', push: 'templateExpression' },
+    { match: /[^`\\$]+|\$/, token: 'string' }
+  ],
+  templateExpression: [
+    { match: /\}/, token: 'punctuation', pop: true },
+    { match: /\{/, token: 'punctuation', push: 'templateExpression' },
+    { include: '#root' }
+  ],
+  jsxTag: [
+    { match: /\/?>/, token: 'tag', pop: true },
+    { match: /[A-Za-z_][\w:-]*/, token: 'attribute' },
+    { match: /=/, token: 'operator' },
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    { match: /\{/, token: 'punctuation', push: 'templateExpression' }
+  ]
+};
+
+// =================
+// MARKUP & STYLES
+// =================
+
+function markupGrammar(name: string, label: string, embedded: boolean, extra: Partial<SyntaxGrammar>): SyntaxGrammar {
+  const attributes: GrammarRule[] = [
+    { match: /[^\s"'>/=]+/, token: 'attribute' },
+    { match: /=/, token: 'operator' },
+    { match: /"[^"]*"?/, token: 'string' },
+    { match: /'[^']*'?/, token: 'string' }
+  ];
+
+  return {
+    name,
+    label,
+    ...extra,
+    defaultTokens: { comment: 'comment', cdata: 'string' },
+    states: {
+      root: [
+        { match: /<!--/, token: 'comment', push: 'comment' },
+        { match: /<!\[CDATA\[/, token: 'meta', push: 'cdata' },
+        { match: /<![A-Za-z][^>]*>?/, token: 'meta' },
+        { match: /<\?[\s\S]*?(?:\?>|$)/, token: 'meta' },
+        ...(embedded
+          ? [
+              { match: /<script\b/i, token: 'tag' as SyntaxTokenType, push: 'scriptTag' },
+              { match: /<style\b/i, token: 'tag' as SyntaxTokenType, push: 'styleTag' }
+            ]
+          : []),
+        { match: /<\/?[A-Za-z][\w:.-]*/, token: 'tag', push: 'tag' },
+        { match: /&(?:#\d+|#x[\da-fA-F]+|[A-Za-z]\w*);/, token: 'escape' },
+        { match: /[^<&]+/, token: 'plain' }
+      ],
+      comment: [
+        { match: /-->/, token: 'comment', pop: true },
+        { match: /[^-]+|-/, token: 'comment' }
+      ],
+      cdata: [
+        { match: /\]\]>/, token: 'meta', pop: true },
+        { match: /[^\]]+|\]/, token: 'string' }
+      ],
+      tag: [{ match: /\/?>/, token: 'tag', pop: true }, ...attributes],
+      ...(embedded
+        ? {
+            scriptTag: [{ match: /\/>/, token: 'tag', pop: true }, { match: />/, token: 'tag', pop: true, push: 'script' }, ...attributes],
+            styleTag: [{ match: />/, token: 'tag', pop: true, push: 'style' }, ...attributes],
+            script: [{ match: /<\/script\s*>/i, token: 'tag', pop: true }, { include: 'javascript' }],
+            style: [{ match: /<\/style\s*>/i, token: 'tag', pop: true }, { include: 'css' }]
+          }
+        : {})
+    }
+  };
+}
+
+function cssGrammar(name: string, label: string, extra: Partial<SyntaxGrammar>, lineComments: boolean): SyntaxGrammar {
+  const comments: GrammarRule[] = lineComments
+    ? [{ match: /\/\/.*/, token: 'comment' }, { match: /\/\*/, token: 'comment', push: 'blockComment' }]
+    : [{ match: /\/\*/, token: 'comment', push: 'blockComment' }];
+  const variables: GrammarRule[] = [
+    { match: /--[\w-]+/, token: 'variable' },
+    { match: /[$@][\w-]+/, token: 'variable' }
+  ];
+
+  return {
+    name,
+    label,
+    ...extra,
+    defaultTokens: { blockComment: 'comment' },
+    words: {
+      keyword: ['!important', 'and', 'not', 'only', 'from', 'to']
+    },
+    states: {
+      root: [
+        ...comments,
+        { match: /@[\w-]+/, token: 'keyword' },
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        { match: /\{/, token: 'punctuation', push: 'block' },
+        ...variables,
+        { match: /[.#][\w-]+/, token: 'selector' },
+        { match: /::?[\w-]+/, token: 'selector' },
+        { match: /\[[^\]]*\]?/, token: 'attribute' },
+        { match: /&|\*/, token: 'selector' },
+        { match: /[A-Za-z][\w-]*/, token: 'tag', keywords: true },
+        NUMBER,
+        { match: /[,>+~]/, token: 'operator' },
+        { match: /[();:]/, token: 'punctuation' }
+      ],
+      block: [
+        { match: /\}/, token: 'punctuation', pop: true },
+        { match: /\{/, token: 'punctuation', push: 'block' },
+        ...comments,
+        { match: /@[\w-]+/, token: 'keyword' },
+        ...variables,
+        { match: /[\w-]+(?=\s*:(?!:))/, token: 'property' },
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        { match: /#[\da-fA-F]{3,8}(?![\w-])/, token: 'number' },
+        { match: /-?(?:\d+\.?\d*|\.\d+)(?:%|[a-zA-Z]+)?/, token: 'number' },
+        { match: /!important/, token: 'keyword' },
+        { match: /[\w-]+(?=\()/, token: 'function' },
+        { match: /[.#&][\w-]+|::?[\w-]+/, token: 'selector' },
+        { match: /[A-Za-z][\w-]*/, token: 'constant' },
+        { match: /[;:,()]/, token: 'punctuation' },
+        { match: /[+*/>~=]/, token: 'operator' }
+      ],
+      blockComment: BLOCK_COMMENT_STATE
+    }
+  };
+}
+
+// =================
+// GRAMMARS
+// =================
+
+export const SYNTAX_GRAMMARS: SyntaxGrammar[] = [
+  {
+    name: 'plaintext',
+    label: 'Plain Text',
+    aliases: ['text', 'plain', 'txt'],
+    extensions: ['txt', 'text', 'log'],
+    mimeTypes: ['text/plain'],
+    states: { root: [] }
+  },
+
+  cLike({
+    name: 'javascript',
+    label: 'JavaScript',
+    aliases: ['js', 'node', 'ecmascript'],
+    extensions: ['js', 'mjs', 'cjs'],
+    mimeTypes: ['text/javascript', 'application/javascript', 'application/x-javascript', 'application/ecmascript', 'text/ecmascript'],
+    keywords: JS_KEYWORDS,
+    constants: JS_CONSTANTS,
+    builtins: JS_BUILTINS,
+    rules: JS_RULES,
+    states: JS_STATES
+  }),
+  cLike({
+    name: 'jsx',
+    label: 'JSX',
+    extensions: ['jsx'],
+    mimeTypes: ['text/jsx'],
+    keywords: JS_KEYWORDS,
+    constants: JS_CONSTANTS,
+    builtins: JS_BUILTINS,
+    rules: [...JSX_RULES, ...JS_RULES],
+    states: JS_STATES
+  }),
+  cLike({
+    name: 'typescript',
+    label: 'TypeScript',
+    aliases: ['ts'],
+    extensions: ['ts', 'mts', 'cts'],
+    mimeTypes: ['text/typescript', 'application/typescript', 'application/x-typescript'],
+    keywords: TS_KEYWORDS,
+    types: TS_TYPES,
+    constants: JS_CONSTANTS,
+    builtins: JS_BUILTINS,
+    rules: JS_RULES,
+    states: JS_STATES
+  }),
+  cLike({
+    name: 'tsx',
+    label: 'TSX',
+    extensions: ['tsx'],
+    mimeTypes: ['text/tsx'],
+    keywords: TS_KEYWORDS,
+    types: TS_TYPES,
+    constants: JS_CONSTANTS,
+    builtins: JS_BUILTINS,
+    rules: [...JSX_RULES, ...JS_RULES],
+    states: JS_STATES
+  }),
+
+  {
+    name: 'json',
+    label: 'JSON',
+    aliases: ['jsonc', 'json5'],
+    extensions: ['json', 'jsonc', 'json5', 'geojson', 'webmanifest', 'map'],
+    mimeTypes: ['application/json', 'text/json', 'application/ld+json', 'application/geo+json', 'application/manifest+json'],
+    words: { constant: ['true', 'false', 'null'] },
+    defaultTokens: { blockComment: 'comment' },
+    states: {
+      root: [
+        ...SLASH_COMMENTS,
+        { match: /"(?:\\.|[^"\\])*"(?=\s*:)/, token: 'property' },
+        DOUBLE_STRING,
+        { match: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/, token: 'number' },
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /[{}[\],:]/, token: 'punctuation' }
+      ],
+      blockComment: BLOCK_COMMENT_STATE
+    }
+  },
+
+  markupGrammar('html', 'HTML', true, {
+    aliases: ['xhtml', 'htm'],
+    extensions: ['html', 'htm', 'xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml']
+  }),
+  markupGrammar('xml', 'XML', false, {
+    aliases: ['svg', 'rss', 'atom', 'xsl'],
+    extensions: ['xml', 'svg', 'xsd', 'xsl', 'xslt', 'rss', 'atom', 'plist', 'gpx', 'kml'],
+    mimeTypes: ['text/xml', 'application/xml', 'image/svg+xml', 'application/rss+xml', 'application/atom+xml']
+  }),
+
+  cssGrammar('css', 'CSS', { extensions: ['css'], mimeTypes: ['text/css'] }, false),
+  cssGrammar('scss', 'SCSS', {
+    aliases: ['sass', 'less'],
+    extensions: ['scss', 'sass', 'less'],
+    mimeTypes: ['text/x-scss', 'text/x-sass', 'text/x-less']
+  }, true),
+
+  {
+    name: 'python',
+    label: 'Python',
+    aliases: ['py', 'python3'],
+    extensions: ['py', 'pyw', 'pyi'],
+    mimeTypes: ['text/x-python', 'text/x-python3', 'application/x-python', 'application/x-python-code'],
+    words: {
+      keyword: [
+        'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+        'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not',
+        'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'match', 'case'
+      ],
+      constant: ['True', 'False', 'None', 'self', 'cls', '__name__', '__main__'],
+      builtin: [
+        'abs', 'all', 'any', 'bool', 'bytes', 'dict', 'enumerate', 'filter', 'float', 'format', 'getattr',
+        'hasattr', 'int', 'isinstance', 'len', 'list', 'map', 'max', 'min', 'open', 'print', 'range', 'repr',
+        'reversed', 'round', 'set', 'setattr', 'sorted', 'str', 'sum', 'super', 'tuple', 'type', 'zip'
+      ]
+    },
+    states: {
+      root: [
+        HASH_COMMENT,
+        { match: /[rRbBuUfF]{0,2}"""/, token: 'string', push: 'tripleDouble' },
+        { match: /[rRbBuUfF]{0,2}'''/, token: 'string', push: 'tripleSingle' },
+        { match: /[rRbBuUfF]{1,2}(?=["'])/, token: 'string' },
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        { match: /^\s*@[\w.]+/, token: 'meta' },
+        { match: /(?<=\bdef\s+)[A-Za-z_]\w*/, token: 'function' },
+        { match: /(?<=\bclass\s+)[A-Za-z_]\w*/, token: 'type' },
+        NUMBER,
+        { match: /[A-Za-z_]\w*(?=\s*\()/, token: 'function', keywords: true },
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        OPERATOR,
+        PUNCTUATION
+      ],
+      tripleDouble: tripleStringState('"""'),
+      tripleSingle: tripleStringState("'''")
+    },
+    defaultTokens: { tripleDouble: 'string', tripleSingle: 'string' }
+  },
+
+  {
+    name: 'ruby',
+    label: 'Ruby',
+    aliases: ['rb'],
+    extensions: ['rb', 'rake', 'gemspec', 'ru', 'erb'],
+    mimeTypes: ['text/x-ruby', 'application/x-ruby'],
+    words: {
+      keyword: [
+        'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'defined?', 'do', 'else', 'elsif', 'end',
+        'ensure', 'for', 'if', 'in', 'module', 'next', 'not', 'or', 'redo', 'rescue', 'retry', 'return', 'self',
+        'super', 'then', 'undef', 'unless', 'until', 'when', 'while', 'yield', 'require', 'include', 'attr_accessor',
+        'attr_reader', 'attr_writer', 'private', 'protected', 'public'
+      ],
+      constant: ['true', 'false', 'nil']
+    },
+    defaultTokens: { blockComment: 'comment' },
+    states: {
+      root: [
+        { match: /^=begin\b.*/, token: 'comment', push: 'blockComment' },
+        HASH_COMMENT,
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        { match: /:[A-Za-z_]\w*[?!]?/, token: 'constant' },
+        { match: /@@?[A-Za-z_]\w*|\$[A-Za-z_]\w*/, token: 'variable' },
+        NUMBER,
+        { match: /(?<=\bdef\s+)(?:self\.)?[A-Za-z_]\w*[?!=]?/, token: 'function' },
+        { match: /[A-Z]\w*/, token: 'type' },
+        { match: /[a-z_]\w*[?!]?/, token: 'plain', keywords: true },
+        OPERATOR,
+        PUNCTUATION
+      ],
+      blockComment: [
+        { match: /^=end\b.*/, token: 'comment', pop: true },
+        { match: /.+/, token: 'comment' }
+      ]
+    }
+  },
+
+  {
+    name: 'perl',
+    label: 'Perl',
+    aliases: ['pl'],
+    extensions: ['pl', 'pm', 't'],
+    mimeTypes: ['text/x-perl', 'application/x-perl'],
+    words: {
+      keyword: [
+        'my', 'our', 'local', 'sub', 'if', 'elsif', 'else', 'unless', 'while', 'until', 'for', 'foreach', 'last',
+        'next', 'redo', 'return', 'use', 'no', 'require', 'package', 'and', 'or', 'not', 'eq', 'ne', 'lt', 'gt',
+        'le', 'ge', 'cmp', 'do', 'eval'
+      ],
+      builtin: ['print', 'printf', 'say', 'push', 'pop', 'shift', 'unshift', 'split', 'join', 'keys', 'values', 'die', 'warn', 'open', 'close', 'chomp', 'defined', 'scalar', 'ref', 'bless']
+    },
+    defaultTokens: { pod: 'comment' },
+    states: {
+      root: [
+        { match: /^=[a-z]+.*/, token: 'comment', push: 'pod' },
+        HASH_COMMENT,
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        { match: /[$@%][A-Za-z_]\w*|\$[\d_&`'+!@]/, token: 'variable' },
+        NUMBER,
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /=~|!~/, token: 'operator' },
+        OPERATOR,
+        PUNCTUATION
+      ],
+      pod: [
+        { match: /^=cut\b.*/, token: 'comment', pop: true },
+        { match: /.+/, token: 'comment' }
+      ]
+    }
+  },
+
+  {
+    name: 'bash',
+    label: 'Shell',
+    aliases: ['sh', 'shell', 'zsh', 'fish', 'shellscript', 'ksh'],
+    extensions: ['sh', 'bash', 'zsh', 'fish', 'ksh', 'command'],
+    mimeTypes: ['text/x-sh', 'application/x-sh', 'text/x-shellscript', 'application/x-shellscript'],
+    words: {
+      keyword: [
+        'if', 'then', 'else', 'elif', 'fi', 'case', 'esac', 'for', 'while', 'until', 'do', 'done', 'in',
+        'function', 'select', 'return', 'exit', 'local', 'export', 'readonly', 'declare', 'set', 'unset', 'shift'
+      ],
+      builtin: [
+        'echo', 'printf', 'cd', 'pwd', 'read', 'source', 'test', 'eval', 'exec', 'trap', 'alias', 'cat', 'grep',
+        'sed', 'awk', 'ls', 'rm', 'mkdir', 'cp', 'mv', 'chmod', 'curl', 'git', 'sudo'
+      ],
+      constant: ['true', 'false']
+    },
+    states: {
+      root: [
+        { match: /(?<![\w$])#.*/, token: 'comment' },
+        DOUBLE_STRING,
+        { match: /'[^']*'?/, token: 'string' },
+        { match: /\$(?:[A-Za-z_]\w*|\{[^}]*\}?|[@#?$!*\d-])/, token: 'variable' },
+        { match: /\$\(/, token: 'punctuation' },
+        { match: /(?<=\s|^)--?[\w-]+/, token: 'attribute' },
+        { match: /\d+(?![\w.])/, token: 'number' },
+        { match: /[A-Za-z_][\w-]*(?==)/, token: 'property' },
+        { match: /[A-Za-z_][\w-]*/, token: 'plain', keywords: true },
+        { match: /[|&;<>]+|[=!]/, token: 'operator' },
+        { match: /[{}()[\]]/, token: 'punctuation' }
+      ]
+    }
+  },
+
+  {
+    name: 'powershell',
+    label: 'PowerShell',
+    aliases: ['ps1', 'pwsh'],
+    extensions: ['ps1', 'psm1', 'psd1'],
+    mimeTypes: ['text/x-powershell', 'application/x-powershell'],
+    caseInsensitiveWords: true,
+    words: {
+      keyword: [
+        'begin', 'break', 'catch', 'class', 'continue', 'data', 'do', 'else', 'elseif', 'end', 'exit', 'filter',
+        'finally', 'for', 'foreach', 'function', 'if', 'in', 'param', 'process', 'return', 'switch', 'throw',
+        'trap', 'try', 'until', 'while'
+      ]
+    },
+    defaultTokens: { blockComment: 'comment' },
+    states: {
+      root: [
+        { match: /<#/, token: 'comment', push: 'blockComment' },
+        HASH_COMMENT,
+        DOUBLE_STRING,
+        { match: /'[^']*'?/, token: 'string' },
+        { match: /\$[\w:]+|\$\{[^}]*\}?/, token: 'variable' },
+        { match: /\[[\w.]+\]/, token: 'type' },
+        { match: /-[A-Za-z]+/, token: 'operator' },
+        { match: /[A-Za-z]+-[A-Za-z]+/, token: 'function' },
+        NUMBER,
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        OPERATOR,
+        PUNCTUATION
+      ],
+      blockComment: [
+        { match: /#>/, token: 'comment', pop: true },
+        { match: /[^#]+|#/, token: 'comment' }
+      ]
+    }
+  },
+
+  {
+    name: 'sql',
+    label: 'SQL',
+    aliases: ['mysql', 'postgresql', 'sqlite', 'plsql'],
+    extensions: ['sql', 'psql', 'ddl'],
+    mimeTypes: ['text/x-sql', 'application/sql', 'application/x-sql', 'text/sql'],
+    caseInsensitiveWords: true,
+    words: {
+      keyword: [
+        'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete',
+        'create', 'table', 'drop', 'alter', 'add', 'index', 'view', 'join', 'inner', 'left', 'right', 'outer',
+        'full', 'on', 'as', 'group', 'by', 'order', 'having', 'limit', 'offset', 'union', 'all', 'distinct',
+        'case', 'when', 'then', 'else', 'end', 'in', 'is', 'like', 'between', 'exists', 'primary', 'key',
+        'foreign', 'references', 'default', 'unique', 'constraint', 'asc', 'desc', 'with', 'returning',
+        'begin', 'commit', 'rollback', 'transaction', 'if', 'cascade', 'trigger', 'function', 'procedure'
+      ],
+      type: [
+        'int', 'integer', 'bigint', 'smallint', 'decimal', 'numeric', 'float', 'real', 'double', 'char',
+        'varchar', 'text', 'blob', 'boolean', 'date', 'time', 'timestamp', 'json', 'jsonb', 'uuid', 'serial'
+      ],
+      constant: ['null', 'true', 'false'],
+      builtin: ['count', 'sum', 'avg', 'min', 'max', 'coalesce', 'now', 'lower', 'upper', 'length', 'cast', 'substring']
+    },
+    defaultTokens: { blockComment: 'comment' },
+    states: {
+      root: [
+        { match: /--.*/, token: 'comment' },
+        { match: /\/\*/, token: 'comment', push: 'blockComment' },
+        { match: /'(?:''|[^'])*'?/, token: 'string' },
+        { match: /"(?:""|[^"])*"?|`[^`]*`?/, token: 'property' },
+        { match: /[@:$][\w]+/, token: 'variable' },
+        NUMBER,
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /[+\-*/%=<>!|]+/, token: 'operator' },
+        { match: /[(),;.]/, token: 'punctuation' }
+      ],
+      blockComment: BLOCK_COMMENT_STATE
+    }
+  },
+
+  cLike({
+    name: 'java',
+    label: 'Java',
+    extensions: ['java'],
+    mimeTypes: ['text/x-java', 'text/x-java-source', 'application/x-java'],
+    keywords: [
+      'abstract', 'assert', 'break', 'case', 'catch', 'class', 'continue', 'default', 'do', 'else', 'enum',
+      'extends', 'final', 'finally', 'for', 'if', 'implements', 'import', 'instanceof', 'interface', 'native',
+      'new', 'package', 'private', 'protected', 'public', 'record', 'return', 'sealed', 'static', 'super',
+      'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'var', 'volatile', 'while', 'yield'
+    ],
+    types: ['boolean', 'byte', 'char', 'double', 'float', 'int', 'long', 'short', 'void'],
+    constants: ['true', 'false', 'null'],
+    annotations: true,
+    rules: [{ match: /"""/, token: 'string', push: 'textBlock' }],
+    states: { textBlock: tripleStringState('"""') }
+  }),
+
+  cLike({
+    name: 'c',
+    label: 'C',
+    aliases: ['h'],
+    extensions: ['c', 'h'],
+    mimeTypes: ['text/x-c', 'text/x-csrc', 'text/x-chdr'],
+    keywords: [
+      'auto', 'break', 'case', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extern', 'for', 'goto',
+      'if', 'inline', 'register', 'restrict', 'return', 'sizeof', 'static', 'struct', 'switch', 'typedef',
+      'union', 'volatile', 'while'
+    ],
+    types: [
+      'char', 'double', 'float', 'int', 'long', 'short', 'signed', 'unsigned', 'void', 'bool', 'size_t',
+      'int8_t', 'int16_t', 'int32_t', 'int64_t', 'uint8_t', 'uint16_t', 'uint32_t', 'uint64_t'
+    ],
+    constants: ['true', 'false', 'NULL'],
+    preprocessor: true
+  }),
+
+  cLike({
+    name: 'cpp',
+    label: 'C++',
+    aliases: ['c++', 'cxx', 'hpp'],
+    extensions: ['cpp', 'cc', 'cxx', 'c++', 'hpp', 'hh', 'hxx', 'ino'],
+    mimeTypes: ['text/x-c++', 'text/x-c++src', 'text/x-c++hdr'],
+    keywords: [
+      'alignas', 'auto', 'break', 'case', 'catch', 'class', 'const', 'constexpr', 'const_cast', 'continue',
+      'decltype', 'default', 'delete', 'do', 'dynamic_cast', 'else', 'enum', 'explicit', 'export', 'extern',
+      'for', 'friend', 'goto', 'if', 'inline', 'mutable', 'namespace', 'new', 'noexcept', 'operator', 'override',
+      'private', 'protected', 'public', 'reinterpret_cast', 'return', 'sizeof', 'static', 'static_cast',
+      'struct', 'switch', 'template', 'this', 'throw', 'try', 'typedef', 'typename', 'union', 'using',
+      'virtual', 'volatile', 'while', 'co_await', 'co_return', 'co_yield', 'concept', 'requires'
+    ],
+    types: ['bool', 'char', 'double', 'float', 'int', 'long', 'short', 'signed', 'unsigned', 'void', 'wchar_t', 'size_t'],
+    constants: ['true', 'false', 'nullptr', 'NULL'],
+    builtins: ['std', 'cout', 'cin', 'endl', 'string', 'vector', 'map', 'unique_ptr', 'shared_ptr'],
+    preprocessor: true
+  }),
+
+  cLike({
+    name: 'objectivec',
+    label: 'Objective-C',
+    aliases: ['objc', 'objective-c'],
+    extensions: ['m', 'mm'],
+    mimeTypes: ['text/x-objectivec'],
+    keywords: [
+      'break', 'case', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extern', 'for', 'if', 'return',
+      'sizeof', 'static', 'struct', 'switch', 'typedef', 'while', 'self', 'super', 'id', 'instancetype'
+    ],
+    types: ['BOOL', 'char', 'double', 'float', 'int', 'long', 'void', 'NSInteger', 'NSUInteger', 'CGFloat'],
+    constants: ['YES', 'NO', 'nil', 'Nil', 'NULL'],
+    preprocessor: true,
+    rules: [
+      { match: /@"(?:\\.|[^"\\])*"?/, token: 'string' },
+      { match: /@[A-Za-z]+/, token: 'keyword' }
+    ]
+  }),
+
+  cLike({
+    name: 'csharp',
+    label: 'C#',
+    aliases: ['cs', 'c#'],
+    extensions: ['cs', 'csx'],
+    mimeTypes: ['text/x-csharp'],
+    keywords: [
+      'abstract', 'as', 'async', 'await', 'base', 'break', 'case', 'catch', 'checked', 'class', 'const',
+      'continue', 'default', 'delegate', 'do', 'else', 'enum', 'event', 'explicit', 'extern', 'finally',
+      'fixed', 'for', 'foreach', 'get', 'goto', 'if', 'implicit', 'in', 'init', 'interface', 'internal', 'is',
+      'lock', 'namespace', 'new', 'operator', 'out', 'override', 'params', 'private', 'protected', 'public',
+      'readonly', 'record', 'ref', 'return', 'sealed', 'set', 'sizeof', 'static', 'struct', 'switch', 'this',
+      'throw', 'try', 'typeof', 'unsafe', 'using', 'var', 'virtual', 'volatile', 'when', 'where', 'while', 'yield'
+    ],
+    types: ['bool', 'byte', 'char', 'decimal', 'double', 'dynamic', 'float', 'int', 'long', 'object', 'sbyte', 'short', 'string', 'uint', 'ulong', 'ushort', 'void'],
+    constants: ['true', 'false', 'null'],
+    preprocessor: true,
+    rules: [
+      { match: /\$?@"(?:""|[^"])*"?/, token: 'string' },
+      { match: /\$"(?:\\.|[^"\\])*"?/, token: 'string' },
+      { match: /^\s*\[[A-Za-z][\w.]*(?:\(.*\))?\]/, token: 'meta' }
+    ]
+  }),
+
+  cLike({
+    name: 'php',
+    label: 'PHP',
+    extensions: ['php', 'phtml', 'php3', 'php4', 'php5', 'phps'],
+    mimeTypes: ['text/x-php', 'application/x-php', 'application/x-httpd-php'],
+    caseInsensitiveWords: true,
+    keywords: [
+      'abstract', 'and', 'as', 'break', 'case', 'catch', 'class', 'clone', 'const', 'continue', 'declare',
+      'default', 'do', 'echo', 'else', 'elseif', 'empty', 'enum', 'extends', 'final', 'finally', 'fn', 'for',
+      'foreach', 'function', 'global', 'if', 'implements', 'include', 'include_once', 'instanceof', 'interface',
+      'isset', 'list', 'match', 'namespace', 'new', 'or', 'print', 'private', 'protected', 'public', 'readonly',
+      'require', 'require_once', 'return', 'static', 'switch', 'throw', 'trait', 'try', 'unset', 'use', 'var',
+      'while', 'yield'
+    ],
+    types: ['array', 'bool', 'callable', 'float', 'int', 'iterable', 'mixed', 'object', 'string', 'void'],
+    constants: ['true', 'false', 'null'],
+    hashComments: true,
+    rules: [
+      { match: /<\?(?:php|=)?|\?>/, token: 'meta' },
+      { match: /\$[A-Za-z_]\w*/, token: 'variable' }
+    ]
+  }),
+
+  cLike({
+    name: 'go',
+    label: 'Go',
+    aliases: ['golang'],
+    extensions: ['go'],
+    mimeTypes: ['text/x-go'],
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func',
+      'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct',
+      'switch', 'type', 'var'
+    ],
+    types: [
+      'bool', 'byte', 'complex64', 'complex128', 'error', 'float32', 'float64', 'int', 'int8', 'int16', 'int32',
+      'int64', 'rune', 'string', 'uint', 'uint8', 'uint16', 'uint32', 'uint64', 'uintptr', 'any'
+    ],
+    constants: ['true', 'false', 'nil', 'iota'],
+    builtins: ['append', 'cap', 'close', 'copy', 'delete', 'len', 'make', 'new', 'panic', 'print', 'println', 'recover'],
+    rules: [{ match: /`/, token: 'string', push: 'rawString' }],
+    states: {
+      rawString: [
+        { match: /`/, token: 'string', pop: true },
+        { match: /[^`]+/, token: 'string' }
+      ]
+    }
+  }),
+
+  cLike({
+    name: 'rust',
+    label: 'Rust',
+    aliases: ['rs'],
+    extensions: ['rs'],
+    mimeTypes: ['text/x-rust', 'text/rust'],
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn',
+      'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self',
+      'Self', 'static', 'struct', 'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while'
+    ],
+    types: [
+      'bool', 'char', 'f32', 'f64', 'i8', 'i16', 'i32', 'i64', 'i128', 'isize', 'str', 'u8', 'u16', 'u32',
+      'u64', 'u128', 'usize', 'String', 'Vec', 'Option', 'Result', 'Box'
+    ],
+    constants: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+    rules: [
+      { match: /#!?\[[^\]]*\]?/, token: 'meta' },
+      { match: /b?r#*"/, token: 'string', push: 'rawString' },
+      { match: /b?'(?:\\.|[^'\\])'/, token: 'string' },
+      { match: /'[A-Za-z_]\w*/, token: 'variable' },
+      { match: /[a-z_]\w*!/, token: 'function' }
+    ],
+    states: {
+      rawString: [
+        { match: /"#*/, token: 'string', pop: true },
+        { match: /[^"]+/, token: 'string' }
+      ]
+    }
+  }),
+
+  cLike({
+    name: 'swift',
+    label: 'Swift',
+    extensions: ['swift'],
+    mimeTypes: ['text/x-swift'],
+    keywords: [
+      'associatedtype', 'async', 'await', 'break', 'case', 'catch', 'class', 'continue', 'default', 'defer',
+      'deinit', 'do', 'else', 'enum', 'extension', 'fallthrough', 'fileprivate', 'for', 'func', 'guard', 'if',
+      'import', 'in', 'init', 'inout', 'internal', 'is', 'let', 'mutating', 'open', 'operator', 'override',
+      'private', 'protocol', 'public', 'repeat', 'rethrows', 'return', 'self', 'Self', 'some', 'static',
+      'struct', 'subscript', 'super', 'switch', 'throw', 'throws', 'try', 'typealias', 'var', 'where', 'while'
+    ],
+    types: ['Any', 'Bool', 'Character', 'Double', 'Float', 'Int', 'String', 'UInt', 'Void'],
+    constants: ['true', 'false', 'nil'],
+    annotations: true,
+    rules: [{ match: /"""/, token: 'string', push: 'multiline' }],
+    states: { multiline: tripleStringState('"""') }
+  }),
+
+  cLike({
+    name: 'kotlin',
+    label: 'Kotlin',
+    aliases: ['kt'],
+    extensions: ['kt', 'kts'],
+    mimeTypes: ['text/x-kotlin'],
+    keywords: [
+      'abstract', 'as', 'break', 'by', 'catch', 'class', 'companion', 'const', 'continue', 'data', 'do', 'else',
+      'enum', 'external', 'final', 'finally', 'for', 'fun', 'if', 'import', 'in', 'init', 'inline', 'interface',
+      'internal', 'is', 'lateinit', 'object', 'open', 'out', 'override', 'package', 'private', 'protected',
+      'public', 'reified', 'return', 'sealed', 'super', 'suspend', 'this', 'throw', 'try', 'typealias', 'val',
+      'var', 'vararg', 'when', 'where', 'while'
+    ],
+    types: ['Any', 'Boolean', 'Byte', 'Char', 'Double', 'Float', 'Int', 'Long', 'Nothing', 'Short', 'String', 'Unit'],
+    constants: ['true', 'false', 'null'],
+    annotations: true,
+    rules: [{ match: /"""/, token: 'string', push: 'rawString' }],
+    states: { rawString: tripleStringState('"""') }
+  }),
+
+  cLike({
+    name: 'scala',
+    label: 'Scala',
+    extensions: ['scala', 'sc', 'sbt'],
+    mimeTypes: ['text/x-scala'],
+    keywords: [
+      'abstract', 'case', 'catch', 'class', 'def', 'do', 'else', 'enum', 'extends', 'final', 'finally', 'for',
+      'given', 'if', 'implicit', 'import', 'lazy', 'match', 'new', 'object', 'override', 'package', 'private',
+      'protected', 'return', 'sealed', 'super', 'then', 'this', 'throw', 'trait', 'try', 'type', 'using', 'val',
+      'var', 'while', 'with', 'yield'
+    ],
+    types: ['Any', 'AnyRef', 'Boolean', 'Byte', 'Char', 'Double', 'Float', 'Int', 'Long', 'Nothing', 'Short', 'String', 'Unit'],
+    constants: ['true', 'false', 'null', 'None', 'Some', 'Nil'],
+    annotations: true,
+    rules: [{ match: /[sfr]?"""/, token: 'string', push: 'rawString' }],
+    states: { rawString: tripleStringState('"""') }
+  }),
+
+  cLike({
+    name: 'dart',
+    label: 'Dart',
+    extensions: ['dart'],
+    mimeTypes: ['application/dart', 'text/x-dart'],
+    keywords: [
+      'abstract', 'as', 'assert', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+      'default', 'do', 'else', 'enum', 'export', 'extends', 'extension', 'factory', 'final', 'finally', 'for',
+      'get', 'if', 'implements', 'import', 'in', 'is', 'late', 'library', 'mixin', 'new', 'part', 'required',
+      'return', 'set', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typedef', 'var', 'while', 'with', 'yield'
+    ],
+    types: ['bool', 'double', 'dynamic', 'int', 'num', 'void', 'String', 'List', 'Map', 'Set', 'Future', 'Stream'],
+    constants: ['true', 'false', 'null'],
+    annotations: true,
+    rules: [
+      { match: /"""|'''/, token: 'string', push: 'multiline' },
+      { match: /\$[A-Za-z_]\w*/, token: 'variable' }
+    ],
+    states: {
+      multiline: [
+        { match: /"""|'''/, token: 'string', pop: true },
+        { match: /[^"']+|["']/, token: 'string' }
+      ]
+    }
+  }),
+
+  {
+    name: 'vbnet',
+    label: 'Visual Basic',
+    aliases: ['vb', 'vba', 'vbscript'],
+    extensions: ['vb', 'vbs', 'bas', 'vba'],
+    mimeTypes: ['text/x-vb', 'text/vbscript'],
+    caseInsensitiveWords: true,
+    words: {
+      keyword: [
+        'and', 'as', 'byref', 'byval', 'call', 'case', 'catch', 'class', 'const', 'dim', 'do', 'each', 'else',
+        'elseif', 'end', 'exit', 'finally', 'for', 'function', 'get', 'if', 'imports', 'in', 'inherits', 'is',
+        'loop', 'module', 'new', 'next', 'not', 'or', 'private', 'property', 'public', 'redim', 'return',
+        'select', 'set', 'shared', 'step', 'sub', 'then', 'throw', 'to', 'try', 'until', 'using', 'wend', 'while', 'with'
+      ],
+      type: ['boolean', 'byte', 'date', 'decimal', 'double', 'integer', 'long', 'object', 'single', 'string', 'variant'],
+      constant: ['true', 'false', 'nothing', 'null', 'empty']
+    },
+    states: {
+      root: [
+        { match: /'.*|\bREM\b.*/i, token: 'comment' },
+        { match: /"(?:""|[^"])*"?/, token: 'string' },
+        { match: /^\s*#\w+.*/, token: 'meta' },
+        NUMBER,
+        { match: /[A-Za-z_]\w*(?=\s*\()/, token: 'function', keywords: true },
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /[+\-*/\\^&=<>]+/, token: 'operator' },
+        PUNCTUATION
+      ]
+    }
+  },
+
+  {
+    name: 'r',
+    label: 'R',
+    extensions: ['r', 'rmd'],
+    mimeTypes: ['text/x-r', 'text/x-rsrc', 'application/x-r'],
+    words: {
+      keyword: ['if', 'else', 'repeat', 'while', 'function', 'for', 'in', 'next', 'break', 'return', 'library', 'require'],
+      constant: ['TRUE', 'FALSE', 'NULL', 'NA', 'NaN', 'Inf', 'T', 'F']
+    },
+    states: {
+      root: [
+        HASH_COMMENT,
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        NUMBER,
+        { match: /[A-Za-z.][\w.]*(?=\s*\()/, token: 'function', keywords: true },
+        { match: /[A-Za-z.][\w.]*/, token: 'plain', keywords: true },
+        { match: /<<?-|->>?|%[^%\s]*%|[+\-*/^=<>!&|~$@:]+/, token: 'operator' },
+        { match: /[{}()[\],;]/, token: 'punctuation' }
+      ]
+    }
+  },
+
+  {
+    name: 'matlab',
+    label: 'MATLAB',
+    aliases: ['octave'],
+    extensions: ['matlab'],
+    mimeTypes: ['text/x-matlab', 'application/x-matlab'],
+    words: {
+      keyword: [
+        'break', 'case', 'catch', 'classdef', 'continue', 'else', 'elseif', 'end', 'for', 'function', 'global',
+        'if', 'otherwise', 'parfor', 'persistent', 'return', 'switch', 'try', 'while'
+      ],
+      constant: ['true', 'false', 'pi', 'eps', 'Inf', 'NaN'],
+      builtin: ['disp', 'fprintf', 'zeros', 'ones', 'size', 'length', 'plot', 'figure', 'numel', 'sum', 'max', 'min']
+    },
+    defaultTokens: { blockComment: 'comment' },
+    states: {
+      root: [
+        { match: /^\s*%\{\s*$/, token: 'comment', push: 'blockComment' },
+        { match: /%.*/, token: 'comment' },
+        DOUBLE_STRING,
+        { match: /(?<![\w)\]}.'])'[^']*'?/, token: 'string' },
+        NUMBER,
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /\.?[+\-*/\\^']|[=<>~&|]+/, token: 'operator' },
+        { match: /[{}()[\],;:]/, token: 'punctuation' }
+      ],
+      blockComment: [
+        { match: /^\s*%\}.*/, token: 'comment', pop: true },
+        { match: /.+/, token: 'comment' }
+      ]
+    }
+  },
+
+  {
+    name: 'lua',
+    label: 'Lua',
+    extensions: ['lua'],
+    mimeTypes: ['text/x-lua', 'application/x-lua'],
+    words: {
+      keyword: [
+        'and', 'break', 'do', 'else', 'elseif', 'end', 'for', 'function', 'goto', 'if', 'in', 'local', 'not',
+        'or', 'repeat', 'return', 'then', 'until', 'while'
+      ],
+      constant: ['true', 'false', 'nil'],
+      builtin: ['print', 'pairs', 'ipairs', 'require', 'type', 'tostring', 'tonumber', 'setmetatable', 'getmetatable', 'string', 'table', 'math']
+    },
+    defaultTokens: { blockComment: 'comment', longString: 'string' },
+    states: {
+      root: [
+        { match: /--\[=*\[/, token: 'comment', push: 'blockComment' },
+        { match: /--.*/, token: 'comment' },
+        { match: /\[=*\[/, token: 'string', push: 'longString' },
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        NUMBER,
+        { match: /[A-Za-z_]\w*(?=\s*[({"'])/, token: 'function', keywords: true },
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /\.\.\.?|[+\-*/%^#=<>~]+/, token: 'operator' },
+        { match: /[{}()[\];,.:]/, token: 'punctuation' }
+      ],
+      blockComment: [
+        { match: /\]=*\]/, token: 'comment', pop: true },
+        { match: /[^\]]+|\]/, token: 'comment' }
+      ],
+      longString: [
+        { match: /\]=*\]/, token: 'string', pop: true },
+        { match: /[^\]]+|\]/, token: 'string' }
+      ]
+    }
+  },
+
+  {
+    name: 'yaml',
+    label: 'YAML',
+    aliases: ['yml'],
+    extensions: ['yaml', 'yml'],
+    mimeTypes: ['text/yaml', 'text/x-yaml', 'application/yaml', 'application/x-yaml'],
+    words: { constant: ['true', 'false', 'null', 'yes', 'no', 'on', 'off', '~'] },
+    states: {
+      root: [
+        { match: /(?:^|(?<=\s))#.*/, token: 'comment' },
+        { match: /^(?:---|\.\.\.)(?=\s|$)/, token: 'meta' },
+        { match: /^\s*-(?=\s|$)/, token: 'punctuation' },
+        { match: /(?:"(?:\\.|[^"\\])*"|'[^']*'|[^\s:#'"{[][^:#]*?)(?=\s*:(?:\s|$))/, token: 'property' },
+        DOUBLE_STRING,
+        { match: /'(?:''|[^'])*'?/, token: 'string' },
+        { match: /[&*][\w-]+/, token: 'variable' },
+        { match: /!!?[\w/]*/, token: 'type' },
+        { match: /[|>][-+]?(?=\s*$)/, token: 'operator' },
+        { match: /-?(?:\d[\d_]*\.?\d*(?:[eE][+-]?\d+)?|\.inf|\.nan)(?=\s*(?:$|#|,|\]|\}))/, token: 'number' },
+        { match: /[A-Za-z~][\w-]*(?=\s*(?:$|#|,|\]|\}))/, token: 'string', keywords: true },
+        { match: /[:,[\]{}]/, token: 'punctuation' },
+        { match: /[^\s#:,[\]{}]+/, token: 'string' }
+      ]
+    }
+  },
+
+  {
+    name: 'toml',
+    label: 'TOML',
+    extensions: ['toml'],
+    mimeTypes: ['application/toml', 'text/x-toml'],
+    words: { constant: ['true', 'false', 'inf', 'nan'] },
+    defaultTokens: { basicMultiline: 'string', literalMultiline: 'string' },
+    states: {
+      root: [
+        HASH_COMMENT,
+        { match: /^\s*\[\[?[^\]]*\]\]?/, token: 'selector' },
+        { match: /(?:[\w-]+|"[^"]*"|'[^']*')(?:\s*\.\s*(?:[\w-]+|"[^"]*"|'[^']*'))*(?=\s*=)/, token: 'property' },
+        { match: /"""/, token: 'string', push: 'basicMultiline' },
+        { match: /'''/, token: 'string', push: 'literalMultiline' },
+        DOUBLE_STRING,
+        { match: /'[^']*'?/, token: 'string' },
+        { match: /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?)?/, token: 'number' },
+        NUMBER,
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /=/, token: 'operator' },
+        { match: /[[\]{},.]/, token: 'punctuation' }
+      ],
+      basicMultiline: tripleStringState('"""'),
+      literalMultiline: [
+        { match: /'''/, token: 'string', pop: true },
+        { match: /[^']+|'/, token: 'string' }
+      ]
+    }
+  },
+
+  {
+    name: 'ini',
+    label: 'INI',
+    aliases: ['cfg', 'conf', 'editorconfig', 'gitconfig'],
+    extensions: ['ini', 'cfg', 'conf', 'inf', 'editorconfig', 'gitconfig', 'desktop'],
+    mimeTypes: ['text/x-ini', 'text/ini'],
+    states: {
+      root: [
+        { match: /^\s*[;#].*/, token: 'comment' },
+        { match: /^\s*\[[^\]]*\]?/, token: 'selector' },
+        { match: /^\s*[^=:\s][^=:]*?(?=\s*[=:])/, token: 'property' },
+        { match: /[=:]/, token: 'operator' },
+        { match: /.+/, token: 'string' }
+      ]
+    }
+  },
+
+  {
+    name: 'properties',
+    label: 'Properties',
+    aliases: ['env', 'dotenv'],
+    extensions: ['properties', 'env'],
+    mimeTypes: ['text/x-java-properties'],
+    states: {
+      root: [
+        { match: /^\s*[#!].*/, token: 'comment' },
+        { match: /^\s*(?:export\s+)?(?:\\.|[^=:\s\\])+/, token: 'property' },
+        { match: /\s*[=:]\s*/, token: 'operator' },
+        { match: /\$\{[^}]*\}?/, token: 'variable' },
+        { match: /\\./, token: 'escape' },
+        { match: /[^$\\]+|[$\\]/, token: 'string' }
+      ]
+    }
+  },
+
+  {
+    name: 'dockerfile',
+    label: 'Dockerfile',
+    aliases: ['docker'],
+    extensions: ['dockerfile', 'containerfile'],
+    mimeTypes: ['text/x-dockerfile'],
+    caseInsensitiveWords: true,
+    words: { keyword: ['as'] },
+    states: {
+      root: [
+        { match: /^\s*#.*/, token: 'comment' },
+        {
+          match: /^\s*(?:FROM|RUN|CMD|LABEL|MAINTAINER|EXPOSE|ENV|ADD|COPY|ENTRYPOINT|VOLUME|USER|WORKDIR|ARG|ONBUILD|STOPSIGNAL|HEALTHCHECK|SHELL)\b/i,
+          token: 'keyword'
+        },
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        { match: /\$(?:[A-Za-z_]\w*|\{[^}]*\}?)/, token: 'variable' },
+        { match: /(?<=\s|^)--[\w-]+(?:=\S*)?/, token: 'attribute' },
+        { match: /\b\d+(?:\/(?:tcp|udp))?\b/, token: 'number' },
+        { match: /[A-Za-z_]\w*/, token: 'plain', keywords: true },
+        { match: /&&|\|\||[\\=|;]/, token: 'operator' }
+      ]
+    }
+  },
+
+  {
+    name: 'makefile',
+    label: 'Makefile',
+    aliases: ['make', 'mk'],
+    extensions: ['mk', 'mak', 'make'],
+    mimeTypes: ['text/x-makefile'],
+    words: {
+      keyword: ['ifeq', 'ifneq', 'ifdef', 'ifndef', 'else', 'endif', 'include', '-include', 'sinclude', 'define', 'endef', 'export', 'unexport', 'override', 'vpath']
+    },
+    states: {
+      root: [
+        { match: /#.*/, token: 'comment' },
+        { match: /^\s*-?include\b|^\s*(?:ifeq|ifneq|ifdef|ifndef|else|endif|define|endef|export|override|vpath)\b/, token: 'keyword' },
+        { match: /^\s*[\w.-]+(?=\s*(?:[:+?!]?=))/, token: 'property' },
+        { match: /^[^\s:#=][^:#=]*(?=:(?!=))/, token: 'function' },
+        { match: /\$\([^)]*\)?|\$\{[^}]*\}?|\$[@<^+?*%$]/, token: 'variable' },
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        { match: /[:+?!]?=|::?|\|/, token: 'operator' },
+        { match: /^\t@?/, token: 'punctuation' }
+      ]
+    }
+  },
+
+  {
+    name: 'diff',
+    label: 'Diff',
+    aliases: ['patch', 'udiff'],
+    extensions: ['diff', 'patch'],
+    mimeTypes: ['text/x-diff', 'text/x-patch'],
+    states: {
+      root: [
+        { match: /^(?:diff|index|---|\+\+\+|new file|deleted file|similarity|rename|old mode|new mode|Binary files)\b.*/, token: 'meta' },
+        { match: /^@@.*/, token: 'heading' },
+        { match: /^[+>].*/, token: 'inserted' },
+        { match: /^[-<].*/, token: 'deleted' },
+        { match: /^\\.*/, token: 'comment' },
+        { match: /.+/, token: 'plain' }
+      ]
+    }
+  },
+
+  {
+    name: 'markdown',
+    label: 'Markdown',
+    aliases: ['md', 'mdx'],
+    extensions: ['md', 'markdown', 'mdx', 'mkd'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    defaultTokens: { fence: 'string' },
+    states: {
+      root: [
+        { match: /^\s*(?:```|~~~).*/, token: 'meta', push: 'fence' },
+        { match: /^#{1,6}\s.*/, token: 'heading' },
+        { match: /^\s*>.*/, token: 'comment' },
+        { match: /^\s*(?:[-*_]\s*){3,}$/, token: 'punctuation' },
+        { match: /^\s*(?:[-*+]|\d+[.)])(?=\s)/, token: 'punctuation' },
+        { match: /`[^`]+`/, token: 'string' },
+        { match: /!?\[[^\]]*\]\([^)]*\)?|!?\[[^\]]*\]\[[^\]]*\]/, token: 'attribute' },
+        { match: /^\s*\[[^\]]+\]:.*/, token: 'attribute' },
+        { match: /(\*\*|__)(?=\S)[^*_]+?\1/, token: 'keyword' },
+        { match: /([*_])(?=\S)[^*_]+?\1/, token: 'type' },
+        { match: /<\/?[A-Za-z][^>]*>/, token: 'tag' },
+        { match: /[^`![*_<]+|./, token: 'plain' }
+      ],
+      fence: [
+        { match: /^\s*(?:```|~~~)\s*$/, token: 'meta', pop: true },
+        { match: /.+/, token: 'string' }
+      ]
+    }
+  },
+
+  {
+    name: 'latex',
+    label: 'LaTeX',
+    aliases: ['tex'],
+    extensions: ['tex', 'latex', 'sty', 'cls', 'bib'],
+    mimeTypes: ['text/x-tex', 'application/x-tex', 'application/x-latex'],
+    states: {
+      root: [
+        { match: /%.*/, token: 'comment' },
+        { match: /\\(?:begin|end)\b/, token: 'keyword' },
+        { match: /\\[A-Za-z@]+\*?|\\./, token: 'function' },
+        { match: /\$\$[^$]*\$\$|\$(?:\\.|[^$\\])*\$/, token: 'string' },
+        { match: /[{}[\]]/, token: 'punctuation' },
+        { match: /[&^_~]/, token: 'operator' },
+        { match: /[^%\\${}[\]&^_~]+/, token: 'plain' }
+      ]
+    }
+  },
+
+  {
+    name: 'csv',
+    label: 'CSV',
+    aliases: ['tsv'],
+    extensions: ['csv', 'tsv', 'tab'],
+    mimeTypes: ['text/csv', 'text/tab-separated-values', 'application/csv'],
+    states: {
+      root: [
+        { match: /"(?:""|[^"])*"?/, token: 'string' },
+        { match: /-?\d+(?:\.\d+)?(?=\s*(?:[,;\t]|$))/, token: 'number' },
+        { match: /[,;\t]/, token: 'punctuation' },
+        { match: /[^,;\t"]+/, token: 'plain' }
+      ]
+    }
+  },
+
+  {
+    name: 'protobuf',
+    label: 'Protocol Buffers',
+    aliases: ['proto'],
+    extensions: ['proto'],
+    mimeTypes: ['application/x-protobuf', 'text/x-protobuf'],
+    words: {
+      keyword: [
+        'syntax', 'package', 'import', 'option', 'message', 'enum', 'service', 'rpc', 'returns', 'repeated',
+        'optional', 'required', 'oneof', 'map', 'reserved', 'extend', 'stream', 'public'
+      ],
+      type: ['double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64', 'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes'],
+      constant: ['true', 'false']
+    },
+    defaultTokens: { blockComment: 'comment' },
+    states: {
+      root: [
+        ...SLASH_COMMENTS,
+        DOUBLE_STRING,
+        SINGLE_STRING,
+        NUMBER,
+        TYPE_CASE,
+        IDENTIFIER,
+        { match: /=/, token: 'operator' },
+        { match: /[{}()[\];,.<>]/, token: 'punctuation' }
+      ],
+      blockComment: BLOCK_COMMENT_STATE
+    }
+  }
+];
@@ -0,0 +1,615 @@
+/**
+ * Syntax highlighter
+ * A line-based state machine tokenizer driven by declarative per-language grammars.
+ * Tokenization state is carried from line to line, so multi-line constructs (block
+ * comments, template strings, embedded <script>/<style>) are handled, edits only
+ * re-tokenize from the first changed line, and large files can be tokenized in a
+ * worker using the exact same engine.
+ */
+
+import { SYNTAX_GRAMMARS } from './syntaxGrammars';
+
+// =================
+// TYPES
+// =================
+
+export type SyntaxTokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'escape'
+  | 'comment'
+  | 'number'
+  | 'constant'
+  | 'property'
+  | 'attribute'
+  | 'tag'
+  | 'selector'
+  | 'operator'
+  | 'punctuation'
+  | 'function'
+  | 'type'
+  | 'variable'
+  | 'builtin'
+  | 'regex'
+  | 'meta'
+  | 'heading'
+  | 'inserted'
+  | 'deleted';
+
+export interface SyntaxToken {
+  type: SyntaxTokenType;
+  value: string;
+}
+
+/**
+ * One grammar rule. Rules of the current state are tried in order at each position.
+ * - push: enter a state of this grammar ('comment') or another grammar ('css:root')
+ * - pop: return to the previous state (pop + push replaces the current state)
+ * - include: splice in the rules of '#state', another grammar's root ('javascript') or 'lang:state'
+ * - keywords: look the matched text up in the grammar's word lists before using `token`
+ */
+export interface GrammarRule {
+  match?: RegExp;
+  token?: SyntaxTokenType;
+  keywords?: boolean;
+  push?: string;
+  pop?: boolean;
+  include?: string;
+}
+
+export interface SyntaxGrammar {
+  name: string;
+  label?: string;
+  aliases?: string[];
+  extensions?: string[];
+  mimeTypes?: string[];
+  caseInsensitiveWords?: boolean;
+  words?: Partial<Record<SyntaxTokenType, string[]>>;
+  defaultTokens?: Record<string, SyntaxTokenType>; // Token for unmatched characters, per state
+  states: Record<string, GrammarRule[]>; // Must contain 'root'
+}
+
+export interface SerializedRule {
+  source?: string;
+  flags?: string;
+  token?: SyntaxTokenType;
+  keywords?: boolean;
+  push?: string;
+  pop?: boolean;
+  include?: string;
+}
+
+/** Plain-data grammar form shared with the worker */
+export interface SerializedGrammar {
+  name: string;
+  caseInsensitiveWords?: boolean;
+  words: Record<string, SyntaxTokenType>;
+  defaultTokens: Record<string, SyntaxTokenType>;
+  states: Record<string, SerializedRule[]>;
+}
+
+/** State stack at the end of a line, e.g. ['html:root', 'javascript:blockComment'] */
+export type TokenizerState = string[];
+
+export interface LineTokenizeResult {
+  tokens: SyntaxToken[];
+  state: TokenizerState;
+}
+
+export interface SyntaxTokenizerEngine {
+  tokenizeLine(line: string, language: string, state?: TokenizerState | null): LineTokenizeResult;
+  tokenizeLines(lines: string[], language: string, state?: TokenizerState | null): SyntaxToken[][];
+}
+
+// =================
+// ENGINE
+// =================
+
+/**
+ * Builds a tokenizer over serialized grammars. This function must stay self-contained
+ * (no references to module scope): its source is also used to build the worker.
+ */
+export function createTokenizerEngine(grammars: Record<string, SerializedGrammar>): SyntaxTokenizerEngine {
+  interface CompiledRule {
+    regex: RegExp | null;
+    token?: SyntaxTokenType;
+    keywords?: boolean;
+    push?: string;
+    pop?: boolean;
+    language: string;
+  }
+
+  const MAX_INCLUDE_DEPTH = 16;
+  const compiled: Record<string, CompiledRule[]> = {};
+
+  const splitState = (qualified: string): [string, string] => {
+    const index = qualified.indexOf(':');
+    return [qualified.slice(0, index), qualified.slice(index + 1)];
+  };
+
+  const qualifyPush = (ref: string, language: string): string =>
+    ref.includes(':') ? ref : `${language}:${ref}`;
+
+  const qualifyInclude = (ref: string, language: string): string => {
+    if (ref.charAt(0) === '#') return `${language}:${ref.slice(1)}`;
+    return ref.includes(':') ? ref : `${ref}:root`;
+  };
+
+  const compileState = (qualified: string, depth: number = 0): CompiledRule[] => {
+    if (depth === 0 && compiled[qualified]) return compiled[qualified];
+
+    const [language, stateName] = splitState(qualified);
+    const rules = grammars[language]?.states[stateName] || [];
+    const result: CompiledRule[] = [];
+
+    rules.forEach(rule => {
+      if (rule.include) {
+        if (depth < MAX_INCLUDE_DEPTH) {
+          result.push(...compileState(qualifyInclude(rule.include, language), depth + 1));
+        }
+        return;
+      }
+      let regex: RegExp | null = null;
+      if (rule.source !== undefined) {
+        const flags = (rule.flags || '').replace(/[gy]/g, '') + 'y';
+        regex = new RegExp(rule.source, flags);
+      }
+      result.push({
+        regex,
+        token: rule.token,
+        keywords: rule.keywords,
+        push: rule.push ? qualifyPush(rule.push, language) : undefined,
+        pop: rule.pop,
+        language
+      });
+    });
+
+    if (depth === 0) compiled[qualified] = result;
+    return result;
+  };
+
+  const defaultToken = (qualified: string): SyntaxTokenType => {
+    const [language, stateName] = splitState(qualified);
+    return grammars[language]?.defaultTokens[stateName] || 'plain';
+  };
+
+  const lookupWord = (language: string, word: string): SyntaxTokenType | undefined => {
+    const grammar = grammars[language];
+    if (!grammar) return undefined;
+    return grammar.words[grammar.caseInsensitiveWords ? word.toLowerCase() : word];
+  };
+
+  const tokenizeLine = (line: string, language: string, state?: TokenizerState | null): LineTokenizeResult => {
+    const stack = state && state.length > 0 ? state.slice() : [`${language}:root`];
+    const tokens: SyntaxToken[] = [];
+    const emit = (type: SyntaxTokenType, value: string) => {
+      if (!value) return;
+      const last = tokens[tokens.length - 1];
+      if (last && last.type === type) {
+        last.value += value;
+      } else {
+        tokens.push({ type, value });
+      }
+    };
+
+    let position = 0;
+    let steps = 0;
+    const maxSteps = line.length * 4 + 64; // Guards against zero-length push/pop loops
+
+    while (position < line.length) {
+      if (++steps > maxSteps) {
+        emit(defaultToken(stack[stack.length - 1]), line.slice(position));
+        break;
+      }
+
+      const current = stack[stack.length - 1];
+      const rules = compileState(current);
+      let matched = false;
+
+      for (const rule of rules) {
+        if (!rule.regex) continue;
+        rule.regex.lastIndex = position;
+        const match = rule.regex.exec(line);
+        if (!match) continue;
+
+        const text = match[0];
+        if (!text && !rule.push && !rule.pop) continue;
+
+        let type = rule.token || defaultToken(current);
+        if (rule.keywords && text) {
+          type = lookupWord(rule.language, text) || type;
+        }
+        emit(type, text);
+        position += text.length;
+
+        if (rule.pop && stack.length > 1) stack.pop();
+        if (rule.push) stack.push(rule.push);
+        matched = true;
+        break;
+      }
+
+      if (!matched) {
+        emit(defaultToken(current), line.charAt(position));
+        position++;
+      }
+    }
+
+    return { tokens, state: stack };
+  };
+
+  const tokenizeLines = (lines: string[], language: string, state?: TokenizerState | null): SyntaxToken[][] => {
+    let current = state || null;
+    return lines.map(line => {
+      const result = tokenizeLine(line, language, current);
+      current = result.state;
+      return result.tokens;
+    });
+  };
+
+  return { tokenizeLine, tokenizeLines };
+}
+
+// =================
+// GRAMMAR REGISTRY
+// =================
+
+const grammarRegistry: Map<string, SyntaxGrammar> = new Map();
+const aliasIndex: Map<string, string> = new Map();
+const extensionIndex: Map<string, string> = new Map();
+const mimeTypeIndex: Map<string, string> = new Map();
+let serializedCache: Record<string, SerializedGrammar> | null = null;
+let sharedEngine: SyntaxTokenizerEngine | null = null;
+let grammarVersion = 0;
+
+export function serializeGrammar(grammar: SyntaxGrammar): SerializedGrammar {
+  const words: Record<string, SyntaxTokenType> = {};
+  Object.entries(grammar.words || {}).forEach(([type, list]) => {
+    (list || []).forEach(word => {
+      words[grammar.caseInsensitiveWords ? word.toLowerCase() : word] = type as SyntaxTokenType;
+    });
+  });
+
+  const states: Record<string, SerializedRule[]> = {};
+  Object.entries(grammar.states).forEach(([name, rules]) => {
+    states[name] = rules.map(rule => ({
+      source: rule.match?.source,
+      flags: rule.match?.flags,
+      token: rule.token,
+      keywords: rule.keywords,
+      push: rule.push,
+      pop: rule.pop,
+      include: rule.include
+    }));
+  });
+
+  return {
+    name: grammar.name,
+    caseInsensitiveWords: grammar.caseInsensitiveWords,
+    words,
+    defaultTokens: grammar.defaultTokens || {},
+    states
+  };
+}
+
+/**
+ * Register (or replace) a grammar. Names, aliases, extensions and MIME types become resolvable.
+ */
+export function registerGrammar(grammar: SyntaxGrammar): void {
+  const name = grammar.name.toLowerCase();
+  grammarRegistry.set(name, grammar);
+  aliasIndex.set(name, name);
+  (grammar.aliases || []).forEach(alias => aliasIndex.set(alias.toLowerCase(), name));
+  (grammar.extensions || []).forEach(extension => extensionIndex.set(extension.toLowerCase(), name));
+  (grammar.mimeTypes || []).forEach(mimeType => mimeTypeIndex.set(mimeType.toLowerCase(), name));
+  serializedCache = null;
+  sharedEngine = null;
+  grammarVersion++;
+}
+
+SYNTAX_GRAMMARS.forEach(registerGrammar);
+
+export function getGrammar(language: string): SyntaxGrammar | undefined {
+  const name = aliasIndex.get(language.toLowerCase());
+  return name ? grammarRegistry.get(name) : undefined;
+}
+
+export function getSupportedLanguages(): Array<{ name: string; label: string; extensions: string[] }> {
+  return Array.from(grammarRegistry.values()).map(grammar => ({
+    name: grammar.name,
+    label: grammar.label || grammar.name,
+    extensions: grammar.extensions || []
+  }));
+}
+
+export function getSerializedGrammars(): Record<string, SerializedGrammar> {
+  if (!serializedCache) {
+    serializedCache = {};
+    grammarRegistry.forEach((grammar, name) => {
+      serializedCache![name] = serializeGrammar(grammar);
+    });
+  }
+  return serializedCache;
+}
+
+function getEngine(): SyntaxTokenizerEngine {
+  if (!sharedEngine) {
+    sharedEngine = createTokenizerEngine(getSerializedGrammars());
+  }
+  return sharedEngine;
+}
+
+export interface LanguageHints {
+  language?: string;
+  fileExtension?: string;
+  mimeType?: string;
+  content?: string;
+}
+
+/**
+ * Pick a grammar from an explicit language, file extension, MIME type or the content itself
+ */
+export function resolveLanguage(hints: LanguageHints): string {
+  const { language, fileExtension, mimeType, content } = hints;
+
+  if (language) {
+    const name = aliasIndex.get(language.toLowerCase());
+    if (name) return name;
+  }
+
+  if (fileExtension) {
+    const name = extensionIndex.get(fileExtension.toLowerCase().replace(/^\./, ''));
+    if (name) return name;
+  }
+
+  if (mimeType) {
+    const name = mimeTypeIndex.get(mimeType.split(';')[0].trim().toLowerCase());
+    if (name) return name;
+  }
+
+  if (content) {
+    const firstLine = content.slice(0, content.indexOf('\n') >>> 0).trim();
+    if (firstLine.startsWith('#!')) {
+      if (/python/.test(firstLine)) return 'python';
+      if (/node|deno|bun/.test(firstLine)) return 'javascript';
+      if (/ruby/.test(firstLine)) return 'ruby';
+      if (/perl/.test(firstLine)) return 'perl';
+      if (/pwsh|powershell/.test(firstLine)) return 'powershell';
+      if (/\b(?:ba|z|da|fi)?sh\b/.test(firstLine)) return 'bash';
+    }
+    if (/^<\?xml/.test(firstLine)) return 'xml';
+    if (/<!DOCTYPE html|<html[\s>]/i.test(content)) return 'html';
+    if (/^\s*[{[]/.test(content) && /^[\s{}[\]",:\w.+-]*$/.test(content.slice(0, 2000))) return 'json';
+    if (/^(?:diff --git|--- |\+\+\+ |@@ )/m.test(content) && /^@@ .* @@/m.test(content)) return 'diff';
+    if (/\bdef \w+\(.*\):/.test(content) || /^\s*(?:from \S+ )?import \w+/m.test(content) && /:\s*$/m.test(content)) return 'python';
+    if (/\b(?:function|const|let|=>)\b/.test(content) && /[{;]/.test(content)) return 'javascript';
+    if (/\bSELECT\b[\s\S]*\bFROM\b/i.test(content)) return 'sql';
+  }
+
+  return 'plaintext';
+}
+
+// =================
+// TOKENIZATION
+// =================
+
+/**
+ * Tokenize a single line given the state at the end of the previous line
+ */
+export function tokenizeLine(line: string, language: string, state?: TokenizerState | null): LineTokenizeResult {
+  return getEngine().tokenizeLine(line, resolveLanguage({ language }), state);
+}
+
+/**
+ * Tokenize a whole document synchronously, one token array per line
+ */
+export function tokenize(text: string, language: string): SyntaxToken[][] {
+  const lines = text.split('\n');
+  const name = resolveLanguage({ language });
+  if (name === 'plaintext') {
+    return lines.map(line => (line ? [{ type: 'plain' as SyntaxTokenType, value: line }] : []));
+  }
+  return getEngine().tokenizeLines(lines, name);
+}
+
+/**
+ * Keeps per-line tokens and end states so an edited document only re-tokenizes from the
+ * first changed line, stopping as soon as the state converges with the previous pass
+ */
+export class IncrementalTokenizer {
+  private lines: string[] = [];
+  private tokens: SyntaxToken[][] = [];
+  private states: TokenizerState[] = [];
+  private language: string;
+
+  constructor(language: string, text: string = '') {
+    this.language = resolveLanguage({ language });
+    if (text) this.update(text);
+  }
+
+  /**
+   * Replace the document text. Returns the index of the first re-tokenized line.
+   */
+  update(text: string): number {
+    const nextLines = text.split('\n');
+    let start = 0;
+    while (start < this.lines.length && start < nextLines.length && this.lines[start] === nextLines[start]) {
+      start++;
+    }
+
+    const engine = getEngine();
+    const previousLines = this.lines;
+    const previousStates = this.states;
+    const offset = nextLines.length - previousLines.length;
+    const tokens = this.tokens.slice(0, start);
+    const states = this.states.slice(0, start);
+    let state: TokenizerState | null = start > 0 ? states[start - 1] : null;
+
+    for (let i = start; i < nextLines.length; i++) {
+      const oldIndex = i - offset;
+      // Unchanged tail line entered with the same state: reuse everything after it
+      if (
+        i > start &&
+        oldIndex >= 0 &&
+        oldIndex < previousLines.length &&
+        previousLines[oldIndex] === nextLines[i] &&
+        sameState(previousStates[oldIndex - 1], state)
+      ) {
+        tokens.push(...this.tokens.slice(oldIndex));
+        states.push(...previousStates.slice(oldIndex));
+        break;
+      }
+      const result = engine.tokenizeLine(nextLines[i], this.language, state);
+      tokens.push(result.tokens);
+      states.push(result.state);
+      state = result.state;
+    }
+
+    this.lines = nextLines;
+    this.tokens = tokens;
+    this.states = states;
+    return start;
+  }
+
+  getTokens(): SyntaxToken[][] {
+    return this.tokens;
+  }
+
+  getLanguage(): string {
+    return this.language;
+  }
+}
+
+function sameState(a: TokenizerState | null | undefined, b: TokenizerState | null | undefined): boolean {
+  const left = a || [];
+  const right = b || [];
+  return left.length === right.length && left.every((entry, index) => entry === right[index]);
+}
+
+// =================
+// OFF-MAIN-THREAD TOKENIZATION
+// =================
+
+export interface TokenizeAsyncOptions {
+  workerThreshold?: number; // Use a worker at or above this many characters (default 100KB)
+  chunkSize?: number; // Lines per main-thread slice when no worker is available
+  signal?: AbortSignal;
+}
+
+interface WorkerRequest {
+  resolve: (tokens: SyntaxToken[][]) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let workerGrammarVersion = -1;
+let nextRequestId = 1;
+const pendingRequests: Map<number, WorkerRequest> = new Map();
+
+function getWorker(): Worker | null {
+  if (workerFailed || typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL === 'undefined') {
+    return null;
+  }
+  if (worker) return worker;
+
+  try {
+    const source = `
+      const createTokenizerEngine = ${createTokenizerEngine.toString()};
+      let engine = null;
+      self.onmessage = (event) => {
+        const { id, grammars, text, language } = event.data;
+        try {
+          if (grammars) engine = createTokenizerEngine(grammars);
+          const tokens = engine.tokenizeLines(text.split('\\n'), language);
+          self.postMessage({ id, tokens });
+        } catch (error) {
+          self.postMessage({ id, error: String(error && error.message || error) });
+        }
+      };
+    `;
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    worker = new Worker(url);
+    URL.revokeObjectURL(url);
+
+    worker.onmessage = (event: MessageEvent<{ id: number; tokens?: SyntaxToken[][]; error?: string }>) => {
+      const request = pendingRequests.get(event.data.id);
+      if (!request) return;
+      pendingRequests.delete(event.data.id);
+      if (event.data.error) {
+        request.reject(new Error(event.data.error));
+      } else {
+        request.resolve(event.data.tokens || []);
+      }
+    };
+    worker.onerror = (event) => {
+      // CSP or bundling can break blob workers; fall back to the main thread for good
+      console.warn('⚠️ Syntax highlighting worker failed, using main thread:', event.message);
+      event.preventDefault?.();
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pendingRequests.forEach(request => request.reject(new Error('Worker failed')));
+      pendingRequests.clear();
+    };
+    workerGrammarVersion = -1;
+    return worker;
+  } catch (error) {
+    console.warn('⚠️ Syntax highlighting worker unavailable, using main thread:', error);
+    workerFailed = true;
+    return null;
+  }
+}
+
+function tokenizeInWorker(activeWorker: Worker, text: string, language: string): Promise<SyntaxToken[][]> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    const grammars = workerGrammarVersion === grammarVersion ? undefined : getSerializedGrammars();
+    workerGrammarVersion = grammarVersion;
+    activeWorker.postMessage({ id, grammars, text, language });
+  });
+}
+
+async function tokenizeInChunks(text: string, language: string, chunkSize: number, signal?: AbortSignal): Promise<SyntaxToken[][]> {
+  const engine = getEngine();
+  const lines = text.split('\n');
+  const result: SyntaxToken[][] = [];
+  let state: TokenizerState | null = null;
+
+  for (let start = 0; start < lines.length; start += chunkSize) {
+    if (signal?.aborted) throw new Error('Tokenization aborted');
+    for (let i = start; i < Math.min(start + chunkSize, lines.length); i++) {
+      const line = engine.tokenizeLine(lines[i], language, state);
+      result.push(line.tokens);
+      state = line.state;
+    }
+    // Yield so the UI stays responsive between slices
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return result;
+}
+
+/**
+ * Tokenize without blocking the UI: small documents synchronously, large ones in a
+ * worker, or in yielding slices when workers are unavailable
+ */
+export async function tokenizeAsync(text: string, language: string, options: TokenizeAsyncOptions = {}): Promise<SyntaxToken[][]> {
+  const { workerThreshold = 100 * 1024, chunkSize = 500, signal } = options;
+  const name = resolveLanguage({ language });
+
+  if (name === 'plaintext' || text.length < workerThreshold) {
+    return tokenize(text, name);
+  }
+
+  const activeWorker = getWorker();
+  if (activeWorker) {
+    try {
+      return await tokenizeInWorker(activeWorker, text, name);
+    } catch (error) {
+      console.warn('⚠️ Worker tokenization failed, retrying on main thread:', error);
+    }
+  }
+
+  return tokenizeInChunks(text, name, chunkSize, signal);
+}
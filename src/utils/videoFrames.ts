@@ -0,0 +1,66 @@
+/**
+ * Frame timing and poster selection helpers for the video renderer
+ */
+
+export interface FrameScore {
+  brightness: number; // Mean luma, 0-255
+  contrast: number; // Luma standard deviation
+}
+
+/** Frames darker or flatter than this look like fade-ins or title cards */
+const MIN_POSTER_BRIGHTNESS = 24;
+const MIN_POSTER_CONTRAST = 12;
+
+/** Poster candidates as a fraction of the duration, each capped at a time in seconds */
+const POSTER_CANDIDATES: Array<[number, number]> = [[0.1, 5], [0.25, 15], [0.5, 30], [0.75, 60]];
+
+/**
+ * Mean and spread of luma (BT.601) over RGBA pixel data
+ */
+export function scoreFrame(data: Uint8ClampedArray): FrameScore {
+  const pixels = data.length / 4;
+  if (!pixels) return { brightness: 0, contrast: 0 };
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    sum += luma;
+    sumSquares += luma * luma;
+  }
+  const brightness = sum / pixels;
+  return { brightness, contrast: Math.sqrt(Math.max(0, sumSquares / pixels - brightness * brightness)) };
+}
+
+/**
+ * True when a frame is bright and detailed enough to stand for the video
+ */
+export function isUsablePoster(score: FrameScore): boolean {
+  return score.brightness >= MIN_POSTER_BRIGHTNESS && score.contrast >= MIN_POSTER_CONTRAST;
+}
+
+/**
+ * Times to try, in order, when looking for a poster frame. Early candidates
+ * are preferred, but the very start is skipped because it is often black.
+ */
+export function posterCandidateTimes(duration: number): number[] {
+  if (!Number.isFinite(duration) || duration <= 0) return [0];
+  return POSTER_CANDIDATES.map(([fraction, latest]) => Math.min(duration * fraction, latest));
+}
+
+/**
+ * Evenly spaced thumbnail times, each in the middle of its slice of the video
+ */
+export function thumbnailTimes(duration: number, count: number): number[] {
+  if (!Number.isFinite(duration) || duration <= 0 || count <= 0) return [];
+  return Array.from({ length: count }, (_, i) => ((i + 0.5) * duration) / count);
+}
+
+/**
+ * Time of the frame `steps` frames away, snapped to the frame grid
+ */
+export function stepFrameTime(time: number, steps: number, frameRate: number, duration: number): number {
+  const frame = Math.floor(time * frameRate + 1e-6) + steps;
+  // Aim for the middle of the frame so rounding in the decoder lands on it
+  const target = (frame + 0.5) / frameRate;
+  return Math.max(0, Math.min(duration || target, target));
+}
@@ -0,0 +1,351 @@
+/**
+ * Container metadata for MP4/MOV (ISO BMFF) and WebM/Matroska files: codecs,
+ * duration, bitrate, dimensions and frame rate
+ */
+
+export interface VideoTrackInfo {
+  kind: 'video' | 'audio' | 'other';
+  codec: string; // Codec identifier as stored, e.g. avc1.64001f, V_VP9, A_OPUS
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+export interface VideoMetadata {
+  container: 'mp4' | 'webm' | 'matroska';
+  brand?: string; // MP4 major brand
+  duration?: number; // Seconds
+  bitrate?: number; // Bits per second over the whole file
+  tracks: VideoTrackInfo[];
+}
+
+// =================
+// Byte helpers
+// =================
+
+const latin1 = new TextDecoder('latin1');
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  latin1.decode(bytes.subarray(offset, offset + length));
+
+const u16 = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+
+const u32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const u64 = (bytes: Uint8Array, offset: number) => u32(bytes, offset) * 2 ** 32 + u32(bytes, offset + 4);
+
+const hex2 = (value: number) => value.toString(16).padStart(2, '0');
+
+// =================
+// MP4
+// =================
+
+interface Mp4Box {
+  type: string;
+  start: number; // Payload start
+  end: number;
+}
+
+/** Child boxes of the byte range [start, end) */
+function mp4Boxes(bytes: Uint8Array, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = u32(bytes, offset);
+    let header = 8;
+    if (size === 1) {
+      size = u64(bytes, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset; // Extends to the end of the parent
+    }
+    if (size < header) break;
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + header, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+const child = (bytes: Uint8Array, box: Mp4Box | undefined, type: string) =>
+  box ? mp4Boxes(bytes, box.start, box.end).find(entry => entry.type === type) : undefined;
+
+/** Timescale and duration from an mvhd or mdhd box */
+function mp4Timing(bytes: Uint8Array, box: Mp4Box): { timescale: number, duration: number } {
+  const version = bytes[box.start];
+  return version === 1
+    ? { timescale: u32(bytes, box.start + 20), duration: u64(bytes, box.start + 24) }
+    : { timescale: u32(bytes, box.start + 12), duration: u32(bytes, box.start + 16) };
+}
+
+/** Codec string from the first sample description, with the H.264 profile and level when present */
+function mp4Codec(bytes: Uint8Array, entry: Mp4Box, headerSize: number): string {
+  const avcC = mp4Boxes(bytes, entry.start + headerSize, entry.end).find(box => box.type === 'avcC');
+  if (avcC && avcC.end - avcC.start >= 4) {
+    return `${entry.type}.${hex2(bytes[avcC.start + 1])}${hex2(bytes[avcC.start + 2])}${hex2(bytes[avcC.start + 3])}`;
+  }
+  return entry.type;
+}
+
+function parseMp4Track(bytes: Uint8Array, trak: Mp4Box): VideoTrackInfo | null {
+  const mdia = child(bytes, trak, 'mdia');
+  const hdlr = child(bytes, mdia, 'hdlr');
+  const mdhd = child(bytes, mdia, 'mdhd');
+  const stbl = child(bytes, child(bytes, mdia, 'minf'), 'stbl');
+  const stsd = child(bytes, stbl, 'stsd');
+  if (!hdlr || !stsd) return null;
+
+  const handler = ascii(bytes, hdlr.start + 8, 4);
+  const kind = handler === 'vide' ? 'video' : handler === 'soun' ? 'audio' : 'other';
+  // stsd: version/flags and entry count, then sample entries
+  const entry = mp4Boxes(bytes, stsd.start + 8, stsd.end)[0];
+  if (!entry) return null;
+
+  if (kind === 'video') {
+    const track: VideoTrackInfo = {
+      kind,
+      codec: mp4Codec(bytes, entry, 78), // Visual sample entry fields before child boxes
+      width: u16(bytes, entry.start + 24),
+      height: u16(bytes, entry.start + 26)
+    };
+    const stts = child(bytes, stbl, 'stts');
+    if (stts && mdhd) {
+      const { timescale, duration } = mp4Timing(bytes, mdhd);
+      let samples = 0;
+      const count = u32(bytes, stts.start + 4);
+      for (let i = 0; i < count && stts.start + 16 + i * 8 <= stts.end; i++) {
+        samples += u32(bytes, stts.start + 8 + i * 8);
+      }
+      if (duration && timescale) track.frameRate = samples / (duration / timescale);
+    }
+    return track;
+  }
+
+  if (kind === 'audio') {
+    return {
+      kind,
+      codec: entry.type,
+      channels: u16(bytes, entry.start + 16),
+      sampleRate: u16(bytes, entry.start + 24) // Integer part of the 16.16 rate
+    };
+  }
+
+  return { kind, codec: entry.type };
+}
+
+/**
+ * Read the ftyp and moov boxes of an MP4/MOV file
+ */
+export function parseMp4Metadata(bytes: Uint8Array): VideoMetadata | null {
+  const top = mp4Boxes(bytes, 0, bytes.length);
+  const ftyp = top.find(box => box.type === 'ftyp');
+  const moov = top.find(box => box.type === 'moov');
+  if (!ftyp && !moov) return null;
+
+  const metadata: VideoMetadata = {
+    container: 'mp4',
+    brand: ftyp ? ascii(bytes, ftyp.start, 4).trim() : undefined,
+    tracks: []
+  };
+  if (!moov) return metadata;
+
+  const mvhd = child(bytes, moov, 'mvhd');
+  if (mvhd) {
+    const { timescale, duration } = mp4Timing(bytes, mvhd);
+    // Fragmented files leave the movie duration at zero
+    if (timescale && duration) metadata.duration = duration / timescale;
+  }
+  mp4Boxes(bytes, moov.start, moov.end)
+    .filter(box => box.type === 'trak')
+    .forEach(trak => {
+      const track = parseMp4Track(bytes, trak);
+      if (track) metadata.tracks.push(track);
+    });
+  return metadata;
+}
+
+// =================
+// WebM / Matroska
+// =================
+
+interface EbmlElement {
+  id: number;
+  start: number; // Payload start
+  end: number;
+  unknownSize: boolean;
+}
+
+const EBML = {
+  Header: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675
+};
+
+/** Read a variable-length integer; element IDs keep their length marker */
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number, length: number, allOnes: boolean } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, allOnes };
+}
+
+function ebmlElements(bytes: Uint8Array, start: number, end: number): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(bytes, offset, true);
+    const size = id && readVint(bytes, offset + id.length, false);
+    if (!id || !size) break;
+    const payload = offset + id.length + size.length;
+    // Unknown sizes (live streams) run to the end of the parent
+    const elementEnd = size.allOnes ? end : Math.min(end, payload + size.value);
+    elements.push({ id: id.value, start: payload, end: elementEnd, unknownSize: size.allOnes });
+    if (size.allOnes && id.value === EBML.Cluster) break;
+    offset = elementEnd;
+  }
+  return elements;
+}
+
+const ebmlUint = (bytes: Uint8Array, element: EbmlElement) => {
+  let value = 0;
+  for (let i = element.start; i < element.end; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+const ebmlFloat = (bytes: Uint8Array, element: EbmlElement) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + element.start, element.end - element.start);
+  return element.end - element.start === 4 ? view.getFloat32(0) : view.getFloat64(0);
+};
+
+function parseWebmTrack(bytes: Uint8Array, entry: EbmlElement): VideoTrackInfo {
+  const fields = ebmlElements(bytes, entry.start, entry.end);
+  const find = (id: number) => fields.find(field => field.id === id);
+  const type = find(EBML.TrackType);
+  const codec = find(EBML.CodecID);
+  const trackType = type ? ebmlUint(bytes, type) : 0;
+  const track: VideoTrackInfo = {
+    kind: trackType === 1 ? 'video' : trackType === 2 ? 'audio' : 'other',
+    codec: codec ? ascii(bytes, codec.start, codec.end - codec.start).replace(/\0+$/, '') : 'unknown'
+  };
+
+  const video = find(EBML.Video);
+  if (video) {
+    ebmlElements(bytes, video.start, video.end).forEach(field => {
+      if (field.id === EBML.PixelWidth) track.width = ebmlUint(bytes, field);
+      if (field.id === EBML.PixelHeight) track.height = ebmlUint(bytes, field);
+    });
+  }
+  const frameDuration = find(EBML.DefaultDuration);
+  if (video && frameDuration) {
+    const nanoseconds = ebmlUint(bytes, frameDuration);
+    if (nanoseconds) track.frameRate = 1e9 / nanoseconds;
+  }
+  const audio = find(EBML.Audio);
+  if (audio) {
+    ebmlElements(bytes, audio.start, audio.end).forEach(field => {
+      if (field.id === EBML.SamplingFrequency) track.sampleRate = ebmlFloat(bytes, field);
+      if (field.id === EBML.Channels) track.channels = ebmlUint(bytes, field);
+    });
+  }
+  return track;
+}
+
+/**
+ * Read the Info and Tracks elements of a WebM or Matroska file
+ */
+export function parseWebmMetadata(bytes: Uint8Array): VideoMetadata | null {
+  const top = ebmlElements(bytes, 0, bytes.length);
+  const header = top[0]?.id === EBML.Header ? top[0] : undefined;
+  if (!header) return null;
+
+  const docType = ebmlElements(bytes, header.start, header.end).find(field => field.id === EBML.DocType);
+  const metadata: VideoMetadata = {
+    container: docType && ascii(bytes, docType.start, docType.end - docType.start).startsWith('webm') ? 'webm' : 'matroska',
+    tracks: []
+  };
+
+  const segment = top.find(element => element.id === EBML.Segment);
+  if (!segment) return metadata;
+
+  for (const element of ebmlElements(bytes, segment.start, segment.end)) {
+    if (element.id === EBML.Info) {
+      let scale = 1e6;
+      let duration: number | undefined;
+      ebmlElements(bytes, element.start, element.end).forEach(field => {
+        if (field.id === EBML.TimecodeScale) scale = ebmlUint(bytes, field);
+        if (field.id === EBML.Duration) duration = ebmlFloat(bytes, field);
+      });
+      if (duration) metadata.duration = (duration * scale) / 1e9;
+    } else if (element.id === EBML.Tracks) {
+      ebmlElements(bytes, element.start, element.end)
+        .filter(entry => entry.id === EBML.TrackEntry)
+        .forEach(entry => metadata.tracks.push(parseWebmTrack(bytes, entry)));
+    } else if (element.id === EBML.Cluster && metadata.tracks.length) {
+      break; // Media data follows; the headers are done
+    }
+  }
+  return metadata;
+}
+
+// =================
+// Public helpers
+// =================
+
+const CODEC_NAMES: Array<[RegExp, string]> = [
+  [/^(avc[13]|V_MPEG4\/ISO\/AVC)/, 'H.264'],
+  [/^(hvc1|hev1|V_MPEGH\/ISO\/HEVC)/, 'H.265'],
+  [/^(vp08|V_VP8)/, 'VP8'],
+  [/^(vp09|V_VP9)/, 'VP9'],
+  [/^(av01|V_AV1)/, 'AV1'],
+  [/^(mp4v)/, 'MPEG-4 Part 2'],
+  [/^(mp4a|A_AAC)/, 'AAC'],
+  [/^(Opus|A_OPUS)/, 'Opus'],
+  [/^A_VORBIS/, 'Vorbis'],
+  [/^(\.mp3|A_MPEG\/L3)/, 'MP3'],
+  [/^(fLaC|A_FLAC)/, 'FLAC']
+];
+
+/**
+ * Human-readable codec name, or the identifier itself when unknown
+ */
+export function describeCodec(codec: string): string {
+  return CODEC_NAMES.find(([pattern]) => pattern.test(codec))?.[1] ?? codec;
+}
+
+/**
+ * Parse MP4 or WebM container metadata; null for other formats
+ */
+export function parseVideoMetadata(bytes: Uint8Array): VideoMetadata | null {
+  const isMp4 = bytes.length >= 12 && ['ftyp', 'moov', 'mdat', 'free', 'wide'].includes(ascii(bytes, 4, 4));
+  const metadata = isMp4 ? parseMp4Metadata(bytes) : parseWebmMetadata(bytes);
+  if (metadata?.duration) {
+    metadata.bitrate = Math.round((bytes.length * 8) / metadata.duration);
+  }
+  return metadata;
+}
@@ -0,0 +1,75 @@
+import { CacheManager, estimateCacheSize } from '../../src/services/CacheManager';
+
+// Entries touched in the same millisecond would tie on lastAccess
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+// Cache manager eviction tests
+export function testNamespaceLru() {
+  console.log('Testing namespace LRU eviction...');
+
+  const cache = new CacheManager({ namespaces: { content: { maxEntries: 3, maxBytes: 100 } } });
+  cache.set('content', 'a', 'A', { size: 10 });
+  cache.set('content', 'b', 'B', { size: 10 });
+  cache.set('content', 'c', 'C', { size: 10 });
+  cache.get('content', 'a');
+  cache.set('content', 'd', 'D', { size: 10 });
+  console.log(`${cache.keys('content').join() === 'c,a,d' ? '✅' : '❌'} least recently used entry evicted at maxEntries (${cache.keys('content').join()})`);
+
+  cache.set('content', 'big', 'E', { size: 75 });
+  const stats = cache.getStats().namespaces.content;
+  console.log(`${cache.keys('content').join() === 'a,d,big' && stats.bytes === 95 ? '✅' : '❌'} entries evicted until maxBytes fits (${stats.bytes} bytes)`);
+  console.log(`${stats.evictions === 2 ? '✅' : '❌'} evictions counted (${stats.evictions})`);
+
+  cache.set('content', 'd', 'too large', { size: 101 });
+  console.log(`${!cache.has('content', 'd') && cache.has('content', 'big') ? '✅' : '❌'} oversized value drops the old entry and evicts nothing else`);
+}
+
+export async function testSharedByteBudget() {
+  console.log('Testing the shared byte budget...');
+
+  const cache = new CacheManager({ maxBytes: 100 });
+  cache.set('content', 'a', 'A', { size: 40 });
+  await tick();
+  cache.set('metadata', 'm', 'M', { size: 40 });
+  await tick();
+  cache.get('content', 'a');
+  await tick();
+  cache.set('negative', 'n', 'N', { size: 40 });
+
+  console.log(`${!cache.has('metadata', 'm') && cache.has('content', 'a') && cache.has('negative', 'n') ? '✅' : '❌'} globally least recently used entry evicted from another namespace`);
+  console.log(`${cache.getStats().totalBytes === 80 && cache.getStats().namespaces.metadata.evictions === 1 ? '✅' : '❌'} total back under the shared budget (${cache.getStats().totalBytes})`);
+
+  cache.configure({ maxBytes: 50 });
+  console.log(`${cache.keys('content').length === 0 && cache.has('negative', 'n') ? '✅' : '❌'} lowering the budget evicts immediately`);
+
+  const value = { body: new Blob([new Uint8Array(30)]) };
+  cache.set('content', 'blob', value);
+  console.log(`${estimateCacheSize(value) === 38 && cache.getStats().totalBytes === 38 ? '✅' : '❌'} nested Blob counted by its byte size (${cache.getStats().totalBytes})`);
+  console.log(`${!cache.has('negative', 'n') && cache.has('content', 'blob') ? '✅' : '❌'} newest entry kept when the budget overflows`);
+}
+
+export async function testExpiryAndInvalidation() {
+  console.log('Testing expiry and invalidation...');
+
+  const cache = new CacheManager();
+  cache.set('metadata', 'info:abci0', { id: 'abci0' }, { ttl: 10 });
+  cache.set('metadata', 'info:defi0', { id: 'defi0' }, { ttl: 0 });
+  cache.set('content', 'inscription:abci0', 'body');
+  await new Promise(resolve => setTimeout(resolve, 25));
+
+  console.log(`${cache.get('metadata', 'info:abci0') === undefined && cache.get('metadata', 'info:defi0') ? '✅' : '❌'} expired entry dropped, ttl 0 never expires`);
+
+  const invalidated: string[] = [];
+  cache.registerTier({ name: 'persistent', namespaces: ['content'], invalidate: selector => { invalidated.push(selector.inscriptionId || ''); } });
+  const removed = await cache.invalidateInscription('abci0');
+  console.log(`${removed === 1 && !cache.has('content', 'inscription:abci0') && invalidated.join() === 'abci0' ? '✅' : '❌'} invalidation reaches memory and registered tiers`);
+}
+
+// Run tests
+(async () => {
+  testNamespaceLru();
+  await testSharedByteBudget();
+  await testExpiryAndInvalidation();
+})();
+
+export {};
@@ -0,0 +1,155 @@
+import {
+  ContentSource,
+  ContentSourceAttempt,
+  ContentSourceRegistry,
+  CONTENT_SOURCE_PRIORITY,
+  buildDefaultSourceChain,
+  loadFromSources
+} from '../../src/services/ContentSourceRegistry';
+
+const REQUEST = { inscriptionId: 'abci0', contentUrl: 'https://ordinals.com/content/abci0' };
+
+function textSource(name: string, text: string, extra: Partial<ContentSource> = {}): ContentSource {
+  return {
+    name,
+    fetch: async () => ({ blob: new Blob([text], { type: 'text/plain' }), contentType: 'text/plain', text }),
+    ...extra
+  };
+}
+
+// Never answers on its own; records whether its signal was aborted
+function hangingSource(name: string, timeout: number) {
+  const state = { aborted: false };
+  const source: ContentSource = {
+    name,
+    timeout,
+    fetch: ({ signal }) => new Promise(() => {
+      signal.addEventListener('abort', () => { state.aborted = true; });
+    })
+  };
+  return { source, state };
+}
+
+const failingSource = (name: string, extra: Partial<ContentSource> = {}): ContentSource => ({
+  name,
+  fetch: async () => { throw new Error(`${name} is down`); },
+  ...extra
+});
+
+const missingSource = (name: string, extra: Partial<ContentSource> = {}): ContentSource => ({
+  name,
+  fetch: async () => null,
+  ...extra
+});
+
+async function rejection(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+    return '';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Source chain tests
+export async function testTimeoutFallsThrough() {
+  console.log('Testing fall-through after a source times out...');
+
+  const { source: slow, state } = hangingSource('slow-indexer', 20);
+  const attempts: ContentSourceAttempt[] = [];
+  const resolved = await loadFromSources([slow, textSource('mirror', 'hello')], REQUEST, {
+    onAttempt: attempt => attempts.push(attempt)
+  });
+
+  console.log(`${resolved.source === 'mirror' && resolved.text === 'hello' ? '✅' : '❌'} next source answers after the timeout`);
+  console.log(`${attempts.map(a => a.status).join() === 'timeout,hit' ? '✅' : '❌'} attempts reported (${attempts.map(a => a.status).join()})`);
+  console.log(`${state.aborted && attempts[0].error?.includes('slow-indexer') ? '✅' : '❌'} timed-out source is aborted`);
+
+  const classified: string[] = [];
+  await loadFromSources([
+    { name: 'worded', fetch: async () => { throw new Error('TIMEOUT: only the wording says so'); } },
+    { name: 'fetch-timeout', fetch: async () => { throw new DOMException('The operation timed out.', 'TimeoutError'); } },
+    textSource('network', 'body')
+  ], REQUEST, { onAttempt: attempt => classified.push(attempt.status) });
+  console.log(`${classified.join() === 'error,timeout,hit' ? '✅' : '❌'} timeouts recognised by error name, not message (${classified.join()})`);
+}
+
+export async function testCallerCancels() {
+  console.log('Testing cancellation by the caller...');
+
+  const { source: pending, state } = hangingSource('indexer', 0);
+  let laterTried = false;
+  const attempts: ContentSourceAttempt[] = [];
+  const controller = new AbortController();
+  const loading = loadFromSources([pending, textSource('network', 'body', { canHandle: () => { laterTried = true; return true; } })], REQUEST, {
+    signal: controller.signal,
+    onAttempt: attempt => attempts.push(attempt)
+  });
+  setTimeout(() => controller.abort(), 10);
+
+  let name = '';
+  try {
+    await loading;
+  } catch (error) {
+    name = error instanceof Error ? error.name : '';
+  }
+  console.log(`${name === 'AbortError' && state.aborted ? '✅' : '❌'} running source aborted and the chain rejects with AbortError`);
+  console.log(`${!laterTried && attempts.length === 0 ? '✅' : '❌'} no further sources tried or reported`);
+
+  const before = await rejection(loadFromSources([textSource('network', 'body')], REQUEST, { signal: controller.signal }));
+  console.log(`${before.includes('cancelled') ? '✅' : '❌'} already-aborted signal starts nothing`);
+}
+
+export async function testFallthroughRules() {
+  console.log('Testing fallthrough rules...');
+
+  const skipped: string[] = [];
+  const resolved = await loadFromSources([
+    textSource('wallet', 'nope', { canHandle: () => false }),
+    missingSource('cache'),
+    failingSource('indexer'),
+    textSource('network', 'body')
+  ], REQUEST, { onAttempt: attempt => attempt.status === 'skipped' && skipped.push(attempt.source) });
+  console.log(`${resolved.source === 'network' && skipped.join() === 'wallet' ? '✅' : '❌'} default chain skips, misses and errors through to a hit`);
+
+  const onMissError = await rejection(loadFromSources([failingSource('node', { fallthrough: 'on-miss' }), textSource('network', 'body')], REQUEST));
+  console.log(`${onMissError === 'node is down' ? '✅' : '❌'} 'on-miss' source ends the chain on error`);
+  const onMissHit = await loadFromSources([missingSource('node', { fallthrough: 'on-miss' }), textSource('network', 'body')], REQUEST);
+  console.log(`${onMissHit.source === 'network' ? '✅' : '❌'} 'on-miss' source falls through on a miss`);
+
+  const never = await rejection(loadFromSources([missingSource('authority', { fallthrough: 'never' }), textSource('network', 'body')], REQUEST));
+  console.log(`${never.startsWith('No content source returned content for abci0') ? '✅' : '❌'} 'never' source ends the chain on a miss`);
+
+  const allFailed = await rejection(loadFromSources([failingSource('first'), failingSource('second')], REQUEST));
+  console.log(`${allFailed === 'second is down' ? '✅' : '❌'} last error thrown when every source fails`);
+}
+
+export function testRegistryOrdering() {
+  console.log('Testing source registration...');
+
+  const registry = new ContentSourceRegistry();
+  registry.register(missingSource('ipfs'), 600);
+  const unregister = registry.register(missingSource('indexer'), 300);
+  registry.register(missingSource('ipfs'), 150);
+
+  console.log(`${registry.getSources().map(s => s.name).join() === 'ipfs,indexer' ? '✅' : '❌'} lower priority first, re-registering replaces`);
+
+  const chain = buildDefaultSourceChain({ registry, preferLaserEyes: false, contentFetcher: async () => null });
+  console.log(`${chain.map(s => s.name).join() === 'cache,contentFetcher,ipfs,indexer,network' ? '✅' : '❌'} default chain order (${chain.map(s => s.name).join()})`);
+
+  registry.register(missingSource('tie'), CONTENT_SOURCE_PRIORITY.network);
+  console.log(`${buildDefaultSourceChain({ registry, preferLaserEyes: false }).slice(-2).map(s => s.name).join() === 'network,tie' ? '✅' : '❌'} built-ins stay ahead of sources with the same priority`);
+
+  unregister();
+  console.log(`${registry.getSources().map(s => s.name).join() === 'ipfs,tie' ? '✅' : '❌'} unregister function removes only its source`);
+}
+
+// Run tests
+(async () => {
+  await testTimeoutFallsThrough();
+  await testCallerCancels();
+  await testFallthroughRules();
+  testRegistryOrdering();
+})();
+
+export {};
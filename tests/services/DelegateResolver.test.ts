@@ -0,0 +1,109 @@
+import { DelegateResolver, getDelegateResolver, delegateResolver } from '../../src/services/DelegateResolver';
+import { OrdinalsApiService, ordinalsApi } from '../../src/services/OrdinalsApiService';
+import { cacheManager } from '../../src/services/CacheManager';
+
+// API stub answering /r/inscription lookups from a delegate map; `lookups` counts calls
+function createApi(delegates: Record<string, string | null | Error>) {
+  const lookups: string[] = [];
+  const api = {
+    getInscriptionInfo: async (id: string) => {
+      lookups.push(id);
+      const delegate = delegates[id];
+      if (delegate instanceof Error) {
+        return { success: false, data: null, error: delegate.message, source: 'stub' };
+      }
+      return { success: true, data: { id, delegate: delegate ?? null }, source: 'stub' };
+    }
+  } as unknown as OrdinalsApiService;
+  return { api, lookups };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+    return '';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Delegate resolution tests
+export async function testResolvesChains() {
+  console.log('Testing delegate chain resolution...');
+
+  const { api, lookups } = createApi({ a: 'b', b: 'c', c: null, plain: null });
+  const resolver = new DelegateResolver(api);
+
+  const chain = await resolver.resolve('a');
+  console.log(`${chain.resolvedId === 'c' && chain.chain.join() === 'a,b,c' && chain.isDelegated ? '✅' : '❌'} chain followed to the last delegate`, chain.chain);
+
+  const plain = await resolver.resolve('plain');
+  console.log(`${plain.resolvedId === 'plain' && !plain.isDelegated ? '✅' : '❌'} inscription without a delegate resolves to itself`);
+
+  const before = lookups.length;
+  await Promise.all([resolver.resolve('a'), resolver.resolve('a')]);
+  console.log(`${lookups.length === before && resolver.getCached('a')?.resolvedId === 'c' ? '✅' : '❌'} resolved chains are cached`);
+}
+
+export async function testRejectsCyclesAndDeepChains() {
+  console.log('Testing delegate cycle and depth protection...');
+
+  const { api } = createApi({ x: 'y', y: 'z', z: 'x', d0: 'd1', d1: 'd2', d2: 'd3', d3: null });
+  const resolver = new DelegateResolver(api);
+
+  const cycle = await rejection(resolver.resolve('x'));
+  console.log(`${cycle.startsWith('PERMANENT: Delegate cycle detected') && cycle.includes('x → y → z → x') ? '✅' : '❌'} cycle rejected (${cycle})`);
+
+  const shallow = await resolver.resolve('d0', { maxDepth: 3 });
+  console.log(`${shallow.resolvedId === 'd3' ? '✅' : '❌'} chain of exactly maxDepth hops allowed`);
+
+  const deep = await rejection(resolver.resolve('d0', { maxDepth: 2 }));
+  console.log(`${deep === 'PERMANENT: Delegate chain for d0 exceeds 2 levels' ? '✅' : '❌'} deeper chain rejected (${deep})`);
+
+  const retried = await rejection(resolver.resolve('x'));
+  console.log(`${retried.startsWith('PERMANENT:') ? '✅' : '❌'} failed resolutions are not cached as successes`);
+}
+
+export async function testFailedLookupsDoNotBlock() {
+  console.log('Testing failed delegate lookups...');
+
+  const { api } = createApi({ a: 'b', b: new Error('HTTP 503: Service Unavailable') });
+  const resolution = await new DelegateResolver(api).resolve('a');
+  console.log(`${resolution.resolvedId === 'b' && resolution.chain.join() === 'a,b' ? '✅' : '❌'} failed lookup ends the chain instead of failing the load`);
+}
+
+export function testResolverPerService() {
+  console.log('Testing resolvers per API service...');
+
+  const { api } = createApi({});
+  console.log(`${getDelegateResolver() === delegateResolver && getDelegateResolver(ordinalsApi) === delegateResolver ? '✅' : '❌'} default service uses the singleton`);
+  console.log(`${getDelegateResolver(api) === getDelegateResolver(api) && getDelegateResolver(api) !== delegateResolver ? '✅' : '❌'} one shared resolver per service`);
+}
+
+export async function testResolutionsInSharedCache() {
+  console.log('Testing resolver cache bounds...');
+
+  const { api, lookups } = createApi({ a: 'b', b: null });
+  const resolver = new DelegateResolver(api);
+  const before = cacheManager.getStats().namespaces.metadata.entries;
+  await resolver.resolve('a');
+  console.log(`${cacheManager.getStats().namespaces.metadata.entries === before + 1 ? '✅' : '❌'} resolution stored in the metadata namespace`);
+
+  resolver.clear();
+  await resolver.resolve('a');
+  console.log(`${lookups.length === 4 ? '✅' : '❌'} clear forces a new lookup (${lookups.length} lookups)`);
+
+  await cacheManager.invalidateInscription('a');
+  console.log(`${resolver.getCached('a') === undefined ? '✅' : '❌'} invalidating the inscription drops its resolution`);
+}
+
+// Run tests
+(async () => {
+  await testResolvesChains();
+  await testRejectsCyclesAndDeepChains();
+  await testFailedLookupsDoNotBlock();
+  testResolverPerService();
+  await testResolutionsInSharedCache();
+})();
+
+export {};
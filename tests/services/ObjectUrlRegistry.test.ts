@@ -0,0 +1,75 @@
+import { ObjectUrlRegistry } from '../../src/services/ObjectUrlRegistry';
+
+// Record revocations while still revoking for real
+const revokedUrls: string[] = [];
+const revokeObjectURL = URL.revokeObjectURL.bind(URL);
+URL.revokeObjectURL = (url: string) => {
+  revokedUrls.push(url);
+  revokeObjectURL(url);
+};
+
+const blob = (text: string) => new Blob([text], { type: 'text/plain' });
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Object URL registry tests
+export function testReferenceCounting() {
+  console.log('Testing object URL reference counting...');
+
+  const registry = new ObjectUrlRegistry({ revokeDelay: 0 });
+  const content = blob('hello');
+  const first = registry.acquire('abci0', content);
+  const second = registry.acquire('abci0', content);
+  console.log(`${first === second && registry.getStats().urls === 1 && registry.getStats().references === 2 ? '✅' : '❌'} holders of the same blob share one URL`);
+
+  registry.release(first);
+  console.log(`${!revokedUrls.includes(first) && registry.get('abci0') === first ? '✅' : '❌'} URL kept while a reference remains`);
+
+  registry.release('abci0');
+  console.log(`${revokedUrls.includes(first) && registry.get('abci0') === null ? '✅' : '❌'} last release by key revokes the URL`);
+
+  registry.release(first);
+  const stats = registry.getStats();
+  console.log(`${stats.created === 1 && stats.revoked === 1 && stats.references === 0 ? '✅' : '❌'} extra release is ignored`);
+}
+
+export async function testDelayedRevocation() {
+  console.log('Testing delayed revocation...');
+
+  const registry = new ObjectUrlRegistry({ revokeDelay: 30 });
+  const url = registry.acquire('abci0', blob('hello'));
+  registry.release(url);
+  await wait(10);
+
+  const remounted = registry.acquire('abci0', blob('hello'));
+  await wait(40);
+  console.log(`${remounted === url && !revokedUrls.includes(url) ? '✅' : '❌'} re-acquire within the delay keeps the URL`);
+
+  registry.release(remounted);
+  await wait(40);
+  console.log(`${revokedUrls.includes(url) && registry.getStats().urls === 0 ? '✅' : '❌'} URL revoked once the delay passes unreferenced`);
+}
+
+export function testReplacedContent() {
+  console.log('Testing replaced content under one key...');
+
+  const registry = new ObjectUrlRegistry({ revokeDelay: 0 });
+  const old = registry.acquire('abci0', blob('old'));
+  const current = registry.acquire('abci0', blob('newer content'));
+  console.log(`${old !== current && registry.get('abci0') === current && !revokedUrls.includes(old) ? '✅' : '❌'} new bytes get a new URL, old holders keep theirs`);
+
+  registry.release(old);
+  console.log(`${revokedUrls.includes(old) && !revokedUrls.includes(current) ? '✅' : '❌'} releasing the old URL revokes only it`);
+
+  registry.acquire('defi0', blob('other'));
+  registry.revokeAll();
+  console.log(`${revokedUrls.includes(current) && registry.getStats().urls === 0 && registry.getStats().revoked === 3 ? '✅' : '❌'} revokeAll revokes URLs still referenced`);
+}
+
+// Run tests
+(async () => {
+  testReferenceCounting();
+  await testDelayedRevocation();
+  testReplacedContent();
+})();
+
+export {};
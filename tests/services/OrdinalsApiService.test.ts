@@ -0,0 +1,152 @@
+import { OrdinalsApiService, getEndpointService, ordinalsApi } from '../../src/services/OrdinalsApiService';
+
+type Reply = { status: number, delay?: number };
+
+// Stub fetch answering per host; `calls` records the hosts asked, in order
+function stubFetch(replies: Record<string, () => Reply>) {
+  const calls: string[] = [];
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    calls.push(url.host);
+    const reply = replies[url.host]();
+    if (reply.delay) await new Promise(resolve => setTimeout(resolve, reply.delay));
+    return new Response(reply.status < 400 ? '840000' : 'error', { status: reply.status, headers: { 'content-type': 'text/plain' } });
+  }) as typeof fetch;
+  return calls;
+}
+
+function createService(config: { failureThreshold?: number, circuitResetTimeout?: number } = {}, primaryWeight = 2) {
+  return new OrdinalsApiService(undefined, undefined, {
+    ...config,
+    endpoints: [
+      { name: 'primary', baseUrl: 'https://primary.example', weight: primaryWeight },
+      { name: 'mirror', baseUrl: 'https://mirror.example', weight: 1 }
+    ]
+  });
+}
+
+const health = (service: OrdinalsApiService, name: string) => service.getEndpointHealth().find(endpoint => endpoint.name === name)!;
+let requestCounter = 0;
+// Distinct paths so neither the coalescer nor the cache merges requests
+const nextPath = () => `/r/blockheight?n=${++requestCounter}`;
+
+// Endpoint routing tests
+export async function testScoringPrefersHealthyEndpoints() {
+  console.log('Testing endpoint scoring...');
+
+  const service = createService({ failureThreshold: 10 });
+  let primaryStatus = 200;
+  const calls = stubFetch({ 'primary.example': () => ({ status: primaryStatus }), 'mirror.example': () => ({ status: 200 }) });
+
+  await service.getRecursiveResource(nextPath());
+  console.log(`${calls[0] === 'primary.example' ? '✅' : '❌'} heavier endpoint tried first`);
+
+  primaryStatus = 503;
+  const failedOver = await service.getRecursiveResource(nextPath());
+  console.log(`${failedOver.success && failedOver.source === 'mirror' ? '✅' : '❌'} 5xx fails over to the next endpoint`);
+
+  // Two failures bring primary's score (weight 2) below mirror's (weight 1)
+  await service.getRecursiveResource(nextPath());
+  calls.length = 0;
+  await service.getRecursiveResource(nextPath());
+  const primary = health(service, 'primary');
+  console.log(`${calls[0] === 'mirror.example' && primary.score < health(service, 'mirror').score ? '✅' : '❌'} failing endpoint drops below a lighter healthy one (${primary.score.toFixed(2)})`);
+
+  primaryStatus = 429;
+  const rateLimited = await service.getRecursiveResource(nextPath());
+  console.log(`${rateLimited.success && health(service, 'primary').totalFailures >= 2 ? '✅' : '❌'} 429 counts as an endpoint failure`);
+}
+
+export async function testClientErrorsDoNotCount() {
+  console.log('Testing client errors...');
+
+  const service = createService({ failureThreshold: 2 });
+  const calls = stubFetch({ 'primary.example': () => ({ status: 404 }), 'mirror.example': () => ({ status: 200 }) });
+
+  for (let i = 0; i < 5; i++) {
+    await service.getRecursiveResource(nextPath());
+  }
+  const result = await service.getRecursiveResource(nextPath());
+  const primary = health(service, 'primary');
+
+  console.log(`${!result.success && result.errorCode === 'http' && result.status === 404 && result.source === 'primary' ? '✅' : '❌'} 404 returned to the caller (${result.error})`);
+  console.log(`${calls.every(host => host === 'primary.example') ? '✅' : '❌'} no failover for 404 (${calls.length} calls)`);
+  console.log(`${primary.circuit === 'closed' && primary.totalFailures === 0 && primary.successRate === 1 ? '✅' : '❌'} endpoint health untouched:`, primary.circuit, primary.totalFailures);
+}
+
+export async function testCircuitOpensAndHalfOpens() {
+  console.log('Testing circuit breaking...');
+
+  // Heavy enough to stay ranked first after a few failures, so it gets the trials
+  const service = createService({ failureThreshold: 2, circuitResetTimeout: 40 }, 5);
+  let primaryReply: Reply = { status: 500 };
+  const calls = stubFetch({ 'primary.example': () => primaryReply, 'mirror.example': () => ({ status: 200 }) });
+
+  await service.getRecursiveResource(nextPath());
+  await service.getRecursiveResource(nextPath());
+  console.log(`${health(service, 'primary').circuit === 'open' ? '✅' : '❌'} circuit opens after the failure threshold`);
+
+  calls.length = 0;
+  await service.getRecursiveResource(nextPath());
+  console.log(`${calls.join() === 'mirror.example' ? '✅' : '❌'} open circuit is skipped (${calls.join()})`);
+
+  // After the reset timeout, concurrent requests must not all hit the recovering endpoint
+  await new Promise(resolve => setTimeout(resolve, 50));
+  primaryReply = { status: 200, delay: 30 };
+  calls.length = 0;
+  const results = await Promise.all([1, 2, 3].map(() => service.getRecursiveResource(nextPath())));
+  const probes = calls.filter(host => host === 'primary.example').length;
+  console.log(`${probes === 1 ? '✅' : '❌'} exactly one half-open trial (${probes})`);
+  console.log(`${results.every(result => result.success) && results.filter(result => result.source === 'mirror').length === 2 ? '✅' : '❌'} other requests served by the healthy endpoint`);
+  console.log(`${health(service, 'primary').circuit === 'closed' ? '✅' : '❌'} successful trial closes the circuit`);
+
+  // A failed trial re-opens at once, without waiting for the threshold
+  primaryReply = { status: 500 };
+  await service.getRecursiveResource(nextPath());
+  await service.getRecursiveResource(nextPath());
+  await new Promise(resolve => setTimeout(resolve, 50));
+  await service.getRecursiveResource(nextPath());
+  const primary = health(service, 'primary');
+  console.log(`${primary.circuit === 'open' && primary.consecutiveFailures === 3 ? '✅' : '❌'} failed trial re-opens the circuit (${primary.circuit}, ${primary.consecutiveFailures})`);
+}
+
+export async function testErrorCodes() {
+  console.log('Testing error codes...');
+
+  const service = createService({ failureThreshold: 10 });
+  const calls = stubFetch({ 'primary.example': () => ({ status: 500 }), 'mirror.example': () => ({ status: 200 }) });
+
+  const failed = await service.getRecursiveResource(nextPath());
+  console.log(`${failed.success && failed.source === 'mirror' && !failed.errorCode ? '✅' : '❌'} successful failover carries no error code`);
+
+  // Both endpoints answer a bare number where an inscription object is expected
+  const drifted = await service.getInscriptionInfo(`drifti${++requestCounter}`);
+  console.log(`${!drifted.success && drifted.errorCode === 'schema' && health(service, 'mirror').totalFailures === 1 ? '✅' : '❌'} schema mismatch fails over and is reported as 'schema' (${drifted.errorCode})`);
+
+  stubFetch({ 'primary.example': () => ({ status: 503 }), 'mirror.example': () => ({ status: 502 }) });
+  const down = await service.getRecursiveResource(nextPath());
+  console.log(`${down.errorCode === 'http' && down.status === 502 && down.source === 'mirror' ? '✅' : '❌'} last endpoint's status reported when all fail (${down.status})`);
+
+  calls.length = 0;
+  const refused = await service.getRecursiveResource('/status');
+  console.log(`${refused.errorCode === 'unsupported' && refused.source === 'none' && calls.length === 0 ? '✅' : '❌'} non-recursive path refused without a request`);
+}
+
+export function testEndpointServices() {
+  console.log('Testing per-endpoint services...');
+
+  const node = getEndpointService('http://localhost:4000/');
+  console.log(`${node === getEndpointService('http://localhost:4000') && node !== ordinalsApi ? '✅' : '❌'} one shared service per endpoint, trailing slash ignored`);
+  console.log(`${node.getEndpointHealth().map(endpoint => endpoint.baseUrl).join() === 'http://localhost:4000' ? '✅' : '❌'} service only routes to that endpoint`);
+}
+
+// Run tests
+(async () => {
+  testEndpointServices();
+  await testScoringPrefersHealthyEndpoints();
+  await testClientErrorsDoNotCount();
+  await testErrorCodes();
+  await testCircuitOpensAndHalfOpens();
+})();
+
+export {};
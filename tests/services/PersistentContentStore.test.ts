@@ -0,0 +1,144 @@
+import { PersistentContentStore } from '../../src/services/PersistentContentStore';
+
+type Row = Record<string, any>;
+
+// Minimal in-memory IndexedDB: requests settle on a later task and a transaction
+// completes once no request is pending, as in browsers. Databases outlive the
+// stores that opened them, so a new store instance sees earlier writes.
+function installIndexedDB() {
+  const databases = new Map<string, Map<string, Map<string, Row>>>();
+
+  const createTransaction = (stores: Map<string, Map<string, Row>>) => {
+    const tx: Row = { pending: 0, oncomplete: null, onerror: null, onabort: null };
+    const settle = () => {
+      if (--tx.pending > 0) return;
+      setTimeout(() => { if (tx.pending === 0) tx.oncomplete?.(); });
+    };
+    const request = (compute: (req: Row) => any) => {
+      const req: Row = { result: undefined, error: null, onsuccess: null, onerror: null };
+      const run = () => {
+        tx.pending++;
+        setTimeout(() => { req.result = compute(req); req.onsuccess?.(); settle(); });
+      };
+      req.rerun = run;
+      run();
+      return req;
+    };
+    const openCursor = (rows: Map<string, Row>, order: (a: Row, b: Row) => number) => {
+      const queue = Array.from(rows.values()).sort(order);
+      return request(req => {
+        const value = queue.shift();
+        return value ? { value: { ...value }, continue: () => req.rerun(), delete: () => rows.delete(value.key) } : null;
+      });
+    };
+
+    tx.objectStore = (name: string) => {
+      const rows = stores.get(name)!;
+      return {
+        get: (key: string) => request(() => rows.has(key) ? { ...rows.get(key) } : undefined),
+        put: (value: Row) => request(() => { rows.set(value.key, { ...value }); return value.key; }),
+        delete: (key: string) => request(() => { rows.delete(key); }),
+        clear: () => request(() => { rows.clear(); }),
+        count: (key: string) => request(() => rows.has(key) ? 1 : 0),
+        openCursor: () => openCursor(rows, (a, b) => a.key.localeCompare(b.key)),
+        index: (field: string) => ({
+          openCursor: () => openCursor(rows, (a, b) => a[field] - b[field] || a.key.localeCompare(b.key))
+        })
+      };
+    };
+    return tx;
+  };
+
+  (globalThis as any).indexedDB = {
+    open: (name: string) => {
+      const req: Row = { result: null, onupgradeneeded: null, onsuccess: null };
+      setTimeout(() => {
+        const isNew = !databases.has(name);
+        const stores = databases.get(name) || new Map<string, Map<string, Row>>();
+        databases.set(name, stores);
+        req.result = {
+          objectStoreNames: { contains: (store: string) => stores.has(store) },
+          createObjectStore: (store: string) => {
+            stores.set(store, new Map());
+            return { createIndex: () => undefined };
+          },
+          transaction: () => createTransaction(stores)
+        };
+        if (isNew) req.onupgradeneeded?.();
+        req.onsuccess?.();
+      });
+      return req;
+    }
+  };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const bytes = (length: number) => new Blob([new Uint8Array(length)], { type: 'application/octet-stream' });
+
+// Persistent content store tests
+export async function testUnavailableFallsBack() {
+  console.log('Testing the store without IndexedDB...');
+
+  const store = new PersistentContentStore();
+  const stored = await store.put('abci0', bytes(4), 'image/png');
+  const stats = await store.getStats();
+  console.log(`${!store.isSupported() && !stored && (await store.get('abci0')) === null ? '✅' : '❌'} writes and reads are no-ops`);
+  console.log(`${!stats.available && stats.entries === 0 && !(await store.has('abci0')) ? '✅' : '❌'} stats report the store as unavailable`);
+}
+
+export async function testRoundTrip() {
+  console.log('Testing persistence round trips...');
+
+  const writer = new PersistentContentStore({ dbName: 'round-trip' });
+  const stored = await writer.put('abci0', new Blob(['<svg/>'], { type: 'image/svg+xml' }), 'image/svg+xml');
+
+  const reader = new PersistentContentStore({ dbName: 'round-trip' });
+  const record = await reader.get('abci0');
+  const text = record ? await record.blob.text() : '';
+  console.log(`${stored && text === '<svg/>' && record?.contentType === 'image/svg+xml' && record.size === 6 ? '✅' : '❌'} content read back by a new store instance`);
+  console.log(`${(await reader.has('abci0')) && !(await reader.has('defi0')) && (await reader.get('defi0')) === null ? '✅' : '❌'} has/get distinguish stored and missing keys`);
+
+  await wait(5);
+  await reader.put('abci0', new Blob(['<svg></svg>']), 'image/svg+xml');
+  const replaced = (await reader.list())[0];
+  console.log(`${replaced.size === 11 && replaced.storedAt === record?.storedAt && replaced.lastAccess > replaced.storedAt ? '✅' : '❌'} overwrite keeps storedAt and updates size`);
+
+  await reader.put('defi0', bytes(3), 'application/octet-stream');
+  await reader.delete('abci0');
+  const afterDelete = await reader.getStats();
+  console.log(`${afterDelete.entries === 1 && afterDelete.totalBytes === 3 && afterDelete.available ? '✅' : '❌'} delete updates the totals`);
+
+  await reader.clear();
+  console.log(`${(await writer.list()).length === 0 ? '✅' : '❌'} clear empties the database for every instance`);
+}
+
+export async function testQuotaEviction() {
+  console.log('Testing quota eviction...');
+
+  const store = new PersistentContentStore({ dbName: 'quota', maxBytes: 10, maxEntries: 3, maxEntryBytes: 6 });
+  console.log(`${!(await store.put('huge', bytes(7), 'application/octet-stream')) ? '✅' : '❌'} blobs over maxEntryBytes are not persisted`);
+
+  for (const key of ['a', 'b']) {
+    await store.put(key, bytes(4), 'application/octet-stream');
+    await wait(5);
+  }
+  await store.put('c', bytes(4), 'application/octet-stream');
+  console.log(`${(await store.list()).map(r => r.key).join() === 'c,b' ? '✅' : '❌'} least recently accessed entry evicted over maxBytes`);
+
+  // A new instance starts from the totals already on disk
+  const reopened = new PersistentContentStore({ dbName: 'quota', maxBytes: 100, maxEntries: 2 });
+  await wait(5);
+  await reopened.put('d', bytes(1), 'application/octet-stream');
+  const keys = (await reopened.list()).map(r => r.key).join();
+  console.log(`${keys === 'd,c' ? '✅' : '❌'} maxEntries enforced against existing entries (${keys})`);
+}
+
+// Run tests
+(async () => {
+  await testUnavailableFallsBack();
+  installIndexedDB();
+  await testRoundTrip();
+  await testQuotaEviction();
+})();
+
+export {};
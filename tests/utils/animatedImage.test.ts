@@ -0,0 +1,180 @@
+import { parseAnimation, isAnimatedImage, decodeAnimation, decodeLzw, frameDuration } from '../../src/utils/animatedImage';
+
+const encoder = new TextEncoder();
+
+function bytes(...parts: Array<number[] | Uint8Array | string>): Uint8Array {
+  const arrays = parts.map(part => (typeof part === 'string' ? encoder.encode(part) : Uint8Array.from(part)));
+  const output = new Uint8Array(arrays.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  arrays.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+const le16 = (value: number) => [value & 255, value >> 8];
+const le24 = (value: number) => [value & 255, (value >> 8) & 255, value >> 16];
+const le32 = (value: number) => [...le24(value), value >>> 24];
+const be32 = (value: number) => [value >>> 24, (value >> 16) & 255, (value >> 8) & 255, value & 255];
+
+/** LZW with a clear code after every two literals, so the code size stays at 3 bits */
+function lzwLiterals(indices: number[]): number[] {
+  const codes = [4];
+  indices.forEach((index, i) => {
+    codes.push(index);
+    if (i % 2 === 1) codes.push(4);
+  });
+  codes.push(5);
+
+  const packed: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  codes.forEach(code => {
+    buffer |= code << bits;
+    bits += 3;
+    while (bits >= 8) {
+      packed.push(buffer & 255);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  });
+  if (bits) packed.push(buffer);
+  return [2, packed.length, ...packed, 0];
+}
+
+interface TestGifFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  indices: number[];
+  delay: number; // Centiseconds
+  disposal: number;
+  transparent?: number;
+}
+
+function buildGif(frames: TestGifFrame[], loops: number): Uint8Array {
+  const palette = [0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255];
+  const parts: Array<number[] | string> = ['GIF89a', [...le16(4), ...le16(4), 0x81, 0, 0], palette];
+  parts.push([0x21, 0xff, 11], 'NETSCAPE2.0', [3, 1, ...le16(loops), 0]);
+  frames.forEach(frame => {
+    const flags = (frame.disposal << 2) | (frame.transparent !== undefined ? 1 : 0);
+    parts.push([0x21, 0xf9, 4, flags, ...le16(frame.delay), frame.transparent ?? 0, 0]);
+    parts.push([0x2c, ...le16(frame.x), ...le16(frame.y), ...le16(frame.width), ...le16(frame.height), 0]);
+    parts.push(lzwLiterals(frame.indices));
+  });
+  parts.push([0x3b]);
+  return bytes(...parts);
+}
+
+function pixel(frame: Uint8ClampedArray, x: number, y: number): string {
+  const i = (y * 4 + x) * 4;
+  return Array.from(frame.subarray(i, i + 4)).join(',');
+}
+
+export function testLzw() {
+  console.log('Testing GIF LZW decoding...');
+
+  // The 10×10 sample from "What's in a GIF", which exercises table codes and code size growth
+  const data = Uint8Array.from([0x8c, 0x2d, 0x99, 0x87, 0x2a, 0x1c, 0xdc, 0x33, 0xa0, 0x02, 0x75, 0xec, 0x95, 0xfa, 0xa8, 0xde, 0x60, 0x8c, 0x04, 0x91, 0x4c, 0x01]);
+  const rows = [
+    '1111122222', '1111122222', '1111122222', '1110000222', '1110000222',
+    '2220000111', '2220000111', '2222211111', '2222211111', '2222211111'
+  ];
+  const decoded = Array.from(decodeLzw(data, 2, 100)).join('');
+  console.log(`${decoded === rows.join('') ? '✅' : '❌'} sample image decodes`);
+
+  const truncated = decodeLzw(data.subarray(0, 6), 2, 100);
+  console.log(`${truncated.length === 100 && truncated[0] === 1 ? '✅' : '❌'} truncated stream keeps decoded prefix`);
+}
+
+export async function testGifAnimation() {
+  console.log('Testing GIF animation decoding...');
+
+  const gif = buildGif([
+    { x: 0, y: 0, width: 4, height: 4, indices: new Array(16).fill(1), delay: 10, disposal: 1 },
+    { x: 1, y: 1, width: 2, height: 2, indices: [2, 0, 2, 2], delay: 5, disposal: 2, transparent: 0 },
+    { x: 0, y: 0, width: 1, height: 1, indices: [3], delay: 0, disposal: 0 }
+  ], 2);
+
+  const info = parseAnimation(gif);
+  console.log(`${info?.format === 'gif' && info.width === 4 && info.frames.length === 3 ? '✅' : '❌'} frame structure parsed`);
+  console.log(`${info?.loopCount === 3 ? '✅' : '❌'} NETSCAPE repeat count becomes play count (${info?.loopCount})`);
+  console.log(`${info && info.frames[1].delay === 50 && info.frames[1].dispose === 'background' ? '✅' : '❌'} delay and disposal`);
+  console.log(`${info && frameDuration(info.frames[2]) === 100 && info.duration === 250 ? '✅' : '❌'} zero delays clamped like browsers`);
+  console.log(`${isAnimatedImage(gif) ? '✅' : '❌'} detected as animated`);
+
+  const { frames, truncated } = await decodeAnimation(gif);
+  console.log(`${frames.length === 3 && !truncated ? '✅' : '❌'} all frames composited`);
+  console.log(`${pixel(frames[1], 1, 1) === '0,255,0,255' && pixel(frames[1], 2, 1) === '255,0,0,255' ? '✅' : '❌'} transparent pixels show the previous frame`);
+  console.log(`${pixel(frames[2], 1, 1) === '0,0,0,0' && pixel(frames[2], 3, 3) === '255,0,0,255' ? '✅' : '❌'} background disposal clears the frame rectangle`);
+  console.log(`${pixel(frames[2], 0, 0) === '0,0,255,255' ? '✅' : '❌'} later frame drawn at its offset`);
+
+  const limited = await decodeAnimation(gif, { maxBytes: 4 * 4 * 4 * 2 });
+  console.log(`${limited.frames.length === 2 && limited.truncated ? '✅' : '❌'} memory budget truncates decoding`);
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  // CRCs are not checked when reading structure
+  return [...be32(data.length), ...Array.from(encoder.encode(type)), ...data, 0, 0, 0, 0];
+}
+
+export function testApngStructure() {
+  console.log('Testing APNG structure...');
+
+  const fctl = (sequence: number, width: number, height: number, x: number, y: number, delayNum: number, delayDen: number, dispose: number, blend: number) =>
+    pngChunk('fcTL', [...be32(sequence), ...be32(width), ...be32(height), ...be32(x), ...be32(y), delayNum >> 8, delayNum & 255, delayDen >> 8, delayDen & 255, dispose, blend]);
+  const ihdr = pngChunk('IHDR', [...be32(8), ...be32(6), 8, 6, 0, 0, 0]);
+  const png = bytes(
+    [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    ihdr,
+    pngChunk('acTL', [...be32(2), ...be32(0)]),
+    fctl(0, 8, 6, 0, 0, 1, 4, 2, 0),
+    pngChunk('IDAT', [1, 2, 3]),
+    fctl(1, 4, 2, 2, 3, 30, 0, 1, 1),
+    pngChunk('fdAT', [...be32(2), 4, 5, 6]),
+    pngChunk('IEND', [])
+  );
+
+  const info = parseAnimation(png);
+  console.log(`${info?.format === 'apng' && info.frames.length === 2 && info.loopCount === 0 ? '✅' : '❌'} acTL frame count and infinite loop`);
+  console.log(`${info?.frames[0].delay === 250 && info.frames[0].dispose === 'background' ? '✅' : '❌'} fraction delay; first-frame "previous" becomes background`);
+  console.log(`${info?.frames[1].delay === 300 && info.frames[1].blend === 'over' && info.frames[1].x === 2 && info.frames[1].y === 3 ? '✅' : '❌'} zero denominator means 1/100s`);
+
+  const still = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], ihdr, pngChunk('IDAT', [1]), pngChunk('IEND', []));
+  console.log(`${parseAnimation(still) === null && !isAnimatedImage(still) ? '✅' : '❌'} static PNG is not animated`);
+}
+
+function riff(type: string, data: number[]): number[] {
+  return [...Array.from(encoder.encode(type)), ...le32(data.length), ...data, ...(data.length & 1 ? [0] : [])];
+}
+
+export function testWebpStructure() {
+  console.log('Testing animated WebP structure...');
+
+  const anmf = (x: number, y: number, width: number, height: number, duration: number, flags: number) =>
+    riff('ANMF', [...le24(x / 2), ...le24(y / 2), ...le24(width - 1), ...le24(height - 1), ...le24(duration), flags, ...riff('VP8L', [0x2f, 1, 2])]);
+  const body = bytes(
+    'WEBP',
+    riff('VP8X', [0x12, 0, 0, 0, ...le24(99), ...le24(49)]),
+    riff('ANIM', [255, 255, 255, 255, ...le16(4)]),
+    anmf(0, 0, 100, 50, 80, 0),
+    anmf(10, 20, 30, 10, 40, 3)
+  );
+  const webp = bytes('RIFF', le32(body.length), body);
+
+  const info = parseAnimation(webp);
+  console.log(`${info?.format === 'webp' && info.width === 100 && info.height === 50 && info.loopCount === 4 ? '✅' : '❌'} canvas size and loop count`);
+  const second = info?.frames[1];
+  console.log(`${second && second.x === 10 && second.y === 20 && second.width === 30 && second.delay === 40 ? '✅' : '❌'} frame rectangle and duration`);
+  console.log(`${second?.dispose === 'background' && second.blend === 'source' && info?.frames[0].blend === 'over' ? '✅' : '❌'} disposal and blending flags`);
+}
+
+// Run tests
+testLzw();
+testGifAnimation()
+  .then(testApngStructure)
+  .then(testWebpStructure);
+
+export {};
@@ -0,0 +1,54 @@
+import { computePeaks, computeSpectrogram, fft, mixToMono, spectrogramColor } from '../../src/utils/audioAnalysis';
+
+export function testPeaks() {
+  console.log('Testing waveform peaks...');
+
+  const left = Float32Array.from([0, 0.5, -0.25, 0, 1, 0, -1, 0]);
+  const right = Float32Array.from([0, -0.75, 0, 0, 0, 0, 0, 0.1]);
+  const { min, max } = computePeaks([left, right], 4);
+  console.log(`${max[0] === 0.5 && min[0] === -0.75 ? '✅' : '❌'} bucket covers all channels`);
+  console.log(`${max[2] === 1 && min[3] === -1 && max[3] === Math.fround(0.1) ? '✅' : '❌'} later buckets`);
+
+  const wide = computePeaks([Float32Array.from([0.5, -0.5])], 4);
+  console.log(`${wide.max[0] === 0.5 && wide.min[3] === -0.5 ? '✅' : '❌'} more buckets than samples`);
+  console.log(`${computePeaks([], 3).max.length === 3 ? '✅' : '❌'} no channels`);
+}
+
+export function testSpectrum() {
+  console.log('Testing FFT and spectrogram...');
+
+  const n = 64;
+  const real = new Float32Array(n);
+  const imag = new Float32Array(n);
+  for (let i = 0; i < n; i++) real[i] = Math.cos((2 * Math.PI * 5 * i) / n);
+  fft(real, imag);
+  const magnitudes = Array.from(real, (value, i) => Math.hypot(value, imag[i]));
+  console.log(`${Math.abs(magnitudes[5] - n / 2) < 1e-3 && Math.abs(magnitudes[59] - n / 2) < 1e-3 ? '✅' : '❌'} cosine lands in its bin (${magnitudes[5].toFixed(3)})`);
+  console.log(`${magnitudes.every((value, i) => i === 5 || i === 59 || value < 1e-3) ? '✅' : '❌'} no leakage for a whole number of cycles`);
+
+  const sampleRate = 8000;
+  const tone = new Float32Array(sampleRate);
+  for (let i = 0; i < tone.length; i++) tone[i] = Math.sin((2 * Math.PI * 1000 * i) / sampleRate);
+  const { columns, bins } = computeSpectrogram(tone, sampleRate, { fftSize: 256, columns: 8 });
+  const peakBin = columns[3].indexOf(Math.max(...Array.from(columns[3])));
+  console.log(`${columns.length === 8 && bins === 128 ? '✅' : '❌'} requested columns and bins`);
+  console.log(`${peakBin === 32 ? '✅' : '❌'} 1 kHz tone peaks in bin 32 (${peakBin})`);
+  console.log(`${Math.abs(columns[3][32]) < 1 ? '✅' : '❌'} full-scale tone near 0 dB (${columns[3][32].toFixed(2)})`);
+  console.log(`${computeSpectrogram(new Float32Array(10), sampleRate, { fftSize: 64, columns: 2 }).columns[0][3] === -100 ? '✅' : '❌'} silence clamps to the floor`);
+}
+
+export function testHelpers() {
+  console.log('Testing audio helpers...');
+
+  const mono = mixToMono([Float32Array.from([1, 0]), Float32Array.from([0, -1])]);
+  console.log(`${mono[0] === 0.5 && mono[1] === -0.5 ? '✅' : '❌'} channels averaged`);
+  console.log(`${spectrogramColor(0).join(',') === '0,0,4' && spectrogramColor(1).join(',') === '252,255,164' ? '✅' : '❌'} color map ends`);
+  console.log(`${spectrogramColor(2).join(',') === spectrogramColor(1).join(',') ? '✅' : '❌'} levels clamped`);
+}
+
+// Run tests
+testPeaks();
+testSpectrum();
+testHelpers();
+
+export {};
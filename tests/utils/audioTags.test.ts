@@ -0,0 +1,130 @@
+import { parseAudioTags, parseId3v2, parseId3v1, parseOggTags, parseFlacTags } from '../../src/utils/audioTags';
+
+const encoder = new TextEncoder();
+
+function bytes(...parts: Array<number[] | Uint8Array | string>): Uint8Array {
+  const arrays = parts.map(part => (typeof part === 'string' ? encoder.encode(part) : Uint8Array.from(part)));
+  const output = new Uint8Array(arrays.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  arrays.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+const be32 = (value: number) => [value >>> 24, (value >> 16) & 255, (value >> 8) & 255, value & 255];
+const le32 = (value: number) => [value & 255, (value >> 8) & 255, (value >> 16) & 255, value >>> 24];
+const syncsafe = (value: number) => [(value >> 21) & 127, (value >> 14) & 127, (value >> 7) & 127, value & 127];
+
+function id3Frame(id: string, data: Uint8Array, version: number): Uint8Array {
+  return bytes(id, version === 4 ? syncsafe(data.length) : be32(data.length), [0, 0], data);
+}
+
+function id3Tag(frames: Uint8Array[], version: number): Uint8Array {
+  const body = bytes(...frames, new Array(16).fill(0)); // Trailing padding
+  return bytes('ID3', [version, 0, 0], syncsafe(body.length), body);
+}
+
+function utf16(text: string): number[] {
+  const output = [0xff, 0xfe];
+  for (const char of text) output.push(char.charCodeAt(0) & 255, char.charCodeAt(0) >> 8);
+  return output;
+}
+
+const PNG_BYTES = [0x89, 0x50, 0x4e, 0x47, 1, 2, 3];
+
+export function testId3() {
+  console.log('Testing ID3 tags...');
+
+  const tag = id3Tag([
+    id3Frame('TIT2', bytes([3], 'Genesis Block Blues'), 3),
+    id3Frame('TPE1', bytes([1], utf16('Sätoshi'), [0, 0]), 3),
+    id3Frame('TCON', bytes([0], '(17)'), 3),
+    id3Frame('APIC', bytes([0], 'image/png', [0, 4], 'back', [0], [9, 9]), 3),
+    id3Frame('APIC', bytes([0], 'image/png', [0, 3], 'front', [0], PNG_BYTES), 3)
+  ], 3);
+  const mp3 = bytes(tag, [0xff, 0xfb, 0x90, 0x00]);
+
+  const tags = parseAudioTags(mp3);
+  console.log(`${tags?.format === 'id3v2' && tags.title === 'Genesis Block Blues' ? '✅' : '❌'} UTF-8 title`);
+  console.log(`${tags?.artist === 'Sätoshi' ? '✅' : '❌'} UTF-16 artist with BOM (${tags?.artist})`);
+  console.log(`${tags?.genre === 'Rock' ? '✅' : '❌'} numeric genre resolved`);
+  console.log(`${tags?.picture?.description === 'front' && tags.picture.data.length === PNG_BYTES.length && tags.picture.mimeType === 'image/png' ? '✅' : '❌'} front cover preferred over other pictures`);
+
+  const v24 = parseId3v2(id3Tag([id3Frame('TALB', bytes([3], 'Ordinals\u0000Second'), 4), id3Frame('TDRC', bytes([0], '2023'), 4)], 4));
+  console.log(`${v24?.album === 'Ordinals' && v24.year === '2023' ? '✅' : '❌'} ID3v2.4 syncsafe frames, first of multiple values`);
+
+  const v1 = new Uint8Array(128);
+  v1.set(encoder.encode('TAG'));
+  v1.set(encoder.encode('Old Song'), 3);
+  v1.set(encoder.encode('1999'), 93);
+  v1[126] = 7;
+  v1[127] = 8;
+  const legacy = parseId3v1(bytes([0xff, 0xfb], v1));
+  console.log(`${legacy?.title === 'Old Song' && legacy.year === '1999' && legacy.track === '7' && legacy.genre === 'Jazz' ? '✅' : '❌'} ID3v1.1 fields`);
+  console.log(`${parseAudioTags(bytes([0xff, 0xfb], v1))?.format === 'id3v1' ? '✅' : '❌'} falls back to ID3v1`);
+  console.log(`${parseAudioTags(bytes([0xff, 0xfb, 0, 0])) === null ? '✅' : '❌'} untagged file`);
+}
+
+function vorbisComment(entries: string[]): Uint8Array {
+  const vendor = 'test vendor';
+  return bytes(le32(vendor.length), vendor, le32(entries.length), ...entries.flatMap(entry => [le32(encoder.encode(entry).length), entry]));
+}
+
+function flacPicture(type: number, mime: string, data: number[]): Uint8Array {
+  return bytes(be32(type), be32(mime.length), mime, be32(0), be32(1), be32(1), be32(24), be32(0), be32(data.length), data);
+}
+
+function oggPage(serial: number, sequence: number, packetData: Uint8Array[]): Uint8Array {
+  const lacing: number[] = [];
+  packetData.forEach(packet => {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  });
+  return bytes('OggS', [0, 0], new Array(8).fill(0), le32(serial), le32(sequence), [0, 0, 0, 0], [lacing.length], lacing, ...packetData);
+}
+
+export function testVorbis() {
+  console.log('Testing Vorbis comments...');
+
+  const picture = flacPicture(3, 'image/jpeg', [0xff, 0xd8, 0xff]);
+  const comments = vorbisComment([
+    'title=Inscribed',
+    'ARTIST=Rodarmor',
+    'TrackNumber=2',
+    `METADATA_BLOCK_PICTURE=${btoa(String.fromCharCode(...Array.from(picture)))}`
+  ]);
+
+  const ogg = bytes(
+    oggPage(7, 0, [bytes([1], 'vorbis', new Array(23).fill(0))]),
+    oggPage(7, 1, [bytes([3], 'vorbis', comments, [1])])
+  );
+  const oggTags = parseOggTags(ogg);
+  console.log(`${oggTags?.title === 'Inscribed' && oggTags.artist === 'Rodarmor' && oggTags.track === '2' ? '✅' : '❌'} Ogg Vorbis fields, case-insensitive keys`);
+  console.log(`${oggTags?.picture?.mimeType === 'image/jpeg' && oggTags.picture.data.length === 3 ? '✅' : '❌'} base64 picture block`);
+
+  // A comment packet longer than 255 bytes spans several lacing values
+  const long = vorbisComment(['TITLE=' + 'x'.repeat(600)]);
+  const opus = bytes(oggPage(9, 0, [bytes('OpusHead', new Array(11).fill(0))]), oggPage(9, 1, [bytes('OpusTags', long)]));
+  console.log(`${parseOggTags(opus)?.title?.length === 600 ? '✅' : '❌'} Opus tags across lacing segments`);
+
+  const flac = bytes(
+    'fLaC',
+    [0, 0, 0, 34], new Array(34).fill(0), // STREAMINFO
+    [4, 0, 0, comments.length], comments,
+    [0x86, 0, 0, picture.length], picture
+  );
+  const flacTags = parseFlacTags(flac);
+  console.log(`${flacTags?.title === 'Inscribed' && flacTags.picture?.data.length === 3 ? '✅' : '❌'} FLAC comment and picture blocks`);
+}
+
+// Run tests
+testId3();
+testVorbis();
+
+export {};
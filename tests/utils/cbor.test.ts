@@ -0,0 +1,55 @@
+import { decodeCborHex, cborToJson, CborByteString, CborTag } from '../../src/utils/cbor';
+
+// CBOR decoder tests (vectors from RFC 8949 Appendix A)
+export function testCborVectors() {
+  console.log('Testing CBOR decoder against RFC 8949 vectors...');
+
+  const vectors: Array<{ hex: string; expected: unknown }> = [
+    { hex: '00', expected: 0 },
+    { hex: '1903e8', expected: 1000 },
+    { hex: '3903e7', expected: -1000 },
+    { hex: '1bffffffffffffffff', expected: '18446744073709551615' },
+    { hex: 'c249010000000000000000', expected: '18446744073709551616' },
+    { hex: 'f93c00', expected: 1 },
+    { hex: 'fb3ff199999999999a', expected: 1.1 },
+    { hex: 'f4', expected: false },
+    { hex: 'f6', expected: null },
+    { hex: '6449455446', expected: 'IETF' },
+    { hex: '8301820203820405', expected: [1, [2, 3], [4, 5]] },
+    { hex: 'a26161016162820203', expected: { a: 1, b: [2, 3] } },
+    { hex: '9f018202039f0405ffff', expected: [1, [2, 3], [4, 5]] },
+    { hex: '7f657374726561646d696e67ff', expected: 'streaming' },
+    { hex: '4401020304', expected: "h'01020304'" }
+  ];
+
+  vectors.forEach(({ hex, expected }) => {
+    const result = decodeCborHex(hex);
+    const actual = result.error ? result.error : cborToJson(result.value);
+    const passed = JSON.stringify(actual) === JSON.stringify(expected);
+    console.log(`${passed ? '✅' : '❌'} ${hex}:`, actual);
+  });
+}
+
+export function testCborStructures() {
+  console.log('Testing CBOR tags, byte strings and failures...');
+
+  const tagged = decodeCborHex('c074323031332d30332d32315432303a30343a30305a');
+  const isTag = tagged.value instanceof CborTag && tagged.value.tag === 0;
+  console.log(`${isTag ? '✅' : '❌'} tag 0 date string preserved`);
+
+  const bytes = decodeCborHex('43010203');
+  const isBytes = bytes.value instanceof CborByteString && bytes.value.bytes.length === 3;
+  console.log(`${isBytes ? '✅' : '❌'} byte string preserved`);
+
+  const truncated = decodeCborHex('8301');
+  console.log(`${truncated.error && truncated.bytes.length === 2 ? '✅' : '❌'} truncated input reports error and keeps bytes:`, truncated.error);
+
+  const invalidHex = decodeCborHex('zz');
+  console.log(`${invalidHex.error ? '✅' : '❌'} invalid hex rejected:`, invalidHex.error);
+}
+
+// Run tests
+testCborVectors();
+testCborStructures();
+
+export {};
@@ -0,0 +1,327 @@
+import {
+  parseZip,
+  parseTar,
+  parseFont,
+  parsePdf,
+  parsePe,
+  parseElf,
+  inspectContainer,
+  openArchive
+} from '../../src/utils/containerParsers';
+
+const encoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+function block(size: number, write: (view: DataView, bytes: Uint8Array) => void): Uint8Array {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer), bytes);
+  return bytes;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+interface ZipFixtureFile {
+  name: string;
+  data: Uint8Array;
+  size?: number;
+  method?: number;
+}
+
+/** Two stored files plus a directory, with a central directory */
+function buildZip(files: ZipFixtureFile[] = [
+  { name: 'readme.txt', data: encoder.encode('hello') },
+  { name: 'assets/', data: new Uint8Array(0) },
+  { name: 'assets/logo.svg', data: encoder.encode('<svg/>') }
+]): Uint8Array {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const local = block(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(8, file.method || 0, true);
+      view.setUint16(12, (2024 - 1980) << 9 | 3 << 5 | 15, true);
+      view.setUint32(18, file.data.length, true);
+      view.setUint32(22, file.size ?? file.data.length, true);
+      view.setUint16(26, name.length, true);
+    });
+    const central = block(46, view => {
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(10, file.method || 0, true);
+      view.setUint16(14, (2024 - 1980) << 9 | 3 << 5 | 15, true);
+      view.setUint32(20, file.data.length, true);
+      view.setUint32(24, file.size ?? file.data.length, true);
+      view.setUint16(28, name.length, true);
+      view.setUint32(42, offset, true);
+    });
+    locals.push(local, name, file.data);
+    centrals.push(central, name);
+    offset += local.length + name.length + file.data.length;
+  });
+
+  const directory = concat(...centrals);
+  const end = block(22, view => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, files.length, true);
+    view.setUint16(10, files.length, true);
+    view.setUint32(12, directory.length, true);
+    view.setUint32(16, offset, true);
+  });
+  return concat(...locals, directory, end);
+}
+
+function tarHeader(name: string, size: number, type: string): Uint8Array {
+  const header = new Uint8Array(512);
+  const write = (offset: number, text: string) => header.set(encoder.encode(text), offset);
+  write(0, name);
+  write(100, '0000644\0');
+  write(124, size.toString(8).padStart(11, '0') + '\0');
+  write(136, '14567123400\0');
+  write(156, type);
+  write(257, 'ustar\u000000');
+  return header;
+}
+
+function buildTar(): Uint8Array {
+  const longName = `${'deep/'.repeat(25)}file.txt`;
+  const content = encoder.encode('tar body');
+  const padded = new Uint8Array(512);
+  padded.set(content);
+  const longNameData = new Uint8Array(512);
+  longNameData.set(encoder.encode(longName));
+
+  return concat(
+    tarHeader('folder/', 0, '5'),
+    tarHeader('././@LongLink', longName.length + 1, 'L'),
+    longNameData,
+    tarHeader('truncated', content.length, '0'),
+    padded,
+    new Uint8Array(1024)
+  );
+}
+
+/** Minimal TrueType font with name, maxp and head tables */
+function buildFont(): Uint8Array {
+  const names: Array<[number, string]> = [[1, 'Ordinal Sans'], [2, 'Bold'], [5, 'Version 1.002']];
+  const storage = concat(...names.map(([, value]) => {
+    const bytes = new Uint8Array(value.length * 2);
+    Array.from(value).forEach((char, i) => bytes[i * 2 + 1] = char.charCodeAt(0));
+    return bytes;
+  }));
+  let stringOffset = 0;
+  const name = concat(
+    block(6 + names.length * 12, view => {
+      view.setUint16(2, names.length);
+      view.setUint16(4, 6 + names.length * 12);
+      names.forEach(([id, value], i) => {
+        const record = 6 + i * 12;
+        view.setUint16(record, 3);
+        view.setUint16(record + 2, 1);
+        view.setUint16(record + 4, 0x409);
+        view.setUint16(record + 6, id);
+        view.setUint16(record + 8, value.length * 2);
+        view.setUint16(record + 10, stringOffset);
+        stringOffset += value.length * 2;
+      });
+    }),
+    storage
+  );
+  const maxp = block(6, view => view.setUint16(4, 321));
+  const head = block(54, view => view.setUint16(18, 2048));
+  // Format 4 cmap mapping A-C, plus the required 0xFFFF end segment
+  const cmap = block(12 + 32, view => {
+    view.setUint16(2, 1);
+    view.setUint16(4, 3);
+    view.setUint16(6, 1);
+    view.setUint32(8, 12);
+    const subtable = 12;
+    view.setUint16(subtable, 4);
+    view.setUint16(subtable + 2, 32);
+    view.setUint16(subtable + 6, 4);
+    [0x43, 0xffff].forEach((end, i) => view.setUint16(subtable + 14 + i * 2, end));
+    [0x41, 0xffff].forEach((start, i) => view.setUint16(subtable + 20 + i * 2, start));
+    [(1 - 0x41) & 0xffff, 1].forEach((delta, i) => view.setUint16(subtable + 24 + i * 2, delta));
+  });
+
+  const tables: Array<[string, Uint8Array]> = [['cmap', cmap], ['head', head], ['maxp', maxp], ['name', name]];
+  let tableOffset = 12 + tables.length * 16;
+  const directory = block(12 + tables.length * 16, (view, bytes) => {
+    view.setUint32(0, 0x00010000);
+    view.setUint16(4, tables.length);
+    tables.forEach(([tag, data], i) => {
+      bytes.set(encoder.encode(tag), 12 + i * 16);
+      view.setUint32(12 + i * 16 + 8, tableOffset);
+      view.setUint32(12 + i * 16 + 12, data.length);
+      tableOffset += data.length;
+    });
+  });
+  return concat(directory, ...tables.map(([, data]) => data));
+}
+
+function buildPdf(): Uint8Array {
+  return encoder.encode([
+    '%PDF-1.7',
+    '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+    '2 0 obj << /Type /Pages /Kids [3 0 R 4 0 R 5 0 R] /Count 3 >> endobj',
+    '3 0 obj << /Type /Page /Parent 2 0 R >> endobj',
+    '4 0 obj << /Type /Page /Parent 2 0 R >> endobj',
+    '5 0 obj << /Type /Page /Parent 2 0 R >> endobj',
+    '6 0 obj << /Title (Satoshi \\(draft\\)) /Author <FEFF0041006C0069006300650> /CreationDate (D:20240102030405Z) >> endobj',
+    'trailer << /Root 1 0 R /Info 6 0 R >>',
+    '%%EOF'
+  ].join('\n'));
+}
+
+function buildPe(): Uint8Array {
+  return block(0x200, (view, bytes) => {
+    bytes.set(encoder.encode('MZ'));
+    view.setUint32(0x3c, 0x80, true);
+    bytes.set(encoder.encode('PE\0\0'), 0x80);
+    view.setUint16(0x84, 0x8664, true); // machine
+    view.setUint16(0x86, 1, true); // sections
+    view.setUint32(0x88, 1700000000, true);
+    view.setUint16(0x94, 240, true); // optional header size
+    view.setUint16(0x96, 0x2022, true); // executable, large address aware, DLL
+    view.setUint16(0x98, 0x20b, true); // PE32+
+    view.setUint32(0x98 + 16, 0x1234, true);
+    view.setBigUint64(0x98 + 24, BigInt(0x180000000), true);
+    view.setUint16(0x98 + 68, 3, true);
+    bytes.set(encoder.encode('.text'), 0x98 + 240);
+    view.setUint32(0x98 + 240 + 16, 0x400, true);
+  });
+}
+
+function buildElf(): Uint8Array {
+  const interpreter = encoder.encode('/lib64/ld-linux-x86-64.so.2\0');
+  const strings = encoder.encode('\0.text\0.shstrtab\0');
+  const stringsOffset = 0x100;
+  const sectionOffset = 0x140;
+
+  return block(0x200, (view, bytes) => {
+    bytes.set([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 3]);
+    view.setUint16(16, 3, true); // DYN
+    view.setUint16(18, 62, true); // x86-64
+    view.setBigUint64(24, BigInt(0x401000), true);
+    view.setBigUint64(32, BigInt(64), true); // program headers
+    view.setBigUint64(40, BigInt(sectionOffset), true);
+    view.setUint16(54, 56, true);
+    view.setUint16(56, 1, true);
+    view.setUint16(58, 64, true);
+    view.setUint16(60, 3, true);
+    view.setUint16(62, 2, true);
+
+    view.setUint32(64, 3, true); // PT_INTERP
+    view.setBigUint64(64 + 8, BigInt(0xc0), true);
+    view.setBigUint64(64 + 32, BigInt(interpreter.length), true);
+    bytes.set(interpreter, 0xc0);
+
+    bytes.set(strings, stringsOffset);
+    view.setUint32(sectionOffset + 64, 1, true); // .text
+    view.setBigUint64(sectionOffset + 64 + 32, BigInt(0x80), true);
+    view.setUint32(sectionOffset + 128, 7, true); // .shstrtab
+    view.setBigUint64(sectionOffset + 128 + 24, BigInt(stringsOffset), true);
+    view.setBigUint64(sectionOffset + 128 + 32, BigInt(strings.length), true);
+  });
+}
+
+// Container parser tests
+export function testArchiveListings() {
+  console.log('Testing ZIP and TAR listings...');
+
+  const zip = parseZip(buildZip());
+  const names = zip.entries.map(entry => entry.name).join();
+  console.log(`${names === 'readme.txt,assets/,assets/logo.svg' ? '✅' : '❌'} ZIP central directory listing`, names);
+  console.log(`${zip.entries[1].isDirectory && zip.totalSize === 11 && !zip.truncated ? '✅' : '❌'} ZIP directories and sizes`);
+  console.log(`${zip.entries[0].modified?.getFullYear() === 2024 && zip.entries[0].methodName === 'Stored' ? '✅' : '❌'} ZIP DOS dates and methods`);
+
+  const truncated = parseZip(buildZip().subarray(0, 80));
+  console.log(`${truncated.truncated && truncated.entries[0].name === 'readme.txt' ? '✅' : '❌'} truncated ZIP falls back to local headers`);
+
+  const tar = parseTar(buildTar());
+  console.log(`${tar.entries.length === 2 && tar.entries[0].type === 'directory' ? '✅' : '❌'} TAR entries and types`);
+  console.log(`${tar.entries[1].name.endsWith('deep/file.txt') && tar.entries[1].size === 8 ? '✅' : '❌'} TAR GNU long names`);
+}
+
+export async function testFontAndPdf() {
+  console.log('Testing font and PDF details...');
+
+  const font = await parseFont(buildFont());
+  console.log(`${font.family === 'Ordinal Sans' && font.subfamily === 'Bold' ? '✅' : '❌'} font family and style`, font.family, font.subfamily);
+  console.log(`${font.glyphCount === 321 && font.unitsPerEm === 2048 && font.format === 'TrueType' ? '✅' : '❌'} glyph count and units per em`);
+  console.log(`${font.codepoints?.join() === '65,66,67' ? '✅' : '❌'} cmap codepoints`, font.codepoints);
+
+  const pdf = await parsePdf(buildPdf());
+  console.log(`${pdf.pageCount === 3 && pdf.version === '1.7' ? '✅' : '❌'} PDF page count and version`, pdf.pageCount);
+  console.log(`${pdf.title === 'Satoshi (draft)' && pdf.author === 'Alice' ? '✅' : '❌'} PDF literal and UTF-16 hex strings`, pdf.title, pdf.author);
+  console.log(`${pdf.creationDate?.toISOString() === '2024-01-02T03:04:05.000Z' && !pdf.encrypted ? '✅' : '❌'} PDF dates`);
+}
+
+export function testExecutableHeaders() {
+  console.log('Testing executable headers...');
+
+  const pe = parsePe(buildPe());
+  console.log(`${pe.machine === 'x86-64' && pe.is64Bit && pe.isDll ? '✅' : '❌'} PE machine and flags`, pe.machine);
+  console.log(`${pe.subsystem === 'Windows console' && pe.imageBase === '0x180000000' && pe.sections[0].name === '.text' ? '✅' : '❌'} PE optional header and sections`);
+
+  const elf = parseElf(buildElf());
+  console.log(`${elf.machine === 'x86-64' && elf.type === 'Shared object / PIE' && elf.osAbi === 'Linux' ? '✅' : '❌'} ELF header`, elf.machine, elf.type);
+  console.log(`${elf.interpreter === '/lib64/ld-linux-x86-64.so.2' && elf.sections.map(section => section.name).join() === '.text,.shstrtab' ? '✅' : '❌'} ELF interpreter and sections`);
+}
+
+export async function testInspectDispatch() {
+  console.log('Testing sniff-based dispatch...');
+
+  const zip = await inspectContainer(new Blob([buildZip()]));
+  const pdf = await inspectContainer(buildPdf());
+  const text = await inspectContainer(encoder.encode('just some text'));
+  const broken = await inspectContainer(encoder.encode('MZ but not really a PE file at all, only text here...... and more'));
+
+  console.log(`${zip?.kind === 'zip' && pdf?.kind === 'pdf' ? '✅' : '❌'} parser chosen from the sniffed signature`);
+  console.log(`${text === null && broken === null ? '✅' : '❌'} unknown or unparseable content returns null`);
+}
+
+export async function testArchiveExtraction() {
+  console.log('Testing archive entry extraction...');
+
+  const text = 'ordinals '.repeat(100);
+  const zip = await openArchive(buildZip([
+    { name: 'stored.txt', data: encoder.encode('plain') },
+    { name: 'docs/deflated.txt', data: await deflateRaw(encoder.encode(text)), size: text.length, method: 8 }
+  ]));
+  const decoder = new TextDecoder();
+  const stored = decoder.decode(await zip!.read('stored.txt'));
+  const deflated = decoder.decode(await zip!.read('docs/deflated.txt'));
+  console.log(`${zip?.kind === 'zip' && zip.entries[1].method === 'Deflate' ? '✅' : '❌'} ZIP opened for browsing`);
+  console.log(`${stored === 'plain' && deflated === text ? '✅' : '❌'} stored and deflated entries extracted`);
+
+  const tar = await openArchive(buildTar());
+  const body = decoder.decode(await tar!.read(tar!.entries[1].path));
+  console.log(`${tar?.entries[0].path === 'folder/' && body === 'tar body' ? '✅' : '❌'} TAR entry extracted`);
+
+  let missing = '';
+  await zip!.read('nope.txt').catch(error => { missing = error.message; });
+  console.log(`${missing === 'nope.txt is not in the archive' ? '✅' : '❌'} missing entries are rejected`);
+}
+
+// Run tests
+testArchiveListings();
+testFontAndPdf()
+  .then(testExecutableHeaders)
+  .then(testInspectDispatch)
+  .then(testArchiveExtraction);
+
+export {};
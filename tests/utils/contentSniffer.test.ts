@@ -0,0 +1,97 @@
+import { ContentSniffer, sniffContent, looksLikeText } from '../../src/utils/contentSniffer';
+import { detectContentTypeFromBytes } from '../../src/utils/contentDetection';
+
+function bytesOf(...parts: Array<string | number[]>): Uint8Array {
+  const values: number[] = [];
+  parts.forEach(part => {
+    if (typeof part === 'string') {
+      for (let i = 0; i < part.length; i++) values.push(part.charCodeAt(i));
+    } else {
+      values.push(...part);
+    }
+  });
+  return new Uint8Array(values);
+}
+
+function padTo(bytes: Uint8Array, length: number): Uint8Array {
+  const padded = new Uint8Array(Math.max(length, bytes.length));
+  padded.set(bytes);
+  return padded;
+}
+
+// Content sniffing tests
+export function testBuiltInSignatures() {
+  console.log('Testing built-in signatures...');
+
+  const cases: Array<[string, Uint8Array, string]> = [
+    ['PNG', bytesOf([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), 'image/png'],
+    ['JPEG', bytesOf([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg'],
+    ['WebP', bytesOf('RIFF', [0, 0, 0, 0], 'WEBPVP8 '), 'image/webp'],
+    ['AVIF', bytesOf([0, 0, 0, 0x20], 'ftypavif'), 'image/avif'],
+    ['MP4', bytesOf([0, 0, 0, 0x20], 'ftypisom'), 'video/mp4'],
+    ['WebM', padTo(bytesOf([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84], 'webm'), 32), 'video/webm'],
+    ['Opus', padTo(bytesOf('OggS', new Array(24).fill(0), 'OpusHead'), 40), 'audio/opus'],
+    ['MP3 frame', bytesOf([0xff, 0xfb, 0x90, 0x64]), 'audio/mpeg'],
+    ['WOFF2', bytesOf('wOF2', [0, 1, 0, 0]), 'font/woff2'],
+    ['GLB', bytesOf('glTF', [2, 0, 0, 0]), 'model/gltf-binary'],
+    ['TAR', padTo(new Uint8Array(257), 262).map((byte, i) => (i >= 257 ? 'ustar'.charCodeAt(i - 257) : byte)), 'application/x-tar'],
+    ['EPUB', bytesOf([0x50, 0x4b, 0x03, 0x04], new Array(26).fill(0), 'mimetypeapplication/epub+zip'), 'application/epub+zip'],
+    ['DOCX', bytesOf([0x50, 0x4b, 0x03, 0x04], new Array(26).fill(0), '[Content_Types].xml', new Array(40).fill(0), 'word/document.xml'), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    ['PDF', bytesOf('%PDF-1.7'), 'application/pdf']
+  ];
+
+  cases.forEach(([name, bytes, expected]) => {
+    const match = sniffContent(bytes);
+    console.log(`${match?.mimeType === expected ? '✅' : '❌'} ${name}: ${match?.mimeType} (${match?.confidence})`);
+  });
+}
+
+export function testTextIsNotMisdetected() {
+  console.log('Testing that text does not match binary signatures...');
+
+  const samples = ['BMW owners club', 'ID3 tags explained', 'MZ is a postcode', 'solid state drives', 'GIF87 was an old year'];
+  samples.forEach(sample => {
+    const match = sniffContent(new TextEncoder().encode(sample.padEnd(400, ' ')));
+    console.log(`${match === null ? '✅' : '❌'} "${sample}" -> ${match?.mimeType ?? 'no match'}`);
+  });
+
+  console.log(`${looksLikeText(new TextEncoder().encode('hello\nworld')) && !looksLikeText(bytesOf([0x89, 0x50, 0x00])) ? '✅' : '❌'} looksLikeText`);
+}
+
+export function testCustomSignatures() {
+  console.log('Testing custom signature registration...');
+
+  const sniffer = new ContentSniffer();
+  const bytes = bytesOf('ORD1', [0xff, 0x00], 'payload');
+  console.log(`${sniffer.sniff(bytes) === null ? '✅' : '❌'} unknown format before registration`);
+
+  sniffer.register({
+    id: 'ord-frame',
+    mimeType: 'application/x-ord-frame',
+    extension: 'ord',
+    label: 'Ord Frame',
+    kind: 'data',
+    confidence: 0.9,
+    patterns: [{ bytes: 'ORD' }, { offset: 4, bytes: [0xf0], mask: [0xf0] }]
+  });
+  console.log(`${sniffer.sniff(bytes)?.mimeType === 'application/x-ord-frame' ? '✅' : '❌'} masked custom signature matches`);
+  console.log(`${sniffer.sniff(bytes, { minConfidence: 0.95 }) === null ? '✅' : '❌'} minConfidence filters weak matches`);
+
+  const png = bytesOf([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d], 'IHDR', new Array(25).fill(0), 'acTL');
+  console.log(`${sniffer.sniffAll(png).map(match => match.signature.id).join() === 'apng,png' ? '✅' : '❌'} more specific match ranks first`);
+}
+
+export function testDetectContentTypeFromBytes() {
+  console.log('Testing detectContentTypeFromBytes...');
+
+  console.log(`${detectContentTypeFromBytes(bytesOf('fLaC', [0, 0, 0, 0x22])) === 'audio/flac' ? '✅' : '❌'} binary formats use the signature table`);
+  console.log(`${detectContentTypeFromBytes(new TextEncoder().encode('{"p":"brc-20"}')) === 'application/json' ? '✅' : '❌'} text heuristics still apply`);
+}
+
+// Run tests
+testBuiltInSignatures();
+testTextIsNotMisdetected();
+testCustomSignatures();
+testDetectContentTypeFromBytes();
+
+export {};
@@ -0,0 +1,83 @@
+import {
+  parseDelimitedRows,
+  parseDelimited,
+  detectDelimiter,
+  inferColumnType,
+  parseNumber,
+  compareCells,
+  matchesFilter,
+  formatDelimited
+} from '../../src/utils/delimitedText';
+
+export function testQuotedFields() {
+  console.log('Testing delimited field parsing...');
+
+  const rows = parseDelimitedRows('\ufeffname,note\r\n"Smith, J","said ""gm""\nthen left"\r\n\r\nplain,x"y\n', ',');
+  console.log(`${rows.length === 3 ? '✅' : '❌'} blank lines skipped, BOM removed (${rows.length} rows)`);
+  console.log(`${rows[0][0] === 'name' ? '✅' : '❌'} BOM stripped from first field`);
+  console.log(`${rows[1][0] === 'Smith, J' ? '✅' : '❌'} quoted delimiter`);
+  console.log(`${rows[1][1] === 'said "gm"\nthen left' ? '✅' : '❌'} escaped quotes and embedded newline`);
+  console.log(`${rows[2][1] === 'x"y' ? '✅' : '❌'} stray quote inside unquoted field kept`);
+
+  const trailing = parseDelimitedRows('a,b,\n1,2,', ',');
+  console.log(`${trailing[1].length === 3 && trailing[1][2] === '' ? '✅' : '❌'} trailing empty field without final newline`);
+}
+
+export function testDetection() {
+  console.log('Testing delimiter, header and type detection...');
+
+  console.log(`${detectDelimiter('a\tb\tc\n1\t2\t3') === '\t' ? '✅' : '❌'} tab delimiter`);
+  console.log(`${detectDelimiter('a;b;c\n"1,5";2;3') === ';' ? '✅' : '❌'} semicolon delimiter despite commas in quotes`);
+  console.log(`${detectDelimiter('single column\nvalues') === ',' ? '✅' : '❌'} single column defaults to comma`);
+
+  console.log(`${inferColumnType(['1', '-2.5', '', '1,234', '$5', '12%']) === 'number' ? '✅' : '❌'} numbers with separators, currency and percent`);
+  console.log(`${inferColumnType(['2024-01-02', '2023-12-31T10:00:00Z']) === 'date' ? '✅' : '❌'} ISO dates`);
+  console.log(`${inferColumnType(['yes', 'No', 'TRUE']) === 'boolean' ? '✅' : '❌'} booleans`);
+  console.log(`${inferColumnType(['1', 'two']) === 'text' ? '✅' : '❌'} mixed column is text`);
+  console.log(`${parseNumber('1,234.5') === 1234.5 && parseNumber('1,23') === null && parseNumber('-') === null ? '✅' : '❌'} number parsing`);
+
+  const table = parseDelimited('inscription,sats,date\nabc,546,2024-03-01\ndef,10000,2024-03-02');
+  console.log(`${table.hasHeader && table.columns.map(column => column.type).join(',') === 'text,number,date' ? '✅' : '❌'} header detected above typed columns`);
+  console.log(`${table.rows.length === 2 && table.columns[1].name === 'sats' ? '✅' : '❌'} header row separated from data`);
+
+  const headless = parseDelimited('1,2\n3,4');
+  console.log(`${!headless.hasHeader && headless.columns[0].name === 'Column 1' && headless.rows.length === 2 ? '✅' : '❌'} numeric first row is data`);
+
+  const ragged = parseDelimited('a,b\n1\n2,3,4', { header: true });
+  console.log(`${ragged.columns.length === 3 && ragged.rows[0].length === 3 ? '✅' : '❌'} ragged rows padded to the widest row`);
+}
+
+export function testSortingAndFiltering() {
+  console.log('Testing sorting and filtering...');
+
+  const numbers = ['10', '', '9', '100'].sort((a, b) => compareCells(a, b, 'number'));
+  console.log(`${numbers.join('|') === '9|10|100|' ? '✅' : '❌'} numeric sort with empty cells last`);
+  const descending = ['10', '', '9'].sort((a, b) => compareCells(a, b, 'number', 'desc'));
+  console.log(`${descending.join('|') === '10|9|' ? '✅' : '❌'} descending keeps empty cells last`);
+  const text = ['item10', 'Item2', 'item1'].sort((a, b) => compareCells(a, b, 'text'));
+  console.log(`${text.join('|') === 'item1|Item2|item10' ? '✅' : '❌'} natural, case-insensitive text sort`);
+
+  console.log(`${matchesFilter('546', 'number', '>500') && !matchesFilter('546', 'number', '>=1000') ? '✅' : '❌'} numeric comparisons`);
+  console.log(`${matchesFilter('7', 'number', '5..10') && !matchesFilter('11', 'number', '5..10') ? '✅' : '❌'} numeric range`);
+  console.log(`${matchesFilter('2024-03-02', 'date', '>2024-03-01') ? '✅' : '❌'} date comparison`);
+  console.log(`${matchesFilter('Rare Sat', 'text', 'sat') && matchesFilter('Rare Sat', 'text', '=rare sat') && !matchesFilter('Rare Sat', 'text', '!rare') ? '✅' : '❌'} text contains, exact and exclude`);
+}
+
+export function testExport() {
+  console.log('Testing delimited export...');
+
+  const output = formatDelimited([['name', 'note'], ['Smith, J', 'said "gm"'], [' padded', 'multi\nline']], ',');
+  console.log(`${output === 'name,note\n"Smith, J","said ""gm"""\n" padded","multi\nline"\n' ? '✅' : '❌'} fields quoted only when needed`);
+
+  const roundTrip = parseDelimitedRows(output, ',');
+  console.log(`${roundTrip[1][1] === 'said "gm"' && roundTrip[2][1] === 'multi\nline' ? '✅' : '❌'} export parses back unchanged`);
+  console.log(`${formatDelimited([['a,b', 'c']], '\t') === 'a,b\tc\n' ? '✅' : '❌'} commas unquoted in TSV`);
+}
+
+// Run tests
+testQuotedFields();
+testDetection();
+testSortingAndFiltering();
+testExport();
+
+export {};
@@ -0,0 +1,132 @@
+import { parseMarkdown, parseInline, parseHtml, sanitizeUrl, resolveRecursiveUrl, markdownInlineText } from '../../src/utils/markdown';
+
+export function testBlocks() {
+  console.log('Testing markdown blocks...');
+
+  const blocks = parseMarkdown([
+    '# Title',
+    '',
+    'Intro *text*',
+    'continues here.',
+    '',
+    'Setext',
+    '------',
+    '',
+    '```js',
+    'const a = 1;',
+    '```',
+    '',
+    '> quoted',
+    'lazy line',
+    '',
+    '---',
+    '',
+    '    indented code'
+  ].join('\n'));
+  const [heading, paragraph, setext, code, quote, rule, indented] = blocks;
+
+  console.log(`${blocks.length === 7 ? '✅' : '❌'} block count`);
+  console.log(`${heading.type === 'heading' && heading.level === 1 && heading.id === 'title' ? '✅' : '❌'} ATX heading with slug`);
+  console.log(`${paragraph.type === 'paragraph' && markdownInlineText(paragraph.children) === 'Intro text\ncontinues here.' ? '✅' : '❌'} multi-line paragraph`);
+  console.log(`${setext.type === 'heading' && setext.level === 2 ? '✅' : '❌'} setext heading`);
+  console.log(`${code.type === 'code' && code.language === 'js' && code.text === 'const a = 1;' ? '✅' : '❌'} fenced code keeps language`);
+  console.log(`${quote.type === 'blockquote' && quote.children.length === 1 && quote.children[0].type === 'paragraph' ? '✅' : '❌'} blockquote with lazy continuation`);
+  console.log(`${rule.type === 'rule' && indented.type === 'code' && indented.text === 'indented code' ? '✅' : '❌'} rule and indented code`);
+
+  const duplicates = parseMarkdown('## Notes\n\n## Notes');
+  const ids = duplicates.map(block => (block.type === 'heading' ? block.id : ''));
+  console.log(`${ids[0] === 'notes' && ids[1] === 'notes-1' ? '✅' : '❌'} duplicate headings get unique ids`);
+}
+
+export function testListsAndTables() {
+  console.log('Testing lists and GFM tables...');
+
+  const [tasks] = parseMarkdown('- [x] done\n- [ ] todo\n- plain\n  - nested');
+  const ok = tasks.type === 'list' && !tasks.ordered && tasks.tight && tasks.items.length === 3;
+  console.log(`${ok ? '✅' : '❌'} tight bullet list`);
+  if (tasks.type === 'list') {
+    console.log(`${tasks.items[0].checked === true && tasks.items[1].checked === false && tasks.items[2].checked === null ? '✅' : '❌'} task list markers`);
+    const nested = tasks.items[2].children[1];
+    console.log(`${nested?.type === 'list' && nested.items.length === 1 ? '✅' : '❌'} nested list`);
+  }
+
+  const [ordered] = parseMarkdown('3. three\n\n4. four');
+  console.log(`${ordered.type === 'list' && ordered.ordered && ordered.start === 3 && !ordered.tight ? '✅' : '❌'} loose ordered list keeps start`);
+
+  const [table] = parseMarkdown('| Name | Sats |  Note |\n|:-----|-----:|:-----:|\n| **a** | 1 | x \\| y |\n| b |');
+  if (table.type === 'table') {
+    console.log(`${table.align.join(',') === 'left,right,center' ? '✅' : '❌'} column alignment`);
+    console.log(`${table.rows.length === 2 && table.rows[0][0][0].type === 'strong' ? '✅' : '❌'} inline markdown in cells`);
+    console.log(`${markdownInlineText(table.rows[0][2]) === 'x | y' ? '✅' : '❌'} escaped pipe in cell`);
+    console.log(`${table.rows[1].length === 3 && table.rows[1][2].length === 0 ? '✅' : '❌'} short rows padded`);
+  } else {
+    console.log('❌ table not detected');
+  }
+}
+
+export function testInlines() {
+  console.log('Testing markdown inlines...');
+
+  const nodes = parseInline('***both*** `a*b*` [link](https://ordinals.com "Ord") ~~gone~~ snake_case_name');
+  console.log(`${nodes[0].type === 'emphasis' && nodes[0].children[0].type === 'strong' ? '✅' : '❌'} triple delimiters nest`);
+  console.log(`${nodes[2].type === 'code' && nodes[2].text === 'a*b*' ? '✅' : '❌'} code spans are literal`);
+  const link = nodes[4];
+  console.log(`${link.type === 'link' && link.href === 'https://ordinals.com' && link.title === 'Ord' ? '✅' : '❌'} inline link with title`);
+  console.log(`${nodes[6].type === 'strikethrough' ? '✅' : '❌'} strikethrough`);
+  console.log(`${markdownInlineText(nodes).endsWith('snake_case_name') ? '✅' : '❌'} intraword underscores stay literal`);
+
+  const mixed = parseInline('*a **b** c*');
+  console.log(`${mixed.length === 1 && mixed[0].type === 'emphasis' && mixed[0].children[1].type === 'strong' ? '✅' : '❌'} strong inside emphasis`);
+
+  const [para] = parseMarkdown('See [the docs][docs] and https://example.com.\n\n[docs]: https://docs.ordinals.com');
+  const links = para.type === 'paragraph' ? para.children.filter(node => node.type === 'link') : [];
+  console.log(`${links.length === 2 && links[0].type === 'link' && links[0].href === 'https://docs.ordinals.com' ? '✅' : '❌'} reference link`);
+  console.log(`${links[1]?.type === 'link' && links[1].href === 'https://example.com' ? '✅' : '❌'} bare URL autolink without trailing period`);
+
+  const [image] = parseInline('![sat *art*](/content/abc123i0)');
+  console.log(`${image.type === 'image' && image.src === '/content/abc123i0' && image.alt === 'sat art' ? '✅' : '❌'} image with plain alt text`);
+}
+
+export function testSanitizing() {
+  console.log('Testing HTML sanitizing...');
+
+  const html = parseHtml('<p align="center" onclick="x()"><img src="/content/abc" width="64" onerror="x()"></p><script>alert(1)</script><custom>kept</custom>');
+  const p = html[0];
+  console.log(`${p.type === 'element' && p.tag === 'p' && p.attrs.align === 'center' && !('onclick' in p.attrs) ? '✅' : '❌'} event handler attributes removed`);
+  const img = p.type === 'element' ? p.children[0] : null;
+  console.log(`${img?.type === 'element' && img.attrs.src === '/content/abc' && img.attrs.width === '64' && !('onerror' in img.attrs) ? '✅' : '❌'} image attributes filtered`);
+  console.log(`${html.length === 2 && html[1].type === 'text' && html[1].text === 'kept' ? '✅' : '❌'} script dropped and unknown tag unwrapped`);
+
+  const [iframe] = parseMarkdown('<iframe src="https://evil.example"></iframe>\n\nafter');
+  console.log(`${iframe.type === 'html' && iframe.children.length === 0 ? '✅' : '❌'} iframe block removed`);
+
+  const inline = parseInline('press <kbd>**Ctrl**</kbd> <a href="javascript:alert(1)">x</a>');
+  const kbd = inline[1];
+  console.log(`${kbd.type === 'element' && kbd.tag === 'kbd' && kbd.children[0].type === 'strong' ? '✅' : '❌'} markdown inside inline HTML`);
+  const anchor = inline[3];
+  console.log(`${anchor.type === 'element' && anchor.tag === 'a' && !('href' in anchor.attrs) ? '✅' : '❌'} javascript: href stripped from HTML`);
+
+  const [unsafe] = parseInline('[click](JaVaScRiPt:alert(1))');
+  console.log(`${unsafe.type === 'text' && unsafe.text === 'click' ? '✅' : '❌'} javascript: link rendered as text`);
+  console.log(`${sanitizeUrl('java\tscript:alert(1)') === null && sanitizeUrl(' \u0001javascript:x') === null ? '✅' : '❌'} control characters in schemes ignored`);
+
+  console.log(`${sanitizeUrl('data:image/png;base64,AAAA', 'image') !== null && sanitizeUrl('data:text/html,<b>', 'image') === null ? '✅' : '❌'} only raster data: images allowed`);
+  console.log(`${sanitizeUrl('vbscript:msgbox') === null && sanitizeUrl('mailto:a@b.c') === 'mailto:a@b.c' ? '✅' : '❌'} link schemes filtered`);
+}
+
+export function testRecursiveUrls() {
+  console.log('Testing recursive URL resolution...');
+
+  console.log(`${resolveRecursiveUrl('/content/abc123i0', 'https://ordinals.com/') === 'https://ordinals.com/content/abc123i0' ? '✅' : '❌'} /content/ resolved against endpoint`);
+  console.log(`${resolveRecursiveUrl('/r/metadata/abc', 'http://localhost:4000') === 'http://localhost:4000/r/metadata/abc' ? '✅' : '❌'} /r/ endpoints resolved`);
+  console.log(`${resolveRecursiveUrl('https://example.com/a.png', 'https://ordinals.com') === 'https://example.com/a.png' ? '✅' : '❌'} absolute URLs untouched`);
+}
+
+// Run tests
+testBlocks();
+testListsAndTables();
+testInlines();
+testSanitizing();
+testRecursiveUrls();
+
+export {};
@@ -0,0 +1,44 @@
+import * as THREE from 'three';
+import { resolveModelFormat, buildSceneGraph, collectMaterials } from '../../src/utils/modelInspection';
+
+export function testResolveModelFormat() {
+  console.log('Testing model format resolution...');
+
+  console.log(`${resolveModelFormat('application/octet-stream', 'FBX') === 'fbx' ? '✅' : '❌'} extension wins, case-insensitively`);
+  console.log(`${resolveModelFormat('model/3mf') === '3mf' && resolveModelFormat('model/gltf-binary') === 'glb' ? '✅' : '❌'} MIME type used without an extension`);
+  console.log(`${resolveModelFormat('model/vnd.collada+xml', '') === 'dae' ? '✅' : '❌'} Collada MIME type`);
+  console.log(`${resolveModelFormat('application/octet-stream', 'blend') === null ? '✅' : '❌'} formats without a loader rejected`);
+}
+
+export function testSceneInspection() {
+  console.log('Testing scene graph and material collection...');
+
+  const shared = new THREE.MeshStandardMaterial({ name: 'Paint', color: 0xff0000 });
+  shared.map = new THREE.Texture();
+  shared.normalMap = new THREE.Texture();
+  const plain = new THREE.MeshBasicMaterial();
+
+  const root = new THREE.Group();
+  root.name = 'Root';
+  const body = new THREE.Mesh(new THREE.BoxGeometry(), shared);
+  body.name = 'Body';
+  const wheels = new THREE.Group();
+  wheels.add(new THREE.Mesh(new THREE.BoxGeometry(), shared), new THREE.Mesh(new THREE.PlaneGeometry(), [shared, plain]));
+  root.add(body, wheels);
+
+  const graph = buildSceneGraph(root);
+  console.log(`${graph.name === 'Root' && graph.children.length === 2 && graph.children[1].children.length === 2 ? '✅' : '❌'} tree mirrors the object hierarchy`);
+  console.log(`${graph.vertices === 0 && graph.children[0].vertices === 24 && graph.children[1].children[1].vertices === 4 ? '✅' : '❌'} vertex counts are per node`);
+
+  const materials = collectMaterials(root);
+  const paint = materials.find(m => m.name === 'Paint');
+  console.log(`${materials.length === 2 ? '✅' : '❌'} shared materials listed once (${materials.length})`);
+  console.log(`${paint?.meshes === 3 && paint.color === '#ff0000' ? '✅' : '❌'} usage count and base color`);
+  console.log(`${paint?.textures.map(t => t.slot).join(',') === 'map,normalMap' ? '✅' : '❌'} texture slots in display order`);
+}
+
+// Run tests
+testResolveModelFormat();
+testSceneInspection();
+
+export {};
@@ -0,0 +1,166 @@
+import { PdfDocument, PdfLexer, PdfName, PdfRef, PdfString, PdfOperator } from '../../src/utils/pdfDocument';
+import { PdfRasterizer } from '../../src/utils/pdfRasterizer';
+
+const encoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function stream(dict: string, data: Uint8Array): Uint8Array {
+  return concat(encoder.encode(`<< ${dict} /Length ${data.length} >>\nstream\n`), data, encoder.encode('\nendstream'));
+}
+
+/** Objects numbered from 1, with a classic xref table and correct offsets */
+function buildPdf(objects: Array<string | Uint8Array>, trailer: string, breakOffsets: boolean = false): Uint8Array {
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+
+  objects.forEach((body, i) => {
+    const chunk = concat(
+      encoder.encode(`${i + 1} 0 obj\n`),
+      typeof body === 'string' ? encoder.encode(body) : body,
+      encoder.encode('\nendobj\n')
+    );
+    offsets.push(length);
+    parts.push(chunk);
+    length += chunk.length;
+  });
+
+  const entries = offsets.map(offset => `${String(breakOffsets ? offset + 7 : offset).padStart(10, '0')} 00000 n \n`).join('');
+  parts.push(encoder.encode(
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${entries}trailer\n<< /Size ${objects.length + 1} ${trailer} >>\nstartxref\n${length}\n%%EOF\n`
+  ));
+  return concat(...parts);
+}
+
+async function twoPageFixture(breakOffsets: boolean = false): Promise<Uint8Array> {
+  const first = encoder.encode('BT /F1 12 Tf 72 700 Td (Hello inscriptions) Tj ET');
+  const second = await deflate(encoder.encode('BT /F1 10 Tf 50 50 Td [(Page) -300 (two)] TJ ET'));
+  return buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /MediaBox [0 0 612 792] /Resources << /Font << /F1 7 0 R >> >> >>',
+    '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>',
+    '<< /Type /Page /Parent 2 0 R /Contents 6 0 R /Rotate 90 >>',
+    stream('', first),
+    stream('/Filter /FlateDecode', second),
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Title (Test \\(PDF\\)) /Author <FEFF004100640061> >>'
+  ], '/Root 1 0 R /Info 8 0 R', breakOffsets);
+}
+
+export function testLexer() {
+  console.log('Testing PDF lexer...');
+
+  const lexer = new PdfLexer(encoder.encode('/Name 12 0 R (a\\(b\\)) <4142> 1 0 0 RG [1 2] q'));
+  const tokens = [];
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) tokens.push(token);
+
+  const ref = tokens[1];
+  console.log(`${tokens[0] instanceof PdfName && ref instanceof PdfRef && ref.num === 12 ? '✅' : '❌'} names and references`);
+  console.log(`${tokens[2] instanceof PdfString && tokens[2].text === 'a(b)' && tokens[3] instanceof PdfString && tokens[3].text === 'AB' ? '✅' : '❌'} literal and hex strings`);
+  const rg = tokens[7];
+  console.log(`${tokens[4] === 1 && rg instanceof PdfOperator && rg.op === 'RG' ? '✅' : '❌'} numbers before an operator are not references`);
+  console.log(`${Array.isArray(tokens[8]) && tokens[8].length === 2 ? '✅' : '❌'} arrays`);
+}
+
+export async function testDocumentStructure() {
+  console.log('Testing PDF document loading...');
+
+  const doc = await PdfDocument.load(await twoPageFixture());
+  const [first, second] = [doc.getPage(0), doc.getPage(1)];
+  console.log(`${doc.pageCount === 2 ? '✅' : '❌'} page tree walked`);
+  console.log(`${first.width === 612 && first.height === 792 ? '✅' : '❌'} MediaBox inherited from the page tree`);
+  console.log(`${second.rotate === 90 && second.width === 792 && second.height === 612 ? '✅' : '❌'} rotation swaps displayed size`);
+  console.log(`${doc.info.title === 'Test (PDF)' && doc.info.author === 'Ada' ? '✅' : '❌'} Info dictionary decoded`);
+  console.log(`${!doc.encrypted ? '✅' : '❌'} unencrypted document`);
+
+  const rebuilt = await PdfDocument.load(await twoPageFixture(true));
+  console.log(`${rebuilt.pageCount === 2 ? '✅' : '❌'} damaged xref offsets are rebuilt`);
+
+  let rejected = '';
+  await PdfDocument.load(encoder.encode('not a pdf')).catch(error => { rejected = error.message; });
+  console.log(`${rejected.startsWith('Not a PDF file') ? '✅' : '❌'} non-PDF input rejected`);
+}
+
+export async function testObjectStreams() {
+  console.log('Testing PDF object and xref streams...');
+
+  // Objects 1-3 live in object stream 4; object 5 is the xref stream
+  const content = encoder.encode('BT /F1 12 Tf (Compressed) Tj ET');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 /MediaBox [0 0 200 100] >>',
+    '<< /Type /Page /Parent 2 0 R /Contents 6 0 R /Resources << /Font << /F1 << /Type /Font /Subtype /Type1 /BaseFont /Courier >> >> >> >>'
+  ];
+  let position = 0;
+  const members = objects.map((object, i) => {
+    const entry = `${i + 1} ${position} `;
+    position += object.length + 1;
+    return entry;
+  }).join('');
+  const body = objects.join(' ');
+  const objStm = stream(`/Type /ObjStm /N 3 /First ${members.length} /Filter /FlateDecode`, await deflate(encoder.encode(members + body)));
+
+  const header = encoder.encode('%PDF-1.5\n');
+  const obj4 = concat(encoder.encode('4 0 obj\n'), objStm, encoder.encode('\nendobj\n'));
+  const obj6 = concat(encoder.encode('6 0 obj\n'), stream('', content), encoder.encode('\nendobj\n'));
+  const obj4Offset = header.length;
+  const obj6Offset = obj4Offset + obj4.length;
+  const xrefOffset = obj6Offset + obj6.length;
+
+  // W [1 4 2]: type, offset/stream number, generation/index
+  const row = (type: number, field: number, index: number) => [type, field >>> 24, (field >> 16) & 255, (field >> 8) & 255, field & 255, index >> 8, index & 255];
+  const table = new Uint8Array([
+    ...row(0, 0, 65535), ...row(2, 4, 0), ...row(2, 4, 1), ...row(2, 4, 2),
+    ...row(1, obj4Offset, 0), ...row(1, xrefOffset, 0), ...row(1, obj6Offset, 0)
+  ]);
+  const xref = concat(
+    encoder.encode('5 0 obj\n'),
+    stream('/Type /XRef /Size 7 /W [1 4 2] /Root 1 0 R /Filter /FlateDecode', await deflate(table)),
+    encoder.encode(`\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`)
+  );
+
+  const doc = await PdfDocument.load(concat(header, obj4, obj6, xref));
+  console.log(`${doc.pageCount === 1 && doc.getPage(0).width === 200 ? '✅' : '❌'} objects read from a compressed object stream`);
+
+  const runs = await new PdfRasterizer(doc).extractText(0);
+  console.log(`${runs.length === 1 && runs[0].text === 'Compressed' ? '✅' : '❌'} content stream found through the xref stream`);
+}
+
+export async function testTextExtraction() {
+  console.log('Testing PDF text extraction...');
+
+  const doc = await PdfDocument.load(await twoPageFixture());
+  const rasterizer = new PdfRasterizer(doc);
+  const [first] = await rasterizer.extractText(0);
+  const [second] = await rasterizer.extractText(1);
+
+  console.log(`${first?.text === 'Hello inscriptions' ? '✅' : '❌'} Tj text extracted`);
+  // Baseline at y=700 in a 792pt page: the run's top edge is 82.4pt down
+  console.log(`${first && Math.abs(first.x - 72) < 0.01 && Math.abs(first.y - 82.4) < 0.01 && Math.abs(first.height - 12) < 0.01 ? '✅' : '❌'} run positioned in view space`);
+  // Helvetica widths: "Hello inscriptions" is 90.684pt at 12pt
+  console.log(`${first && Math.abs(first.width - 90.684) < 0.01 ? '✅' : '❌'} run width from standard font metrics`);
+  console.log(`${second?.text === 'Page two' ? '✅' : '❌'} TJ kerning gap becomes a space in flate-compressed content`);
+  console.log(`${second && second.height > second.width ? '✅' : '❌'} rotated page turns horizontal text vertical`);
+}
+
+// Run tests
+testLexer();
+testDocumentStructure()
+  .then(testObjectStreams)
+  .then(testTextExtraction);
+
+export {};
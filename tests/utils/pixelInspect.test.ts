@@ -0,0 +1,47 @@
+import { extractPalette, rgbaToHex, fitIntegerScale, mapToImagePixel, pixelAt } from '../../src/utils/pixelInspect';
+
+export function testPalette() {
+  console.log('Testing palette extraction...');
+
+  const data = Uint8ClampedArray.from([
+    255, 0, 0, 255,   255, 0, 0, 255,   0, 128, 255, 255,
+    10, 20, 30, 0,    0, 0, 0, 0,       255, 0, 0, 128,
+    255, 0, 0, 255
+  ]);
+  const palette = extractPalette(data);
+  console.log(`${palette.total === 4 && palette.pixelCount === 7 ? '✅' : '❌'} distinct colors counted (${palette.total})`);
+  console.log(`${palette.colors[0].hex === '#ff0000' && palette.colors[0].count === 3 ? '✅' : '❌'} most used color first`);
+  console.log(`${palette.colors.some(color => color.a === 0 && color.count === 2) ? '✅' : '❌'} transparent pixels merged regardless of RGB`);
+  console.log(`${palette.colors.some(color => color.hex === '#ff000080') ? '✅' : '❌'} partial alpha kept as its own color`);
+
+  const limited = extractPalette(data, 2);
+  console.log(`${limited.colors.length === 2 && limited.total === 4 ? '✅' : '❌'} limit keeps the total`);
+
+  console.log(`${rgbaToHex(1, 2, 3) === '#010203' && rgbaToHex(255, 255, 255, 0) === '#ffffff00' ? '✅' : '❌'} hex formatting`);
+  console.log(`${pixelAt(data, 3, 2, 0).join(',') === '0,128,255,255' ? '✅' : '❌'} pixel lookup`);
+}
+
+export function testScaling() {
+  console.log('Testing integer scaling and pointer mapping...');
+
+  console.log(`${fitIntegerScale(24, 24, 400, 300) === 12 ? '✅' : '❌'} 24×24 fits at 12×`);
+  console.log(`${fitIntegerScale(32, 32, 2000, 2000, 40) === 40 ? '✅' : '❌'} capped at the maximum scale`);
+  console.log(`${fitIntegerScale(1000, 800, 400, 300) === 1 ? '✅' : '❌'} large images never drop below 1×`);
+
+  const at = (u: number, v: number, rotation: number) => {
+    const pixel = mapToImagePixel(u, v, rotation, 4, 2);
+    return pixel ? `${pixel.x},${pixel.y}` : 'none';
+  };
+  console.log(`${at(0.1, 0.9, 0) === '0,1' ? '✅' : '❌'} unrotated mapping`);
+  // At 90° clockwise the top-right corner of the box shows image pixel (0, 0)
+  console.log(`${at(0.9, 0.1, 90) === '0,0' && at(0.1, 0.9, 90) === '3,1' ? '✅' : '❌'} 90° rotation`);
+  console.log(`${at(0.1, 0.1, 180) === '3,1' ? '✅' : '❌'} 180° rotation`);
+  console.log(`${at(0.1, 0.1, 270) === '3,0' ? '✅' : '❌'} 270° rotation`);
+  console.log(`${at(1, 0.5, 0) === 'none' && at(-0.1, 0.5, 0) === 'none' ? '✅' : '❌'} outside the box`);
+}
+
+// Run tests
+testPalette();
+testScaling();
+
+export {};
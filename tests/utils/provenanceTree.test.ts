@@ -0,0 +1,48 @@
+import {
+  appendRelatives,
+  createProvenanceRoots,
+  provenanceNodeKey
+} from '../../src/utils/provenanceTree';
+
+const ROOT = 'rooti0';
+const CHILDREN_ROOT = provenanceNodeKey('children', [ROOT]);
+
+// Provenance tree bookkeeping tests
+export function testRootsAndKeys() {
+  console.log('Testing provenance roots...');
+
+  const roots = createProvenanceRoots(ROOT, ['parents', 'children']);
+  console.log(`${Object.keys(roots).join() === 'parents:rooti0,children:rooti0' ? '✅' : '❌'} one root per direction`);
+  console.log(`${roots[CHILDREN_ROOT].page === -1 && roots[CHILDREN_ROOT].depth === 0 && !roots[CHILDREN_ROOT].expanded ? '✅' : '❌'} roots start unloaded at depth 0`);
+  console.log(`${provenanceNodeKey('children', ['a', 'b']) !== provenanceNodeKey('parents', ['a', 'b']) ? '✅' : '❌'} keys include the direction`);
+}
+
+export function testPagingAndCycles() {
+  console.log('Testing relative pages...');
+
+  let nodes = createProvenanceRoots(ROOT, ['children']);
+  nodes[CHILDREN_ROOT] = { ...nodes[CHILDREN_ROOT], loading: true };
+
+  const first = appendRelatives(nodes, CHILDREN_ROOT, [{ id: 'ai0' }, { id: 'bi0' }], 0, true);
+  nodes = first.nodes;
+  const root = nodes[CHILDREN_ROOT];
+  console.log(`${first.added.map(n => n.inscriptionId).join() === 'ai0,bi0' && root.page === 0 && root.hasMore && !root.loading ? '✅' : '❌'} first page added`);
+
+  nodes = appendRelatives(nodes, CHILDREN_ROOT, [{ id: 'ci0' }], 1, false).nodes;
+  console.log(`${nodes[CHILDREN_ROOT].relatives.length === 3 && nodes[CHILDREN_ROOT].page === 1 && !nodes[CHILDREN_ROOT].hasMore ? '✅' : '❌'} next page appended`);
+
+  const childKey = provenanceNodeKey('children', [ROOT, 'ai0']);
+  const nested = appendRelatives(nodes, childKey, [{ id: ROOT }, { id: 'ai0' }, { id: 'di0' }], 0, false);
+  const grandchild = nested.nodes[provenanceNodeKey('children', [ROOT, 'ai0', 'di0'])];
+  console.log(`${nested.added.map(n => n.inscriptionId).join() === 'di0' ? '✅' : '❌'} relatives already in the ancestry are dropped`);
+  console.log(`${grandchild?.depth === 2 && grandchild.ancestry.join('/') === 'rooti0/ai0/di0' ? '✅' : '❌'} nested node carries its ancestry`);
+
+  const reset = appendRelatives(createProvenanceRoots('otheri0', ['children']), childKey, [{ id: 'ei0' }], 0, false);
+  console.log(`${reset.added.length === 0 && Object.keys(reset.nodes).length === 1 ? '✅' : '❌'} pages for a reset tree are ignored`);
+}
+
+// Run tests
+testRootsAndKeys();
+testPagingAndCycles();
+
+export {};
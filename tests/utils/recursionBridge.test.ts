@@ -0,0 +1,75 @@
+import {
+  isRecursivePath,
+  normalizeRecursivePath,
+  isBridgeRequest,
+  rewriteRecursiveReferences,
+  prepareIsolatedHtml,
+  createBridgeResponse,
+  RECURSION_BRIDGE_CHANNEL
+} from '../../src/utils/recursionBridge';
+
+export function testRecursivePaths() {
+  console.log('Testing recursive path and message checks...');
+
+  console.log(`${isRecursivePath('/content/abci0') && isRecursivePath('/r/blockheight') ? '✅' : '❌'} content and /r/ paths accepted`);
+  console.log(`${!isRecursivePath('/api/keys') && !isRecursivePath('/r/../admin') && !isRecursivePath('content/x') ? '✅' : '❌'} other paths refused`);
+  console.log(`${!isRecursivePath('/r/%2e%2e/status') && !isRecursivePath('/r/%2E./status') && !isRecursivePath('/content/%2fstatus') ? '✅' : '❌'} percent-encoded traversal refused`);
+  console.log(`${!isRecursivePath('/r/..\\status') && !isRecursivePath('/content\\..\\status') && !isRecursivePath('//evil.example/r/x') ? '✅' : '❌'} backslash and protocol-relative paths refused`);
+  console.log(`${normalizeRecursivePath('/content/../content/abci0?x=1') === '/content/abci0?x=1' && normalizeRecursivePath('/content/../status') === null ? '✅' : '❌'} allowlist checked after resolving dot segments`);
+  console.log(`${isBridgeRequest({ channel: RECURSION_BRIDGE_CHANNEL, type: 'request', id: 1, path: '/r/blockhash' }) ? '✅' : '❌'} bridge request recognised`);
+  console.log(`${!isBridgeRequest({ type: 'request', id: 1, path: '/r/blockhash' }) && !isBridgeRequest(null) ? '✅' : '❌'} foreign messages ignored`);
+}
+
+export function testRewriteReferences() {
+  console.log('Testing reference rewriting...');
+
+  const images = rewriteRecursiveReferences('<img src="/content/abci0"><a href="/content/abci1">x</a><img src="https://example.com/a.png">');
+  console.log(`${images.html === '<img data-ord-src="/content/abci0"><a href="/content/abci1">x</a><img src="https://example.com/a.png">' ? '✅' : '❌'} static loads rewritten, links and external URLs kept`);
+  console.log(`${!images.deferredScripts ? '✅' : '❌'} scripts left alone without recursive script sources`);
+
+  const scripts = rewriteRecursiveReferences(`<script src='/content/libi0'></script><script>go()</script><script type="application/json">{}</script><script type="module">m()</script>`);
+  console.log(`${scripts.deferredScripts ? '✅' : '❌'} recursive script source defers scripts`);
+  console.log(`${scripts.html.startsWith(`<script type="text/ord-deferred" data-ord-src='/content/libi0'></script><script type="text/ord-deferred">go()</script>`) ? '✅' : '❌'} classic scripts deferred in order (${scripts.html})`);
+  const modules = rewriteRecursiveReferences(`<script type="module">import { draw } from '/content/libi0'; draw()</script><script>run()</script>`);
+  console.log(`${modules.deferredScripts && modules.html.startsWith('<script type="text/ord-deferred" data-ord-type="module">') ? '✅' : '❌'} inline module importing a recursive module defers scripts`);
+  console.log(`${!rewriteRecursiveReferences(`<script type="module">import { a } from './a.js'</script>`).deferredScripts ? '✅' : '❌'} non-recursive imports left alone`);
+  console.log(`${scripts.html.includes('<script type="application/json">{}</script>') && scripts.html.includes('<script type="text/ord-deferred" data-ord-type="module">m()</script>') ? '✅' : '❌'} data blocks kept, module type remembered`);
+}
+
+export function testPrepareIsolatedHtml() {
+  console.log('Testing isolated document preparation...');
+
+  const full = prepareIsolatedHtml('<!DOCTYPE html><html><head><title>t</title></head><body><img src="/content/x"></body></html>');
+  console.log(`${full.startsWith('<!DOCTYPE html><html><head><script>') && full.includes('data-ord-src="/content/x"') ? '✅' : '❌'} bootstrap injected first in the head`);
+  const fragment = prepareIsolatedHtml('<!doctype html><p>hi</p>');
+  console.log(`${fragment.startsWith('<!doctype html><script>') ? '✅' : '❌'} bootstrap kept after the doctype`);
+  const bootstrap = full.slice('<!DOCTYPE html><html><head><script>'.length, full.indexOf('</script>'));
+  let parses = true;
+  try { new Function(bootstrap); } catch { parses = false; }
+  console.log(`${parses ? '✅' : '❌'} bootstrap script is valid JavaScript`);
+  console.log(`${prepareIsolatedHtml('<p>hi</p>').startsWith('<script>') && !/<\/script>[\s\S]*<\/script>/.test(prepareIsolatedHtml('<p>hi</p>')) ? '✅' : '❌'} bare fragment gets one bootstrap script`);
+}
+
+export async function testCreateBridgeResponse() {
+  console.log('Testing bridge responses...');
+
+  const ok = await createBridgeResponse(7, {
+    success: true,
+    source: 'ordinals.com',
+    data: { blob: new Blob(['840000'], { type: 'text/plain' }), contentType: 'text/plain', size: 6 }
+  });
+  console.log(`${ok.id === 7 && ok.status === 200 && ok.body?.byteLength === 6 && ok.contentType === 'text/plain' ? '✅' : '❌'} successful lookup carries the body`);
+
+  const missing = await createBridgeResponse(8, { success: false, source: 'ordinals.com', error: 'HTTP 404: Not Found', errorCode: 'http', status: 404 });
+  console.log(`${missing.status === 404 && missing.body === null ? '✅' : '❌'} HTTP status kept for failures`);
+  const refused = await createBridgeResponse(9, { success: false, source: 'none', data: null, error: '/x is not a recursive endpoint', errorCode: 'unsupported' });
+  console.log(`${refused.status === 502 && refused.error === '/x is not a recursive endpoint' ? '✅' : '❌'} other failures reported as 502`);
+}
+
+// Run tests
+testRecursivePaths();
+testRewriteReferences();
+testPrepareIsolatedHtml();
+testCreateBridgeResponse();
+
+export {};
@@ -0,0 +1,103 @@
+import { RequestCoalescer } from '../../src/utils/requestCoalescer';
+
+const CONTENT_URL = 'https://ordinals.com/content/6fb976ab49dcec017f1e201e84395983204ae1a7c2abf7ced0a85d692e442799i0';
+
+// Counting fetcher that answers after a short delay
+function createFetcher() {
+  const calls: string[] = [];
+  const fetcher = async (url: string, options?: RequestInit) => {
+    calls.push(`${url} ${new Headers(options?.headers).get('range') || ''}`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return new Response('inscription body', { status: 200, headers: { 'content-type': 'text/plain', 'content-length': '16' } });
+  };
+  return { calls, fetcher };
+}
+
+// Request coalescing tests
+export async function testConcurrentRequestsShareOneFetch() {
+  console.log('Testing concurrent request coalescing...');
+
+  const coalescer = new RequestCoalescer();
+  const { calls, fetcher } = createFetcher();
+
+  const responses = await Promise.all([
+    coalescer.fetch(CONTENT_URL, {}, fetcher),
+    coalescer.fetch(CONTENT_URL, {}, fetcher),
+    coalescer.fetch(CONTENT_URL, {}, fetcher)
+  ]);
+  const bodies = await Promise.all(responses.map(response => response.text()));
+
+  console.log(`${calls.length === 1 ? '✅' : '❌'} one network request for three callers (${calls.length})`);
+  console.log(`${bodies.every(body => body === 'inscription body') ? '✅' : '❌'} every caller can read the body`);
+
+  const stats = coalescer.getStats();
+  console.log(`${stats.coalesced === 2 && stats.inFlight === 0 && stats.bytesShared === 32 ? '✅' : '❌'} stats:`, stats);
+}
+
+export async function testResponsesPassThrough() {
+  console.log('Testing opaque and streamed responses...');
+
+  const coalescer = new RequestCoalescer();
+  // Stands in for a no-cors response: status 0, which no Response constructor accepts
+  const opaqueFetcher = async () => {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return Response.error();
+  };
+  const opaque = await Promise.all([1, 2].map(() => coalescer.fetch(CONTENT_URL, { mode: 'no-cors' }, opaqueFetcher)));
+  console.log(`${opaque.every(response => response.status === 0 && response.type === 'error') ? '✅' : '❌'} status 0 responses reach every caller unchanged`);
+
+  let original: Response | null = null;
+  const streamingFetcher = async () => {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    original = new Response('x'.repeat(1 << 16));
+    return original;
+  };
+  const shared = await Promise.all([1, 2, 3].map(() => coalescer.fetch(CONTENT_URL, {}, streamingFetcher)));
+  const lengths = await Promise.all(shared.map(async response => (await response.text()).length));
+  console.log(`${shared.filter(response => response === original).length === 1 ? '✅' : '❌'} last caller takes the fetched response itself, others get clones`);
+  console.log(`${lengths.every(length => length === 1 << 16) ? '✅' : '❌'} every caller reads the full body`);
+}
+
+export async function testDistinctRequestsAreNotMerged() {
+  console.log('Testing that different requests stay separate...');
+
+  const coalescer = new RequestCoalescer();
+  const { calls, fetcher } = createFetcher();
+
+  await Promise.all([
+    coalescer.fetch(CONTENT_URL, {}, fetcher),
+    coalescer.fetch(CONTENT_URL, { headers: { Range: 'bytes=0-8191' } }, fetcher),
+    coalescer.fetch(CONTENT_URL, { method: 'POST', body: '{}' }, fetcher)
+  ]);
+  console.log(`${calls.length === 3 ? '✅' : '❌'} range and POST requests fetched separately (${calls.length})`);
+
+  // Sequential requests are not cached, only deduplicated while in flight
+  await coalescer.fetch(CONTENT_URL, {}, fetcher);
+  console.log(`${calls.length === 4 ? '✅' : '❌'} completed requests are not reused`);
+}
+
+export async function testAbortOnlyAffectsCaller() {
+  console.log('Testing per-caller abort...');
+
+  const coalescer = new RequestCoalescer();
+  const { calls, fetcher } = createFetcher();
+  const controller = new AbortController();
+
+  const aborted = coalescer.fetch(CONTENT_URL, { signal: controller.signal }, fetcher);
+  const survivor = coalescer.fetch(CONTENT_URL, {}, fetcher);
+  controller.abort();
+
+  const abortResult = await aborted.then(() => 'resolved', (error: Error) => error.name);
+  const survivorBody = await (await survivor).text();
+
+  console.log(`${abortResult === 'AbortError' ? '✅' : '❌'} aborted caller rejects with AbortError`);
+  console.log(`${survivorBody === 'inscription body' && calls.length === 1 ? '✅' : '❌'} other caller still gets the shared response`);
+}
+
+// Run tests
+testConcurrentRequestsShareOneFetch()
+  .then(testResponsesPassThrough)
+  .then(testDistinctRequestsAreNotMerged)
+  .then(testAbortOnlyAffectsCaller);
+
+export {};
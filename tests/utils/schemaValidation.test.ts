@@ -0,0 +1,78 @@
+import { validateSchema } from '../../src/utils/schemaValidation';
+import { ordinalsApiSchemas } from '../../src/services/ordinalsApiSchemas';
+
+// Schema validation tests
+export function testInscriptionSchema() {
+  console.log('Testing inscription schema validation...');
+
+  const testCases = [
+    {
+      name: 'current ord response',
+      data: {
+        id: '6fb976ab49dcec017f1e201e84395983204ae1a7c2abf7ced0a85d692e442799i0',
+        number: 0,
+        charms: [],
+        content_type: 'image/png',
+        effective_content_type: 'image/png',
+        delegate: null,
+        fee: 322,
+        height: 767430,
+        parents: [],
+        children: [],
+        rune: null,
+        sat: 1252201400444387,
+        timestamp: 1671049920
+      },
+      expectValid: true,
+      expectIssues: 0
+    },
+    {
+      name: 'new field added upstream',
+      data: { id: 'abci0', number: 1, some_future_field: true },
+      expectValid: true,
+      expectIssues: 1
+    },
+    {
+      name: 'mistyped field',
+      data: { id: 'abci0', number: '1' },
+      expectValid: false,
+      expectIssues: 1
+    },
+    {
+      name: 'missing id',
+      data: { number: 1 },
+      expectValid: false,
+      expectIssues: 1
+    }
+  ];
+
+  testCases.forEach(testCase => {
+    const result = validateSchema(ordinalsApiSchemas.inscription, testCase.data);
+    const passed = result.valid === testCase.expectValid && result.issues.length === testCase.expectIssues;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}:`, result.issues);
+  });
+}
+
+export function testUtxoSchema() {
+  console.log('Testing utxo schema validation...');
+
+  const valid = validateSchema(ordinalsApiSchemas.utxo, {
+    inscriptions: ['abci0'],
+    runes: { 'UNCOMMON•GOODS': { amount: 6845, divisibility: 0, symbol: '⧉' } },
+    sat_ranges: [[1, 2]],
+    value: 10000
+  });
+  console.log(`${valid.valid ? '✅' : '❌'} utxo with runes and sat ranges`);
+
+  const malformedRange = validateSchema(ordinalsApiSchemas.utxo, {
+    sat_ranges: [[1, 2, 3]],
+    value: 10000
+  });
+  console.log(`${!malformedRange.valid ? '✅' : '❌'} malformed sat range rejected:`, malformedRange.issues);
+}
+
+// Run tests
+testInscriptionSchema();
+testUtxoSchema();
+
+export {};
@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+import { extractTriangles, rasterize } from '../../src/utils/softwareRasterizer';
+
+function pixel(image: { data: Uint8ClampedArray, width: number }, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+}
+
+export function testExtractTriangles() {
+  console.log('Testing triangle extraction...');
+
+  const root = new THREE.Group();
+  const red = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ color: 0xff0000 }));
+  red.position.x = 10;
+  const hidden = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial());
+  hidden.visible = false;
+  root.add(red, hidden);
+
+  const all = extractTriangles(root);
+  console.log(`${all.count === 12 ? '✅' : '❌'} hidden meshes skipped (${all.count} triangles)`);
+  const xs = Array.from(all.positions).filter((_, i) => i % 3 === 0);
+  console.log(`${Math.min(...xs) === 9.5 && Math.max(...xs) === 10.5 ? '✅' : '❌'} positions in world space`);
+  console.log(`${all.colors[0] === 1 && all.colors[1] === 0 && all.colors[2] === 0 ? '✅' : '❌'} material color carried per triangle`);
+
+  const reduced = extractTriangles(root, 5);
+  console.log(`${reduced.count === 4 ? '✅' : '❌'} decimated to every nth triangle (${reduced.count})`);
+}
+
+export function testRasterize() {
+  console.log('Testing software rasterizer...');
+
+  const box = extractTriangles(new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial({ color: 0xffffff })));
+  const image = rasterize(box, { width: 32, height: 32 });
+  const centre = pixel(image, 16, 16);
+  console.log(`${image.data.length === 32 * 32 * 4 ? '✅' : '❌'} image sized to the view`);
+  console.log(`${centre[3] === 255 && centre[0] > 0 && centre[0] === centre[1] ? '✅' : '❌'} model drawn and shaded in the centre (${centre})`);
+  console.log(`${pixel(image, 0, 0)[3] === 0 ? '✅' : '❌'} background left transparent`);
+
+  const front = rasterize(box, { width: 32, height: 32 });
+  const turned = rasterize(box, { width: 32, height: 32, rotationY: Math.PI / 4, rotationX: 0.5 });
+  console.log(`${pixel(front, 16, 16)[0] !== pixel(turned, 16, 16)[0] ? '✅' : '❌'} rotation changes the shading`);
+
+  const small = rasterize(box, { width: 32, height: 32, zoom: 0.25 });
+  console.log(`${pixel(small, 16, 16)[3] === 255 && pixel(small, 4, 16)[3] === 0 ? '✅' : '❌'} zoom scales the model`);
+
+  const wire = rasterize(box, { width: 32, height: 32, wireframe: true, background: [0, 0, 0, 255] });
+  const lit = Array.from({ length: 32 * 32 }, (_, i) => wire.data[i * 4]).filter(v => v > 0).length;
+  console.log(`${lit > 0 && lit < 32 * 32 / 2 ? '✅' : '❌'} wireframe draws edges only (${lit} pixels)`);
+
+  const empty = rasterize({ positions: new Float32Array(0), colors: new Float32Array(0), count: 0 }, { width: 4, height: 4, background: [1, 2, 3, 4] });
+  console.log(`${pixel(empty, 2, 2).join(',') === '1,2,3,4' ? '✅' : '❌'} empty input returns the background`);
+}
+
+// Run tests
+testExtractTriangles();
+testRasterize();
+
+export {};
@@ -0,0 +1,82 @@
+import {
+  tokenize,
+  resolveLanguage,
+  getSupportedLanguages,
+  IncrementalTokenizer,
+  SyntaxToken
+} from '../../src/utils/syntaxHighlighter';
+
+function typesOf(line: SyntaxToken[], value: string): string[] {
+  return line.filter(token => token.value.includes(value)).map(token => token.type);
+}
+
+// Syntax highlighter tests
+export function testNoCrossContamination() {
+  console.log('Testing that tokens do not leak into each other...');
+
+  const [comment, string] = tokenize([
+    '// const x = "not a string"',
+    'const s = "if // not a comment";'
+  ].join('\n'), 'javascript');
+
+  console.log(`${comment.length === 1 && comment[0].type === 'comment' ? '✅' : '❌'} string inside a comment stays a comment`);
+  console.log(`${typesOf(string, 'if //').join() === 'string' ? '✅' : '❌'} keyword and comment marker inside a string stay a string`);
+  console.log(`${typesOf(string, 'const').join() === 'keyword' ? '✅' : '❌'} real keyword is still a keyword`);
+
+  const roundTrip = tokenize('<span class="a">&amp;</span>', 'html')[0].map(token => token.value).join('');
+  console.log(`${roundTrip === '<span class="a">&amp;</span>' ? '✅' : '❌'} markup text round-trips unchanged`);
+}
+
+export function testMultiLineState() {
+  console.log('Testing state carried across lines...');
+
+  const js = tokenize('/* start\n still comment */ let a = `x\n${a + 1} y`;', 'javascript');
+  console.log(`${js[1][0].type === 'comment' && typesOf(js[1], 'let').join() === 'keyword' ? '✅' : '❌'} block comment spans lines`);
+  console.log(`${typesOf(js[2], ' y').join() === 'string' && typesOf(js[2], 'a').includes('plain') ? '✅' : '❌'} template expression and tail highlighted`);
+
+  const py = tokenize('x = """doc\nstill doc"""\nif x: pass', 'python');
+  console.log(`${py[1][0].type === 'string' && py[2][0].type === 'keyword' ? '✅' : '❌'} triple-quoted string ends correctly`);
+
+  const html = tokenize('<script>\nconst a = 1; // <b>\n</script><p>', 'html');
+  console.log(`${typesOf(html[1], 'const').join() === 'keyword' && html[2][0].type === 'tag' ? '✅' : '❌'} embedded script uses the JavaScript grammar`);
+}
+
+export function testLanguageResolution() {
+  console.log('Testing language resolution...');
+
+  const checks: Array<[string, string]> = [
+    [resolveLanguage({ fileExtension: 'rs' }), 'rust'],
+    [resolveLanguage({ mimeType: 'text/x-python; charset=utf-8' }), 'python'],
+    [resolveLanguage({ language: 'sh' }), 'bash'],
+    [resolveLanguage({ content: '#!/usr/bin/env node\nconsole.log(1)' }), 'javascript'],
+    [resolveLanguage({ fileExtension: 'unknown' }), 'plaintext']
+  ];
+  const failed = checks.filter(([actual, expected]) => actual !== expected);
+  console.log(`${failed.length === 0 ? '✅' : '❌'} language resolution`, failed);
+  console.log(`${getSupportedLanguages().length >= 40 ? '✅' : '❌'} ${getSupportedLanguages().length} grammars registered`);
+}
+
+export function testIncrementalUpdates() {
+  console.log('Testing incremental re-tokenization...');
+
+  const text = Array.from({ length: 50 }, (_, i) => `let v${i} = ${i};`).join('\n');
+  const tokenizer = new IncrementalTokenizer('javascript', text);
+  const before = tokenizer.getTokens();
+
+  const start = tokenizer.update(text.replace('let v10 = 10;', '/* opened'));
+  const after = tokenizer.getTokens();
+  console.log(`${start === 10 ? '✅' : '❌'} re-tokenizes from the first changed line`);
+  console.log(`${after[49][0].type === 'comment' ? '✅' : '❌'} unclosed comment propagates to the end`);
+
+  tokenizer.update(text);
+  const restored = tokenizer.getTokens();
+  console.log(`${JSON.stringify(restored) === JSON.stringify(before) ? '✅' : '❌'} reverting the edit restores the original tokens`);
+}
+
+// Run tests
+testNoCrossContamination();
+testMultiLineState();
+testLanguageResolution();
+testIncrementalUpdates();
+
+export {};
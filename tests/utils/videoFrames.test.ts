@@ -0,0 +1,26 @@
+import { scoreFrame, isUsablePoster, posterCandidateTimes, thumbnailTimes, stepFrameTime } from '../../src/utils/videoFrames';
+
+export function testFrameHelpers() {
+  console.log('Testing poster and frame helpers...');
+
+  const black = new Uint8ClampedArray(400).fill(0);
+  const stripes = new Uint8ClampedArray(400);
+  for (let i = 0; i < stripes.length; i += 4) stripes.fill(i % 8 === 0 ? 220 : 40, i, i + 4);
+  console.log(`${!isUsablePoster(scoreFrame(black)) ? '✅' : '❌'} black frame rejected`);
+  const score = scoreFrame(stripes);
+  console.log(`${isUsablePoster(score) && Math.round(score.brightness) === 130 && Math.round(score.contrast) === 90 ? '✅' : '❌'} detailed frame accepted (${score.brightness.toFixed(1)}, ${score.contrast.toFixed(1)})`);
+
+  console.log(`${posterCandidateTimes(20).join(',') === '2,5,10,15' ? '✅' : '❌'} poster candidates spread over short videos`);
+  console.log(`${posterCandidateTimes(600).join(',') === '5,15,30,60' ? '✅' : '❌'} long videos stay near the start`);
+  console.log(`${thumbnailTimes(10, 4).join(',') === '1.25,3.75,6.25,8.75' ? '✅' : '❌'} thumbnails centred in their slices`);
+
+  const next = stepFrameTime(1, 1, 25, 10);
+  console.log(`${Math.abs(next - 1.06) < 1e-9 ? '✅' : '❌'} next frame lands mid-frame (${next})`);
+  console.log(`${Math.abs(stepFrameTime(next, 1, 25, 10) - 1.1) < 1e-9 ? '✅' : '❌'} repeated steps advance one frame each`);
+  console.log(`${stepFrameTime(0, -1, 25, 10) === 0 && stepFrameTime(10, 5, 25, 10) === 10 ? '✅' : '❌'} clamped to the video`);
+}
+
+// Run tests
+testFrameHelpers();
+
+export {};
@@ -0,0 +1,107 @@
+import { parseVideoMetadata, parseMp4Metadata, parseWebmMetadata, describeCodec } from '../../src/utils/videoMetadata';
+
+const encoder = new TextEncoder();
+
+function bytes(...parts: Array<number[] | Uint8Array | string>): Uint8Array {
+  const arrays = parts.map(part => (typeof part === 'string' ? encoder.encode(part) : Uint8Array.from(part)));
+  const output = new Uint8Array(arrays.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  arrays.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+const be16 = (value: number) => [value >> 8, value & 255];
+const be32 = (value: number) => [value >>> 24, (value >> 16) & 255, (value >> 8) & 255, value & 255];
+const zeros = (length: number) => new Array(length).fill(0);
+
+function box(type: string, ...children: Array<number[] | Uint8Array | string>): Uint8Array {
+  const payload = bytes(...children);
+  return bytes(be32(payload.length + 8), type, payload);
+}
+
+function mp4Track(handler: string, timescale: number, duration: number, entry: Uint8Array, stts: number[][] = []): Uint8Array {
+  const mdhd = box('mdhd', zeros(12), be32(timescale), be32(duration), zeros(4));
+  const hdlr = box('hdlr', zeros(8), handler, zeros(12), [0]);
+  const sttsBox = box('stts', zeros(4), be32(stts.length), ...stts.map(([count, delta]) => [...be32(count), ...be32(delta)]));
+  const stbl = box('stbl', box('stsd', zeros(4), be32(1), entry), sttsBox);
+  return box('trak', box('mdia', mdhd, hdlr, box('minf', stbl)));
+}
+
+export function testMp4() {
+  console.log('Testing MP4 metadata...');
+
+  const avcC = box('avcC', [1, 0x64, 0x00, 0x1f, 0xff]);
+  const visual = box('avc1', zeros(24), be16(1280), be16(720), zeros(50), avcC);
+  const audio = box('mp4a', zeros(16), be16(2), be16(16), zeros(4), be16(48000), be16(0));
+  const moov = box('moov',
+    box('mvhd', zeros(12), be32(1000), be32(10000), zeros(80)),
+    mp4Track('vide', 12800, 128000, visual, [[250, 512], [50, 512]]),
+    mp4Track('soun', 48000, 480000, audio)
+  );
+  const file = bytes(box('ftyp', 'isom', zeros(4), 'isomavc1'), moov, box('mdat', zeros(1000 - 8)));
+
+  const metadata = parseVideoMetadata(file);
+  console.log(`${metadata?.container === 'mp4' && metadata.brand === 'isom' && metadata.duration === 10 ? '✅' : '❌'} brand and movie duration`);
+  const video = metadata?.tracks[0];
+  console.log(`${video?.kind === 'video' && video.codec === 'avc1.64001f' && video.width === 1280 && video.height === 720 ? '✅' : '❌'} H.264 track with profile and size (${video?.codec})`);
+  console.log(`${video?.frameRate === 30 ? '✅' : '❌'} frame rate from sample count (${video?.frameRate})`);
+  const sound = metadata?.tracks[1];
+  console.log(`${sound?.kind === 'audio' && sound.channels === 2 && sound.sampleRate === 48000 ? '✅' : '❌'} audio channels and rate`);
+  console.log(`${metadata?.bitrate === Math.round((file.length * 8) / 10) ? '✅' : '❌'} bitrate over the whole file`);
+
+  // moov after mdat, as written by many encoders
+  const late = parseMp4Metadata(bytes(box('ftyp', 'mp42', zeros(4)), box('mdat', zeros(16)), moov));
+  console.log(`${late?.tracks.length === 2 ? '✅' : '❌'} moov at the end of the file`);
+}
+
+/** EBML element with a one-byte size, or an eight-byte size when asked */
+function el(id: number[], payload: Uint8Array | number[], unknownSize = false): Uint8Array {
+  const data = Uint8Array.from(payload);
+  const size = unknownSize ? [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff] : [0x80 | data.length];
+  return bytes(id, size, data);
+}
+
+const float64 = (value: number) => {
+  const buffer = new DataView(new ArrayBuffer(8));
+  buffer.setFloat64(0, value);
+  return Array.from(new Uint8Array(buffer.buffer));
+};
+
+export function testWebm() {
+  console.log('Testing WebM metadata...');
+
+  const header = el([0x1a, 0x45, 0xdf, 0xa3], el([0x42, 0x82], Array.from(encoder.encode('webm'))));
+  const info = el([0x15, 0x49, 0xa9, 0x66], bytes(el([0x2a, 0xd7, 0xb1], be32(1000000)), el([0x44, 0x89], float64(12500))));
+  const videoTrack = el([0xae], bytes(
+    el([0x83], [1]),
+    el([0x86], Array.from(encoder.encode('V_VP9'))),
+    el([0x23, 0xe3, 0x83], be32(40000000)),
+    el([0xe0], bytes(el([0xb0], be16(640)), el([0xba], be16(360))))
+  ));
+  const audioTrack = el([0xae], bytes(
+    el([0x83], [2]),
+    el([0x86], Array.from(encoder.encode('A_OPUS'))),
+    el([0xe1], bytes(el([0xb5], float64(48000)), el([0x9f], [1])))
+  ));
+  const tracks = el([0x16, 0x54, 0xae, 0x6b], bytes(videoTrack, audioTrack));
+  const cluster = el([0x1f, 0x43, 0xb6, 0x75], zeros(8), true);
+  const file = bytes(header, el([0x18, 0x53, 0x80, 0x67], bytes(info, tracks, cluster), true));
+
+  const metadata = parseWebmMetadata(file);
+  console.log(`${metadata?.container === 'webm' && metadata.duration === 12.5 ? '✅' : '❌'} doc type and scaled duration (${metadata?.duration})`);
+  const [video, audio] = metadata?.tracks ?? [];
+  console.log(`${video?.codec === 'V_VP9' && video.width === 640 && video.height === 360 && video.frameRate === 25 ? '✅' : '❌'} VP9 track size and frame rate`);
+  console.log(`${audio?.codec === 'A_OPUS' && audio.sampleRate === 48000 && audio.channels === 1 ? '✅' : '❌'} Opus track`);
+  console.log(`${parseVideoMetadata(file)?.bitrate === Math.round((file.length * 8) / 12.5) ? '✅' : '❌'} detected without an ftyp box`);
+  console.log(`${parseVideoMetadata(bytes('RIFF', zeros(12))) === null ? '✅' : '❌'} other formats ignored`);
+  console.log(`${describeCodec('avc1.64001f') === 'H.264' && describeCodec('V_VP9') === 'VP9' && describeCodec('xyz1') === 'xyz1' ? '✅' : '❌'} codec names`);
+}
+
+// Run tests
+testMp4();
+testWebm();
+
+export {};